@@ -4,11 +4,15 @@ import { Toaster } from "sonner";
 import { AuthProvider } from "@/contexts/AuthContext";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import MainLayout from "@/components/layout/MainLayout";
+import { PlanLimitPrompt } from "@/components/billing/PlanLimitPrompt";
+import { SecurityPolicyNotice } from "@/components/security/SecurityPolicyNotice";
 import LandingPage from "@/pages/LandingPage";
 import LoginPage from "@/pages/LoginPage";
 import SignupPage from "@/pages/SignupPage";
 import PasswordResetPage from "@/pages/PasswordResetPage";
 import EmailVerification from "@/pages/auth/EmailVerification";
+import SSOCallback from "@/pages/auth/SSOCallback";
+import AcceptInvitation from "@/pages/auth/AcceptInvitation";
 import Dashboard from "@/pages/Dashboard";
 import ContentLibrary from "@/pages/ContentLibrary";
 import VideoPlayer from "@/pages/VideoPlayer";
@@ -26,6 +30,7 @@ import ContentList from "@/pages/ContentList";
 import CheckoutPage from "@/pages/CheckoutPage";
 import BillingHistory from "@/pages/BillingHistory";
 import HelpPage from "@/pages/HelpPage";
+import CertificateVerifyPage from "@/pages/CertificateVerifyPage";
 import NotFound from "@/pages/NotFound";
 
 // React Query client with optimal defaults
@@ -80,8 +85,21 @@ export default function App() {
                 </ProtectedRoute>
               } 
             />
+            <Route path="/auth/sso/callback" element={<SSOCallback />} />
             <Route path="/help" element={<HelpPage />} />
+            <Route path="/certificates/verify" element={<CertificateVerifyPage />} />
+            <Route path="/certificates/verify/:code" element={<CertificateVerifyPage />} />
             
+            {/* Protected routes without layout */}
+            <Route 
+              path="/invitations/accept" 
+              element={
+                <ProtectedRoute>
+                  <AcceptInvitation />
+                </ProtectedRoute>
+              } 
+            />
+
             {/* Protected routes with layout */}
             <Route 
               path="/dashboard" 
@@ -259,6 +277,8 @@ export default function App() {
             {/* 404 */}
             <Route path="*" element={<NotFound />} />
           </Routes>
+          <PlanLimitPrompt />
+          <SecurityPolicyNotice />
         </BrowserRouter>
         <Toaster />
       </AuthProvider>
@@ -4,6 +4,7 @@
  */
 
 import { api } from '@/lib/api';
+import { SecurityPolicyService } from '@/services/securityPolicyService';
 import type {
   AdminAnalytics,
   AdminAnalyticsInsert,
@@ -228,6 +229,11 @@ export const adminDashboardApi = {
 // Admin Management API
 // =====================================================
 
+// Management mutations go through the admin_action security rules first,
+// evaluated on the server
+const requireAdminAction = (name: string, resourceType: string, resourceId: string) =>
+  SecurityPolicyService.authorizeAdminAction({ name, category: 'admin', resourceType, resourceId });
+
 export const adminManagementApi = {
   // User management
   users: {
@@ -247,16 +253,19 @@ export const adminManagementApi = {
 
     // Update user role
     updateRole: async (userId: string, role: string): Promise<AdminApiResponse<any>> => {
+      await requireAdminAction('update_user_role', 'user', userId);
       return api.put<AdminApiResponse<any>>(`/admin/users/${userId}/role`, { role });
     },
 
     // Deactivate user
     deactivate: async (userId: string): Promise<AdminApiResponse<any>> => {
+      await requireAdminAction('deactivate_user', 'user', userId);
       return api.put<AdminApiResponse<any>>(`/admin/users/${userId}/deactivate`, {});
     },
 
     // Activate user
     activate: async (userId: string): Promise<AdminApiResponse<any>> => {
+      await requireAdminAction('activate_user', 'user', userId);
       return api.put<AdminApiResponse<any>>(`/admin/users/${userId}/activate`, {});
     },
   },
@@ -270,16 +279,19 @@ export const adminManagementApi = {
 
     // Approve content
     approve: async (contentId: string, contentType: 'reel' | 'course'): Promise<AdminApiResponse<any>> => {
+      await requireAdminAction('approve_content', contentType, contentId);
       return api.put<AdminApiResponse<any>>(`/admin/content/${contentType}/${contentId}/approve`, {});
     },
 
     // Reject content
     reject: async (contentId: string, contentType: 'reel' | 'course', reason: string): Promise<AdminApiResponse<any>> => {
+      await requireAdminAction('reject_content', contentType, contentId);
       return api.put<AdminApiResponse<any>>(`/admin/content/${contentType}/${contentId}/reject`, { reason });
     },
 
     // Archive content
     archive: async (contentId: string, contentType: 'reel' | 'course'): Promise<AdminApiResponse<any>> => {
+      await requireAdminAction('archive_content', contentType, contentId);
       return api.put<AdminApiResponse<any>>(`/admin/content/${contentType}/${contentId}/archive`, {});
     },
   },
@@ -300,11 +312,13 @@ export const adminManagementApi = {
 
     // Update subscription
     update: async (subscriptionId: string, data: any): Promise<AdminApiResponse<any>> => {
+      await requireAdminAction('update_subscription', 'subscription', subscriptionId);
       return api.put<AdminApiResponse<any>>(`/admin/subscriptions/${subscriptionId}`, data);
     },
 
     // Cancel subscription
     cancel: async (subscriptionId: string, reason: string): Promise<AdminApiResponse<any>> => {
+      await requireAdminAction('cancel_subscription', 'subscription', subscriptionId);
       return api.put<AdminApiResponse<any>>(`/admin/subscriptions/${subscriptionId}/cancel`, { reason });
     },
   },
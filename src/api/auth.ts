@@ -5,6 +5,9 @@
  */
 
 import { supabase } from '@/lib/supabase';
+import { NetworkAccessError, NetworkAccessService } from '@/services/networkAccessService';
+import { SecurityPolicyError, SecurityPolicyService } from '@/services/securityPolicyService';
+import { XAPIService } from '@/services/xapiService';
 import type {
   User,
   UserProfile,
@@ -39,6 +42,15 @@ export async function signInWithPassword(credentials: LoginForm): Promise<AuthRe
       throw new Error('Authentication failed');
     }
 
+    // Network and login rules need the signed-in user, so a refused sign-in is undone
+    try {
+      await NetworkAccessService.require('sign_in');
+      await SecurityPolicyService.require('login');
+    } catch (accessError) {
+      await supabase.auth.signOut();
+      throw accessError;
+    }
+
     // Get user profile and roles
     const user = await getUserWithProfile(data.user.id);
 
@@ -54,6 +66,7 @@ export async function signInWithPassword(credentials: LoginForm): Promise<AuthRe
     };
   } catch (error) {
     console.error('Sign in error:', error);
+    if (error instanceof SecurityPolicyError || error instanceof NetworkAccessError) throw error;
     throw new Error(error instanceof Error ? error.message : 'Sign in failed');
   }
 }
@@ -102,10 +115,12 @@ export async function signUpWithPassword(userData: SignupForm): Promise<AuthResp
 }
 
 /**
- * Sign out the current user
+ * Sign out the current user, sending their queued xAPI statements first
  */
 export async function signOut(): Promise<void> {
   try {
+    await XAPIService.flushBeforeSignOut();
+
     const { error } = await supabase.auth.signOut();
     if (error) {
       throw new Error(error.message);
@@ -203,15 +218,11 @@ export async function requestPasswordReset(email: string): Promise<PasswordReset
  */
 export async function updatePassword(newPassword: string): Promise<void> {
   try {
-    const { error } = await supabase.auth.updateUser({
-      password: newPassword,
-    });
-
-    if (error) {
-      throw new Error(error.message);
-    }
+    // The server runs the password rules and makes the change
+    await SecurityPolicyService.changePassword(newPassword);
   } catch (error) {
     console.error('Update password error:', error);
+    if (error instanceof SecurityPolicyError) throw error;
     throw new Error(error instanceof Error ? error.message : 'Password update failed');
   }
 }
@@ -9,6 +9,7 @@ import type {
   OrganizationInsert,
   OrganizationUpdate,
   UserOrganization,
+  UserOrganizationWithOrganization,
   UserOrganizationInsert,
   UserOrganizationUpdate,
   SubscriptionPlan,
@@ -16,12 +17,18 @@ import type {
   SubscriptionPlanUpdate,
   SubscriptionInsert,
   SubscriptionUpdate,
+  SubscriptionProration,
+  SubscriptionPlanChange,
   InvoiceInsert,
   InvoiceUpdate,
+  InvoiceDocument,
+  InvoiceEmail,
   PaymentInsert,
   PaymentUpdate,
   BillingEvent,
   BillingEventInsert,
+  DunningCaseWithInvoice,
+  DunningPolicy,
   SubscriptionWithPlan,
   InvoiceWithSubscription,
   PaymentWithInvoice,
@@ -161,7 +168,7 @@ export const organizationApi = {
 
 export const userOrganizationApi = {
   // Get user organizations
-  async getByUserId(userId: string): Promise<UserOrganization[]> {
+  async getByUserId(userId: string): Promise<UserOrganizationWithOrganization[]> {
     const { data, error } = await supabase
       .from('user_organizations')
       .select(`
@@ -369,6 +376,26 @@ export const subscriptionApi = {
     return data;
   },
 
+  // Preview the proration for moving to another plan today
+  async previewPlanChange(id: string, planId: string): Promise<SubscriptionProration> {
+    const { data, error } = await supabase
+      .rpc('preview_subscription_change', { p_subscription_id: id, p_plan_id: planId });
+
+    if (error) throw error;
+    return data as SubscriptionProration;
+  },
+
+  // Move to another plan mid-cycle: credits unused time on a paid period,
+  // charges the new plan, invoices the previewed difference and records a
+  // billing event
+  async changePlan(id: string, planId: string): Promise<SubscriptionPlanChange> {
+    const { data, error } = await supabase
+      .rpc('change_subscription_plan', { p_subscription_id: id, p_plan_id: planId });
+
+    if (error) throw error;
+    return data as SubscriptionPlanChange;
+  },
+
   // Get subscription usage
   async getUsage(id: string): Promise<SubscriptionUsage> {
     const { data, error } = await supabase
@@ -531,22 +558,61 @@ export const invoiceApi = {
     return data;
   },
 
-  // Generate PDF for invoice
-  async generatePdf(id: string): Promise<string> {
-    // This would typically call a backend service to generate the PDF
-    // For now, we'll return a placeholder URL
+  // Render the invoice as a new PDF version (invoices edge function)
+  async generatePdf(id: string): Promise<InvoiceDocument> {
+    const { data, error } = await supabase.functions.invoke<{ document: InvoiceDocument }>(`invoices/${id}/pdf`, {
+      method: 'POST',
+    });
+
+    if (error) throw error;
+    if (!data?.document) throw new Error('No invoice document returned');
+    return data.document;
+  },
+
+  // Get every rendered version of an invoice, newest first
+  async getDocuments(id: string): Promise<InvoiceDocument[]> {
     const { data, error } = await supabase
+      .from('invoice_documents')
+      .select('*')
+      .eq('invoice_id', id)
+      .order('version', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Download a rendered invoice PDF from the invoices bucket
+  async downloadPdf(storagePath: string): Promise<Blob> {
+    const { data, error } = await supabase.storage
       .from('invoices')
-      .update({
-        pdf_generated_at: new Date().toISOString(),
-        pdf_url: `/api/invoices/${id}/pdf`,
-      })
-      .eq('id', id)
-      .select('pdf_url')
-      .single();
+      .download(storagePath);
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Email the current invoice PDF to the organization's billing email
+  async sendEmail(id: string): Promise<{ documentId: string; recipient: string; messageId: string }> {
+    const { data, error } = await supabase.functions.invoke<{ documentId: string; recipient: string; messageId: string }>(
+      `invoices/${id}/send`,
+      { method: 'POST' }
+    );
 
     if (error) throw error;
-    return data.pdf_url;
+    if (!data) throw new Error('Invoice email was not sent');
+    return data;
+  },
+
+  // Get the delivery log of an invoice, newest first
+  async getEmails(id: string): Promise<InvoiceEmail[]> {
+    const { data, error } = await supabase
+      .from('invoice_emails')
+      .select('*')
+      .eq('invoice_id', id)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
   },
 };
 
@@ -737,6 +803,59 @@ export const billingEventApi = {
   },
 };
 
+// =====================================================
+// Dunning API
+// =====================================================
+
+export const dunningApi = {
+  // Get dunning cases of an organization, newest first
+  async getCases(organizationId: string): Promise<DunningCaseWithInvoice[]> {
+    const { data, error } = await supabase
+      .from('dunning_cases')
+      .select(`
+        *,
+        invoice:invoices(id, invoice_number, total_cents, currency, status)
+      `)
+      .eq('organization_id', organizationId)
+      .order('started_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Get the payment failures and dunning steps of an organization, oldest first
+  async getTimeline(organizationId: string, invoiceId?: string): Promise<BillingEvent[]> {
+    let queryBuilder = supabase
+      .from('billing_events')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .in('event_category', ['payment', 'dunning']);
+
+    if (invoiceId) {
+      queryBuilder = queryBuilder.eq('invoice_id', invoiceId);
+    }
+
+    const { data, error } = await queryBuilder.order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Get the schedule that applies to an organization
+  async getPolicy(organizationId: string): Promise<DunningPolicy | null> {
+    const { data, error } = await supabase
+      .from('dunning_policies')
+      .select('*')
+      .or(`organization_id.eq.${organizationId},organization_id.is.null`)
+      .order('organization_id', { ascending: true, nullsFirst: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+};
+
 // =====================================================
 // Billing Summary API
 // =====================================================
@@ -815,5 +934,6 @@ export const billingApi = {
   invoices: invoiceApi,
   payments: paymentApi,
   billingEvents: billingEventApi,
+  dunning: dunningApi,
   billingSummary: billingSummaryApi,
 };
@@ -3,11 +3,14 @@
  */
 
 import { supabase } from '@/lib/supabase';
+import { certificateGenerator, getCertificateVerificationUrl } from '@/services/certificateGenerator';
 import type { 
   Certificate, 
   CertificateInsert, 
   CertificateUpdate,
   CertificateVerification,
+  CertificateRevocation,
+  CertificateRevocationReason,
   CertificateStats,
   CertificateListResponse
 } from '@/types/certificates';
@@ -60,25 +63,40 @@ export async function getCertificateByVerificationCode(verificationCode: string)
   return data as Certificate;
 }
 
-// Verify certificate
+// Verify certificate: checks the issue signature, revocation and expiry on the server
 export async function verifyCertificate(verificationCode: string): Promise<CertificateVerification> {
-  try {
-    const certificate = await getCertificateByVerificationCode(verificationCode);
-    
-    return {
-      certificate,
-      is_valid: true,
-      verification_message: 'Certificate is valid and active',
-      verified_at: new Date().toISOString()
-    };
-  } catch (error) {
-    return {
-      certificate: {} as Certificate,
-      is_valid: false,
-      verification_message: 'Certificate not found or invalid',
-      verified_at: new Date().toISOString()
-    };
-  }
+  const { data, error } = await supabase.rpc('verify_certificate', {
+    p_verification_code: verificationCode
+  });
+
+  if (error) throw error;
+  return data as CertificateVerification;
+}
+
+// Revoke certificate with a reason (course owner or admin)
+export async function revokeCertificate(
+  certificateId: string,
+  reason: CertificateRevocationReason,
+  note?: string
+): Promise<Certificate> {
+  const { data, error } = await supabase.rpc('revoke_certificate', {
+    p_certificate_id: certificateId,
+    p_reason: reason,
+    p_note: note ?? null
+  });
+
+  if (error) throw error;
+  return data as Certificate;
+}
+
+// Get the public certificate revocation list, optionally only recent entries
+export async function getCertificateRevocationList(since?: string): Promise<CertificateRevocation[]> {
+  const { data, error } = await supabase.rpc('get_certificate_revocation_list', {
+    p_since: since ?? null
+  });
+
+  if (error) throw error;
+  return (data || []) as CertificateRevocation[];
 }
 
 // Create certificate
@@ -106,14 +124,9 @@ export async function updateCertificate(certificateId: string, updates: Certific
   return data as Certificate;
 }
 
-// Delete certificate (soft delete by updating status)
+// Delete certificate (soft delete by revoking it)
 export async function deleteCertificate(certificateId: string): Promise<void> {
-  const { error } = await supabase
-    .from('certificates')
-    .update({ status: 'revoked' })
-    .eq('id', certificateId);
-
-  if (error) throw error;
+  await revokeCertificate(certificateId, 'other');
 }
 
 // Get certificate statistics
@@ -174,19 +187,26 @@ export async function getCertificateStats(userId?: string): Promise<CertificateS
   return stats;
 }
 
-// Generate certificate PDF (placeholder - would integrate with PDF generation service)
+// Render the certificate PDF and thumbnail and store their URLs on the certificate
 export async function generateCertificatePDF(certificateId: string): Promise<{ pdf_url: string; thumbnail_url: string }> {
-  // This would typically call a PDF generation service
-  // For now, return placeholder URLs
+  const certificate = await getCertificate(certificateId);
+  const { pdfUrl, thumbnailUrl } = await certificateGenerator.generateCertificatePDF(
+    certificate,
+    certificate.template_id || 'default'
+  );
+
   return {
-    pdf_url: `/api/certificates/${certificateId}/pdf`,
-    thumbnail_url: `/api/certificates/${certificateId}/thumbnail`
+    pdf_url: pdfUrl,
+    thumbnail_url: thumbnailUrl
   };
 }
 
-// Download certificate
+// Download certificate, rendering the PDF first if it has not been generated yet
 export async function downloadCertificate(certificateId: string): Promise<Blob> {
-  const response = await fetch(`/api/certificates/${certificateId}/download`);
+  const certificate = await getCertificate(certificateId);
+  const pdfUrl = certificate.pdf_url || (await generateCertificatePDF(certificateId)).pdf_url;
+
+  const response = await fetch(pdfUrl);
   if (!response.ok) throw new Error('Failed to download certificate');
   return response.blob();
 }
@@ -196,6 +216,6 @@ export async function shareCertificate(certificateId: string, _platform: 'email'
   // This would typically generate a shareable link or handle social sharing
   const certificate = await getCertificate(certificateId);
   return {
-    share_url: `${window.location.origin}/certificates/verify/${certificate.verification_code}`
+    share_url: getCertificateVerificationUrl(certificate.verification_code)
   };
 }
@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import { EntitlementService } from '@/services/entitlementService';
 import type { Course, CourseModule, CreateCourseInput, CourseEnrollment, CourseCompletion } from '@/types';
 
 // Re-export types for convenience
@@ -6,6 +7,8 @@ export type { Course, CourseModule, CreateCourseInput, CourseEnrollment, CourseC
 
 // Course management functions
 export async function createCourse(courseData: CreateCourseInput): Promise<Course> {
+  await EntitlementService.require('courses');
+
   const { data, error } = await supabase
     .from('courses')
     .insert({
@@ -25,7 +28,7 @@ export async function createCourse(courseData: CreateCourseInput): Promise<Cours
     .select()
     .single();
 
-  if (error) throw error;
+  if (error) throw EntitlementService.toPlanLimitError(error);
 
   // Create course modules
   if (courseData.modules && courseData.modules.length > 0) {
@@ -408,10 +411,13 @@ export async function searchCourses(
 
 // Course publishing
 export async function publishCourse(courseId: string): Promise<Course> {
-  return updateCourse(courseId, {
-    status: 'published',
-    publishedAt: new Date().toISOString(),
-  });
+  // Publishing and recording the course version happen in one transaction
+  const { error } = await supabase.rpc('publish_course', { p_course_id: courseId });
+  if (error) throw error;
+
+  const course = await getCourse(courseId);
+  if (!course) throw new Error('No course returned');
+  return course;
 }
 
 export async function unpublishCourse(courseId: string): Promise<Course> {
@@ -1,13 +1,152 @@
 import { supabase } from '@/lib/supabase';
+import { EntitlementService } from '@/services/entitlementService';
 import type { 
   Course, 
   CourseModule, 
   CourseQuiz, 
   CourseEnrollment, 
   CourseCompletion,
+  EnrollmentCourseVersion,
   CreateCourseInput,
   CourseBuilderState 
 } from '@/types';
+import type { CourseVersion, EnrollmentMigrationPolicy } from '@/types/courseBuilder';
+import type { CourseBundle, CourseBundleCourse } from '@/types/coursePackage';
+import type { QuizAnswer, QuizQuestionForLearner, EnhancedQuizResult } from '@/types/quiz';
+
+// course_quizzes row, optionally joined with its answer key
+interface CourseQuizRow {
+  id: string;
+  course_id: string;
+  module_id: string | null;
+  question: string;
+  type: CourseQuiz['type'];
+  options: string[] | null;
+  points: number;
+  time_limit: number | null;
+  order_index: number;
+  created_at: string;
+  updated_at: string;
+  answer_key?: { correct_answer: string; explanation: string | null } | null;
+}
+
+// Map a course_quizzes row to the learner-facing question shape
+const toQuizQuestion = (row: CourseQuizRow): QuizQuestionForLearner => ({
+  id: row.id,
+  courseId: row.course_id,
+  moduleId: row.module_id ?? undefined,
+  question: row.question,
+  type: row.type,
+  options: row.options || [],
+  points: row.points,
+  timeLimit: row.time_limit ?? undefined,
+  orderIndex: row.order_index,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+// Answer keys live in course_quiz_answer_keys, which only the course owner can read
+const toCourseQuiz = (row: CourseQuizRow): CourseQuiz => ({
+  ...toQuizQuestion(row),
+  correctAnswer: row.answer_key?.correct_answer ?? '',
+  explanation: row.answer_key?.explanation ?? undefined,
+});
+
+// course_modules row as stored in a version snapshot
+interface CourseModuleRow {
+  id: string;
+  course_id: string;
+  title: string;
+  description: string | null;
+  type: CourseModule['type'];
+  content_id: string | null;
+  content_data: Record<string, unknown> | null;
+  order_index: number;
+  estimated_duration: number | null;
+  is_required: boolean | null;
+  unlock_after_previous: boolean | null;
+}
+
+// course_versions row; snapshot is built by build_course_snapshot()
+interface CourseVersionRow {
+  id: string;
+  course_id: string;
+  version_number: number;
+  description: string | null;
+  migration_policy: EnrollmentMigrationPolicy;
+  snapshot: {
+    course: { title: string } & Record<string, unknown>;
+    modules: CourseModuleRow[];
+    quizzes: Omit<CourseQuizRow, 'created_at' | 'updated_at'>[];
+  };
+  created_by: string | null;
+  created_at: string;
+}
+
+// courses fields captured by build_course_snapshot()
+interface CourseSnapshotRow {
+  title: string;
+  description: string | null;
+  difficulty_level: Course['difficultyLevel'];
+  category: string | null;
+  tags: string[] | null;
+  customer_scope: string[] | null;
+  requires_approval: boolean;
+  allow_downloads: boolean;
+  enable_certificates: boolean;
+  pass_threshold: number;
+  total_duration: number | null;
+  metadata: Record<string, unknown> | null;
+}
+
+const toSnapshotCourse = (courseId: string, row: CourseSnapshotRow): CourseBundleCourse => ({
+  id: courseId,
+  title: row.title,
+  description: row.description ?? '',
+  difficultyLevel: row.difficulty_level,
+  category: row.category ?? undefined,
+  tags: row.tags ?? [],
+  customerScope: row.customer_scope ?? [],
+  requiresApproval: row.requires_approval,
+  allowDownloads: row.allow_downloads,
+  enableCertificates: row.enable_certificates,
+  passThreshold: row.pass_threshold,
+  totalDuration: row.total_duration ?? 0,
+  metadata: row.metadata ?? {},
+});
+
+const toVersionModule = (row: CourseModuleRow): CourseModule => ({
+  id: row.id,
+  courseId: row.course_id,
+  title: row.title,
+  description: row.description ?? undefined,
+  type: row.type,
+  content: { text: String(row.content_data?.text ?? '') }, // snapshots hold content_data only
+  contentId: row.content_id ?? undefined,
+  contentData: row.content_data ?? undefined,
+  order: row.order_index,
+  orderIndex: row.order_index,
+  estimatedDuration: row.estimated_duration ?? 0,
+  isRequired: row.is_required ?? true,
+  unlockAfterPrevious: row.unlock_after_previous ?? true,
+});
+
+const toCourseVersion = (row: CourseVersionRow, currentVersionId?: string | null): CourseVersion => ({
+  id: row.id,
+  courseId: row.course_id,
+  version: `v${row.version_number}`,
+  versionNumber: row.version_number,
+  title: row.snapshot.course.title,
+  description: row.description ?? '',
+  modules: row.snapshot.modules.map(toVersionModule),
+  quizzes: row.snapshot.quizzes.map(quiz => toCourseQuiz({ ...quiz, created_at: row.created_at, updated_at: row.created_at })),
+  migrationPolicy: row.migration_policy,
+  publishedAt: row.created_at,
+  createdBy: row.created_by ?? '',
+  createdAt: row.created_at,
+  changes: row.description ? [row.description] : [],
+  isCurrent: row.id === currentVersionId,
+});
 
 // Course API functions
 export const courseApi = {
@@ -76,6 +215,8 @@ export const courseApi = {
 
   // Create course
   async createCourse(courseData: CreateCourseInput): Promise<Course> {
+    await EntitlementService.require('courses');
+
     const { data: course, error: courseError } = await supabase
       .from('courses')
       .insert({
@@ -98,7 +239,7 @@ export const courseApi = {
       `)
       .single();
 
-    if (courseError) throw courseError;
+    if (courseError) throw EntitlementService.toPlanLimitError(courseError);
 
     // Create modules if provided
     if (courseData.modules && courseData.modules.length > 0) {
@@ -254,12 +395,64 @@ export const courseApi = {
   async getCourseQuizzes(courseId: string): Promise<CourseQuiz[]> {
     const { data, error } = await supabase
       .from('course_quizzes')
-      .select('*')
+      .select(`
+        *,
+        answer_key:course_quiz_answer_keys(correct_answer, explanation)
+      `)
       .eq('course_id', courseId)
       .order('order_index');
 
     if (error) throw error;
-    return data || [];
+    return (data || []).map(toCourseQuiz);
+  },
+
+  // Questions of the quiz containing quizId (same course and module), without
+  // answers, from the course version the learner is enrolled on
+  async getQuizQuestions(quizId: string): Promise<QuizQuestionForLearner[]> {
+    const { data, error } = await supabase.rpc('get_quiz_questions', { p_quiz_id: quizId });
+
+    if (error) throw error;
+    return ((data || []) as CourseQuizRow[]).map(toQuizQuestion);
+  },
+
+  // Grade answers on the server, against the enrolled course version, and
+  // record the attempt
+  async gradeQuizAttempt(
+    quizId: string,
+    answers: QuizAnswer[],
+    timeSpent: number
+  ): Promise<EnhancedQuizResult> {
+    const { data, error } = await supabase.rpc('grade_quiz_attempt', {
+      p_quiz_id: quizId,
+      p_answers: answers.map(({ questionId, answer, timeSpent, submittedAt }) => ({
+        questionId,
+        answer,
+        timeSpent,
+        submittedAt,
+      })),
+      p_time_spent: timeSpent,
+    });
+
+    if (error) throw error;
+
+    return {
+      quizId: data.quiz_id,
+      courseId: data.course_id,
+      moduleId: data.module_id ?? undefined,
+      score: data.score,
+      totalQuestions: data.total_questions,
+      correctAnswers: data.correct_answers,
+      timeSpent,
+      passed: data.passed,
+      passThreshold: data.pass_threshold,
+      completedAt: new Date().toISOString(),
+      answers: data.answers,
+      attemptId: data.attempt_id,
+      attemptNumber: data.attempt_number,
+      maxAttempts: data.max_attempts,
+      canRetake: data.can_retake,
+      attemptsRemaining: data.attempts_remaining,
+    };
   },
 
   async createCourseQuiz(quizData: Omit<CourseQuiz, 'id' | 'createdAt' | 'updatedAt'>): Promise<CourseQuiz> {
@@ -271,8 +464,6 @@ export const courseApi = {
         question: quizData.question,
         type: quizData.type,
         options: quizData.options || [],
-        correct_answer: quizData.correctAnswer,
-        explanation: quizData.explanation,
         points: quizData.points || 1,
         time_limit: quizData.timeLimit,
         order_index: quizData.orderIndex || 0,
@@ -281,7 +472,24 @@ export const courseApi = {
       .single();
 
     if (error) throw error;
-    return data;
+
+    const { data: answerKey, error: keyError } = await supabase
+      .from('course_quiz_answer_keys')
+      .insert({
+        question_id: data.id,
+        correct_answer: quizData.correctAnswer,
+        explanation: quizData.explanation,
+      })
+      .select('correct_answer, explanation')
+      .single();
+
+    if (keyError) {
+      // Don't leave a question behind that can never be answered correctly
+      await supabase.from('course_quizzes').delete().eq('id', data.id);
+      throw keyError;
+    }
+
+    return toCourseQuiz({ ...data, answer_key: answerKey });
   },
 
   async updateCourseQuiz(id: string, updates: Partial<CourseQuiz>): Promise<CourseQuiz> {
@@ -291,8 +499,6 @@ export const courseApi = {
         question: updates.question,
         type: updates.type,
         options: updates.options,
-        correct_answer: updates.correctAnswer,
-        explanation: updates.explanation,
         points: updates.points,
         time_limit: updates.timeLimit,
         order_index: updates.orderIndex,
@@ -302,7 +508,27 @@ export const courseApi = {
       .single();
 
     if (error) throw error;
-    return data;
+
+    if (updates.correctAnswer !== undefined || updates.explanation !== undefined) {
+      const { error: keyError } = await supabase
+        .from('course_quiz_answer_keys')
+        .update({
+          correct_answer: updates.correctAnswer,
+          explanation: updates.explanation,
+        })
+        .eq('question_id', id);
+
+      if (keyError) throw keyError;
+    }
+
+    const { data: answerKey, error: keyReadError } = await supabase
+      .from('course_quiz_answer_keys')
+      .select('correct_answer, explanation')
+      .eq('question_id', id)
+      .maybeSingle();
+
+    if (keyReadError) throw keyReadError;
+    return toCourseQuiz({ ...data, answer_key: answerKey });
   },
 
   async deleteCourseQuiz(id: string): Promise<void> {
@@ -329,6 +555,73 @@ export const courseApi = {
     return data;
   },
 
+  // Course packages
+  async getCourseSnapshot(courseId: string): Promise<{
+    course: CourseBundleCourse;
+    modules: CourseModule[];
+    quizzes: CourseQuiz[];
+  }> {
+    const { data, error } = await supabase.rpc('build_course_snapshot', { p_course_id: courseId });
+
+    if (error) throw error;
+    if (!data?.course) throw new Error('Course not found');
+
+    const now = new Date().toISOString();
+    return {
+      course: toSnapshotCourse(courseId, data.course as CourseSnapshotRow),
+      modules: (data.modules as CourseModuleRow[]).map(toVersionModule),
+      quizzes: (data.quizzes as CourseQuizRow[]).map(quiz => toCourseQuiz({ ...quiz, created_at: now, updated_at: now })),
+    };
+  },
+
+  async getReels(ids: string[]): Promise<{ id: string; title: string; duration: number; thumbnail_url: string | null }[]> {
+    if (ids.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('videos')
+      .select('id, title, duration, thumbnail_url')
+      .in('id', ids);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async importCourseBundle(bundle: CourseBundle): Promise<string> {
+    const { data, error } = await supabase.rpc('import_course_bundle', { p_bundle: bundle });
+
+    if (error) throw error;
+    return data as string;
+  },
+
+  async getMyEnrollment(courseId: string, userId: string): Promise<CourseEnrollment | null> {
+    const { data, error } = await supabase
+      .from('course_enrollments')
+      .select('*')
+      .eq('course_id', courseId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Version the enrollment is pinned to, or null when it follows the live course
+  async getEnrollmentCourseVersion(enrollmentId: string): Promise<EnrollmentCourseVersion | null> {
+    const { data, error } = await supabase.rpc('get_enrollment_course_version', {
+      p_enrollment_id: enrollmentId,
+    });
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      versionId: data.version_id,
+      versionNumber: data.version_number,
+      title: data.course?.title ?? '',
+      modules: (data.modules as CourseModuleRow[]).map(toVersionModule),
+    };
+  },
+
   async getCourseEnrollments(courseId: string): Promise<CourseEnrollment[]> {
     const { data, error } = await supabase
       .from('course_enrollments')
@@ -388,6 +681,63 @@ export const courseApi = {
     return data || [];
   },
 
+  // Course versions
+  async createCourseVersion(
+    courseId: string,
+    description?: string,
+    migrationPolicy: EnrollmentMigrationPolicy = 'keep'
+  ): Promise<CourseVersion> {
+    const { data, error } = await supabase.rpc('create_course_version', {
+      p_course_id: courseId,
+      p_description: description ?? null,
+      p_migration_policy: migrationPolicy,
+    });
+
+    if (error) throw error;
+    return toCourseVersion(data as CourseVersionRow, (data as CourseVersionRow).id);
+  },
+
+  // Publish the course and snapshot it as its next version, in one transaction
+  async publishCourse(
+    courseId: string,
+    description?: string,
+    migrationPolicy: EnrollmentMigrationPolicy = 'keep'
+  ): Promise<CourseVersion> {
+    const { data, error } = await supabase.rpc('publish_course', {
+      p_course_id: courseId,
+      p_description: description ?? null,
+      p_migration_policy: migrationPolicy,
+    });
+
+    if (error) throw error;
+    return toCourseVersion(data as CourseVersionRow, (data as CourseVersionRow).id);
+  },
+
+  async getCourseVersions(courseId: string): Promise<CourseVersion[]> {
+    const [{ data, error }, { data: course, error: courseError }] = await Promise.all([
+      supabase
+        .from('course_versions')
+        .select('*')
+        .eq('course_id', courseId)
+        .order('version_number', { ascending: false }),
+      supabase
+        .from('courses')
+        .select('current_version_id')
+        .eq('id', courseId)
+        .single(),
+    ]);
+
+    if (error) throw error;
+    if (courseError) throw courseError;
+    return (data || []).map(row => toCourseVersion(row as CourseVersionRow, course?.current_version_id));
+  },
+
+  async restoreCourseVersion(versionId: string): Promise<void> {
+    const { error } = await supabase.rpc('restore_course_version', { p_version_id: versionId });
+
+    if (error) throw error;
+  },
+
   // Course builder state management
   async saveCourseBuilderState(courseId: string, state: CourseBuilderState): Promise<void> {
     const { error } = await supabase
@@ -4,6 +4,7 @@
  */
 
 import { supabase } from '@/lib/supabase';
+import { EntitlementService } from '@/services/entitlementService';
 import type { 
   Customer,
   CustomerInsert,
@@ -395,13 +396,15 @@ export class CustomerContentAPI {
    * Add machine to customer
    */
   static async addMachine(machine: CustomerMachineInsert): Promise<CustomerMachine> {
+    await EntitlementService.require('machines', 1, machine.customer_id);
+
     const { data, error } = await supabase
       .from('customer_machines')
       .insert(machine)
       .select()
       .single();
 
-    if (error) throw error;
+    if (error) throw EntitlementService.toPlanLimitError(error);
     return data;
   }
 
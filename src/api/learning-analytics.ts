@@ -3,6 +3,7 @@
  */
 
 import { supabase } from '@/lib/supabase';
+import { XAPIService } from '@/services/xapiService';
 import type { 
   LearningAnalyticsEvent,
   LearningAnalyticsInsert,
@@ -14,8 +15,11 @@ import type {
   LearningAnalyticsDashboard
 } from '@/types/learning-analytics';
 
-// Log a learning analytics event
+// Log a learning analytics event. Its xAPI statement is queued first so it
+// still reaches the LRS when this insert fails while offline.
 export async function logLearningEvent(eventData: LearningAnalyticsInsert): Promise<LearningAnalyticsEvent> {
+  XAPIService.track(eventData);
+
   const { data, error } = await supabase
     .from('learning_analytics')
     .insert(eventData)
@@ -97,7 +97,7 @@ export async function getOrCreateDefaultQuizConfiguration(courseId: string): Pro
     course_id: courseId,
     allow_retake: true,
     max_attempts: 3,
-    show_correct_answers: true,
+    show_correct_answers: false,
     show_explanations: true,
     randomize_questions: false,
     randomize_answers: false,
@@ -160,7 +160,7 @@ export async function getQuizConfigurationPresets(): Promise<QuizConfigurationPr
       configuration: {
         allow_retake: true,
         max_attempts: 3,
-        show_correct_answers: true,
+        show_correct_answers: false,
         show_explanations: true,
         randomize_questions: false,
         randomize_answers: false,
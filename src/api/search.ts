@@ -8,6 +8,10 @@ import type {
   SearchRequest,
   SearchResponse,
   SearchResult,
+  SearchPagination,
+  SearchCursor,
+  SearchSortBy,
+  SearchSortOrder,
   SearchFacet,
   SearchSuggestion,
   AutocompleteRequest,
@@ -17,6 +21,40 @@ import type {
   SearchMetrics
 } from '@/types/search';
 
+/**
+ * Keyset pagination is stable for relevance and newest-first ordering;
+ * other orderings fall back to page/offset pagination
+ */
+function supportsKeysetPagination(sortBy: SearchSortBy, sortOrder: SearchSortOrder): boolean {
+  return sortBy === 'relevance' || (sortBy === 'created_at' && sortOrder === 'DESC');
+}
+
+/**
+ * Encode a keyset position as an opaque, URL-safe cursor
+ */
+function encodeSearchCursor(position: SearchCursor): string {
+  return btoa(JSON.stringify([position.relevance_score, position.created_at, position.video_id]))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor produced by encodeSearchCursor
+ */
+function decodeSearchCursor(cursor: string): SearchCursor {
+  try {
+    const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/');
+    const [relevance_score, created_at, video_id] = JSON.parse(atob(base64));
+    if (typeof relevance_score !== 'number' || typeof created_at !== 'string' || typeof video_id !== 'string') {
+      throw new Error('Malformed cursor');
+    }
+    return { relevance_score, created_at, video_id };
+  } catch {
+    throw new Error('Invalid search cursor');
+  }
+}
+
 /**
  * Search videos with full-text search and faceted filtering
  */
@@ -29,12 +67,15 @@ export async function searchVideos(request: SearchRequest = {}): Promise<SearchR
       sort_order = 'DESC',
       page = 1,
       limit = 20,
+      cursor = null,
+      count_mode = 'exact',
       include_facets = true,
       include_suggestions = false
     } = request;
 
     const startTime = Date.now();
     const offset = (page - 1) * limit;
+    const cursorPosition = cursor ? decodeSearchCursor(cursor) : null;
 
     // Prepare filter parameters
     const filterParams = {
@@ -49,15 +90,21 @@ export async function searchVideos(request: SearchRequest = {}): Promise<SearchR
       filter_date_from: filters.date_range?.start || null,
       filter_date_to: filters.date_range?.end || null,
       filter_duration_min: filters.duration_range?.min || null,
-      filter_duration_max: filters.duration_range?.max || null,
-      sort_by,
-      sort_order,
-      limit_count: limit,
-      offset_count: offset
+      filter_duration_max: filters.duration_range?.max || null
     };
 
-    // Execute search query
-    const { data: searchResults, error: searchError } = await supabase.rpc('search_videos', filterParams);
+    // Execute search query; one extra row tells us whether another page exists
+    const { data: searchResults, error: searchError } = await supabase.rpc('search_videos', {
+      ...filterParams,
+      sort_by,
+      sort_order,
+      limit_count: limit + 1,
+      offset_count: cursorPosition ? 0 : offset,
+      cursor_score: cursorPosition?.relevance_score ?? null,
+      cursor_created_at: cursorPosition?.created_at ?? null,
+      cursor_video_id: cursorPosition?.video_id ?? null,
+      count_mode
+    });
 
     if (searchError) {
       throw new Error(`Search failed: ${searchError.message}`);
@@ -97,7 +144,8 @@ export async function searchVideos(request: SearchRequest = {}): Promise<SearchR
     }
 
     // Transform results
-    const results: SearchResult[] = (searchResults || []).map((result: any) => ({
+    const rows = searchResults || [];
+    const results: SearchResult[] = rows.slice(0, limit).map((result: any) => ({
       video_id: result.video_id,
       title: result.title,
       description: result.description,
@@ -121,15 +169,25 @@ export async function searchVideos(request: SearchRequest = {}): Promise<SearchR
     }));
 
     // Calculate pagination
-    const total = results.length; // This is approximate since we don't have total count from the function
-    const totalPages = Math.ceil(total / limit);
-    const pagination = {
+    const total = rows.length > 0 ? Number(rows[0].total_count) : 0;
+    const hasNext = rows.length > limit;
+    const lastResult = results[results.length - 1];
+    const pagination: SearchPagination = {
       page,
       limit,
       total,
-      total_pages: totalPages,
-      has_next: page < totalPages,
-      has_prev: page > 1
+      total_is_estimate: rows.length > 0 && Boolean(rows[0].total_is_estimate),
+      total_pages: Math.ceil(total / limit),
+      has_next: hasNext,
+      // Cursor requests carry the number of the page they load
+      has_prev: page > 1,
+      next_cursor: hasNext && lastResult && supportsKeysetPagination(sort_by, sort_order)
+        ? encodeSearchCursor({
+            relevance_score: lastResult.relevance_score,
+            created_at: lastResult.created_at,
+            video_id: lastResult.video_id
+          })
+        : null
     };
 
     // Track search analytics
@@ -137,7 +195,7 @@ export async function searchVideos(request: SearchRequest = {}): Promise<SearchR
       query,
       query_type: 'text',
       filters: filters as Record<string, any>,
-      result_count: results.length,
+      result_count: total,
       execution_time_ms: executionTime
     });
 
@@ -3,7 +3,9 @@
  * Handles user roles, sessions, activity logging, and admin functions
  */
 
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
+import { EntitlementService } from '@/services/entitlementService';
 import type {
   UserRole,
   UserRoleInsert,
@@ -16,7 +18,7 @@ import type {
   AdminAuditLog,
   AdminAuditLogInsert,
   UserInvitation,
-  UserInvitationInsert,
+  CreateUserInvitationInput,
   UserInvitationUpdate,
   SeatRequest,
   SeatRequestInsert,
@@ -194,15 +196,29 @@ export const getUserInvitations = async (): Promise<UserInvitation[]> => {
   return data || [];
 };
 
-export const createUserInvitation = async (invitation: UserInvitationInsert): Promise<UserInvitation> => {
-  const { data, error } = await supabase
-    .from('user_invitations')
-    .insert(invitation)
-    .select()
-    .single();
+// The invitations function returns the reason for a refusal in the body
+const toInvitationError = async (error: unknown): Promise<unknown> => {
+  if (error instanceof FunctionsHttpError) {
+    const body = await (error.context as Response).json().catch(() => null);
+    if (body?.code) return EntitlementService.toPlanLimitError(body);
+    if (typeof body?.error === 'string') return new Error(body.error);
+  }
+  return error;
+};
 
-  if (error) throw error;
-  return data;
+// Created server-side, which mails the invitee a signed link
+export const createUserInvitation = async (invitation: CreateUserInvitationInput): Promise<UserInvitation> => {
+  // Pending invitations count as seats
+  await EntitlementService.require('users', 1, invitation.organization_id ?? undefined);
+
+  const { data, error } = await supabase.functions.invoke<{ invitation: UserInvitation }>('invitations', {
+    method: 'POST',
+    body: invitation,
+  });
+
+  if (error) throw await toInvitationError(error);
+  if (!data?.invitation) throw new Error('No invitation returned');
+  return data.invitation;
 };
 
 export const updateUserInvitation = async (id: string, updates: UserInvitationUpdate): Promise<UserInvitation> => {
@@ -217,20 +233,16 @@ export const updateUserInvitation = async (id: string, updates: UserInvitationUp
   return data;
 };
 
+// token is the signed token from the invitation link
 export const acceptUserInvitation = async (token: string): Promise<UserInvitation> => {
-  const { data, error } = await supabase
-    .from('user_invitations')
-    .update({ 
-      status: 'accepted',
-      accepted_at: new Date().toISOString()
-    })
-    .eq('invitation_token', token)
-    .eq('status', 'pending')
-    .select()
-    .single();
-
-  if (error) throw error;
-  return data;
+  const { data, error } = await supabase.functions.invoke<{ invitation: UserInvitation }>('invitations/accept', {
+    method: 'POST',
+    body: { token },
+  });
+
+  if (error) throw await toInvitationError(error);
+  if (!data?.invitation) throw new Error('No invitation returned');
+  return data.invitation;
 };
 
 // =====================================================
@@ -374,6 +386,16 @@ export const updateUserStatus = async (userId: string, status: string): Promise<
   if (error) throw error;
 };
 
+/**
+ * Admin recovery for a user locked out of two-factor authentication.
+ * Clears their TOTP secret, backup codes and verified sessions.
+ */
+export const resetUserTwoFactor = async (userId: string): Promise<void> => {
+  const { error } = await supabase.rpc('admin_reset_two_factor', { p_user_id: userId });
+
+  if (error) throw error;
+};
+
 export const bulkUpdateUsers = async (userIds: string[], updates: {
   role_id?: string;
   status?: string;
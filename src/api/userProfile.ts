@@ -3,11 +3,15 @@
  * Generated: 2024-12-20T15:00:00Z
  */
 
+import qrcode from 'qrcode-generator';
 import { supabase } from '@/lib/supabase';
+import { SecurityPolicyError, SecurityPolicyService } from '@/services/securityPolicyService';
 import type {
   ChangePasswordForm,
   TwoFactorSetup,
   TwoFactorVerification,
+  TwoFactorStatus,
+  TwoFactorChallengeResult,
   SubscriptionInfo,
   SeatRequest,
   ActivityLogEntry,
@@ -29,13 +33,8 @@ import type {
  */
 export async function changePassword(passwordData: ChangePasswordForm): Promise<PasswordChangeResponse> {
   try {
-    const { error } = await supabase.auth.updateUser({
-      password: passwordData.newPassword,
-    });
-
-    if (error) {
-      throw new Error(error.message);
-    }
+    // The server runs the password rules and makes the change
+    await SecurityPolicyService.changePassword(passwordData.newPassword);
 
     return {
       success: true,
@@ -44,26 +43,72 @@ export async function changePassword(passwordData: ChangePasswordForm): Promise<
     };
   } catch (error) {
     console.error('Change password error:', error);
+    if (error instanceof SecurityPolicyError) throw error;
     throw new Error(error instanceof Error ? error.message : 'Password change failed');
   }
 }
 
+// Issuer shown in authenticator apps
+const TOTP_ISSUER = 'Winbro Training Reels';
+
+/**
+ * Get two-factor status for the current user and session
+ */
+export async function getTwoFactorStatus(): Promise<TwoFactorStatus> {
+  try {
+    const { data, error } = await supabase.rpc('get_two_factor_status');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data as TwoFactorStatus;
+  } catch (error) {
+    console.error('Get 2FA status error:', error);
+    throw new Error(error instanceof Error ? error.message : 'Failed to get 2FA status');
+  }
+}
+
 /**
  * Setup two-factor authentication
+ *
+ * Creates a new TOTP secret on the server and returns it with an otpauth://
+ * QR code. 2FA is only enabled once verifyTwoFactor confirms a code.
  */
 export async function setupTwoFactor(): Promise<TwoFactorSetupResponse> {
   try {
-    // This would typically integrate with a 2FA service like Authy or Google Authenticator
-    // For now, we'll return mock data
-    const mockSetup: TwoFactorSetup = {
-      secret: 'JBSWY3DPEHPK3PXP',
-      qrCode: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
-      backupCodes: ['12345678', '87654321', '11223344', '44332211', '55667788'],
+    const [{ data: secret, error }, { data: { user } }] = await Promise.all([
+      supabase.rpc('begin_two_factor_enrollment'),
+      supabase.auth.getUser(),
+    ]);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${user?.email ?? ''}`);
+    const params = new URLSearchParams({
+      secret: secret as string,
+      issuer: TOTP_ISSUER,
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+    const otpauthUrl = `otpauth://totp/${label}?${params.toString()}`;
+
+    const qr = qrcode(0, 'M');
+    qr.addData(otpauthUrl);
+    qr.make();
+
+    const setup: TwoFactorSetup = {
+      secret: secret as string,
+      otpauthUrl,
+      qrCode: qr.createDataURL(4, 2),
     };
 
     return {
       success: true,
-      setup: mockSetup,
+      setup,
       message: 'Two-factor authentication setup initiated',
     };
   } catch (error) {
@@ -74,20 +119,27 @@ export async function setupTwoFactor(): Promise<TwoFactorSetupResponse> {
 
 /**
  * Verify two-factor authentication setup
+ *
+ * Confirms enrollment with a code from the authenticator app and returns
+ * the backup codes, which are not retrievable again.
  */
 export async function verifyTwoFactor(verification: TwoFactorVerification): Promise<TwoFactorVerifyResponse> {
   try {
-    // This would typically verify the TOTP code with the 2FA service
-    // For now, we'll simulate verification
-    const isValid = verification.code === '123456' || verification.backupCode === '12345678';
+    const { data, error } = await supabase.rpc('confirm_two_factor_enrollment', {
+      p_code: verification.code,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
 
-    if (!isValid) {
+    if (!data) {
       throw new Error('Invalid verification code');
     }
 
     return {
       success: true,
-      backup_codes: ['12345678', '87654321', '11223344', '44332211', '55667788'],
+      backup_codes: data as string[],
       message: 'Two-factor authentication enabled successfully',
     };
   } catch (error) {
@@ -96,12 +148,55 @@ export async function verifyTwoFactor(verification: TwoFactorVerification): Prom
   }
 }
 
+/**
+ * Answer the sign-in challenge with a TOTP code or a backup code
+ */
+export async function challengeTwoFactor(verification: TwoFactorVerification): Promise<TwoFactorChallengeResult> {
+  try {
+    const { data, error } = await supabase.rpc('verify_two_factor', {
+      p_code: verification.backupCode || verification.code,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data as TwoFactorChallengeResult;
+  } catch (error) {
+    console.error('2FA challenge error:', error);
+    throw new Error(error instanceof Error ? error.message : '2FA verification failed');
+  }
+}
+
+/**
+ * Replace the backup codes; the old ones stop working
+ */
+export async function regenerateBackupCodes(): Promise<string[]> {
+  try {
+    const { data, error } = await supabase.rpc('regenerate_backup_codes');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data as string[];
+  } catch (error) {
+    console.error('Regenerate backup codes error:', error);
+    throw new Error(error instanceof Error ? error.message : 'Failed to regenerate backup codes');
+  }
+}
+
 /**
  * Disable two-factor authentication
  */
 export async function disableTwoFactor(): Promise<{ success: boolean; message: string }> {
   try {
-    // This would typically disable 2FA in the auth service
+    const { error } = await supabase.rpc('disable_two_factor');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
     return {
       success: true,
       message: 'Two-factor authentication disabled successfully',
@@ -3,7 +3,9 @@
  * Handles video upload, processing, and management operations
  */
 
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
+import { EntitlementService, PlanLimitError } from '@/services/entitlementService';
 import type { 
   Video, 
   VideoTranscript, 
@@ -14,8 +16,12 @@ import type {
   VideoSearchFilters,
   VideoSearchResult,
   VideoUploadProgress,
+  VideoUploadSession,
+  VideoUploadChunk,
+  VideoUploadManifest,
   VideoStats,
   VideoAnalytics,
+  VideoPlaybackEventInput,
   VideoComment,
   VideoBookmark,
   VideoShare,
@@ -50,6 +56,11 @@ export class VideoAPI {
       // Validate file
       this.validateVideoFile(input.file);
 
+      // Check the plan has room for another video of this size; the server
+      // checks the stored size again when the upload is assembled
+      await EntitlementService.require('videos');
+      await EntitlementService.require('storage', input.file.size);
+
       // Create video record in database
       const videoData = {
         user_id: (await supabase.auth.getUser()).data.user?.id,
@@ -77,12 +88,13 @@ export class VideoAPI {
         .select()
         .single();
 
-      if (videoError) throw videoError;
+      if (videoError) throw EntitlementService.toPlanLimitError(videoError);
 
       // Upload file in chunks
-      await this.uploadFileInChunks(
+      const session = await this.createUploadSession(input.file, video.id);
+      const manifest = await this.uploadFileInChunks(
         input.file,
-        video.id,
+        session,
         onProgress
       );
 
@@ -90,16 +102,89 @@ export class VideoAPI {
       await this.startProcessingJobs(video.id, {
         autoTranscribe: input.auto_transcribe ?? UPLOAD_CONFIG.autoTranscribe,
         autoGenerateThumbnails: UPLOAD_CONFIG.autoGenerateThumbnails,
-        priority: UPLOAD_CONFIG.processingPriority
+        priority: UPLOAD_CONFIG.processingPriority,
+        source: manifest
       });
 
       return video;
     } catch (error) {
+      if (error instanceof PlanLimitError) throw error;
       console.error('Video upload failed:', error);
       throw new Error(`Video upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Resume an interrupted upload, sending only the chunks missing from storage
+   */
+  static async resumeUpload(
+    sessionId: string,
+    file: File,
+    onProgress?: (progress: VideoUploadProgress) => void
+  ): Promise<Video> {
+    try {
+      this.validateVideoFile(file);
+
+      const session = await this.getUploadSession(sessionId);
+      if (session.original_filename !== file.name || session.total_size !== file.size) {
+        throw new Error('Selected file does not match the interrupted upload');
+      }
+
+      const manifest = await this.uploadFileInChunks(file, session, onProgress);
+
+      await this.startProcessingJobs(session.video_id, {
+        autoTranscribe: UPLOAD_CONFIG.autoTranscribe,
+        autoGenerateThumbnails: UPLOAD_CONFIG.autoGenerateThumbnails,
+        priority: UPLOAD_CONFIG.processingPriority,
+        source: manifest
+      });
+
+      return await this.getVideo(session.video_id);
+    } catch (error) {
+      console.error('Video upload resume failed:', error);
+      throw new Error(`Video upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find an unfinished upload session for the same file name and size
+   */
+  static async findResumableUpload(file: File): Promise<VideoUploadSession | null> {
+    const { data: sessions, error } = await supabase
+      .rpc('find_resumable_upload_session', {
+        p_original_filename: file.name,
+        p_total_size: file.size
+      });
+
+    if (error) throw error;
+    return sessions?.[0] ?? null;
+  }
+
+  /**
+   * Get upload session by its session ID
+   */
+  static async getUploadSession(sessionId: string): Promise<VideoUploadSession> {
+    const { data: session, error } = await supabase
+      .from('video_upload_sessions')
+      .select('*')
+      .eq('session_id', sessionId)
+      .single();
+
+    if (error) throw error;
+    return session;
+  }
+
+  /**
+   * Get the chunks of an upload session that are already stored
+   */
+  static async getUploadedChunks(sessionId: string): Promise<VideoUploadChunk[]> {
+    const { data: chunks, error } = await supabase
+      .rpc('get_uploaded_chunks', { p_session_id: sessionId });
+
+    if (error) throw error;
+    return chunks || [];
+  }
+
   /**
    * Get video by ID with related data
    */
@@ -404,12 +489,34 @@ export class VideoAPI {
    */
   static async getVideoAnalytics(videoId: string): Promise<VideoAnalytics> {
     const { data: analytics, error } = await supabase
-      .rpc('get_video_analytics', { video_id: videoId });
+      .rpc('get_video_analytics', { p_video_id: videoId });
 
     if (error) throw error;
     return analytics;
   }
 
+  /**
+   * Record a player event (view, play, pause, seek, complete, ...)
+   */
+  static async recordPlaybackEvent(event: VideoPlaybackEventInput): Promise<void> {
+    const { error } = await supabase
+      .from('video_playback_events')
+      .insert({
+        video_id: event.video_id,
+        session_id: event.session_id,
+        event_type: event.event_type,
+        position_seconds: event.position_seconds,
+        from_position_seconds: event.from_position_seconds,
+        segment_start_seconds: event.segment_start_seconds,
+        segment_end_seconds: event.segment_end_seconds,
+        watched_seconds: event.watched_seconds,
+        device_type: event.device_type,
+        event_data: event.event_data || {}
+      });
+
+    if (error) throw error;
+  }
+
   /**
    * Add video comment
    */
@@ -544,61 +651,89 @@ export class VideoAPI {
   }
 
   /**
-   * Upload file in chunks with resumable support
+   * Create a chunked upload session for a video file
    */
-  private static async uploadFileInChunks(
+  private static async createUploadSession(
     file: File,
-    videoId: string,
-    onProgress?: (progress: VideoUploadProgress) => void
-  ): Promise<string> {
+    videoId: string
+  ): Promise<VideoUploadSession> {
     const chunkSize = UPLOAD_CONFIG.chunkSize;
-    const totalChunks = Math.ceil(file.size / chunkSize);
-    let uploadedBytes = 0;
-
-    // Create upload session
     const sessionId = `upload_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
 
-    const { error: sessionError } = await supabase
+    const { data: session, error } = await supabase
       .from('video_upload_sessions')
       .insert({
         video_id: videoId,
         session_id: sessionId,
         total_size: file.size,
         chunk_size: chunkSize,
-        total_chunks: totalChunks,
+        total_chunks: Math.ceil(file.size / chunkSize),
         original_filename: file.name,
         mime_type: file.type,
         expires_at: expiresAt.toISOString()
-      });
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return session;
+  }
+
+  /**
+   * Upload the chunks of a file that are not yet stored for the session,
+   * then have the video-uploads edge function assemble and hash them
+   */
+  private static async uploadFileInChunks(
+    file: File,
+    session: VideoUploadSession,
+    onProgress?: (progress: VideoUploadProgress) => void
+  ): Promise<VideoUploadManifest> {
+    const { session_id: sessionId, video_id: videoId, chunk_size: chunkSize, total_chunks: totalChunks } = session;
+    const storedChunks = new Map(
+      (await this.getUploadedChunks(sessionId)).map(chunk => [chunk.chunk_index, chunk])
+    );
+    let uploadedBytes = 0;
 
-    if (sessionError) throw sessionError;
+    const reportProgress = () => onProgress?.({
+      video_id: videoId,
+      progress: Math.round((uploadedBytes / file.size) * 100),
+      status: 'uploading',
+      uploaded_bytes: uploadedBytes,
+      total_bytes: file.size
+    });
 
     for (let i = 0; i < totalChunks; i++) {
       const start = i * chunkSize;
       const end = Math.min(start + chunkSize, file.size);
       const chunk = file.slice(start, end);
+      const checksum = await this.sha256Hex(await chunk.arrayBuffer());
+
+      // Skip chunks already stored with identical content
+      const stored = storedChunks.get(i);
+      if (stored && stored.size === chunk.size && stored.checksum === checksum) {
+        uploadedBytes += chunk.size;
+        reportProgress();
+        continue;
+      }
 
-      // Upload chunk to Supabase Storage
-      const { error } = await supabase.storage
-        .from('videos')
-        .upload(`${sessionId}/chunk_${i}`, chunk, {
-          contentType: file.type,
-          upsert: true
-        });
+      const storagePath = `${sessionId}/chunk_${i}`;
+      await this.uploadChunkWithRetry(storagePath, chunk, file.type);
 
-      if (error) throw error;
+      const { error: chunkError } = await supabase
+        .from('video_upload_chunks')
+        .upsert({
+          session_id: sessionId,
+          chunk_index: i,
+          size: chunk.size,
+          checksum,
+          storage_path: storagePath
+        }, { onConflict: 'session_id,chunk_index' });
 
-      uploadedBytes += chunk.size;
-      const progress = Math.round((uploadedBytes / file.size) * 100);
+      if (chunkError) throw chunkError;
 
-      onProgress?.({
-        video_id: videoId,
-        progress,
-        status: 'uploading',
-        uploaded_bytes: uploadedBytes,
-        total_bytes: file.size
-      });
+      uploadedBytes += chunk.size;
+      reportProgress();
 
       // Update session progress
       await supabase
@@ -611,27 +746,59 @@ export class VideoAPI {
         .eq('session_id', sessionId);
     }
 
-    // Mark upload as complete
-    await supabase
-      .from('video_upload_sessions')
-      .update({
-        is_complete: true,
-        last_activity: new Date().toISOString()
-      })
-      .eq('session_id', sessionId);
+    // The server reads every chunk back, checks it against its digest and
+    // computes the file checksum from the stored bytes
+    const { data, error: assembleError } = await supabase.functions.invoke<{ manifest: VideoUploadManifest }>(
+      `video-uploads/${encodeURIComponent(sessionId)}/assemble`,
+      { method: 'POST' }
+    );
+
+    if (assembleError) {
+      // A 402 carries the entitlement when the stored file exceeds the storage limit
+      if (assembleError instanceof FunctionsHttpError) {
+        const body = await (assembleError.context as Response).json().catch(() => null);
+        if (body?.code) throw EntitlementService.toPlanLimitError(body);
+      }
+      throw assembleError;
+    }
+    if (!data?.manifest) throw new Error('No upload manifest returned');
+    return data.manifest;
+  }
 
-    // Upload final video file
-    const { data: finalVideo, error: combineError } = await supabase
-      .storage
-      .from('videos')
-      .upload(`${videoId}/video.mp4`, file, {
-        contentType: file.type,
-        upsert: true
-      });
+  /**
+   * Upload a single chunk, retrying transient failures
+   */
+  private static async uploadChunkWithRetry(
+    path: string,
+    chunk: Blob,
+    contentType: string
+  ): Promise<void> {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < UPLOAD_CONFIG.retryAttempts; attempt++) {
+      const { error } = await supabase.storage
+        .from('videos')
+        .upload(path, chunk, {
+          contentType,
+          upsert: true
+        });
+
+      if (!error) return;
+      lastError = error;
+      await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** attempt));
+    }
 
-    if (combineError) throw combineError;
+    throw lastError;
+  }
 
-    return finalVideo.path;
+  /**
+   * Hex-encoded SHA-256 digest
+   */
+  private static async sha256Hex(data: BufferSource): Promise<string> {
+    const hash = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(hash))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
   }
 
   /**
@@ -643,6 +810,7 @@ export class VideoAPI {
       autoTranscribe: boolean;
       autoGenerateThumbnails: boolean;
       priority: number;
+      source?: VideoUploadManifest;
     }
   ): Promise<void> {
     const jobs: Array<{
@@ -660,7 +828,8 @@ export class VideoAPI {
           format: 'hls',
           generate_mp4: true,
           generate_webm: true,
-          resolutions: ['720p', '1080p']
+          resolutions: ['720p', '1080p'],
+          ...(config.source && { source: config.source })
         }
       }
     ];
@@ -728,6 +897,10 @@ export class VideoAPI {
 // Export individual functions for convenience
 export const {
   uploadVideo,
+  resumeUpload,
+  findResumableUpload,
+  getUploadSession,
+  getUploadedChunks,
   getVideo,
   getVideos,
   searchVideos,
@@ -738,6 +911,7 @@ export const {
   getProcessingJobs,
   getVideoStats,
   getVideoAnalytics,
+  recordPlaybackEvent,
   addComment,
   bookmarkVideo,
   shareVideo,
@@ -1,9 +1,11 @@
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useUserOrganizations } from '@/hooks/useBilling';
 import { motion } from 'motion/react';
-import { Loader2, Shield, AlertTriangle } from 'lucide-react';
+import { Loader2, Shield, AlertTriangle, Lock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import TwoFactorChallenge from '@/components/security/TwoFactorChallenge';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -22,11 +24,23 @@ export default function ProtectedRoute({
   requireOrganization = false,
   fallback
 }: ProtectedRouteProps) {
-  const { user, isLoading, isAuthenticated, hasRole, hasPermission } = useAuth();
+  const { user, isLoading, isAuthenticated, hasRole, hasPermission, twoFactor, signOut } = useAuth();
   const location = useLocation();
+  const {
+    data: memberships,
+    isLoading: membershipsLoading,
+    isError: membershipsError,
+    refetch: refetchMemberships
+  } = useUserOrganizations(
+    requireAuth && isAuthenticated ? user?.id ?? '' : ''
+  );
+
+  // The primary organization (earliest joined) decides, as for plan limits
+  const primaryMembership = [...(memberships ?? [])]
+    .sort((a, b) => a.joined_at.localeCompare(b.joined_at))[0];
 
   // Show loading state while checking authentication
-  if (isLoading) {
+  if (isLoading || (requireAuth && isAuthenticated && membershipsLoading)) {
     return (
       <div className="min-h-screen bg-main-bg flex items-center justify-center">
         <motion.div
@@ -47,11 +61,113 @@ export default function ProtectedRoute({
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
+  // Hold the page until this session has passed (or set up) the second factor
+  if (requireAuth && (twoFactor.needsVerification || twoFactor.needsEnrollment || twoFactor.unavailable)) {
+    return <TwoFactorChallenge />;
+  }
+
   // Redirect to dashboard if user is authenticated but trying to access auth pages
   if (!requireAuth && isAuthenticated) {
     return <Navigate to="/dashboard" replace />;
   }
 
+  // Without the memberships the suspension cannot be ruled out, so hold the
+  // page rather than let a suspended learner through
+  if (requireAuth && membershipsError && !hasRole('admin')) {
+    return fallback || (
+      <div className="min-h-screen bg-main-bg flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="max-w-md w-full"
+        >
+          <Card className="card">
+            <CardHeader className="text-center">
+              <div className="mx-auto w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mb-4">
+                <AlertTriangle className="h-8 w-8 text-red-600" />
+              </div>
+              <CardTitle className="text-2xl font-bold text-primary-text">Unable to Verify Access</CardTitle>
+              <CardDescription className="text-lg">
+                We couldn't check your organization's account status.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="text-center space-y-2">
+                <p className="text-sm text-secondary-text">
+                  Check your connection and try again. Contact your administrator if this keeps happening.
+                </p>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <Button
+                  onClick={signOut}
+                  variant="outline"
+                  className="flex-1"
+                >
+                  Sign Out
+                </Button>
+                <Button
+                  onClick={() => refetchMemberships()}
+                  className="flex-1"
+                >
+                  Try Again
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+    );
+  }
+
+  // Organizations suspended for non-payment lock out learners; organization
+  // and billing admins keep access so they can settle the invoice
+  if (
+    requireAuth &&
+    primaryMembership?.organization?.status === 'suspended' &&
+    primaryMembership.role === 'member' &&
+    !hasRole('admin')
+  ) {
+    return fallback || (
+      <div className="min-h-screen bg-main-bg flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="max-w-md w-full"
+        >
+          <Card className="card">
+            <CardHeader className="text-center">
+              <div className="mx-auto w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mb-4">
+                <Lock className="h-8 w-8 text-red-600" />
+              </div>
+              <CardTitle className="text-2xl font-bold text-primary-text">Access Suspended</CardTitle>
+              <CardDescription className="text-lg">
+                {primaryMembership.organization.name} has an unpaid invoice, so training is paused.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="text-center space-y-2">
+                <p className="text-sm text-secondary-text">
+                  Access comes back automatically once your organization's administrator settles the invoice.
+                </p>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <Button
+                  onClick={signOut}
+                  variant="outline"
+                  className="flex-1"
+                >
+                  Sign Out
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+    );
+  }
+
   // Check role-based access
   if (requireRole && !hasRole(requireRole)) {
     return fallback || (
@@ -28,15 +28,18 @@ import {
   Monitor,
   Trash2,
   LogOut,
-  Plus
+  Plus,
+  KeyRound
 } from 'lucide-react';
+import BackupCodes from '@/components/security/BackupCodes';
 import { useAuth } from '@/contexts/AuthContext';
-import { useUpdateUserProfile } from '@/hooks/useAuth';
+import { useUpdateUserProfile, useTwoFactorStatusRefresh } from '@/hooks/useAuth';
 import { 
   useChangePassword,
   useSetupTwoFactor,
   useVerifyTwoFactor,
   useDisableTwoFactor,
+  useRegenerateBackupCodes,
   useUserSessions,
   useRevokeSession,
   useRevokeAllOtherSessions,
@@ -113,11 +116,12 @@ const seatRequestSchema = z.object({
 });
 
 export default function UserProfile() {
-  const { user } = useAuth();
+  const { user, twoFactor } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [activeTab, setActiveTab] = useState('profile');
   const [showTwoFactorSetup, setShowTwoFactorSetup] = useState(false);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
   const [showSeatRequest, setShowSeatRequest] = useState(false);
   
   // Mutations
@@ -126,6 +130,8 @@ export default function UserProfile() {
   const setupTwoFactorMutation = useSetupTwoFactor();
   const verifyTwoFactorMutation = useVerifyTwoFactor();
   const disableTwoFactorMutation = useDisableTwoFactor();
+  const regenerateBackupCodesMutation = useRegenerateBackupCodes();
+  const { refresh: refreshTwoFactorStatus } = useTwoFactorStatusRefresh();
   const revokeSessionMutation = useRevokeSession();
   const revokeAllSessionsMutation = useRevokeAllOtherSessions();
   const requestSeatsMutation = useRequestSeats();
@@ -235,15 +241,29 @@ export default function UserProfile() {
 
   const onTwoFactorVerify = async (data: TwoFactorVerification) => {
     try {
-      await verifyTwoFactorMutation.mutateAsync(data);
+      const result = await verifyTwoFactorMutation.mutateAsync(data);
       toast.success('Two-factor authentication enabled!');
       setShowTwoFactorSetup(false);
+      setBackupCodes(result.backup_codes ?? null);
       twoFactorForm.reset();
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Failed to verify 2FA');
     }
   };
 
+  const onRegenerateBackupCodes = async () => {
+    try {
+      setBackupCodes(await regenerateBackupCodesMutation.mutateAsync());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to regenerate backup codes');
+    }
+  };
+
+  const onBackupCodesSaved = () => {
+    setBackupCodes(null);
+    refreshTwoFactorStatus();
+  };
+
   const onDisableTwoFactor = async () => {
     try {
       await disableTwoFactorMutation.mutateAsync();
@@ -902,6 +922,25 @@ export default function UserProfile() {
                   </Button>
                 )}
 
+                {user?.profile?.two_factor_enabled && !backupCodes && (
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-secondary-text">
+                      {twoFactor.status?.backup_codes_remaining ?? 0} backup codes remaining
+                    </p>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={onRegenerateBackupCodes}
+                      disabled={regenerateBackupCodesMutation.isPending}
+                    >
+                      <KeyRound className="h-4 w-4 mr-2" />
+                      New Backup Codes
+                    </Button>
+                  </div>
+                )}
+
+                {backupCodes && <BackupCodes codes={backupCodes} onDone={onBackupCodesSaved} />}
+
                 {showTwoFactorSetup && setupTwoFactorMutation.data && (
                   <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
                     <div className="text-center">
@@ -909,6 +948,10 @@ export default function UserProfile() {
                       <div className="flex justify-center">
                         <img src={setupTwoFactorMutation.data.setup.qrCode} alt="2FA QR Code" className="w-32 h-32" />
                       </div>
+                      <p className="text-xs text-secondary-text mt-2">
+                        Or enter this key manually:{' '}
+                        <span className="font-mono break-all">{setupTwoFactorMutation.data.setup.secret}</span>
+                      </p>
                     </div>
                     
                     <form onSubmit={twoFactorForm.handleSubmit(onTwoFactorVerify)} className="space-y-4">
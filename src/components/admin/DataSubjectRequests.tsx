@@ -0,0 +1,590 @@
+/**
+ * Data Subject Requests Component
+ * GDPR and CCPA access and erasure requests: deadlines, identity
+ * verification, export archives, erasure and each request's audit trail
+ */
+
+import { useState } from 'react';
+import { Download, Eraser, FileArchive, Plus, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  useCreateDataSubjectRequest,
+  useDataSubjectRequestEvents,
+  useDataSubjectRequests,
+  useEraseDataSubject,
+  useExportDataSubjectRequest,
+  useUpdateDataSubjectRequest,
+} from '@/hooks/useDataSubjectRequests';
+import {
+  complianceService,
+  type DataSubjectRegulation,
+  type DataSubjectRequest,
+  type DataSubjectRequestEvent,
+  type DataSubjectRequestType,
+  type DataSubjectRequestUpdate,
+} from '@/services/complianceService';
+import { cn } from '@/lib/utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Open requests this close to their deadline are flagged
+const DUE_SOON_MS = 7 * DAY_MS;
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+const STATUS_LABELS: Record<DataSubjectRequest['status'], { text: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }> = {
+  received: { text: 'Received', variant: 'secondary' },
+  verifying: { text: 'Verifying', variant: 'secondary' },
+  in_progress: { text: 'In progress', variant: 'default' },
+  completed: { text: 'Completed', variant: 'outline' },
+  rejected: { text: 'Rejected', variant: 'destructive' },
+};
+
+const IDENTITY_LABELS: Record<DataSubjectRequest['identity_verification_status'], { text: string; className: string }> = {
+  pending: { text: 'Identity pending', className: 'bg-gray-100 text-gray-700' },
+  verified: { text: 'Identity verified', className: 'bg-green-100 text-green-800' },
+  failed: { text: 'Identity failed', className: 'bg-red-100 text-red-800' },
+};
+
+const isOpen = (request: DataSubjectRequest) => !['completed', 'rejected'].includes(request.status);
+
+const deadlineOf = (request: DataSubjectRequest) => request.extended_due_at ?? request.due_at;
+
+function Deadline({ request }: { request: DataSubjectRequest }) {
+  const deadline = deadlineOf(request);
+  const remaining = new Date(deadline).getTime() - Date.now();
+
+  if (!isOpen(request)) {
+    return <span className="text-gray-500">{request.completed_at ? `Closed ${formatDate(request.completed_at)}` : 'Closed'}</span>;
+  }
+
+  return (
+    <span className={cn(remaining < 0 ? 'text-red-600 font-medium' : remaining < DUE_SOON_MS && 'text-amber-600')}>
+      {remaining < 0 ? 'Overdue since' : 'Due'} {formatDate(deadline)}
+      {request.extended_due_at && ' (extended)'}
+    </span>
+  );
+}
+
+const describeEvent = (event: DataSubjectRequestEvent): string => {
+  const details = event.details as Record<string, string | number | boolean | null | Record<string, number>>;
+
+  switch (event.event_type) {
+    case 'received':
+      return `Request received, due ${formatDate(String(details.due_at))}${details.account_found ? '' : ' (no matching account)'}`;
+    case 'identity_verified':
+      return `Identity verified${details.method ? ` by ${details.method}` : ''}`;
+    case 'identity_failed':
+      return `Identity verification failed${details.method ? ` (${details.method})` : ''}`;
+    case 'identity_pending':
+      return 'Identity verification reset';
+    case 'deadline_extended':
+      return `Deadline extended to ${formatDate(String(details.to))}: ${details.reason}`;
+    case 'export_generated':
+      return `Export archive generated (SHA-256 ${String(details.sha256).slice(0, 12)}…)`;
+    case 'export_deleted':
+      return 'Export archive deleted';
+    case 'erasure_completed': {
+      const anonymized = Object.values((details.anonymized ?? {}) as Record<string, number>).reduce((sum, n) => sum + n, 0);
+      return details.account_found
+        ? `Account deleted; ${anonymized} reel and analytics rows anonymized`
+        : 'No account held for the subject; nothing to erase';
+    }
+    case 'status_changed':
+      return `Status changed to ${STATUS_LABELS[details.to as DataSubjectRequest['status']]?.text ?? details.to}${details.reason ? `: ${details.reason}` : ''}`;
+    default:
+      return event.event_type;
+  }
+};
+
+function AuditTrail({ requestId }: { requestId: string }) {
+  const { data: events = [], isLoading } = useDataSubjectRequestEvents(requestId);
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-3 space-y-3">
+      {events.map((event) => (
+        <li key={event.id} className="relative ml-4">
+          <div className="absolute -left-[22px] top-1.5 h-3 w-3 rounded-full bg-gray-400" />
+          <p className="text-sm">{describeEvent(event)}</p>
+          <p className="text-xs text-gray-500">{formatDateTime(event.created_at)}</p>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function RequestDetail({ request }: { request: DataSubjectRequest }) {
+  const updateMutation = useUpdateDataSubjectRequest();
+  const exportMutation = useExportDataSubjectRequest();
+  const eraseMutation = useEraseDataSubject();
+
+  const [verificationMethod, setVerificationMethod] = useState(request.verification_method ?? '');
+  const [extension, setExtension] = useState({ until: '', reason: '' });
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  const open = isOpen(request);
+  const verified = request.identity_verification_status === 'verified';
+
+  const update = async (updates: DataSubjectRequestUpdate, success: string) => {
+    try {
+      await updateMutation.mutateAsync({ requestId: request.id, updates });
+      toast.success(success);
+    } catch (error) {
+      console.error('Error updating data subject request:', error);
+      toast.error(errorMessage(error, 'Failed to update request'));
+    }
+  };
+
+  const handleVerification = (status: 'verified' | 'failed') => {
+    if (!verificationMethod.trim()) {
+      toast.error('Describe how the identity was checked');
+      return;
+    }
+    update(
+      {
+        identity_verification_status: status,
+        verification_method: verificationMethod.trim(),
+        ...(request.status === 'received' && { status: 'verifying' }),
+      },
+      status === 'verified' ? 'Identity verified' : 'Identity verification recorded as failed'
+    );
+  };
+
+  const handleExtend = () => {
+    if (!extension.until || !extension.reason.trim()) {
+      toast.error('Choose a new deadline and give the reason for the extension');
+      return;
+    }
+    update(
+      { extended_due_at: new Date(`${extension.until}T23:59:59`).toISOString(), extension_reason: extension.reason.trim() },
+      'Deadline extended'
+    );
+  };
+
+  const handleReject = () => {
+    if (!rejectionReason.trim()) {
+      toast.error('Give the reason for rejecting the request');
+      return;
+    }
+    if (!confirm('Reject this request? The subject must be told why.')) {
+      return;
+    }
+    update({ status: 'rejected', rejection_reason: rejectionReason.trim() }, 'Request rejected');
+  };
+
+  const handleExport = async () => {
+    try {
+      const result = await exportMutation.mutateAsync(request.id);
+      window.open(result.signedUrl, '_blank', 'noopener');
+      toast.success('Export archive generated');
+    } catch (error) {
+      console.error('Error exporting subject data:', error);
+      toast.error(errorMessage(error, 'Failed to export subject data'));
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!request.export_path) return;
+    try {
+      window.open(await complianceService.getDataSubjectExportUrl(request.export_path), '_blank', 'noopener');
+    } catch (error) {
+      console.error('Error downloading export archive:', error);
+      toast.error('Failed to download export archive');
+    }
+  };
+
+  const handleErase = async () => {
+    if (!confirm(
+      `Erase ${request.subject_email}? Their account, profile, sessions, quiz attempts and certificates are deleted ` +
+      'and their reels and analytics are anonymized. This cannot be undone.'
+    )) {
+      return;
+    }
+
+    try {
+      await eraseMutation.mutateAsync(request.id);
+      toast.success('Subject erased');
+    } catch (error) {
+      console.error('Error erasing subject:', error);
+      toast.error(errorMessage(error, 'Failed to erase subject'));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <p className="text-gray-500">Received</p>
+          <p>{formatDate(request.received_at)}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Deadline</p>
+          <p><Deadline request={request} /></p>
+        </div>
+        <div>
+          <p className="text-gray-500">Account</p>
+          <p>{request.subject_user_id ? 'Found' : request.erasure_summary ? 'Erased' : 'No matching account'}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Identity</p>
+          <Badge className={IDENTITY_LABELS[request.identity_verification_status].className}>
+            {IDENTITY_LABELS[request.identity_verification_status].text}
+          </Badge>
+        </div>
+      </div>
+
+      {request.notes && <p className="text-sm text-gray-600 whitespace-pre-line">{request.notes}</p>}
+
+      {open && (
+        <div className="space-y-2">
+          <h4 className="font-medium">Identity verification</h4>
+          <Input
+            placeholder="How was the identity checked, e.g. signed-in request or ID document"
+            value={verificationMethod}
+            onChange={(e) => setVerificationMethod(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => handleVerification('verified')} disabled={updateMutation.isPending}>
+              Mark verified
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => handleVerification('failed')} disabled={updateMutation.isPending}>
+              Verification failed
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {open && !request.extended_due_at && (
+        <div className="space-y-2">
+          <h4 className="font-medium">Extend deadline</h4>
+          <p className="text-xs text-gray-500">Extensions can run to at most 90 days after the request was received</p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <Input
+              type="date"
+              value={extension.until}
+              onChange={(e) => setExtension(prev => ({ ...prev, until: e.target.value }))}
+            />
+            <Input
+              className="md:col-span-2"
+              placeholder="Reason, e.g. complexity or number of requests"
+              value={extension.reason}
+              onChange={(e) => setExtension(prev => ({ ...prev, reason: e.target.value }))}
+            />
+          </div>
+          <Button size="sm" variant="outline" onClick={handleExtend} disabled={updateMutation.isPending}>
+            Extend
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h4 className="font-medium">{request.request_type === 'access' ? 'Export' : 'Erasure'}</h4>
+        {request.request_type === 'access' ? (
+          <div className="flex flex-wrap gap-2">
+            {open && (
+              <Button size="sm" onClick={handleExport} disabled={!verified || exportMutation.isPending}>
+                <FileArchive className="h-4 w-4 mr-2" />
+                {exportMutation.isPending ? 'Generating...' : request.export_path ? 'Regenerate Archive' : 'Generate Archive'}
+              </Button>
+            )}
+            {request.export_path && (
+              <Button size="sm" variant="outline" onClick={handleDownload}>
+                <Download className="h-4 w-4 mr-2" />
+                Download ({request.exported_at && formatDate(request.exported_at)})
+              </Button>
+            )}
+            {open && request.export_path && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => update({ status: 'completed' }, 'Request completed')}
+                disabled={updateMutation.isPending}
+              >
+                Mark Completed
+              </Button>
+            )}
+          </div>
+        ) : request.erasure_summary ? (
+          <p className="text-sm text-gray-600">
+            Erased {formatDate(request.erasure_summary.erased_at)}.
+            {' '}Anonymized: {Object.entries(request.erasure_summary.anonymized).map(([table, count]) => `${table} ${count}`).join(', ')}.
+            {' '}Deleted: {Object.entries(request.erasure_summary.deleted).map(([table, count]) => `${table} ${count}`).join(', ') || 'nothing'}.
+          </p>
+        ) : (
+          open && (
+            <Button size="sm" variant="destructive" onClick={handleErase} disabled={!verified || eraseMutation.isPending}>
+              <Eraser className="h-4 w-4 mr-2" />
+              {eraseMutation.isPending ? 'Erasing...' : 'Erase Subject'}
+            </Button>
+          )
+        )}
+        {open && !verified && (
+          <p className="text-xs text-gray-500">Available once the subject's identity is verified</p>
+        )}
+      </div>
+
+      {open && (
+        <div className="space-y-2">
+          <h4 className="font-medium">Reject request</h4>
+          <Input
+            placeholder="Reason, e.g. identity could not be verified"
+            value={rejectionReason}
+            onChange={(e) => setRejectionReason(e.target.value)}
+          />
+          <Button size="sm" variant="outline" onClick={handleReject} disabled={updateMutation.isPending}>
+            Reject
+          </Button>
+        </div>
+      )}
+
+      {request.status === 'rejected' && request.rejection_reason && (
+        <p className="text-sm text-red-600">Rejected: {request.rejection_reason}</p>
+      )}
+
+      <div className="space-y-2 border-t pt-4">
+        <h4 className="font-medium">Audit trail</h4>
+        <AuditTrail requestId={request.id} />
+      </div>
+    </div>
+  );
+}
+
+function NewRequestForm({ onDone }: { onDone: () => void }) {
+  const { user } = useAuth();
+  const createMutation = useCreateDataSubjectRequest(user?.id ?? '');
+
+  const [form, setForm] = useState({
+    subject_email: '',
+    request_type: 'access' as DataSubjectRequestType,
+    regulation: 'gdpr' as DataSubjectRegulation,
+    received: today(),
+    notes: '',
+  });
+
+  const handleCreate = async () => {
+    if (!form.subject_email.trim()) {
+      toast.error('Enter the subject\'s email address');
+      return;
+    }
+
+    try {
+      await createMutation.mutateAsync({
+        subject_email: form.subject_email.trim(),
+        request_type: form.request_type,
+        regulation: form.regulation,
+        // The deadline runs from the day the request arrived
+        received_at: form.received === today() ? new Date().toISOString() : new Date(`${form.received}T00:00:00`).toISOString(),
+        notes: form.notes.trim() || null,
+      });
+      toast.success('Request logged');
+      onDone();
+    } catch (error) {
+      console.error('Error creating data subject request:', error);
+      toast.error(errorMessage(error, 'Failed to log request'));
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="dsrEmail">Subject email</Label>
+          <Input
+            id="dsrEmail"
+            type="email"
+            value={form.subject_email}
+            onChange={(e) => setForm(prev => ({ ...prev, subject_email: e.target.value }))}
+          />
+        </div>
+        <div>
+          <Label htmlFor="dsrReceived">Received</Label>
+          <Input
+            id="dsrReceived"
+            type="date"
+            max={today()}
+            value={form.received}
+            onChange={(e) => setForm(prev => ({ ...prev, received: e.target.value }))}
+          />
+        </div>
+        <div>
+          <Label>Request</Label>
+          <Select
+            value={form.request_type}
+            onValueChange={(value) => setForm(prev => ({ ...prev, request_type: value as DataSubjectRequestType }))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="access">Access / export</SelectItem>
+              <SelectItem value="erasure">Erasure</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Regulation</Label>
+          <Select
+            value={form.regulation}
+            onValueChange={(value) => setForm(prev => ({ ...prev, regulation: value as DataSubjectRegulation }))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="gdpr">GDPR (30 days)</SelectItem>
+              <SelectItem value="ccpa">CCPA (45 days)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div>
+        <Label htmlFor="dsrNotes">Notes</Label>
+        <Textarea
+          id="dsrNotes"
+          placeholder="How the request arrived and any reference"
+          value={form.notes}
+          onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button onClick={handleCreate} disabled={createMutation.isPending} className="btn-primary">
+          {createMutation.isPending ? 'Saving...' : 'Log Request'}
+        </Button>
+        <Button variant="outline" onClick={onDone}>Cancel</Button>
+      </div>
+    </div>
+  );
+}
+
+export function DataSubjectRequests() {
+  const { data: requests = [], isLoading } = useDataSubjectRequests();
+  const [showForm, setShowForm] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selected = requests.find(request => request.id === selectedId) ?? null;
+  const overdue = requests.filter(request => isOpen(request) && new Date(deadlineOf(request)).getTime() < Date.now()).length;
+
+  if (isLoading) {
+    return (
+      <Card className="card">
+        <CardHeader>
+          <Skeleton className="h-6 w-48 mb-2" />
+          <Skeleton className="h-4 w-72" />
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="h-40 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <ShieldCheck className="h-6 w-6 text-primary" />
+            <div>
+              <CardTitle>Data Subject Requests</CardTitle>
+              <CardDescription>
+                GDPR and CCPA access and erasure requests, with their deadlines and audit trail
+              </CardDescription>
+            </div>
+          </div>
+          {!showForm && (
+            <Button variant="outline" size="sm" onClick={() => setShowForm(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Request
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && <NewRequestForm onDone={() => setShowForm(false)} />}
+
+        {overdue > 0 && (
+          <p className="text-sm text-red-600">
+            {overdue} open {overdue === 1 ? 'request is' : 'requests are'} past the deadline
+          </p>
+        )}
+
+        {requests.length === 0 ? (
+          <p className="text-sm text-gray-600">No data subject requests yet</p>
+        ) : (
+          <div className="divide-y rounded-lg border">
+            {requests.map((request) => (
+              <div key={request.id} className="flex flex-wrap items-center justify-between gap-2 p-3">
+                <div className="space-y-1">
+                  <p className="font-medium">{request.subject_email}</p>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant="outline">{request.request_type === 'access' ? 'Access' : 'Erasure'}</Badge>
+                    <Badge variant="outline">{request.regulation.toUpperCase()}</Badge>
+                    <Badge variant={STATUS_LABELS[request.status].variant}>{STATUS_LABELS[request.status].text}</Badge>
+                    <Badge className={IDENTITY_LABELS[request.identity_verification_status].className}>
+                      {IDENTITY_LABELS[request.identity_verification_status].text}
+                    </Badge>
+                    <Deadline request={request} />
+                  </div>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setSelectedId(request.id)}>
+                  Manage
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selected} onOpenChange={(openDialog) => !openDialog && setSelectedId(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selected.subject_email}</DialogTitle>
+                <DialogDescription>
+                  {selected.regulation.toUpperCase()} {selected.request_type === 'access' ? 'access' : 'erasure'} request
+                  {' · '}{STATUS_LABELS[selected.status].text}
+                </DialogDescription>
+              </DialogHeader>
+              <RequestDetail key={selected.id} request={selected} />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
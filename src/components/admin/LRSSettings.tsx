@@ -0,0 +1,217 @@
+/**
+ * LRS Settings Component
+ * Organization xAPI settings: forwarding to the customer's own LRS and
+ * credentials for reading the built-in LRS
+ */
+
+import { useEffect, useState } from 'react';
+import { Copy, Database, Eye, EyeOff, RefreshCw, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUserOrganizations } from '@/hooks/useBilling';
+import {
+  useLRSConfig,
+  useLRSForwardingStatus,
+  useRotateLRSCredentials,
+  useSaveLRSConfig,
+} from '@/hooks/useXAPI';
+import { LRS_ENDPOINT } from '@/services/xapiService';
+
+const copyToClipboard = async (value: string, label: string) => {
+  try {
+    await navigator.clipboard.writeText(value);
+    toast.success(`${label} copied`);
+  } catch {
+    toast.error(`Failed to copy ${label.toLowerCase()}`);
+  }
+};
+
+function CopyField({ id, label, value, secret = false }: { id: string; label: string; value: string; secret?: boolean }) {
+  const [visible, setVisible] = useState(!secret);
+
+  return (
+    <div>
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex space-x-2">
+        <Input id={id} value={value} type={visible ? 'text' : 'password'} readOnly className="font-mono text-sm" />
+        {secret && (
+          <Button variant="outline" size="sm" onClick={() => setVisible(!visible)} aria-label={visible ? 'Hide' : 'Show'}>
+            {visible ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={() => copyToClipboard(value, label)} aria-label={`Copy ${label}`}>
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function LRSSettings() {
+  const { user } = useAuth();
+  const { data: memberships = [], isLoading: membershipsLoading } = useUserOrganizations(user?.id ?? '');
+  const organizationId = memberships.find(membership => membership.role === 'admin')?.organization_id ?? '';
+
+  const { data: config, isLoading: configLoading } = useLRSConfig(organizationId);
+  const { data: forwarding } = useLRSForwardingStatus(organizationId, !!config?.endpoint);
+  const saveMutation = useSaveLRSConfig(organizationId);
+  const rotateMutation = useRotateLRSCredentials(organizationId);
+
+  const [form, setForm] = useState({ enabled: true, endpoint: '', auth_username: '', auth_password: '' });
+
+  useEffect(() => {
+    if (config) {
+      setForm({
+        enabled: config.enabled,
+        endpoint: config.endpoint,
+        auth_username: config.auth_username,
+        auth_password: config.auth_password,
+      });
+    }
+  }, [config]);
+
+  const handleSave = async () => {
+    try {
+      await saveMutation.mutateAsync(form);
+      toast.success('LRS settings saved');
+    } catch (error) {
+      console.error('Error saving LRS settings:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save LRS settings');
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!confirm('Issue new LRS credentials? Systems using the current key and secret will stop working.')) {
+      return;
+    }
+
+    try {
+      await rotateMutation.mutateAsync();
+      toast.success('LRS credentials rotated');
+    } catch (error) {
+      console.error('Error rotating LRS credentials:', error);
+      toast.error('Failed to rotate LRS credentials');
+    }
+  };
+
+  if (membershipsLoading || (organizationId && configLoading)) {
+    return (
+      <Card className="card">
+        <CardHeader>
+          <Skeleton className="h-6 w-48 mb-2" />
+          <Skeleton className="h-4 w-72" />
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="h-40 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // LRS settings belong to an organization and only its admins manage them
+  if (!organizationId) {
+    return null;
+  }
+
+  return (
+    <Card className="card">
+      <CardHeader>
+        <div className="flex items-center space-x-3">
+          <Database className="h-6 w-6 text-primary" />
+          <div>
+            <CardTitle>Learning Record Store (xAPI)</CardTitle>
+            <CardDescription>
+              Reel, course and quiz activity is recorded as xAPI statements in the built-in LRS and can be sent on to your own
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="lrsEnabled">Enable LRS</Label>
+            <p className="text-sm text-gray-600">Allow access to the built-in LRS and forwarding to your LRS</p>
+          </div>
+          <Switch
+            id="lrsEnabled"
+            checked={form.enabled}
+            onCheckedChange={(checked) => setForm(prev => ({ ...prev, enabled: checked }))}
+          />
+        </div>
+
+        <div className="space-y-4">
+          <h4 className="font-medium">Forward to your LRS</h4>
+          <div>
+            <Label htmlFor="lrsEndpoint">LRS endpoint</Label>
+            <Input
+              id="lrsEndpoint"
+              placeholder="https://lrs.example.com/xapi"
+              value={form.endpoint}
+              onChange={(e) => setForm(prev => ({ ...prev, endpoint: e.target.value }))}
+            />
+            <p className="text-xs text-gray-500 mt-1">Leave empty to keep statements in the built-in LRS only</p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="lrsUsername">Key / username</Label>
+              <Input
+                id="lrsUsername"
+                value={form.auth_username}
+                onChange={(e) => setForm(prev => ({ ...prev, auth_username: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="lrsPassword">Secret / password</Label>
+              <Input
+                id="lrsPassword"
+                type="password"
+                value={form.auth_password}
+                onChange={(e) => setForm(prev => ({ ...prev, auth_password: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          {config?.endpoint && forwarding && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant={forwarding.pending > 0 ? 'secondary' : 'outline'}>{forwarding.pending} pending</Badge>
+              {forwarding.failed > 0 && <Badge variant="destructive">{forwarding.failed} failed</Badge>}
+              {forwarding.last_error && <span className="text-red-600">{forwarding.last_error}</span>}
+            </div>
+          )}
+
+          <Button onClick={handleSave} disabled={saveMutation.isPending} className="btn-primary">
+            <Save className="h-4 w-4 mr-2" />
+            {saveMutation.isPending ? 'Saving...' : 'Save Settings'}
+          </Button>
+        </div>
+
+        {config && (
+          <div className="space-y-4 border-t pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h4 className="font-medium">Built-in LRS</h4>
+                <p className="text-sm text-gray-600">Point your LRS or reporting tools here with Basic authentication</p>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleRotate} disabled={rotateMutation.isPending}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Rotate Credentials
+              </Button>
+            </div>
+            <CopyField id="lrsBuiltinEndpoint" label="Endpoint" value={LRS_ENDPOINT} />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <CopyField id="lrsKey" label="Key" value={config.lrs_key} />
+              <CopyField id="lrsSecret" label="Secret" value={config.lrs_secret} secret />
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
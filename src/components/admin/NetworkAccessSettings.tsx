@@ -0,0 +1,239 @@
+/**
+ * Network Access Settings Component
+ * Organization IP and country allow/block lists for sign-in, with the
+ * admin's own connection shown so they can allow it before restricting
+ * everyone else
+ */
+
+import { useState } from 'react';
+import { Globe, Plus, ShieldCheck, ShieldX, Trash2, Wifi } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUserOrganizations } from '@/hooks/useBilling';
+import {
+  useAddNetworkRule,
+  useCurrentNetwork,
+  useDeleteNetworkRule,
+  useNetworkRules,
+} from '@/hooks/useNetworkAccess';
+import { describeNetworkRule } from '@/services/networkAccessService';
+import type { NetworkRule, NetworkRuleType } from '@/types/networkAccess';
+
+type TargetKind = 'cidr' | 'country';
+
+const EMPTY_FORM = { rule_type: 'allow' as NetworkRuleType, kind: 'cidr' as TargetKind, target: '', description: '' };
+
+export function NetworkAccessSettings() {
+  const { user } = useAuth();
+  const { data: memberships = [], isLoading: membershipsLoading } = useUserOrganizations(user?.id ?? '');
+  const organizationId = memberships.find(membership => membership.role === 'admin')?.organization_id ?? '';
+
+  const { data: rules = [], isLoading: rulesLoading } = useNetworkRules(organizationId);
+  const { data: currentNetwork } = useCurrentNetwork();
+  const addMutation = useAddNetworkRule(organizationId, user?.id ?? '');
+  const deleteMutation = useDeleteNetworkRule(organizationId);
+
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const handleAdd = async () => {
+    try {
+      await addMutation.mutateAsync({
+        rule_type: form.rule_type,
+        ...(form.kind === 'cidr' ? { cidr: form.target } : { country_code: form.target }),
+        description: form.description,
+      });
+      setForm(EMPTY_FORM);
+      toast.success('Network rule added');
+    } catch (error) {
+      console.error('Error adding network rule:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add network rule');
+    }
+  };
+
+  const handleDelete = async (rule: NetworkRule) => {
+    if (!confirm(`Remove the ${rule.rule_type} rule for ${describeNetworkRule(rule)}?`)) {
+      return;
+    }
+
+    try {
+      await deleteMutation.mutateAsync(rule.id);
+      toast.success('Network rule removed');
+    } catch (error) {
+      console.error('Error removing network rule:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove network rule');
+    }
+  };
+
+  const fillCurrentIp = () => {
+    if (currentNetwork?.ip) {
+      setForm(prev => ({ ...prev, rule_type: 'allow', kind: 'cidr', target: currentNetwork.ip ?? '' }));
+    }
+  };
+
+  if (membershipsLoading || (organizationId && rulesLoading)) {
+    return (
+      <Card className="card">
+        <CardHeader>
+          <Skeleton className="h-6 w-48 mb-2" />
+          <Skeleton className="h-4 w-72" />
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="h-40 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Network rules belong to an organization and only its admins manage them
+  if (!organizationId) {
+    return null;
+  }
+
+  const allowRules = rules.filter(rule => rule.rule_type === 'allow');
+  const blockRules = rules.filter(rule => rule.rule_type === 'block');
+
+  const renderRules = (list: NetworkRule[], emptyText: string) =>
+    list.length === 0 ? (
+      <p className="text-sm text-gray-500">{emptyText}</p>
+    ) : (
+      <div className="space-y-2">
+        {list.map(rule => (
+          <div key={rule.id} className="flex items-center justify-between p-3 border rounded-lg">
+            <div className="flex items-center space-x-3">
+              {rule.cidr ? <Wifi className="h-4 w-4 text-gray-500" /> : <Globe className="h-4 w-4 text-gray-500" />}
+              <span className="font-mono text-sm">{describeNetworkRule(rule)}</span>
+              {rule.description && <span className="text-sm text-gray-600">{rule.description}</span>}
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDelete(rule)}
+              disabled={deleteMutation.isPending}
+              aria-label="Remove rule"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    );
+
+  return (
+    <Card className="card">
+      <CardHeader>
+        <div className="flex items-center space-x-3">
+          <ShieldCheck className="h-6 w-6 text-primary" />
+          <div>
+            <CardTitle>Network Access</CardTitle>
+            <CardDescription>
+              Limit where members can sign in from. Connections matching a block rule are refused; once any allow rule exists,
+              members must connect from an allowed network or country.
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-600">Your current connection:</span>
+          <Badge variant="outline" className="font-mono">{currentNetwork?.ip ?? 'unknown IP'}</Badge>
+          {currentNetwork?.country && <Badge variant="outline">{currentNetwork.country}</Badge>}
+          <span className="text-xs text-gray-500">Changes that would block it are refused</span>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <ShieldCheck className="h-4 w-4 text-green-600" />
+            <h4 className="font-medium">Allowed</h4>
+            <Badge variant="secondary">{allowRules.length}</Badge>
+          </div>
+          {renderRules(allowRules, 'No allow rules: members can sign in from any network that is not blocked')}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <ShieldX className="h-4 w-4 text-red-600" />
+            <h4 className="font-medium">Blocked</h4>
+            <Badge variant="secondary">{blockRules.length}</Badge>
+          </div>
+          {renderRules(blockRules, 'No block rules')}
+        </div>
+
+        <div className="space-y-4 border-t pt-6">
+          <h4 className="font-medium">Add a rule</h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="networkRuleType">Rule</Label>
+              <Select
+                value={form.rule_type}
+                onValueChange={(value) => setForm(prev => ({ ...prev, rule_type: value as NetworkRuleType }))}
+              >
+                <SelectTrigger id="networkRuleType">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="allow">Allow</SelectItem>
+                  <SelectItem value="block">Block</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="networkRuleKind">Match on</Label>
+              <Select
+                value={form.kind}
+                onValueChange={(value) => setForm(prev => ({ ...prev, kind: value as TargetKind, target: '' }))}
+              >
+                <SelectTrigger id="networkRuleKind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cidr">IP address or range</SelectItem>
+                  <SelectItem value="country">Country</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="networkRuleTarget">{form.kind === 'cidr' ? 'IP or CIDR' : 'Country code'}</Label>
+              <Input
+                id="networkRuleTarget"
+                placeholder={form.kind === 'cidr' ? '10.20.0.0/16' : 'DE'}
+                value={form.target}
+                onChange={(e) => setForm(prev => ({ ...prev, target: e.target.value }))}
+                className="font-mono"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="networkRuleDescription">Description</Label>
+            <Input
+              id="networkRuleDescription"
+              placeholder="Plant 2 office network"
+              value={form.description}
+              onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button onClick={handleAdd} disabled={addMutation.isPending || !form.target.trim()} className="btn-primary">
+              <Plus className="h-4 w-4 mr-2" />
+              {addMutation.isPending ? 'Adding...' : 'Add Rule'}
+            </Button>
+            {currentNetwork?.ip && (
+              <Button variant="outline" onClick={fillCurrentIp}>
+                Use my current IP
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            Countries come from the client IP as resolved by our CDN. Members whose country cannot be determined only match IP rules.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
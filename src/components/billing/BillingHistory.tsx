@@ -5,15 +5,232 @@
 
 import { useState } from 'react';
 import { motion } from 'motion/react';
-import { Download, Eye, FileText, CreditCard, Search } from 'lucide-react';
+import { Download, Eye, FileText, CreditCard, Search, Mail, RefreshCw, AlertTriangle, CheckCircle } from 'lucide-react';
+import { toast } from 'sonner';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { useInvoices, usePayments, useGenerateInvoicePdf } from '@/hooks/useBilling';
+import {
+  useInvoices,
+  usePayments,
+  useGenerateInvoicePdf,
+  useInvoiceDocuments,
+  useInvoiceEmails,
+  useSendInvoiceEmail,
+  useDunningCases,
+  useDunningTimeline,
+} from '@/hooks/useBilling';
+import { billingApi } from '@/api/billing';
 import { cn } from '@/lib/utils';
+import type { DunningCaseWithInvoice, Invoice } from '@/types/billing';
+
+const formatCurrency = (cents: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(cents / 100);
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Resolved cases stay on the page this long after the invoice is settled
+const RESOLVED_CASE_VISIBLE_MS = 30 * DAY_MS;
+
+// Save a rendered invoice PDF from the invoices bucket
+const downloadInvoicePdf = async (storagePath: string, filename: string) => {
+  const blob = await billingApi.invoices.downloadPdf(storagePath);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+interface InvoiceDocumentsProps {
+  invoice: Invoice;
+}
+
+// Rendered versions of an invoice and where it has been emailed
+function InvoiceDocuments({ invoice }: InvoiceDocumentsProps) {
+  const { data: documents = [], isLoading } = useInvoiceDocuments(invoice.id);
+  const { data: emails = [] } = useInvoiceEmails(invoice.id);
+  const generatePdf = useGenerateInvoicePdf();
+  const sendEmail = useSendInvoiceEmail();
+
+  const handleDownload = async (storagePath: string, version: number) => {
+    try {
+      await downloadInvoicePdf(storagePath, `${invoice.invoice_number}-v${version}.pdf`);
+    } catch (error) {
+      console.error('Failed to download invoice PDF:', error);
+      toast.error('Failed to download invoice PDF');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-600">Documents</label>
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => generatePdf.mutate(invoice.id)}
+            disabled={generatePdf.isPending}
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {documents.length > 0 ? 'Regenerate PDF' : 'Generate PDF'}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => sendEmail.mutate(invoice.id)}
+            disabled={sendEmail.isPending}
+          >
+            <Mail className="h-4 w-4 mr-2" />
+            {sendEmail.isPending ? 'Sending...' : 'Email Invoice'}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-10 bg-gray-200 rounded animate-pulse"></div>
+      ) : documents.length === 0 ? (
+        <p className="text-sm text-gray-500">No PDF has been generated for this invoice yet</p>
+      ) : (
+        <div className="space-y-2">
+          {documents.map((document) => (
+            <div key={document.id} className="flex items-center justify-between text-sm">
+              <span>
+                Version {document.version} · {formatDate(document.created_at)} ·{' '}
+                {formatCurrency(document.total_cents, document.currency)} ({document.invoice_status})
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => handleDownload(document.storage_path, document.version)}>
+                <Download className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {emails.length > 0 && (
+        <div className="space-y-1">
+          <label className="text-sm font-medium text-gray-600">Sent</label>
+          {emails.map((email) => (
+            <div key={email.id} className="flex justify-between text-sm">
+              <span>{email.recipient}</span>
+              <span className={email.status === 'failed' ? 'text-red-600' : 'text-gray-600'}>
+                {email.status === 'failed' ? 'Failed' : 'Sent'} {formatDate(email.created_at)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const DUNNING_STAGES = {
+  retrying: { color: 'bg-yellow-500', text: 'Retrying payment', summary: 'We are retrying the payment and emailing your billing contact.' },
+  grace: { color: 'bg-orange-500', text: 'Read-only', summary: 'Your organization is read-only: nothing new can be added until the invoice is paid.' },
+  suspended: { color: 'bg-red-600', text: 'Suspended', summary: 'Access is suspended for learners until the invoice is paid.' },
+  recovered: { color: 'bg-green-500', text: 'Recovered', summary: 'The invoice was paid and access is back to normal.' },
+  cancelled: { color: 'bg-gray-500', text: 'Closed', summary: 'The invoice was voided, so no further payment is needed.' },
+};
+
+// Steps of the schedule that have not happened yet
+const upcomingDunningSteps = (dunningCase: DunningCaseWithInvoice) => {
+  const startedAt = new Date(dunningCase.started_at).getTime();
+  const lastRetryAt = startedAt + dunningCase.retry_days[dunningCase.retry_days.length - 1] * DAY_MS;
+  const steps: { label: string; at: string }[] = [];
+
+  if (dunningCase.stage === 'retrying') {
+    dunningCase.retry_days.slice(dunningCase.attempts).forEach((day, index) => {
+      steps.push({
+        label: `Payment retry ${dunningCase.attempts + index + 1} and reminder email`,
+        at: new Date(startedAt + day * DAY_MS).toISOString(),
+      });
+    });
+    steps.push({ label: 'Organization becomes read-only', at: new Date(lastRetryAt).toISOString() });
+    steps.push({ label: 'Access suspended for learners', at: new Date(lastRetryAt + dunningCase.grace_days * DAY_MS).toISOString() });
+  } else if (dunningCase.stage === 'grace' && dunningCase.next_action_at) {
+    steps.push({ label: 'Access suspended for learners', at: dunningCase.next_action_at });
+  }
+
+  return steps;
+};
+
+interface PaymentRecoveryProps {
+  organizationId: string;
+  dunningCase: DunningCaseWithInvoice;
+}
+
+// Where a failed payment is in the dunning schedule, with everything that has
+// happened so far and what comes next
+function PaymentRecovery({ organizationId, dunningCase }: PaymentRecoveryProps) {
+  const { data: events = [] } = useDunningTimeline(organizationId, dunningCase.invoice_id);
+  const stage = DUNNING_STAGES[dunningCase.stage];
+  const isOpen = ['retrying', 'grace', 'suspended'].includes(dunningCase.stage);
+  const upcoming = upcomingDunningSteps(dunningCase);
+
+  // Payment events from before the case opened belong to earlier attempts
+  const timeline = events.filter(
+    (event) => event.event_category === 'dunning' || event.created_at >= dunningCase.started_at
+  );
+
+  return (
+    <Card className={cn(isOpen ? 'border-orange-300' : 'border-green-300')}>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-start justify-between">
+          <div className="flex items-start space-x-3">
+            {isOpen ? (
+              <AlertTriangle className="h-6 w-6 text-orange-500 mt-0.5" />
+            ) : (
+              <CheckCircle className="h-6 w-6 text-green-500 mt-0.5" />
+            )}
+            <div>
+              <h3 className="text-lg font-semibold">Payment recovery</h3>
+              <p className="text-sm text-gray-600">
+                Invoice {dunningCase.invoice.invoice_number} ·{' '}
+                {formatCurrency(dunningCase.invoice.total_cents, dunningCase.invoice.currency)} · {stage.summary}
+              </p>
+            </div>
+          </div>
+          <Badge className={cn('text-white', stage.color)}>{stage.text}</Badge>
+        </div>
+
+        <ol className="relative border-l border-gray-200 ml-3 space-y-3">
+          {timeline.map((event) => (
+            <li key={event.id} className="relative ml-4">
+              <div className="absolute -left-[22px] top-1.5 h-3 w-3 rounded-full bg-gray-400" />
+              <p className="text-sm">{event.event_description}</p>
+              <p className="text-xs text-gray-500">{formatDate(event.created_at)}</p>
+            </li>
+          ))}
+          {upcoming.map((step) => (
+            <li key={step.label} className="relative ml-4 text-gray-400">
+              <div className="absolute -left-[22px] top-1.5 h-3 w-3 rounded-full border border-gray-300 bg-white" />
+              <p className="text-sm">{step.label}</p>
+              <p className="text-xs">Scheduled {formatDate(step.at)}</p>
+            </li>
+          ))}
+        </ol>
+
+        {isOpen && (
+          <p className="text-sm text-gray-600">
+            Paying the invoice or updating your payment method restores access straight away.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
 interface BillingHistoryProps {
   organizationId: string;
@@ -35,21 +252,13 @@ export function BillingHistory({ organizationId, className }: BillingHistoryProp
     filters: { status: statusFilter === 'all' ? undefined : statusFilter },
   });
 
-  const generatePdf = useGenerateInvoicePdf();
-
-  const formatCurrency = (cents: number, currency: string) => {
-    const amount = cents / 100;
-    const symbol = currency === 'USD' ? '$' : currency;
-    return `${symbol}${amount.toFixed(2)}`;
-  };
+  const { data: dunningCases = [] } = useDunningCases(organizationId);
+  const visibleCases = dunningCases.filter(
+    (dunningCase) =>
+      !dunningCase.resolved_at || Date.now() - new Date(dunningCase.resolved_at).getTime() < RESOLVED_CASE_VISIBLE_MS
+  );
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-    });
-  };
+  const generatePdf = useGenerateInvoicePdf();
 
   const getStatusBadge = (status: string) => {
     const statusConfig = {
@@ -74,11 +283,18 @@ export function BillingHistory({ organizationId, className }: BillingHistoryProp
     );
   };
 
-  const handleGeneratePdf = async (invoiceId: string) => {
+  // Download the latest PDF, rendering one first if there is none yet.
+  // pdf_url holds the storage object name; older rows hold a placeholder path.
+  const handleDownloadPdf = async (invoice: Invoice) => {
     try {
-      await generatePdf.mutateAsync(invoiceId);
+      const storagePath = invoice.pdf_url && !invoice.pdf_url.startsWith('/')
+        ? invoice.pdf_url
+        : (await generatePdf.mutateAsync(invoice.id)).storage_path;
+
+      await downloadInvoicePdf(storagePath, `${invoice.invoice_number}.pdf`);
     } catch (error) {
-      console.error('Failed to generate PDF:', error);
+      console.error('Failed to download invoice PDF:', error);
+      toast.error('Failed to download invoice PDF');
     }
   };
 
@@ -94,6 +310,10 @@ export function BillingHistory({ organizationId, className }: BillingHistoryProp
         </p>
       </div>
 
+      {visibleCases.map((dunningCase) => (
+        <PaymentRecovery key={dunningCase.id} organizationId={organizationId} dunningCase={dunningCase} />
+      ))}
+
       {/* Tabs */}
       <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
         <button
@@ -263,13 +483,14 @@ export function BillingHistory({ organizationId, className }: BillingHistoryProp
                                       </div>
                                     </div>
                                   )}
+                                  <InvoiceDocuments invoice={invoice} />
                                 </div>
                               </DialogContent>
                             </Dialog>
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => handleGeneratePdf(invoice.id)}
+                              onClick={() => handleDownloadPdf(invoice)}
                               disabled={generatePdf.isPending}
                             >
                               <Download className="h-4 w-4" />
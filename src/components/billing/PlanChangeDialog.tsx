@@ -0,0 +1,148 @@
+/**
+ * Plan Change Dialog Component
+ * Shows the prorated cost of moving a subscription to another plan before
+ * the change is confirmed
+ */
+
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Separator } from '@/components/ui/separator';
+import { useChangeSubscriptionPlan, useSubscriptionChangePreview } from '@/hooks/useBilling';
+import type { SubscriptionPlan, SubscriptionWithPlan } from '@/types/billing';
+
+interface PlanChangeDialogProps {
+  subscription: SubscriptionWithPlan;
+  plan: SubscriptionPlan | null;
+  onOpenChange: (open: boolean) => void;
+  onChanged?: () => void;
+}
+
+const formatCurrency = (cents: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(cents / 100);
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+};
+
+export function PlanChangeDialog({ subscription, plan, onOpenChange, onChanged }: PlanChangeDialogProps) {
+  const { data: preview, isLoading, error } = useSubscriptionChangePreview(subscription.id, plan?.id ?? '');
+  const changePlan = useChangeSubscriptionPlan();
+
+  const handleConfirm = async () => {
+    if (!plan) return;
+
+    try {
+      await changePlan.mutateAsync({ id: subscription.id, planId: plan.id });
+      onOpenChange(false);
+      onChanged?.();
+    } catch (error) {
+      console.error('Failed to change plan:', error);
+    }
+  };
+
+  const money = (cents: number) => formatCurrency(cents, preview?.currency ?? subscription.currency);
+
+  return (
+    <Dialog open={!!plan} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Change to {plan?.name}</DialogTitle>
+          <DialogDescription>
+            Moving from {subscription.plan.name} ({subscription.billing_cycle}) to {plan?.name} ({plan?.billing_cycle})
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : error || !preview ? (
+          <Alert variant="destructive">
+            <AlertDescription>
+              {error instanceof Error ? error.message : 'Could not calculate the cost of this change'}
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2 text-sm">
+              {preview.credit_cents > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">
+                    Unused time on {subscription.plan.name} ({preview.days_remaining} of {preview.days_in_period} days)
+                  </span>
+                  <span className="font-medium text-green-600">-{money(preview.credit_cents)}</span>
+                </div>
+              )}
+              {preview.charge_cents > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">
+                    {preview.period_reset
+                      ? `${plan?.name} (${preview.billing_cycle})`
+                      : `Remaining time on ${plan?.name} (${preview.days_remaining} of ${preview.days_in_period} days)`}
+                  </span>
+                  <span className="font-medium">{money(preview.charge_cents)}</span>
+                </div>
+              )}
+              {preview.account_credit_applied_cents > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Account credit applied</span>
+                  <span className="font-medium text-green-600">-{money(preview.account_credit_applied_cents)}</span>
+                </div>
+              )}
+              {preview.tax_cents > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Tax</span>
+                  <span className="font-medium">{money(preview.tax_cents)}</span>
+                </div>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="flex justify-between text-base font-semibold">
+              <span>Due today</span>
+              <span>{money(preview.amount_due_cents)}</span>
+            </div>
+
+            <Alert>
+              <AlertDescription>
+                {preview.amount_due_cents > 0
+                  ? `You will be charged ${money(preview.amount_due_cents)} today.`
+                  : 'You will not be charged today.'}
+                {preview.credit_carried_cents > 0 &&
+                  ` ${money(preview.credit_carried_cents)} will be kept as account credit for future charges.`}
+                {!preview.period_paid && subscription.status !== 'trial' &&
+                  ' Unused time is not credited because the current period has not been paid.'}
+                {preview.period_reset
+                  ? ` A new ${preview.billing_cycle} billing period starts today and renews on ${formatDate(preview.period_end)}.`
+                  : ` Your plan renews on ${formatDate(preview.period_end)}.`}
+              </AlertDescription>
+            </Alert>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!preview || changePlan.isPending}>
+            {changePlan.isPending ? 'Processing...' : 'Confirm Change'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
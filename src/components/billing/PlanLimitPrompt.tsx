@@ -0,0 +1,101 @@
+/**
+ * Plan Limit Prompt Component
+ * Warns when an organization nears a plan limit and offers an upgrade once
+ * one is reached, or points to billing while an overdue invoice holds it
+ */
+
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { ArrowUpCircle, CreditCard } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { describePlanLimit, EntitlementService, isBillingHold } from '@/services/entitlementService';
+import type { PlanEntitlement } from '@/types/billing';
+
+const checkoutPath = (entitlement: PlanEntitlement) => `/checkout?limit=${entitlement.resource}`;
+
+export function PlanLimitPrompt() {
+  const navigate = useNavigate();
+  const [reached, setReached] = useState<PlanEntitlement | null>(null);
+
+  useEffect(() => EntitlementService.subscribe(event => {
+    if (event.type === 'reached') {
+      setReached(event.entitlement);
+      return;
+    }
+
+    const { entitlement, threshold } = event;
+    // One toast per resource; later warnings replace it
+    toast.warning(
+      threshold >= 1
+        ? `You've used all of your plan's ${entitlement.resource}`
+        : `You've used ${Math.round(threshold * 100)}% of your plan's ${entitlement.resource}`,
+      {
+        id: `plan-limit-${entitlement.resource}`,
+        description: describePlanLimit(entitlement),
+        action: { label: 'Upgrade', onClick: () => navigate(checkoutPath(entitlement)) },
+      }
+    );
+  }), [navigate]);
+
+  const onHold = !!reached && isBillingHold(reached);
+
+  const handleUpgrade = () => {
+    if (!reached) return;
+    navigate(onHold ? '/billing' : checkoutPath(reached));
+    setReached(null);
+  };
+
+  return (
+    <Dialog open={!!reached} onOpenChange={open => !open && setReached(null)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{onHold ? 'Payment overdue' : 'Plan limit reached'}</DialogTitle>
+          <DialogDescription>
+            {reached && (onHold
+              ? `${describePlanLimit(reached)}.`
+              : `${describePlanLimit(reached)}. Upgrade your plan to add more ${reached.resource}.`)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!onHold && reached?.limit ? (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-secondary-text">
+              <span className="capitalize">{reached.resource}</span>
+              <span>{Math.min(100, Math.round((reached.used / reached.limit) * 100))}% used</span>
+            </div>
+            <Progress value={Math.min(100, (reached.used / reached.limit) * 100)} />
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setReached(null)}>
+            Not now
+          </Button>
+          <Button onClick={handleUpgrade}>
+            {onHold ? (
+              <>
+                <CreditCard className="h-4 w-4 mr-2" />
+                View billing
+              </>
+            ) : (
+              <>
+                <ArrowUpCircle className="h-4 w-4 mr-2" />
+                Upgrade plan
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
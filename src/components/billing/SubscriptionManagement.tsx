@@ -13,6 +13,7 @@ import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { SubscriptionPlanCard } from './SubscriptionPlanCard';
+import { PlanChangeDialog } from './PlanChangeDialog';
 import { useSubscriptionPlans, useCurrentSubscription, useSubscriptionUsage, useCreateSubscription, useCancelSubscription } from '@/hooks/useBilling';
 import { cn } from '@/lib/utils';
 import type { SubscriptionPlan } from '@/types/billing';
@@ -25,6 +26,7 @@ interface SubscriptionManagementProps {
 export function SubscriptionManagement({ organizationId, className }: SubscriptionManagementProps) {
   const [selectedPlan, setSelectedPlan] = useState<SubscriptionPlan | null>(null);
   const [billingCycle, setBillingCycle] = useState<'monthly' | 'yearly'>('monthly');
+  const [confirmingChange, setConfirmingChange] = useState(false);
 
   const { data: plans, isLoading: plansLoading } = useSubscriptionPlans();
   const { data: currentSubscription, isLoading: subscriptionLoading } = useCurrentSubscription(organizationId);
@@ -34,6 +36,8 @@ export function SubscriptionManagement({ organizationId, className }: Subscripti
   const cancelSubscription = useCancelSubscription();
 
   const isLoading = plansLoading || subscriptionLoading || usageLoading;
+  // With a current subscription, picking another plan is a prorated change
+  const isPlanChange = !!currentSubscription && !!selectedPlan && selectedPlan.id !== currentSubscription.plan.id;
 
   const handlePlanSelect = (plan: SubscriptionPlan) => {
     setSelectedPlan(plan);
@@ -369,18 +373,33 @@ export function SubscriptionManagement({ organizationId, className }: Subscripti
                         ${(selectedPlan.price_cents / 100).toFixed(0)} / {selectedPlan.billing_cycle}
                       </div>
                     </div>
-                    <Button 
-                      onClick={handleSubscribe}
-                      disabled={createSubscription.isPending}
-                      className="ml-auto"
-                    >
-                      {createSubscription.isPending ? 'Processing...' : 'Subscribe Now'}
-                    </Button>
+                    {isPlanChange ? (
+                      <Button onClick={() => setConfirmingChange(true)} className="ml-auto">
+                        Change Plan
+                      </Button>
+                    ) : (
+                      <Button 
+                        onClick={handleSubscribe}
+                        disabled={createSubscription.isPending || !!currentSubscription}
+                        className="ml-auto"
+                      >
+                        {createSubscription.isPending ? 'Processing...' : 'Subscribe Now'}
+                      </Button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
             </motion.div>
           )}
+
+          {currentSubscription && (
+            <PlanChangeDialog
+              subscription={currentSubscription}
+              plan={isPlanChange && confirmingChange ? selectedPlan : null}
+              onOpenChange={setConfirmingChange}
+              onChanged={() => setSelectedPlan(null)}
+            />
+          )}
         </TabsContent>
 
         {/* Usage Tab */}
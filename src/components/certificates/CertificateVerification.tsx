@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -11,9 +11,33 @@ import {
   Search,
   Award,
   Calendar,
-  User
+  User,
+  AlertTriangle,
+  Ban
 } from 'lucide-react';
-import type { CertificateVerificationProps, CertificateVerification } from '@/types/certificates';
+import { verifyCertificate } from '@/api/certificates';
+import type {
+  CertificateVerificationProps,
+  CertificateVerification,
+  CertificateVerificationStatus,
+  CertificateRevocationReason
+} from '@/types/certificates';
+
+const STATUS_HEADINGS: Record<CertificateVerificationStatus, string> = {
+  valid: 'Certificate Verified',
+  revoked: 'Certificate Revoked',
+  expired: 'Certificate Expired',
+  tampered: 'Certificate Altered',
+  not_found: 'Certificate Not Found'
+};
+
+const REVOCATION_REASONS: Record<CertificateRevocationReason, string> = {
+  issued_in_error: 'Issued in error',
+  superseded: 'Superseded by a newer certificate',
+  misconduct: 'Misconduct',
+  course_withdrawn: 'Course withdrawn',
+  other: 'Other'
+};
 
 export function CertificateVerification({ 
   verificationCode, 
@@ -25,25 +49,12 @@ export function CertificateVerification({
   const [verification, setVerification] = useState<CertificateVerification | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const handleVerify = async () => {
-    if (!code.trim()) {
-      setError('Please enter a verification code');
-      return;
-    }
-
+  const runVerification = useCallback(async (value: string) => {
     setIsVerifying(true);
     setError(null);
 
     try {
-      // This would call the API to verify the certificate
-      // For now, we'll simulate the verification
-      const response = await fetch(`/api/certificates/verify/${code}`);
-      
-      if (!response.ok) {
-        throw new Error('Certificate not found or invalid');
-      }
-
-      const result = await response.json();
+      const result = await verifyCertificate(value.trim());
       setVerification(result);
       onVerified?.(result);
     } catch (err) {
@@ -53,6 +64,23 @@ export function CertificateVerification({
     } finally {
       setIsVerifying(false);
     }
+  }, [onVerified, onError]);
+
+  // Codes arriving from a scanned certificate QR code are checked straight away
+  useEffect(() => {
+    if (verificationCode) {
+      setCode(verificationCode);
+      runVerification(verificationCode);
+    }
+  }, [verificationCode, runVerification]);
+
+  const handleVerify = async () => {
+    if (!code.trim()) {
+      setError('Please enter a verification code');
+      return;
+    }
+
+    await runVerification(code);
   };
 
   const formatDate = (dateString: string) => {
@@ -67,21 +95,41 @@ export function CertificateVerification({
     return (
       <Card className="p-6 max-w-2xl mx-auto">
         <div className="text-center mb-6">
-          {verification.is_valid ? (
+          {verification.status === 'valid' ? (
             <div className="flex items-center justify-center gap-2 text-green-600 mb-2">
               <CheckCircle className="h-8 w-8" />
-              <h2 className="text-2xl font-bold">Certificate Verified</h2>
+              <h2 className="text-2xl font-bold">{STATUS_HEADINGS.valid}</h2>
+            </div>
+          ) : verification.status === 'revoked' || verification.status === 'expired' ? (
+            <div className="flex items-center justify-center gap-2 text-amber-600 mb-2">
+              <Ban className="h-8 w-8" />
+              <h2 className="text-2xl font-bold">{STATUS_HEADINGS[verification.status]}</h2>
             </div>
           ) : (
             <div className="flex items-center justify-center gap-2 text-red-600 mb-2">
-              <XCircle className="h-8 w-8" />
-              <h2 className="text-2xl font-bold">Certificate Invalid</h2>
+              {verification.status === 'tampered' ? (
+                <AlertTriangle className="h-8 w-8" />
+              ) : (
+                <XCircle className="h-8 w-8" />
+              )}
+              <h2 className="text-2xl font-bold">{STATUS_HEADINGS[verification.status]}</h2>
             </div>
           )}
           <p className="text-gray-600">{verification.verification_message}</p>
         </div>
 
-        {verification.is_valid && verification.certificate && (
+        {verification.revocation && (
+          <Alert variant="destructive" className="mb-4">
+            <Ban className="h-4 w-4" />
+            <AlertDescription>
+              Revoked on {formatDate(verification.revocation.revoked_at)}:{' '}
+              {REVOCATION_REASONS[verification.revocation.reason]}
+              {verification.revocation.note && ` (${verification.revocation.note})`}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {verification.certificate && (
           <div className="space-y-4">
             <div className="bg-gray-50 p-4 rounded-lg">
               <div className="flex items-center gap-3 mb-3">
@@ -129,7 +177,10 @@ export function CertificateVerification({
 
             <div className="text-center">
               <p className="text-xs text-gray-500">
-                Verified on {formatDate(verification.verified_at)}
+                {verification.certificate.expires_at && (
+                  <>Valid until {formatDate(verification.certificate.expires_at)} · </>
+                )}
+                Checked on {formatDate(verification.verified_at)}
               </p>
             </div>
           </div>
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { CoursePackageService } from '@/services/coursePackageService';
+import type { CourseImportReport } from '@/types/coursePackage';
+
+interface CourseImportDialogProps {
+  onImported: (courseId: string) => void;
+}
+
+export default function CourseImportDialog({ onImported }: CourseImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [json, setJson] = useState<string | null>(null);
+  const [report, setReport] = useState<CourseImportReport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const reset = () => {
+    setJson(null);
+    setReport(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+
+    setIsWorking(true);
+    try {
+      const text = await file.text();
+      const preview = await CoursePackageService.previewImport(text);
+      setJson(text);
+      setReport(preview.report);
+    } catch (error) {
+      console.error('Error reading course bundle:', error);
+      toast.error('Failed to read course bundle');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!json) return;
+
+    setIsWorking(true);
+    try {
+      const result = await CoursePackageService.importCourse(json);
+      setReport(result.report);
+      if (result.courseId) {
+        toast.success('Course imported as a draft');
+        setOpen(false);
+        reset();
+        onImported(result.courseId);
+      }
+    } catch (error) {
+      console.error('Error importing course:', error);
+      toast.error('Failed to import course');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Course</DialogTitle>
+          <DialogDescription>
+            Upload a course bundle exported from Winbro. The course is created as a private draft with new ids.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="courseBundle">Course bundle (.json)</Label>
+            <Input
+              id="courseBundle"
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              disabled={isWorking}
+            />
+          </div>
+
+          {report && (
+            <div className="space-y-3 text-sm">
+              <div className={`flex items-center ${report.valid ? 'text-green-700' : 'text-red-700'}`}>
+                {report.valid ? <CheckCircle className="h-4 w-4 mr-2" /> : <AlertCircle className="h-4 w-4 mr-2" />}
+                {report.valid
+                  ? `Ready to import ${report.moduleCount} modules and ${report.quizCount} quiz questions`
+                  : `${report.errors.length} problem${report.errors.length === 1 ? '' : 's'} must be fixed before importing`}
+              </div>
+
+              {report.errors.length > 0 && (
+                <ul className="space-y-1 max-h-40 overflow-y-auto">
+                  {report.errors.map((issue, index) => (
+                    <li key={`error-${index}`} className="text-red-700">
+                      {issue.path && <span className="font-mono text-xs mr-2">{issue.path}</span>}
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {report.warnings.length > 0 && (
+                <ul className="space-y-1 max-h-40 overflow-y-auto">
+                  {report.warnings.map((issue, index) => (
+                    <li key={`warning-${index}`} className="flex items-start text-yellow-800">
+                      <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleImport}
+            disabled={!json || !report?.valid || isWorking}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {isWorking ? 'Working...' : 'Import Course'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -26,6 +26,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { 
   useCourse, 
   useCourseModules, 
+  useEnrollmentCourseVersion,
   useEnrollInCourse,
   useUpdateCourseEnrollment,
   useCompleteModule
@@ -52,7 +53,10 @@ export default function CoursePlayer({ courseId, enrollmentId }: CoursePlayerPro
 
   // Queries
   const { data: course, isLoading: courseLoading, error: courseError } = useCourse(courseId);
-  const { data: modules, isLoading: modulesLoading } = useCourseModules(courseId);
+  const { data: liveModules, isLoading: modulesLoading } = useCourseModules(courseId);
+  // Enrollments stay on the version they started, even after the course is republished
+  const { data: pinnedVersion, isLoading: versionLoading } = useEnrollmentCourseVersion(enrollment?.id || enrollmentId || '');
+  const modules = pinnedVersion?.modules ?? liveModules;
 
   // Mutations
   const enrollMutation = useEnrollInCourse();
@@ -164,7 +168,7 @@ export default function CoursePlayer({ courseId, enrollmentId }: CoursePlayerPro
   };
 
   // Loading state
-  if (courseLoading || modulesLoading) {
+  if (courseLoading || modulesLoading || versionLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <div className="flex items-center gap-2">
@@ -214,6 +218,7 @@ export default function CoursePlayer({ courseId, enrollmentId }: CoursePlayerPro
                 <h1 className="text-xl font-semibold text-primary-text">{course.title}</h1>
                 <p className="text-sm text-secondary-text">
                   {course.difficultyLevel} • {modules?.length || 0} modules
+                  {pinnedVersion && ` • Version ${pinnedVersion.versionNumber}`}
                 </p>
               </div>
             </div>
@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  ArrowUpDown,
+  History,
+  Minus,
+  Pencil,
+  Plus,
+  RotateCcw
+} from 'lucide-react';
+import { useCourseVersions, useRestoreCourseVersion } from '@/hooks/useCourseManagement';
+import { CourseManagementService } from '@/services/courseManagementService';
+import type { EnrollmentMigrationPolicy, ModuleChangeType } from '@/types/courseBuilder';
+
+interface VersionHistoryProps {
+  courseId: string;
+  onRestored?: () => void;
+}
+
+const CHANGE_STYLES: Record<ModuleChangeType, { label: string; className: string; icon: typeof Plus }> = {
+  added: { label: 'Added', className: 'bg-green-100 text-green-800', icon: Plus },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-800', icon: Minus },
+  reordered: { label: 'Moved', className: 'bg-blue-100 text-blue-800', icon: ArrowUpDown },
+  changed: { label: 'Changed', className: 'bg-yellow-100 text-yellow-800', icon: Pencil },
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  type: 'type',
+  contentId: 'content',
+  contentData: 'content',
+  estimatedDuration: 'duration',
+  isRequired: 'required',
+  unlockAfterPrevious: 'unlock rule',
+  quizzes: 'quiz questions',
+};
+
+const POLICY_LABELS: Record<EnrollmentMigrationPolicy, string> = {
+  keep: 'learners kept on their version',
+  migrate: 'learners moved with progress',
+  restart: 'learners restarted',
+};
+
+export default function VersionHistory({ courseId, onRestored }: VersionHistoryProps) {
+  const { data: versions = [], isLoading } = useCourseVersions(courseId);
+  const restoreMutation = useRestoreCourseVersion();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selectedIndex = Math.max(0, versions.findIndex(version => version.id === selectedId));
+  const selected = versions[selectedIndex];
+  const previous = versions[selectedIndex + 1] ?? null;
+  const diff = selected ? CourseManagementService.diffCourseVersions(previous, selected) : [];
+
+  const handleRestore = () => {
+    if (!selected) return;
+    if (!window.confirm(
+      `Restore ${selected.version}? The course content will be replaced and the course returns to draft until you publish again.`
+    )) return;
+
+    restoreMutation.mutate(
+      { courseId, versionId: selected.id },
+      { onSuccess: () => onRestored?.() }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <History className="h-5 w-5 mr-2" />
+          Version History
+        </CardTitle>
+        <CardDescription>
+          A version is saved every time the course is published
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading versions...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-gray-500">No published versions yet</p>
+        ) : (
+          <>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {versions.map(version => (
+                <button
+                  key={version.id}
+                  type="button"
+                  onClick={() => setSelectedId(version.id)}
+                  className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                    version.id === selected?.id ? 'bg-blue-50 border-blue-200' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900">{version.version}</span>
+                    {version.isCurrent && <Badge variant="secondary">Current</Badge>}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {new Date(version.createdAt).toLocaleString()} · {version.modules.length} modules
+                  </p>
+                  <p className="text-xs text-gray-500">{POLICY_LABELS[version.migrationPolicy]}</p>
+                  {version.description && (
+                    <p className="text-xs text-gray-600 mt-1 truncate">{version.description}</p>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="space-y-3">
+                <p className="text-sm font-medium text-gray-900">
+                  {previous ? `Changes from ${previous.version} to ${selected.version}` : `Modules in ${selected.version}`}
+                </p>
+                {diff.length === 0 ? (
+                  <p className="text-sm text-gray-500">No module changes</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {diff.map(entry => {
+                      const style = CHANGE_STYLES[entry.change];
+                      const Icon = style.icon;
+                      const fields = [...new Set((entry.changedFields ?? []).map(field => FIELD_LABELS[field] ?? field))];
+                      return (
+                        <li key={`${entry.moduleId}-${entry.change}`} className="flex items-start space-x-2 text-sm">
+                          <Badge className={style.className}>
+                            <Icon className="h-3 w-3 mr-1" />
+                            {style.label}
+                          </Badge>
+                          <div className="min-w-0">
+                            <p className="text-gray-900 truncate">{entry.title}</p>
+                            {entry.change === 'reordered' && (
+                              <p className="text-xs text-gray-500">
+                                Position {(entry.fromIndex ?? 0) + 1} → {(entry.toIndex ?? 0) + 1}
+                              </p>
+                            )}
+                            {fields.length > 0 && (
+                              <p className="text-xs text-gray-500">{fields.join(', ')}</p>
+                            )}
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={handleRestore}
+                  disabled={restoreMutation.isPending}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  {restoreMutation.isPending ? 'Restoring...' : `Restore ${selected.version} as Draft`}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,6 +12,7 @@ import {
   ArrowRight,
   Trophy
 } from 'lucide-react';
+import { courseApi } from '@/api/courses';
 import type { 
   EnhancedQuizPlayerProps, 
   EnhancedQuizSession, 
@@ -39,12 +40,19 @@ export function EnhancedQuizPlayer({
 
   // Initialize quiz session
   useEffect(() => {
-    if (configuration) {
+    if (!configuration) return;
+
+    let cancelled = false;
+
+    // Questions arrive without correct answers or explanations
+    courseApi.getQuizQuestions(quizId).then(questions => {
+      if (cancelled) return;
+
       const newSession: EnhancedQuizSession = {
         quizId,
         courseId,
         moduleId,
-        questions: [], // Would be loaded from API
+        questions,
         currentQuestionIndex: 0,
         answers: new Map(),
         isCompleted: false,
@@ -60,7 +68,13 @@ export function EnhancedQuizPlayer({
         immediateFeedback: configuration.immediate_feedback
       };
       setSession(newSession);
-    }
+    }).catch(error => {
+      console.error('Failed to load quiz questions:', error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
   }, [quizId, courseId, moduleId, configuration]);
 
   // Timer effect
@@ -153,50 +167,20 @@ export function EnhancedQuizPlayer({
     });
 
     try {
-      // Calculate results
-      let correctAnswers = 0;
-      let totalPoints = 0;
-      let earnedPoints = 0;
-      const answers = [];
-
-      for (const question of session.questions) {
-        const answer = session.answers.get(question.id);
-        if (answer) {
-          const isCorrect = checkAnswer(question, answer.answer);
-          answers.push({
-            ...answer,
-            isCorrect
-          });
-
-          totalPoints += question.points;
-          if (isCorrect) {
-            correctAnswers++;
-            earnedPoints += question.points;
-          }
-        }
-      }
-
-      const score = totalPoints > 0 ? Math.round((earnedPoints / totalPoints) * 100) : 0;
-      const passed = score >= session.configuration.pass_threshold;
+      // Score, pass threshold and remaining attempts are decided by the server
       const timeSpent = timeRemaining ? (session.configuration.time_limit || 0) - timeRemaining : 0;
+      const graded = await courseApi.gradeQuizAttempt(
+        session.quizId,
+        Array.from(session.answers.values()),
+        timeSpent
+      );
+      const { score, passed, correctAnswers } = graded;
 
       const enhancedResult: EnhancedQuizResult = {
-        quizId: session.quizId,
-        courseId: session.courseId,
-        moduleId: session.moduleId,
-        score,
-        totalQuestions: session.questions.length,
-        correctAnswers,
-        timeSpent,
-        passed,
-        passThreshold: session.configuration.pass_threshold,
-        completedAt: new Date().toISOString(),
-        answers,
-        canRetake: session.canRetake && session.currentAttempt < session.maxAttempts,
-        attemptsRemaining: Math.max(0, session.maxAttempts - session.currentAttempt),
+        ...graded,
         feedback: passed 
           ? 'Congratulations! You have successfully completed this quiz.'
-          : `You need ${session.configuration.pass_threshold}% to pass. Consider reviewing the material and trying again.`
+          : `You need ${graded.passThreshold}% to pass. Consider reviewing the material and trying again.`
       };
 
       // Generate certificate if passed
@@ -224,6 +208,11 @@ export function EnhancedQuizPlayer({
         onCertificateEarned(certificate);
       }
 
+      setSession(prev => prev ? {
+        ...prev,
+        currentAttempt: graded.attemptNumber ?? prev.currentAttempt,
+        canRetake: graded.canRetake
+      } : null);
       setResult(enhancedResult);
       setShowResults(true);
       onComplete(enhancedResult);
@@ -270,17 +259,6 @@ export function EnhancedQuizPlayer({
     logEvent('quiz_retake_started', { attempt: session.currentAttempt + 1 });
   };
 
-  const checkAnswer = (question: any, userAnswer: string | string[]): boolean => {
-    const correctAnswers = question.correctAnswer.split(',').map((a: string) => a.trim());
-    
-    if (Array.isArray(userAnswer)) {
-      return userAnswer.length === correctAnswers.length &&
-        userAnswer.every(answer => correctAnswers.includes(answer));
-    }
-    
-    return correctAnswers.includes(userAnswer);
-  };
-
   if (!session) {
     return (
       <div className="flex items-center justify-center min-h-96">
@@ -29,7 +29,7 @@ export function QuizConfigurationForm({
   const [formData, setFormData] = useState<QuizConfigurationForm>({
     allow_retake: true,
     max_attempts: 3,
-    show_correct_answers: true,
+    show_correct_answers: false,
     show_explanations: true,
     randomize_questions: false,
     randomize_answers: false,
@@ -85,7 +85,7 @@ export function QuizConfigurationForm({
         configuration: {
           allow_retake: true,
           max_attempts: 3,
-          show_correct_answers: true,
+          show_correct_answers: false,
           show_explanations: true,
           randomize_questions: false,
           randomize_answers: false,
@@ -393,7 +393,7 @@ export function QuizConfigurationForm({
               <div className="flex items-center justify-between">
                 <div className="space-y-1">
                   <Label htmlFor="show_correct_answers">Show Correct Answers</Label>
-                  <p className="text-sm text-gray-600">Display correct answers after completion</p>
+                  <p className="text-sm text-gray-600">Display correct answers after every attempt, not only the last one</p>
                 </div>
                 <Switch
                   id="show_correct_answers"
@@ -5,12 +5,12 @@ import { ArrowLeft, ArrowRight, CheckCircle, Clock } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { QuizQuestion } from './QuizQuestion';
 import { QuizResults } from './QuizResults';
+import { courseApi } from '@/api/courses';
 import type { 
   QuizPlayerProps, 
   QuizSession, 
   QuizResult, 
-  QuizAnswer,
-  CourseQuiz 
+  QuizAnswer
 } from '@/types/quiz';
 
 export function QuizPlayer({
@@ -25,12 +25,13 @@ export function QuizPlayer({
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [timeRemaining, setTimeRemaining] = useState<number | undefined>();
+  const [result, setResult] = useState<QuizResult | null>(null);
 
   // Default config
   const quizConfig = {
     allowRetake: true,
     maxAttempts: 3,
-    showCorrectAnswers: true,
+    showCorrectAnswers: false,
     showExplanations: true,
     randomizeQuestions: false,
     randomizeAnswers: false,
@@ -45,51 +46,15 @@ export function QuizPlayer({
       setIsLoading(true);
       setError(null);
 
-      // TODO: Fetch quiz questions from API
-      // For now, using mock data
-      const mockQuestions: CourseQuiz[] = [
-        {
-          id: '1',
-          courseId,
-          moduleId,
-          question: 'What is the primary purpose of Winbro Training Reels?',
-          type: 'multiple-choice',
-          options: [
-            'To replace traditional paper manuals',
-            'To create entertainment content',
-            'To manage customer relationships',
-            'To track employee attendance'
-          ],
-          correctAnswer: 'To replace traditional paper manuals',
-          explanation: 'Winbro Training Reels is designed to transform how process knowledge and machine operation information is shared and retained.',
-          points: 1,
-          timeLimit: 30,
-          orderIndex: 0,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        },
-        {
-          id: '2',
-          courseId,
-          moduleId,
-          question: 'True or False: Video reels should be 20-30 seconds long.',
-          type: 'true-false',
-          options: [],
-          correctAnswer: 'true',
-          explanation: 'The platform is specifically designed for ultra-short 20-30 second instructional videos.',
-          points: 1,
-          timeLimit: 15,
-          orderIndex: 1,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        }
-      ];
+      // Questions arrive without correct answers or explanations
+      const questions = await courseApi.getQuizQuestions(quizId);
+      if (questions.length === 0) throw new Error('No questions found');
 
       const newSession: QuizSession = {
         quizId,
         courseId,
         moduleId,
-        questions: mockQuestions,
+        questions,
         currentQuestionIndex: 0,
         answers: new Map(),
         timeRemaining: quizConfig.timeLimit,
@@ -99,6 +64,7 @@ export function QuizPlayer({
       };
 
       setSession(newSession);
+      setResult(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to initialize quiz');
     } finally {
@@ -170,74 +136,35 @@ export function QuizPlayer({
     if (!session) return;
 
     try {
-      // Calculate results
-      let correctAnswers = 0;
-      let totalPoints = 0;
-      let earnedPoints = 0;
-      const answers: QuizAnswer[] = [];
-
-      session.questions.forEach(question => {
-        const answer = session.answers.get(question.id);
-        if (answer) {
-          const isCorrect = checkAnswer(question, answer.answer);
-          answers.push({
-            ...answer,
-            isCorrect
-          });
-
-          totalPoints += question.points;
-          if (isCorrect) {
-            correctAnswers++;
-            earnedPoints += question.points;
-          }
-        }
-      });
-
-      const score = totalPoints > 0 ? Math.round((earnedPoints / totalPoints) * 100) : 0;
-      const passed = score >= quizConfig.passThreshold;
+      // Grading happens on the server against the quiz configuration
       const timeSpent = Math.floor((Date.now() - new Date(session.startedAt).getTime()) / 1000);
-
-      const result: QuizResult = {
-        quizId: session.quizId,
-        courseId: session.courseId,
-        moduleId: session.moduleId,
-        score,
-        totalQuestions: session.questions.length,
-        correctAnswers,
-        timeSpent,
-        passed,
-        passThreshold: quizConfig.passThreshold,
-        completedAt: new Date().toISOString(),
-        answers,
-        feedback: passed 
+      const graded = await courseApi.gradeQuizAttempt(
+        session.quizId,
+        Array.from(session.answers.values()),
+        timeSpent
+      );
+
+      const quizResult: QuizResult = {
+        ...graded,
+        feedback: graded.passed 
           ? 'Great job! You have successfully completed this quiz.'
-          : `You need ${quizConfig.passThreshold}% to pass. Consider reviewing the material and trying again.`
+          : `You need ${graded.passThreshold}% to pass. Consider reviewing the material and trying again.`
       };
 
       setSession(prev => prev ? {
         ...prev,
+        answers: new Map(graded.answers.map(answer => [answer.questionId, answer])),
         isCompleted: true,
         isSubmitted: true,
-        completedAt: new Date().toISOString()
+        completedAt: graded.completedAt
       } : null);
+      setResult(quizResult);
 
-      onComplete(result);
+      onComplete(quizResult);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to submit quiz');
     }
-  }, [session, quizConfig.passThreshold, onComplete]);
-
-  // Check if answer is correct
-  const checkAnswer = (question: CourseQuiz, userAnswer: string | string[]): boolean => {
-    const correctAnswers = question.correctAnswer.split(',').map(a => a.trim());
-    
-    if (Array.isArray(userAnswer)) {
-      return userAnswer.length === correctAnswers.length &&
-        userAnswer.every(answer => correctAnswers.includes(answer));
-    }
-    
-    return correctAnswers.includes(userAnswer);
-  };
+  }, [session, onComplete]);
 
   // Retake quiz
   const handleRetake = useCallback(() => {
@@ -288,21 +215,7 @@ export function QuizPlayer({
   }
 
   // Show results if completed
-  if (session.isCompleted) {
-    const result: QuizResult = {
-      quizId: session.quizId,
-      courseId: session.courseId,
-      moduleId: session.moduleId,
-      score: 0, // Will be calculated
-      totalQuestions: session.questions.length,
-      correctAnswers: 0, // Will be calculated
-      timeSpent: 0, // Will be calculated
-      passed: false, // Will be calculated
-      passThreshold: quizConfig.passThreshold,
-      completedAt: session.completedAt || new Date().toISOString(),
-      answers: Array.from(session.answers.values())
-    };
-
+  if (session.isCompleted && result) {
     return (
       <QuizResults
         result={result}
@@ -56,14 +56,13 @@ export function QuizQuestion({
     handleAnswerChange(value);
   };
 
-  const isCorrect = (userAnswer: string | string[]) => {
-    const correctAnswers = question.correctAnswer.split(',').map((a: string) => a.trim());
-    if (Array.isArray(userAnswer)) {
-      return userAnswer.length === correctAnswers.length &&
-        userAnswer.every((answer: string) => correctAnswers.includes(answer));
-    }
-    return correctAnswers.includes(userAnswer);
-  };
+  // Feedback comes from server-side grading; questions never carry the answer key
+  const answeredCorrectly = answer?.isCorrect ?? false;
+  const correctOptions = answer?.correctAnswer
+    ? answer.correctAnswer.split(',').map((a: string) => a.trim().toLowerCase())
+    : [];
+  const isCorrectOption = (option: string, isSelected: boolean) =>
+    correctOptions.includes(option.toLowerCase()) || (isSelected && answeredCorrectly);
 
   const progress = (questionNumber / totalQuestions) * 100;
 
@@ -105,7 +104,7 @@ export function QuizQuestion({
               <div className="space-y-3">
                 {question.options.map((option: string, index: number) => {
                   const isSelected = Array.isArray(selectedAnswer) && selectedAnswer.includes(option);
-                  const isCorrectAnswer = question.correctAnswer.split(',').map((a: string) => a.trim()).includes(option);
+                  const isCorrectAnswer = isCorrectOption(option, isSelected);
                   
                   return (
                     <div
@@ -154,7 +153,7 @@ export function QuizQuestion({
               <div className="space-y-3">
                 {['True', 'False'].map((option) => {
                   const isSelected = selectedAnswer === option.toLowerCase();
-                  const isCorrectAnswer = question.correctAnswer.toLowerCase() === option.toLowerCase();
+                  const isCorrectAnswer = isCorrectOption(option, isSelected);
                   
                   return (
                     <div
@@ -206,28 +205,30 @@ export function QuizQuestion({
                   placeholder="Type your answer here..."
                   disabled={showFeedback}
                   className={cn(
-                    showFeedback && isCorrect(selectedAnswer) && "border-green-300 bg-green-50",
-                    showFeedback && !isCorrect(selectedAnswer) && "border-red-300 bg-red-50"
+                    showFeedback && answeredCorrectly && "border-green-300 bg-green-50",
+                    showFeedback && !answeredCorrectly && "border-red-300 bg-red-50"
                   )}
                 />
                 {showFeedback && (
                   <div className="text-sm">
                     <div className="flex items-center gap-2 mb-2">
-                      {isCorrect(selectedAnswer) ? (
+                      {answeredCorrectly ? (
                         <CheckCircle className="h-4 w-4 text-green-500" />
                       ) : (
                         <XCircle className="h-4 w-4 text-red-500" />
                       )}
                       <span className={cn(
                         "font-medium",
-                        isCorrect(selectedAnswer) ? "text-green-800" : "text-red-800"
+                        answeredCorrectly ? "text-green-800" : "text-red-800"
                       )}>
-                        {isCorrect(selectedAnswer) ? 'Correct!' : 'Incorrect'}
+                        {answeredCorrectly ? 'Correct!' : 'Incorrect'}
                       </span>
                     </div>
-                    <div className="text-gray-600">
-                      <strong>Correct answer:</strong> {question.correctAnswer}
-                    </div>
+                    {answer?.correctAnswer && (
+                      <div className="text-gray-600">
+                        <strong>Correct answer:</strong> {answer.correctAnswer}
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -235,10 +236,10 @@ export function QuizQuestion({
           </div>
 
           {/* Explanation */}
-          {showFeedback && question.explanation && (
+          {showFeedback && answer?.explanation && (
             <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
               <h4 className="font-medium text-blue-900 mb-2">Explanation:</h4>
-              <p className="text-blue-800 text-sm">{question.explanation}</p>
+              <p className="text-blue-800 text-sm">{answer.explanation}</p>
             </div>
           )}
         </div>
@@ -42,7 +42,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
 import { TranscriptPreview } from './TranscriptPreview';
-import type { SearchResult, SearchSortBy, SearchSortOrder } from '@/types/search';
+import type { SearchResult, SearchSortBy, SearchSortOrder, SearchPagination } from '@/types/search';
 
 interface SearchResultsGridProps {
   results: SearchResult[];
@@ -53,14 +53,7 @@ interface SearchResultsGridProps {
   sortBy: SearchSortBy;
   sortOrder: SearchSortOrder;
   onSortChange: (sortBy: SearchSortBy, sortOrder: SearchSortOrder) => void;
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    total_pages: number;
-    has_next: boolean;
-    has_prev: boolean;
-  } | null;
+  pagination: SearchPagination | null;
   onPageChange: (page: number) => void;
   onResultClick: (result: SearchResult, position: number) => void;
   selectedItems?: string[];
@@ -69,11 +62,18 @@ interface SearchResultsGridProps {
   showBulkActions?: boolean;
   onBulkAction?: (action: string) => void;
   infiniteScroll?: boolean;
+  onInfiniteScrollChange?: (enabled: boolean) => void;
   onLoadMore?: () => void;
   hasMore?: boolean;
   className?: string;
 }
 
+// First, last and the pages around the current one
+const getVisiblePages = (current: number, totalPages: number): number[] => {
+  const pages = new Set([1, totalPages, current - 1, current, current + 1]);
+  return [...pages].filter(page => page >= 1 && page <= totalPages).sort((a, b) => a - b);
+};
+
 const sortOptions = [
   { value: 'relevance', label: 'Relevance' },
   { value: 'created_at', label: 'Date Created' },
@@ -97,6 +97,7 @@ export function SearchResultsGrid({
   onItemSelect,
   onSelectAll,
   infiniteScroll = false,
+  onInfiniteScrollChange,
   onLoadMore,
   hasMore = false,
   className
@@ -228,7 +229,9 @@ export function SearchResultsGrid({
           )}
           
           <h2 className="text-lg font-semibold text-primary-text">
-            {pagination?.total || results.length} results
+            {pagination
+              ? `${pagination.total.toLocaleString()}${pagination.total_is_estimate ? '+' : ''}`
+              : results.length} results
             {selectedItems.length > 0 && (
               <span className="text-sm text-secondary-text ml-2">
                 ({selectedItems.length} selected)
@@ -282,14 +285,7 @@ export function SearchResultsGrid({
             <Button
               variant={infiniteScroll ? 'default' : 'outline'}
               size="sm"
-              onClick={() => {
-                // Toggle infinite scroll mode
-                if (infiniteScroll) {
-                  // Switch to pagination
-                } else {
-                  // Switch to infinite scroll
-                }
-              }}
+              onClick={() => onInfiniteScrollChange?.(!infiniteScroll)}
               className="flex items-center space-x-1 hidden sm:flex"
             >
               <RefreshCw className="h-4 w-4" />
@@ -610,11 +606,12 @@ export function SearchResultsGrid({
           </Button>
           
           <div className="flex items-center space-x-1">
-            {Array.from({ length: Math.min(3, pagination.total_pages) }, (_, i) => {
-              const page = i + 1;
-              return (
+            {getVisiblePages(pagination.page, pagination.total_pages).map((page, index, pages) => (
+              <div key={page} className="flex items-center space-x-1">
+                {index > 0 && page - pages[index - 1] > 1 && (
+                  <span className="text-sm text-secondary-text px-2">...</span>
+                )}
                 <Button
-                  key={page}
                   variant={page === pagination.page ? 'default' : 'outline'}
                   size="sm"
                   onClick={() => onPageChange(page)}
@@ -622,9 +619,9 @@ export function SearchResultsGrid({
                 >
                   {page}
                 </Button>
-              );
-            })}
-            {pagination.total_pages > 3 && (
+              </div>
+            ))}
+            {pagination.total_is_estimate && (
               <span className="text-sm text-secondary-text px-2">...</span>
             )}
           </div>
@@ -0,0 +1,61 @@
+/**
+ * Backup Codes Component
+ * One-time display of two-factor recovery codes
+ */
+
+import { Copy, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+
+interface BackupCodesProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+export default function BackupCodes({ codes, onDone }: BackupCodesProps) {
+  const handleCopy = () => {
+    navigator.clipboard.writeText(codes.join('\n'));
+    toast.success('Backup codes copied');
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([`${codes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'winbro-backup-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
+      <div>
+        <p className="font-medium">Save your backup codes</p>
+        <p className="text-sm text-secondary-text">
+          Each code signs you in once if you lose your authenticator. They will not be shown again.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+        {codes.map(code => (
+          <span key={code} className="px-2 py-1 bg-white rounded border text-center">
+            {code}
+          </span>
+        ))}
+      </div>
+      <div className="flex space-x-2">
+        <Button type="button" variant="outline" onClick={handleCopy} className="flex-1">
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" onClick={handleDownload} className="flex-1">
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+      </div>
+      <Button type="button" onClick={onDone} className="w-full">
+        I've saved these codes
+      </Button>
+    </div>
+  );
+}
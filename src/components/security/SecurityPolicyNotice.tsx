@@ -0,0 +1,36 @@
+/**
+ * Security Policy Notice Component
+ * Shows the warnings of security rules that triggered at sign-in, password
+ * change or an admin action, and explains a sign-out forced by network
+ * rules. Blocked actions surface through the caller's own error handling.
+ */
+
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { NetworkAccessError, NetworkAccessService } from '@/services/networkAccessService';
+import { SecurityPolicyService } from '@/services/securityPolicyService';
+
+export function SecurityPolicyNotice() {
+  useEffect(() => SecurityPolicyService.subscribe(event => {
+    if (event.type !== 'warning') return;
+
+    const { rule, policy } = event.evaluation;
+    // One toast per rule; a repeat replaces it
+    toast.warning(rule.name, {
+      id: `security-rule-${rule.id}`,
+      description: `${rule.description} (${policy.name})`,
+    });
+  }), []);
+
+  // Sign-in refusals are shown by the login form
+  useEffect(() => NetworkAccessService.subscribe((decision, event) => {
+    if (event !== 'session_refresh') return;
+
+    toast.error('You have been signed out', {
+      id: 'network-access-denied',
+      description: new NetworkAccessError(decision).message,
+    });
+  }), []);
+
+  return null;
+}
@@ -0,0 +1,227 @@
+/**
+ * Security Rule Tester Component
+ * Runs a rule condition against sample input so admins can check a rule
+ * before saving it
+ */
+
+import React, { useMemo, useState } from 'react';
+import { CheckCircle, XCircle, AlertTriangle, Play, MinusCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RuleSyntaxError } from '@/lib/ruleExpression';
+import { SecurityPolicyService, type SecurityRuleContext } from '@/services/securityPolicyService';
+import type { SecurityPolicy, SecurityRule } from '@/settings/securityConfig';
+
+interface SecurityRuleTesterProps {
+  policies: SecurityPolicy[];
+}
+
+type TestOutcome =
+  | { type: 'triggered' | 'passed' }
+  | { type: 'skipped'; missing: string[] }
+  | { type: 'error'; message: string; position?: number };
+
+const CUSTOM_RULE = 'custom';
+
+const HOUR = 60 * 60 * 1000;
+
+// A signed-in admin changing a user's role; edit it to try other cases
+const sampleContext = (): SecurityRuleContext => {
+  const now = Date.now();
+  return {
+    now,
+    password: 'Winbro-Reels-2026!',
+    session: { startedAt: now - 2 * HOUR, expiresAt: now + HOUR },
+    request: { ip: '203.0.113.10', country: 'GB', userAgent: 'Mozilla/5.0', isAuthenticated: true },
+    user: {
+      id: '00000000-0000-0000-0000-000000000001',
+      email: 'admin@example.com',
+      role: 'admin',
+      roles: ['admin'],
+    },
+    mfa: { enabled: true, verified: true, required: false },
+    action: {
+      name: 'update_user_role',
+      category: 'admin',
+      resourceType: 'user',
+      resourceId: '00000000-0000-0000-0000-000000000002',
+    },
+  };
+};
+
+export const SecurityRuleTester: React.FC<SecurityRuleTesterProps> = ({ policies }) => {
+  const rules = useMemo(() => policies.flatMap(policy => policy.rules), [policies]);
+  const [ruleId, setRuleId] = useState<string>(rules[0]?.id ?? CUSTOM_RULE);
+  const [condition, setCondition] = useState(rules[0]?.condition ?? '');
+  const [sample, setSample] = useState(() => JSON.stringify(sampleContext(), null, 2));
+  const [outcome, setOutcome] = useState<TestOutcome | null>(null);
+
+  const selectedRule: SecurityRule | undefined = rules.find(rule => rule.id === ruleId);
+
+  const selectRule = (id: string) => {
+    setRuleId(id);
+    setOutcome(null);
+    const rule = rules.find(r => r.id === id);
+    if (rule) setCondition(rule.condition);
+  };
+
+  const runTest = () => {
+    let context: Record<string, unknown>;
+    try {
+      const parsed: unknown = JSON.parse(sample);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('not an object');
+      }
+      context = parsed as Record<string, unknown>;
+    } catch {
+      setOutcome({ type: 'error', message: 'Sample input must be a JSON object' });
+      return;
+    }
+
+    try {
+      const { result, roots } = SecurityPolicyService.testCondition(condition, context);
+      // Enforcement skips rules whose inputs a checkpoint does not provide
+      const missing = roots.filter(root => context[root] === undefined);
+      setOutcome(missing.length > 0 ? { type: 'skipped', missing } : { type: result ? 'triggered' : 'passed' });
+    } catch (err) {
+      setOutcome({
+        type: 'error',
+        message: err instanceof Error ? err.message : 'Rule could not be evaluated',
+        position: err instanceof RuleSyntaxError ? err.position : undefined,
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Test a Rule</CardTitle>
+        <CardDescription>
+          Run a condition against sample input. A condition is true when the rule is broken,
+          and its action then applies. Unsaved edits to the policies are included.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Rule</Label>
+            <Select value={ruleId} onValueChange={selectRule}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {policies.map(policy =>
+                  policy.rules.map(rule => (
+                    <SelectItem key={rule.id} value={rule.id}>
+                      {policy.name}: {rule.name}
+                    </SelectItem>
+                  ))
+                )}
+                <SelectItem value={CUSTOM_RULE}>Custom condition</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {selectedRule && (
+            <div className="space-y-2">
+              <Label>Action when triggered</Label>
+              <div>
+                <Badge variant={selectedRule.action === 'block' ? 'destructive' : 'default'}>
+                  {selectedRule.action}
+                </Badge>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="rule-condition">Condition</Label>
+          <Textarea
+            id="rule-condition"
+            value={condition}
+            onChange={(e) => {
+              setCondition(e.target.value);
+              setOutcome(null);
+            }}
+            rows={3}
+            className="font-mono text-sm"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="rule-sample">Sample input (JSON)</Label>
+          <Textarea
+            id="rule-sample"
+            value={sample}
+            onChange={(e) => {
+              setSample(e.target.value);
+              setOutcome(null);
+            }}
+            rows={14}
+            className="font-mono text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            Times are epoch milliseconds. Sign-in provides now, user, request and mfa; password changes add
+            password and session; admin actions add session and action.
+          </p>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Button onClick={runTest} disabled={!condition.trim()}>
+            <Play className="h-4 w-4 mr-2" />
+            Run Test
+          </Button>
+          <Button variant="outline" onClick={() => setSample(JSON.stringify(sampleContext(), null, 2))}>
+            Reset Sample
+          </Button>
+        </div>
+
+        {outcome?.type === 'triggered' && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 flex">
+            <XCircle className="h-4 w-4 text-red-400" />
+            <p className="ml-3 text-sm text-red-800">
+              {selectedRule
+                ? `Triggered: the ${selectedRule.action} action applies to this input.`
+                : 'Triggered for this input.'}
+            </p>
+          </div>
+        )}
+
+        {outcome?.type === 'passed' && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 flex">
+            <CheckCircle className="h-4 w-4 text-green-400" />
+            <p className="ml-3 text-sm text-green-800">Passed: the rule does not trigger for this input.</p>
+          </div>
+        )}
+
+        {outcome?.type === 'skipped' && (
+          <div className="bg-gray-50 border border-gray-200 rounded-md p-4 flex">
+            <MinusCircle className="h-4 w-4 text-gray-400" />
+            <p className="ml-3 text-sm text-gray-700">
+              Skipped: the input has no {outcome.missing.join(', ')}, so this rule would not run.
+            </p>
+          </div>
+        )}
+
+        {outcome?.type === 'error' && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 flex">
+            <AlertTriangle className="h-4 w-4 text-yellow-500" />
+            <div className="ml-3 space-y-2">
+              <p className="text-sm text-yellow-800">{outcome.message}</p>
+              {outcome.position !== undefined && (
+                <pre className="text-xs font-mono text-yellow-900 whitespace-pre overflow-x-auto">
+                  {condition}
+                  {'\n'}
+                  {' '.repeat(outcome.position)}^
+                </pre>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -29,6 +29,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { securityConfig } from '@/settings/securityConfig';
 import type { SecurityPolicy, SecuritySettings as SecuritySettingsType } from '@/settings/securityConfig';
+import { SecurityRuleTester } from './SecurityRuleTester';
 
 interface SecuritySettingsComponentProps {
   className?: string;
@@ -66,7 +67,7 @@ export const SecuritySettings: React.FC<SecuritySettingsComponentProps> = ({ cla
       setSaving(true);
       setError(null);
       
-      const validation = securityConfig.validateConfiguration();
+      const validation = securityConfig.validateConfiguration(settings);
       if (!validation.isValid) {
         setError(`Configuration validation failed: ${validation.errors.join(', ')}`);
         return;
@@ -292,6 +293,7 @@ export const SecuritySettings: React.FC<SecuritySettingsComponentProps> = ({ cla
           <TabsTrigger value="audit">Audit & Logging</TabsTrigger>
           <TabsTrigger value="rate-limit">Rate Limiting</TabsTrigger>
           <TabsTrigger value="compliance">Compliance</TabsTrigger>
+          <TabsTrigger value="test-rules">Test Rules</TabsTrigger>
         </TabsList>
 
         <TabsContent value="policies" className="space-y-4">
@@ -347,6 +349,7 @@ export const SecuritySettings: React.FC<SecuritySettingsComponentProps> = ({ cla
                             <span className="text-sm text-muted-foreground">
                               {rule.description}
                             </span>
+                            <code className="text-xs text-muted-foreground">{rule.condition}</code>
                           </div>
                           <div className="flex items-center space-x-2">
                             <Badge variant={rule.action === 'block' ? 'destructive' : 'default'}>
@@ -671,6 +674,10 @@ export const SecuritySettings: React.FC<SecuritySettingsComponentProps> = ({ cla
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="test-rules" className="space-y-4">
+          <SecurityRuleTester policies={settings.policies} />
+        </TabsContent>
       </Tabs>
     </div>
   );
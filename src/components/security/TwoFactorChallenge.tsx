@@ -0,0 +1,279 @@
+/**
+ * Two-Factor Challenge Component
+ * Second sign-in step: enter a TOTP or backup code, or enroll when 2FA is required.
+ * The app stays closed while the 2FA status cannot be loaded.
+ */
+
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { AlertTriangle, KeyRound, Loader2, LogOut, RefreshCw, Shield } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import BackupCodes from '@/components/security/BackupCodes';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTwoFactorStatusRefresh } from '@/hooks/useAuth';
+import { useChallengeTwoFactor, useSetupTwoFactor, useVerifyTwoFactor } from '@/hooks/useUserProfile';
+import { toast } from 'sonner';
+
+const formatLockout = (lockedUntil: string) =>
+  new Date(lockedUntil).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+function VerifyStep() {
+  const { twoFactor, signOut } = useAuth();
+  const challengeMutation = useChallengeTwoFactor();
+  const [code, setCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
+
+  const lockedUntil = twoFactor.status?.locked_until;
+
+  const onSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      const result = await challengeMutation.mutateAsync(
+        useBackupCode ? { code: '', backupCode: code } : { code }
+      );
+      if (result === 'verified') {
+        toast.success('Welcome back!');
+      } else if (result === 'locked') {
+        toast.error('Too many attempts. Try again in 15 minutes.');
+      } else {
+        toast.error(useBackupCode ? 'Invalid or used backup code' : 'Invalid verification code');
+      }
+      setCode('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Verification failed');
+    }
+  };
+
+  return (
+    <>
+      <CardHeader className="text-center">
+        <div className="mx-auto w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mb-4">
+          <Shield className="h-8 w-8 text-accent-blue" />
+        </div>
+        <CardTitle className="text-2xl font-bold text-primary-text">Two-Factor Authentication</CardTitle>
+        <CardDescription className="text-lg">
+          {useBackupCode
+            ? 'Enter one of your backup codes'
+            : 'Enter the 6-digit code from your authenticator app'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lockedUntil && (
+          <p className="text-sm text-red-600 text-center">
+            Verification is locked until {formatLockout(lockedUntil)} after too many failed attempts.
+          </p>
+        )}
+        <form onSubmit={onSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="two-factor-code">{useBackupCode ? 'Backup Code' : 'Verification Code'}</Label>
+            <Input
+              id="two-factor-code"
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+              placeholder={useBackupCode ? 'xxxxx-xxxxx' : '123456'}
+              inputMode={useBackupCode ? 'text' : 'numeric'}
+              autoComplete="one-time-code"
+              autoFocus
+            />
+          </div>
+          <Button
+            type="submit"
+            className="w-full btn-primary"
+            disabled={!code.trim() || challengeMutation.isPending || !!lockedUntil}
+          >
+            {challengeMutation.isPending ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Verifying...
+              </>
+            ) : (
+              'Verify'
+            )}
+          </Button>
+        </form>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            className="flex-1"
+            onClick={() => {
+              setUseBackupCode(!useBackupCode);
+              setCode('');
+            }}
+          >
+            <KeyRound className="h-4 w-4 mr-2" />
+            {useBackupCode ? 'Use authenticator app' : 'Use a backup code'}
+          </Button>
+          <Button type="button" variant="outline" className="flex-1" onClick={signOut}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign Out
+          </Button>
+        </div>
+        <p className="text-xs text-secondary-text text-center">
+          Lost your authenticator and backup codes? Ask an administrator to reset two-factor authentication.
+        </p>
+      </CardContent>
+    </>
+  );
+}
+
+function EnrollStep() {
+  const { signOut } = useAuth();
+  const { refresh } = useTwoFactorStatusRefresh();
+  const setupMutation = useSetupTwoFactor();
+  const verifyMutation = useVerifyTwoFactor();
+  const [code, setCode] = useState('');
+
+  const setup = setupMutation.data?.setup;
+  const backupCodes = verifyMutation.data?.backup_codes;
+
+  const onStart = async () => {
+    try {
+      await setupMutation.mutateAsync();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to setup 2FA');
+    }
+  };
+
+  const onConfirm = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await verifyMutation.mutateAsync({ code: code.trim() });
+      toast.success('Two-factor authentication enabled!');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to verify 2FA');
+      setCode('');
+    }
+  };
+
+  return (
+    <>
+      <CardHeader className="text-center">
+        <div className="mx-auto w-16 h-16 bg-yellow-100 rounded-full flex items-center justify-center mb-4">
+          <Shield className="h-8 w-8 text-yellow-600" />
+        </div>
+        <CardTitle className="text-2xl font-bold text-primary-text">Set Up Two-Factor Authentication</CardTitle>
+        <CardDescription className="text-lg">
+          Two-factor authentication is required for your account before you continue.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {backupCodes ? (
+          <BackupCodes codes={backupCodes} onDone={refresh} />
+        ) : setup ? (
+          <form onSubmit={onConfirm} className="space-y-4">
+            <div className="text-center space-y-2">
+              <p className="font-medium">Scan this QR code with your authenticator app</p>
+              <div className="flex justify-center">
+                <img src={setup.qrCode} alt="2FA QR Code" className="w-40 h-40" />
+              </div>
+              <p className="text-xs text-secondary-text">
+                Or enter this key manually: <span className="font-mono break-all">{setup.secret}</span>
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="two-factor-enroll-code">Verification Code</Label>
+              <Input
+                id="two-factor-enroll-code"
+                value={code}
+                onChange={(event) => setCode(event.target.value)}
+                placeholder="Enter 6-digit code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+              />
+            </div>
+            <Button type="submit" className="w-full btn-primary" disabled={!code.trim() || verifyMutation.isPending}>
+              {verifyMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Verifying...
+                </>
+              ) : (
+                'Verify & Enable'
+              )}
+            </Button>
+          </form>
+        ) : (
+          <Button onClick={onStart} disabled={setupMutation.isPending} className="w-full btn-primary">
+            {setupMutation.isPending ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Setting up...
+              </>
+            ) : (
+              <>
+                <Shield className="h-4 w-4 mr-2" />
+                Enable 2FA
+              </>
+            )}
+          </Button>
+        )}
+        {!backupCodes && (
+          <Button type="button" variant="outline" className="w-full" onClick={signOut}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign Out
+          </Button>
+        )}
+      </CardContent>
+    </>
+  );
+}
+
+function UnavailableStep() {
+  const { signOut } = useAuth();
+  const { refresh } = useTwoFactorStatusRefresh();
+
+  return (
+    <>
+      <CardHeader className="text-center">
+        <div className="mx-auto w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mb-4">
+          <AlertTriangle className="h-8 w-8 text-red-600" />
+        </div>
+        <CardTitle className="text-2xl font-bold text-primary-text">Two-Factor Check Failed</CardTitle>
+        <CardDescription className="text-lg">
+          We couldn't check your two-factor authentication status, so the app stays locked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Button type="button" className="flex-1 btn-primary" onClick={refresh}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Try Again
+          </Button>
+          <Button type="button" variant="outline" className="flex-1" onClick={signOut}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign Out
+          </Button>
+        </div>
+      </CardContent>
+    </>
+  );
+}
+
+export default function TwoFactorChallenge() {
+  const { twoFactor } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-main-bg flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="max-w-md w-full"
+      >
+        <Card className="card">
+          {twoFactor.unavailable ? (
+            <UnavailableStep />
+          ) : twoFactor.needsVerification ? (
+            <VerifyStep />
+          ) : (
+            <EnrollStep />
+          )}
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
@@ -17,8 +17,11 @@ import {
   Key,
   RotateCcw,
   Plus,
-  Settings
+  Settings,
+  Database,
+  ArrowUpCircle
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -28,7 +31,13 @@ import { Progress } from '@/components/ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 // import { Alert, AlertDescription } from '@/components/ui/alert';
 import { vulnerabilityService } from '@/services/vulnerabilityService';
-import type { VulnerabilityMetrics, SecurityScanResult, VulnerabilityReport, SecretInfo } from '@/services/vulnerabilityService';
+import type {
+  AdvisoryDatabaseStatus,
+  VulnerabilityMetrics,
+  SecurityScanResult,
+  VulnerabilityReport,
+  SecretInfo
+} from '@/services/vulnerabilityService';
 
 interface VulnerabilityDashboardProps {
   className?: string;
@@ -37,8 +46,10 @@ interface VulnerabilityDashboardProps {
 export const VulnerabilityDashboard: React.FC<VulnerabilityDashboardProps> = ({ className }) => {
   const [metrics, setMetrics] = useState<VulnerabilityMetrics | null>(null);
   const [scans, setScans] = useState<SecurityScanResult[]>([]);
-  const [vulnerabilities] = useState<VulnerabilityReport[]>([]);
+  const [vulnerabilities, setVulnerabilities] = useState<VulnerabilityReport[]>([]);
   const [secrets, setSecrets] = useState<SecretInfo[]>([]);
+  const [advisoryStatus, setAdvisoryStatus] = useState<AdvisoryDatabaseStatus | null>(null);
+  const [importingAdvisories, setImportingAdvisories] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   // const [selectedScan] = useState<string | null>(null);
@@ -53,15 +64,17 @@ export const VulnerabilityDashboard: React.FC<VulnerabilityDashboardProps> = ({
   const loadDashboardData = async () => {
     try {
       setLoading(true);
-      const [metricsData, scansData, secretsData] = await Promise.all([
+      const [metricsData, scansData, secretsData, advisoryData] = await Promise.all([
         vulnerabilityService.getVulnerabilityMetrics(),
         vulnerabilityService.getRecentScans(10),
-        vulnerabilityService.getSecrets()
+        vulnerabilityService.getSecrets(),
+        vulnerabilityService.getAdvisoryDatabaseStatus()
       ]);
 
       setMetrics(metricsData);
       setScans(scansData);
       setSecrets(secretsData);
+      setAdvisoryStatus(advisoryData);
     } catch (err) {
       setError('Failed to load vulnerability dashboard data');
       console.error('Vulnerability dashboard error:', err);
@@ -80,11 +93,45 @@ export const VulnerabilityDashboard: React.FC<VulnerabilityDashboardProps> = ({
     }
   };
 
-  const loadVulnerabilities = async () => {
+  // Lockfile and advisory problems are the user's to fix, so they are
+  // toasted rather than replacing the dashboard with an error
+  const scanLockfile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
     try {
-      // const vulns = await vulnerabilityService.getVulnerabilitiesByScan(scanId);
-      // setVulnerabilities(vulns);
-      // setSelectedScan(scanId);
+      await vulnerabilityService.scanLockfile(await file.text(), file.name);
+      toast.success(`Dependency scan of ${file.name} started`);
+      await loadDashboardData();
+    } catch (err) {
+      console.error('Start dependency scan error:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to start dependency scan');
+    }
+  };
+
+  const importAdvisories = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setImportingAdvisories(true);
+      const imported = await vulnerabilityService.importAdvisories(new Uint8Array(await file.arrayBuffer()));
+      toast.success(`Imported ${imported} npm advisories`);
+      setAdvisoryStatus(await vulnerabilityService.getAdvisoryDatabaseStatus());
+    } catch (err) {
+      console.error('Import advisories error:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to import advisories');
+    } finally {
+      setImportingAdvisories(false);
+    }
+  };
+
+  const loadVulnerabilities = async (scanId: string) => {
+    try {
+      setVulnerabilities(await vulnerabilityService.getVulnerabilitiesByScan(scanId));
+      setActiveTab('vulnerabilities');
     } catch (err) {
       setError('Failed to load vulnerabilities');
       console.error('Load vulnerabilities error:', err);
@@ -174,12 +221,48 @@ export const VulnerabilityDashboard: React.FC<VulnerabilityDashboardProps> = ({
           <p className="text-muted-foreground">
             Monitor security vulnerabilities, scans, and secrets management
           </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            {advisoryStatus?.advisoryCount
+              ? `Advisory database: ${advisoryStatus.advisoryCount} npm advisories${
+                  advisoryStatus.lastModified
+                    ? `, newest from ${new Date(advisoryStatus.lastModified).toLocaleDateString()}`
+                    : ''
+                }`
+              : 'No advisories imported yet: import an OSV dump (e.g. npm/all.zip) before scanning a package-lock.json'}
+          </p>
         </div>
         <div className="flex items-center space-x-2">
-          <Button onClick={() => startScan('dependency')} variant="outline" size="sm">
-            <Play className="h-4 w-4 mr-2" />
-            Scan Dependencies
-          </Button>
+          <label htmlFor="import-advisories">
+            <Button asChild variant="outline" size="sm">
+              <span>
+                <Database className="h-4 w-4 mr-2" />
+                {importingAdvisories ? 'Importing...' : 'Import Advisories'}
+              </span>
+            </Button>
+          </label>
+          <input
+            id="import-advisories"
+            type="file"
+            accept=".json,.zip"
+            onChange={importAdvisories}
+            disabled={importingAdvisories}
+            className="hidden"
+          />
+          <label htmlFor="scan-lockfile">
+            <Button asChild variant="outline" size="sm">
+              <span>
+                <Play className="h-4 w-4 mr-2" />
+                Scan Dependencies
+              </span>
+            </Button>
+          </label>
+          <input
+            id="scan-lockfile"
+            type="file"
+            accept=".json"
+            onChange={scanLockfile}
+            className="hidden"
+          />
           <Button onClick={() => startScan('secrets')} variant="outline" size="sm">
             <Search className="h-4 w-4 mr-2" />
             Scan Secrets
@@ -362,7 +445,31 @@ export const VulnerabilityDashboard: React.FC<VulnerabilityDashboardProps> = ({
                               {vuln.filePath}:{vuln.lineNumber}
                             </span>
                           )}
+                          {vuln.packageName && (
+                            <span className="text-xs text-muted-foreground">
+                              {vuln.fixedVersion ? `Fixed in ${vuln.fixedVersion}` : 'No fix available'}
+                            </span>
+                          )}
                         </div>
+                        {vuln.directDependencies && vuln.directDependencies.length > 0 && (
+                          <div className="flex flex-wrap items-center gap-1 mt-2">
+                            <ArrowUpCircle className="h-3 w-3 text-muted-foreground" />
+                            <span className="text-xs font-medium">Upgrade</span>
+                            {vuln.directDependencies.map(dependency => (
+                              <Badge key={dependency} variant="outline" className="font-mono text-xs">
+                                {dependency}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                        {vuln.dependencyPath && vuln.dependencyPath.length > 1 && (
+                          <p className="text-xs font-mono text-muted-foreground mt-1">
+                            {vuln.dependencyPath.join(' › ')}
+                          </p>
+                        )}
+                        {vuln.packageName && (
+                          <p className="text-xs text-muted-foreground mt-1">{vuln.remediation}</p>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
@@ -397,7 +504,7 @@ export const VulnerabilityDashboard: React.FC<VulnerabilityDashboardProps> = ({
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ delay: index * 0.1 }}
                     className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors cursor-pointer"
-                    onClick={() => loadVulnerabilities()}
+                    onClick={() => loadVulnerabilities(scan.id)}
                   >
                     <div className="flex items-center space-x-4">
                       <div className="flex items-center space-x-2">
@@ -0,0 +1,244 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { motion } from 'motion/react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Upload, RotateCcw, CheckCircle, AlertCircle, FileVideo } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { VideoAPI } from '@/api/videos';
+import type { CreateVideoInput, Video, VideoUploadSession } from '@/types/video';
+
+interface VideoUploadWidgetProps {
+  metadata: Omit<CreateVideoInput, 'file'>;
+  // A file the user already picked elsewhere; the upload starts with it
+  initialFile?: File;
+  onUploadComplete?: (video: Video) => void;
+  className?: string;
+}
+
+type UploadState = 'idle' | 'checking' | 'resume_prompt' | 'uploading' | 'complete' | 'failed';
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+export default function VideoUploadWidget({
+  metadata,
+  initialFile,
+  onUploadComplete,
+  className,
+}: VideoUploadWidgetProps) {
+  const [state, setState] = useState<UploadState>('idle');
+  const [file, setFile] = useState<File | null>(null);
+  const [resumableSession, setResumableSession] = useState<VideoUploadSession | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleProgress = useCallback((update: { progress: number }) => {
+    setProgress(update.progress);
+  }, []);
+
+  const runUpload = useCallback(async (selected: File, session: VideoUploadSession | null) => {
+    setState('uploading');
+    setError(null);
+    setProgress(session ? Math.round((session.uploaded_bytes / session.total_size) * 100) : 0);
+
+    try {
+      const video = session
+        ? await VideoAPI.resumeUpload(session.session_id, selected, handleProgress)
+        : await VideoAPI.uploadVideo({ ...metadata, file: selected }, handleProgress);
+
+      setProgress(100);
+      setState('complete');
+      toast.success(session ? 'Upload resumed and completed' : 'Video uploaded successfully');
+      onUploadComplete?.(video);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Upload failed';
+      setError(message);
+      setState('failed');
+      toast.error(message);
+    }
+  }, [metadata, handleProgress, onUploadComplete]);
+
+  // Look for an unfinished session of the same file before starting
+  const handleFileSelect = useCallback(async (selected: File) => {
+    setFile(selected);
+    setError(null);
+    setState('checking');
+
+    try {
+      const session = await VideoAPI.findResumableUpload(selected);
+      if (session) {
+        setResumableSession(session);
+        setState('resume_prompt');
+        return;
+      }
+    } catch (err) {
+      console.warn('Could not check for resumable uploads:', err);
+    }
+
+    await runUpload(selected, null);
+  }, [runUpload]);
+
+  // Only once: React may run the effect twice in development
+  const startedInitialFile = useRef(false);
+  useEffect(() => {
+    if (!initialFile || startedInitialFile.current) return;
+    startedInitialFile.current = true;
+    handleFileSelect(initialFile);
+  }, [initialFile, handleFileSelect]);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragOver(false);
+
+    if (state === 'uploading' || state === 'checking') return;
+
+    const videoFile = Array.from(e.dataTransfer.files).find(f => f.type.startsWith('video/'));
+    if (videoFile) {
+      handleFileSelect(videoFile);
+    }
+  }, [state, handleFileSelect]);
+
+  const handleFileInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (selected) {
+      handleFileSelect(selected);
+    }
+  }, [handleFileSelect]);
+
+  const handleRetry = () => {
+    if (!file) return;
+    // A failed upload leaves its session behind, so retrying picks it up again
+    handleFileSelect(file);
+  };
+
+  const isBusy = state === 'uploading' || state === 'checking';
+
+  return (
+    <Card className={cn('card', className)}>
+      <CardHeader>
+        <CardTitle>Upload Video File</CardTitle>
+        <CardDescription>
+          Large files are uploaded in chunks; an interrupted upload can be resumed where it stopped
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {state === 'resume_prompt' && file && resumableSession ? (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.2 }}
+            className="p-4 bg-blue-50 border border-blue-200 rounded-lg"
+          >
+            <div className="flex items-start gap-3">
+              <RotateCcw className="h-5 w-5 text-accent-blue mt-0.5" />
+              <div className="flex-1">
+                <p className="font-medium text-primary-text">Resume previous upload?</p>
+                <p className="text-sm text-secondary-text mt-1">
+                  {resumableSession.original_filename} was interrupted after{' '}
+                  {formatFileSize(resumableSession.uploaded_bytes)} of{' '}
+                  {formatFileSize(resumableSession.total_size)}.
+                </p>
+                <Progress
+                  value={(resumableSession.uploaded_bytes / resumableSession.total_size) * 100}
+                  className="mt-3"
+                />
+                <div className="flex gap-2 mt-4">
+                  <Button onClick={() => runUpload(file, resumableSession)}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Resume previous upload
+                  </Button>
+                  <Button variant="outline" onClick={() => runUpload(file, null)}>
+                    Start over
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        ) : (
+          <div
+            className={cn(
+              'relative border-2 border-dashed rounded-lg transition-all duration-200 p-8 text-center',
+              isDragOver && !isBusy
+                ? 'border-blue-400 bg-blue-50'
+                : state === 'failed'
+                ? 'border-red-400 bg-red-50'
+                : 'border-gray-300 bg-white hover:border-gray-400',
+              isBusy && 'pointer-events-none'
+            )}
+            onDragOver={(e) => {
+              e.preventDefault();
+              if (!isBusy) setIsDragOver(true);
+            }}
+            onDragLeave={(e) => {
+              e.preventDefault();
+              setIsDragOver(false);
+            }}
+            onDrop={handleDrop}
+          >
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="video/*"
+              onChange={handleFileInputChange}
+              className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+              disabled={isBusy}
+            />
+            {state === 'complete' ? (
+              <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+            ) : file && isBusy ? (
+              <FileVideo className="h-12 w-12 text-accent-blue mx-auto mb-4" />
+            ) : (
+              <Upload className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            )}
+            <h3 className="text-lg font-semibold text-primary-text mb-2">
+              {file ? file.name : 'Drop your video here or click to browse'}
+            </h3>
+            <p className="text-secondary-text">
+              {file ? formatFileSize(file.size) : 'Supported formats: MP4, WebM, QuickTime, AVI'}
+            </p>
+          </div>
+        )}
+
+        {(state === 'uploading' || state === 'complete') && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-secondary-text">
+                {state === 'complete' ? 'Upload complete' : 'Uploading...'}
+              </span>
+              <span className="font-medium text-primary-text">{progress}%</span>
+            </div>
+            <Progress value={progress} />
+          </div>
+        )}
+
+        {state === 'checking' && (
+          <p className="text-sm text-secondary-text">Checking for an interrupted upload of this file...</p>
+        )}
+
+        {state === 'failed' && error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center">
+                <AlertCircle className="h-5 w-5 text-red-500 mr-2" />
+                <span className="text-red-700">{error}</span>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleRetry}>
+                Retry
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,6 @@
 import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
-import { useCurrentUser, useSignOut, useAuthStateChange } from '@/hooks/useAuth';
+import { useCurrentUser, useSignOut, useAuthStateChange, useTwoFactorGate, type TwoFactorGate } from '@/hooks/useAuth';
+import { NetworkAccessService } from '@/services/networkAccessService';
 import type { User } from '@/types/auth';
 
 interface AuthContextType {
@@ -9,6 +10,7 @@ interface AuthContextType {
   signOut: () => void;
   hasRole: (roleName: string, scope?: string) => boolean;
   hasPermission: (resource: string, action: string) => boolean;
+  twoFactor: TwoFactorGate;
   // Enhanced authentication features
   organization: any | null;
   refreshUser: () => void;
@@ -28,6 +30,7 @@ interface AuthProviderProps {
 export function AuthProvider({ children }: AuthProviderProps) {
   const { data: user, isLoading, refetch } = useCurrentUser();
   const signOutMutation = useSignOut();
+  const twoFactor = useTwoFactorGate(user?.id);
   const [isInitialized, setIsInitialized] = useState(false);
 
   // Listen to auth state changes
@@ -37,6 +40,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   });
 
+  // Refreshed sessions must still come from an allowed network
+  useEffect(() => NetworkAccessService.watchSessionRefresh(), []);
+
   // Initialize auth state
   useEffect(() => {
     const initAuth = async () => {
@@ -108,11 +114,12 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   const value: AuthContextType = {
     user: user || null,
-    isLoading: isLoading || !isInitialized,
+    isLoading: isLoading || !isInitialized || twoFactor.isLoading,
     isAuthenticated: !!user,
     signOut,
     hasRole,
     hasPermission,
+    twoFactor,
     organization: null, // TODO: Get organization from user context
     refreshUser,
     updateUserProfile,
@@ -17,15 +17,19 @@ import {
   isAuthenticated,
   onAuthStateChange
 } from '@/api/auth';
+import { getTwoFactorStatus } from '@/api/userProfile';
+import { securityConfig } from '@/settings/securityConfig';
 import type { 
   User
 } from '@/types/auth';
+import type { TwoFactorStatus } from '@/types/sessions';
 
 // Query keys
 export const authKeys = {
   user: ['auth', 'user'] as const,
   userRoles: (userId: string) => ['auth', 'user-roles', userId] as const,
   userSessions: (userId: string) => ['auth', 'user-sessions', userId] as const,
+  twoFactorStatus: ['auth', 'two-factor-status'] as const,
 };
 
 // Get current user
@@ -199,19 +203,70 @@ export const useAuthStateChange = (callback: (event: string, session: any) => vo
   return onAuthStateChange(callback);
 };
 
+// Two-factor status of the signed-in user and the current session
+export const useTwoFactorStatus = (userId?: string) => {
+  return useQuery({
+    queryKey: [...authKeys.twoFactorStatus, userId],
+    queryFn: getTwoFactorStatus,
+    enabled: !!userId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+};
+
+// Refetch two-factor status. Enrollment leaves it stale on purpose until the
+// backup codes have been shown, since a fresh status lifts the sign-in gate.
+export const useTwoFactorStatusRefresh = () => {
+  const queryClient = useQueryClient();
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: authKeys.twoFactorStatus });
+
+  return { refresh };
+};
+
+export interface TwoFactorGate {
+  status: TwoFactorStatus | undefined;
+  isLoading: boolean;
+  // An organization policy or SSOConfig.requireMFA requires 2FA
+  required: boolean;
+  // Required but not set up yet: the user has to enroll before continuing
+  needsEnrollment: boolean;
+  // Enabled but this session has not passed the challenge yet
+  needsVerification: boolean;
+  // The status could not be loaded; the app stays closed until it can
+  unavailable: boolean;
+}
+
+// What the signed-in user still has to do for two-factor before the app opens
+export const useTwoFactorGate = (userId?: string): TwoFactorGate => {
+  const { data: status, isLoading, isError } = useTwoFactorStatus(userId);
+  const required = !!status?.required || securityConfig.getSSOConfig().requireMFA;
+
+  return {
+    status,
+    isLoading: !!userId && isLoading,
+    required,
+    needsEnrollment: !!status && required && !status.enabled,
+    needsVerification: !!status && status.enabled && !status.session_verified,
+    unavailable: !!userId && isError,
+  };
+};
+
 // Main auth hook that provides user and auth state
 export const useAuth = () => {
   const { data: user, isLoading, error } = useCurrentUser();
+  const twoFactor = useTwoFactorGate(user?.id);
   
   return {
     user,
-    isLoading,
+    isLoading: isLoading || twoFactor.isLoading,
     error,
     isAuthenticated: !!user,
+    // Signed in but still owes a second factor (challenge or enrollment)
+    twoFactor,
     // Enhanced authentication features
     isEmailVerified: user?.email_confirmed_at ? true : false,
     isProfileComplete: user?.profile?.profile_completed || false,
-    has2FA: user?.profile?.two_factor_enabled || false,
+    has2FA: twoFactor.status?.enabled ?? user?.profile?.two_factor_enabled ?? false,
     lastLogin: user?.last_sign_in_at,
     createdAt: user?.created_at,
   };
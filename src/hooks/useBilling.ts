@@ -298,6 +298,40 @@ export const useUpdateSubscription = () => {
   });
 };
 
+export const useSubscriptionChangePreview = (id: string, planId: string) => {
+  return useQuery({
+    queryKey: ['subscription-change-preview', id, planId],
+    queryFn: () => billingApi.subscriptions.previewPlanChange(id, planId),
+    enabled: !!id && !!planId,
+    // Proration is counted in days; refresh when the dialog is reopened
+    staleTime: 0,
+  });
+};
+
+export const useChangeSubscriptionPlan = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, planId }: { id: string; planId: string }) =>
+      billingApi.subscriptions.changePlan(id, planId),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['subscription', data.subscription_id] });
+      queryClient.invalidateQueries({ queryKey: ['current-subscription'] });
+      queryClient.invalidateQueries({ queryKey: ['subscription-usage', data.subscription_id] });
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['billing-summary'] });
+      if (data.invoice_id) {
+        queryClient.invalidateQueries({ queryKey: ['invoice', data.invoice_id] });
+      }
+      toast.success('Plan changed successfully');
+    },
+    onError: (error) => {
+      toast.error('Failed to change plan');
+      console.error('Change subscription plan error:', error);
+    },
+  });
+};
+
 export const useCancelSubscription = () => {
   const queryClient = useQueryClient();
 
@@ -382,6 +416,9 @@ export const useMarkInvoiceAsPaid = () => {
       queryClient.invalidateQueries({ queryKey: ['invoice', data.id] });
       queryClient.invalidateQueries({ queryKey: ['invoices', data.organization_id] });
       queryClient.invalidateQueries({ queryKey: ['billing-summary', data.organization_id] });
+      queryClient.invalidateQueries({ queryKey: ['dunning-cases', data.organization_id] });
+      queryClient.invalidateQueries({ queryKey: ['dunning-timeline', data.organization_id] });
+      queryClient.invalidateQueries({ queryKey: ['user-organizations'] });
       toast.success('Invoice marked as paid');
     },
     onError: (error) => {
@@ -392,9 +429,14 @@ export const useMarkInvoiceAsPaid = () => {
 };
 
 export const useGenerateInvoicePdf = () => {
+  const queryClient = useQueryClient();
+
   return useMutation({
     mutationFn: (id: string) => billingApi.invoices.generatePdf(id),
-    onSuccess: () => {
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['invoice', data.invoice_id] });
+      queryClient.invalidateQueries({ queryKey: ['invoice-documents', data.invoice_id] });
+      queryClient.invalidateQueries({ queryKey: ['invoices', data.organization_id] });
       toast.success('Invoice PDF generated successfully');
     },
     onError: (error) => {
@@ -404,6 +446,39 @@ export const useGenerateInvoicePdf = () => {
   });
 };
 
+export const useInvoiceDocuments = (invoiceId: string, enabled = true) => {
+  return useQuery({
+    queryKey: ['invoice-documents', invoiceId],
+    queryFn: () => billingApi.invoices.getDocuments(invoiceId),
+    enabled: !!invoiceId && enabled,
+  });
+};
+
+export const useInvoiceEmails = (invoiceId: string, enabled = true) => {
+  return useQuery({
+    queryKey: ['invoice-emails', invoiceId],
+    queryFn: () => billingApi.invoices.getEmails(invoiceId),
+    enabled: !!invoiceId && enabled,
+  });
+};
+
+export const useSendInvoiceEmail = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => billingApi.invoices.sendEmail(id),
+    onSuccess: (data, id) => {
+      queryClient.invalidateQueries({ queryKey: ['invoice-emails', id] });
+      queryClient.invalidateQueries({ queryKey: ['invoice-documents', id] });
+      toast.success(`Invoice sent to ${data.recipient}`);
+    },
+    onError: (error) => {
+      toast.error('Failed to send invoice');
+      console.error('Send invoice error:', error);
+    },
+  });
+};
+
 // =====================================================
 // Payment Hooks
 // =====================================================
@@ -506,6 +581,34 @@ export const useCreateBillingEvent = () => {
   });
 };
 
+// =====================================================
+// Dunning Hooks
+// =====================================================
+
+export const useDunningCases = (organizationId: string) => {
+  return useQuery({
+    queryKey: ['dunning-cases', organizationId],
+    queryFn: () => billingApi.dunning.getCases(organizationId),
+    enabled: !!organizationId,
+  });
+};
+
+export const useDunningTimeline = (organizationId: string, invoiceId?: string) => {
+  return useQuery({
+    queryKey: ['dunning-timeline', organizationId, invoiceId],
+    queryFn: () => billingApi.dunning.getTimeline(organizationId, invoiceId),
+    enabled: !!organizationId,
+  });
+};
+
+export const useDunningPolicy = (organizationId: string) => {
+  return useQuery({
+    queryKey: ['dunning-policy', organizationId],
+    queryFn: () => billingApi.dunning.getPolicy(organizationId),
+    enabled: !!organizationId,
+  });
+};
+
 // =====================================================
 // Billing Summary Hooks
 // =====================================================
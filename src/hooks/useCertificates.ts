@@ -6,6 +6,8 @@ import {
   createCertificate,
   updateCertificate,
   deleteCertificate,
+  revokeCertificate,
+  getCertificateRevocationList,
   getCertificateStats,
   generateCertificatePDF,
   downloadCertificate,
@@ -13,7 +15,8 @@ import {
 } from '@/api/certificates';
 import type { 
   CertificateInsert, 
-  CertificateUpdate
+  CertificateUpdate,
+  CertificateRevocationReason
 } from '@/types/certificates';
 
 // Query keys
@@ -25,6 +28,7 @@ export const certificateKeys = {
   detail: (id: string) => [...certificateKeys.details(), id] as const,
   verification: (code: string) => [...certificateKeys.all, 'verification', code] as const,
   stats: (userId?: string) => [...certificateKeys.all, 'stats', userId] as const,
+  revocations: (since?: string) => [...certificateKeys.all, 'revocations', since] as const,
 };
 
 // Get user certificates
@@ -55,6 +59,14 @@ export function useVerifyCertificate(verificationCode: string) {
   });
 }
 
+// Get the public certificate revocation list
+export function useCertificateRevocationList(since?: string) {
+  return useQuery({
+    queryKey: certificateKeys.revocations(since),
+    queryFn: () => getCertificateRevocationList(since),
+  });
+}
+
 // Get certificate statistics
 export function useCertificateStats(userId?: string) {
   return useQuery({
@@ -108,10 +120,36 @@ export function useDeleteCertificate() {
   });
 }
 
+// Revoke certificate mutation
+export function useRevokeCertificate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ certificateId, reason, note }: {
+      certificateId: string;
+      reason: CertificateRevocationReason;
+      note?: string;
+    }) => revokeCertificate(certificateId, reason, note),
+    onSuccess: (data) => {
+      queryClient.setQueryData(certificateKeys.detail(data.id), data);
+      queryClient.invalidateQueries({ queryKey: certificateKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: certificateKeys.stats(data.user_id) });
+      queryClient.invalidateQueries({ queryKey: [...certificateKeys.all, 'revocations'] });
+    },
+  });
+}
+
 // Generate certificate PDF mutation
 export function useGenerateCertificatePDF() {
+  const queryClient = useQueryClient();
+
   return useMutation({
     mutationFn: (certificateId: string) => generateCertificatePDF(certificateId),
+    onSuccess: (_, certificateId) => {
+      // pdf_url and thumbnail_url changed on the certificate
+      queryClient.invalidateQueries({ queryKey: certificateKeys.detail(certificateId) });
+      queryClient.invalidateQueries({ queryKey: certificateKeys.lists() });
+    },
   });
 }
 
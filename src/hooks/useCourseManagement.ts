@@ -26,6 +26,7 @@ import {
   type CourseModule,
   type CreateCourseInput,
 } from '@/api/courseManagement';
+import { CourseManagementService } from '@/services/courseManagementService';
 
 // Query keys
 export const courseManagementKeys = {
@@ -35,6 +36,7 @@ export const courseManagementKeys = {
   enrollments: (courseId: string) => [...courseManagementKeys.all, 'enrollments', courseId] as const,
   userEnrollments: (userId: string) => [...courseManagementKeys.all, 'userEnrollments', userId] as const,
   analytics: (courseId: string) => [...courseManagementKeys.all, 'analytics', courseId] as const,
+  versions: (courseId: string) => [...courseManagementKeys.all, 'versions', courseId] as const,
   search: (query: string, filters: any) => [...courseManagementKeys.all, 'search', query, filters] as const,
 };
 
@@ -352,6 +354,9 @@ export function usePublishCourse() {
       queryClient.invalidateQueries({
         queryKey: courseManagementKeys.courses(),
       });
+      queryClient.invalidateQueries({
+        queryKey: courseManagementKeys.versions(publishedCourse.id),
+      });
       toast.success('Course published successfully');
     },
     onError: (error) => {
@@ -361,6 +366,41 @@ export function usePublishCourse() {
   });
 }
 
+// Get published versions of a course, newest first
+export function useCourseVersions(courseId: string) {
+  return useQuery({
+    queryKey: courseManagementKeys.versions(courseId),
+    queryFn: () => CourseManagementService.getCourseVersions(courseId),
+    enabled: !!courseId,
+  });
+}
+
+// Restore a course version as a new draft
+export function useRestoreCourseVersion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ versionId }: { courseId: string; versionId: string }) =>
+      CourseManagementService.restoreCourseVersion(versionId),
+    onSuccess: (_data, { courseId }) => {
+      queryClient.invalidateQueries({
+        queryKey: courseManagementKeys.course(courseId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: courseManagementKeys.versions(courseId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: courseManagementKeys.courses(),
+      });
+      toast.success('Version restored as a draft');
+    },
+    onError: (error) => {
+      toast.error('Failed to restore version');
+      console.error('Error restoring course version:', error);
+    },
+  });
+}
+
 // Unpublish course mutation
 export function useUnpublishCourse() {
   const queryClient = useQueryClient();
@@ -20,6 +20,8 @@ export const courseKeys = {
   quizzes: (courseId: string) => [...courseKeys.detail(courseId), 'quizzes'] as const,
   enrollments: (courseId: string) => [...courseKeys.detail(courseId), 'enrollments'] as const,
   completions: (enrollmentId: string) => [...courseKeys.all, 'completions', enrollmentId] as const,
+  myEnrollment: (courseId: string) => [...courseKeys.detail(courseId), 'my-enrollment'] as const,
+  enrollmentVersion: (enrollmentId: string) => [...courseKeys.all, 'enrollment-version', enrollmentId] as const,
   builderState: (courseId: string) => [...courseKeys.detail(courseId), 'builder-state'] as const,
 };
 
@@ -69,6 +71,24 @@ export const useCourseQuizzes = (courseId: string) => {
   });
 };
 
+// Get the current user's enrollment in a course
+export const useMyEnrollment = (courseId: string, userId: string) => {
+  return useQuery({
+    queryKey: courseKeys.myEnrollment(courseId),
+    queryFn: () => courseApi.getMyEnrollment(courseId, userId),
+    enabled: !!courseId && !!userId,
+  });
+};
+
+// Get the course version an enrollment is pinned to
+export const useEnrollmentCourseVersion = (enrollmentId: string) => {
+  return useQuery({
+    queryKey: courseKeys.enrollmentVersion(enrollmentId),
+    queryFn: () => courseApi.getEnrollmentCourseVersion(enrollmentId),
+    enabled: !!enrollmentId,
+  });
+};
+
 // Get course enrollments
 export const useCourseEnrollments = (courseId: string) => {
   return useQuery({
@@ -0,0 +1,82 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  complianceService,
+  type DataSubjectRequestInsert,
+  type DataSubjectRequestUpdate,
+} from '@/services/complianceService';
+
+// Query keys
+export const dataSubjectRequestKeys = {
+  all: ['data-subject-requests'] as const,
+  list: () => [...dataSubjectRequestKeys.all, 'list'] as const,
+  events: (requestId: string) => [...dataSubjectRequestKeys.all, 'events', requestId] as const,
+};
+
+// Get every data subject request
+export function useDataSubjectRequests() {
+  return useQuery({
+    queryKey: dataSubjectRequestKeys.list(),
+    queryFn: () => complianceService.getDataSubjectRequests(),
+  });
+}
+
+// Get the audit trail of one request
+export function useDataSubjectRequestEvents(requestId: string) {
+  return useQuery({
+    queryKey: dataSubjectRequestKeys.events(requestId),
+    queryFn: () => complianceService.getDataSubjectRequestEvents(requestId),
+    enabled: !!requestId,
+  });
+}
+
+// Log a new request mutation
+export function useCreateDataSubjectRequest(createdBy: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: DataSubjectRequestInsert) => complianceService.createDataSubjectRequest(request, createdBy),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: dataSubjectRequestKeys.list() });
+    },
+  });
+}
+
+// Update a request mutation (verification, extension, status)
+export function useUpdateDataSubjectRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ requestId, updates }: { requestId: string; updates: DataSubjectRequestUpdate }) =>
+      complianceService.updateDataSubjectRequest(requestId, updates),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: dataSubjectRequestKeys.list() });
+      queryClient.invalidateQueries({ queryKey: dataSubjectRequestKeys.events(data.id) });
+    },
+  });
+}
+
+// Build the export archive of an access request mutation
+export function useExportDataSubjectRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (requestId: string) => complianceService.exportDataSubjectRequest(requestId),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: dataSubjectRequestKeys.list() });
+      queryClient.invalidateQueries({ queryKey: dataSubjectRequestKeys.events(data.request.id) });
+    },
+  });
+}
+
+// Erase the subject of an erasure request mutation
+export function useEraseDataSubject() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (requestId: string) => complianceService.eraseDataSubject(requestId),
+    onSuccess: () => {
+      // Erasure also clears export archives on the subject's other requests
+      queryClient.invalidateQueries({ queryKey: dataSubjectRequestKeys.all });
+    },
+  });
+}
@@ -31,12 +31,12 @@ export function useLogLearningEvent() {
 
   return useMutation({
     mutationFn: (eventData: LearningAnalyticsInsert) => logLearningEvent(eventData),
-    onSuccess: (data) => {
+    onSuccess: (data, eventData) => {
       // Invalidate related queries
       queryClient.invalidateQueries({ queryKey: learningAnalyticsKeys.events() });
       queryClient.invalidateQueries({ queryKey: learningAnalyticsKeys.summary({}) });
       queryClient.invalidateQueries({ queryKey: learningAnalyticsKeys.course(data.course_id) });
-      queryClient.invalidateQueries({ queryKey: learningAnalyticsKeys.user(data.user_id) });
+      queryClient.invalidateQueries({ queryKey: learningAnalyticsKeys.user(eventData.user_id) });
       if (data.quiz_id) {
         queryClient.invalidateQueries({ queryKey: learningAnalyticsKeys.quiz(data.quiz_id) });
       }
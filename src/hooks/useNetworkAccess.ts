@@ -0,0 +1,52 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { NetworkAccessService } from '@/services/networkAccessService';
+import type { NetworkRuleInsert } from '@/types/networkAccess';
+
+// Query keys
+export const networkAccessKeys = {
+  all: ['network-access'] as const,
+  rules: (organizationId: string) => [...networkAccessKeys.all, 'rules', organizationId] as const,
+  currentNetwork: () => [...networkAccessKeys.all, 'current-network'] as const,
+};
+
+// Get an organization's allow and block rules
+export function useNetworkRules(organizationId: string) {
+  return useQuery({
+    queryKey: networkAccessKeys.rules(organizationId),
+    queryFn: () => NetworkAccessService.getRules(organizationId),
+    enabled: !!organizationId,
+  });
+}
+
+// The IP address and country the API sees for this browser
+export function useCurrentNetwork() {
+  return useQuery({
+    queryKey: networkAccessKeys.currentNetwork(),
+    queryFn: () => NetworkAccessService.getCurrentNetwork(),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Add a rule mutation
+export function useAddNetworkRule(organizationId: string, createdBy: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (rule: NetworkRuleInsert) => NetworkAccessService.addRule(organizationId, rule, createdBy),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: networkAccessKeys.rules(organizationId) });
+    },
+  });
+}
+
+// Delete a rule mutation
+export function useDeleteNetworkRule(organizationId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (ruleId: string) => NetworkAccessService.deleteRule(ruleId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: networkAccessKeys.rules(organizationId) });
+    },
+  });
+}
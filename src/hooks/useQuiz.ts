@@ -4,8 +4,9 @@ import { courseApi } from '@/api/courses';
 import { supabase } from '@/lib/supabase';
 import type { 
   CourseQuiz, 
+  QuizAnswer,
   QuizAttempt, 
-  QuizResult, 
+  EnhancedQuizResult, 
   QuizSession,
   QuizStats,
   QuizQuestionForm,
@@ -152,6 +153,7 @@ export function useQuizAttempts(quizId: string, userId?: string) {
         moduleId: item.module_id,
         answers: item.answers,
         score: item.score,
+        passed: item.passed,
         totalPoints: item.total_points,
         earnedPoints: item.earned_points,
         timeSpent: item.time_spent,
@@ -187,6 +189,7 @@ export function useUserQuizAttempts(userId: string) {
         moduleId: item.module_id,
         answers: item.answers,
         score: item.score,
+        passed: item.passed,
         totalPoints: item.total_points,
         earnedPoints: item.earned_points,
         timeSpent: item.time_spent,
@@ -200,56 +203,22 @@ export function useUserQuizAttempts(userId: string) {
   });
 }
 
-// Submit quiz attempt
+// Submit quiz attempt for server-side grading
 export function useSubmitQuizAttempt() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (attemptData: Omit<QuizAttempt, 'id' | 'createdAt' | 'updatedAt'>) => {
-      const { data, error } = await supabase
-        .from('quiz_attempts')
-        .insert({
-          quiz_id: attemptData.quizId,
-          user_id: attemptData.userId,
-          course_id: attemptData.courseId,
-          module_id: attemptData.moduleId,
-          answers: attemptData.answers,
-          score: attemptData.score,
-          total_points: attemptData.totalPoints,
-          earned_points: attemptData.earnedPoints,
-          time_spent: attemptData.timeSpent,
-          completed_at: attemptData.completedAt,
-          status: attemptData.status
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-      
-      // Transform the data to match our interface
-      const transformedData: QuizAttempt = {
-        id: data.id,
-        quizId: data.quiz_id,
-        userId: data.user_id,
-        courseId: data.course_id,
-        moduleId: data.module_id,
-        answers: data.answers,
-        score: data.score,
-        totalPoints: data.total_points,
-        earnedPoints: data.earned_points,
-        timeSpent: data.time_spent,
-        completedAt: data.completed_at,
-        createdAt: data.created_at,
-        updatedAt: data.updated_at,
-        status: data.status
-      };
-      
-      return transformedData;
+    mutationFn: async ({ quizId, answers, timeSpent }: {
+      quizId: string;
+      answers: QuizAnswer[];
+      timeSpent: number;
+    }) => {
+      return await courseApi.gradeQuizAttempt(quizId, answers, timeSpent);
     },
     onSuccess: (data) => {
       // Invalidate attempts
       queryClient.invalidateQueries({ queryKey: quizKeys.attempt(data.quizId) });
-      queryClient.invalidateQueries({ queryKey: [...quizKeys.attempts(), 'user', data.userId] });
+      queryClient.invalidateQueries({ queryKey: [...quizKeys.attempts(), 'user'] });
     },
   });
 }
@@ -282,7 +251,7 @@ export function useQuizStats(quizId: string) {
       // Calculate statistics
       const totalAttempts = attempts.length;
       const averageScore = attempts.reduce((sum, attempt) => sum + attempt.score, 0) / totalAttempts;
-      const passedAttempts = attempts.filter(attempt => attempt.score >= 80).length;
+      const passedAttempts = attempts.filter(attempt => attempt.passed).length;
       const passRate = (passedAttempts / totalAttempts) * 100;
       const averageTimeSpent = attempts.reduce((sum, attempt) => sum + attempt.timeSpent, 0) / totalAttempts;
 
@@ -310,20 +279,15 @@ export function useQuizSession(quizId: string) {
 
   const startQuiz = useCallback(async () => {
     try {
-      // Get quiz questions
-      const { data: questions, error } = await supabase
-        .from('course_quizzes')
-        .select('*')
-        .eq('id', quizId);
-
-      if (error) throw error;
-      if (!questions || questions.length === 0) throw new Error('No questions found');
+      // Questions arrive without correct answers or explanations
+      const questions = await courseApi.getQuizQuestions(quizId);
+      if (questions.length === 0) throw new Error('No questions found');
 
       const newSession: QuizSession = {
         quizId,
         courseId: questions[0].courseId,
         moduleId: questions[0].moduleId,
-        questions: questions as CourseQuiz[],
+        questions,
         currentQuestionIndex: 0,
         answers: new Map(),
         isCompleted: false,
@@ -358,63 +322,32 @@ export function useQuizSession(quizId: string) {
     } : null);
   }, [session]);
 
-  const submitQuiz = useCallback(async (): Promise<QuizResult> => {
+  const submitQuiz = useCallback(async (): Promise<EnhancedQuizResult> => {
     if (!session) throw new Error('No active quiz session');
 
     try {
-      // Calculate results
-      let correctAnswers = 0;
-      let totalPoints = 0;
-      let earnedPoints = 0;
-      const answers = [];
-
-      for (const question of session.questions) {
-        const answer = session.answers.get(question.id);
-        if (answer) {
-          const isCorrect = checkAnswer(question, answer.answer);
-          answers.push({
-            ...answer,
-            isCorrect
-          });
-
-          totalPoints += question.points;
-          if (isCorrect) {
-            correctAnswers++;
-            earnedPoints += question.points;
-          }
-        }
-      }
-
-      const score = totalPoints > 0 ? Math.round((earnedPoints / totalPoints) * 100) : 0;
-      const passed = score >= 80; // Default pass threshold
       const timeSpent = Math.floor((Date.now() - new Date(session.startedAt).getTime()) / 1000);
+      const result = await courseApi.gradeQuizAttempt(
+        session.quizId,
+        Array.from(session.answers.values()),
+        timeSpent
+      );
 
-      const result: QuizResult = {
-        quizId: session.quizId,
-        courseId: session.courseId,
-        moduleId: session.moduleId,
-        score,
-        totalQuestions: session.questions.length,
-        correctAnswers,
-        timeSpent,
-        passed,
-        passThreshold: 80,
-        completedAt: new Date().toISOString(),
-        answers,
-        feedback: passed 
-          ? 'Great job! You have successfully completed this quiz.'
-          : 'You need 80% to pass. Consider reviewing the material and trying again.'
-      };
-
-      // Mark session as completed
+      // Mark session as completed with the graded answers
       setSession(prev => prev ? {
         ...prev,
+        answers: new Map(result.answers.map(answer => [answer.questionId, answer])),
         isCompleted: true,
         isSubmitted: true,
-        completedAt: new Date().toISOString()
+        completedAt: result.completedAt
       } : null);
 
-      return result;
+      return {
+        ...result,
+        feedback: result.passed
+          ? 'Great job! You have successfully completed this quiz.'
+          : `You need ${result.passThreshold}% to pass. Consider reviewing the material and trying again.`
+      };
     } catch (error) {
       console.error('Failed to submit quiz:', error);
       throw error;
@@ -440,18 +373,6 @@ export function useQuizSession(quizId: string) {
   };
 }
 
-// Helper function to check if answer is correct
-function checkAnswer(question: CourseQuiz, userAnswer: string | string[]): boolean {
-  const correctAnswers = question.correctAnswer.split(',').map(a => a.trim());
-  
-  if (Array.isArray(userAnswer)) {
-    return userAnswer.length === correctAnswers.length &&
-      userAnswer.every(answer => correctAnswers.includes(answer));
-  }
-  
-  return correctAnswers.includes(userAnswer);
-}
-
 // Quiz builder hook
 export function useQuizBuilder(_courseId: string, _moduleId?: string) {
   const [questions, setQuestions] = useState<QuizQuestionForm[]>([]);
@@ -43,6 +43,14 @@ function searchReducer(state: SearchState, action: SearchAction): SearchState {
       return { ...state, limit: action.payload };
     case 'SET_RESULTS':
       return { ...state, results: action.payload };
+    case 'APPEND_RESULTS': {
+      // Keyset pages never overlap; the check only guards the offset fallback
+      const seen = new Set(state.results.map(result => result.video_id));
+      return {
+        ...state,
+        results: [...state.results, ...action.payload.filter(result => !seen.has(result.video_id))]
+      };
+    }
     case 'SET_FACETS':
       return { ...state, facets: action.payload };
     case 'SET_SUGGESTIONS':
@@ -99,7 +107,8 @@ export function useSearch(): UseSearchReturn {
   const [searchState, dispatch] = useReducer(searchReducer, initialSearchState);
   // const queryClient = useQueryClient();
 
-  // Search mutation
+  // Search mutation. A new search starts from the first page unless the
+  // request names another one; cursors only come from loadMore.
   const searchMutation = useMutation({
     mutationFn: async (request: Partial<SearchRequest> = {}) => {
       const searchRequest: SearchRequest = {
@@ -107,7 +116,8 @@ export function useSearch(): UseSearchReturn {
         filters: searchState.filters,
         sort_by: searchState.sort_by,
         sort_order: searchState.sort_order,
-        page: searchState.page,
+        page: 1,
+        cursor: null,
         limit: searchState.limit,
         include_facets: true,
         include_suggestions: false,
@@ -121,6 +131,7 @@ export function useSearch(): UseSearchReturn {
         const response = await searchVideos(searchRequest);
         
         dispatch({ type: 'SET_RESULTS', payload: response.results });
+        dispatch({ type: 'SET_PAGE', payload: searchRequest.page ?? 1 });
         dispatch({ type: 'SET_FACETS', payload: response.facets });
         dispatch({ type: 'SET_PAGINATION', payload: response.pagination });
         dispatch({ type: 'SET_LOADING', payload: false });
@@ -158,14 +169,18 @@ export function useSearch(): UseSearchReturn {
     gcTime: 10 * 60 * 1000 // 10 minutes
   });
 
+  // mutateAsync keeps its identity across renders, so effects that depend on
+  // search only run again when their own inputs change
+  const { mutateAsync: runSearch } = searchMutation;
+
   // Actions
   const search = useCallback(async (request: Partial<SearchRequest> = {}) => {
     try {
-      await searchMutation.mutateAsync(request);
+      await runSearch(request);
     } catch (error) {
       toast.error('Search failed. Please try again.');
     }
-  }, [searchMutation]);
+  }, [runSearch]);
 
   const setQuery = useCallback((query: string) => {
     dispatch({ type: 'SET_QUERY', payload: query });
@@ -189,6 +204,43 @@ export function useSearch(): UseSearchReturn {
     dispatch({ type: 'SET_PAGE', payload: 1 }); // Reset to first page when limit changes
   }, []);
 
+  // Fetch the page after the last loaded result and append it. The
+  // pagination tracks how far the list has scrolled; searchState.page stays
+  // on the page the search started from.
+  const loadMore = useCallback(async () => {
+    const { pagination } = searchState;
+    if (!pagination?.has_next || searchState.loading) return;
+
+    dispatch({ type: 'SET_LOADING', payload: true });
+
+    try {
+      const response = await searchVideos({
+        query: searchState.query,
+        filters: searchState.filters,
+        sort_by: searchState.sort_by,
+        sort_order: searchState.sort_order,
+        limit: searchState.limit,
+        page: pagination.page + 1,
+        cursor: pagination.next_cursor,
+        include_facets: false,
+        include_suggestions: false
+      });
+
+      dispatch({ type: 'APPEND_RESULTS', payload: response.results });
+      dispatch({
+        type: 'SET_PAGINATION',
+        payload: response.results.length > 0
+          ? response.pagination
+          : { ...pagination, has_next: false, next_cursor: null }
+      });
+    } catch (error) {
+      toast.error('Failed to load more results');
+      console.error('Failed to load more results:', error);
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [searchState]);
+
   const clearSearch = useCallback(() => {
     dispatch({ type: 'CLEAR_SEARCH' });
   }, []);
@@ -240,6 +292,8 @@ export function useSearch(): UseSearchReturn {
     setLimit,
     clearSearch,
     resetFilters,
+    loadMore,
+    hasMore: searchState.pagination?.has_next ?? false,
     getSuggestions,
     trackSearch,
     trackClick
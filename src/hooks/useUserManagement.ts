@@ -29,6 +29,7 @@ import {
   getUsers,
   updateUserProfileRole as updateUserRoleAPI,
   updateUserStatus,
+  resetUserTwoFactor,
   bulkUpdateUsers,
 } from '@/api/userManagement';
 import type {
@@ -325,6 +326,18 @@ export const useUpdateUserStatus = () => {
   });
 };
 
+export const useResetUserTwoFactor = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (userId: string) => resetUserTwoFactor(userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-audit-log'] });
+    },
+  });
+};
+
 export const useBulkUpdateUsers = () => {
   const queryClient = useQueryClient();
   
@@ -8,6 +8,8 @@ import {
   changePassword,
   setupTwoFactor,
   verifyTwoFactor,
+  challengeTwoFactor,
+  regenerateBackupCodes,
   disableTwoFactor,
   getUserSessions,
   revokeSession,
@@ -16,6 +18,7 @@ import {
   requestSeats,
   getActivityLog,
 } from '@/api/userProfile';
+import { authKeys } from '@/hooks/useAuth';
 import type {
   ActivityLogFilter,
 } from '@/types/sessions';
@@ -52,10 +55,46 @@ export const useSetupTwoFactor = () => {
 
 /**
  * Verify two-factor authentication mutation
+ *
+ * Two-factor status is left for the caller to refresh (useTwoFactorStatusRefresh)
+ * once the returned backup codes have been shown.
  */
 export const useVerifyTwoFactor = () => {
+  const queryClient = useQueryClient();
+
   return useMutation({
     mutationFn: verifyTwoFactor,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: authKeys.user });
+    },
+  });
+};
+
+/**
+ * Sign-in two-factor challenge mutation
+ */
+export const useChallengeTwoFactor = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: challengeTwoFactor,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: authKeys.twoFactorStatus });
+    },
+  });
+};
+
+/**
+ * Regenerate backup codes mutation
+ */
+export const useRegenerateBackupCodes = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: regenerateBackupCodes,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: authKeys.twoFactorStatus });
+    },
   });
 };
 
@@ -63,8 +102,14 @@ export const useVerifyTwoFactor = () => {
  * Disable two-factor authentication mutation
  */
 export const useDisableTwoFactor = () => {
+  const queryClient = useQueryClient();
+
   return useMutation({
     mutationFn: disableTwoFactor,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: authKeys.twoFactorStatus });
+      queryClient.invalidateQueries({ queryKey: authKeys.user });
+    },
   });
 };
 
@@ -0,0 +1,142 @@
+import { useEffect, type RefObject } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { VideoAPI } from '@/api/videos';
+import { VideoUploadService } from '@/services/videoUploadService';
+import type { VideoEventType, VideoPlaybackEventInput } from '@/types/video';
+
+// Query keys
+export const videoKeys = {
+  all: ['videos'] as const,
+  details: () => [...videoKeys.all, 'detail'] as const,
+  detail: (id: string) => [...videoKeys.details(), id] as const,
+  transcripts: (id: string) => [...videoKeys.all, 'transcripts', id] as const,
+};
+
+// Get video by ID with author and processing data
+export const useVideo = (id: string) => {
+  return useQuery({
+    queryKey: videoKeys.detail(id),
+    queryFn: () => VideoAPI.getVideo(id),
+    enabled: !!id,
+  });
+};
+
+// Get transcript segments ordered by segment index
+export const useVideoTranscripts = (videoId: string) => {
+  return useQuery({
+    queryKey: videoKeys.transcripts(videoId),
+    queryFn: () => VideoAPI.getVideoTranscripts(videoId),
+    enabled: !!videoId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+};
+
+const getDeviceType = (): string => {
+  const userAgent = navigator.userAgent;
+  if (/iPad|Tablet/i.test(userAgent)) return 'tablet';
+  if (/Mobi|Android|iPhone/i.test(userAgent)) return 'mobile';
+  return 'desktop';
+};
+
+/**
+ * Report view/play/pause/seek/complete events for a mounted <video> element.
+ * Each pause, seek and end closes the span played continuously since the last
+ * play or seek, which is what popular segments are computed from.
+ */
+export const useVideoPlaybackTracking = (
+  videoRef: RefObject<HTMLVideoElement>,
+  videoId: string | undefined,
+  userId?: string
+) => {
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !videoId) return;
+
+    const sessionId = crypto.randomUUID();
+    const deviceType = getDeviceType();
+    let viewTracked = false;
+    let spanStart: number | null = null;
+    let lastPosition = video.currentTime;
+    let watchedSeconds = 0;
+
+    const track = (
+      eventType: VideoEventType,
+      data: Partial<Omit<VideoPlaybackEventInput, 'video_id' | 'event_type'>> = {}
+    ) => {
+      VideoUploadService.trackVideoEvent(videoId, eventType, userId, {
+        session_id: sessionId,
+        device_type: deviceType,
+        watched_seconds: watchedSeconds,
+        ...data,
+      });
+    };
+
+    const closeSpan = (end: number) => {
+      if (spanStart === null) return {};
+      const start = spanStart;
+      spanStart = null;
+      if (end <= start) return {};
+      watchedSeconds += end - start;
+      return { segment_start_seconds: start, segment_end_seconds: end };
+    };
+
+    const handlePlay = () => {
+      if (!viewTracked) {
+        viewTracked = true;
+        track('view', { position_seconds: video.currentTime });
+      }
+      spanStart = video.currentTime;
+      track('play', { position_seconds: video.currentTime });
+    };
+
+    const handleTimeUpdate = () => {
+      if (!video.seeking) {
+        lastPosition = video.currentTime;
+      }
+    };
+
+    const handleSeeking = () => {
+      const from = lastPosition;
+      const segment = closeSpan(from);
+      lastPosition = video.currentTime;
+      if (!video.paused) {
+        spanStart = video.currentTime;
+      }
+      track('seek', {
+        ...segment,
+        from_position_seconds: from,
+        position_seconds: video.currentTime,
+      });
+    };
+
+    const handlePause = () => {
+      const segment = closeSpan(video.currentTime);
+      track('pause', { ...segment, position_seconds: video.currentTime });
+    };
+
+    const handleEnded = () => {
+      const segment = closeSpan(video.duration);
+      track('complete', { ...segment, position_seconds: video.duration });
+    };
+
+    video.addEventListener('play', handlePlay);
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('seeking', handleSeeking);
+    video.addEventListener('pause', handlePause);
+    video.addEventListener('ended', handleEnded);
+
+    return () => {
+      video.removeEventListener('play', handlePlay);
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('seeking', handleSeeking);
+      video.removeEventListener('pause', handlePause);
+      video.removeEventListener('ended', handleEnded);
+
+      // Leaving the page mid-playback still records the span watched so far
+      if (spanStart !== null) {
+        const segment = closeSpan(lastPosition);
+        track('pause', { ...segment, position_seconds: lastPosition });
+      }
+    };
+  }, [videoRef, videoId, userId]);
+};
@@ -0,0 +1,54 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { XAPIService } from '@/services/xapiService';
+import type { LRSConfigUpdate } from '@/types/xapi';
+
+// Query keys
+export const xapiKeys = {
+  all: ['xapi'] as const,
+  config: (organizationId: string) => [...xapiKeys.all, 'config', organizationId] as const,
+  forwarding: (organizationId: string) => [...xapiKeys.all, 'forwarding', organizationId] as const,
+};
+
+// Get an organization's LRS settings
+export function useLRSConfig(organizationId: string) {
+  return useQuery({
+    queryKey: xapiKeys.config(organizationId),
+    queryFn: () => XAPIService.getLRSConfig(organizationId),
+    enabled: !!organizationId,
+  });
+}
+
+// Statements waiting to reach the organization's own LRS
+export function useLRSForwardingStatus(organizationId: string, enabled = true) {
+  return useQuery({
+    queryKey: xapiKeys.forwarding(organizationId),
+    queryFn: () => XAPIService.getForwardingStatus(organizationId),
+    enabled: !!organizationId && enabled,
+    refetchInterval: 60 * 1000,
+  });
+}
+
+// Save LRS settings mutation
+export function useSaveLRSConfig(organizationId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (updates: LRSConfigUpdate) => XAPIService.saveLRSConfig(organizationId, updates),
+    onSuccess: (data) => {
+      queryClient.setQueryData(xapiKeys.config(organizationId), data);
+      queryClient.invalidateQueries({ queryKey: xapiKeys.forwarding(organizationId) });
+    },
+  });
+}
+
+// Rotate built-in LRS credentials mutation
+export function useRotateLRSCredentials(organizationId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => XAPIService.rotateLRSCredentials(organizationId),
+    onSuccess: (data) => {
+      queryClient.setQueryData(xapiKeys.config(organizationId), data);
+    },
+  });
+}
@@ -0,0 +1,614 @@
+/**
+ * Course packages: portable JSON bundles and SCORM 1.2 / xAPI zips
+ *
+ * A bundle is self-contained apart from reels, which are referenced by id
+ * and watch URL rather than embedded. SCORM and xAPI packages wrap the
+ * bundle in a single-page player that grades quizzes in the browser, so
+ * they carry the answer keys; only hand them to the LMS, not to learners.
+ */
+
+import { strToU8, zipSync } from 'fflate';
+import type { CourseModule, CourseQuiz } from '@/types';
+import type { ResourceContent } from '@/types/courseBuilder';
+import {
+  COURSE_BUNDLE_FORMAT,
+  COURSE_BUNDLE_FORMAT_VERSION,
+  type CourseBundle,
+  type CourseBundleCourse,
+  type CourseBundleModule,
+  type CourseImportIssue,
+  type CourseImportReport,
+  type ReelReference,
+} from '@/types/coursePackage';
+
+const MODULE_TYPES = ['reel', 'text', 'quiz'];
+const QUIZ_TYPES = ['multiple-choice', 'true-false', 'short-answer'];
+const RESOURCE_FILE_TYPES: ResourceContent['fileType'][] = ['pdf', 'doc', 'docx', 'ppt', 'pptx', 'xls', 'xlsx', 'image', 'other'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface CreateCourseBundleInput {
+  course: CourseBundleCourse;
+  modules: CourseModule[];
+  quizzes: CourseQuiz[];
+  reels: Omit<ReelReference, 'url'>[];
+  source: string; // origin used for reel watch URLs
+}
+
+const toBundleModule = (
+  module: CourseModule,
+  reels: Map<string, Omit<ReelReference, 'url'>>,
+  source: string
+): CourseBundleModule => {
+  const contentData = (module.contentData ?? {}) as Record<string, unknown>;
+  const bundleModule: CourseBundleModule = {
+    id: module.id,
+    title: module.title,
+    description: module.description,
+    type: module.type,
+    orderIndex: module.orderIndex,
+    estimatedDuration: module.estimatedDuration,
+    isRequired: module.isRequired,
+    unlockAfterPrevious: module.unlockAfterPrevious,
+    contentId: module.contentId,
+    contentData,
+  };
+
+  if (module.type === 'reel' && module.contentId) {
+    const reel = reels.get(module.contentId);
+    if (reel) {
+      bundleModule.reel = { ...reel, url: `${source}/video/${reel.id}` };
+    }
+  }
+
+  // Resources are stored as text modules whose content carries a file
+  if (module.type === 'text') {
+    if (typeof contentData.fileUrl === 'string') {
+      bundleModule.resource = {
+        title: String(contentData.title ?? module.title),
+        description: String(contentData.description ?? ''),
+        fileUrl: contentData.fileUrl,
+        fileType: RESOURCE_FILE_TYPES.includes(contentData.fileType as ResourceContent['fileType'])
+          ? (contentData.fileType as ResourceContent['fileType'])
+          : 'other',
+        fileSize: Number(contentData.fileSize ?? 0),
+        thumbnailUrl: typeof contentData.thumbnailUrl === 'string' ? contentData.thumbnailUrl : undefined,
+        estimatedDuration: Number(contentData.estimatedDuration ?? module.estimatedDuration),
+      };
+    } else {
+      const format = contentData.format;
+      bundleModule.text = {
+        title: String(contentData.title ?? module.title),
+        content: String(contentData.content ?? contentData.text ?? ''),
+        format: format === 'html' || format === 'markdown' ? format : 'plain',
+        estimatedDuration: Number(contentData.estimatedDuration ?? module.estimatedDuration),
+      };
+    }
+  }
+
+  return bundleModule;
+};
+
+/**
+ * Assemble a bundle from a course's current content
+ */
+export const createCourseBundle = ({ course, modules, quizzes, reels, source }: CreateCourseBundleInput): CourseBundle => {
+  const reelsById = new Map(reels.map(reel => [reel.id, reel]));
+
+  return {
+    format: COURSE_BUNDLE_FORMAT,
+    formatVersion: COURSE_BUNDLE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    source,
+    course,
+    modules: [...modules]
+      .sort((a, b) => a.orderIndex - b.orderIndex)
+      .map(module => toBundleModule(module, reelsById, source)),
+    quizzes: quizzes.map(quiz => ({
+      id: quiz.id,
+      moduleId: quiz.moduleId,
+      question: quiz.question,
+      type: quiz.type,
+      options: quiz.options,
+      correctAnswer: quiz.correctAnswer,
+      explanation: quiz.explanation,
+      points: quiz.points,
+      timeLimit: quiz.timeLimit,
+      orderIndex: quiz.orderIndex,
+    })),
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Check parsed JSON against the bundle format. Errors block the import;
+ * warnings describe what will be dropped or adjusted.
+ */
+export const validateCourseBundle = (data: unknown): { bundle: CourseBundle | null; report: CourseImportReport } => {
+  const errors: CourseImportIssue[] = [];
+  const warnings: CourseImportIssue[] = [];
+  const report = (): CourseImportReport => ({
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    moduleCount: isRecord(data) && Array.isArray(data.modules) ? data.modules.length : 0,
+    quizCount: isRecord(data) && Array.isArray(data.quizzes) ? data.quizzes.length : 0,
+  });
+
+  if (!isRecord(data) || data.format !== COURSE_BUNDLE_FORMAT) {
+    errors.push({ path: 'format', message: 'Not a Winbro course bundle' });
+    return { bundle: null, report: report() };
+  }
+
+  if (typeof data.formatVersion !== 'number') {
+    errors.push({ path: 'formatVersion', message: 'Missing bundle format version' });
+  } else if (data.formatVersion > COURSE_BUNDLE_FORMAT_VERSION) {
+    warnings.push({
+      path: 'formatVersion',
+      message: `Bundle format ${data.formatVersion} is newer than this app supports; unknown fields are ignored`,
+    });
+  }
+
+  const course = data.course;
+  if (!isRecord(course)) {
+    errors.push({ path: 'course', message: 'Course details are missing' });
+  } else {
+    if (!isNonEmptyString(course.title)) {
+      errors.push({ path: 'course.title', message: 'Course title is required' });
+    }
+    if (Array.isArray(course.customerScope) && course.customerScope.length > 0) {
+      warnings.push({
+        path: 'course.customerScope',
+        message: 'Customer scope is not imported; the course starts as a private draft',
+      });
+    }
+  }
+
+  const moduleIds = new Set<string>();
+  const modules = Array.isArray(data.modules) ? data.modules : null;
+  if (!modules) {
+    errors.push({ path: 'modules', message: 'Modules list is missing' });
+  }
+  modules?.forEach((module, index) => {
+    const path = `modules[${index}]`;
+    if (!isRecord(module)) {
+      errors.push({ path, message: 'Module is not an object' });
+      return;
+    }
+    if (!isNonEmptyString(module.id)) {
+      errors.push({ path: `${path}.id`, message: 'Module id is required' });
+    } else if (moduleIds.has(module.id)) {
+      errors.push({ path: `${path}.id`, message: `Duplicate module id ${module.id}` });
+    } else {
+      moduleIds.add(module.id);
+    }
+    if (!isNonEmptyString(module.title)) {
+      errors.push({ path: `${path}.title`, message: 'Module title is required' });
+    }
+    if (!MODULE_TYPES.includes(module.type as string)) {
+      errors.push({ path: `${path}.type`, message: `Unknown module type ${String(module.type)}` });
+    }
+    if (module.type === 'reel' && !module.contentId) {
+      warnings.push({ path: `${path}.contentId`, message: `Reel module "${String(module.title)}" has no reel` });
+    }
+  });
+
+  const quizIds = new Set<string>();
+  const quizzes = Array.isArray(data.quizzes) ? data.quizzes : null;
+  if (!quizzes) {
+    errors.push({ path: 'quizzes', message: 'Quizzes list is missing' });
+  }
+  quizzes?.forEach((quiz, index) => {
+    const path = `quizzes[${index}]`;
+    if (!isRecord(quiz)) {
+      errors.push({ path, message: 'Quiz question is not an object' });
+      return;
+    }
+    if (!isNonEmptyString(quiz.id)) {
+      errors.push({ path: `${path}.id`, message: 'Question id is required' });
+    } else if (quizIds.has(quiz.id) || moduleIds.has(quiz.id)) {
+      errors.push({ path: `${path}.id`, message: `Duplicate id ${quiz.id}` });
+    } else {
+      quizIds.add(quiz.id);
+    }
+    if (!isNonEmptyString(quiz.question)) {
+      errors.push({ path: `${path}.question`, message: 'Question text is required' });
+    }
+    if (!QUIZ_TYPES.includes(quiz.type as string)) {
+      errors.push({ path: `${path}.type`, message: `Unknown question type ${String(quiz.type)}` });
+    }
+    if (!isNonEmptyString(quiz.correctAnswer)) {
+      errors.push({ path: `${path}.correctAnswer`, message: 'Correct answer is required' });
+    }
+    if (quiz.options !== undefined && !(Array.isArray(quiz.options) && quiz.options.every(option => typeof option === 'string'))) {
+      errors.push({ path: `${path}.options`, message: 'Options must be a list of text' });
+    }
+    if (quiz.points !== undefined && !(Number.isInteger(quiz.points) && (quiz.points as number) > 0)) {
+      errors.push({ path: `${path}.points`, message: 'Points must be a positive whole number' });
+    }
+    if (quiz.moduleId != null && !moduleIds.has(quiz.moduleId as string)) {
+      errors.push({ path: `${path}.moduleId`, message: `Question refers to unknown module ${String(quiz.moduleId)}` });
+    }
+  });
+
+  return { bundle: errors.length === 0 ? (data as unknown as CourseBundle) : null, report: report() };
+};
+
+/**
+ * Give the course, modules and questions fresh ids so the bundle can be
+ * imported next to the original. References between them follow the new
+ * ids; reel references are left as they are.
+ */
+export const remapCourseBundle = (
+  bundle: CourseBundle,
+  newId: () => string = () => crypto.randomUUID()
+): { bundle: CourseBundle; idMap: Record<string, string> } => {
+  const idMap: Record<string, string> = { [bundle.course.id]: newId() };
+  bundle.modules.forEach(module => { idMap[module.id] = newId(); });
+  bundle.quizzes.forEach(quiz => { idMap[quiz.id] = newId(); });
+
+  const modules = [...bundle.modules]
+    .sort((a, b) => a.orderIndex - b.orderIndex)
+    .map((module, index) => ({
+      ...module,
+      id: idMap[module.id],
+      orderIndex: index,
+      contentId: module.contentId ? idMap[module.contentId] ?? module.contentId : undefined,
+    }));
+
+  return {
+    bundle: {
+      ...bundle,
+      course: { ...bundle.course, id: idMap[bundle.course.id] },
+      modules,
+      quizzes: bundle.quizzes.map(quiz => ({
+        ...quiz,
+        id: idMap[quiz.id],
+        moduleId: quiz.moduleId ? idMap[quiz.moduleId] : undefined,
+      })),
+    },
+    idMap,
+  };
+};
+
+export const isUUID = (value: string): boolean => UUID_PATTERN.test(value);
+
+/**
+ * Drop reel references the importing library cannot resolve, recording a
+ * warning for each
+ */
+export const detachMissingReels = (
+  bundle: CourseBundle,
+  availableReelIds: Set<string>,
+  report: CourseImportReport
+): CourseBundle => ({
+  ...bundle,
+  modules: bundle.modules.map((module, index) => {
+    if (module.type !== 'reel' || !module.contentId) return module;
+    if (isUUID(module.contentId) && availableReelIds.has(module.contentId)) return module;
+
+    report.warnings.push({
+      path: `modules[${index}].contentId`,
+      message: `Reel "${module.reel?.title ?? module.contentId}" is not in your library; "${module.title}" is imported without it`,
+    });
+    return { ...module, contentId: undefined };
+  }),
+});
+
+export const serializeCourseBundle = (bundle: CourseBundle): string => JSON.stringify(bundle, null, 2);
+
+const escapeXML = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const scormManifest = (bundle: CourseBundle): string => `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="winbro-course-${bundle.course.id}" version="1"
+  xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd http://www.imsglobal.org/xsd/imsmd_rootv1p2p1 imsmd_rootv1p2p1.xsd http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>
+  <organizations default="winbro-org">
+    <organization identifier="winbro-org">
+      <title>${escapeXML(bundle.course.title)}</title>
+      <item identifier="winbro-item" identifierref="winbro-sco">
+        <title>${escapeXML(bundle.course.title)}</title>
+        <adlcp:masteryscore>${bundle.course.passThreshold}</adlcp:masteryscore>
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="winbro-sco" type="webcontent" adlcp:scormtype="sco" href="index.html">
+      <file href="index.html"/>
+      <file href="course.json"/>
+    </resource>
+  </resources>
+</manifest>
+`;
+
+const xapiActivityId = (bundle: CourseBundle): string => `${bundle.source}/course/${bundle.course.id}`;
+
+const tincanManifest = (bundle: CourseBundle): string => `<?xml version="1.0" encoding="UTF-8"?>
+<tincan xmlns="http://projecttincan.com/tincan.xsd">
+  <activities>
+    <activity id="${escapeXML(xapiActivityId(bundle))}" type="http://adlnet.gov/expapi/activities/course">
+      <name>${escapeXML(bundle.course.title)}</name>
+      <description lang="en-US">${escapeXML(bundle.course.description || '')}</description>
+      <launch lang="en-US">index.html</launch>
+    </activity>
+  </activities>
+</tincan>
+`;
+
+// Runs inside the LMS. Plain ES5 so it works in older LMS frames.
+const PLAYER_SCRIPT = String.raw`
+(function () {
+  var data = JSON.parse(document.getElementById('course-data').textContent);
+  var mode = document.body.getAttribute('data-mode');
+  var modules = data.modules;
+  var visited = {};
+  var submitted = {};
+  var earned = 0;
+  var possible = 0;
+  var finished = false;
+  var current = 0;
+
+  // ---- SCORM 1.2 ----
+  function findAPI(win) {
+    var tries = 0;
+    while (win && !win.API && win.parent && win.parent !== win && tries < 10) {
+      win = win.parent;
+      tries++;
+    }
+    return (win && win.API) || null;
+  }
+  var scorm = mode === 'scorm12' ? (findAPI(window) || (window.opener && findAPI(window.opener))) : null;
+
+  // ---- xAPI ----
+  var params = {};
+  location.search.replace(/^\?/, '').split('&').forEach(function (pair) {
+    if (!pair) return;
+    var parts = pair.split('=');
+    params[decodeURIComponent(parts[0])] = decodeURIComponent((parts[1] || '').replace(/\+/g, ' '));
+  });
+  var activityId = params.activity_id || data.activityId;
+
+  function sendStatement(verb, display, result) {
+    if (mode !== 'xapi' || !params.endpoint || !params.actor) return;
+    var statement = {
+      actor: JSON.parse(params.actor),
+      verb: { id: 'http://adlnet.gov/expapi/verbs/' + verb, display: { 'en-US': display } },
+      object: {
+        id: activityId,
+        definition: { type: 'http://adlnet.gov/expapi/activities/course', name: { 'en-US': data.course.title } }
+      },
+      timestamp: new Date().toISOString()
+    };
+    if (result) statement.result = result;
+    if (params.registration) statement.context = { registration: params.registration };
+    var xhr = new XMLHttpRequest();
+    xhr.open('POST', params.endpoint.replace(/\/?$/, '/') + 'statements');
+    xhr.setRequestHeader('Content-Type', 'application/json');
+    xhr.setRequestHeader('X-Experience-API-Version', '1.0.3');
+    if (params.auth) xhr.setRequestHeader('Authorization', params.auth);
+    xhr.send(JSON.stringify(statement));
+  }
+
+  function start() {
+    if (scorm) {
+      scorm.LMSInitialize('');
+      var status = scorm.LMSGetValue('cmi.core.lesson_status');
+      if (!status || status === 'not attempted') scorm.LMSSetValue('cmi.core.lesson_status', 'incomplete');
+      scorm.LMSCommit('');
+    }
+    sendStatement('initialized', 'initialized');
+  }
+
+  function finish() {
+    if (finished) return;
+    finished = true;
+    var hasQuiz = possible > 0;
+    var score = hasQuiz ? Math.round((earned / possible) * 100) : 100;
+    var passed = score >= data.course.passThreshold;
+    if (scorm) {
+      if (hasQuiz) {
+        scorm.LMSSetValue('cmi.core.score.min', '0');
+        scorm.LMSSetValue('cmi.core.score.max', '100');
+        scorm.LMSSetValue('cmi.core.score.raw', String(score));
+      }
+      scorm.LMSSetValue('cmi.core.lesson_status', hasQuiz ? (passed ? 'passed' : 'failed') : 'completed');
+      scorm.LMSCommit('');
+    }
+    var result = { completion: true, success: passed, score: { scaled: score / 100, raw: score, min: 0, max: 100 } };
+    sendStatement('completed', 'completed', result);
+    if (hasQuiz) sendStatement(passed ? 'passed' : 'failed', passed ? 'passed' : 'failed', result);
+    document.getElementById('status').textContent = hasQuiz
+      ? 'Course complete. Score: ' + score + '% (' + (passed ? 'passed' : 'not passed') + ')'
+      : 'Course complete.';
+  }
+
+  function checkComplete() {
+    var done = modules.every(function (module) {
+      if (!module.isRequired) return true;
+      return module.type === 'quiz' ? submitted[module.id] : visited[module.id];
+    });
+    if (done) finish();
+  }
+
+  function normalize(answer) {
+    return String(answer).split(',').map(function (part) { return part.trim().toLowerCase(); }).filter(Boolean).sort().join(',');
+  }
+
+  function el(tag, text) {
+    var node = document.createElement(tag);
+    if (text !== undefined) node.textContent = text;
+    return node;
+  }
+
+  function renderQuiz(module, pane) {
+    var questions = data.quizzes.filter(function (quiz) { return quiz.moduleId === module.id; });
+    var form = el('form');
+    questions.forEach(function (quiz, index) {
+      var field = el('fieldset');
+      field.appendChild(el('legend', (index + 1) + '. ' + quiz.question));
+      if (quiz.type === 'short-answer') {
+        var input = el('input');
+        input.name = quiz.id;
+        field.appendChild(input);
+      } else {
+        var options = quiz.options && quiz.options.length ? quiz.options : ['True', 'False'];
+        options.forEach(function (option) {
+          var label = el('label');
+          var radio = el('input');
+          radio.type = 'radio';
+          radio.name = quiz.id;
+          radio.value = option;
+          label.appendChild(radio);
+          label.appendChild(document.createTextNode(' ' + option));
+          field.appendChild(label);
+        });
+      }
+      form.appendChild(field);
+    });
+    var button = el('button', submitted[module.id] ? 'Submitted' : 'Submit answers');
+    button.type = 'submit';
+    button.disabled = !!submitted[module.id];
+    form.appendChild(button);
+    form.onsubmit = function (event) {
+      event.preventDefault();
+      if (submitted[module.id]) return;
+      questions.forEach(function (quiz) {
+        var points = quiz.points || 1;
+        var chosen = form.querySelector('[name="' + quiz.id + '"]' + (quiz.type === 'short-answer' ? '' : ':checked'));
+        possible += points;
+        if (chosen && normalize(chosen.value) === normalize(quiz.correctAnswer)) earned += points;
+      });
+      submitted[module.id] = true;
+      button.disabled = true;
+      button.textContent = 'Submitted';
+      checkComplete();
+    };
+    pane.appendChild(form);
+  }
+
+  function render() {
+    var module = modules[current];
+    var pane = document.getElementById('content');
+    pane.innerHTML = '';
+    if (!module) return;
+    pane.appendChild(el('h2', module.title));
+    if (module.description) pane.appendChild(el('p', module.description));
+
+    if (module.type === 'reel') {
+      if (module.reel) {
+        if (module.reel.thumbnailUrl) {
+          var image = el('img');
+          image.src = module.reel.thumbnailUrl;
+          image.alt = module.reel.title;
+          pane.appendChild(image);
+        }
+        var watch = el('a', 'Watch "' + module.reel.title + '"');
+        watch.href = module.reel.url;
+        watch.target = '_blank';
+        watch.rel = 'noopener';
+        pane.appendChild(watch);
+      } else {
+        pane.appendChild(el('p', 'This reel is not available.'));
+      }
+    } else if (module.type === 'quiz') {
+      renderQuiz(module, pane);
+    } else if (module.resource) {
+      var link = el('a', 'Open ' + module.resource.title);
+      link.href = module.resource.fileUrl;
+      link.target = '_blank';
+      link.rel = 'noopener';
+      pane.appendChild(link);
+    } else if (module.text) {
+      var body = el('div');
+      body.className = 'text';
+      if (module.text.format === 'html') body.innerHTML = module.text.content;
+      else body.textContent = module.text.content;
+      pane.appendChild(body);
+    }
+
+    visited[module.id] = true;
+    document.getElementById('prev').disabled = current === 0;
+    document.getElementById('next').disabled = current === modules.length - 1;
+    document.getElementById('position').textContent = 'Module ' + (current + 1) + ' of ' + modules.length;
+    checkComplete();
+  }
+
+  document.getElementById('prev').onclick = function () { current = Math.max(0, current - 1); render(); };
+  document.getElementById('next').onclick = function () { current = Math.min(modules.length - 1, current + 1); render(); };
+  window.addEventListener('beforeunload', function () {
+    if (scorm) scorm.LMSFinish('');
+  });
+
+  document.getElementById('title').textContent = data.course.title;
+  start();
+  render();
+})();
+`;
+
+const playerHTML = (bundle: CourseBundle, format: 'scorm12' | 'xapi'): string => {
+  // Keep "</script>" inside course text from closing the data block
+  const data = JSON.stringify({ ...bundle, activityId: xapiActivityId(bundle) }).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXML(bundle.course.title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 48rem; padding: 1.5rem; color: #1f2937; }
+  img { max-width: 100%; display: block; margin-bottom: 0.75rem; border-radius: 0.5rem; }
+  fieldset { border: 1px solid #e5e7eb; border-radius: 0.5rem; margin-bottom: 1rem; }
+  label { display: block; margin: 0.25rem 0; }
+  nav { display: flex; align-items: center; gap: 1rem; margin-top: 1.5rem; }
+  .text { white-space: pre-wrap; line-height: 1.6; }
+  #status { margin-top: 1rem; font-weight: 600; color: #047857; }
+</style>
+</head>
+<body data-mode="${format}">
+<h1 id="title"></h1>
+<main id="content"></main>
+<nav>
+  <button id="prev" type="button">Previous</button>
+  <span id="position"></span>
+  <button id="next" type="button">Next</button>
+</nav>
+<p id="status" role="status"></p>
+<script type="application/json" id="course-data">${data}</script>
+<script>${PLAYER_SCRIPT}</script>
+</body>
+</html>
+`;
+};
+
+/**
+ * Zip a bundle as a SCORM 1.2 package (imsmanifest.xml) or an xAPI/TinCan
+ * package (tincan.xml). Both report completion and score to the LMS.
+ */
+export const buildCoursePackage = (bundle: CourseBundle, format: 'scorm12' | 'xapi'): Uint8Array => {
+  const [manifestName, manifest] = format === 'scorm12'
+    ? ['imsmanifest.xml', scormManifest(bundle)]
+    : ['tincan.xml', tincanManifest(bundle)];
+
+  return zipSync({
+    [manifestName]: strToU8(manifest),
+    'index.html': strToU8(playerHTML(bundle, format)),
+    'course.json': strToU8(serializeCourseBundle(bundle)),
+  });
+};
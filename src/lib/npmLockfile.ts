@@ -0,0 +1,192 @@
+/**
+ * npm lockfile (package-lock.json v2/v3) dependency graph
+ *
+ * The lockfile's packages map is keyed by install location, e.g.
+ * node_modules/a/node_modules/b. Each dependency is resolved the way Node
+ * resolves require(): the nearest node_modules folder walking up from the
+ * package that asks for it. The project root ("") and workspace folders
+ * are projects; the packages they depend on are direct dependencies.
+ */
+
+export interface LockfilePackage {
+  path: string; // install location; '' for the root project
+  name: string; // package name, which differs from the folder for npm: aliases
+  version: string;
+  project: boolean; // the root or a workspace
+  dev: boolean; // only installed for development
+  optional: boolean;
+  dependencies: string[]; // paths the package's dependencies resolve to
+  requiredBy: string[]; // paths of the packages that depend on this one
+}
+
+export interface DependencyGraph {
+  name: string;
+  lockfileVersion: 2 | 3;
+  packages: Map<string, LockfilePackage>;
+}
+
+export interface DependencyTrace {
+  // From a direct dependency of a project down to the package itself
+  path: LockfilePackage[];
+  // Every direct dependency that brings the package in
+  directDependencies: LockfilePackage[];
+}
+
+export class LockfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LockfileError';
+  }
+}
+
+type RawEntry = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const dependencyNames = (entry: RawEntry, ...fields: string[]): string[] =>
+  fields.flatMap(field => (isRecord(entry[field]) ? Object.keys(entry[field]) : []));
+
+// Folder a dependency lookup moves up to; null above the root
+const parentPath = (path: string): string | null => {
+  if (path === '') return null;
+  const index = path.lastIndexOf('/node_modules/');
+  return index >= 0 ? path.slice(0, index) : '';
+};
+
+const folderName = (path: string): string => {
+  const index = path.lastIndexOf('node_modules/');
+  return index >= 0 ? path.slice(index + 'node_modules/'.length) : path;
+};
+
+/**
+ * Parse a package-lock.json into its dependency graph. Throws
+ * LockfileError for anything other than a v2 or v3 lockfile.
+ */
+export const parseLockfile = (text: string): DependencyGraph => {
+  let lockfile: unknown;
+  try {
+    lockfile = JSON.parse(text);
+  } catch {
+    throw new LockfileError('The lockfile is not valid JSON');
+  }
+  if (!isRecord(lockfile)) {
+    throw new LockfileError('The lockfile is not a package-lock.json');
+  }
+
+  const { lockfileVersion } = lockfile;
+  if (lockfileVersion === 1) {
+    throw new LockfileError('lockfileVersion 1 is not supported; run npm install with npm 7 or later to upgrade it');
+  }
+  if (lockfileVersion !== 2 && lockfileVersion !== 3) {
+    throw new LockfileError('The file is not a package-lock.json (no supported lockfileVersion)');
+  }
+  if (!isRecord(lockfile.packages) || !isRecord(lockfile.packages[''])) {
+    throw new LockfileError('The lockfile has no packages section');
+  }
+
+  const entries = lockfile.packages as Record<string, RawEntry>;
+
+  // Links point at workspace folders, which have their own entry
+  const target = (path: string): string | null => {
+    const entry = entries[path];
+    if (!isRecord(entry)) return null;
+    if (entry.link === true) {
+      return typeof entry.resolved === 'string' && isRecord(entries[entry.resolved]) ? entry.resolved : null;
+    }
+    return path;
+  };
+
+  const resolve = (from: string, name: string): string | null => {
+    for (let base: string | null = from; base !== null; base = parentPath(base)) {
+      const candidate = base ? `${base}/node_modules/${name}` : `node_modules/${name}`;
+      if (candidate in entries) return target(candidate);
+    }
+    return null;
+  };
+
+  const packages = new Map<string, LockfilePackage>();
+
+  for (const [path, entry] of Object.entries(entries)) {
+    if (!isRecord(entry) || entry.link === true) continue;
+
+    const project = !path.includes('node_modules/');
+    const version = typeof entry.version === 'string' ? entry.version : '';
+    if (!project && !version) continue;
+
+    const names = dependencyNames(
+      entry,
+      'dependencies',
+      'optionalDependencies',
+      'peerDependencies',
+      // Only projects install their devDependencies
+      ...(project ? ['devDependencies'] : [])
+    );
+
+    packages.set(path, {
+      path,
+      name: typeof entry.name === 'string' ? entry.name : folderName(path),
+      version,
+      project,
+      dev: entry.dev === true || entry.devOptional === true,
+      optional: entry.optional === true,
+      // Missing optional and platform-specific packages resolve to nothing
+      dependencies: [...new Set(names.map(name => resolve(path, name)).filter((p): p is string => p !== null))],
+      requiredBy: [],
+    });
+  }
+
+  packages.forEach(pkg => {
+    pkg.dependencies.forEach(dependency => packages.get(dependency)?.requiredBy.push(pkg.path));
+  });
+
+  const root = entries[''];
+  return {
+    name: typeof root.name === 'string' ? root.name : typeof lockfile.name === 'string' ? lockfile.name : 'project',
+    lockfileVersion,
+    packages,
+  };
+};
+
+/**
+ * Shortest chain from a direct dependency down to a package, and every
+ * direct dependency that pulls it in. Both are empty for packages no
+ * project needs (extraneous installs).
+ */
+export const traceDependency = (graph: DependencyGraph, path: string): DependencyTrace => {
+  const start = graph.packages.get(path);
+  if (!start || start.project) {
+    return { path: [], directDependencies: [] };
+  }
+
+  // Walk the requiredBy edges up from the package, breadth first
+  const towardPackage = new Map<string, string>();
+  const seen = new Set([path]);
+  const queue = [path];
+  const trace: DependencyTrace = { path: [], directDependencies: [] };
+
+  while (queue.length > 0) {
+    const current = graph.packages.get(queue.shift() as string) as LockfilePackage;
+    const parents = current.requiredBy.map(parent => graph.packages.get(parent) as LockfilePackage);
+
+    if (parents.some(parent => parent.project)) {
+      trace.directDependencies.push(current);
+
+      if (trace.path.length === 0) {
+        for (let step: string | undefined = current.path; step !== undefined; step = towardPackage.get(step)) {
+          trace.path.push(graph.packages.get(step) as LockfilePackage);
+        }
+      }
+    }
+
+    parents
+      .filter(parent => !parent.project && !seen.has(parent.path))
+      .forEach(parent => {
+        seen.add(parent.path);
+        towardPackage.set(parent.path, current.path);
+        queue.push(parent.path);
+      });
+  }
+
+  return trace;
+};
@@ -0,0 +1,249 @@
+/**
+ * OSV advisories (https://ossf.github.io/osv-schema/) for npm packages
+ *
+ * Reads OSV JSON dumps, either single advisories, arrays of them or the
+ * per-ecosystem all.zip from the OSV bucket, and matches installed
+ * versions against their affected ranges.
+ */
+
+import { unzipSync, strFromU8 } from 'fflate';
+import { compareSemver, parseSemver, type SemVer } from '@/lib/semver';
+
+export interface OsvEvent {
+  introduced?: string;
+  fixed?: string;
+  last_affected?: string;
+  limit?: string;
+}
+
+export interface OsvRange {
+  type: 'SEMVER' | 'ECOSYSTEM' | 'GIT';
+  events: OsvEvent[];
+}
+
+export interface OsvAffected {
+  package?: { ecosystem: string; name: string };
+  ranges?: OsvRange[];
+  versions?: string[];
+}
+
+export interface OsvAdvisory {
+  id: string;
+  modified: string;
+  published?: string;
+  withdrawn?: string;
+  aliases?: string[];
+  summary?: string;
+  details?: string;
+  severity?: { type: string; score: string }[];
+  affected?: OsvAffected[];
+  references?: { type: string; url: string }[];
+  database_specific?: Record<string, unknown>;
+}
+
+export type AdvisorySeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface AdvisoryMatch {
+  // Lowest release that fixes the installed version; null when there is none
+  fixedVersion: string | null;
+}
+
+export class OsvError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OsvError';
+  }
+}
+
+const NPM = 'npm';
+
+const isAdvisory = (value: unknown): value is OsvAdvisory =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as OsvAdvisory).id === 'string' &&
+  typeof (value as OsvAdvisory).modified === 'string';
+
+const isZip = (data: Uint8Array): boolean =>
+  data.length > 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+
+/**
+ * npm packages an advisory affects
+ */
+export const npmPackages = (advisory: OsvAdvisory): string[] => [
+  ...new Set(
+    (advisory.affected ?? [])
+      .filter(affected => affected.package?.ecosystem === NPM)
+      .map(affected => affected.package?.name as string)
+  ),
+];
+
+/**
+ * Read the advisories that affect npm packages from an OSV dump. Throws
+ * OsvError when the file holds no OSV advisories at all.
+ */
+export const readOsvDump = (data: Uint8Array): OsvAdvisory[] => {
+  const documents: string[] = isZip(data)
+    ? Object.values(unzipSync(data, { filter: file => file.name.endsWith('.json') })).map(file => strFromU8(file))
+    : [strFromU8(data)];
+
+  const advisories = documents.flatMap(document => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(document);
+    } catch {
+      throw new OsvError('The advisory file is not valid JSON');
+    }
+    return (Array.isArray(parsed) ? parsed : [parsed]).filter(isAdvisory);
+  });
+
+  if (advisories.length === 0) {
+    throw new OsvError('The file contains no OSV advisories');
+  }
+  return advisories.filter(advisory => npmPackages(advisory).length > 0);
+};
+
+const eventVersion = (event: OsvEvent): string | undefined =>
+  event.introduced ?? event.fixed ?? event.last_affected ?? event.limit;
+
+/**
+ * Evaluate one range as the OSV schema describes: walk the events in
+ * version order, entering the affected state at introduced and leaving it
+ * at fixed or after last_affected. Ranges with versions that are not
+ * semver cannot be evaluated and never match.
+ */
+const rangeAffects = (range: OsvRange, version: SemVer): boolean => {
+  const events: { event: OsvEvent; version: SemVer | null }[] = [];
+  for (const event of range.events ?? []) {
+    const raw = eventVersion(event);
+    if (raw === undefined) continue;
+    // introduced: "0" means every version
+    const parsed = event.introduced === '0' ? null : parseSemver(raw);
+    if (parsed === null && event.introduced !== '0') return false;
+    events.push({ event, version: parsed });
+  }
+
+  events.sort((a, b) => {
+    if (a.version === null || b.version === null) return a.version === b.version ? 0 : a.version === null ? -1 : 1;
+    return compareSemver(a.version, b.version);
+  });
+
+  let affected = false;
+  for (const { event, version: at } of events) {
+    if (event.introduced !== undefined && (at === null || compareSemver(version, at) >= 0)) {
+      affected = true;
+    } else if (event.fixed !== undefined && at && compareSemver(version, at) >= 0) {
+      affected = false;
+    } else if (event.last_affected !== undefined && at && compareSemver(version, at) > 0) {
+      affected = false;
+    }
+  }
+  return affected;
+};
+
+/**
+ * Whether an advisory affects one installed npm package, and the release
+ * that fixes it. Withdrawn advisories never match.
+ */
+export const matchAdvisory = (advisory: OsvAdvisory, name: string, installed: string): AdvisoryMatch | null => {
+  const version = parseSemver(installed);
+  if (!version || advisory.withdrawn) return null;
+
+  let affected = false;
+  const fixes: SemVer[] = [];
+
+  for (const entry of advisory.affected ?? []) {
+    if (entry.package?.ecosystem !== NPM || entry.package.name !== name) continue;
+
+    const listed = (entry.versions ?? []).map(parseSemver);
+    if (listed.some(other => other !== null && compareSemver(other, version) === 0)) {
+      affected = true;
+    }
+
+    for (const range of entry.ranges ?? []) {
+      if (range.type === 'GIT' || !rangeAffects(range, version)) continue;
+      affected = true;
+      range.events
+        .map(event => (event.fixed ? parseSemver(event.fixed) : null))
+        .filter((fix): fix is SemVer => fix !== null && compareSemver(fix, version) > 0)
+        .forEach(fix => fixes.push(fix));
+    }
+  }
+
+  if (!affected) return null;
+  fixes.sort(compareSemver);
+  return { fixedVersion: fixes[0]?.raw ?? null };
+};
+
+// CVSS v3.x base metric weights (FIRST CVSS v3.1 specification, section 7.4)
+const CVSS_WEIGHTS: Record<string, Record<string, number>> = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+  AC: { L: 0.77, H: 0.44 },
+  UI: { N: 0.85, R: 0.62 },
+  C: { H: 0.56, L: 0.22, N: 0 },
+  I: { H: 0.56, L: 0.22, N: 0 },
+  A: { H: 0.56, L: 0.22, N: 0 },
+};
+
+const roundUp = (value: number): number => {
+  const scaled = Math.round(value * 100000);
+  return scaled % 10000 === 0 ? scaled / 100000 : (Math.floor(scaled / 10000) + 1) / 10;
+};
+
+/**
+ * CVSS v3.x base score of a vector such as
+ * CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H; null when it is not one
+ */
+export const cvssBaseScore = (vector: string): number | null => {
+  if (!/^CVSS:3\.[01]\//.test(vector)) return null;
+  const metrics = Object.fromEntries(vector.split('/').slice(1).map(metric => metric.split(':')));
+
+  const changed = metrics.S === 'C';
+  const privileges = { N: 0.85, L: changed ? 0.68 : 0.62, H: changed ? 0.5 : 0.27 }[metrics.PR as 'N' | 'L' | 'H'];
+  const [av, ac, ui, c, i, a] = ['AV', 'AC', 'UI', 'C', 'I', 'A'].map(key => CVSS_WEIGHTS[key][metrics[key]]);
+  if ([privileges, av, ac, ui, c, i, a].some(weight => weight === undefined) || !['U', 'C'].includes(metrics.S)) {
+    return null;
+  }
+
+  const iss = 1 - (1 - c) * (1 - i) * (1 - a);
+  const impact = changed ? 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15) : 6.42 * iss;
+  if (impact <= 0) return 0;
+
+  const exploitability = 8.22 * av * ac * privileges * ui;
+  return roundUp(Math.min((changed ? 1.08 : 1) * (impact + exploitability), 10));
+};
+
+const GHSA_SEVERITIES: Record<string, AdvisorySeverity> = {
+  LOW: 'low',
+  MODERATE: 'medium',
+  MEDIUM: 'medium',
+  HIGH: 'high',
+  CRITICAL: 'critical',
+};
+
+const scoreSeverity = (score: number): AdvisorySeverity =>
+  score >= 9 ? 'critical' : score >= 7 ? 'high' : score >= 4 ? 'medium' : 'low';
+
+/**
+ * Severity of an advisory: the database's own rating when it gives one
+ * (GitHub advisories do), otherwise from the CVSS v3 score. Malicious
+ * package reports (MAL-) are critical. Unrated advisories are medium.
+ */
+export const advisorySeverity = (advisory: OsvAdvisory): { severity: AdvisorySeverity; cvssScore: number | null } => {
+  const vector = advisory.severity?.find(entry => entry.type === 'CVSS_V3')?.score;
+  const cvssScore = vector ? cvssBaseScore(vector) : null;
+  const rated = advisory.database_specific?.severity;
+
+  if (typeof rated === 'string' && GHSA_SEVERITIES[rated.toUpperCase()]) {
+    return { severity: GHSA_SEVERITIES[rated.toUpperCase()], cvssScore };
+  }
+  if (advisory.id.startsWith('MAL-')) {
+    return { severity: 'critical', cvssScore };
+  }
+  return { severity: cvssScore !== null ? scoreSeverity(cvssScore) : 'medium', cvssScore };
+};
+
+/**
+ * CVE identifier of an advisory, from its id or its aliases
+ */
+export const advisoryCve = (advisory: OsvAdvisory): string | undefined =>
+  [advisory.id, ...(advisory.aliases ?? [])].find(id => id.startsWith('CVE-'));
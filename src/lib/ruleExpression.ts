@@ -0,0 +1,569 @@
+/**
+ * Security rule conditions
+ *
+ * A small expression language for SecurityRule.condition, parsed and
+ * evaluated here without eval or Function. Conditions only read the context
+ * they are given and can only call the methods and functions listed below.
+ *
+ *   literals     12  24h  30m  7d  500MB  "text"  'text'  true  false  null
+ *                [1, 2, 3]  /regex/i
+ *   operators    ! && || == != === !== < <= > >= + - * / %  in  not in
+ *   members      password.length  user.role  request.ip
+ *   methods      s.matches(/re/)  s.includes(x)  s.startsWith(x)  s.endsWith(x)
+ *                s.toLowerCase()  s.toUpperCase()  list.includes(x)
+ *   functions    ipInRange(ip, "10.0.0.0/8" | ["10.0.0.0/8", ...])
+ *
+ * Duration literals are milliseconds and size literals are bytes, so
+ * `session.lastActivity < now - 24h` and `file.size > 500MB` work on
+ * epoch-millisecond and byte values. `==` and `===` are both strict.
+ * Missing properties read as null, and comparing null with anything
+ * ordered (<, >, ...) is false.
+ */
+
+export type RuleValue = string | number | boolean | null | RegExp | RuleValue[] | { [key: string]: RuleValue | undefined };
+
+export interface CompiledCondition {
+  source: string;
+  /** Top-level context names the condition reads, e.g. ['password', 'user'] */
+  roots: string[];
+  evaluate(context: Record<string, unknown>): boolean;
+}
+
+/**
+ * Thrown when a condition cannot be parsed; `position` is the offset of the
+ * offending character
+ */
+export class RuleSyntaxError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = 'RuleSyntaxError';
+    this.position = position;
+  }
+}
+
+/**
+ * Thrown when a parsed condition cannot be evaluated against a context
+ */
+export class RuleEvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuleEvaluationError';
+  }
+}
+
+const MAX_SOURCE_LENGTH = 2000;
+const MAX_DEPTH = 64;
+
+const UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  B: 1,
+  KB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+  TB: 1024 ** 4,
+};
+
+// =====================================================
+// TOKENIZER
+// =====================================================
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'regex'; value: RegExp; pos: number }
+  | { type: 'ident'; value: string; pos: number }
+  | { type: 'op'; value: string; pos: number }
+  | { type: 'eof'; pos: number };
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '+', '-', '*', '/', '%', '(', ')', '[', ']', ',', '.'];
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', '"': '"', "'": "'", '/': '/' };
+
+// A value just ended, so `/` divides rather than starting a regex
+const endsOperand = (token: Token | undefined): boolean =>
+  !!token && (
+    token.type === 'number' || token.type === 'string' || token.type === 'regex' ||
+    (token.type === 'ident' && !['in', 'not'].includes(token.value)) ||
+    (token.type === 'op' && (token.value === ')' || token.value === ']'))
+  );
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = /^(\d+(?:\.\d+)?|\.\d+)(ms|KB|MB|GB|TB|B|s|m|h|d|w)?(?![\w$])/.exec(source.slice(i));
+      if (!match) throw new RuleSyntaxError('Invalid number', start);
+      tokens.push({ type: 'number', value: Number(match[1]) * (match[2] ? UNITS[match[2]] : 1), pos: start });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\') {
+          const escaped = ESCAPES[source[i + 1]];
+          if (escaped === undefined) throw new RuleSyntaxError('Invalid escape in string', i);
+          value += escaped;
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) throw new RuleSyntaxError('Unterminated string', start);
+      i++;
+      tokens.push({ type: 'string', value, pos: start });
+      continue;
+    }
+
+    if (ch === '/' && !endsOperand(tokens[tokens.length - 1])) {
+      let body = '';
+      let inClass = false;
+      i++;
+      while (i < source.length && (source[i] !== '/' || inClass)) {
+        if (source[i] === '\\') {
+          body += source.slice(i, i + 2);
+          i += 2;
+          continue;
+        }
+        if (source[i] === '[') inClass = true;
+        if (source[i] === ']') inClass = false;
+        body += source[i++];
+      }
+      if (i >= source.length) throw new RuleSyntaxError('Unterminated regular expression', start);
+      i++;
+      const flags = /^[imsu]*/.exec(source.slice(i))![0];
+      i += flags.length;
+      try {
+        tokens.push({ type: 'regex', value: new RegExp(body, flags), pos: start });
+      } catch {
+        throw new RuleSyntaxError('Invalid regular expression', start);
+      }
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const name = /^[A-Za-z_$][\w$]*/.exec(source.slice(i))![0];
+      tokens.push({ type: 'ident', value: name, pos: start });
+      i += name.length;
+      continue;
+    }
+
+    const op = OPERATORS.find(candidate => source.startsWith(candidate, i));
+    if (!op) throw new RuleSyntaxError(`Unexpected character "${ch}"`, start);
+    tokens.push({ type: 'op', value: op, pos: start });
+    i += op.length;
+  }
+
+  tokens.push({ type: 'eof', pos: source.length });
+  return tokens;
+};
+
+// =====================================================
+// PARSER
+// =====================================================
+
+type Node =
+  | { kind: 'literal'; value: RuleValue }
+  | { kind: 'name'; name: string }
+  | { kind: 'array'; items: Node[] }
+  | { kind: 'member'; object: Node; property: string }
+  | { kind: 'method'; object: Node; method: string; args: Node[] }
+  | { kind: 'call'; fn: string; args: Node[] }
+  | { kind: 'unary'; op: '!' | '-'; operand: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node };
+
+const METHODS = ['matches', 'includes', 'startsWith', 'endsWith', 'toLowerCase', 'toUpperCase'];
+const FUNCTIONS = ['ipInRange'];
+const KEYWORDS: Record<string, RuleValue> = { true: true, false: false, null: null };
+
+// Binding power of each binary operator; higher binds tighter
+const PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3, '===': 3, '!==': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4, in: 4, 'not in': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+};
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+  readonly roots = new Set<string>();
+  private readonly tokens: Token[];
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): Node {
+    const node = this.expression(0);
+    const next = this.peek();
+    if (next.type !== 'eof') throw new RuleSyntaxError('Unexpected input', next.pos);
+    return node;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'op' && token.value === value;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.type !== 'op' || token.value !== value) {
+      throw new RuleSyntaxError(`Expected "${value}"`, token.pos);
+    }
+  }
+
+  // Binary operator at the cursor, with `not in` read as one operator
+  private binaryOperator(): string | null {
+    const token = this.peek();
+    if (token.type === 'op' && PRECEDENCE[token.value]) return token.value;
+    if (token.type === 'ident' && token.value === 'in') return 'in';
+    if (token.type === 'ident' && token.value === 'not') {
+      const following = this.peek(1);
+      if (following.type === 'ident' && following.value === 'in') return 'not in';
+    }
+    return null;
+  }
+
+  private expression(minPrecedence: number): Node {
+    if (++this.depth > MAX_DEPTH) throw new RuleSyntaxError('Condition is nested too deeply', this.peek().pos);
+
+    let left = this.unary();
+    for (let op = this.binaryOperator(); op && PRECEDENCE[op] > minPrecedence; op = this.binaryOperator()) {
+      this.index += op === 'not in' ? 2 : 1;
+      const right = this.expression(PRECEDENCE[op]);
+      left = { kind: 'binary', op, left, right };
+    }
+
+    this.depth--;
+    return left;
+  }
+
+  private unary(): Node {
+    if (this.isOp('!') || this.isOp('-')) {
+      const op = (this.next() as { value: '!' | '-' }).value;
+      if (++this.depth > MAX_DEPTH) throw new RuleSyntaxError('Condition is nested too deeply', this.peek().pos);
+      const operand = this.unary();
+      this.depth--;
+      return { kind: 'unary', op, operand };
+    }
+    return this.postfix(this.primary());
+  }
+
+  private arguments(): Node[] {
+    const args: Node[] = [];
+    this.expect('(');
+    if (!this.isOp(')')) {
+      do {
+        args.push(this.expression(0));
+      } while (this.isOp(',') && this.next());
+    }
+    this.expect(')');
+    return args;
+  }
+
+  private postfix(node: Node): Node {
+    while (this.isOp('.')) {
+      this.next();
+      const property = this.next();
+      if (property.type !== 'ident') throw new RuleSyntaxError('Expected a property name', property.pos);
+
+      if (this.isOp('(')) {
+        if (!METHODS.includes(property.value)) {
+          throw new RuleSyntaxError(`Unknown method "${property.value}"`, property.pos);
+        }
+        node = { kind: 'method', object: node, method: property.value, args: this.arguments() };
+      } else {
+        node = { kind: 'member', object: node, property: property.value };
+      }
+    }
+    return node;
+  }
+
+  private primary(): Node {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+      case 'regex':
+        return { kind: 'literal', value: token.value };
+      case 'ident':
+        if (token.value in KEYWORDS) return { kind: 'literal', value: KEYWORDS[token.value] };
+        if (this.isOp('(')) {
+          if (!FUNCTIONS.includes(token.value)) throw new RuleSyntaxError(`Unknown function "${token.value}"`, token.pos);
+          return { kind: 'call', fn: token.value, args: this.arguments() };
+        }
+        if (token.value === 'in' || token.value === 'not') throw new RuleSyntaxError(`Unexpected "${token.value}"`, token.pos);
+        this.roots.add(token.value);
+        return { kind: 'name', name: token.value };
+      case 'op':
+        if (token.value === '(') {
+          const inner = this.expression(0);
+          this.expect(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          const items: Node[] = [];
+          if (!this.isOp(']')) {
+            do {
+              items.push(this.expression(0));
+            } while (this.isOp(',') && this.next());
+          }
+          this.expect(']');
+          return { kind: 'array', items };
+        }
+        throw new RuleSyntaxError(`Unexpected "${token.value}"`, token.pos);
+      default:
+        throw new RuleSyntaxError('Unexpected end of condition', token.pos);
+    }
+  }
+}
+
+// =====================================================
+// EVALUATOR
+// =====================================================
+
+const describe = (value: RuleValue): string => {
+  if (value === null) return 'null';
+  if (value instanceof RegExp) return 'a regular expression';
+  if (Array.isArray(value)) return 'a list';
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+};
+
+const isRecord = (value: RuleValue): value is { [key: string]: RuleValue | undefined } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof RegExp);
+
+// Context values are plain data; anything else (functions, dates, class
+// instances) is turned into data or rejected so rules cannot reach it
+const toRuleValue = (value: unknown): RuleValue => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string' || typeof value === 'boolean') return value;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (value instanceof Date) return value.getTime();
+  if (Array.isArray(value)) return value.map(toRuleValue);
+  if (typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return value as { [key: string]: RuleValue };
+  }
+  throw new RuleEvaluationError(`Context value of type ${typeof value} cannot be used in a rule`);
+};
+
+const equals = (left: RuleValue, right: RuleValue): boolean => {
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, i) => equals(item, right[i]));
+  }
+  return left === right;
+};
+
+const truthy = (value: RuleValue, operator: string): boolean => {
+  if (value === null) return false;
+  if (typeof value !== 'boolean') throw new RuleEvaluationError(`"${operator}" needs true or false, got ${describe(value)}`);
+  return value;
+};
+
+const compare = (op: string, left: RuleValue, right: RuleValue): boolean => {
+  if (left === null || right === null) return false;
+  if (typeof left !== typeof right || (typeof left !== 'number' && typeof left !== 'string')) {
+    throw new RuleEvaluationError(`Cannot compare ${describe(left)} with ${describe(right)} using "${op}"`);
+  }
+  switch (op) {
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    default: return left >= right;
+  }
+};
+
+const arithmetic = (op: string, left: RuleValue, right: RuleValue): RuleValue => {
+  if (op === '+' && typeof left === 'string' && typeof right === 'string') return left + right;
+  if (left === null || right === null) return null;
+  if (typeof left !== 'number' || typeof right !== 'number') {
+    throw new RuleEvaluationError(`Cannot use "${op}" on ${describe(left)} and ${describe(right)}`);
+  }
+  switch (op) {
+    case '+': return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    case '/': return right === 0 ? null : left / right;
+    default: return right === 0 ? null : left % right;
+  }
+};
+
+const parseIPv4 = (ip: string): number | null => {
+  const parts = ip.trim().split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return parts.reduce((acc, part) => acc * 256 + Number(part), 0);
+};
+
+// IPv4 CIDR match; IPv6 addresses only match an identical entry
+const ipInRange = (ip: RuleValue, ranges: RuleValue): boolean => {
+  if (ip === null) return false;
+  if (typeof ip !== 'string') throw new RuleEvaluationError(`ipInRange needs an IP address, got ${describe(ip)}`);
+
+  const list = Array.isArray(ranges) ? ranges : [ranges];
+  return list.some(range => {
+    if (typeof range !== 'string') throw new RuleEvaluationError(`ipInRange needs CIDR ranges, got ${describe(range)}`);
+
+    const [network, bitsText] = range.split('/');
+    const address = parseIPv4(ip);
+    const base = parseIPv4(network);
+    if (address === null || base === null) return ip.trim().toLowerCase() === network.trim().toLowerCase();
+
+    const bits = bitsText === undefined ? 32 : Number(bitsText);
+    if (!Number.isInteger(bits) || bits < 0 || bits > 32) throw new RuleEvaluationError(`Invalid CIDR range "${range}"`);
+    const size = 2 ** (32 - bits);
+    return Math.floor(address / size) === Math.floor(base / size);
+  });
+};
+
+const callMethod = (method: string, target: RuleValue, args: RuleValue[]): RuleValue => {
+  if (target === null) return null;
+
+  if (method === 'includes' && Array.isArray(target)) {
+    return target.some(item => equals(item, args[0] ?? null));
+  }
+  if (typeof target !== 'string') {
+    throw new RuleEvaluationError(`${method}() needs a string, got ${describe(target)}`);
+  }
+
+  switch (method) {
+    case 'toLowerCase':
+      return target.toLowerCase();
+    case 'toUpperCase':
+      return target.toUpperCase();
+    case 'matches': {
+      const pattern = args[0];
+      if (pattern instanceof RegExp) return new RegExp(pattern.source, pattern.flags).test(target);
+      if (typeof pattern === 'string') return target === pattern;
+      throw new RuleEvaluationError(`matches() needs a regular expression, got ${describe(pattern ?? null)}`);
+    }
+    default: {
+      const needle = args[0];
+      if (typeof needle !== 'string') throw new RuleEvaluationError(`${method}() needs a string, got ${describe(needle ?? null)}`);
+      if (method === 'includes') return target.includes(needle);
+      return method === 'startsWith' ? target.startsWith(needle) : target.endsWith(needle);
+    }
+  }
+};
+
+const evaluateNode = (node: Node, context: Record<string, unknown>): RuleValue => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'name':
+      return Object.prototype.hasOwnProperty.call(context, node.name) ? toRuleValue(context[node.name]) : null;
+    case 'array':
+      return node.items.map(item => evaluateNode(item, context));
+    case 'member': {
+      const object = evaluateNode(node.object, context);
+      if (object === null) return null;
+      if (node.property === 'length' && (typeof object === 'string' || Array.isArray(object))) return object.length;
+      if (!isRecord(object)) {
+        throw new RuleEvaluationError(`Cannot read "${node.property}" of ${describe(object)}`);
+      }
+      // Own properties only, so nothing on Object.prototype is reachable
+      return Object.prototype.hasOwnProperty.call(object, node.property) ? toRuleValue(object[node.property]) : null;
+    }
+    case 'method':
+      return callMethod(node.method, evaluateNode(node.object, context), node.args.map(arg => evaluateNode(arg, context)));
+    case 'call': {
+      const [ip, ranges] = node.args.map(arg => evaluateNode(arg, context));
+      return ipInRange(ip ?? null, ranges ?? null);
+    }
+    case 'unary': {
+      const operand = evaluateNode(node.operand, context);
+      if (node.op === '!') return !truthy(operand, '!');
+      if (operand === null) return null;
+      if (typeof operand !== 'number') throw new RuleEvaluationError(`Cannot negate ${describe(operand)}`);
+      return -operand;
+    }
+    case 'binary': {
+      // && and || short-circuit like JavaScript
+      if (node.op === '&&') return truthy(evaluateNode(node.left, context), '&&') && truthy(evaluateNode(node.right, context), '&&');
+      if (node.op === '||') return truthy(evaluateNode(node.left, context), '||') || truthy(evaluateNode(node.right, context), '||');
+
+      const left = evaluateNode(node.left, context);
+      const right = evaluateNode(node.right, context);
+
+      switch (node.op) {
+        case '==':
+        case '===':
+          return equals(left, right);
+        case '!=':
+        case '!==':
+          return !equals(left, right);
+        case 'in':
+        case 'not in': {
+          if (!Array.isArray(right)) throw new RuleEvaluationError(`"${node.op}" needs a list on the right, got ${describe(right)}`);
+          const found = right.some(item => equals(left, item));
+          return node.op === 'in' ? found : !found;
+        }
+        case '<':
+        case '<=':
+        case '>':
+        case '>=':
+          return compare(node.op, left, right);
+        default:
+          return arithmetic(node.op, left, right);
+      }
+    }
+  }
+};
+
+/**
+ * Parse a condition once; the result can be evaluated against many
+ * contexts. Throws RuleSyntaxError for invalid conditions.
+ */
+export function compileCondition(source: string): CompiledCondition {
+  if (source.length > MAX_SOURCE_LENGTH) {
+    throw new RuleSyntaxError(`Condition is longer than ${MAX_SOURCE_LENGTH} characters`, MAX_SOURCE_LENGTH);
+  }
+  if (!source.trim()) {
+    throw new RuleSyntaxError('Condition is empty', 0);
+  }
+
+  const parser = new Parser(tokenize(source));
+  const ast = parser.parse();
+
+  return {
+    source,
+    roots: [...parser.roots],
+    evaluate(context) {
+      const result = evaluateNode(ast, context);
+      if (typeof result !== 'boolean') {
+        throw new RuleEvaluationError(`Condition must be true or false, got ${describe(result)}`);
+      }
+      return result;
+    },
+  };
+}
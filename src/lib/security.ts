@@ -138,21 +138,64 @@ export const hashData = async (data: string): Promise<string> => {
   return btoa(data).replace(/[^a-zA-Z0-9]/g, '').substring(0, 64);
 };
 
+const getSubtleCrypto = (): SubtleCrypto => {
+  if (typeof globalThis.crypto === 'undefined' || !globalThis.crypto.subtle) {
+    // No fallback: a non-cryptographic MAC can be forged
+    throw new Error('Web Crypto API is not available');
+  }
+  return globalThis.crypto.subtle;
+};
+
+const toBytes = (value: string | Uint8Array): Uint8Array<ArrayBuffer> =>
+  typeof value === 'string' ? new TextEncoder().encode(value) : new Uint8Array(value);
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
 /**
- * Create HMAC for data integrity (simplified for browser)
+ * HMAC-SHA256 of data, as raw bytes
  */
-export const createHMAC = (data: string, key: string): string => {
-  // Simple HMAC implementation for browser
-  const combined = key + data;
-  return btoa(combined).replace(/[^a-zA-Z0-9]/g, '').substring(0, 64);
+export const hmacSHA256 = async (data: string | Uint8Array, key: string | Uint8Array): Promise<Uint8Array> => {
+  const subtle = getSubtleCrypto();
+  const cryptoKey = await subtle.importKey(
+    'raw',
+    toBytes(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  return new Uint8Array(await subtle.sign('HMAC', cryptoKey, toBytes(data)));
+};
+
+/**
+ * Create HMAC-SHA256 for data integrity (hex)
+ */
+export const createHMAC = async (data: string, key: string | Uint8Array): Promise<string> => {
+  return toHex(await hmacSHA256(data, key));
+};
+
+/**
+ * Compare two strings in time that depends only on their length
+ */
+export const timingSafeEqual = (a: string, b: string): boolean => {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  let diff = left.length ^ right.length;
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+
+  return diff === 0;
 };
 
 /**
  * Verify HMAC
  */
-export const verifyHMAC = (data: string, key: string, signature: string): boolean => {
-  const expectedSignature = createHMAC(data, key);
-  return expectedSignature === signature;
+export const verifyHMAC = async (data: string, key: string | Uint8Array, signature: string): Promise<boolean> => {
+  const expectedSignature = await createHMAC(data, key);
+  return timingSafeEqual(expectedSignature, signature.toLowerCase());
 };
 
 /**
@@ -0,0 +1,70 @@
+/**
+ * Semantic Versioning 2.0.0 parsing and precedence
+ *
+ * Only what the dependency scanner needs: exact versions as npm records
+ * them in lockfiles and as advisory databases list them in ranges. Range
+ * syntax (^1.2.0, ~1.2, >=1 <2) is not supported.
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: (string | number)[];
+  build: string[];
+  raw: string;
+}
+
+const SEMVER_PATTERN =
+  /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+/**
+ * Parse a version such as 1.2.3, 1.2.3-beta.1 or 1.2.3+build.5. Returns
+ * null for anything that is not a full semver version.
+ */
+export const parseSemver = (value: string): SemVer | null => {
+  const match = SEMVER_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  const [, major, minor, patch, prerelease, build] = match;
+  return {
+    major: Number(major),
+    minor: Number(minor),
+    patch: Number(patch),
+    prerelease: prerelease
+      ? prerelease.split('.').map(identifier => (/^\d+$/.test(identifier) ? Number(identifier) : identifier))
+      : [],
+    build: build ? build.split('.') : [],
+    raw: value.trim(),
+  };
+};
+
+// Numeric identifiers sort before alphanumeric ones (spec item 11.4.3)
+const compareIdentifiers = (a: string | number, b: string | number): number => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'number') return -1;
+  if (typeof b === 'number') return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+/**
+ * Compare two parsed versions by semver precedence: negative when a < b,
+ * 0 when equal, positive when a > b. Build metadata is ignored.
+ */
+export const compareSemver = (a: SemVer, b: SemVer): number => {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core !== 0) return Math.sign(core);
+
+  // A pre-release sorts before its release: 1.0.0-rc.1 < 1.0.0
+  if (a.prerelease.length === 0 && b.prerelease.length === 0) return 0;
+  if (a.prerelease.length === 0) return 1;
+  if (b.prerelease.length === 0) return -1;
+
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    if (a.prerelease[i] === undefined) return -1;
+    if (b.prerelease[i] === undefined) return 1;
+    const result = compareIdentifiers(a.prerelease[i], b.prerelease[i]);
+    if (result !== 0) return Math.sign(result);
+  }
+  return 0;
+};
@@ -0,0 +1,172 @@
+/**
+ * Build xAPI statements from learning analytics events
+ */
+
+import type { LearningAnalyticsInsert, LearningEventType } from '@/types/learning-analytics';
+import type { XAPIActivity, XAPIResult, XAPIStatement, XAPIVerb } from '@/types/xapi';
+
+export const XAPI_VERSION = '1.0.3';
+
+const PLATFORM = 'Winbro Training Reels';
+const EXTENSION_BASE = 'https://winbro.app/xapi/extensions';
+
+const verb = (id: string, display: string): XAPIVerb => ({ id, display: { 'en-US': display } });
+
+const ADL = 'http://adlnet.gov/expapi/verbs';
+const TINCAN = 'http://id.tincanapi.com/verb';
+const VIDEO = 'https://w3id.org/xapi/video/verbs';
+
+// One verb per event type; the Record keeps this in step with LearningEventType
+export const XAPI_VERBS: Record<LearningEventType, XAPIVerb> = {
+  quiz_started: verb(`${ADL}/attempted`, 'attempted'),
+  quiz_completed: verb(`${ADL}/completed`, 'completed'),
+  quiz_abandoned: verb('https://w3id.org/xapi/adl/verbs/abandoned', 'abandoned'),
+  module_started: verb(`${ADL}/attempted`, 'attempted'),
+  module_completed: verb(`${ADL}/completed`, 'completed'),
+  module_abandoned: verb('https://w3id.org/xapi/adl/verbs/abandoned', 'abandoned'),
+  course_started: verb(`${ADL}/attempted`, 'attempted'),
+  course_completed: verb(`${ADL}/completed`, 'completed'),
+  course_abandoned: verb('https://w3id.org/xapi/adl/verbs/abandoned', 'abandoned'),
+  certificate_earned: verb(`${TINCAN}/earned`, 'earned'),
+  certificate_downloaded: verb(`${TINCAN}/downloaded`, 'downloaded'),
+  video_played: verb(`${VIDEO}/played`, 'played'),
+  video_paused: verb(`${VIDEO}/paused`, 'paused'),
+  video_completed: verb(`${ADL}/completed`, 'completed'),
+  search_performed: verb('https://w3id.org/xapi/acrossx/verbs/searched', 'searched'),
+  bookmark_created: verb(`${TINCAN}/bookmarked`, 'bookmarked'),
+  note_added: verb(`${ADL}/commented`, 'commented'),
+};
+
+const ACTIVITY_TYPES = {
+  course: 'http://adlnet.gov/expapi/activities/course',
+  module: 'http://adlnet.gov/expapi/activities/module',
+  assessment: 'http://adlnet.gov/expapi/activities/assessment',
+  video: 'https://w3id.org/xapi/video/activity-type/video',
+  certificate: 'https://www.opigno.org/en/tincan_registry/activity_type/certificate',
+  search: 'http://id.tincanapi.com/activitytype/search',
+};
+
+const activity = (id: string, type: string, name?: unknown): XAPIActivity => ({
+  objectType: 'Activity',
+  id,
+  definition: {
+    type,
+    ...(typeof name === 'string' && name && { name: { 'en-US': name } }),
+  },
+});
+
+const stringField = (data: Record<string, unknown>, key: string): string | undefined => {
+  const value = data[key];
+  return typeof value === 'string' && value ? value : undefined;
+};
+
+// What the event is about: the quiz, module, reel or course it happened in
+const eventObject = (event: LearningAnalyticsInsert, homePage: string): XAPIActivity => {
+  const data = event.event_data ?? {};
+  const courseUrl = `${homePage}/course/${event.course_id}`;
+
+  switch (event.event_type) {
+    case 'quiz_started':
+    case 'quiz_completed':
+    case 'quiz_abandoned':
+      return activity(`${courseUrl}/quiz/${event.quiz_id ?? 'unknown'}`, ACTIVITY_TYPES.assessment, data.quiz_title);
+    case 'module_started':
+    case 'module_completed':
+    case 'module_abandoned':
+      return activity(`${courseUrl}/module/${event.module_id ?? 'unknown'}`, ACTIVITY_TYPES.module, data.module_title);
+    case 'video_played':
+    case 'video_paused':
+    case 'video_completed':
+    case 'bookmark_created':
+    case 'note_added': {
+      const videoId = stringField(data, 'video_id');
+      return videoId
+        ? activity(`${homePage}/video/${videoId}`, ACTIVITY_TYPES.video, data.video_title)
+        : activity(`${courseUrl}/module/${event.module_id ?? 'unknown'}`, ACTIVITY_TYPES.module, data.module_title);
+    }
+    case 'certificate_earned':
+    case 'certificate_downloaded':
+      return activity(`${courseUrl}/certificate`, ACTIVITY_TYPES.certificate, data.course_title);
+    case 'search_performed':
+      return activity(`${homePage}/search`, ACTIVITY_TYPES.search);
+    default:
+      return activity(courseUrl, ACTIVITY_TYPES.course, data.course_title);
+  }
+};
+
+const eventResult = (event: LearningAnalyticsInsert): XAPIResult | undefined => {
+  const data = event.event_data ?? {};
+  const result: XAPIResult = {};
+
+  if (typeof event.score === 'number') {
+    // Scores are percentages throughout the app
+    result.score = {
+      scaled: Math.max(0, Math.min(1, event.score / 100)),
+      raw: event.score,
+      min: 0,
+      max: 100,
+    };
+  }
+  if (typeof data.passed === 'boolean') {
+    result.success = data.passed;
+  }
+  if (event.event_type.endsWith('_completed')) {
+    result.completion = true;
+  }
+  if (event.duration) {
+    result.duration = `PT${Math.round(event.duration)}S`;
+  }
+
+  const extensions: Record<string, unknown> = {};
+  if (typeof event.progress_percentage === 'number') {
+    extensions[`${EXTENSION_BASE}/progress`] = event.progress_percentage;
+  }
+  if (event.event_type === 'search_performed' && stringField(data, 'query')) {
+    extensions[`${EXTENSION_BASE}/query`] = data.query;
+  }
+  if (Object.keys(extensions).length > 0) {
+    result.extensions = extensions;
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+/**
+ * Turn a learning analytics event into an xAPI statement. The actor is the
+ * learner's account on this deployment rather than their email address; the
+ * LRS replaces it with the authenticated user in any case.
+ */
+export function toXAPIStatement(
+  event: LearningAnalyticsInsert,
+  homePage: string,
+  options: { id?: string; timestamp?: string } = {}
+): XAPIStatement {
+  const object = eventObject(event, homePage);
+  const courseActivity = activity(`${homePage}/course/${event.course_id}`, ACTIVITY_TYPES.course);
+
+  const extensions: Record<string, unknown> = {};
+  if (event.session_id) extensions[`${EXTENSION_BASE}/session-id`] = event.session_id;
+  if (event.device_type) extensions[`${EXTENSION_BASE}/device-type`] = event.device_type;
+
+  const result = eventResult(event);
+
+  return {
+    id: options.id ?? crypto.randomUUID(),
+    actor: {
+      objectType: 'Agent',
+      account: { homePage, name: event.user_id },
+    },
+    verb: XAPI_VERBS[event.event_type],
+    object,
+    ...(result && { result }),
+    context: {
+      platform: PLATFORM,
+      ...(event.course_id && object.id !== courseActivity.id && {
+        contextActivities: { parent: [courseActivity] },
+      }),
+      ...(Object.keys(extensions).length > 0 && { extensions }),
+    },
+    timestamp: options.timestamp ?? new Date().toISOString(),
+    version: XAPI_VERSION,
+  };
+}
@@ -37,6 +37,9 @@ import { useAdminDashboardStats, useAdminDataRefresh } from '@/hooks/useAdmin';
 import { AnalyticsDashboard } from '@/components/admin/AdminAnalyticsCharts';
 import { AdminNotifications } from '@/components/admin/AdminNotifications';
 import { AdminErrorWrapper } from '@/components/admin/AdminErrorBoundary';
+import { LRSSettings } from '@/components/admin/LRSSettings';
+import { NetworkAccessSettings } from '@/components/admin/NetworkAccessSettings';
+import { DataSubjectRequests } from '@/components/admin/DataSubjectRequests';
 import { toast } from 'sonner';
 
 // =====================================================
@@ -1095,12 +1098,13 @@ export default function AdminDashboard() {
 
         {/* Main Dashboard Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-6">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="users">Users</TabsTrigger>
             <TabsTrigger value="content">Content</TabsTrigger>
             <TabsTrigger value="subscriptions">Subscriptions</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
+            <TabsTrigger value="privacy">Privacy</TabsTrigger>
             <TabsTrigger value="settings">Settings</TabsTrigger>
           </TabsList>
 
@@ -1194,9 +1198,16 @@ export default function AdminDashboard() {
             <AnalyticsDashboard loading={isLoading} onRefresh={handleRefresh} />
           </TabsContent>
 
+          {/* Privacy Tab */}
+          <TabsContent value="privacy" className="space-y-6">
+            <DataSubjectRequests />
+          </TabsContent>
+
           {/* Settings Tab */}
           <TabsContent value="settings" className="space-y-6">
             <SystemSettingsSection loading={isLoading} />
+            <LRSSettings />
+            <NetworkAccessSettings />
           </TabsContent>
         </Tabs>
 
@@ -0,0 +1,24 @@
+import { Link, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import { CertificateVerification } from '@/components/certificates/CertificateVerification';
+
+// Public page linked from the QR code printed on certificates
+export default function CertificateVerifyPage() {
+  const { code } = useParams<{ code: string }>();
+
+  return (
+    <div className="min-h-screen bg-main-bg py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <Button asChild variant="ghost" size="sm">
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Winbro Training Reels
+          </Link>
+        </Button>
+
+        <CertificateVerification verificationCode={code ?? ''} />
+      </div>
+    </div>
+  );
+}
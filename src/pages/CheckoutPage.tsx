@@ -1,6 +1,15 @@
+import { useSearchParams } from 'react-router-dom';
+import { AlertCircle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 
+const PLAN_LIMIT_RESOURCES = ['users', 'machines', 'storage', 'videos', 'courses'];
+
 export default function CheckoutPage() {
+  // Set when arriving from a plan limit prompt
+  const [searchParams] = useSearchParams();
+  const limit = searchParams.get('limit');
+
   return (
     <div className="min-h-screen bg-main-bg">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -8,6 +17,14 @@ export default function CheckoutPage() {
           <h1 className="text-3xl font-bold text-primary-text mb-2">Checkout</h1>
           <p className="text-secondary-text">Purchase subscriptions, seats, and add-ons</p>
         </div>
+
+        {limit && PLAN_LIMIT_RESOURCES.includes(limit) && (
+          <Alert className="mb-6">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Your organization has reached its {limit} limit</AlertTitle>
+            <AlertDescription>Choose a plan with a higher limit to keep adding {limit}.</AlertDescription>
+          </Alert>
+        )}
         
         <Card className="card">
           <CardHeader>
@@ -40,6 +40,7 @@ export default function ContentLibrary() {
   const [isMobile, setIsMobile] = useState(false);
   const [selectedItems, setSelectedItems] = useState<string[]>([]);
   const [showBulkActions, setShowBulkActions] = useState(false);
+  const [infiniteScroll, setInfiniteScroll] = useState(false);
   const [activeTab, setActiveTab] = useState<'all' | 'reels' | 'courses' | 'bookmarks'>('all');
 
   const {
@@ -48,8 +49,9 @@ export default function ContentLibrary() {
     setQuery,
     setFilters,
     setSort,
-    setPage,
     resetFilters,
+    loadMore,
+    hasMore,
     trackClick
   } = useSearch();
 
@@ -96,9 +98,8 @@ export default function ContentLibrary() {
 
   // Handle page change
   const handlePageChange = useCallback((page: number) => {
-    setPage(page);
-    handleSearch();
-  }, [setPage, handleSearch]);
+    search({ page });
+  }, [search]);
 
   // Handle view mode change
   const handleViewModeChange = useCallback((mode: 'grid' | 'list') => {
@@ -374,6 +375,10 @@ export default function ContentLibrary() {
                 onSortChange={handleSortChange}
                 pagination={searchState.pagination}
                 onPageChange={handlePageChange}
+                infiniteScroll={infiniteScroll}
+                onInfiniteScrollChange={setInfiniteScroll}
+                onLoadMore={loadMore}
+                hasMore={hasMore}
                 onResultClick={handleResultClick}
                 selectedItems={selectedItems}
                 onItemSelect={handleItemSelect}
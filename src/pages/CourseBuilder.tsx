@@ -12,7 +12,8 @@ import {
   HelpCircle,
   CheckCircle,
   Clock,
-  ChevronRight
+  ChevronRight,
+  Download
 } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
@@ -27,7 +28,16 @@ import { Separator } from '@/components/ui/separator';
 import { Switch } from '@/components/ui/switch';
 import { Slider } from '@/components/ui/slider';
 
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import CourseImportDialog from '@/components/course-builder/CourseImportDialog';
+import VersionHistory from '@/components/course-builder/VersionHistory';
 import { CourseManagementService } from '@/services/courseManagementService';
+import { CoursePackageService } from '@/services/coursePackageService';
 import type { 
   Course, 
   CourseModule, 
@@ -38,8 +48,10 @@ import type {
   CourseMetadataForm,
   PublishSettings,
   CoursePreview,
-  CourseBuilderValidationError
+  CourseBuilderValidationError,
+  EnrollmentMigrationPolicy
 } from '@/types/courseBuilder';
+import type { CoursePackageFormat } from '@/types/coursePackage';
 
 // Step configuration
 const COURSE_BUILDER_STEPS: CourseBuilderStep[] = [
@@ -66,6 +78,21 @@ const STEP_DESCRIPTIONS = {
   publish: 'Configure publishing settings and make your course live'
 };
 
+const MIGRATION_POLICIES: Record<EnrollmentMigrationPolicy, { label: string; description: string }> = {
+  keep: {
+    label: 'Keep learners on their version',
+    description: 'Learners already in progress finish the version they started. New enrollments get this version.',
+  },
+  migrate: {
+    label: 'Move learners, keep progress',
+    description: 'Learners move to this version. Completed modules that still exist are kept; new modules are added to their remaining work.',
+  },
+  restart: {
+    label: 'Move learners and restart',
+    description: 'Learners move to this version and their progress is reset.',
+  },
+};
+
 export default function CourseBuilder() {
   const navigate = useNavigate();
   const { courseId } = useParams<{ courseId?: string }>();
@@ -112,6 +139,7 @@ export default function CourseBuilder() {
     passThreshold: 80,
     notifyUsers: false,
     notificationMessage: '',
+    migrationPolicy: 'keep',
   });
 
   // Load course data on mount
@@ -170,6 +198,7 @@ export default function CourseBuilder() {
           passThreshold: courseData.passThreshold || 80,
           notifyUsers: false,
           notificationMessage: '',
+          migrationPolicy: 'keep',
         });
       }
     } catch (error) {
@@ -250,6 +279,23 @@ export default function CourseBuilder() {
     }
   };
 
+  const handleExport = async (format: CoursePackageFormat) => {
+    if (!courseId) return;
+
+    try {
+      const { filename, blob } = await CoursePackageService.exportCourse(courseId, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting course:', error);
+      toast.error('Failed to export course');
+    }
+  };
+
   const generatePreview = async () => {
     if (!courseId) return;
     
@@ -349,6 +395,26 @@ export default function CourseBuilder() {
                 {isSaving ? 'Saving...' : 'Save'}
               </Button>
 
+              {courseId ? (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm">
+                      <Download className="h-4 w-4 mr-2" />
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => handleExport('json')}>Course bundle (JSON)</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExport('scorm12')}>SCORM 1.2 package</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExport('xapi')}>xAPI package</DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              ) : (
+                <CourseImportDialog
+                  onImported={(importedId) => navigate(`/course-builder/${importedId}`)}
+                />
+              )}
+
               <Button
                 variant="outline"
                 size="sm"
@@ -435,6 +501,12 @@ export default function CourseBuilder() {
                 ))}
               </CardContent>
             </Card>
+
+            {courseId && (
+              <div className="mt-6">
+                <VersionHistory courseId={courseId} onRestored={loadCourse} />
+              </div>
+            )}
           </div>
 
           {/* Main Content Area */}
@@ -831,7 +903,7 @@ function CoursePreviewStep({ onNext }: any) {
   );
 }
 
-function CoursePublishStep({ onPublish, isPublishing }: any) {
+function CoursePublishStep({ settings, onSettingsChange, onPublish, isPublishing }: any) {
   return (
     <Card>
       <CardHeader>
@@ -848,6 +920,37 @@ function CoursePublishStep({ onPublish, isPublishing }: any) {
           <Send className="h-12 w-12 text-gray-400 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">Publish Settings</h3>
           <p className="text-gray-600 mb-4">Configure how your course will be published</p>
+          <div className="max-w-md mx-auto text-left mb-4">
+            <Label htmlFor="migrationPolicy">Learners in Progress</Label>
+            <Select
+              value={settings.migrationPolicy}
+              onValueChange={(value: EnrollmentMigrationPolicy) => onSettingsChange({ ...settings, migrationPolicy: value })}
+            >
+              <SelectTrigger id="migrationPolicy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(MIGRATION_POLICIES) as EnrollmentMigrationPolicy[]).map((policy) => (
+                  <SelectItem key={policy} value={policy}>
+                    {MIGRATION_POLICIES[policy].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-gray-500 mt-1">
+              {MIGRATION_POLICIES[settings.migrationPolicy as EnrollmentMigrationPolicy]?.description}
+            </p>
+          </div>
+          <div className="max-w-md mx-auto text-left mb-6">
+            <Label htmlFor="versionNotes">Version Notes</Label>
+            <Textarea
+              id="versionNotes"
+              value={settings.versionNotes || ''}
+              onChange={(e) => onSettingsChange({ ...settings, versionNotes: e.target.value })}
+              placeholder="What changed in this version?"
+              rows={3}
+            />
+          </div>
           <Button 
             onClick={onPublish} 
             disabled={isPublishing}
@@ -31,7 +31,7 @@ import {
 import { motion } from 'motion/react';
 import MainLayout from '@/components/layout/MainLayout';
 import { QuizCard } from '@/components/quiz/QuizCard';
-import { useCourse } from '@/hooks/useCourses';
+import { useCourse, useEnrollmentCourseVersion, useMyEnrollment } from '@/hooks/useCourses';
 import { useCourseQuizzes } from '@/hooks/useQuiz';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
@@ -51,18 +51,22 @@ export default function CoursePlayer() {
 
   const { data: course, isLoading: courseLoading, error: courseError } = useCourse(courseId || '');
   const { data: quizzes, isLoading: quizzesLoading } = useCourseQuizzes(courseId || '');
+  const { data: enrollment } = useMyEnrollment(courseId || '', user?.id || '');
+  const { data: pinnedVersion, isLoading: versionLoading } = useEnrollmentCourseVersion(enrollment?.id || '');
 
-  const currentModule = course?.modules?.[currentModuleIndex];
-  const progress = course?.modules ? ((currentModuleIndex + 1) / course.modules.length) * 100 : 0;
-  const totalDuration = course?.modules?.reduce((acc, module) => acc + (module.estimatedDuration || 0), 0) || 0;
+  // Learners stay on the course version they enrolled in, even after a republish
+  const modules = pinnedVersion?.modules ?? course?.modules;
+  const currentModule = modules?.[currentModuleIndex];
+  const progress = modules ? ((currentModuleIndex + 1) / modules.length) * 100 : 0;
+  const totalDuration = modules?.reduce((acc, module) => acc + (module.estimatedDuration || 0), 0) || 0;
 
   useEffect(() => {
-    if (course?.modules) {
+    if (modules) {
       // Reset completion state when course changes
       setIsModuleCompleted(false);
       setVideoProgress(0);
     }
-  }, [course]);
+  }, [modules]);
 
   useEffect(() => {
     // Check if user is enrolled
@@ -79,14 +83,14 @@ export default function CoursePlayer() {
       setIsModuleCompleted(true);
       
       // Update enrollment progress
-      // const newProgress = Math.round(((completedModules.size + 1) / (course?.modules?.length || 1)) * 100);
+      // const newProgress = Math.round(((completedModules.size + 1) / (modules?.length || 1)) * 100);
       
       // This would typically call the API to update progress
       toast.success('Module completed!');
       
       // Auto-advance to next module after a short delay
       setTimeout(() => {
-        if (currentModuleIndex < (course?.modules?.length || 0) - 1) {
+        if (currentModuleIndex < (modules?.length || 0) - 1) {
           handleNextModule();
         }
       }, 1500);
@@ -114,7 +118,7 @@ export default function CoursePlayer() {
 
 
   const handleNextModule = () => {
-    if (currentModuleIndex < (course?.modules?.length || 0) - 1) {
+    if (currentModuleIndex < (modules?.length || 0) - 1) {
       setCurrentModuleIndex(prev => prev + 1);
       setIsModuleCompleted(false);
     } else {
@@ -141,10 +145,10 @@ export default function CoursePlayer() {
 
   const isModuleUnlocked = (index: number) => {
     if (index === 0) return true;
-    return completedModules.has(course?.modules?.[index - 1]?.id || '');
+    return completedModules.has(modules?.[index - 1]?.id || '');
   };
 
-  if (courseLoading) {
+  if (courseLoading || versionLoading) {
     return (
       <MainLayout>
         <div className="flex items-center justify-center min-h-96">
@@ -247,7 +251,7 @@ export default function CoursePlayer() {
                     <span className="text-sm font-medium text-secondary-text">Modules</span>
                   </div>
                   <p className="text-lg font-semibold text-primary-text">
-                    {course.modules?.length || 0}
+                    {modules?.length || 0}
                   </p>
                 </CardContent>
               </Card>
@@ -285,7 +289,7 @@ export default function CoursePlayer() {
                   </div>
                   <Progress value={progress} className="h-3" />
                   <div className="flex items-center justify-between text-xs text-secondary-text">
-                    <span>Module {currentModuleIndex + 1} of {course.modules?.length || 0}</span>
+                    <span>Module {currentModuleIndex + 1} of {modules?.length || 0}</span>
                     <span>{completedModules.size} completed</span>
                   </div>
                 </div>
@@ -314,7 +318,7 @@ export default function CoursePlayer() {
                   </div>
                 </CardHeader>
                 <CardContent className="space-y-2 max-h-96 overflow-y-auto">
-                  {course.modules?.map((module, index) => {
+                  {modules?.map((module, index) => {
                     const isCompleted = completedModules.has(module.id);
                     const isCurrent = index === currentModuleIndex;
                     const isUnlocked = isModuleUnlocked(index);
@@ -672,7 +676,7 @@ export default function CoursePlayer() {
                           <div className="text-center">
                             <div className="text-sm text-secondary-text">Progress</div>
                             <div className="text-lg font-semibold text-primary-text">
-                              {currentModuleIndex + 1} / {course.modules?.length || 0}
+                              {currentModuleIndex + 1} / {modules?.length || 0}
                             </div>
                           </div>
                           <div className="w-32">
@@ -682,11 +686,11 @@ export default function CoursePlayer() {
 
                         <Button
                           onClick={handleNextModule}
-                          disabled={currentModuleIndex === (course.modules?.length || 0) - 1}
+                          disabled={currentModuleIndex === (modules?.length || 0) - 1}
                           className="btn-primary"
                           size="lg"
                         >
-                          {currentModuleIndex === (course.modules?.length || 0) - 1 ? (
+                          {currentModuleIndex === (modules?.length || 0) - 1 ? (
                             <>
                               <Trophy className="h-5 w-5 mr-2" />
                               Complete Course
@@ -1,8 +1,7 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useMemo, useRef } from 'react';
 import { motion } from 'motion/react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Progress } from '@/components/ui/progress';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
@@ -13,11 +12,12 @@ import { cn } from '@/lib/utils';
 import CaptureGuidance from '@/components/video-upload/CaptureGuidance';
 import AutoTaggingSuggestions from '@/components/video-upload/AutoTaggingSuggestions';
 import VideoPreview from '@/components/video-upload/VideoPreview';
+import VideoUploadWidget from '@/components/video-upload/VideoUploadWidget';
+import type { CreateVideoInput } from '@/types/video';
 
 export default function UploadReel() {
   const [uploadStep, setUploadStep] = useState<'upload' | 'guidance' | 'metadata' | 'preview' | 'processing' | 'complete'>('upload');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [uploadProgress, setUploadProgress] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [isDragOver, setIsDragOver] = useState(false);
@@ -157,33 +157,38 @@ export default function UploadReel() {
     setMetadata(prev => ({ ...prev, tags }));
   };
 
+  // Metadata in the shape the upload API expects
+  const uploadMetadata = useMemo<Omit<CreateVideoInput, 'file'>>(() => ({
+    title: metadata.title,
+    description: metadata.description,
+    machine_model: metadata.machineModel,
+    process_type: metadata.processType,
+    tooling: metadata.tooling,
+    skill_level: metadata.skillLevel,
+    tags: metadata.tags,
+    visibility: metadata.visibility,
+    customer_scope: metadata.customerScope,
+    auto_transcribe: processingOptions.autoTranscribe,
+  }), [metadata, processingOptions.autoTranscribe]);
+
   // Handle upload
-  const handleUpload = async () => {
+  const handleUpload = () => {
     if (!selectedFile) return;
 
     setIsUploading(true);
-    setUploadProgress(0);
     setUploadStep('processing');
-
-    // Simulate upload progress
-    const progressInterval = setInterval(() => {
-      setUploadProgress(prev => {
-        if (prev >= 100) {
-          clearInterval(progressInterval);
-          setIsUploading(false);
-          setUploadStep('complete');
-          return 100;
-        }
-        return prev + 10;
-      });
-    }, 200);
   };
 
+  // Handle upload complete
+  const handleUploadComplete = useCallback(() => {
+    setIsUploading(false);
+    setUploadStep('complete');
+  }, []);
+
   // Handle reset
   const handleReset = () => {
     setUploadStep('upload');
     setSelectedFile(null);
-    setUploadProgress(0);
     setIsUploading(false);
     setUploadError(null);
     setMetadata({
@@ -568,53 +573,17 @@ export default function UploadReel() {
         )}
 
         {/* Processing Step */}
-        {uploadStep === 'processing' && (
+        {uploadStep === 'processing' && selectedFile && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.3 }}
           >
-            <Card className="card">
-              <CardHeader>
-                <CardTitle>Processing Video</CardTitle>
-                <CardDescription>
-                  Your video is being processed. This may take a few minutes.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-12">
-                  <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-accent-blue mx-auto mb-4"></div>
-                  <h3 className="text-lg font-semibold text-primary-text mb-2">Processing in Progress</h3>
-                  <p className="text-secondary-text mb-4">
-                    We're transcoding your video, generating thumbnails, and creating a transcript.
-                  </p>
-                  
-                  <div className="mb-6">
-                    <Progress value={uploadProgress} className="mb-2" />
-                    <p className="text-sm text-gray-600">{uploadProgress}% complete</p>
-                  </div>
-
-                  <div className="space-y-2">
-                    <div className="flex items-center justify-center space-x-2">
-                      <CheckCircle className="h-4 w-4 text-green-500" />
-                      <span className="text-sm text-gray-600">Video uploaded</span>
-                    </div>
-                    <div className="flex items-center justify-center space-x-2">
-                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-accent-blue"></div>
-                      <span className="text-sm text-gray-600">Transcoding video</span>
-                    </div>
-                    <div className="flex items-center justify-center space-x-2">
-                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-accent-blue"></div>
-                      <span className="text-sm text-gray-600">Generating thumbnails</span>
-                    </div>
-                    <div className="flex items-center justify-center space-x-2">
-                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-accent-blue"></div>
-                      <span className="text-sm text-gray-600">Creating transcript</span>
-                    </div>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            <VideoUploadWidget
+              metadata={uploadMetadata}
+              initialFile={selectedFile}
+              onUploadComplete={handleUploadComplete}
+            />
           </motion.div>
         )}
 
@@ -14,6 +14,12 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 // import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Skeleton } from '@/components/ui/skeleton';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { 
   Users, 
   Search, 
@@ -26,9 +32,10 @@ import {
   AlertCircle,
   RefreshCw,
   Eye,
-  UserPlus
+  UserPlus,
+  KeyRound
 } from 'lucide-react';
-import { useUsers, useUserRoles, useBulkUpdateUsers } from '@/hooks/useUserManagement';
+import { useUsers, useUserRoles, useBulkUpdateUsers, useResetUserTwoFactor } from '@/hooks/useUserManagement';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 
@@ -73,9 +80,10 @@ interface UserCardProps {
   onSelect: (userId: string, selected: boolean) => void;
   onEdit: (user: User) => void;
   onView: (user: User) => void;
+  onResetTwoFactor: (user: User) => void;
 }
 
-function UserCard({ user, isSelected, onSelect, onEdit, onView }: UserCardProps) {
+function UserCard({ user, isSelected, onSelect, onEdit, onView, onResetTwoFactor }: UserCardProps) {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'active':
@@ -181,13 +189,23 @@ function UserCard({ user, isSelected, onSelect, onEdit, onView }: UserCardProps)
               >
                 <Edit className="h-4 w-4" />
               </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                className="opacity-0 group-hover:opacity-100 transition-opacity"
-              >
-                <MoreHorizontal className="h-4 w-4" />
-              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="opacity-0 group-hover:opacity-100 transition-opacity"
+                  >
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => onResetTwoFactor(user)} className="text-red-600">
+                    <KeyRound className="h-4 w-4 mr-2" />
+                    Reset 2FA
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           </div>
         </CardContent>
@@ -290,6 +308,7 @@ export default function UserManagement() {
   // const updateUserRoleMutation = useUpdateUserRole();
   // const updateUserStatusMutation = useUpdateUserStatus();
   const bulkUpdateUsersMutation = useBulkUpdateUsers();
+  const resetTwoFactorMutation = useResetUserTwoFactor();
 
   const users = usersData || [];
   const roles = rolesData || [];
@@ -361,6 +380,19 @@ export default function UserManagement() {
     setViewingUser(user);
   };
 
+  const handleResetTwoFactor = async (user: User) => {
+    if (!window.confirm(`Reset two-factor authentication for ${user.full_name}? Their authenticator and backup codes stop working, and they will have to set up 2FA again.`)) {
+      return;
+    }
+
+    try {
+      await resetTwoFactorMutation.mutateAsync(user.user_id);
+      toast.success(`Two-factor authentication reset for ${user.full_name}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reset two-factor authentication');
+    }
+  };
+
   const handleRefresh = () => {
     // Refresh data
     window.location.reload();
@@ -563,6 +595,7 @@ export default function UserManagement() {
                   onSelect={handleSelectUser}
                   onEdit={handleEditUser}
                   onView={handleViewUser}
+                  onResetTwoFactor={handleResetTwoFactor}
                 />
               ))}
             </>
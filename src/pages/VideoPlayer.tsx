@@ -1,11 +1,12 @@
 import { useState, useRef, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import { useParams, Link } from 'react-router-dom';
 import { motion, AnimatePresence } from 'motion/react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Slider } from '@/components/ui/slider';
+import { Skeleton } from '@/components/ui/skeleton';
 import { 
   Play, 
   Pause, 
@@ -21,12 +22,16 @@ import {
   Calendar,
   Bookmark,
   Share,
-  Download
+  Download,
+  AlertCircle,
+  RefreshCw
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useVideo, useVideoTranscripts, useVideoPlaybackTracking } from '@/hooks/useVideos';
+import { useCurrentUser } from '@/hooks/useAuth';
 
 export default function VideoPlayer() {
-  const { id } = useParams();
+  const { id = '' } = useParams();
   const videoRef = useRef<HTMLVideoElement>(null);
   const [playerState, setPlayerState] = useState({
     isPlaying: false,
@@ -44,31 +49,11 @@ export default function VideoPlayer() {
   const [showControls, setShowControls] = useState(true);
   const [showSettings, setShowSettings] = useState(false);
 
-  // Mock data
-  const reel = {
-    id: id,
-    title: "CNC Mill Setup - Tool Change",
-    duration: 28, // in seconds
-    description: "Step-by-step guide for safely changing tools on the CNC mill, including proper setup and safety checks.",
-    author: "John Smith",
-    published: "2 days ago",
-    views: 1247,
-    tags: ["CNC", "Setup", "Tool Change"],
-    video_url: 'https://sample-videos.com/zip/10/mp4/SampleVideo_1280x720_1mb.mp4',
-    thumbnail_url: 'https://via.placeholder.com/1280x720/2563EB/FFFFFF?text=Video+Thumbnail',
-    skill_level: 'intermediate',
-    machine_model: 'CNC Mill 2000',
-    process_type: 'Tool Change',
-    tooling: 'Carbide Inserts',
-    transcript: [
-      { id: '1', start_time: 0, end_time: 5, text: "Welcome to this CNC mill tool change procedure." },
-      { id: '2', start_time: 5, end_time: 10, text: "First, ensure the machine is in a safe position." },
-      { id: '3', start_time: 10, end_time: 15, text: "Press the emergency stop button to secure the machine." },
-      { id: '4', start_time: 15, end_time: 20, text: "Remove the current tool using the tool release mechanism." },
-      { id: '5', start_time: 20, end_time: 25, text: "Insert the new tool and secure it properly." },
-      { id: '6', start_time: 25, end_time: 28, text: "Test the tool before resuming operations." }
-    ]
-  };
+  const { data: reel, isLoading, isError, error, refetch } = useVideo(id);
+  const { data: transcript = [], isLoading: isTranscriptLoading } = useVideoTranscripts(id);
+  const { data: currentUser } = useCurrentUser();
+
+  useVideoPlaybackTracking(videoRef, reel?.video_url ? reel.id : undefined, currentUser?.id);
 
   // Format time helper
   const formatTime = (seconds: number): string => {
@@ -138,11 +123,15 @@ export default function VideoPlayer() {
     handleSeek(timestamp);
   };
 
-  // Video event handlers
+  // Video event handlers (the element mounts once the reel has loaded)
   useEffect(() => {
     const video = videoRef.current;
     if (!video) return;
 
+    if (video.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      setPlayerState(prev => ({ ...prev, duration: video.duration }));
+    }
+
     const handleLoadedMetadata = () => {
       setPlayerState(prev => ({
         ...prev,
@@ -186,7 +175,7 @@ export default function VideoPlayer() {
       video.removeEventListener('pause', handlePause);
       video.removeEventListener('volumechange', handleVolumeChange);
     };
-  }, []);
+  }, [reel?.id, reel?.video_url]);
 
   // Auto-hide controls
   useEffect(() => {
@@ -205,6 +194,65 @@ export default function VideoPlayer() {
     return () => clearTimeout(timeout);
   }, [playerState.isPlaying]);
 
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-main-bg">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-2 space-y-6">
+              <Skeleton className="w-full h-96 lg:h-[500px] rounded-lg" />
+              <Card>
+                <CardContent className="p-6 space-y-4">
+                  <Skeleton className="h-8 w-2/3" />
+                  <Skeleton className="h-4 w-1/2" />
+                  <Skeleton className="h-16 w-full" />
+                </CardContent>
+              </Card>
+            </div>
+            <div className="space-y-6">
+              <Card className="card">
+                <CardContent className="p-6 space-y-3">
+                  {Array.from({ length: 5 }).map((_, index) => (
+                    <Skeleton key={index} className="h-12 w-full" />
+                  ))}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (isError || !reel) {
+    return (
+      <div className="min-h-screen bg-main-bg">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+          <Card className="card">
+            <CardContent className="p-8 text-center">
+              <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+              <h1 className="text-xl font-semibold text-primary-text mb-2">
+                This reel could not be loaded
+              </h1>
+              <p className="text-secondary-text mb-6">
+                {error instanceof Error ? error.message : 'It may have been removed, or you may not have access to it.'}
+              </p>
+              <div className="flex justify-center gap-2">
+                <Button variant="outline" onClick={() => refetch()}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Try again
+                </Button>
+                <Button asChild>
+                  <Link to="/library">Back to library</Link>
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-main-bg">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -213,197 +261,205 @@ export default function VideoPlayer() {
           <div className="lg:col-span-2">
             <Card className="overflow-hidden">
               <CardContent className="p-0">
-                <div className="relative bg-black rounded-lg overflow-hidden">
-                  {/* Video Element */}
-                  <video
-                    ref={videoRef}
-                    className="w-full h-96 lg:h-[500px]"
-                    poster={reel.thumbnail_url}
-                    preload="metadata"
-                    onClick={togglePlay}
-                  >
-                    <source src={reel.video_url} type="video/mp4" />
-                    Your browser does not support the video tag.
-                  </video>
-
-                  {/* Controls Overlay */}
-                  <AnimatePresence>
-                    {showControls && (
-                      <motion.div
-                        initial={{ opacity: 0 }}
-                        animate={{ opacity: 1 }}
-                        exit={{ opacity: 0 }}
-                        className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent"
-                      >
-                        {/* Top Controls */}
-                        <div className="absolute top-4 left-4 right-4 flex justify-between items-center">
-                          <div className="flex items-center gap-2">
-                            <Badge variant="secondary" className="bg-white/20 text-white">
-                              {formatTime(playerState.duration)}
-                            </Badge>
-                            {reel.skill_level && (
-                              <Badge variant="outline" className="bg-white/20 text-white border-white/30">
-                                {reel.skill_level}
+                {!reel.video_url ? (
+                  <div className="flex flex-col items-center justify-center bg-black text-white rounded-lg w-full h-96 lg:h-[500px]">
+                    <Clock className="h-10 w-10 mb-3 opacity-80" />
+                    <p className="font-medium">This reel is still being processed</p>
+                    <p className="text-sm text-white/70">Playback will be available once processing completes</p>
+                  </div>
+                ) : (
+                  <div className="relative bg-black rounded-lg overflow-hidden">
+                    {/* Video Element */}
+                    <video
+                      ref={videoRef}
+                      className="w-full h-96 lg:h-[500px]"
+                      poster={reel.thumbnail_url ?? undefined}
+                      preload="metadata"
+                      onClick={togglePlay}
+                    >
+                      <source src={reel.video_url} />
+                      Your browser does not support the video tag.
+                    </video>
+
+                    {/* Controls Overlay */}
+                    <AnimatePresence>
+                      {showControls && (
+                        <motion.div
+                          initial={{ opacity: 0 }}
+                          animate={{ opacity: 1 }}
+                          exit={{ opacity: 0 }}
+                          className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent"
+                        >
+                          {/* Top Controls */}
+                          <div className="absolute top-4 left-4 right-4 flex justify-between items-center">
+                            <div className="flex items-center gap-2">
+                              <Badge variant="secondary" className="bg-white/20 text-white">
+                                {formatTime(playerState.duration)}
                               </Badge>
-                            )}
-                          </div>
-                          <div className="flex items-center gap-2">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => setPlayerState(prev => ({ ...prev, transcriptVisible: !prev.transcriptVisible }))}
-                              className="text-white hover:bg-white/20"
-                            >
-                              <BookOpen className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => setShowSettings(!showSettings)}
-                              className="text-white hover:bg-white/20"
-                            >
-                              <Settings className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        </div>
-
-                        {/* Bottom Controls */}
-                        <div className="absolute bottom-4 left-4 right-4 space-y-2">
-                          {/* Progress Bar */}
-                          <div className="relative">
-                            <Progress
-                              value={(playerState.currentTime / playerState.duration) * 100}
-                              className="h-1 bg-white/20"
-                            />
-                            <input
-                              type="range"
-                              min="0"
-                              max={playerState.duration}
-                              value={playerState.currentTime}
-                              onChange={(e) => handleSeek(Number(e.target.value))}
-                              className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                            />
-                          </div>
-
-                          {/* Control Buttons */}
-                          <div className="flex items-center justify-between">
+                              {reel.skill_level && (
+                                <Badge variant="outline" className="bg-white/20 text-white border-white/30">
+                                  {reel.skill_level}
+                                </Badge>
+                              )}
+                            </div>
                             <div className="flex items-center gap-2">
                               <Button
                                 variant="ghost"
                                 size="sm"
-                                onClick={togglePlay}
+                                onClick={() => setPlayerState(prev => ({ ...prev, transcriptVisible: !prev.transcriptVisible }))}
                                 className="text-white hover:bg-white/20"
                               >
-                                {playerState.isPlaying ? (
-                                  <Pause className="h-5 w-5" />
-                                ) : (
-                                  <Play className="h-5 w-5" />
-                                )}
+                                <BookOpen className="h-4 w-4" />
                               </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setShowSettings(!showSettings)}
+                                className="text-white hover:bg-white/20"
+                              >
+                                <Settings className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
 
+                          {/* Bottom Controls */}
+                          <div className="absolute bottom-4 left-4 right-4 space-y-2">
+                            {/* Progress Bar */}
+                            <div className="relative">
+                              <Progress
+                                value={(playerState.currentTime / playerState.duration) * 100}
+                                className="h-1 bg-white/20"
+                              />
+                              <input
+                                type="range"
+                                min="0"
+                                max={playerState.duration}
+                                value={playerState.currentTime}
+                                onChange={(e) => handleSeek(Number(e.target.value))}
+                                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                              />
+                            </div>
+
+                            {/* Control Buttons */}
+                            <div className="flex items-center justify-between">
                               <div className="flex items-center gap-2">
                                 <Button
                                   variant="ghost"
                                   size="sm"
-                                  onClick={toggleMute}
+                                  onClick={togglePlay}
                                   className="text-white hover:bg-white/20"
                                 >
-                                  {playerState.isMuted ? (
-                                    <VolumeX className="h-4 w-4" />
+                                  {playerState.isPlaying ? (
+                                    <Pause className="h-5 w-5" />
                                   ) : (
-                                    <Volume2 className="h-4 w-4" />
+                                    <Play className="h-5 w-5" />
                                   )}
                                 </Button>
-                                <Slider
-                                  value={[playerState.volume * 100]}
-                                  onValueChange={(values: number[]) => handleVolumeChange(values[0] / 100)}
-                                  max={100}
-                                  step={1}
-                                  className="w-20"
-                                />
-                              </div>
 
-                              <span className="text-white text-sm">
-                                {formatTime(playerState.currentTime)} / {formatTime(playerState.duration)}
-                              </span>
-                            </div>
+                                <div className="flex items-center gap-2">
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={toggleMute}
+                                    className="text-white hover:bg-white/20"
+                                  >
+                                    {playerState.isMuted ? (
+                                      <VolumeX className="h-4 w-4" />
+                                    ) : (
+                                      <Volume2 className="h-4 w-4" />
+                                    )}
+                                  </Button>
+                                  <Slider
+                                    value={[playerState.volume * 100]}
+                                    onValueChange={(values: number[]) => handleVolumeChange(values[0] / 100)}
+                                    max={100}
+                                    step={1}
+                                    className="w-20"
+                                  />
+                                </div>
+
+                                <span className="text-white text-sm">
+                                  {formatTime(playerState.currentTime)} / {formatTime(playerState.duration)}
+                                </span>
+                              </div>
 
-                            <div className="flex items-center gap-2">
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => setPlayerState(prev => ({ ...prev, captionsEnabled: !prev.captionsEnabled }))}
-                                className="text-white hover:bg-white/20"
-                              >
-                                <Captions className="h-4 w-4" />
-                              </Button>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={toggleFullscreen}
-                                className="text-white hover:bg-white/20"
-                              >
-                                {playerState.isFullscreen ? (
-                                  <Minimize className="h-4 w-4" />
-                                ) : (
-                                  <Maximize className="h-4 w-4" />
-                                )}
-                              </Button>
-                            </div>
-                          </div>
-                        </div>
-                      </motion.div>
-                    )}
-                  </AnimatePresence>
-
-                  {/* Settings Panel */}
-                  <AnimatePresence>
-                    {showSettings && (
-                      <motion.div
-                        initial={{ opacity: 0, y: 20 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        exit={{ opacity: 0, y: 20 }}
-                        className="absolute top-16 right-4 bg-black/80 backdrop-blur-sm rounded-lg p-4 min-w-[200px]"
-                      >
-                        <div className="space-y-4">
-                          <div>
-                            <label className="text-white text-sm font-medium">Playback Speed</label>
-                            <div className="flex gap-2 mt-1">
-                              {[0.5, 0.75, 1, 1.25, 1.5, 2].map((rate) => (
+                              <div className="flex items-center gap-2">
                                 <Button
-                                  key={rate}
-                                  variant={playerState.playbackRate === rate ? "default" : "outline"}
+                                  variant="ghost"
                                   size="sm"
-                                  onClick={() => handlePlaybackRateChange(rate)}
-                                  className="text-white"
+                                  onClick={() => setPlayerState(prev => ({ ...prev, captionsEnabled: !prev.captionsEnabled }))}
+                                  className="text-white hover:bg-white/20"
                                 >
-                                  {rate}x
+                                  <Captions className="h-4 w-4" />
                                 </Button>
-                              ))}
-                            </div>
-                          </div>
-
-                          <div>
-                            <label className="text-white text-sm font-medium">Quality</label>
-                            <div className="flex gap-2 mt-1">
-                              {['auto', '720p', '1080p'].map((quality) => (
                                 <Button
-                                  key={quality}
-                                  variant={playerState.quality === quality ? "default" : "outline"}
+                                  variant="ghost"
                                   size="sm"
-                                  onClick={() => setPlayerState(prev => ({ ...prev, quality }))}
-                                  className="text-white"
+                                  onClick={toggleFullscreen}
+                                  className="text-white hover:bg-white/20"
                                 >
-                                  {quality}
+                                  {playerState.isFullscreen ? (
+                                    <Minimize className="h-4 w-4" />
+                                  ) : (
+                                    <Maximize className="h-4 w-4" />
+                                  )}
                                 </Button>
-                              ))}
+                              </div>
                             </div>
                           </div>
-                        </div>
-                      </motion.div>
-                    )}
-                  </AnimatePresence>
-                </div>
+                        </motion.div>
+                      )}
+                    </AnimatePresence>
+
+                    {/* Settings Panel */}
+                    <AnimatePresence>
+                      {showSettings && (
+                        <motion.div
+                          initial={{ opacity: 0, y: 20 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          exit={{ opacity: 0, y: 20 }}
+                          className="absolute top-16 right-4 bg-black/80 backdrop-blur-sm rounded-lg p-4 min-w-[200px]"
+                        >
+                          <div className="space-y-4">
+                            <div>
+                              <label className="text-white text-sm font-medium">Playback Speed</label>
+                              <div className="flex gap-2 mt-1">
+                                {[0.5, 0.75, 1, 1.25, 1.5, 2].map((rate) => (
+                                  <Button
+                                    key={rate}
+                                    variant={playerState.playbackRate === rate ? "default" : "outline"}
+                                    size="sm"
+                                    onClick={() => handlePlaybackRateChange(rate)}
+                                    className="text-white"
+                                  >
+                                    {rate}x
+                                  </Button>
+                                ))}
+                              </div>
+                            </div>
+
+                            <div>
+                              <label className="text-white text-sm font-medium">Quality</label>
+                              <div className="flex gap-2 mt-1">
+                                {['auto', '720p', '1080p'].map((quality) => (
+                                  <Button
+                                    key={quality}
+                                    variant={playerState.quality === quality ? "default" : "outline"}
+                                    size="sm"
+                                    onClick={() => setPlayerState(prev => ({ ...prev, quality }))}
+                                    className="text-white"
+                                  >
+                                    {quality}
+                                  </Button>
+                                ))}
+                              </div>
+                            </div>
+                          </div>
+                        </motion.div>
+                      )}
+                    </AnimatePresence>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -416,11 +472,11 @@ export default function VideoPlayer() {
                 <div className="flex items-center space-x-4 text-secondary-text mb-4">
                   <span className="flex items-center">
                     <User className="h-4 w-4 mr-1" />
-                    {reel.author}
+                    {reel.author?.fullName || 'Unknown author'}
                   </span>
                   <span className="flex items-center">
                     <Calendar className="h-4 w-4 mr-1" />
-                    {reel.published}
+                    {new Date(reel.created_at).toLocaleDateString()}
                   </span>
                   <span className="flex items-center">
                     <Clock className="h-4 w-4 mr-1" />
@@ -428,27 +484,29 @@ export default function VideoPlayer() {
                   </span>
                 </div>
                 
-                <p className="text-secondary-text mb-6">
-                  {reel.description}
-                </p>
+                {reel.description && (
+                  <p className="text-secondary-text mb-6">
+                    {reel.description}
+                  </p>
+                )}
 
                 {/* Video Metadata */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
                   <div>
                     <span className="text-sm font-medium text-gray-700">Machine Model:</span>
-                    <p className="text-sm text-gray-600">{reel.machine_model}</p>
+                    <p className="text-sm text-gray-600">{reel.machine_model || 'Not specified'}</p>
                   </div>
                   <div>
                     <span className="text-sm font-medium text-gray-700">Process Type:</span>
-                    <p className="text-sm text-gray-600">{reel.process_type}</p>
+                    <p className="text-sm text-gray-600">{reel.process_type || 'Not specified'}</p>
                   </div>
                   <div>
                     <span className="text-sm font-medium text-gray-700">Tooling:</span>
-                    <p className="text-sm text-gray-600">{reel.tooling}</p>
+                    <p className="text-sm text-gray-600">{reel.tooling || 'Not specified'}</p>
                   </div>
                   <div>
                     <span className="text-sm font-medium text-gray-700">Views:</span>
-                    <p className="text-sm text-gray-600">{reel.views.toLocaleString()}</p>
+                    <p className="text-sm text-gray-600">{reel.view_count.toLocaleString()}</p>
                   </div>
                 </div>
                 
@@ -490,7 +548,15 @@ export default function VideoPlayer() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-2 max-h-96 overflow-y-auto">
-                  {reel.transcript.map((item) => (
+                  {isTranscriptLoading && Array.from({ length: 4 }).map((_, index) => (
+                    <Skeleton key={index} className="h-14 w-full" />
+                  ))}
+                  {!isTranscriptLoading && transcript.length === 0 && (
+                    <p className="text-sm text-secondary-text">
+                      No transcript is available for this reel yet.
+                    </p>
+                  )}
+                  {transcript.map((item) => (
                     <div
                       key={item.id}
                       className={cn(
@@ -0,0 +1,70 @@
+import { useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CheckCircle, RefreshCw, XCircle } from 'lucide-react';
+import { useAcceptUserInvitation } from '@/hooks/useUserManagement';
+
+// Landing page of invitation links mailed by the invitations function; the
+// signed token in the link is accepted for the signed-in user
+export default function AcceptInvitation() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const { mutate: accept, isSuccess, error } = useAcceptUserInvitation();
+  // React may run the effect twice in development
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+    accept(token);
+  }, [token, accept]);
+
+  const errorMessage = !token
+    ? 'The invitation link is incomplete. Please open it again from your email.'
+    : error
+    ? error.message
+    : null;
+
+  return (
+    <div className="min-h-screen bg-main-bg flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <Card className="card animate-fade-in-up">
+          <CardHeader className="text-center">
+            <CardTitle className="text-3xl font-bold text-primary-text">
+              Invitation
+            </CardTitle>
+            <CardDescription className="text-lg">
+              {errorMessage ? 'Could not accept the invitation' : isSuccess ? 'Invitation accepted' : 'Accepting your invitation...'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {errorMessage || isSuccess ? (
+              <div className="text-center space-y-6">
+                <div
+                  className={`w-16 h-16 mx-auto rounded-full flex items-center justify-center ${
+                    errorMessage ? 'bg-red-100' : 'bg-green-100'
+                  }`}
+                >
+                  {errorMessage ? (
+                    <XCircle className="w-8 h-8 text-red-600" />
+                  ) : (
+                    <CheckCircle className="w-8 h-8 text-green-600" />
+                  )}
+                </div>
+                {errorMessage && <p className="text-secondary-text">{errorMessage}</p>}
+                <Button asChild className="w-full">
+                  <Link to="/dashboard">Go to Dashboard</Link>
+                </Button>
+              </div>
+            ) : (
+              <div className="w-16 h-16 mx-auto bg-accent-blue/10 rounded-full flex items-center justify-center">
+                <RefreshCw className="w-8 h-8 text-accent-blue animate-spin" />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
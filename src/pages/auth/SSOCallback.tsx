@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { RefreshCw, XCircle } from 'lucide-react';
+import { ssoService } from '@/services/ssoService';
+
+// Landing page of SSO logins: the sso-saml / sso-oidc functions redirect here
+// with a single-use handoff code, which is exchanged for a session
+export default function SSOCallback() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // The code is single use; React may run the effect twice in development
+  const redeemed = useRef(false);
+
+  useEffect(() => {
+    if (redeemed.current) return;
+    redeemed.current = true;
+
+    const providerId = searchParams.get('provider');
+    const code = searchParams.get('code');
+    if (!providerId || !code) {
+      setErrorMessage('The sign-in link is incomplete. Please start again from the login page.');
+      return;
+    }
+
+    ssoService
+      .processSSOCallback(providerId, code)
+      .then(({ redirectTo }) => {
+        navigate(redirectTo ?? '/dashboard', { replace: true });
+      })
+      .catch(error => {
+        setErrorMessage(error instanceof Error ? error.message : 'SSO sign-in failed');
+      });
+  }, [searchParams, navigate]);
+
+  return (
+    <div className="min-h-screen bg-main-bg flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <Card className="card animate-fade-in-up">
+          <CardHeader className="text-center">
+            <CardTitle className="text-3xl font-bold text-primary-text">
+              Single Sign-On
+            </CardTitle>
+            <CardDescription className="text-lg">
+              {errorMessage ? 'Sign-in failed' : 'Signing you in...'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {errorMessage ? (
+              <div className="text-center space-y-6">
+                <div className="w-16 h-16 mx-auto bg-red-100 rounded-full flex items-center justify-center">
+                  <XCircle className="w-8 h-8 text-red-600" />
+                </div>
+                <p className="text-secondary-text">{errorMessage}</p>
+                <Button asChild className="w-full">
+                  <Link to="/login">Back to Login</Link>
+                </Button>
+              </div>
+            ) : (
+              <div className="w-16 h-16 mx-auto bg-accent-blue/10 rounded-full flex items-center justify-center">
+                <RefreshCw className="w-8 h-8 text-accent-blue animate-spin" />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,50 +1,85 @@
 /**
  * Certificate Generation Service for Winbro Training Reels
- * Handles PDF generation and certificate creation
+ * Handles certificate creation; PDFs and thumbnails are rendered and stored
+ * by the certificates edge function
  */
 
+import { supabase } from '@/lib/supabase';
 import type { 
   Certificate, 
   CertificateGenerationRequest, 
   CertificateGenerationResult 
 } from '@/types/certificates';
 
-// Certificate template interface
+// Text field position; y is the text baseline
+interface CertificateTextField {
+  x: number;
+  y: number;
+  fontSize: number;
+  color: string;
+  align?: 'left' | 'center' | 'right';
+  bold?: boolean;
+}
+
+// Image or box position
+interface CertificateBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Certificate template interface.
+// Layout coordinates are points from the top-left corner of the page.
+// The certificates edge function renders templates by id.
 interface CertificateTemplate {
   id: string;
   name: string;
   backgroundImage?: string;
   logoImage?: string;
+  page: { width: number; height: number };
   layout: {
-    title: { x: number; y: number; fontSize: number; color: string };
-    recipientName: { x: number; y: number; fontSize: number; color: string };
-    courseTitle: { x: number; y: number; fontSize: number; color: string };
-    completionDate: { x: number; y: number; fontSize: number; color: string };
-    score: { x: number; y: number; fontSize: number; color: string };
-    certificateNumber: { x: number; y: number; fontSize: number; color: string };
-    verificationCode: { x: number; y: number; fontSize: number; color: string };
-    issuerSignature: { x: number; y: number; width: number; height: number };
-    issuerName: { x: number; y: number; fontSize: number; color: string };
+    title: CertificateTextField;
+    recipientName: CertificateTextField;
+    courseTitle: CertificateTextField;
+    completionDate: CertificateTextField;
+    score: CertificateTextField;
+    certificateNumber: CertificateTextField;
+    verificationCode: CertificateTextField;
+    issuerSignature: CertificateBox;
+    issuerName: CertificateTextField;
+    logo?: CertificateBox;
+    qrCode?: { x: number; y: number; size: number };
   };
 }
 
+// Default page size (points)
+const DEFAULT_PAGE = { width: 600, height: 500 };
+
 // Default certificate template
 const DEFAULT_TEMPLATE: CertificateTemplate = {
   id: 'default',
   name: 'Default Certificate Template',
+  page: DEFAULT_PAGE,
   layout: {
-    title: { x: 300, y: 100, fontSize: 36, color: '#1f2937' },
-    recipientName: { x: 300, y: 200, fontSize: 24, color: '#1f2937' },
-    courseTitle: { x: 300, y: 250, fontSize: 18, color: '#6b7280' },
-    completionDate: { x: 300, y: 300, fontSize: 14, color: '#6b7280' },
-    score: { x: 300, y: 330, fontSize: 14, color: '#6b7280' },
+    title: { x: 300, y: 100, fontSize: 36, color: '#1f2937', align: 'center', bold: true },
+    recipientName: { x: 300, y: 200, fontSize: 24, color: '#1f2937', align: 'center', bold: true },
+    courseTitle: { x: 300, y: 250, fontSize: 18, color: '#6b7280', align: 'center' },
+    completionDate: { x: 300, y: 300, fontSize: 14, color: '#6b7280', align: 'center' },
+    score: { x: 300, y: 330, fontSize: 14, color: '#6b7280', align: 'center' },
     certificateNumber: { x: 50, y: 450, fontSize: 12, color: '#9ca3af' },
-    verificationCode: { x: 550, y: 450, fontSize: 12, color: '#9ca3af' },
+    verificationCode: { x: 550, y: 450, fontSize: 12, color: '#9ca3af', align: 'right' },
     issuerSignature: { x: 400, y: 380, width: 150, height: 50 },
-    issuerName: { x: 400, y: 440, fontSize: 14, color: '#1f2937' }
+    issuerName: { x: 400, y: 440, fontSize: 14, color: '#1f2937' },
+    logo: { x: 270, y: 20, width: 60, height: 40 },
+    qrCode: { x: 50, y: 340, size: 72 }
   }
 };
 
+// Public page where a printed certificate can be checked
+export const getCertificateVerificationUrl = (verificationCode: string): string =>
+  `${window.location.origin}/certificates/verify/${encodeURIComponent(verificationCode)}`;
+
 // Certificate generation service class
 export class CertificateGenerator {
   private templates: Map<string, CertificateTemplate> = new Map();
@@ -64,106 +99,71 @@ export class CertificateGenerator {
     return this.templates.get(templateId);
   }
 
-  // Generate certificate PDF
+  // Render the certificate to PDF and thumbnail on the server, which stores
+  // both and saves their URLs on the certificate
   async generateCertificatePDF(
     certificate: Certificate,
     templateId: string = 'default'
   ): Promise<{ pdfUrl: string; thumbnailUrl: string }> {
-    const template = this.getTemplate(templateId);
-    if (!template) {
+    if (!this.getTemplate(templateId)) {
       throw new Error(`Template ${templateId} not found`);
     }
 
     try {
-      // In a real implementation, this would use a PDF generation library like jsPDF or Puppeteer
-      // For now, we'll simulate the generation process
-      
-      // Simulate PDF generation delay
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
-      // Generate unique URLs (in real implementation, these would be actual file URLs)
-      const certificateId = certificate.id;
-      const pdfUrl = `/api/certificates/${certificateId}/pdf`;
-      const thumbnailUrl = `/api/certificates/${certificateId}/thumbnail`;
-
-      // In a real implementation, you would:
-      // 1. Create a canvas or HTML element with the certificate design
-      // 2. Use jsPDF or similar to generate the PDF
-      // 3. Upload the PDF to cloud storage (S3, etc.)
-      // 4. Generate a thumbnail image
-      // 5. Return the actual URLs
-
-      return { pdfUrl, thumbnailUrl };
+      const { data, error } = await supabase.functions.invoke<{ pdf_url: string; thumbnail_url: string }>(
+        `certificates/${certificate.id}/render`,
+        { method: 'POST' }
+      );
+
+      if (error) throw error;
+      if (!data) throw new Error('No certificate files returned');
+
+      return { pdfUrl: data.pdf_url, thumbnailUrl: data.thumbnail_url };
     } catch (error) {
       console.error('Failed to generate certificate PDF:', error);
-      throw new Error('Failed to generate certificate PDF');
+      throw new Error(`Failed to generate certificate PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  // Generate certificate thumbnail
+  // Generate certificate thumbnail (rendered together with the PDF)
   async generateCertificateThumbnail(
     certificate: Certificate,
     templateId: string = 'default'
   ): Promise<string> {
-    const template = this.getTemplate(templateId);
-    if (!template) {
-      throw new Error(`Template ${templateId} not found`);
-    }
-
-    try {
-      // Simulate thumbnail generation
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      // In a real implementation, this would generate an actual thumbnail image
-      const certificateId = certificate.id;
-      return `/api/certificates/${certificateId}/thumbnail`;
-    } catch (error) {
-      console.error('Failed to generate certificate thumbnail:', error);
-      throw new Error('Failed to generate certificate thumbnail');
-    }
+    const { thumbnailUrl } = await this.generateCertificatePDF(certificate, templateId);
+    return thumbnailUrl;
   }
 
-  // Generate certificate with PDF and thumbnail
+  // Render files for the certificate issued when the enrollment was completed
   async generateCertificate(
     request: CertificateGenerationRequest
   ): Promise<CertificateGenerationResult> {
     try {
-      // Create certificate object
-      const certificate: Certificate = {
-        id: `cert-${Date.now()}`,
-        user_id: request.user_id,
-        course_id: request.course_id,
-        enrollment_id: request.enrollment_id,
-        certificate_number: this.generateCertificateNumber(),
-        title: 'Certificate of Completion',
-        recipient_name: 'Student Name', // Would get from user profile
-        course_title: 'Course Title', // Would get from course data
-        completion_date: new Date().toISOString(),
-        score: 85, // Would get from quiz result
-        template_id: request.template_id || 'default',
-        issued_by: 'Winbro Training Reels',
-        verification_code: this.generateVerificationCode(),
-        status: 'active',
-        metadata: request.custom_data || {},
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
+      const { data, error } = await supabase
+        .from('certificates')
+        .select('*')
+        .eq('enrollment_id', request.enrollment_id)
+        .eq('user_id', request.user_id)
+        .maybeSingle();
 
-      // Generate PDF and thumbnail
+      if (error) throw error;
+      if (!data) throw new Error('No certificate has been issued for this enrollment');
+
+      const certificate = data as Certificate;
       const { pdfUrl, thumbnailUrl } = await this.generateCertificatePDF(
         certificate,
-        request.template_id || 'default'
+        request.template_id || certificate.template_id || 'default'
       );
 
       return {
-        certificate,
+        certificate: { ...certificate, pdf_url: pdfUrl, thumbnail_url: thumbnailUrl },
         pdf_url: pdfUrl,
         thumbnail_url: thumbnailUrl,
         generated_at: new Date().toISOString()
       };
     } catch (error) {
       console.error('Failed to generate certificate:', error);
-      throw new Error('Failed to generate certificate');
+      throw new Error(`Failed to generate certificate: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -213,6 +213,7 @@ export class CertificateGenerator {
     const template: CertificateTemplate = {
       id,
       name,
+      page: DEFAULT_PAGE,
       layout
     };
 
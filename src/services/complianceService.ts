@@ -3,6 +3,7 @@
  * Handles security compliance, reporting, and audit requirements
  */
 
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
 // import { securityMonitoring } from './securityService';
 // import type { Database } from '@/lib/supabase';
@@ -59,6 +60,145 @@ export interface DataRetentionPolicy {
   updatedAt: string;
 }
 
+export type RetentionDataType = 'audit_logs' | 'user_sessions' | 'failed_login_attempts' | 'security_events';
+
+// Outcome for one data type in a retention run. Dry runs only fill the *_due
+// counts; `error` is set when the data type failed and was rolled back.
+export interface DataRetentionPolicyResult {
+  data_type: RetentionDataType;
+  policy_id: string;
+  archive_after_days?: number;
+  delete_after_days?: number;
+  archive_before?: string;
+  delete_before?: string;
+  archive_due?: number;
+  delete_due?: number;
+  purge_due?: number;
+  held?: number;
+  archived?: number;
+  deleted?: number;
+  purged?: number;
+  remaining?: number | null;
+  error?: string;
+}
+
+// Signed body of a retention run, as stored in data_retention_runs.report
+export interface DataRetentionRunReport {
+  run_id: string;
+  dry_run: boolean;
+  triggered_by: string | null;
+  started_at: string;
+  finished_at: string;
+  max_rows: number;
+  legal_holds: { id: string; name: string; data_type: RetentionDataType | null; user_id: string | null }[];
+  policies: DataRetentionPolicyResult[];
+}
+
+export interface DataRetentionRun {
+  id: string;
+  dry_run: boolean;
+  triggered_by: string | null;
+  status: 'running' | 'completed' | 'completed_with_errors';
+  report: DataRetentionRunReport | null;
+  signature: string | null;
+  signature_key_id: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export interface DataRetentionRunVerification {
+  run_id: string;
+  status: 'valid' | 'tampered' | 'unsigned' | 'not_found';
+  is_valid: boolean;
+  signature?: string;
+  signature_key_id?: string;
+  verified_at?: string;
+}
+
+export interface LegalHold {
+  id: string;
+  name: string;
+  reason: string;
+  case_reference: string | null;
+  data_type: RetentionDataType | null; // null holds every data type
+  user_id: string | null;              // null holds every row
+  created_by: string | null;
+  released_at: string | null;
+  released_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LegalHoldInsert = Pick<LegalHold, 'name' | 'reason'> &
+  Partial<Pick<LegalHold, 'case_reference' | 'data_type' | 'user_id'>>;
+
+export type DataSubjectRequestType = 'access' | 'erasure';
+export type DataSubjectRegulation = 'gdpr' | 'ccpa';
+export type DataSubjectRequestStatus = 'received' | 'verifying' | 'in_progress' | 'completed' | 'rejected';
+export type IdentityVerificationStatus = 'pending' | 'verified' | 'failed';
+
+// Rows anonymized and deleted by an erasure, per table
+export interface DataSubjectErasureSummary {
+  account_found: boolean;
+  anonymized: Record<string, number>;
+  deleted: Record<string, number>;
+  erased_at: string;
+}
+
+export interface DataSubjectRequest {
+  id: string;
+  request_type: DataSubjectRequestType;
+  regulation: DataSubjectRegulation;
+  subject_email: string;
+  subject_user_id: string | null; // null when no account matched, or once erased
+  status: DataSubjectRequestStatus;
+  rejection_reason: string | null;
+  identity_verification_status: IdentityVerificationStatus;
+  verification_method: string | null;
+  verified_at: string | null;
+  verified_by: string | null;
+  received_at: string;
+  due_at: string;
+  extended_due_at: string | null;
+  extension_reason: string | null;
+  completed_at: string | null;
+  export_path: string | null;
+  export_sha256: string | null;
+  exported_at: string | null;
+  erasure_summary: DataSubjectErasureSummary | null;
+  notes: string | null;
+  created_by: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type DataSubjectRequestInsert = Pick<DataSubjectRequest, 'request_type' | 'regulation' | 'subject_email'> &
+  Partial<Pick<DataSubjectRequest, 'received_at' | 'notes'>>;
+
+export type DataSubjectRequestUpdate = Partial<Pick<DataSubjectRequest,
+  'status' | 'rejection_reason' | 'identity_verification_status' | 'verification_method' |
+  'extended_due_at' | 'extension_reason' | 'notes'
+>>;
+
+export interface DataSubjectRequestEvent {
+  id: string;
+  request_id: string;
+  event_type: string;
+  actor_id: string | null;
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface DataSubjectExport {
+  request: DataSubjectRequest;
+  archive: { path: string; sha256: string; size: number; counts: Record<string, number> };
+  signedUrl: string;
+}
+
+// A scheduled run older than this means the retention job has stopped
+const RETENTION_RUN_MAX_AGE_MS = 2 * 24 * 60 * 60 * 1000;
+
 export interface ComplianceMetrics {
   totalReports: number;
   openFindings: number;
@@ -100,7 +240,18 @@ export class ComplianceService {
         return;
       }
 
-      this.dataRetentionPolicies = data || [];
+      this.dataRetentionPolicies = (data || []).map(row => ({
+        id: row.id,
+        name: row.name,
+        description: row.description,
+        dataType: row.data_type,
+        retentionPeriodDays: row.retention_period_days,
+        archiveAfterDays: row.archive_after_days,
+        deleteAfterDays: row.delete_after_days,
+        isActive: row.is_active,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+      }));
     } catch (error) {
       console.error('Load data retention policies failed:', error);
     }
@@ -401,41 +552,424 @@ export class ComplianceService {
   }
 
   /**
-   * Analyze data retention compliance
+   * Analyze data retention compliance from the latest signed retention run
    */
   private async analyzeDataRetentionCompliance(): Promise<ComplianceFinding[]> {
     const findings: ComplianceFinding[] = [];
+    await this.loadDataRetentionPolicies();
+
+    const { data: runs, error } = await supabase
+      .from('data_retention_runs')
+      .select('*')
+      .eq('dry_run', false)
+      .neq('status', 'running')
+      .order('started_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      throw error;
+    }
+
+    const run = (runs?.[0] ?? null) as DataRetentionRun | null;
+
+    if (!run?.report) {
+      findings.push({
+        id: `finding-${Date.now()}-retention-never-run`,
+        severity: 'high',
+        category: 'Data Retention',
+        title: 'Data retention has never been enforced',
+        description: 'No retention run has archived or deleted data yet',
+        evidence: this.dataRetentionPolicies.map(p => `Policy: ${p.name}, archive after ${p.archiveAfterDays} days, delete after ${p.deleteAfterDays} days`),
+        remediation: 'Schedule the data-retention function with "dry_run": false',
+        status: 'open'
+      });
+      return findings;
+    }
+
+    const verification = await this.verifyDataRetentionRun(run.id);
+    const runEvidence = `Run ${run.id} (${run.started_at}), signature ${run.signature} (key ${run.signature_key_id})`;
+
+    if (!verification.is_valid) {
+      findings.push({
+        id: `finding-${Date.now()}-retention-signature`,
+        severity: 'critical',
+        category: 'Data Retention',
+        title: 'Retention run report failed verification',
+        description: `The stored report of the latest retention run is ${verification.status}`,
+        evidence: [runEvidence],
+        remediation: 'Investigate changes to data_retention_runs and re-run retention',
+        status: 'open'
+      });
+    }
+
+    if (Date.now() - new Date(run.started_at).getTime() > RETENTION_RUN_MAX_AGE_MS) {
+      findings.push({
+        id: `finding-${Date.now()}-retention-stale`,
+        severity: 'high',
+        category: 'Data Retention',
+        title: 'Data retention job is not running',
+        description: `The last retention run was on ${new Date(run.started_at).toLocaleDateString()}`,
+        evidence: [runEvidence],
+        remediation: 'Check the schedule of the data-retention function',
+        status: 'open'
+      });
+    }
 
     for (const policy of this.dataRetentionPolicies) {
-      try {
-        // Check for data that should be archived
-        // const archiveThreshold = new Date(Date.now() - policy.archiveAfterDays * 24 * 60 * 60 * 1000);
-        
-        // Check for data that should be deleted
-        // const deleteThreshold = new Date(Date.now() - policy.deleteAfterDays * 24 * 60 * 60 * 1000);
-
-        // This would need to be implemented based on specific data types
-        // For now, we'll create a placeholder finding
-        if (policy.deleteAfterDays < 2555) { // 7 years
-          findings.push({
-            id: `finding-${Date.now()}-${policy.id}`,
-            severity: 'medium',
-            category: 'Data Retention',
-            title: `Data Retention Policy: ${policy.name}`,
-            description: `Data retention policy requires review for ${policy.dataType}`,
-            evidence: [`Policy: ${policy.name}`, `Retention Period: ${policy.retentionPeriodDays} days`],
-            remediation: 'Review and implement data retention procedures',
-            status: 'open'
-          });
-        }
-      } catch (error) {
-        console.error(`Failed to analyze data retention policy ${policy.id}:`, error);
+      const result = run.report.policies.find(r => r.data_type === policy.dataType);
+
+      if (!result) {
+        findings.push({
+          id: `finding-${Date.now()}-${policy.id}-missing`,
+          severity: 'medium',
+          category: 'Data Retention',
+          title: `Data Retention Policy not applied: ${policy.name}`,
+          description: `The latest retention run did not cover ${policy.dataType}`,
+          evidence: [runEvidence],
+          remediation: 'Re-run data retention now that the policy is active',
+          status: 'open'
+        });
+      } else if (result.error) {
+        findings.push({
+          id: `finding-${Date.now()}-${policy.id}-error`,
+          severity: 'high',
+          category: 'Data Retention',
+          title: `Data retention failed for ${policy.dataType}`,
+          description: result.error,
+          evidence: [runEvidence],
+          remediation: 'Fix the error and re-run data retention',
+          status: 'open'
+        });
+      } else if (result.remaining) {
+        findings.push({
+          id: `finding-${Date.now()}-${policy.id}-backlog`,
+          severity: 'medium',
+          category: 'Data Retention',
+          title: `Expired ${policy.dataType} not yet processed`,
+          description: `${result.remaining} rows past their retention age were left for the next run`,
+          evidence: [runEvidence, `Archived: ${result.archived}, deleted: ${result.deleted}, purged from archive: ${result.purged}`],
+          remediation: 'Run data retention more often or raise max_rows',
+          status: 'open'
+        });
+      }
+
+      if (result?.held) {
+        findings.push({
+          id: `finding-${Date.now()}-${policy.id}-held`,
+          severity: 'low',
+          category: 'Data Retention',
+          title: `${policy.dataType} kept under legal hold`,
+          description: `${result.held} rows past their retention age are kept because of a legal hold`,
+          evidence: [runEvidence, ...run.report.legal_holds.map(h => `Hold: ${h.name} (${h.id})`)],
+          remediation: 'Release legal holds that are no longer needed',
+          status: 'accepted_risk'
+        });
       }
     }
 
     return findings;
   }
 
+  /**
+   * Run data retention now. A dry run only reports what would change.
+   */
+  public async runDataRetention(dryRun: boolean, maxRows?: number): Promise<DataRetentionRun> {
+    try {
+      const { data, error } = await supabase.rpc('run_data_retention', {
+        p_dry_run: dryRun,
+        ...(maxRows !== undefined && { p_max_rows: maxRows })
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      return data as DataRetentionRun;
+    } catch (error) {
+      console.error('Run data retention failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get retention runs, newest first
+   */
+  public async getDataRetentionRuns(limit: number = 20): Promise<DataRetentionRun[]> {
+    try {
+      const { data, error } = await supabase
+        .from('data_retention_runs')
+        .select('*')
+        .order('started_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Get data retention runs failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check a retention run report against its signature
+   */
+  public async verifyDataRetentionRun(runId: string): Promise<DataRetentionRunVerification> {
+    try {
+      const { data, error } = await supabase.rpc('verify_data_retention_run', { p_run_id: runId });
+
+      if (error) {
+        throw error;
+      }
+
+      return data as DataRetentionRunVerification;
+    } catch (error) {
+      console.error('Verify data retention run failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get legal holds, active ones first
+   */
+  public async getLegalHolds(): Promise<LegalHold[]> {
+    try {
+      const { data, error } = await supabase
+        .from('legal_holds')
+        .select('*')
+        .order('released_at', { ascending: false, nullsFirst: true })
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Get legal holds failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Place a legal hold; matching data is kept until the hold is released
+   */
+  public async createLegalHold(hold: LegalHoldInsert, createdBy: string): Promise<LegalHold> {
+    try {
+      const { data, error } = await supabase
+        .from('legal_holds')
+        .insert({ ...hold, created_by: createdBy })
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Create legal hold failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Release a legal hold so retention applies to its data again
+   */
+  public async releaseLegalHold(holdId: string, releasedBy: string): Promise<LegalHold> {
+    try {
+      const { data, error } = await supabase
+        .from('legal_holds')
+        .update({ released_at: new Date().toISOString(), released_by: releasedBy })
+        .eq('id', holdId)
+        .is('released_at', null)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Release legal hold failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get data subject requests, open ones by deadline first
+   */
+  public async getDataSubjectRequests(): Promise<DataSubjectRequest[]> {
+    try {
+      const { data, error } = await supabase
+        .from('data_subject_requests')
+        .select('*')
+        .order('completed_at', { ascending: false, nullsFirst: true })
+        .order('due_at', { ascending: true });
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Get data subject requests failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the audit trail of a data subject request, oldest first
+   */
+  public async getDataSubjectRequestEvents(requestId: string): Promise<DataSubjectRequestEvent[]> {
+    try {
+      const { data, error } = await supabase
+        .from('data_subject_request_events')
+        .select('*')
+        .eq('request_id', requestId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Get data subject request events failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Log a new data subject request; the deadline is set from the regulation
+   */
+  public async createDataSubjectRequest(request: DataSubjectRequestInsert, createdBy: string): Promise<DataSubjectRequest> {
+    try {
+      const { data, error } = await supabase
+        .from('data_subject_requests')
+        .insert({ ...request, created_by: createdBy })
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Create data subject request failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record identity verification, a deadline extension or a status change
+   */
+  public async updateDataSubjectRequest(requestId: string, updates: DataSubjectRequestUpdate): Promise<DataSubjectRequest> {
+    try {
+      const { data, error } = await supabase
+        .from('data_subject_requests')
+        .update(updates)
+        .eq('id', requestId)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Update data subject request failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build the export archive of an access request (data-subject-requests edge function)
+   */
+  public async exportDataSubjectRequest(requestId: string): Promise<DataSubjectExport> {
+    try {
+      const { data, error } = await supabase.functions.invoke<DataSubjectExport>(
+        `data-subject-requests/${requestId}/export`,
+        { method: 'POST' }
+      );
+
+      if (error) {
+        throw await this.toFunctionError(error);
+      }
+      if (!data) {
+        throw new Error('No export archive returned');
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Export data subject request failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Erase the subject of an erasure request. Authored reels and analytics are
+   * anonymized; the account and everything else held on it is deleted.
+   */
+  public async eraseDataSubject(requestId: string): Promise<{ request: DataSubjectRequest; exportsDeleted: number }> {
+    try {
+      const { data, error } = await supabase.functions.invoke<{ request: DataSubjectRequest; exportsDeleted: number }>(
+        `data-subject-requests/${requestId}/erase`,
+        { method: 'POST' }
+      );
+
+      if (error) {
+        throw await this.toFunctionError(error);
+      }
+      if (!data) {
+        throw new Error('Erasure did not return a result');
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Erase data subject failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Short-lived download link for a stored export archive
+   */
+  public async getDataSubjectExportUrl(path: string): Promise<string> {
+    try {
+      const { data, error } = await supabase.storage
+        .from('data-subject-exports')
+        .createSignedUrl(path, 60 * 5);
+
+      if (error) {
+        throw error;
+      }
+
+      return data.signedUrl;
+    } catch (error) {
+      console.error('Get data subject export URL failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Edge functions return the reason for a refusal in the response body
+   */
+  private async toFunctionError(error: unknown): Promise<unknown> {
+    if (error instanceof FunctionsHttpError) {
+      const body = await (error.context as Response).json().catch(() => null);
+      if (typeof body?.error === 'string') {
+        return new Error(body.error);
+      }
+    }
+    return error;
+  }
+
   /**
    * Calculate compliance score
    */
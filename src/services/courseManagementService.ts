@@ -1,4 +1,5 @@
 import { courseApi } from '@/api/courses';
+import { PlanLimitError } from '@/services/entitlementService';
 import type { 
   Course, 
   CourseModule, 
@@ -13,11 +14,24 @@ import type {
   QuizQuestionForm,
   PublishSettings,
   CourseVersion,
+  ModuleDiffEntry,
   CourseBuilderValidationError,
   CoursePreview,
   AutoSaveState
 } from '@/types/courseBuilder';
 
+// Module fields compared when diffing course versions
+const MODULE_DIFF_FIELDS = [
+  'title',
+  'description',
+  'type',
+  'contentId',
+  'contentData',
+  'estimatedDuration',
+  'isRequired',
+  'unlockAfterPrevious',
+] as const satisfies readonly (keyof CourseModule)[];
+
 /**
  * Course Management Service
  * Provides high-level course management operations and business logic
@@ -43,6 +57,7 @@ export class CourseManagementService {
       
       return course;
     } catch (error) {
+      if (error instanceof PlanLimitError) throw error;
       console.error('Error creating course:', error);
       throw new Error('Failed to create course');
     }
@@ -272,10 +287,9 @@ export class CourseManagementService {
    */
   static async publishCourse(courseId: string): Promise<Course> {
     try {
-      const course = await courseApi.updateCourse(courseId, {
-        status: 'published',
-        publishedAt: new Date().toISOString(),
-      });
+      await courseApi.publishCourse(courseId);
+      const course = await courseApi.getCourse(courseId);
+      if (!course) throw new Error('No course returned');
 
       // Clear builder state when publishing
       const builderState = await courseApi.loadCourseBuilderState(courseId);
@@ -735,7 +749,7 @@ export class CourseManagementService {
     settings: PublishSettings
   ): Promise<Course> {
     try {
-      // Update course with publish settings
+      // Apply the publish settings first so the version snapshot includes them
       const updates: Partial<Course> = {
         visibility: settings.visibility,
         customerScope: settings.customerScope,
@@ -743,11 +757,13 @@ export class CourseManagementService {
         allowDownloads: settings.allowDownloads,
         enableCertificates: settings.enableCertificates,
         passThreshold: settings.passThreshold,
-        status: 'published',
-        publishedAt: new Date().toISOString(),
       };
 
-      const publishedCourse = await courseApi.updateCourse(courseId, updates);
+      await courseApi.updateCourse(courseId, updates);
+      await courseApi.publishCourse(courseId, settings.versionNotes, settings.migrationPolicy);
+
+      const publishedCourse = await courseApi.getCourse(courseId);
+      if (!publishedCourse) throw new Error('No course returned');
 
       // TODO: Handle scheduled publishing if scheduledPublish is set
       // TODO: Send notifications if notifyUsers is true
@@ -761,38 +777,14 @@ export class CourseManagementService {
 
   /**
    * Create course version
+   * Snapshots the course's current metadata, modules and quizzes
    */
   static async createCourseVersion(
     courseId: string,
     description: string
   ): Promise<CourseVersion> {
     try {
-      const course = await courseApi.getCourse(courseId);
-      if (!course) {
-        throw new Error('Course not found');
-      }
-
-      const modules = await courseApi.getCourseModules(courseId);
-      // const quizzes = await courseApi.getCourseQuizzes(courseId); // Unused for now
-
-      const version: CourseVersion = {
-        id: `version_${Date.now()}`,
-        courseId,
-        version: `v${Date.now()}`,
-        title: course.title,
-        description,
-        modules,
-        publishedAt: course.publishedAt,
-        createdBy: course.userId,
-        createdAt: new Date().toISOString(),
-        changes: [description],
-        isCurrent: true,
-      };
-
-      // TODO: Save version to database
-      // await courseApi.saveCourseVersion(version);
-
-      return version;
+      return await courseApi.createCourseVersion(courseId, description);
     } catch (error) {
       console.error('Error creating course version:', error);
       throw new Error('Failed to create course version');
@@ -800,19 +792,86 @@ export class CourseManagementService {
   }
 
   /**
-   * Get course versions
+   * Get course versions, newest first
    */
-  static async getCourseVersions(_courseId: string): Promise<CourseVersion[]> {
+  static async getCourseVersions(courseId: string): Promise<CourseVersion[]> {
     try {
-      // TODO: Implement version retrieval from database
-      // return await courseApi.getCourseVersions(courseId);
-      return [];
+      return await courseApi.getCourseVersions(courseId);
     } catch (error) {
       console.error('Error fetching course versions:', error);
       throw new Error('Failed to fetch course versions');
     }
   }
 
+  /**
+   * Restore a course version as a new draft
+   */
+  static async restoreCourseVersion(versionId: string): Promise<void> {
+    try {
+      await courseApi.restoreCourseVersion(versionId);
+    } catch (error) {
+      console.error('Error restoring course version:', error);
+      throw new Error('Failed to restore course version');
+    }
+  }
+
+  /**
+   * Module-level diff between two versions. Modules are matched by id;
+   * reordering is judged on modules present in both versions, so an
+   * insertion does not mark every later module as moved.
+   */
+  static diffCourseVersions(from: CourseVersion | null, to: CourseVersion): ModuleDiffEntry[] {
+    const fromModules = from?.modules ?? [];
+    const toIds = new Set(to.modules.map(module => module.id));
+    const fromById = new Map(fromModules.map(module => [module.id, module]));
+
+    const entries: ModuleDiffEntry[] = [];
+
+    fromModules.forEach((module, index) => {
+      if (!toIds.has(module.id)) {
+        entries.push({ moduleId: module.id, title: module.title, change: 'removed', fromIndex: index });
+      }
+    });
+
+    const keptFrom = fromModules.filter(module => toIds.has(module.id)).map(module => module.id);
+    const keptTo = to.modules.filter(module => fromById.has(module.id)).map(module => module.id);
+
+    to.modules.forEach((module, index) => {
+      const previous = fromById.get(module.id);
+      if (!previous) {
+        entries.push({ moduleId: module.id, title: module.title, change: 'added', toIndex: index });
+        return;
+      }
+
+      const fromIndex = fromModules.indexOf(previous);
+      if (keptFrom.indexOf(module.id) !== keptTo.indexOf(module.id)) {
+        entries.push({ moduleId: module.id, title: module.title, change: 'reordered', fromIndex, toIndex: index });
+      }
+
+      const changedFields = MODULE_DIFF_FIELDS.filter(
+        field => JSON.stringify(previous[field] ?? null) !== JSON.stringify(module[field] ?? null)
+      ) as string[];
+      if (this.moduleQuizSignature(from, module.id) !== this.moduleQuizSignature(to, module.id)) {
+        changedFields.push('quizzes');
+      }
+      if (changedFields.length > 0) {
+        entries.push({ moduleId: module.id, title: module.title, change: 'changed', fromIndex, toIndex: index, changedFields });
+      }
+    });
+
+    return entries;
+  }
+
+  private static moduleQuizSignature(version: CourseVersion | null, moduleId: string): string {
+    return JSON.stringify(
+      (version?.quizzes ?? [])
+        .filter(quiz => quiz.moduleId === moduleId)
+        .map(({ question, type, options, correctAnswer, explanation, points, timeLimit, orderIndex }) => [
+          question, type, options, correctAnswer, explanation ?? null, points, timeLimit ?? null, orderIndex,
+        ])
+    );
+  }
+
   /**
    * Generate course preview
    */
@@ -0,0 +1,143 @@
+import { courseApi } from '@/api/courses';
+import {
+  buildCoursePackage,
+  createCourseBundle,
+  detachMissingReels,
+  isUUID,
+  remapCourseBundle,
+  serializeCourseBundle,
+  validateCourseBundle,
+} from '@/lib/coursePackage';
+import type {
+  CourseBundle,
+  CourseImportResult,
+  CoursePackageFormat,
+} from '@/types/coursePackage';
+
+export interface CoursePackageFile {
+  filename: string;
+  blob: Blob;
+}
+
+const slugify = (title: string): string =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'course';
+
+/**
+ * Course Package Service
+ * Exports courses as portable bundles or LMS packages and imports bundles
+ * into the current user's organization
+ */
+export class CoursePackageService {
+  /**
+   * Build a bundle from the course's current content
+   */
+  static async createBundle(courseId: string): Promise<CourseBundle> {
+    try {
+      const { course, modules, quizzes } = await courseApi.getCourseSnapshot(courseId);
+      const reelIds = modules
+        .filter(module => module.type === 'reel' && module.contentId)
+        .map(module => module.contentId as string);
+      const reels = await courseApi.getReels([...new Set(reelIds)]);
+
+      return createCourseBundle({
+        course,
+        modules,
+        quizzes,
+        reels: reels.map(reel => ({
+          id: reel.id,
+          title: reel.title,
+          duration: reel.duration,
+          thumbnailUrl: reel.thumbnail_url ?? undefined,
+        })),
+        source: window.location.origin,
+      });
+    } catch (error) {
+      console.error('Error building course bundle:', error);
+      throw new Error('Failed to build course bundle');
+    }
+  }
+
+  /**
+   * Export a course as a JSON bundle, SCORM 1.2 zip or xAPI zip
+   */
+  static async exportCourse(courseId: string, format: CoursePackageFormat): Promise<CoursePackageFile> {
+    const bundle = await this.createBundle(courseId);
+    const name = slugify(bundle.course.title);
+
+    if (format === 'json') {
+      return {
+        filename: `${name}.winbro-course.json`,
+        blob: new Blob([serializeCourseBundle(bundle)], { type: 'application/json' }),
+      };
+    }
+
+    try {
+      return {
+        filename: `${name}-${format === 'scorm12' ? 'scorm12' : 'xapi'}.zip`,
+        blob: new Blob([buildCoursePackage(bundle, format) as BlobPart], { type: 'application/zip' }),
+      };
+    } catch (error) {
+      console.error('Error building course package:', error);
+      throw new Error('Failed to build course package');
+    }
+  }
+
+  /**
+   * Validate a bundle without importing it
+   */
+  static async previewImport(json: string): Promise<CourseImportResult> {
+    const { bundle, report } = this.parseBundle(json);
+    if (bundle) {
+      await this.resolveReels(bundle, report);
+    }
+    return { courseId: null, idMap: {}, report };
+  }
+
+  /**
+   * Rebuild a bundled course as a new private draft owned by the current
+   * user. Every id is replaced; reels missing from this library are dropped
+   * and listed in the report.
+   */
+  static async importCourse(json: string): Promise<CourseImportResult> {
+    const { bundle: parsed, report } = this.parseBundle(json);
+    if (!parsed) {
+      return { courseId: null, idMap: {}, report };
+    }
+
+    try {
+      const { bundle, idMap } = remapCourseBundle(await this.resolveReels(parsed, report));
+      const courseId = await courseApi.importCourseBundle(bundle);
+      return { courseId, idMap, report };
+    } catch (error) {
+      console.error('Error importing course bundle:', error);
+      throw new Error('Failed to import course');
+    }
+  }
+
+  private static parseBundle(json: string): ReturnType<typeof validateCourseBundle> {
+    try {
+      return validateCourseBundle(JSON.parse(json));
+    } catch {
+      return {
+        bundle: null,
+        report: {
+          valid: false,
+          errors: [{ path: '', message: 'File is not valid JSON' }],
+          warnings: [],
+          moduleCount: 0,
+          quizCount: 0,
+        },
+      };
+    }
+  }
+
+  private static async resolveReels(bundle: CourseBundle, report: CourseImportResult['report']): Promise<CourseBundle> {
+    const reelIds = bundle.modules
+      .filter(module => module.type === 'reel' && module.contentId)
+      .map(module => module.contentId as string)
+      .filter(isUUID);
+    const available = await courseApi.getReels([...new Set(reelIds)]);
+
+    return detachMissingReels(bundle, new Set(available.map(reel => reel.id)), report);
+  }
+}
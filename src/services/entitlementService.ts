@@ -0,0 +1,144 @@
+/**
+ * Entitlement Service for Winbro Training Reels
+ * Checks what an organization's subscription plan still allows before users,
+ * machines, videos, storage or courses are added, and reports when the
+ * organization is close to or at a limit
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { PlanEntitlement, PlanResource } from '@/types/billing';
+
+// Fraction of a limit at which a soft warning is raised
+export const SOFT_LIMIT_THRESHOLDS = [0.8, 1] as const;
+
+// SQLSTATE raised by enforce_plan_limit when an insert would exceed the plan
+const PLAN_LIMIT_ERROR_CODE = '53400';
+
+export type PlanLimitEvent =
+  | { type: 'warning'; entitlement: PlanEntitlement; threshold: number }
+  | { type: 'reached'; entitlement: PlanEntitlement };
+
+type PlanLimitListener = (event: PlanLimitEvent) => void;
+
+const formatAmount = (resource: PlanResource, amount: number): string => {
+  if (resource !== 'storage') return `${amount} ${resource}`;
+
+  const gb = amount / 1024 ** 3;
+  return `${gb >= 10 ? Math.round(gb) : Math.round(gb * 10) / 10} GB of storage`;
+};
+
+// Organizations in dunning grace or suspended cannot add anything, whatever the plan
+export const isBillingHold = (entitlement: PlanEntitlement): boolean =>
+  entitlement.organization_status === 'grace' || entitlement.organization_status === 'suspended';
+
+export const describePlanLimit = (entitlement: PlanEntitlement): string => {
+  if (isBillingHold(entitlement)) {
+    return 'Your organization is read-only until the overdue invoice is paid';
+  }
+
+  const plan = entitlement.plan_name ? `The ${entitlement.plan_name} plan` : 'Your plan';
+  return entitlement.limit === null
+    ? `${plan} has no limit on ${entitlement.resource}`
+    : `${plan} includes ${formatAmount(entitlement.resource, entitlement.limit)}`;
+};
+
+/**
+ * Thrown when an action would take an organization past a plan limit
+ */
+export class PlanLimitError extends Error {
+  readonly entitlement: PlanEntitlement;
+
+  constructor(entitlement: PlanEntitlement) {
+    super(`Plan limit reached: ${describePlanLimit(entitlement)}`);
+    this.name = 'PlanLimitError';
+    this.entitlement = entitlement;
+  }
+
+  get resource(): PlanResource {
+    return this.entitlement.resource;
+  }
+}
+
+export class EntitlementService {
+  private static listeners = new Set<PlanLimitListener>();
+
+  /**
+   * Listen for soft-limit warnings and reached limits. Returns an
+   * unsubscribe function.
+   */
+  static subscribe(listener: PlanLimitListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Limit and usage for a resource. Without an organization the caller's
+   * primary organization is checked.
+   */
+  static async check(resource: PlanResource, amount = 1, organizationId?: string): Promise<PlanEntitlement> {
+    const { data, error } = await supabase.rpc('check_plan_entitlement', {
+      p_resource: resource,
+      p_amount: amount,
+      p_organization_id: organizationId ?? null,
+    });
+
+    if (error) throw error;
+    return data as PlanEntitlement;
+  }
+
+  /**
+   * Make sure the plan has room for `amount` more of a resource. Throws
+   * PlanLimitError when it does not, and warns when the action leaves the
+   * organization at or above a soft threshold.
+   */
+  static async require(resource: PlanResource, amount = 1, organizationId?: string): Promise<PlanEntitlement> {
+    const entitlement = await this.check(resource, amount, organizationId);
+
+    if (!entitlement.allowed) {
+      this.emit({ type: 'reached', entitlement });
+      throw new PlanLimitError(entitlement);
+    }
+
+    if (entitlement.limit) {
+      const ratio = (entitlement.used + entitlement.requested) / entitlement.limit;
+      const threshold = [...SOFT_LIMIT_THRESHOLDS].reverse().find(t => ratio >= t);
+      if (threshold !== undefined) {
+        this.emit({ type: 'warning', entitlement, threshold });
+      }
+    }
+
+    return entitlement;
+  }
+
+  /**
+   * Convert the database's plan limit error (raised when a limit is hit
+   * between the check and the insert) into a PlanLimitError. Other errors
+   * are returned unchanged.
+   */
+  static toPlanLimitError(error: unknown): unknown {
+    if (error instanceof PlanLimitError) return error;
+
+    const { code, details } = (error ?? {}) as { code?: string; details?: string };
+    if (code !== PLAN_LIMIT_ERROR_CODE || !details) return error;
+
+    try {
+      const entitlement = JSON.parse(details) as PlanEntitlement;
+      this.emit({ type: 'reached', entitlement });
+      return new PlanLimitError(entitlement);
+    } catch {
+      return error;
+    }
+  }
+
+  private static emit(event: PlanLimitEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Plan limit listener failed:', error);
+      }
+    });
+  }
+}
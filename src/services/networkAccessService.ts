@@ -0,0 +1,235 @@
+/**
+ * Network Access Service for Winbro Training Reels
+ * Manages each organization's IP (CIDR) and country allow/block lists and
+ * checks the current connection against them at sign-in and whenever the
+ * session is refreshed. The server enforces the lists on its own (an auth
+ * hook and a pre-request check); these checks log refusals and explain them.
+ */
+
+import { supabase } from '@/lib/supabase';
+import type {
+  CurrentNetwork,
+  NetworkAccessDecision,
+  NetworkAccessEvent,
+  NetworkRule,
+  NetworkRuleInsert,
+} from '@/types/networkAccess';
+
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+const COUNTRY_PATTERN = /^[A-Z]{2}$/;
+
+type NetworkAccessListener = (decision: NetworkAccessDecision, event: NetworkAccessEvent) => void;
+
+/**
+ * Normalize a CIDR or single address as Postgres stores it. Throws for
+ * anything Postgres would reject, with a message an admin can act on.
+ */
+export const normalizeCidr = (value: string): string => {
+  const [address, prefix, ...rest] = value.trim().split('/');
+  if (!address || rest.length > 0) {
+    throw new Error(`"${value}" is not an IP address or CIDR range`);
+  }
+
+  const ipv4 = IPV4_PATTERN.exec(address);
+  if (ipv4) {
+    const octets = ipv4.slice(1).map(Number);
+    const bits = prefix === undefined ? 32 : Number(prefix);
+    if (octets.some(octet => octet > 255) || !Number.isInteger(bits) || bits < 0 || bits > 32) {
+      throw new Error(`"${value}" is not a valid IPv4 address or range`);
+    }
+
+    const host = octets.reduce((acc, octet) => acc * 256 + octet, 0) % 2 ** (32 - bits);
+    if (host !== 0) {
+      throw new Error(`"${value}" has host bits set; did you mean the network address of this /${bits}?`);
+    }
+    return `${octets.join('.')}/${bits}`;
+  }
+
+  // IPv6 is left to Postgres to validate
+  if (address.includes(':')) {
+    const bits = prefix === undefined ? 128 : Number(prefix);
+    if (!Number.isInteger(bits) || bits < 0 || bits > 128) {
+      throw new Error(`"${value}" is not a valid IPv6 address or range`);
+    }
+    return `${address.toLowerCase()}/${bits}`;
+  }
+
+  throw new Error(`"${value}" is not an IP address or CIDR range`);
+};
+
+export const describeNetworkRule = (rule: Pick<NetworkRule, 'cidr' | 'country_code'>): string =>
+  rule.cidr ?? `Country ${rule.country_code}`;
+
+/**
+ * Thrown when an organization's network rules refuse the current connection
+ */
+export class NetworkAccessError extends Error {
+  readonly decision: NetworkAccessDecision;
+
+  constructor(decision: NetworkAccessDecision) {
+    super(
+      decision.reason === 'blocked'
+        ? 'Sign-in from this network is blocked by your organization'
+        : 'Your organization only allows sign-in from approved networks'
+    );
+    this.name = 'NetworkAccessError';
+    this.decision = decision;
+  }
+}
+
+export class NetworkAccessService {
+  private static listeners = new Set<NetworkAccessListener>();
+
+  /**
+   * Listen for connections refused by network rules. Returns an
+   * unsubscribe function.
+   */
+  static subscribe(listener: NetworkAccessListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Check the signed-in user's connection against the rules of their
+   * organizations. A refusal is logged as a security event and ends the
+   * session on the server.
+   */
+  static async check(event: NetworkAccessEvent): Promise<NetworkAccessDecision> {
+    const { data, error } = await supabase.rpc('check_network_access', { p_event: event });
+
+    if (error) throw error;
+    return data as NetworkAccessDecision;
+  }
+
+  /**
+   * Like check, but throws NetworkAccessError when the connection is refused
+   */
+  static async require(event: NetworkAccessEvent): Promise<NetworkAccessDecision> {
+    const decision = await this.check(event);
+
+    if (!decision.allowed) {
+      this.emit(decision, event);
+      throw new NetworkAccessError(decision);
+    }
+
+    return decision;
+  }
+
+  /**
+   * Re-check the connection every time the session is refreshed and sign
+   * out when it is refused or cannot be checked. Returns an unsubscribe
+   * function.
+   */
+  static watchSessionRefresh(): () => void {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(event => {
+      if (event !== 'TOKEN_REFRESHED') return;
+
+      // Supabase calls made inside the auth callback wait on the refresh
+      // that triggered it, so the check runs once the callback returns
+      setTimeout(() => {
+        this.require('session_refresh').catch(async error => {
+          if (!(error instanceof NetworkAccessError)) {
+            console.error('Network access check failed:', error);
+          }
+          await supabase.auth.signOut();
+        });
+      }, 0);
+    });
+
+    return () => subscription.unsubscribe();
+  }
+
+  /**
+   * IP address and country of the current connection as the API sees them
+   */
+  static async getCurrentNetwork(): Promise<CurrentNetwork> {
+    const { data, error } = await supabase.rpc('get_request_context');
+
+    if (error) throw error;
+    const context = data as { ip: string | null; country: string | null };
+    return { ip: context.ip, country: context.country };
+  }
+
+  /**
+   * Get an organization's allow and block rules
+   */
+  static async getRules(organizationId: string): Promise<NetworkRule[]> {
+    const { data, error } = await supabase
+      .from('organization_network_rules')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('rule_type')
+      .order('created_at');
+
+    if (error) throw error;
+    return (data ?? []) as NetworkRule[];
+  }
+
+  /**
+   * Add a rule. The database refuses rules that would block the admin's own
+   * current connection.
+   */
+  static async addRule(organizationId: string, rule: NetworkRuleInsert, createdBy: string): Promise<NetworkRule> {
+    const cidr = rule.cidr?.trim() ? normalizeCidr(rule.cidr) : null;
+    const countryCode = rule.country_code?.trim().toUpperCase() || null;
+
+    if (!cidr === !countryCode) {
+      throw new Error('Enter either an IP range or a country');
+    }
+    if (countryCode && !COUNTRY_PATTERN.test(countryCode)) {
+      throw new Error('Country must be a two-letter ISO code, e.g. DE');
+    }
+
+    const { data, error } = await supabase
+      .from('organization_network_rules')
+      .insert({
+        organization_id: organizationId,
+        rule_type: rule.rule_type,
+        cidr,
+        country_code: countryCode,
+        description: rule.description?.trim() ?? '',
+        created_by: createdBy,
+      })
+      .select()
+      .single();
+
+    if (error) throw this.toRuleError(error);
+    return data as NetworkRule;
+  }
+
+  /**
+   * Delete a rule. Removing the allow rule that covers the admin's own
+   * connection is refused.
+   */
+  static async deleteRule(ruleId: string): Promise<void> {
+    const { error } = await supabase
+      .from('organization_network_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) throw this.toRuleError(error);
+  }
+
+  // Lockout and duplicate errors carry a message worth showing as is
+  private static toRuleError(error: { code?: string; message: string; hint?: string | null }): Error {
+    if (error.code === '55000') {
+      return new Error(error.hint ? `${error.message}. ${error.hint}.` : error.message);
+    }
+    if (error.code === '23505') {
+      return new Error('That rule already exists');
+    }
+    return error instanceof Error ? error : new Error(error.message);
+  }
+
+  private static emit(decision: NetworkAccessDecision, event: NetworkAccessEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(decision, event);
+      } catch (error) {
+        console.error('Network access listener failed:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,372 @@
+/**
+ * Security Policy Service for Winbro Training Reels
+ * Runs the rules of the security settings at login, password change and
+ * admin actions. Every rule that triggers is logged as a security event;
+ * warn rules are reported to listeners and block rules stop the action.
+ *
+ * The server runs the same rules and has the final say: the auth-hook edge
+ * function at sign-in, and security-checkpoint for password changes and
+ * admin actions. Rules evaluated here only give early warnings.
+ */
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { compileCondition, type CompiledCondition } from '@/lib/ruleExpression';
+import { securityConfig, type SecurityPolicy, type SecurityRule } from '@/settings/securityConfig';
+import { securityMonitoring } from '@/services/securityService';
+import type { TwoFactorStatus } from '@/types/sessions';
+
+export type SecurityCheckpoint = 'login' | 'password_change' | 'admin_action';
+
+/**
+ * Values a rule condition can read. Times are epoch milliseconds. A rule
+ * only runs when every top-level name it reads is present, so password
+ * rules are skipped at login and admin rules outside admin actions.
+ */
+export interface SecurityRuleContext {
+  now: number;
+  password?: string;
+  session?: {
+    startedAt: number | null;
+    expiresAt: number | null;
+  };
+  request?: {
+    ip: string | null;
+    country: string | null; // ISO 3166-1 alpha-2, when the CDN reports it
+    userAgent: string | null;
+    isAuthenticated: boolean;
+  };
+  user?: {
+    id: string;
+    email: string | null;
+    role: string | null; // platform role from users.role
+    roles: string[]; // active user_roles
+  };
+  mfa?: {
+    enabled: boolean;
+    verified: boolean;
+    required: boolean;
+  };
+  action?: {
+    name: string;
+    category: string;
+    resourceType: string | null;
+    resourceId: string | null;
+  };
+}
+
+export interface SecurityAction {
+  name: string;
+  category: string;
+  resourceType?: string;
+  resourceId?: string;
+}
+
+export type RuleEvaluationStatus = 'skipped' | 'passed' | 'triggered' | 'error';
+
+export interface RuleEvaluation {
+  policy: SecurityPolicy;
+  rule: SecurityRule;
+  status: RuleEvaluationStatus;
+  // Context names the rule needs but did not get (skipped)
+  missing?: string[];
+  // Syntax or evaluation error (error)
+  message?: string;
+}
+
+export type SecurityPolicyEvent =
+  | { type: 'warning'; checkpoint: SecurityCheckpoint; evaluation: RuleEvaluation }
+  | { type: 'blocked'; checkpoint: SecurityCheckpoint; evaluations: RuleEvaluation[] };
+
+type SecurityPolicyListener = (event: SecurityPolicyEvent) => void;
+
+// Rule actions shown to the user without stopping the action
+const WARNING_ACTIONS: SecurityRule['action'][] = ['warn', 'alert', 'notify'];
+
+const CHECKPOINT_LABELS: Record<SecurityCheckpoint, string> = {
+  login: 'sign-in',
+  password_change: 'password change',
+  admin_action: 'admin action',
+};
+
+/**
+ * Thrown when a block rule triggers at a checkpoint
+ */
+export class SecurityPolicyError extends Error {
+  readonly checkpoint: SecurityCheckpoint;
+  readonly evaluations: RuleEvaluation[];
+
+  constructor(checkpoint: SecurityCheckpoint, evaluations: RuleEvaluation[]) {
+    super(evaluations.map(evaluation => evaluation.rule.description).join('. '));
+    this.name = 'SecurityPolicyError';
+    this.checkpoint = checkpoint;
+    this.evaluations = evaluations;
+  }
+}
+
+export class SecurityPolicyService {
+  private static listeners = new Set<SecurityPolicyListener>();
+  private static compiled = new Map<string, CompiledCondition | Error>();
+
+  /**
+   * Listen for warnings and blocked actions. Returns an unsubscribe
+   * function.
+   */
+  static subscribe(listener: SecurityPolicyListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Run one condition against a context. Throws RuleSyntaxError or
+   * RuleEvaluationError; used by the rule test tool in the security
+   * settings.
+   */
+  static testCondition(condition: string, context: Record<string, unknown>): { result: boolean; roots: string[] } {
+    const compiled = compileCondition(condition);
+    return { result: compiled.evaluate(context), roots: compiled.roots };
+  }
+
+  /**
+   * Run every enabled rule of the enabled policies against a context.
+   * Nothing is logged or enforced.
+   */
+  static evaluate(context: SecurityRuleContext): RuleEvaluation[] {
+    const values = context as unknown as Record<string, unknown>;
+
+    return securityConfig.getEnabledPolicies().flatMap(policy =>
+      policy.rules
+        .filter(rule => rule.enabled)
+        .map((rule): RuleEvaluation => {
+          const compiled = this.compile(rule.condition);
+          if (compiled instanceof Error) {
+            return { policy, rule, status: 'error', message: compiled.message };
+          }
+
+          const missing = compiled.roots.filter(root => values[root] === undefined);
+          if (missing.length > 0) {
+            return { policy, rule, status: 'skipped', missing };
+          }
+
+          try {
+            return { policy, rule, status: compiled.evaluate(values) ? 'triggered' : 'passed' };
+          } catch (error) {
+            return { policy, rule, status: 'error', message: error instanceof Error ? error.message : String(error) };
+          }
+        })
+    );
+  }
+
+  /**
+   * Evaluate the rules at a checkpoint and apply their actions: log every
+   * triggered rule, warn listeners, and throw SecurityPolicyError when a
+   * block rule triggers. Rules that fail to evaluate are logged and do not
+   * block.
+   */
+  static async enforce(checkpoint: SecurityCheckpoint, context: SecurityRuleContext): Promise<RuleEvaluation[]> {
+    const evaluations = this.evaluate(context);
+    const triggered = evaluations.filter(evaluation => evaluation.status === 'triggered');
+    const failed = evaluations.filter(evaluation => evaluation.status === 'error');
+
+    failed.forEach(evaluation => console.error(`Security rule "${evaluation.rule.id}" failed:`, evaluation.message));
+    await Promise.all([...triggered, ...failed].map(evaluation => this.record(checkpoint, context, evaluation)));
+
+    const blocked = triggered.filter(evaluation => evaluation.rule.action === 'block');
+    if (blocked.length > 0) {
+      this.emit({ type: 'blocked', checkpoint, evaluations: blocked });
+      throw new SecurityPolicyError(checkpoint, blocked);
+    }
+
+    triggered
+      .filter(evaluation => WARNING_ACTIONS.includes(evaluation.rule.action))
+      .forEach(evaluation => this.emit({ type: 'warning', checkpoint, evaluation }));
+
+    return evaluations;
+  }
+
+  /**
+   * Build the context of the signed-in user and enforce a checkpoint.
+   * Password changes pass the new password; admin actions describe the
+   * action.
+   */
+  static async require(
+    checkpoint: SecurityCheckpoint,
+    input: { password?: string; action?: SecurityAction } = {}
+  ): Promise<RuleEvaluation[]> {
+    const context = await this.buildContext(input);
+    return this.enforce(checkpoint, context);
+  }
+
+  /**
+   * Change the signed-in user's password through security-checkpoint, which
+   * runs the password_change rules and refuses the change when one blocks
+   */
+  static async changePassword(password: string): Promise<void> {
+    await this.runServerCheckpoint('password_change', 'security-checkpoint/password', { password });
+  }
+
+  /**
+   * Run the admin_action rules on the server before an admin action
+   */
+  static async authorizeAdminAction(action: SecurityAction): Promise<void> {
+    await this.runServerCheckpoint('admin_action', 'security-checkpoint/admin-action', { action });
+  }
+
+  /**
+   * Context of the signed-in user: role, MFA state, session and the
+   * request's IP address and user agent
+   */
+  static async buildContext(input: { password?: string; action?: SecurityAction } = {}): Promise<SecurityRuleContext> {
+    await securityConfig.syncPolicies();
+
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError) {
+      throw sessionError;
+    }
+
+    const context: SecurityRuleContext = {
+      now: Date.now(),
+      ...(input.password !== undefined && { password: input.password }),
+      ...(input.action && {
+        action: {
+          name: input.action.name,
+          category: input.action.category,
+          resourceType: input.action.resourceType ?? null,
+          resourceId: input.action.resourceId ?? null,
+        },
+      }),
+    };
+
+    const [requestContext, userRow, roles, twoFactor] = await Promise.all([
+      supabase.rpc('get_request_context'),
+      session
+        ? supabase.from('users').select('role').eq('id', session.user.id).maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+      session
+        ? supabase.from('user_roles').select('role_name').eq('user_id', session.user.id).eq('is_active', true)
+        : Promise.resolve({ data: null, error: null }),
+      session ? supabase.rpc('get_two_factor_status') : Promise.resolve({ data: null, error: null }),
+    ]);
+
+    for (const { error } of [requestContext, userRow, roles, twoFactor]) {
+      if (error) {
+        throw error;
+      }
+    }
+
+    const request = requestContext.data as { ip: string | null; country?: string | null; user_agent: string | null } | null;
+    context.request = {
+      ip: request?.ip ?? null,
+      country: request?.country ?? null,
+      userAgent: request?.user_agent ?? (typeof navigator !== 'undefined' ? navigator.userAgent : null),
+      isAuthenticated: !!session,
+    };
+
+    if (session) {
+      const status = twoFactor.data as TwoFactorStatus | null;
+
+      context.user = {
+        id: session.user.id,
+        email: session.user.email ?? null,
+        role: (userRow.data as { role: string | null } | null)?.role ?? null,
+        roles: ((roles.data ?? []) as { role_name: string }[]).map(row => row.role_name),
+      };
+      context.mfa = {
+        enabled: !!status?.enabled,
+        verified: !!status?.session_verified,
+        required: !!status?.required || securityConfig.getSSOConfig().requireMFA,
+      };
+      context.session = {
+        startedAt: session.user.last_sign_in_at ? Date.parse(session.user.last_sign_in_at) : null,
+        expiresAt: session.expires_at ? session.expires_at * 1000 : null,
+      };
+    }
+
+    return context;
+  }
+
+  // Report the server's warnings and blocks the way enforce does
+  private static async runServerCheckpoint(
+    checkpoint: SecurityCheckpoint,
+    functionName: string,
+    body: Record<string, unknown>
+  ): Promise<void> {
+    const { data, error } = await supabase.functions.invoke<{ warnings: RuleEvaluation[] }>(functionName, { body });
+
+    if (error) {
+      const response = error instanceof FunctionsHttpError
+        ? await (error.context as Response).json().catch(() => null)
+        : null;
+
+      if (Array.isArray(response?.blocked)) {
+        const blocked = response.blocked as RuleEvaluation[];
+        this.emit({ type: 'blocked', checkpoint, evaluations: blocked });
+        throw new SecurityPolicyError(checkpoint, blocked);
+      }
+      throw new Error(typeof response?.error === 'string' ? response.error : error.message);
+    }
+
+    (data?.warnings ?? []).forEach(evaluation => this.emit({ type: 'warning', checkpoint, evaluation }));
+  }
+
+  private static compile(condition: string): CompiledCondition | Error {
+    let compiled = this.compiled.get(condition);
+    if (!compiled) {
+      try {
+        compiled = compileCondition(condition);
+      } catch (error) {
+        compiled = error instanceof Error ? error : new Error(String(error));
+      }
+      this.compiled.set(condition, compiled);
+    }
+    return compiled;
+  }
+
+  // The password is never part of the event
+  private static async record(
+    checkpoint: SecurityCheckpoint,
+    context: SecurityRuleContext,
+    evaluation: RuleEvaluation
+  ): Promise<void> {
+    const { policy, rule, status } = evaluation;
+
+    try {
+      await securityMonitoring.logSecurityEvent(
+        context.user?.id ?? null,
+        {
+          eventType: status === 'error' ? 'security_rule_error' : 'security_rule_triggered',
+          severity: status === 'error' ? 'medium' : policy.severity,
+          title: `${rule.name} ${status === 'error' ? 'failed' : 'triggered'} at ${CHECKPOINT_LABELS[checkpoint]}`,
+          description: status === 'error' ? evaluation.message : rule.description,
+          metadata: {
+            checkpoint,
+            policy: policy.name,
+            rule_id: rule.id,
+            rule_action: rule.action,
+            condition: rule.condition,
+            ...(context.action && { admin_action: context.action }),
+          },
+        },
+        {
+          ipAddress: context.request?.ip ?? undefined,
+          userAgent: context.request?.userAgent ?? undefined,
+        }
+      );
+    } catch (error) {
+      // Logging must not decide whether the action goes ahead
+      console.error('Security rule event logging failed:', error);
+    }
+  }
+
+  private static emit(event: SecurityPolicyEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Security policy listener failed:', error);
+      }
+    });
+  }
+}
@@ -4,27 +4,36 @@
  */
 
 import { supabase } from '@/lib/supabase';
-import { generateToken } from '@/lib/security';
 // import type { Database } from '@/lib/supabase';
 
 // Database types - these tables don't exist yet
 // type SSOProvider = any;
 // type SCIMConfig = any;
 
+// SAML service provider endpoints (supabase/functions/sso-saml)
+const SAML_FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/sso-saml`;
+// OIDC / OAuth2 relying party endpoints (supabase/functions/sso-oidc)
+const OIDC_FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/sso-oidc`;
+// Inbound SCIM 2.0 endpoints (supabase/functions/scim)
+const SCIM_FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/scim`;
+
 export interface SSOProviderConfig {
   name: string;
   displayName: string;
   providerType: 'saml' | 'oidc' | 'oauth2';
   enabled: boolean;
   config: {
-    entityId?: string;
+    entityId?: string; // SP entity ID / audience; defaults to the metadata URL
     ssoUrl?: string;
-    x509Certificate?: string;
+    x509Certificate?: string; // IdP signing certificate (PEM)
+    idpIssuer?: string;
+    nameIdFormat?: string;
+    issuer?: string; // OIDC issuer; endpoints and signing keys come from its discovery document
     clientId?: string;
-    clientSecret?: string;
-    authorizationUrl?: string;
-    tokenUrl?: string;
-    userInfoUrl?: string;
+    clientSecret?: string; // Write-only: moved server-side on save and never loaded back
+    authorizationUrl?: string; // OAuth2 only
+    tokenUrl?: string; // OAuth2 only
+    userInfoUrl?: string; // OAuth2 only
     scope?: string[];
     attributeMapping?: Record<string, string>;
   };
@@ -35,7 +44,8 @@ export interface SCIMConfiguration {
   customerId: string;
   enabled: boolean;
   endpoint: string;
-  bearerToken: string;
+  bearerToken: string; // Write-only: required from the customer's IdP, stored hashed and never loaded back
+  endpointToken: string; // Sent to the customer's own SCIM endpoint
   userMapping: Record<string, string>;
   groupMapping: Record<string, string>;
   autoProvision: boolean;
@@ -52,6 +62,14 @@ export interface SSOUser {
   attributes: Record<string, any>;
 }
 
+// Response of the sso-saml / sso-oidc redeem endpoints
+interface SSORedemption {
+  user: SSOUser;
+  isNewUser: boolean;
+  redirectTo: string | null;
+  session: { access_token: string; refresh_token: string };
+}
+
 export interface SCIMUser {
   id: string;
   userName: string;
@@ -74,9 +92,10 @@ export class SSOService {
   private static instance: SSOService;
   private ssoProviders = new Map<string, SSOProviderConfig>();
   private scimConfigs = new Map<string, SCIMConfiguration>();
+  private loaded: Promise<void>;
 
   private constructor() {
-    this.loadConfigurations();
+    this.loaded = this.loadConfigurations();
   }
 
   public static getInstance(): SSOService {
@@ -129,7 +148,8 @@ export class SSOService {
           customerId: config.customer_id,
           enabled: config.enabled,
           endpoint: config.endpoint,
-          bearerToken: config.bearer_token,
+          bearerToken: '',
+          endpointToken: config.endpoint_token ?? '',
           userMapping: config.user_mapping as Record<string, string>,
           groupMapping: config.group_mapping as Record<string, string>,
           autoProvision: config.auto_provision,
@@ -247,6 +267,8 @@ export class SSOService {
 
   /**
    * Generate SAML SSO URL
+   * The sso-saml function records the AuthnRequest ID (for InResponseTo)
+   * and redirects to the IdP; relayState is the app path to return to.
    */
   public generateSAMLSSOUrl(providerId: string, relayState?: string): string {
     const provider = this.getSSOProvider(providerId);
@@ -255,131 +277,105 @@ export class SSOService {
     }
 
     const config = provider.config;
-    if (!config.ssoUrl || !config.entityId) {
+    if (!config.ssoUrl || !config.x509Certificate) {
       throw new Error('SAML configuration incomplete');
     }
 
-    // In a real implementation, you would generate a proper SAML request
-    // For now, we'll return a placeholder URL
-    const samlRequest = btoa(`<samlp:AuthnRequest xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" 
-      xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" 
-      ID="${generateToken()}" 
-      Version="2.0" 
-      IssueInstant="${new Date().toISOString()}" 
-      Destination="${config.ssoUrl}">
-      <saml:Issuer>${config.entityId}</saml:Issuer>
-    </samlp:AuthnRequest>`);
-
     const params = new URLSearchParams({
-      SAMLRequest: samlRequest,
-      ...(relayState && { RelayState: relayState })
+      ...(relayState && { redirect_to: relayState })
     });
+    const query = params.toString();
+
+    return `${SAML_FUNCTION_URL}/login/${providerId}${query ? `?${query}` : ''}`;
+  }
+
+  /**
+   * SP metadata URL to give to the customer's IdP
+   */
+  public getSAMLMetadataUrl(providerId: string): string {
+    const provider = this.getSSOProvider(providerId);
+    if (!provider || provider.providerType !== 'saml') {
+      throw new Error('Invalid SAML provider');
+    }
+
+    return `${SAML_FUNCTION_URL}/metadata/${providerId}`;
+  }
+
+  /**
+   * SP metadata XML (entity ID, ACS URL, NameID format) for the provider
+   */
+  public async getSAMLMetadata(providerId: string): Promise<string> {
+    const response = await fetch(this.getSAMLMetadataUrl(providerId));
+
+    if (!response.ok) {
+      throw new Error(`Failed to load SAML metadata: ${response.statusText}`);
+    }
 
-    return `${config.ssoUrl}?${params.toString()}`;
+    return response.text();
   }
 
   /**
    * Generate OIDC/OAuth2 SSO URL
+   * The sso-oidc function creates state, nonce and the PKCE verifier, keeps
+   * them server-side and redirects to the IdP; redirectTo is the app path to
+   * return to.
    */
-  public generateOIDCSSOUrl(providerId: string, state?: string): string {
+  public generateOIDCSSOUrl(providerId: string, redirectTo?: string): string {
     const provider = this.getSSOProvider(providerId);
     if (!provider || (provider.providerType !== 'oidc' && provider.providerType !== 'oauth2')) {
       throw new Error('Invalid OIDC/OAuth2 provider');
     }
 
     const config = provider.config;
-    if (!config.authorizationUrl || !config.clientId) {
+    const configured = provider.providerType === 'oidc'
+      ? config.issuer
+      : config.authorizationUrl && config.tokenUrl && config.userInfoUrl;
+    if (!configured || !config.clientId) {
       throw new Error('OIDC/OAuth2 configuration incomplete');
     }
 
     const params = new URLSearchParams({
-      response_type: 'code',
-      client_id: config.clientId,
-      redirect_uri: `${window.location.origin}/auth/sso/callback`,
-      scope: (config.scope || ['openid', 'email', 'profile']).join(' '),
-      ...(state && { state }),
-      ...(config.scope?.includes('openid') && { nonce: generateToken() })
+      ...(redirectTo && { redirect_to: redirectTo })
     });
+    const query = params.toString();
+
+    return `${OIDC_FUNCTION_URL}/login/${providerId}${query ? `?${query}` : ''}`;
+  }
 
-    return `${config.authorizationUrl}?${params.toString()}`;
+  /**
+   * Redirect URI to register with the customer's OIDC/OAuth2 IdP
+   */
+  public getOIDCRedirectUri(providerId: string): string {
+    return `${OIDC_FUNCTION_URL}/callback/${providerId}`;
   }
 
   /**
    * Process SSO callback
+   * The edge function redeems the handoff code, creates or links the account
+   * and signs it in; the session it returns is stored here.
    */
   public async processSSOCallback(
     providerId: string,
-    code: string,
-    _state?: string
-  ): Promise<{ user: SSOUser; isNewUser: boolean }> {
+    code: string
+  ): Promise<{ user: SSOUser; isNewUser: boolean; redirectTo: string | null }> {
+    await this.loaded;
+
     const provider = this.getSSOProvider(providerId);
     if (!provider) {
       throw new Error('SSO provider not found');
     }
 
     try {
-      let ssoUser: SSOUser;
-
-      if (provider.providerType === 'saml') {
-        ssoUser = await this.processSAMLCallback(provider, code);
-      } else {
-        ssoUser = await this.processOIDCCallback(provider, code);
-      }
+      const result = provider.providerType === 'saml'
+        ? await this.processSAMLCallback(providerId, code)
+        : await this.processOIDCCallback(providerId, code);
 
-      // Check if user exists
-      const { data: existingUser, error: userError } = await supabase
-        .from('users')
-        .select('*')
-        .eq('email', ssoUser.email)
-        .single();
-
-      if (userError && userError.code !== 'PGRST116') {
-        throw userError;
-      }
-
-      const isNewUser = !existingUser;
-
-      if (isNewUser) {
-        // Create new user
-        const { data: newUser, error: createError } = await supabase
-          .from('users')
-          .insert({
-            email: ssoUser.email,
-            full_name: ssoUser.displayName,
-            role: 'learner', // Default role
-            company: provider.customerId || 'Unknown',
-            email_verified: true
-          })
-          .select()
-          .single();
-
-        if (createError) {
-          throw createError;
-        }
-
-        // Auto-provision if SCIM is configured
-        if (provider.customerId) {
-          const scimConfig = this.scimConfigs.get(provider.customerId);
-          if (scimConfig?.autoProvision) {
-            await this.provisionUser(newUser.id, ssoUser, scimConfig);
-          }
-        }
-      } else {
-        // Update existing user
-        const { error: updateError } = await supabase
-          .from('users')
-          .update({
-            full_name: ssoUser.displayName,
-            email_verified: true
-          })
-          .eq('id', existingUser.id);
-
-        if (updateError) {
-          throw updateError;
-        }
+      const { error } = await supabase.auth.setSession(result.session);
+      if (error) {
+        throw error;
       }
 
-      return { user: ssoUser, isNewUser };
+      return { user: result.user, isNewUser: result.isNewUser, redirectTo: result.redirectTo };
     } catch (error) {
       console.error('SSO callback processing failed:', error);
       throw error;
@@ -388,82 +384,45 @@ export class SSOService {
 
   /**
    * Process SAML callback
+   * The IdP posts its response to the sso-saml ACS, which checks the signature
+   * against the IdP certificate, audience, NotBefore/NotOnOrAfter and
+   * InResponseTo, maps attributes, and redirects here with a single-use code.
    */
-  private async processSAMLCallback(_provider: SSOProviderConfig, _samlResponse: string): Promise<SSOUser> {
-    // In a real implementation, you would:
-    // 1. Decode and validate the SAML response
-    // 2. Verify the digital signature
-    // 3. Extract user attributes
-    
-    // For now, we'll return a mock user
-    return {
-      id: generateToken(),
-      email: 'user@example.com',
-      firstName: 'John',
-      lastName: 'Doe',
-      displayName: 'John Doe',
-      groups: [],
-      attributes: {}
-    };
+  private async processSAMLCallback(providerId: string, code: string): Promise<SSORedemption> {
+    const { data, error } = await supabase.functions.invoke<SSORedemption>('sso-saml/redeem', {
+      body: { providerId, code }
+    });
+
+    if (error) {
+      throw new Error(`SAML login failed: ${error.message}`);
+    }
+    if (!data?.session) {
+      throw new Error('SAML login failed: no session returned');
+    }
+
+    return data;
   }
 
   /**
    * Process OIDC callback
+   * The IdP redirects to the sso-oidc callback, which checks state against the
+   * browser cookie, redeems the code with the PKCE verifier and client secret,
+   * verifies the ID token (JWKS signature, iss, aud, exp, nonce), maps claims,
+   * and redirects here with a single-use code.
    */
-  private async processOIDCCallback(provider: SSOProviderConfig, code: string): Promise<SSOUser> {
-    const config = provider.config;
-    
-    // Exchange code for token
-    const tokenResponse = await fetch(config.tokenUrl!, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams({
-        grant_type: 'authorization_code',
-        code,
-        client_id: config.clientId!,
-        client_secret: config.clientSecret!,
-        redirect_uri: `${window.location.origin}/auth/sso/callback`
-      })
+  private async processOIDCCallback(providerId: string, code: string): Promise<SSORedemption> {
+    const { data, error } = await supabase.functions.invoke<SSORedemption>('sso-oidc/redeem', {
+      body: { providerId, code }
     });
 
-    if (!tokenResponse.ok) {
-      throw new Error('Failed to exchange code for token');
+    if (error) {
+      throw new Error(`OIDC login failed: ${error.message}`);
     }
-
-    const tokenData = await tokenResponse.json();
-    const accessToken = tokenData.access_token;
-
-    // Get user info
-    const userInfoResponse = await fetch(config.userInfoUrl!, {
-      headers: {
-        'Authorization': `Bearer ${accessToken}`
-      }
-    });
-
-    if (!userInfoResponse.ok) {
-      throw new Error('Failed to get user info');
+    if (!data?.session) {
+      throw new Error('OIDC login failed: no session returned');
     }
 
-    const userInfo = await userInfoResponse.json();
-
-    // Map attributes based on configuration
-    const attributeMapping = config.attributeMapping || {};
-    const email = userInfo[attributeMapping.email || 'email'];
-    const firstName = userInfo[attributeMapping.firstName || 'given_name'];
-    const lastName = userInfo[attributeMapping.lastName || 'family_name'];
-    const groups = userInfo[attributeMapping.groups || 'groups'] || [];
-
-    return {
-      id: userInfo.sub || userInfo.id,
-      email,
-      firstName,
-      lastName,
-      displayName: `${firstName} ${lastName}`,
-      groups,
-      attributes: userInfo
-    };
+    return data;
   }
 
   /**
@@ -471,18 +430,26 @@ export class SSOService {
    */
   public async configureSCIM(config: SCIMConfiguration): Promise<void> {
     try {
-      const { error } = await supabase
-        .from('scim_configs')
-        .upsert({
-          customer_id: config.customerId,
-          enabled: config.enabled,
-          endpoint: config.endpoint,
-          bearer_token: config.bearerToken,
-          user_mapping: config.userMapping,
-          group_mapping: config.groupMapping,
-          auto_provision: config.autoProvision,
-          auto_deprovision: config.autoDeprovision
-        });
+      const settings = {
+        customer_id: config.customerId,
+        enabled: config.enabled,
+        endpoint: config.endpoint,
+        endpoint_token: config.endpointToken || null,
+        user_mapping: config.userMapping,
+        group_mapping: config.groupMapping,
+        auto_provision: config.autoProvision,
+        auto_deprovision: config.autoDeprovision
+      };
+
+      // Without a new bearer token the stored hash is kept
+      const { error } = config.bearerToken
+        ? await supabase
+            .from('scim_configs')
+            .upsert({ ...settings, bearer_token: config.bearerToken }, { onConflict: 'customer_id' })
+        : await supabase
+            .from('scim_configs')
+            .update(settings)
+            .eq('customer_id', config.customerId);
 
       if (error) {
         console.error('Failed to configure SCIM:', error);
@@ -527,7 +494,7 @@ export class SSOService {
       const response = await fetch(`${scimConfig.endpoint}/Users`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${scimConfig.bearerToken}`,
+          'Authorization': `Bearer ${scimConfig.endpointToken}`,
           'Content-Type': 'application/scim+json'
         },
         body: JSON.stringify(scimUser)
@@ -553,7 +520,7 @@ export class SSOService {
       const response = await fetch(`${scimConfig.endpoint}/Users/${userId}`, {
         method: 'DELETE',
         headers: {
-          'Authorization': `Bearer ${scimConfig.bearerToken}`
+          'Authorization': `Bearer ${scimConfig.endpointToken}`
         }
       });
 
@@ -578,7 +545,7 @@ export class SSOService {
     try {
       const response = await fetch(`${scimConfig.endpoint}/Users`, {
         headers: {
-          'Authorization': `Bearer ${scimConfig.bearerToken}`,
+          'Authorization': `Bearer ${scimConfig.endpointToken}`,
           'Accept': 'application/scim+json'
         }
       });
@@ -646,6 +613,15 @@ export class SSOService {
     return this.scimConfigs.get(customerId) || null;
   }
 
+  /**
+   * SCIM base URL to give to the customer's IdP for pushing users and groups.
+   * The IdP authenticates with the bearer token given to configureSCIM
+   * (only its hash is kept); groupMapping maps SCIM group names onto roles.
+   */
+  public getSCIMBaseUrl(customerId: string): string {
+    return `${SCIM_FUNCTION_URL}/${customerId}`;
+  }
+
   /**
    * Test SCIM connection
    */
@@ -659,7 +635,7 @@ export class SSOService {
       const response = await fetch(`${scimConfig.endpoint}/Users`, {
         method: 'GET',
         headers: {
-          'Authorization': `Bearer ${scimConfig.bearerToken}`,
+          'Authorization': `Bearer ${scimConfig.endpointToken}`,
           'Accept': 'application/scim+json'
         }
       });
@@ -10,13 +10,19 @@ import type {
   CreateVideoInput, 
   VideoUploadProgress,
   VideoProcessingStatus,
-  VideoStatus
+  VideoStatus,
+  VideoEventType,
+  VideoPlaybackEventInput
 } from '@/types/video';
 import type { 
   ContentAssignmentRequest,
-  CustomerContentSummary
+  CustomerContentSummary,
+  ContentAnalyticsEvent
 } from '@/types/customer';
 
+// Event types recorded in customer content analytics
+const CUSTOMER_TRACKED_EVENTS: VideoEventType[] = ['view', 'download', 'bookmark', 'complete', 'share'];
+
 /**
  * Video Upload Service
  * Provides high-level video upload operations with customer content integration
@@ -443,17 +449,24 @@ export class VideoUploadService {
   }
 
   /**
-   * Track video event with customer context
+   * Track video event, plus customer content analytics when the user belongs to a customer
    */
   static async trackVideoEvent(
     videoId: string,
-    eventType: 'view' | 'download' | 'bookmark' | 'complete' | 'share',
+    eventType: VideoEventType,
     userId?: string,
-    eventData?: Record<string, any>
+    eventData?: Partial<Omit<VideoPlaybackEventInput, 'video_id' | 'event_type'>>
   ): Promise<void> {
     try {
-      // Get user's customer context
-      if (userId) {
+      await VideoAPI.recordPlaybackEvent({
+        ...eventData,
+        video_id: videoId,
+        event_type: eventType,
+        session_id: eventData?.session_id || crypto.randomUUID()
+      });
+
+      // Customer analytics only covers engagement events, not player controls
+      if (userId && CUSTOMER_TRACKED_EVENTS.includes(eventType)) {
         const { data: user } = await (await import('@/lib/supabase')).supabase
           .from('users')
           .select('company')
@@ -467,8 +480,9 @@ export class VideoUploadService {
               customer_id: customer.id,
               video_id: videoId,
               user_id: userId,
-              event_type: eventType,
-              event_data: eventData
+              event_type: eventType as ContentAnalyticsEvent['event_type'],
+              event_data: eventData?.event_data,
+              session_id: eventData?.session_id
             });
           }
         }
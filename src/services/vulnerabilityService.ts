@@ -5,6 +5,15 @@
 
 import { supabase } from '@/lib/supabase';
 import { encryptData, generateKey } from '@/lib/security';
+import { parseLockfile, traceDependency, type DependencyGraph, type LockfilePackage } from '@/lib/npmLockfile';
+import {
+  advisoryCve,
+  advisorySeverity,
+  matchAdvisory,
+  npmPackages,
+  readOsvDump,
+  type OsvAdvisory,
+} from '@/lib/osv';
 // import type { Database } from '@/lib/supabase';
 
 // Database types - these tables don't exist yet
@@ -31,6 +40,13 @@ export interface VulnerabilityReport {
   assignedTo?: string;
   dueDate?: string;
   resolvedAt?: string;
+  // Dependency findings
+  advisoryId?: string;
+  packageName?: string;
+  installedVersion?: string;
+  fixedVersion?: string; // lowest release with the fix; unset when there is none
+  dependencyPath?: string[]; // name@version from a direct dependency down to the package
+  directDependencies?: string[]; // direct dependencies that pull the package in
 }
 
 export interface SecurityScanResult {
@@ -77,10 +93,22 @@ export interface VulnerabilityMetrics {
   securityScore: number;
 }
 
+export interface AdvisoryDatabaseStatus {
+  advisoryCount: number;
+  lastModified: string | null; // newest modified date among the imported advisories
+}
+
+// Upserts per request when importing advisories
+const ADVISORY_BATCH_SIZE = 500;
+
+const packageLabel = (pkg: LockfilePackage): string => `${pkg.name}@${pkg.version}`;
+
 export class VulnerabilityService {
   private static instance: VulnerabilityService;
   private scanQueue: string[] = [];
   private isScanning = false;
+  // Parsed lockfiles of queued dependency scans, by scan id
+  private dependencyGraphs = new Map<string, DependencyGraph>();
 
   private constructor() {
     this.startScanProcessor();
@@ -100,6 +128,31 @@ export class VulnerabilityService {
     scanType: SecurityScanResult['scanType'],
     target: string,
     options: Record<string, any> = {}
+  ): Promise<string> {
+    return this.queueScan(scanType, target, options);
+  }
+
+  /**
+   * Start a dependency scan of an npm lockfile (package-lock.json v2 or
+   * v3). Throws LockfileError before creating the scan when the lockfile
+   * cannot be read.
+   */
+  public async scanLockfile(lockfile: string, target: string = 'package-lock.json'): Promise<string> {
+    const graph = parseLockfile(lockfile);
+
+    return this.queueScan(
+      'dependency',
+      target,
+      { project: graph.name, lockfileVersion: graph.lockfileVersion, packages: graph.packages.size },
+      graph
+    );
+  }
+
+  private async queueScan(
+    scanType: SecurityScanResult['scanType'],
+    target: string,
+    options: Record<string, unknown>,
+    graph?: DependencyGraph
   ): Promise<string> {
     try {
       const scanId = `scan_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -124,6 +177,9 @@ export class VulnerabilityService {
       }
 
       // Add to scan queue
+      if (graph) {
+        this.dependencyGraphs.set(scanId, graph);
+      }
       this.scanQueue.push(scanId);
       this.processScanQueue();
 
@@ -179,10 +235,10 @@ export class VulnerabilityService {
       
       switch (scan.scan_type) {
         case 'dependency':
-          vulnerabilities = await this.scanDependencies(scan.target);
+          vulnerabilities = await this.scanDependencies(scanId);
           break;
         case 'code':
-          vulnerabilities = await this.scanCode(scan.target);
+          vulnerabilities = await this.scanCode();
           break;
         case 'container':
           vulnerabilities = await this.scanContainer(scan.target);
@@ -231,16 +287,27 @@ export class VulnerabilityService {
           line_number: vuln.lineNumber,
           remediation: vuln.remediation,
           references: vuln.references,
+          advisory_id: vuln.advisoryId,
+          package_name: vuln.packageName,
+          installed_version: vuln.installedVersion,
+          fixed_version: vuln.fixedVersion,
+          dependency_path: vuln.dependencyPath ?? [],
+          direct_dependencies: vuln.directDependencies ?? [],
           status: 'open'
         }));
 
-        await supabase
+        const { error: insertError } = await supabase
           .from('vulnerabilities')
           .insert(vulnerabilityRecords);
+
+        if (insertError) {
+          throw insertError;
+        }
       }
 
     } catch (error) {
       console.error(`Scan ${scanId} failed:`, error);
+      this.dependencyGraphs.delete(scanId);
       
       // Update scan status to failed
       await supabase
@@ -255,61 +322,110 @@ export class VulnerabilityService {
   }
 
   /**
-   * Scan dependencies for vulnerabilities
+   * Scan dependencies for vulnerabilities: match every installed package of
+   * the scan's lockfile against the imported advisories. The same
+   * name@version installed in several places is reported once.
    */
-  private async scanDependencies(_target: string): Promise<VulnerabilityReport[]> {
-    // In a real implementation, this would:
-    // 1. Parse package.json/requirements.txt/etc.
-    // 2. Check against vulnerability databases (NVD, Snyk, etc.)
-    // 3. Return found vulnerabilities
-    
-    // For now, return mock data
-    return [
-      {
-        id: `vuln_${Date.now()}_1`,
-        scanId: '',
-        severity: 'high',
-        category: 'dependency',
-        title: 'Vulnerable Package: lodash',
-        description: 'lodash version 4.17.15 has a prototype pollution vulnerability',
-        cve: 'CVE-2021-23337',
-        cvssScore: 7.2,
-        affectedComponent: 'lodash@4.17.15',
-        remediation: 'Update lodash to version 4.17.21 or later',
-        references: ['https://nvd.nist.gov/vuln/detail/CVE-2021-23337'],
-        discoveredAt: new Date().toISOString(),
-        status: 'open'
+  private async scanDependencies(scanId: string): Promise<VulnerabilityReport[]> {
+    const graph = this.dependencyGraphs.get(scanId);
+    this.dependencyGraphs.delete(scanId);
+
+    if (!graph) {
+      // Lockfiles are held in memory only, so a scan queued before a reload is lost
+      throw new Error('No lockfile to scan; start dependency scans by uploading a package-lock.json');
+    }
+
+    const installed = [...graph.packages.values()].filter(pkg => !pkg.project);
+    const advisories = await this.getAdvisoriesForPackages([...new Set(installed.map(pkg => pkg.name))]);
+
+    const advisoriesByPackage = new Map<string, OsvAdvisory[]>();
+    advisories.forEach(advisory => {
+      npmPackages(advisory).forEach(name => {
+        advisoriesByPackage.set(name, [...(advisoriesByPackage.get(name) ?? []), advisory]);
+      });
+    });
+
+    const findings = new Map<string, VulnerabilityReport>();
+
+    for (const pkg of installed) {
+      for (const advisory of advisoriesByPackage.get(pkg.name) ?? []) {
+        const match = matchAdvisory(advisory, pkg.name, pkg.version);
+        if (!match) continue;
+
+        const trace = traceDependency(graph, pkg.path);
+        const dependencyPath = trace.path.map(packageLabel);
+        const directDependencies = trace.directDependencies.map(direct => direct.name);
+        const key = `${advisory.id} ${packageLabel(pkg)}`;
+        const existing = findings.get(key);
+
+        if (existing) {
+          existing.directDependencies = [...new Set([...(existing.directDependencies ?? []), ...directDependencies])];
+          if (dependencyPath.length > 0 && dependencyPath.length < (existing.dependencyPath?.length || Infinity)) {
+            existing.dependencyPath = dependencyPath;
+          }
+          existing.remediation = this.dependencyRemediation(pkg, existing.directDependencies, match.fixedVersion);
+          continue;
+        }
+
+        const { severity, cvssScore } = advisorySeverity(advisory);
+        findings.set(key, {
+          id: `vuln_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          scanId,
+          severity,
+          category: 'dependency',
+          title: `${pkg.name}: ${advisory.summary || advisory.id}`,
+          description: `${packageLabel(pkg)} is affected by ${advisory.id}${pkg.dev ? ' (development dependency)' : ''}. ${
+            advisory.summary ?? ''
+          }`.trim(),
+          cve: advisoryCve(advisory),
+          cvssScore: cvssScore ?? undefined,
+          affectedComponent: packageLabel(pkg),
+          remediation: this.dependencyRemediation(pkg, directDependencies, match.fixedVersion),
+          references: [
+            `https://osv.dev/vulnerability/${advisory.id}`,
+            ...(advisory.references ?? []).map(reference => reference.url),
+          ],
+          discoveredAt: new Date().toISOString(),
+          status: 'open',
+          advisoryId: advisory.id,
+          packageName: pkg.name,
+          installedVersion: pkg.version,
+          fixedVersion: match.fixedVersion ?? undefined,
+          dependencyPath,
+          directDependencies,
+        });
       }
-    ];
+    }
+
+    return [...findings.values()];
+  }
+
+  /**
+   * What to upgrade to get rid of a vulnerable package
+   */
+  private dependencyRemediation(pkg: LockfilePackage, directDependencies: string[], fixedVersion: string | null): string {
+    if (directDependencies.length === 0) {
+      return `${pkg.name} is installed but no dependency requires it; remove it with npm prune`;
+    }
+    if (!fixedVersion) {
+      return `No fixed release of ${pkg.name} is available; replace or remove ${directDependencies.join(', ')}`;
+    }
+    if (directDependencies.includes(pkg.name)) {
+      const others = directDependencies.filter(name => name !== pkg.name);
+      return `Upgrade ${pkg.name} to ${fixedVersion} or later${
+        others.length > 0 ? `, and ${others.join(', ')} to releases that depend on it` : ''
+      }`;
+    }
+    return `Upgrade ${directDependencies.join(', ')} to a release that depends on ${pkg.name} ${fixedVersion} or later`;
   }
 
   /**
    * Scan code for security issues
    */
-  private async scanCode(_target: string): Promise<VulnerabilityReport[]> {
-    // In a real implementation, this would:
-    // 1. Use static analysis tools (ESLint security, SonarQube, etc.)
-    // 2. Check for common vulnerabilities (OWASP Top 10)
-    // 3. Return found issues
-    
-    // For now, return mock data
-    return [
-      {
-        id: `vuln_${Date.now()}_2`,
-        scanId: '',
-        severity: 'medium',
-        category: 'code',
-        title: 'SQL Injection Vulnerability',
-        description: 'Potential SQL injection in user query construction',
-        affectedComponent: 'src/api/users.ts',
-        filePath: 'src/api/users.ts',
-        lineNumber: 45,
-        remediation: 'Use parameterized queries or prepared statements',
-        references: ['https://owasp.org/www-community/attacks/SQL_Injection'],
-        discoveredAt: new Date().toISOString(),
-        status: 'open'
-      }
-    ];
+  private async scanCode(): Promise<VulnerabilityReport[]> {
+    // Static analysis needs the source tree, which the browser does not
+    // have; failing the scan beats reporting a clean result
+    throw new Error('Code scanning is not available here; run static analysis (npm run lint) in CI');
   }
 
   /**
@@ -524,7 +640,32 @@ export class VulnerabilityService {
         throw error;
       }
 
-      return vulnerabilities || [];
+      return (vulnerabilities || []).map(vulnerability => ({
+        id: vulnerability.id,
+        scanId: vulnerability.scan_id,
+        severity: vulnerability.severity,
+        category: vulnerability.category,
+        title: vulnerability.title,
+        description: vulnerability.description,
+        cve: vulnerability.cve ?? undefined,
+        cvssScore: vulnerability.cvss_score ?? undefined,
+        affectedComponent: vulnerability.affected_component,
+        filePath: vulnerability.file_path ?? undefined,
+        lineNumber: vulnerability.line_number ?? undefined,
+        remediation: vulnerability.remediation,
+        references: vulnerability.references || [],
+        discoveredAt: vulnerability.created_at,
+        status: vulnerability.status,
+        assignedTo: vulnerability.assigned_to ?? undefined,
+        dueDate: vulnerability.due_date ?? undefined,
+        resolvedAt: vulnerability.resolved_at ?? undefined,
+        advisoryId: vulnerability.advisory_id ?? undefined,
+        packageName: vulnerability.package_name ?? undefined,
+        installedVersion: vulnerability.installed_version ?? undefined,
+        fixedVersion: vulnerability.fixed_version ?? undefined,
+        dependencyPath: vulnerability.dependency_path || [],
+        directDependencies: vulnerability.direct_dependencies || []
+      }));
     } catch (error) {
       console.error('Get vulnerabilities by scan failed:', error);
       throw error;
@@ -561,6 +702,98 @@ export class VulnerabilityService {
     }
   }
 
+  /**
+   * Import an OSV dump (one advisory, a JSON array of them, or an
+   * ecosystem all.zip) into the local advisory database. Only advisories
+   * for npm packages are kept; re-imported advisories are replaced.
+   * Returns the number of advisories stored.
+   */
+  public async importAdvisories(dump: Uint8Array): Promise<number> {
+    try {
+      const advisories = readOsvDump(dump);
+
+      for (let i = 0; i < advisories.length; i += ADVISORY_BATCH_SIZE) {
+        const rows = advisories.slice(i, i + ADVISORY_BATCH_SIZE).map(advisory => {
+          const { severity, cvssScore } = advisorySeverity(advisory);
+          return {
+            id: advisory.id,
+            packages: npmPackages(advisory),
+            summary: advisory.summary ?? null,
+            severity,
+            cvss_score: cvssScore,
+            aliases: advisory.aliases ?? [],
+            published_at: advisory.published ?? null,
+            modified_at: advisory.modified,
+            withdrawn_at: advisory.withdrawn ?? null,
+            advisory
+          };
+        });
+
+        const { error } = await supabase
+          .from('vulnerability_advisories')
+          .upsert(rows, { onConflict: 'id' });
+
+        if (error) {
+          throw error;
+        }
+      }
+
+      return advisories.length;
+    } catch (error) {
+      console.error('Import advisories failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Size and freshness of the local advisory database
+   */
+  public async getAdvisoryDatabaseStatus(): Promise<AdvisoryDatabaseStatus> {
+    try {
+      const [{ count, error: countError }, { data: latest, error: latestError }] = await Promise.all([
+        supabase
+          .from('vulnerability_advisories')
+          .select('id', { count: 'exact', head: true }),
+        supabase
+          .from('vulnerability_advisories')
+          .select('modified_at')
+          .order('modified_at', { ascending: false })
+          .limit(1)
+          .maybeSingle()
+      ]);
+
+      if (countError) {
+        throw countError;
+      }
+      if (latestError) {
+        throw latestError;
+      }
+
+      return {
+        advisoryCount: count ?? 0,
+        lastModified: latest?.modified_at ?? null
+      };
+    } catch (error) {
+      console.error('Get advisory database status failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Advisories that mention any of the given npm packages
+   */
+  private async getAdvisoriesForPackages(packageNames: string[]): Promise<OsvAdvisory[]> {
+    if (packageNames.length === 0) return [];
+
+    const { data, error } = await supabase.rpc('advisories_for_packages', { p_packages: packageNames });
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data ?? []) as Array<{ advisory: OsvAdvisory }>).map(row => row.advisory);
+  }
+
   /**
    * Create secret
    */
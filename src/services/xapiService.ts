@@ -0,0 +1,253 @@
+/**
+ * xAPI Service for Winbro Training Reels
+ * Queues xAPI statements for learning events, survives being offline, and
+ * manages each organization's LRS settings
+ */
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { toXAPIStatement, XAPI_VERSION } from '@/lib/xapi';
+import type { LearningAnalyticsInsert } from '@/types/learning-analytics';
+import type { LRSConfig, LRSConfigUpdate, LRSForwardingStatus, XAPIStatement } from '@/types/xapi';
+
+// Built-in LRS (supabase/functions/xapi)
+export const LRS_ENDPOINT = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/xapi`;
+
+// One queue per learner, so statements never go out under another
+// learner's session on a shared browser
+const QUEUE_KEY_PREFIX = 'winbro_xapi_queue:';
+// Shared queue used before queues were kept per learner
+const LEGACY_QUEUE_KEY = 'winbro_xapi_queue';
+// Oldest statements are dropped past this, so a long offline spell cannot
+// fill up storage
+const MAX_QUEUE_LENGTH = 1000;
+const BATCH_SIZE = 50;
+// Matches MAX_FORWARD_ATTEMPTS in the xapi edge function
+const MAX_FORWARD_ATTEMPTS = 10;
+
+export class XAPIService {
+  private static flushing: Promise<void> | null = null;
+  private static listening = false;
+
+  /**
+   * Queue the statement for a learning event and try to send it
+   */
+  static track(event: LearningAnalyticsInsert): void {
+    try {
+      this.enqueue(event.user_id, toXAPIStatement(event, window.location.origin));
+      void this.flush();
+    } catch (error) {
+      console.error('Error queueing xAPI statement:', error);
+    }
+  }
+
+  /**
+   * Send the signed-in learner's queued statements to the LRS in batches.
+   * Statements stay queued while offline or when the request fails, and are
+   * sent again later; the LRS ignores ids it already holds.
+   */
+  static flush(): Promise<void> {
+    this.listen();
+
+    if (!this.flushing) {
+      this.flushing = this.sendQueued().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  static getQueueLength(userId: string): number {
+    return this.readQueue(userId).length;
+  }
+
+  /**
+   * Send what the learner still has queued before they sign out; whatever
+   * cannot be sent is dropped once the session ends
+   */
+  static async flushBeforeSignOut(): Promise<void> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      await this.flush();
+      this.writeQueue(session.user.id, []);
+    } catch (error) {
+      console.error('Error sending xAPI statements before sign-out:', error);
+    }
+  }
+
+  /**
+   * Get an organization's LRS settings, or null when none are saved yet
+   */
+  static async getLRSConfig(organizationId: string): Promise<LRSConfig | null> {
+    const { data, error } = await supabase
+      .from('xapi_lrs_configs')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as LRSConfig | null;
+  }
+
+  /**
+   * Create or update an organization's LRS settings
+   */
+  static async saveLRSConfig(organizationId: string, updates: LRSConfigUpdate): Promise<LRSConfig> {
+    const endpoint = updates.endpoint?.trim();
+    if (endpoint && !/^https:\/\//i.test(endpoint)) {
+      throw new Error('LRS endpoint must use https');
+    }
+
+    const { data, error } = await supabase
+      .from('xapi_lrs_configs')
+      .upsert(
+        {
+          organization_id: organizationId,
+          ...updates,
+          ...(endpoint !== undefined && { endpoint: endpoint.replace(/\/+$/, '') }),
+        },
+        { onConflict: 'organization_id' }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as LRSConfig;
+  }
+
+  /**
+   * Issue new credentials for the built-in LRS; the old ones stop working
+   */
+  static async rotateLRSCredentials(organizationId: string): Promise<LRSConfig> {
+    const { data, error } = await supabase.rpc('rotate_xapi_lrs_credentials', {
+      p_organization_id: organizationId,
+    });
+
+    if (error) throw error;
+    return data as LRSConfig;
+  }
+
+  /**
+   * Statements not yet accepted by the organization's own LRS
+   */
+  static async getForwardingStatus(organizationId: string): Promise<LRSForwardingStatus> {
+    const [pending, failed, lastError] = await Promise.all([
+      supabase
+        .from('xapi_statements')
+        .select('id', { count: 'exact', head: true })
+        .eq('organization_id', organizationId)
+        .is('forwarded_at', null)
+        .lt('forward_attempts', MAX_FORWARD_ATTEMPTS),
+      supabase
+        .from('xapi_statements')
+        .select('id', { count: 'exact', head: true })
+        .eq('organization_id', organizationId)
+        .is('forwarded_at', null)
+        .gte('forward_attempts', MAX_FORWARD_ATTEMPTS),
+      supabase
+        .from('xapi_statements')
+        .select('forward_error')
+        .eq('organization_id', organizationId)
+        .is('forwarded_at', null)
+        .not('forward_error', 'is', null)
+        .order('stored', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    if (pending.error) throw pending.error;
+    if (failed.error) throw failed.error;
+    if (lastError.error) throw lastError.error;
+
+    return {
+      pending: pending.count || 0,
+      failed: failed.count || 0,
+      last_error: lastError.data?.forward_error ?? null,
+    };
+  }
+
+  private static async sendQueued(): Promise<void> {
+    const { data: { session } } = await supabase.auth.getSession();
+    const userId = session?.user.id;
+    if (!userId) return;
+
+    while (navigator.onLine) {
+      const batch = this.readQueue(userId).slice(0, BATCH_SIZE);
+      if (batch.length === 0) return;
+
+      const { error } = await supabase.functions.invoke('xapi/statements', {
+        body: batch,
+        headers: { 'X-Experience-API-Version': XAPI_VERSION },
+      });
+
+      if (error) {
+        // A rejected statement will never be accepted; anything else
+        // (offline, signed out, server error) is retried later
+        if (error instanceof FunctionsHttpError && (error.context as Response).status === 400) {
+          console.error('LRS rejected xAPI statements, dropping them:', error);
+        } else {
+          return;
+        }
+      }
+
+      const sent = new Set(batch.map(statement => statement.id));
+      this.writeQueue(userId, this.readQueue(userId).filter(statement => !sent.has(statement.id)));
+    }
+  }
+
+  private static enqueue(userId: string, statement: XAPIStatement): void {
+    this.writeQueue(userId, [...this.readQueue(userId), statement].slice(-MAX_QUEUE_LENGTH));
+  }
+
+  private static readQueue(userId: string): XAPIStatement[] {
+    try {
+      const stored = localStorage.getItem(QUEUE_KEY_PREFIX + userId);
+      const queue = stored ? JSON.parse(stored) : [];
+      return Array.isArray(queue) ? queue : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private static writeQueue(userId: string, queue: XAPIStatement[]): void {
+    try {
+      if (queue.length === 0) {
+        localStorage.removeItem(QUEUE_KEY_PREFIX + userId);
+      } else {
+        localStorage.setItem(QUEUE_KEY_PREFIX + userId, JSON.stringify(queue));
+      }
+    } catch (error) {
+      console.error('Error saving xAPI queue:', error);
+    }
+  }
+
+  // Send what was queued offline as soon as the browser reconnects, and
+  // drop a learner's queue when their session ends
+  private static listen(): void {
+    if (this.listening || typeof window === 'undefined') return;
+    this.listening = true;
+
+    try {
+      localStorage.removeItem(LEGACY_QUEUE_KEY);
+    } catch {
+      // Storage unavailable; nothing was queued there either
+    }
+
+    window.addEventListener('online', () => {
+      void this.flush();
+    });
+
+    let userId: string | undefined;
+    supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'SIGNED_OUT' && userId) {
+        this.writeQueue(userId, []);
+      }
+      userId = session?.user.id;
+      if (event === 'SIGNED_IN') {
+        void this.flush();
+      }
+    });
+  }
+}
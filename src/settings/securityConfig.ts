@@ -1,9 +1,13 @@
 /**
  * Security Configuration for Winbro Training Reels
- * Centralized security settings and policies
+ * Centralized security settings and policies. The policies are shared with
+ * the server, which enforces them (security-checkpoint and auth-hook edge
+ * functions); the rest of the settings stay in the browser.
  */
 
+import { supabase } from '@/lib/supabase';
 import { SECURITY_CONFIG } from '@/lib/security';
+import { compileCondition, RuleSyntaxError } from '@/lib/ruleExpression';
 
 export interface SecurityPolicy {
   name: string;
@@ -18,8 +22,10 @@ export interface SecurityRule {
   id: string;
   name: string;
   description: string;
+  // Rule expression (see lib/ruleExpression) that is true when the rule is broken
   condition: string;
-  action: 'alert' | 'block' | 'log' | 'notify';
+  // alert and notify are shown to the user like warn
+  action: 'alert' | 'block' | 'log' | 'notify' | 'warn';
   enabled: boolean;
 }
 
@@ -81,6 +87,8 @@ export interface SecuritySettings {
   policies: SecurityPolicy[];
 }
 
+const PASSWORD_COMPLEXITY_CONDITION = 'password.matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\\d)(?=.*[!@#$%^&*()_+\\-=\\[\\]{};\':"\\\\|,.<>\\/?]).+$/)';
+
 /**
  * Default security configuration
  */
@@ -187,7 +195,7 @@ export const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
           id: 'password_length',
           name: 'Minimum Password Length',
           description: 'Passwords must be at least 12 characters long',
-          condition: 'password.length >= 12',
+          condition: 'password.length < 12',
           action: 'block',
           enabled: true
         },
@@ -195,7 +203,7 @@ export const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
           id: 'password_complexity',
           name: 'Password Complexity',
           description: 'Passwords must contain uppercase, lowercase, numbers, and symbols',
-          condition: 'password.matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\\d)(?=.*[!@#$%^&*()_+\\-=\\[\\]{};\':"\\\\|,.<>\\/?]).+$/)',
+          condition: `!${PASSWORD_COMPLEXITY_CONDITION}`,
           action: 'block',
           enabled: true
         }
@@ -337,6 +345,16 @@ export const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
   ]
 };
 
+// Conditions saved before rules were evaluated described the requirement
+// rather than the violation; they are rewritten when settings are loaded
+const LEGACY_CONDITIONS: Record<string, { from: string; to: string }> = {
+  password_length: { from: 'password.length >= 12', to: 'password.length < 12' },
+  password_complexity: { from: PASSWORD_COMPLEXITY_CONDITION, to: `!${PASSWORD_COMPLEXITY_CONDITION}` },
+};
+
+// admin_system_settings row the server reads the policies from
+const POLICIES_SETTING_KEY = 'security_policies';
+
 /**
  * Security configuration manager
  */
@@ -346,7 +364,7 @@ export class SecurityConfigManager {
 
   private constructor() {
     this.settings = { ...DEFAULT_SECURITY_SETTINGS };
-    this.loadSettings();
+    this.loadSettings().then(() => this.syncPolicies());
   }
 
   public static getInstance(): SecurityConfigManager {
@@ -363,7 +381,16 @@ export class SecurityConfigManager {
     try {
       const stored = localStorage.getItem('winbro_security_settings');
       if (stored) {
-        this.settings = { ...this.settings, ...JSON.parse(stored) };
+        const parsed = JSON.parse(stored) as Partial<SecuritySettings>;
+        this.settings = { ...this.settings, ...parsed };
+        this.settings.policies = this.settings.policies.map(policy => ({
+          ...policy,
+          rules: policy.rules.map(rule =>
+            LEGACY_CONDITIONS[rule.id]?.from === rule.condition
+              ? { ...rule, condition: LEGACY_CONDITIONS[rule.id].to }
+              : rule
+          ),
+        }));
       }
     } catch (error) {
       console.error('Failed to load security settings:', error);
@@ -371,7 +398,26 @@ export class SecurityConfigManager {
   }
 
   /**
-   * Save settings to storage
+   * Replace the local policies with the ones the server enforces. Nothing
+   * changes when they cannot be read, e.g. before sign-in.
+   */
+  public async syncPolicies(): Promise<void> {
+    const { data, error } = await supabase
+      .from('admin_system_settings')
+      .select('setting_value')
+      .eq('setting_key', POLICIES_SETTING_KEY)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to load security policies:', error);
+    } else if (Array.isArray(data?.setting_value)) {
+      this.settings.policies = data.setting_value as SecurityPolicy[];
+    }
+  }
+
+  /**
+   * Save settings to storage. The policies are saved on the server too,
+   * which only platform admins may do; that failure is thrown.
    */
   private async saveSettings(): Promise<void> {
     try {
@@ -379,6 +425,24 @@ export class SecurityConfigManager {
     } catch (error) {
       console.error('Failed to save security settings:', error);
     }
+
+    const { error } = await supabase
+      .from('admin_system_settings')
+      .upsert(
+        {
+          setting_key: POLICIES_SETTING_KEY,
+          setting_category: 'security',
+          setting_name: 'Security policies',
+          setting_value: this.settings.policies,
+          value_type: 'array',
+          is_required: true,
+        },
+        { onConflict: 'setting_key' }
+      );
+
+    if (error) {
+      throw new Error(`Security policies were not saved: ${error.message}`);
+    }
   }
 
   /**
@@ -487,28 +551,29 @@ export class SecurityConfigManager {
   }
 
   /**
-   * Validate security configuration
+   * Validate security configuration. Checks the current settings unless
+   * others are passed, e.g. unsaved edits or an import.
    */
-  public validateConfiguration(): { isValid: boolean; errors: string[] } {
+  public validateConfiguration(settings: SecuritySettings = this.settings): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
     // Validate encryption config
-    if (this.settings.encryption.keyLength < 256) {
+    if (settings.encryption.keyLength < 256) {
       errors.push('Encryption key length must be at least 256 bits');
     }
 
     // Validate audit config
-    if (this.settings.audit.retentionDays < 30) {
+    if (settings.audit.retentionDays < 30) {
       errors.push('Audit retention period must be at least 30 days');
     }
 
     // Validate rate limit config
-    if (this.settings.rateLimit.maxAttempts < 1) {
+    if (settings.rateLimit.maxAttempts < 1) {
       errors.push('Rate limit max attempts must be at least 1');
     }
 
     // Validate policies
-    for (const policy of this.settings.policies) {
+    for (const policy of settings.policies) {
       if (!policy.name || !policy.description) {
         errors.push(`Policy "${policy.name}" must have name and description`);
       }
@@ -516,6 +581,14 @@ export class SecurityConfigManager {
       for (const rule of policy.rules) {
         if (!rule.id || !rule.name || !rule.condition) {
           errors.push(`Rule in policy "${policy.name}" must have id, name, and condition`);
+          continue;
+        }
+
+        try {
+          compileCondition(rule.condition);
+        } catch (error) {
+          const reason = error instanceof RuleSyntaxError ? error.message : 'condition cannot be parsed';
+          errors.push(`Rule "${rule.name}" in policy "${policy.name}": ${reason}`);
         }
       }
     }
@@ -546,11 +619,11 @@ export class SecurityConfigManager {
    */
   public async importConfiguration(configJson: string): Promise<{ success: boolean; errors: string[] }> {
     try {
-      const imported = JSON.parse(configJson);
-      const validation = this.validateConfiguration();
+      const imported = { ...this.settings, ...JSON.parse(configJson) };
+      const validation = this.validateConfiguration(imported);
       
       if (validation.isValid) {
-        this.settings = { ...this.settings, ...imported };
+        this.settings = imported;
         await this.saveSettings();
         return { success: true, errors: [] };
       } else {
@@ -17,8 +17,9 @@ export interface Organization {
   vat_number: string | null;
   currency: 'USD' | 'EUR' | 'GBP' | 'CAD' | 'AUD';
   timezone: string;
-  status: 'active' | 'suspended' | 'cancelled' | 'trial';
+  status: 'active' | 'grace' | 'suspended' | 'cancelled' | 'trial';
   trial_ends_at: string | null;
+  account_credit_cents: number;
   created_at: string;
   updated_at: string;
 }
@@ -33,7 +34,7 @@ export interface OrganizationInsert {
   vat_number?: string | null;
   currency?: 'USD' | 'EUR' | 'GBP' | 'CAD' | 'AUD';
   timezone?: string;
-  status?: 'active' | 'suspended' | 'cancelled' | 'trial';
+  status?: 'active' | 'grace' | 'suspended' | 'cancelled' | 'trial';
   trial_ends_at?: string | null;
 }
 
@@ -46,7 +47,7 @@ export interface OrganizationUpdate {
   vat_number?: string | null;
   currency?: 'USD' | 'EUR' | 'GBP' | 'CAD' | 'AUD';
   timezone?: string;
-  status?: 'active' | 'suspended' | 'cancelled' | 'trial';
+  status?: 'active' | 'grace' | 'suspended' | 'cancelled' | 'trial';
   trial_ends_at?: string | null;
 }
 
@@ -284,6 +285,36 @@ export interface InvoiceUpdate {
   metadata?: Record<string, any>;
 }
 
+// Rendered invoice PDF; every render is kept as a new version
+export interface InvoiceDocument {
+  id: string;
+  invoice_id: string;
+  organization_id: string;
+  version: number;
+  storage_path: string; // object name in the invoices storage bucket
+  file_size: number;
+  sha256: string;
+  invoice_number: string;
+  invoice_status: Invoice['status'];
+  total_cents: number;
+  currency: Invoice['currency'];
+  generated_by: string | null;
+  created_at: string;
+}
+
+export interface InvoiceEmail {
+  id: string;
+  invoice_id: string;
+  organization_id: string;
+  document_id: string | null;
+  recipient: string;
+  status: 'sent' | 'failed';
+  message_id: string | null;
+  error: string | null;
+  sent_by: string | null;
+  created_at: string;
+}
+
 // =====================================================
 // Payment Types
 // =====================================================
@@ -374,10 +405,54 @@ export interface BillingEventInsert {
   source_id?: string | null;
 }
 
+// =====================================================
+// Dunning Types
+// =====================================================
+
+export type DunningStage = 'retrying' | 'grace' | 'suspended' | 'recovered' | 'cancelled';
+
+// Retry schedule; the policy without an organization is the default
+export interface DunningPolicy {
+  id: string;
+  organization_id: string | null;
+  retry_days: number[];
+  grace_days: number;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// An unpaid invoice being chased after a failed payment
+export interface DunningCase {
+  id: string;
+  organization_id: string;
+  invoice_id: string;
+  payment_id: string | null;
+  retry_days: number[];
+  grace_days: number;
+  stage: DunningStage;
+  attempts: number;
+  next_action_at: string | null;
+  started_at: string;
+  grace_started_at: string | null;
+  suspended_at: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DunningCaseWithInvoice extends DunningCase {
+  invoice: Pick<Invoice, 'id' | 'invoice_number' | 'total_cents' | 'currency' | 'status'>;
+}
+
 // =====================================================
 // Extended Types with Relations
 // =====================================================
 
+export interface UserOrganizationWithOrganization extends UserOrganization {
+  organization: Organization;
+}
+
 export interface SubscriptionWithPlan extends Subscription {
   plan: SubscriptionPlan;
   organization: Organization;
@@ -411,6 +486,53 @@ export interface SubscriptionUsage {
   courses_used: number;
 }
 
+// Day-based proration for moving a subscription to another plan, from
+// preview_subscription_change. Credits exceeding the charge are kept as
+// account credit.
+export interface SubscriptionProration {
+  subscription_id: string;
+  current_plan_id: string;
+  new_plan_id: string;
+  billing_cycle: 'monthly' | 'yearly';
+  currency: Subscription['currency'];
+  proration_date: string;
+  days_in_period: number;
+  days_remaining: number;
+  period_reset: boolean;
+  period_start: string;
+  period_end: string;
+  period_paid: boolean; // unused time is only credited on a paid period
+  credit_cents: number;
+  charge_cents: number;
+  account_credit_applied_cents: number;
+  subtotal_cents: number;
+  tax_cents: number;
+  amount_due_cents: number;
+  credit_carried_cents: number;
+}
+
+export interface SubscriptionPlanChange extends SubscriptionProration {
+  invoice_id: string | null;
+}
+
+export type PlanResource = 'users' | 'machines' | 'storage' | 'videos' | 'courses';
+
+// Result of check_plan_entitlement. Storage is counted in bytes and users
+// include pending invitations. A null limit means unlimited.
+export interface PlanEntitlement {
+  organization_id?: string;
+  // Organizations in dunning grace or suspended cannot add anything
+  organization_status?: Organization['status'] | null;
+  subscription_id?: string | null;
+  plan_name?: string | null;
+  plan_type?: SubscriptionPlan['plan_type'] | null;
+  resource: PlanResource;
+  limit: number | null;
+  used: number;
+  requested: number;
+  allowed: boolean;
+}
+
 export interface BillingSummary {
   organization: Organization;
   current_subscription: SubscriptionWithPlan | null;
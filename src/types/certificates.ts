@@ -6,6 +6,17 @@
 // Certificate status types
 export type CertificateStatus = 'active' | 'revoked' | 'expired';
 
+// Why a certificate was revoked
+export type CertificateRevocationReason =
+  | 'issued_in_error'
+  | 'superseded'
+  | 'misconduct'
+  | 'course_withdrawn'
+  | 'other';
+
+// Outcome of a public certificate check
+export type CertificateVerificationStatus = 'valid' | 'revoked' | 'expired' | 'tampered' | 'not_found';
+
 // Certificate interface
 export interface Certificate {
   id: string;
@@ -26,6 +37,13 @@ export interface Certificate {
   expires_at?: string;
   pdf_url?: string;
   thumbnail_url?: string;
+  signature?: string; // HMAC over the signed fields, written once at issue
+  signature_key_id?: string;
+  signed_at?: string;
+  revoked_at?: string;
+  revoked_by?: string;
+  revocation_reason?: CertificateRevocationReason;
+  revocation_note?: string;
   metadata: Record<string, any>;
   created_at: string;
   updated_at: string;
@@ -65,14 +83,46 @@ export interface CertificateUpdate {
   metadata?: Record<string, any>;
 }
 
-// Certificate verification result
+// Certificate details disclosed by public verification
+export type VerifiedCertificate = Pick<
+  Certificate,
+  | 'id'
+  | 'certificate_number'
+  | 'verification_code'
+  | 'title'
+  | 'recipient_name'
+  | 'course_title'
+  | 'completion_date'
+  | 'score'
+  | 'issued_by'
+  | 'status'
+  | 'expires_at'
+  | 'signed_at'
+>;
+
+// Certificate verification result. certificate is null when the code is
+// unknown or the stored details no longer match the signature.
 export interface CertificateVerification {
-  certificate: Certificate;
+  status: CertificateVerificationStatus;
+  certificate: VerifiedCertificate | null;
   is_valid: boolean;
   verification_message: string;
+  revocation: {
+    reason: CertificateRevocationReason;
+    note: string | null;
+    revoked_at: string;
+  } | null;
   verified_at: string;
 }
 
+// Entry in the public certificate revocation list
+export interface CertificateRevocation {
+  certificate_number: string;
+  verification_code: string;
+  revoked_at: string;
+  revocation_reason: CertificateRevocationReason;
+}
+
 // Certificate template
 export interface CertificateTemplate {
   id: string;
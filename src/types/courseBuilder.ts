@@ -4,6 +4,7 @@
  */
 
 import type { Course, CourseModule, CourseQuiz } from './index';
+import type { CourseBundle, CourseImportReport } from './coursePackage';
 
 // Course Builder State Management
 export interface CourseBuilderState {
@@ -168,6 +169,9 @@ export interface PreviewSettings {
 }
 
 // Publish Controls Types
+// What happens to learners part-way through the course when a new version is published
+export type EnrollmentMigrationPolicy = 'keep' | 'migrate' | 'restart';
+
 export interface PublishSettings {
   visibility: 'private' | 'public' | 'organization';
   customerScope: string[];
@@ -178,6 +182,8 @@ export interface PublishSettings {
   passThreshold: number;
   notifyUsers: boolean;
   notificationMessage?: string;
+  versionNotes?: string; // description stored with the published course version
+  migrationPolicy: EnrollmentMigrationPolicy;
 }
 
 export interface CourseAssignment {
@@ -196,9 +202,12 @@ export interface CourseVersion {
   id: string;
   courseId: string;
   version: string;
+  versionNumber: number;
   title: string;
   description: string;
   modules: CourseModule[];
+  quizzes: CourseQuiz[];
+  migrationPolicy: EnrollmentMigrationPolicy;
   publishedAt?: string;
   createdBy: string;
   createdAt: string;
@@ -206,6 +215,17 @@ export interface CourseVersion {
   isCurrent: boolean;
 }
 
+export type ModuleChangeType = 'added' | 'removed' | 'reordered' | 'changed';
+
+export interface ModuleDiffEntry {
+  moduleId: string;
+  title: string;
+  change: ModuleChangeType;
+  fromIndex?: number;
+  toIndex?: number;
+  changedFields?: string[];
+}
+
 export interface VersionHistory {
   versions: CourseVersion[];
   currentVersion: string;
@@ -372,8 +392,8 @@ export interface CourseBuilderUtils {
   formatDuration: (seconds: number) => string;
   validateCourse: (course: Partial<Course>, modules: CourseModule[]) => CourseBuilderValidationError[];
   generatePreview: (course: Course, modules: CourseModule[]) => CoursePreview;
-  exportCourse: (course: Course, modules: CourseModule[]) => string;
-  importCourse: (data: string) => { course: Course; modules: CourseModule[] };
+  exportCourse: (bundle: CourseBundle) => string; // see serializeCourseBundle in @/lib/coursePackage
+  importCourse: (data: unknown) => { bundle: CourseBundle | null; report: CourseImportReport }; // see validateCourseBundle
 }
 
 // Course Builder Analytics
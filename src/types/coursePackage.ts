@@ -0,0 +1,89 @@
+/**
+ * Course package types for Winbro Training Reels
+ * Portable course bundles for export to other LMSs and import between organizations
+ */
+
+import type { Course, CourseQuiz } from './index';
+import type { ResourceContent, TextContent } from './courseBuilder';
+
+export const COURSE_BUNDLE_FORMAT = 'winbro-course-bundle';
+export const COURSE_BUNDLE_FORMAT_VERSION = 1;
+
+export type CoursePackageFormat = 'json' | 'scorm12' | 'xapi';
+
+// Reels are referenced, not embedded; the media stays in the source library
+export interface ReelReference {
+  id: string;
+  title: string;
+  duration: number; // in seconds
+  thumbnailUrl?: string;
+  url: string; // watch page in the source deployment
+}
+
+export interface CourseBundleModule {
+  id: string;
+  title: string;
+  description?: string;
+  type: 'reel' | 'text' | 'quiz';
+  orderIndex: number;
+  estimatedDuration: number; // in seconds
+  isRequired: boolean;
+  unlockAfterPrevious: boolean;
+  contentId?: string;
+  contentData: Record<string, unknown>;
+  // Typed views of the module content, set according to what it holds
+  reel?: ReelReference;
+  text?: Pick<TextContent, 'title' | 'content' | 'format' | 'estimatedDuration'>;
+  resource?: Pick<ResourceContent, 'title' | 'description' | 'fileUrl' | 'fileType' | 'fileSize' | 'thumbnailUrl' | 'estimatedDuration'>;
+}
+
+export type CourseBundleQuiz = Pick<
+  CourseQuiz,
+  'id' | 'moduleId' | 'question' | 'type' | 'options' | 'correctAnswer' | 'explanation' | 'points' | 'timeLimit' | 'orderIndex'
+>;
+
+export type CourseBundleCourse = Pick<
+  Course,
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'difficultyLevel'
+  | 'category'
+  | 'tags'
+  | 'customerScope'
+  | 'requiresApproval'
+  | 'allowDownloads'
+  | 'enableCertificates'
+  | 'passThreshold'
+  | 'totalDuration'
+  | 'metadata'
+>;
+
+export interface CourseBundle {
+  format: typeof COURSE_BUNDLE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  source: string; // origin of the exporting deployment
+  course: CourseBundleCourse;
+  modules: CourseBundleModule[];
+  quizzes: CourseBundleQuiz[];
+}
+
+export interface CourseImportIssue {
+  path: string; // e.g. 'modules[2].title'
+  message: string;
+}
+
+export interface CourseImportReport {
+  valid: boolean;
+  errors: CourseImportIssue[];
+  warnings: CourseImportIssue[];
+  moduleCount: number;
+  quizCount: number;
+}
+
+export interface CourseImportResult {
+  courseId: string | null;
+  report: CourseImportReport;
+  idMap: Record<string, string>; // bundle id -> new id
+}
@@ -6,7 +6,7 @@
 // User Activity Types
 export interface UserActivity {
   id: string;
-  user_id: string;
+  user_id: string | null; // null once the user's account is erased
   activity_type: 'video_viewed' | 'video_completed' | 'video_bookmarked' | 'video_shared' |
                 'course_started' | 'course_completed' | 'course_enrolled' |
                 'quiz_started' | 'quiz_completed' | 'quiz_passed' | 'quiz_failed' |
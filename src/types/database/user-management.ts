@@ -372,6 +372,14 @@ export interface UserInvitationInsert {
   accepted_at?: string | null;
 }
 
+// Body of POST /invitations; the function sets the inviter and the token
+export interface CreateUserInvitationInput {
+  email: string;
+  organization_id?: string | null;
+  role_id?: string | null;
+  expires_at?: string;
+}
+
 export interface UserInvitationUpdate {
   email?: string;
   organization_id?: string | null;
@@ -80,6 +80,7 @@ export interface Course {
   // Publishing fields
   publishedAt?: string;
   archivedAt?: string;
+  currentVersionId?: string;
 }
 
 export interface CourseModule {
@@ -162,7 +163,9 @@ export interface CourseEnrollment {
   courseId: string;
   userId: string;
   enrolledAt: string;
+  versionId?: string; // course_versions.id the learner is pinned to; unset follows the live course
   completedAt?: string;
+  completedVersionId?: string; // course_versions.id current when the course was completed
   progressPercentage: number;
   score?: number;
   modulesCompleted: string[];
@@ -171,6 +174,14 @@ export interface CourseEnrollment {
   updatedAt: string;
 }
 
+// Learner view of the course version an enrollment is pinned to
+export interface EnrollmentCourseVersion {
+  versionId: string;
+  versionNumber: number;
+  title: string;
+  modules: CourseModule[];
+}
+
 export interface CourseCompletion {
   id: string;
   enrollmentId: string;
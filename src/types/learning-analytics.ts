@@ -29,7 +29,7 @@ export type DeviceType = 'mobile' | 'tablet' | 'desktop';
 // Learning analytics event
 export interface LearningAnalyticsEvent {
   id: string;
-  user_id: string;
+  user_id: string | null; // null once the learner's account is erased
   course_id: string;
   module_id?: string;
   quiz_id?: string;
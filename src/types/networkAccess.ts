@@ -0,0 +1,43 @@
+/**
+ * Network access types for Winbro Training Reels
+ * Per-organization IP and country allow/block lists checked at sign-in and
+ * session refresh
+ */
+
+export type NetworkRuleType = 'allow' | 'block';
+
+export type NetworkAccessEvent = 'sign_in' | 'session_refresh';
+
+// Allow or block rule of an organization (organization_network_rules)
+export interface NetworkRule {
+  id: string;
+  organization_id: string;
+  rule_type: NetworkRuleType;
+  cidr: string | null; // e.g. 10.20.0.0/16; exactly one of cidr and country_code is set
+  country_code: string | null; // ISO 3166-1 alpha-2, e.g. DE
+  description: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NetworkRuleInsert {
+  rule_type: NetworkRuleType;
+  cidr?: string | null;
+  country_code?: string | null;
+  description?: string;
+}
+
+// The connection as the API sees it (get_request_context)
+export interface CurrentNetwork {
+  ip: string | null;
+  country: string | null;
+}
+
+// Result of check_network_access
+export interface NetworkAccessDecision extends CurrentNetwork {
+  allowed: boolean;
+  reason?: 'blocked' | 'not_allowed';
+  rule_id?: string;
+  organization_id?: string; // organization whose rules refused the connection
+}
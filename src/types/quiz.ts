@@ -13,6 +13,8 @@ export interface QuizAnswer {
   isCorrect: boolean;
   timeSpent: number; // in seconds
   submittedAt: string;
+  correctAnswer?: string; // returned by grading when the quiz shows correct answers
+  explanation?: string; // returned by grading when the quiz shows explanations
 }
 
 // Quiz attempt tracking
@@ -24,6 +26,7 @@ export interface QuizAttempt {
   moduleId?: string;
   answers: QuizAnswer[];
   score: number; // percentage
+  passed?: boolean; // graded against the configured pass threshold
   totalPoints: number;
   earnedPoints: number;
   timeSpent: number; // total time in seconds
@@ -38,7 +41,7 @@ export interface QuizSession {
   quizId: string;
   courseId: string;
   moduleId?: string;
-  questions: CourseQuiz[];
+  questions: QuizQuestionForLearner[];
   currentQuestionIndex: number;
   answers: Map<string, QuizAnswer>;
   timeRemaining?: number; // in seconds
@@ -135,7 +138,7 @@ export interface QuizPlayerProps {
 }
 
 export interface QuizQuestionProps {
-  question: CourseQuiz;
+  question: QuizQuestionForLearner;
   questionNumber: number;
   totalQuestions: number;
   answer?: QuizAnswer;
@@ -229,6 +232,10 @@ export interface CourseQuiz {
   createdAt: string;
   updatedAt: string;
 }
+
+// Quiz question as delivered to learners; the answer key stays on the server
+export type QuizQuestionForLearner = Omit<CourseQuiz, 'correctAnswer' | 'explanation'>;
+
 // Enhanced quiz features
 export interface QuizConfiguration {
   id: string;
@@ -312,6 +319,9 @@ export interface EnhancedQuizSession extends QuizSession {
 // Enhanced quiz result with certificate info
 export interface EnhancedQuizResult extends QuizResult {
   certificate?: Certificate;
+  attemptId?: string;
+  attemptNumber?: number;
+  maxAttempts?: number;
   canRetake: boolean;
   attemptsRemaining: number;
   nextRetakeDate?: string;
@@ -125,11 +125,23 @@ export interface SearchPagination {
   page: number;
   limit: number;
   total: number;
+  total_is_estimate: boolean; // true when total is a lower bound (count capped)
   total_pages: number;
   has_next: boolean;
   has_prev: boolean;
+  next_cursor: string | null; // opaque keyset cursor for the following page
 }
 
+// Keyset cursor position (encoded into SearchPagination.next_cursor)
+export interface SearchCursor {
+  relevance_score: number;
+  created_at: string;
+  video_id: string;
+}
+
+// How the total result count is computed
+export type SearchCountMode = 'exact' | 'estimated';
+
 // Complete search response
 export interface SearchResponse {
   results: SearchResult[];
@@ -149,6 +161,8 @@ export interface SearchRequest {
   sort_order?: SearchSortOrder;
   page?: number;
   limit?: number;
+  cursor?: string | null; // keyset cursor from a previous page; replaces the page offset, page still numbers it
+  count_mode?: SearchCountMode;
   include_facets?: boolean;
   include_suggestions?: boolean;
 }
@@ -261,6 +275,7 @@ export type SearchAction =
   | { type: 'SET_PAGE'; payload: number }
   | { type: 'SET_LIMIT'; payload: number }
   | { type: 'SET_RESULTS'; payload: SearchResult[] }
+  | { type: 'APPEND_RESULTS'; payload: SearchResult[] }
   | { type: 'SET_FACETS'; payload: SearchFacet[] }
   | { type: 'SET_SUGGESTIONS'; payload: SearchSuggestion[] }
   | { type: 'SET_LOADING'; payload: boolean }
@@ -283,6 +298,10 @@ export interface UseSearchReturn {
   setLimit: (limit: number) => void;
   clearSearch: () => void;
   resetFilters: () => void;
+
+  // Infinite scrolling (keyset cursor)
+  loadMore: () => Promise<void>;
+  hasMore: boolean;
   
   // Autocomplete
   getSuggestions: (query: string) => Promise<SearchSuggestion[]>;
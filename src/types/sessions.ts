@@ -67,9 +67,9 @@ export interface ChangePasswordForm {
 }
 
 export interface TwoFactorSetup {
-  secret: string;
-  qrCode: string;
-  backupCodes: string[];
+  secret: string; // base32, for manual entry
+  otpauthUrl: string;
+  qrCode: string; // data URL of otpauthUrl
 }
 
 export interface TwoFactorVerification {
@@ -77,6 +77,17 @@ export interface TwoFactorVerification {
   backupCode?: string;
 }
 
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enrolled_at: string | null;
+  required: boolean; // an organization policy requires 2FA
+  session_verified: boolean;
+  locked_until: string | null;
+  backup_codes_remaining: number;
+}
+
+export type TwoFactorChallengeResult = 'verified' | 'invalid' | 'locked';
+
 // =====================================================
 // SUBSCRIPTION TYPES
 // =====================================================
@@ -27,7 +27,7 @@ export type ProcessingJobStatus = 'queued' | 'processing' | 'completed' | 'faile
 // Main Video interface
 export interface Video {
   id: string;
-  user_id: string;
+  user_id: string | null; // null once the author's account is erased
   title: string;
   description: string | null;
   duration: number; // in seconds
@@ -176,6 +176,47 @@ export interface VideoUploadProgress {
   total_bytes: number;
 }
 
+// Chunked upload session (resumable uploads)
+export interface VideoUploadSession {
+  id: string;
+  video_id: string;
+  user_id: string;
+  session_id: string;
+  original_filename: string;
+  mime_type: string;
+  total_size: number; // in bytes
+  chunk_size: number; // in bytes
+  total_chunks: number;
+  uploaded_chunks: number;
+  uploaded_bytes: number;
+  is_complete: boolean;
+  checksum: string | null;
+  storage_path: string | null;
+  manifest: VideoUploadManifest | null;
+  assembled_at: string | null;
+  expires_at: string;
+  last_activity: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Chunk already present in storage for an upload session
+export interface VideoUploadChunk {
+  chunk_index: number;
+  size: number; // in bytes
+  checksum: string; // hex SHA-256 of the chunk bytes
+}
+
+// Result of the server-side assemble step, consumed by the transcode job
+export interface VideoUploadManifest {
+  video_id: string;
+  session_id: string;
+  mime_type: string;
+  total_size: number; // in bytes
+  checksum: string; // SHA-256 of the assembled file, computed server-side
+  storage_path: string; // assembled object in the videos bucket
+}
+
 // Video search filters
 export interface VideoSearchFilters {
   query?: string;
@@ -244,6 +285,23 @@ export interface VideoAnalytics {
   }>;
 }
 
+// Video engagement and player events
+export type VideoEventType = 'view' | 'play' | 'pause' | 'seek' | 'complete' | 'download' | 'bookmark' | 'share';
+
+// Player event recorded in video_playback_events
+export interface VideoPlaybackEventInput {
+  video_id: string;
+  session_id: string;
+  event_type: VideoEventType;
+  position_seconds?: number;
+  from_position_seconds?: number; // seek origin
+  segment_start_seconds?: number; // span played continuously before this event
+  segment_end_seconds?: number;
+  watched_seconds?: number; // total seconds played in the session so far
+  device_type?: string;
+  event_data?: Record<string, unknown>;
+}
+
 // Video upload configuration
 export interface VideoUploadConfig {
   max_file_size: number; // in bytes
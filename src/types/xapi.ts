@@ -0,0 +1,109 @@
+/**
+ * xAPI (Experience API 1.0.3) types for Winbro Training Reels
+ * Statements generated from learning analytics events and per-organization LRS settings
+ */
+
+export type XAPILanguageMap = Record<string, string>;
+
+export interface XAPIAgent {
+  objectType: 'Agent';
+  name?: string;
+  account: {
+    homePage: string;
+    name: string;
+  };
+}
+
+export interface XAPIVerb {
+  id: string;
+  display: XAPILanguageMap;
+}
+
+export interface XAPIActivity {
+  objectType: 'Activity';
+  id: string;
+  definition?: {
+    name?: XAPILanguageMap;
+    type?: string;
+    extensions?: Record<string, unknown>;
+  };
+}
+
+export interface XAPIResult {
+  score?: {
+    scaled?: number;
+    raw?: number;
+    min?: number;
+    max?: number;
+  };
+  success?: boolean;
+  completion?: boolean;
+  duration?: string; // ISO 8601 duration, e.g. PT90S
+  extensions?: Record<string, unknown>;
+}
+
+export interface XAPIContext {
+  registration?: string;
+  platform?: string;
+  contextActivities?: {
+    parent?: XAPIActivity[];
+    grouping?: XAPIActivity[];
+  };
+  extensions?: Record<string, unknown>;
+}
+
+export interface XAPIStatement {
+  id: string;
+  actor: XAPIAgent;
+  verb: XAPIVerb;
+  object: XAPIActivity;
+  result?: XAPIResult;
+  context?: XAPIContext;
+  timestamp: string;
+  stored?: string;
+  authority?: XAPIAgent;
+  version?: string;
+}
+
+// LRS settings for an organization (xapi_lrs_configs)
+export interface LRSConfig {
+  id: string;
+  organization_id: string;
+  enabled: boolean;
+  endpoint: string; // customer LRS; empty keeps statements in the built-in LRS only
+  auth_username: string;
+  auth_password: string;
+  lrs_key: string; // Basic auth for the built-in LRS
+  lrs_secret: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LRSConfigUpdate {
+  enabled?: boolean;
+  endpoint?: string;
+  auth_username?: string;
+  auth_password?: string;
+}
+
+// Stored statement in the built-in LRS (xapi_statements)
+export interface StoredXAPIStatement {
+  id: string;
+  organization_id: string;
+  user_id: string | null;
+  verb_id: string;
+  activity_id: string | null;
+  statement: XAPIStatement;
+  voided: boolean;
+  timestamp: string;
+  stored: string;
+  forwarded_at: string | null;
+  forward_attempts: number;
+  forward_error: string | null;
+}
+
+export interface LRSForwardingStatus {
+  pending: number;
+  failed: number; // gave up after repeated errors
+  last_error: string | null;
+}
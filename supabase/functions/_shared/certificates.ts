@@ -0,0 +1,368 @@
+import { jsPDF } from 'npm:jspdf@2.5.2';
+import qrcode from 'npm:qrcode-generator@1.5.2';
+import { supabaseAdmin } from './supabaseAdmin.ts';
+
+export const CERTIFICATE_BUCKET = 'certificates';
+
+const APP_URL = Deno.env.get('APP_URL') ?? '';
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+
+// Width of the SVG thumbnail, in pixels
+const THUMBNAIL_WIDTH = 480;
+
+// Text field position; y is the text baseline
+interface CertificateTextField {
+  x: number;
+  y: number;
+  fontSize: number;
+  color: string;
+  align?: 'left' | 'center' | 'right';
+  bold?: boolean;
+}
+
+// Image or box position
+interface CertificateBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Layout coordinates are points from the top-left corner of the page
+interface CertificateTemplate {
+  id: string;
+  backgroundImage?: string;
+  logoImage?: string;
+  page: { width: number; height: number };
+  layout: {
+    title: CertificateTextField;
+    recipientName: CertificateTextField;
+    courseTitle: CertificateTextField;
+    completionDate: CertificateTextField;
+    score: CertificateTextField;
+    certificateNumber: CertificateTextField;
+    verificationCode: CertificateTextField;
+    issuerSignature: CertificateBox;
+    issuerName: CertificateTextField;
+    logo?: CertificateBox;
+    qrCode?: { x: number; y: number; size: number };
+  };
+}
+
+// Fetched image bytes, drawn onto both outputs
+interface CertificateImage {
+  bytes: Uint8Array;
+  format: 'PNG' | 'JPEG';
+}
+
+interface CertificateAssets {
+  background?: CertificateImage;
+  logo?: CertificateImage;
+  signature?: CertificateImage;
+}
+
+// Drawing operations shared by the PDF and the SVG thumbnail
+interface CertificateSurface {
+  text(value: string, field: CertificateTextField): void;
+  image(image: CertificateImage, box: CertificateBox): void;
+  line(x1: number, y1: number, x2: number, y2: number, color: string): void;
+  frame(box: CertificateBox, color: string): void;
+  fill(box: CertificateBox, color: string): void;
+}
+
+// certificates row
+export interface CertificateRow {
+  id: string;
+  user_id: string;
+  course_id: string;
+  certificate_number: string;
+  verification_code: string;
+  title: string;
+  recipient_name: string;
+  course_title: string;
+  completion_date: string;
+  score: number;
+  issued_by: string;
+  issuer_signature: string | null;
+  template_id: string | null;
+}
+
+const TEMPLATES: Record<string, CertificateTemplate> = {
+  default: {
+    id: 'default',
+    page: { width: 600, height: 500 },
+    layout: {
+      title: { x: 300, y: 100, fontSize: 36, color: '#1f2937', align: 'center', bold: true },
+      recipientName: { x: 300, y: 200, fontSize: 24, color: '#1f2937', align: 'center', bold: true },
+      courseTitle: { x: 300, y: 250, fontSize: 18, color: '#6b7280', align: 'center' },
+      completionDate: { x: 300, y: 300, fontSize: 14, color: '#6b7280', align: 'center' },
+      score: { x: 300, y: 330, fontSize: 14, color: '#6b7280', align: 'center' },
+      certificateNumber: { x: 50, y: 450, fontSize: 12, color: '#9ca3af' },
+      verificationCode: { x: 550, y: 450, fontSize: 12, color: '#9ca3af', align: 'right' },
+      issuerSignature: { x: 400, y: 380, width: 150, height: 50 },
+      issuerName: { x: 400, y: 440, fontSize: 14, color: '#1f2937' },
+      logo: { x: 270, y: 20, width: 60, height: 40 },
+      qrCode: { x: 50, y: 340, size: 72 },
+    },
+  },
+};
+
+// Public page where a printed certificate can be checked
+export const certificateVerificationUrl = (verificationCode: string): string =>
+  `${APP_URL}/certificates/verify/${encodeURIComponent(verificationCode)}`;
+
+const formatCompletionDate = (date: string): string =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+
+const escapeXml = (value: string): string =>
+  value.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[c] as string);
+
+const base64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Only data URLs and files in this project's storage are drawn, so a
+// certificate cannot make the function fetch arbitrary hosts
+const isAllowedImageUrl = (url: string): boolean =>
+  /^data:image\/(png|jpeg);base64,/.test(url) || (!!SUPABASE_URL && url.startsWith(`${SUPABASE_URL}/storage/v1/object/public/`));
+
+const loadImage = async (url: string): Promise<CertificateImage> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load image ${url}`);
+
+  const type = response.headers.get('content-type') ?? '';
+  if (!/image\/(png|jpeg)/.test(type)) throw new Error(`Unsupported image type ${type} for ${url}`);
+  return { bytes: new Uint8Array(await response.arrayBuffer()), format: type.includes('png') ? 'PNG' : 'JPEG' };
+};
+
+const createPdfSurface = (doc: jsPDF): CertificateSurface => ({
+  text(value, field) {
+    doc.setFont('helvetica', field.bold ? 'bold' : 'normal');
+    doc.setFontSize(field.fontSize);
+    doc.setTextColor(field.color);
+    doc.text(value, field.x, field.y, { align: field.align ?? 'left' });
+  },
+  image(image, box) {
+    doc.addImage(image.bytes, image.format, box.x, box.y, box.width, box.height);
+  },
+  line(x1, y1, x2, y2, color) {
+    doc.setDrawColor(color);
+    doc.setLineWidth(0.75);
+    doc.line(x1, y1, x2, y2);
+  },
+  frame(box, color) {
+    doc.setDrawColor(color);
+    doc.setLineWidth(2);
+    doc.rect(box.x, box.y, box.width, box.height);
+  },
+  fill(box, color) {
+    doc.setFillColor(color);
+    doc.rect(box.x, box.y, box.width, box.height, 'F');
+  },
+});
+
+// Collects SVG elements in page coordinates; the viewBox does the scaling
+const createSvgSurface = (elements: string[]): CertificateSurface => ({
+  text(value, field) {
+    const anchor = { left: 'start', center: 'middle', right: 'end' }[field.align ?? 'left'];
+    elements.push(
+      `<text x="${field.x}" y="${field.y}" font-family="Helvetica, Arial, sans-serif" font-size="${field.fontSize}"` +
+        ` font-weight="${field.bold ? 'bold' : 'normal'}" fill="${field.color}" text-anchor="${anchor}">${escapeXml(value)}</text>`
+    );
+  },
+  image(image, box) {
+    const mime = image.format === 'PNG' ? 'image/png' : 'image/jpeg';
+    elements.push(
+      `<image x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" preserveAspectRatio="none"` +
+        ` href="data:${mime};base64,${base64(image.bytes)}"/>`
+    );
+  },
+  line(x1, y1, x2, y2, color) {
+    elements.push(`<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${color}" stroke-width="0.75"/>`);
+  },
+  frame(box, color) {
+    elements.push(`<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" fill="none" stroke="${color}" stroke-width="2"/>`);
+  },
+  fill(box, color) {
+    elements.push(`<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" fill="${color}"/>`);
+  },
+});
+
+// The QR code is drawn module by module, so it stays sharp in the PDF
+const drawQrCode = (surface: CertificateSurface, url: string, area: { x: number; y: number; size: number }): void => {
+  const qr = qrcode(0, 'M');
+  qr.addData(url);
+  qr.make();
+
+  const count = qr.getModuleCount();
+  const module = area.size / count;
+  surface.fill({ x: area.x, y: area.y, width: area.size, height: area.size }, '#ffffff');
+  for (let row = 0; row < count; row++) {
+    for (let col = 0; col < count; col++) {
+      if (qr.isDark(row, col)) {
+        surface.fill({ x: area.x + col * module, y: area.y + row * module, width: module, height: module }, '#000000');
+      }
+    }
+  }
+};
+
+const loadAssets = async (certificate: CertificateRow, template: CertificateTemplate): Promise<CertificateAssets> => {
+  // issuer_signature holds either a signature image URL or a typed signature
+  const signatureUrl = certificate.issuer_signature && isAllowedImageUrl(certificate.issuer_signature)
+    ? certificate.issuer_signature
+    : undefined;
+
+  const [background, logo, signature] = await Promise.all([
+    template.backgroundImage ? loadImage(template.backgroundImage) : undefined,
+    template.logoImage && template.layout.logo ? loadImage(template.logoImage) : undefined,
+    signatureUrl ? loadImage(signatureUrl) : undefined,
+  ]);
+
+  return { background, logo, signature };
+};
+
+// Draw every template element onto a surface
+const drawCertificate = (
+  surface: CertificateSurface,
+  certificate: CertificateRow,
+  template: CertificateTemplate,
+  assets: CertificateAssets
+): void => {
+  const { layout, page } = template;
+
+  if (assets.background) {
+    surface.image(assets.background, { x: 0, y: 0, width: page.width, height: page.height });
+  } else {
+    surface.frame({ x: 12, y: 12, width: page.width - 24, height: page.height - 24 }, '#d1d5db');
+  }
+
+  if (assets.logo && layout.logo) {
+    surface.image(assets.logo, layout.logo);
+  }
+
+  surface.text(certificate.title, layout.title);
+  surface.text(certificate.recipient_name, layout.recipientName);
+  surface.text(certificate.course_title, layout.courseTitle);
+  surface.text(`Completed on ${formatCompletionDate(certificate.completion_date)}`, layout.completionDate);
+  surface.text(`Score: ${certificate.score}%`, layout.score);
+  surface.text(`Certificate No. ${certificate.certificate_number}`, layout.certificateNumber);
+  surface.text(`Verification code: ${certificate.verification_code}`, layout.verificationCode);
+
+  // Issuer signature box: signature image (or typed signature) above a signing line
+  const box = layout.issuerSignature;
+  if (assets.signature) {
+    surface.image(assets.signature, box);
+  } else if (certificate.issuer_signature && !/^(https?:|data:)/.test(certificate.issuer_signature)) {
+    surface.text(certificate.issuer_signature, {
+      x: box.x + box.width / 2,
+      y: box.y + box.height - 8,
+      fontSize: Math.min(20, box.height * 0.5),
+      color: layout.issuerName.color,
+      align: 'center',
+    });
+  }
+  surface.line(box.x, box.y + box.height, box.x + box.width, box.y + box.height, '#6b7280');
+  surface.text(certificate.issued_by, layout.issuerName);
+
+  if (layout.qrCode) {
+    const { x, y, size } = layout.qrCode;
+    drawQrCode(surface, certificateVerificationUrl(certificate.verification_code), layout.qrCode);
+    surface.text('Scan to verify', {
+      x: x + size / 2,
+      y: y + size + 10,
+      fontSize: 7,
+      color: layout.verificationCode.color,
+      align: 'center',
+    });
+  }
+};
+
+const renderPdf = (certificate: CertificateRow, template: CertificateTemplate, assets: CertificateAssets): Uint8Array => {
+  const { width, height } = template.page;
+  const doc = new jsPDF({
+    orientation: width >= height ? 'landscape' : 'portrait',
+    unit: 'pt',
+    format: [width, height],
+  });
+
+  doc.setProperties({
+    title: `${certificate.title} - ${certificate.recipient_name}`,
+    subject: certificate.course_title,
+    author: certificate.issued_by,
+    keywords: certificate.verification_code,
+  });
+
+  drawCertificate(createPdfSurface(doc), certificate, template, assets);
+
+  // The printed QR code points here too; make it clickable in the PDF
+  if (template.layout.qrCode) {
+    const { x, y, size } = template.layout.qrCode;
+    doc.link(x, y, size, size, { url: certificateVerificationUrl(certificate.verification_code) });
+  }
+
+  return new Uint8Array(doc.output('arraybuffer'));
+};
+
+const renderThumbnail = (certificate: CertificateRow, template: CertificateTemplate, assets: CertificateAssets): Uint8Array => {
+  const { width, height } = template.page;
+  const elements: string[] = [`<rect width="${width}" height="${height}" fill="#ffffff"/>`];
+  drawCertificate(createSvgSurface(elements), certificate, template, assets);
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${THUMBNAIL_WIDTH}" height="${Math.round((height * THUMBNAIL_WIDTH) / width)}"` +
+    ` viewBox="0 0 ${width} ${height}">${elements.join('')}</svg>`;
+  return new TextEncoder().encode(svg);
+};
+
+export const getCertificate = async (certificateId: string): Promise<CertificateRow | null> => {
+  const { data, error } = await supabaseAdmin
+    .from('certificates')
+    .select(`
+      id, user_id, course_id, certificate_number, verification_code, title, recipient_name,
+      course_title, completion_date, score, issued_by, issuer_signature, template_id
+    `)
+    .eq('id', certificateId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as CertificateRow | null;
+};
+
+/**
+ * Render the certificate PDF and SVG thumbnail from the stored certificate,
+ * upload both and save their public URLs on the certificate
+ */
+export const generateCertificateFiles = async (
+  certificate: CertificateRow
+): Promise<{ pdf_url: string; thumbnail_url: string }> => {
+  const template = TEMPLATES[certificate.template_id ?? 'default'] ?? TEMPLATES.default;
+  const assets = await loadAssets(certificate, template);
+
+  const files = [
+    { path: `${certificate.user_id}/${certificate.id}.pdf`, body: renderPdf(certificate, template, assets), contentType: 'application/pdf' },
+    { path: `${certificate.user_id}/${certificate.id}-thumbnail.svg`, body: renderThumbnail(certificate, template, assets), contentType: 'image/svg+xml' },
+  ];
+
+  const [pdfUrl, thumbnailUrl] = await Promise.all(
+    files.map(async ({ path, body, contentType }) => {
+      const { error } = await supabaseAdmin.storage
+        .from(CERTIFICATE_BUCKET)
+        .upload(path, body, { contentType, upsert: true });
+      if (error) throw error;
+
+      return supabaseAdmin.storage.from(CERTIFICATE_BUCKET).getPublicUrl(path).data.publicUrl;
+    })
+  );
+
+  const { error } = await supabaseAdmin
+    .from('certificates')
+    .update({ pdf_url: pdfUrl, thumbnail_url: thumbnailUrl })
+    .eq('id', certificate.id);
+  if (error) throw error;
+
+  return { pdf_url: pdfUrl, thumbnail_url: thumbnailUrl };
+};
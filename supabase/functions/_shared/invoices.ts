@@ -0,0 +1,433 @@
+import { jsPDF } from 'npm:jspdf@2.5.2';
+import { supabaseAdmin, sha256Hex } from './supabaseAdmin.ts';
+import { sendMail } from './mailer.ts';
+
+export const INVOICE_BUCKET = 'invoices';
+
+// Seller details printed on every invoice
+const ISSUER_NAME = Deno.env.get('INVOICE_ISSUER_NAME') ?? 'Winbro Training Reels';
+const ISSUER_ADDRESS = (Deno.env.get('INVOICE_ISSUER_ADDRESS') ?? '').split('\n').filter(Boolean);
+const ISSUER_TAX_ID = Deno.env.get('INVOICE_ISSUER_TAX_ID') ?? '';
+
+// A4 in points
+const PAGE = { width: 595, height: 842, margin: 50 };
+const TABLE_BOTTOM = PAGE.height - 90;
+const COLUMNS = { description: PAGE.margin, quantity: 360, unitPrice: 450, amount: PAGE.width - PAGE.margin };
+
+interface OrganizationRow {
+  id: string;
+  name: string;
+  billing_email: string;
+  billing_address: Record<string, unknown> | null;
+  tax_id: string | null;
+  vat_number: string | null;
+}
+
+export interface InvoiceRow {
+  id: string;
+  organization_id: string;
+  invoice_number: string;
+  status: string;
+  subtotal_cents: number;
+  tax_cents: number;
+  total_cents: number;
+  currency: string;
+  period_start: string;
+  period_end: string;
+  due_date: string | null;
+  paid_at: string | null;
+  line_items: Record<string, unknown>[] | null;
+  created_at: string;
+  organization: OrganizationRow;
+}
+
+// invoice_documents row
+export interface InvoiceDocumentRow {
+  id: string;
+  invoice_id: string;
+  organization_id: string;
+  version: number;
+  storage_path: string;
+  file_size: number;
+  sha256: string;
+  invoice_number: string;
+  invoice_status: string;
+  total_cents: number;
+  currency: string;
+  generated_by: string | null;
+  created_at: string;
+}
+
+interface LineItem {
+  description: string;
+  quantity: number;
+  unitCents: number;
+  totalCents: number;
+}
+
+export const formatMoney = (cents: number, currency: string): string =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(cents / 100);
+
+export const formatDate = (value: string): string =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const numberField = (item: Record<string, unknown>, ...keys: string[]): number | undefined => {
+  for (const key of keys) {
+    const value = Number(item[key]);
+    if (item[key] !== undefined && item[key] !== null && Number.isFinite(value)) return value;
+  }
+  return undefined;
+};
+
+// line_items is free-form JSONB; accept the field names used by Stripe and
+// by our own invoices
+const toLineItem = (item: Record<string, unknown>): LineItem => {
+  const quantity = numberField(item, 'quantity') ?? 1;
+  const unit = numberField(item, 'unit_price_cents', 'unit_amount_cents', 'unit_amount');
+  const total = numberField(item, 'total_cents', 'amount_cents', 'amount') ?? (unit ?? 0) * quantity;
+
+  return {
+    description: String(item.description ?? item.name ?? 'Item'),
+    quantity,
+    unitCents: unit ?? (quantity ? Math.round(total / quantity) : total),
+    totalCents: total,
+  };
+};
+
+// Postal address lines from billing_address, in the usual order
+const addressLines = (address: Record<string, unknown> | null): string[] => {
+  if (!address) return [];
+
+  const value = (key: string) => (typeof address[key] === 'string' ? (address[key] as string).trim() : '');
+  const cityLine = [value('city'), value('state'), value('postal_code') || value('zip')].filter(Boolean).join(', ');
+
+  return [
+    value('line1') || value('street'),
+    value('line2'),
+    cityLine,
+    value('country'),
+  ].filter(Boolean);
+};
+
+/**
+ * Render an invoice as PDF: seller and billing details, line items, tax and
+ * totals in the invoice currency
+ */
+export const renderInvoicePdf = (invoice: InvoiceRow): Uint8Array => {
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const money = (cents: number) => formatMoney(cents, invoice.currency);
+  const org = invoice.organization;
+
+  // Seller
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(24);
+  doc.text('INVOICE', PAGE.margin, 70);
+
+  doc.setFontSize(11);
+  doc.text(ISSUER_NAME, COLUMNS.amount, 60, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  let y = 74;
+  for (const line of [...ISSUER_ADDRESS, ...(ISSUER_TAX_ID ? [`Tax ID: ${ISSUER_TAX_ID}`] : [])]) {
+    doc.text(line, COLUMNS.amount, y, { align: 'right' });
+    y += 12;
+  }
+
+  // Invoice details
+  y = Math.max(y, 100) + 20;
+  const details: [string, string][] = [
+    ['Invoice number', invoice.invoice_number],
+    ['Issue date', formatDate(invoice.created_at)],
+    ['Due date', invoice.due_date ? formatDate(invoice.due_date) : 'On receipt'],
+    ['Service period', `${formatDate(invoice.period_start)} - ${formatDate(invoice.period_end)}`],
+  ];
+  const detailsTop = y;
+  doc.setFontSize(10);
+  for (const [label, value] of details) {
+    doc.setFont('helvetica', 'bold');
+    doc.text(label, 340, y);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, COLUMNS.amount, y, { align: 'right' });
+    y += 14;
+  }
+
+  // Bill to
+  let billY = detailsTop;
+  doc.setFont('helvetica', 'bold');
+  doc.text('Bill to', PAGE.margin, billY);
+  doc.setFont('helvetica', 'normal');
+  billY += 14;
+  const billTo = [
+    org.name,
+    ...addressLines(org.billing_address),
+    ...(org.tax_id ? [`Tax ID: ${org.tax_id}`] : []),
+    ...(org.vat_number ? [`VAT: ${org.vat_number}`] : []),
+    org.billing_email,
+  ];
+  for (const line of billTo) {
+    doc.text(line, PAGE.margin, billY);
+    billY += 14;
+  }
+
+  if (invoice.status === 'paid' || invoice.status === 'void') {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(16);
+    doc.setTextColor(invoice.status === 'paid' ? '#15803d' : '#b91c1c');
+    doc.text(
+      invoice.status === 'paid' && invoice.paid_at ? `PAID ${formatDate(invoice.paid_at)}` : invoice.status.toUpperCase(),
+      PAGE.margin,
+      50
+    );
+    doc.setTextColor('#000000');
+    doc.setFontSize(10);
+  }
+
+  // Line items
+  y = Math.max(y, billY) + 24;
+  const tableHeader = () => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.text('Description', COLUMNS.description, y);
+    doc.text('Qty', COLUMNS.quantity, y, { align: 'right' });
+    doc.text('Unit price', COLUMNS.unitPrice, y, { align: 'right' });
+    doc.text('Amount', COLUMNS.amount, y, { align: 'right' });
+    doc.setDrawColor('#9ca3af');
+    doc.line(PAGE.margin, y + 6, COLUMNS.amount, y + 6);
+    doc.setFont('helvetica', 'normal');
+    y += 22;
+  };
+  tableHeader();
+
+  for (const item of (invoice.line_items ?? []).map(toLineItem)) {
+    const description: string[] = doc.splitTextToSize(item.description, COLUMNS.quantity - COLUMNS.description - 40);
+    if (y + description.length * 12 > TABLE_BOTTOM) {
+      doc.addPage();
+      y = 70;
+      tableHeader();
+    }
+
+    doc.text(description, COLUMNS.description, y);
+    doc.text(String(item.quantity), COLUMNS.quantity, y, { align: 'right' });
+    doc.text(money(item.unitCents), COLUMNS.unitPrice, y, { align: 'right' });
+    doc.text(money(item.totalCents), COLUMNS.amount, y, { align: 'right' });
+    y += description.length * 12 + 8;
+  }
+
+  // Totals
+  if (y + 90 > TABLE_BOTTOM) {
+    doc.addPage();
+    y = 70;
+  }
+  doc.line(340, y, COLUMNS.amount, y);
+  y += 18;
+  const amountDue = invoice.status === 'paid' || invoice.status === 'void' ? 0 : invoice.total_cents;
+  const totals: [string, string, boolean][] = [
+    ['Subtotal', money(invoice.subtotal_cents), false],
+    ['Tax', money(invoice.tax_cents), false],
+    ['Total', money(invoice.total_cents), true],
+    ['Amount due', money(amountDue), true],
+  ];
+  for (const [label, value, bold] of totals) {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.text(label, 340, y);
+    doc.text(value, COLUMNS.amount, y, { align: 'right' });
+    y += 16;
+  }
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages();
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor('#6b7280');
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.text(`${ISSUER_NAME} - ${invoice.invoice_number}`, PAGE.margin, PAGE.height - 40);
+    doc.text(`Page ${page} of ${pageCount}`, COLUMNS.amount, PAGE.height - 40, { align: 'right' });
+  }
+
+  return new Uint8Array(doc.output('arraybuffer'));
+};
+
+export const getInvoice = async (invoiceId: string): Promise<InvoiceRow | null> => {
+  const { data, error } = await supabaseAdmin
+    .from('invoices')
+    .select(`
+      id, organization_id, invoice_number, status, subtotal_cents, tax_cents, total_cents, currency,
+      period_start, period_end, due_date, paid_at, line_items, created_at,
+      organization:organizations(id, name, billing_email, billing_address, tax_id, vat_number)
+    `)
+    .eq('id', invoiceId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as unknown as InvoiceRow | null;
+};
+
+/**
+ * Render the invoice and store it as its next document version. Earlier
+ * versions are kept; invoices.pdf_url points at the newest.
+ */
+export const generateInvoiceDocument = async (
+  invoice: InvoiceRow,
+  generatedBy: string | null
+): Promise<InvoiceDocumentRow> => {
+  const pdf = renderInvoicePdf(invoice);
+  const checksum = await sha256Hex(pdf);
+
+  // Two renders at once can pick the same version; the unique index makes
+  // the second one retry with the next number
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: latest, error: latestError } = await supabaseAdmin
+      .from('invoice_documents')
+      .select('version')
+      .eq('invoice_id', invoice.id)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) throw latestError;
+
+    const version = (latest?.version ?? 0) + 1;
+    const storagePath = `${invoice.organization_id}/${invoice.id}/${invoice.invoice_number}-v${version}.pdf`;
+
+    const { error: uploadError } = await supabaseAdmin.storage
+      .from(INVOICE_BUCKET)
+      .upload(storagePath, pdf, { contentType: 'application/pdf', upsert: false });
+
+    if (uploadError) {
+      if (/exists|duplicate/i.test(uploadError.message)) continue;
+      throw uploadError;
+    }
+
+    const { data: document, error: insertError } = await supabaseAdmin
+      .from('invoice_documents')
+      .insert({
+        invoice_id: invoice.id,
+        organization_id: invoice.organization_id,
+        version,
+        storage_path: storagePath,
+        file_size: pdf.byteLength,
+        sha256: checksum,
+        invoice_number: invoice.invoice_number,
+        invoice_status: invoice.status,
+        total_cents: invoice.total_cents,
+        currency: invoice.currency,
+        generated_by: generatedBy,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      await supabaseAdmin.storage.from(INVOICE_BUCKET).remove([storagePath]);
+      if (insertError.code === '23505') continue;
+      throw insertError;
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('invoices')
+      .update({ pdf_url: storagePath, pdf_generated_at: document.created_at })
+      .eq('id', invoice.id);
+
+    if (updateError) throw updateError;
+    return document as InvoiceDocumentRow;
+  }
+
+  throw new Error(`Could not allocate a document version for invoice ${invoice.id}`);
+};
+
+// Latest document if it still shows the invoice as it is now, otherwise a
+// fresh render
+export const currentInvoiceDocument = async (
+  invoice: InvoiceRow,
+  generatedBy: string | null
+): Promise<InvoiceDocumentRow> => {
+  const { data, error } = await supabaseAdmin
+    .from('invoice_documents')
+    .select('*')
+    .eq('invoice_id', invoice.id)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const latest = data as InvoiceDocumentRow | null;
+  if (
+    latest
+    && latest.invoice_number === invoice.invoice_number
+    && latest.invoice_status === invoice.status
+    && latest.total_cents === invoice.total_cents
+    && latest.currency === invoice.currency
+  ) {
+    return latest;
+  }
+
+  return generateInvoiceDocument(invoice, generatedBy);
+};
+
+/**
+ * Email the current invoice PDF to the organization's billing_email and log
+ * the attempt in invoice_emails
+ */
+export const sendInvoiceEmail = async (
+  invoice: InvoiceRow,
+  sentBy: string | null
+): Promise<{ documentId: string; recipient: string; messageId: string }> => {
+  const document = await currentInvoiceDocument(invoice, sentBy);
+  const recipient = invoice.organization.billing_email;
+
+  const { data: file, error: downloadError } = await supabaseAdmin.storage
+    .from(INVOICE_BUCKET)
+    .download(document.storage_path);
+
+  if (downloadError) throw downloadError;
+
+  const total = formatMoney(invoice.total_cents, invoice.currency);
+  const dueLine = invoice.status === 'paid'
+    ? 'This invoice has been paid. Thank you.'
+    : invoice.due_date
+      ? `Amount due: ${total}, due ${formatDate(invoice.due_date)}.`
+      : `Amount due: ${total}.`;
+
+  const log = async (status: 'sent' | 'failed', details: { message_id?: string; error?: string }) => {
+    const { error } = await supabaseAdmin
+      .from('invoice_emails')
+      .insert({
+        invoice_id: invoice.id,
+        organization_id: invoice.organization_id,
+        document_id: document.id,
+        recipient,
+        status,
+        sent_by: sentBy,
+        ...details,
+      });
+
+    if (error) console.error('Failed to log invoice email:', error);
+  };
+
+  try {
+    const messageId = await sendMail({
+      to: recipient,
+      subject: `Invoice ${invoice.invoice_number} from ${ISSUER_NAME}`,
+      text: [
+        `Hello ${invoice.organization.name},`,
+        '',
+        `Please find attached invoice ${invoice.invoice_number} for ${formatDate(invoice.period_start)} - ${formatDate(invoice.period_end)}.`,
+        dueLine,
+        '',
+        ISSUER_NAME,
+      ].join('\n'),
+      attachments: [{
+        filename: `${invoice.invoice_number}.pdf`,
+        content: new Uint8Array(await file.arrayBuffer()),
+        contentType: 'application/pdf',
+      }],
+    });
+
+    await log('sent', { message_id: messageId });
+    return { documentId: document.id, recipient, messageId };
+  } catch (error) {
+    await log('failed', { error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+};
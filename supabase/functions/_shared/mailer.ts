@@ -0,0 +1,50 @@
+import { Buffer } from 'node:buffer';
+import nodemailer from 'npm:nodemailer@6';
+
+// SMTP relay for outgoing mail. The defaults reach the Inbucket mail
+// catcher that `supabase start` runs, so local mail never leaves the machine.
+const SMTP_HOST = Deno.env.get('SMTP_HOST') ?? 'host.docker.internal';
+const SMTP_PORT = Number(Deno.env.get('SMTP_PORT') ?? '54325');
+const SMTP_USER = Deno.env.get('SMTP_USER') ?? '';
+const SMTP_PASS = Deno.env.get('SMTP_PASS') ?? '';
+const SMTP_FROM = Deno.env.get('SMTP_FROM') ?? 'Winbro Training Reels <billing@winbro.local>';
+
+export interface MailAttachment {
+  filename: string;
+  content: Uint8Array;
+  contentType: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+const transport = nodemailer.createTransport({
+  host: SMTP_HOST,
+  port: SMTP_PORT,
+  // Implicit TLS on 465; other ports upgrade with STARTTLS when offered
+  secure: SMTP_PORT === 465,
+  ...(SMTP_USER && { auth: { user: SMTP_USER, pass: SMTP_PASS } }),
+});
+
+// Send a message and return the SMTP message id
+export const sendMail = async (message: MailMessage): Promise<string> => {
+  const info = await transport.sendMail({
+    from: SMTP_FROM,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+    attachments: message.attachments?.map(attachment => ({
+      filename: attachment.filename,
+      content: Buffer.from(attachment.content),
+      contentType: attachment.contentType,
+    })),
+  });
+
+  return info.messageId;
+};
@@ -0,0 +1,242 @@
+import { compileCondition, type CompiledCondition } from '../../../src/lib/ruleExpression.ts';
+import { supabaseAdmin } from './supabaseAdmin.ts';
+
+// Server side of SecurityPolicyService: the same rules and expression
+// language, with the context built from the database and the request
+// instead of what the browser reports
+
+export type SecurityCheckpoint = 'login' | 'password_change' | 'admin_action';
+
+// Shape of SecurityPolicy / SecurityRule in src/settings/securityConfig.ts
+export interface SecurityRule {
+  id: string;
+  name: string;
+  description: string;
+  condition: string;
+  action: 'alert' | 'block' | 'log' | 'notify' | 'warn';
+  enabled: boolean;
+}
+
+export interface SecurityPolicy {
+  name: string;
+  description: string;
+  enabled: boolean;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  category: string;
+  rules: SecurityRule[];
+}
+
+export interface SecurityAction {
+  name: string;
+  category: string;
+  resourceType?: string;
+  resourceId?: string;
+}
+
+export interface RuleEvaluation {
+  policy: SecurityPolicy;
+  rule: SecurityRule;
+  status: 'skipped' | 'passed' | 'triggered' | 'error';
+  missing?: string[];
+  message?: string;
+}
+
+// Values a condition can read, as SecurityRuleContext in the app
+export type SecurityRuleContext = Record<string, unknown> & {
+  now: number;
+  user?: { id: string };
+  request?: { ip: string | null; userAgent: string | null };
+  action?: SecurityAction;
+};
+
+interface RuleSubject {
+  email: string | null;
+  role: string | null;
+  roles: string[];
+  mfa_enabled: boolean;
+  mfa_verified: boolean;
+  mfa_required: boolean;
+  session_started_at: string | null;
+  session_ip: string | null;
+  session_user_agent: string | null;
+}
+
+const CHECKPOINT_LABELS: Record<SecurityCheckpoint, string> = {
+  login: 'sign-in',
+  password_change: 'password change',
+  admin_action: 'admin action',
+};
+
+const compiled = new Map<string, CompiledCondition | Error>();
+
+const compile = (condition: string): CompiledCondition | Error => {
+  let result = compiled.get(condition);
+  if (!result) {
+    try {
+      result = compileCondition(condition);
+    } catch (error) {
+      result = error instanceof Error ? error : new Error(String(error));
+    }
+    compiled.set(condition, result);
+  }
+  return result;
+};
+
+// Client IP as appended by the gateway; earlier X-Forwarded-For entries
+// come from the client (see get_request_context)
+export const requestIp = (req: Request): string | null =>
+  req.headers.get('x-forwarded-for')?.split(',').pop()?.trim() || null;
+
+// Session id and expiry of an access token the caller has already verified
+export const sessionClaims = (jwt: string): { sessionId: string | null; expiresAt: number | null } => {
+  try {
+    const payload = JSON.parse(atob(jwt.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return {
+      sessionId: typeof payload.session_id === 'string' ? payload.session_id : null,
+      expiresAt: typeof payload.exp === 'number' ? payload.exp * 1000 : null,
+    };
+  } catch {
+    return { sessionId: null, expiresAt: null };
+  }
+};
+
+export const loadPolicies = async (): Promise<SecurityPolicy[]> => {
+  const { data, error } = await supabaseAdmin
+    .from('admin_system_settings')
+    .select('setting_value')
+    .eq('setting_key', 'security_policies')
+    .maybeSingle();
+
+  if (error) throw error;
+  return Array.isArray(data?.setting_value) ? (data.setting_value as SecurityPolicy[]) : [];
+};
+
+/**
+ * Context of a user's session. The request is the one being checked; when
+ * there is none (the auth hook) the IP and user agent Supabase Auth
+ * recorded for the session are used.
+ */
+export const buildContext = async (
+  userId: string,
+  session: { sessionId: string | null; expiresAt: number | null },
+  input: { request?: Request; password?: string; action?: SecurityAction } = {}
+): Promise<SecurityRuleContext> => {
+  const { data, error } = await supabaseAdmin.rpc('security_rule_subject', {
+    p_user_id: userId,
+    p_session_id: session.sessionId,
+  });
+  if (error) throw error;
+  const subject = data as RuleSubject;
+
+  return {
+    now: Date.now(),
+    ...(input.password !== undefined && { password: input.password }),
+    ...(input.action && {
+      action: {
+        name: input.action.name,
+        category: input.action.category,
+        resourceType: input.action.resourceType ?? null,
+        resourceId: input.action.resourceId ?? null,
+      },
+    }),
+    request: {
+      ip: input.request ? requestIp(input.request) : subject.session_ip,
+      country: input.request?.headers.get('cf-ipcountry')?.toUpperCase() ?? null,
+      userAgent: input.request ? input.request.headers.get('user-agent') : subject.session_user_agent,
+      isAuthenticated: true,
+    },
+    user: {
+      id: userId,
+      email: subject.email,
+      role: subject.role,
+      roles: subject.roles,
+    },
+    mfa: {
+      enabled: subject.mfa_enabled,
+      verified: subject.mfa_verified,
+      required: subject.mfa_required,
+    },
+    session: {
+      startedAt: subject.session_started_at ? Date.parse(subject.session_started_at) : null,
+      expiresAt: session.expiresAt,
+    },
+  };
+};
+
+export const evaluateRules = (policies: SecurityPolicy[], context: SecurityRuleContext): RuleEvaluation[] =>
+  policies
+    .filter(policy => policy.enabled)
+    .flatMap(policy =>
+      policy.rules
+        .filter(rule => rule.enabled)
+        .map((rule): RuleEvaluation => {
+          const condition = compile(rule.condition);
+          if (condition instanceof Error) {
+            return { policy, rule, status: 'error', message: condition.message };
+          }
+
+          const missing = condition.roots.filter(root => context[root] === undefined);
+          if (missing.length > 0) {
+            return { policy, rule, status: 'skipped', missing };
+          }
+
+          try {
+            return { policy, rule, status: condition.evaluate(context) ? 'triggered' : 'passed' };
+          } catch (error) {
+            return { policy, rule, status: 'error', message: error instanceof Error ? error.message : String(error) };
+          }
+        })
+    );
+
+/**
+ * Evaluate the stored policies at a checkpoint and log every rule that
+ * triggers or fails, as SecurityPolicyService.enforce does. Returns the
+ * evaluations; block rules among them mean the action must not go ahead.
+ */
+export const runCheckpoint = async (
+  checkpoint: SecurityCheckpoint,
+  context: SecurityRuleContext
+): Promise<{ evaluations: RuleEvaluation[]; blocked: RuleEvaluation[]; warnings: RuleEvaluation[] }> => {
+  const evaluations = evaluateRules(await loadPolicies(), context);
+  const triggered = evaluations.filter(evaluation => evaluation.status === 'triggered');
+  const failed = evaluations.filter(evaluation => evaluation.status === 'error');
+
+  await Promise.all([...triggered, ...failed].map(evaluation => record(checkpoint, context, evaluation)));
+
+  return {
+    evaluations,
+    blocked: triggered.filter(evaluation => evaluation.rule.action === 'block'),
+    warnings: triggered.filter(evaluation => ['warn', 'alert', 'notify'].includes(evaluation.rule.action)),
+  };
+};
+
+// The password is never part of the event
+const record = async (
+  checkpoint: SecurityCheckpoint,
+  context: SecurityRuleContext,
+  evaluation: RuleEvaluation
+): Promise<void> => {
+  const { policy, rule, status } = evaluation;
+
+  const { error } = await supabaseAdmin.rpc('log_security_event', {
+    p_user_id: context.user?.id ?? null,
+    p_event_type: status === 'error' ? 'security_rule_error' : 'security_rule_triggered',
+    p_severity: status === 'error' ? 'medium' : policy.severity,
+    p_title: `${rule.name} ${status === 'error' ? 'failed' : 'triggered'} at ${CHECKPOINT_LABELS[checkpoint]}`,
+    p_description: status === 'error' ? evaluation.message : rule.description,
+    p_ip_address: context.request?.ip ?? null,
+    p_user_agent: context.request?.userAgent ?? null,
+    p_metadata: {
+      checkpoint,
+      policy: policy.name,
+      rule_id: rule.id,
+      rule_action: rule.action,
+      condition: rule.condition,
+      enforced_by: 'server',
+      ...(context.action && { admin_action: context.action }),
+    },
+  });
+
+  // Logging must not decide whether the action goes ahead
+  if (error) console.error('security rule event logging failed:', error);
+};
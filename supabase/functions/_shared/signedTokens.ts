@@ -0,0 +1,222 @@
+/**
+ * Signed tokens for share links, download grants and invitation links
+ *
+ * Tokens are compact HS256 JWS strings (header.payload.signature) carrying
+ * aud, iat, exp and the id of the signing key (kid). Keys live in
+ * data_encryption_keys (key_type 'token_signing'): new tokens are signed with
+ * the newest active key version, and every active key still verifies, so a
+ * key can be rotated without invalidating links already handed out.
+ *
+ * data_encryption_keys is only readable with the service role; tokenKeys is
+ * the store backed by the service-role client.
+ */
+
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { supabaseAdmin, base64UrlEncode, tokensMatch } from './supabaseAdmin.ts';
+
+export const TOKEN_SIGNING_KEY_TYPE = 'token_signing';
+
+// Allowed clock drift when checking exp / iat, in seconds
+const DEFAULT_CLOCK_TOLERANCE = 30;
+const KEY_CACHE_TTL_MS = 5 * 60 * 1000;
+// Unknown key ids reload the keys at most this often
+const KEY_RELOAD_COOLDOWN_MS = 30 * 1000;
+
+export interface SigningKey {
+  id: string;
+  version: number;
+  secret: Uint8Array;
+}
+
+export interface SigningKeyStore {
+  /** Key new tokens are signed with */
+  getSigningKey(): Promise<SigningKey>;
+  /** Active key by id, or null if it is unknown or retired */
+  getVerificationKey(keyId: string): Promise<SigningKey | null>;
+}
+
+export interface SignedTokenClaims {
+  aud: string;
+  iat: number;
+  exp: number;
+  sub?: string;
+  jti?: string;
+  [claim: string]: unknown;
+}
+
+export interface SignTokenOptions {
+  audience: string; // e.g. 'share-link', 'download', 'invitation'
+  expiresIn: number; // seconds
+  subject?: string;
+  tokenId?: string;
+}
+
+export interface VerifyTokenOptions {
+  audience: string | string[];
+  clockTolerance?: number; // seconds
+}
+
+export type SignedTokenFailure =
+  | 'malformed'
+  | 'unknown_key'
+  | 'bad_signature'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'wrong_audience';
+
+export type SignedTokenVerification<T extends Record<string, unknown>> =
+  | { valid: true; claims: SignedTokenClaims & T; keyId: string }
+  | { valid: false; reason: SignedTokenFailure };
+
+const base64UrlDecode = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const encodeJSON = (value: unknown): string =>
+  base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+
+const decodeJSON = (value: string): Record<string, unknown> | null => {
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(base64UrlDecode(value)));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const nowSeconds = (): number => Math.floor(Date.now() / 1000);
+
+const hmacSHA256 = async (data: string, secret: Uint8Array): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data)));
+};
+
+/**
+ * Sign claims into a token for one audience
+ */
+export const signToken = async (
+  claims: Record<string, unknown>,
+  options: SignTokenOptions,
+  keys: SigningKeyStore
+): Promise<string> => {
+  if (!options.audience) {
+    throw new Error('Signed tokens need an audience');
+  }
+  if (!(options.expiresIn > 0)) {
+    throw new Error('Signed tokens need a positive expiresIn');
+  }
+
+  const key = await keys.getSigningKey();
+  const issuedAt = nowSeconds();
+
+  const header = encodeJSON({ alg: 'HS256', typ: 'JWT', kid: key.id });
+  const payload = encodeJSON({
+    ...claims,
+    aud: options.audience,
+    iat: issuedAt,
+    exp: issuedAt + Math.floor(options.expiresIn),
+    ...(options.subject && { sub: options.subject }),
+    ...(options.tokenId && { jti: options.tokenId }),
+  });
+
+  const signature = await hmacSHA256(`${header}.${payload}`, key.secret);
+  return `${header}.${payload}.${base64UrlEncode(signature)}`;
+};
+
+/**
+ * Verify signature, key, audience and expiry of a token
+ */
+export const verifyToken = async <T extends Record<string, unknown> = Record<string, unknown>>(
+  token: string,
+  options: VerifyTokenOptions,
+  keys: SigningKeyStore
+): Promise<SignedTokenVerification<T>> => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return { valid: false, reason: 'malformed' };
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  const header = decodeJSON(encodedHeader);
+  const payload = decodeJSON(encodedPayload);
+  if (!header || !payload || header.alg !== 'HS256' || typeof header.kid !== 'string') {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const key = await keys.getVerificationKey(header.kid);
+  if (!key) return { valid: false, reason: 'unknown_key' };
+
+  const expected = base64UrlEncode(await hmacSHA256(`${encodedHeader}.${encodedPayload}`, key.secret));
+  if (!(await tokensMatch(encodedSignature, expected))) {
+    return { valid: false, reason: 'bad_signature' };
+  }
+
+  if (typeof payload.exp !== 'number' || typeof payload.iat !== 'number' || typeof payload.aud !== 'string') {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const tolerance = options.clockTolerance ?? DEFAULT_CLOCK_TOLERANCE;
+  const now = nowSeconds();
+  if (payload.exp <= now - tolerance) return { valid: false, reason: 'expired' };
+  if (payload.iat > now + tolerance) return { valid: false, reason: 'not_yet_valid' };
+
+  const audiences = Array.isArray(options.audience) ? options.audience : [options.audience];
+  if (!audiences.includes(payload.aud)) {
+    return { valid: false, reason: 'wrong_audience' };
+  }
+
+  return { valid: true, claims: payload as SignedTokenClaims & T, keyId: header.kid };
+};
+
+/**
+ * Key store backed by data_encryption_keys. Requires a service-role client;
+ * keys are cached briefly so rotation is picked up within KEY_CACHE_TTL_MS.
+ */
+export const createDatabaseKeyStore = (client: SupabaseClient): SigningKeyStore => {
+  let cache: { keys: SigningKey[]; loadedAt: number } | null = null;
+
+  const loadKeys = async (force = false): Promise<SigningKey[]> => {
+    const maxAge = force ? KEY_RELOAD_COOLDOWN_MS : KEY_CACHE_TTL_MS;
+    if (cache && Date.now() - cache.loadedAt < maxAge) {
+      return cache.keys;
+    }
+
+    const { data, error } = await client
+      .from('data_encryption_keys')
+      .select('id, key_version, encrypted_key')
+      .eq('customer_id', 'system')
+      .eq('key_type', TOKEN_SIGNING_KEY_TYPE)
+      .eq('is_active', true)
+      .order('key_version', { ascending: false });
+
+    if (error) throw error;
+
+    const keys = (data || []).map(row => ({
+      id: row.id as string,
+      version: row.key_version as number,
+      secret: Uint8Array.from(atob(row.encrypted_key as string), char => char.charCodeAt(0)),
+    }));
+    cache = { keys, loadedAt: Date.now() };
+    return keys;
+  };
+
+  return {
+    async getSigningKey() {
+      const [newest] = await loadKeys();
+      if (!newest) {
+        throw new Error('No active token signing key');
+      }
+      return newest;
+    },
+    async getVerificationKey(keyId) {
+      const key = (await loadKeys()).find(candidate => candidate.id === keyId);
+      if (key) return key;
+
+      // A key rotated in by another instance may not be cached yet
+      return (await loadKeys(true)).find(candidate => candidate.id === keyId) ?? null;
+    },
+  };
+};
+
+// Key store for edge functions
+export const tokenKeys = createDatabaseKeyStore(supabaseAdmin);
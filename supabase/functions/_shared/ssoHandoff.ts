@@ -0,0 +1,209 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { jsonResponse } from './cors.ts';
+import { supabaseAdmin, sha256Hex, randomToken } from './supabaseAdmin.ts';
+
+const APP_URL = Deno.env.get('APP_URL') ?? '';
+
+// Anon client that verifies the one-time sign-in token minted at redeem
+const supabaseAuth = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+  { auth: { persistSession: false, autoRefreshToken: false } }
+);
+
+// Shape of SSOService's SSOUser
+export interface SSOUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  displayName: string;
+  groups: string[];
+  attributes: Record<string, unknown>;
+}
+
+// Only same-site paths may be used as the post-login destination
+export const safeRedirectPath = (value: string | null | undefined): string | null =>
+  value && value.startsWith('/') && !value.startsWith('//') ? value : null;
+
+// Store a validated identity under a single-use code and return the app URL
+// that picks it up (SSOCallbackPage, SSOService.processSSOCallback)
+export const createHandoffUrl = async (
+  providerId: string,
+  user: SSOUser,
+  redirectTo: string | null
+): Promise<string> => {
+  const code = randomToken();
+
+  const { error } = await supabaseAdmin
+    .from('sso_login_handoffs')
+    .insert({
+      provider_id: providerId,
+      code_hash: await sha256Hex(code),
+      user_data: user,
+      redirect_to: redirectTo,
+    });
+
+  if (error) throw error;
+
+  const params = new URLSearchParams({ provider: providerId, code });
+  return `${APP_URL}/auth/sso/callback?${params.toString()}`;
+};
+
+export const loginErrorUrl = (kind: string): string => `${APP_URL}/login?sso_error=${kind}`;
+
+interface SSOAccount {
+  userId: string;
+  isNewUser: boolean;
+}
+
+/**
+ * Find or create the app account for an SSO identity. A customer's IdP may
+ * only sign in members of that customer's organization, and never platform
+ * admins: it controls the email it asserts, so any other account would be
+ * open to it. Returns null when the account may not sign in.
+ */
+const resolveAccount = async (
+  provider: { customer_id: string | null },
+  user: SSOUser
+): Promise<SSOAccount | null> => {
+  const email = user.email.trim().toLowerCase();
+
+  const { data: existing, error } = await supabaseAdmin
+    .from('users')
+    .select('id, role')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (existing) {
+    if (provider.customer_id) {
+      if (existing.role === 'admin') return null;
+
+      const { data: membership, error: membershipError } = await supabaseAdmin
+        .from('user_organizations')
+        .select('id')
+        .eq('user_id', existing.id)
+        .eq('organization_id', provider.customer_id)
+        .maybeSingle();
+
+      if (membershipError) throw membershipError;
+      if (!membership) return null;
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('users')
+      .update({ full_name: user.displayName, email_verified: true })
+      .eq('id', existing.id);
+
+    if (updateError) throw updateError;
+    return { userId: existing.id, isNewUser: false };
+  }
+
+  const company = provider.customer_id ?? 'Unknown';
+  const { data: created, error: createError } = await supabaseAdmin.auth.admin.createUser({
+    email,
+    email_confirm: true,
+    user_metadata: { full_name: user.displayName, company },
+  });
+
+  if (createError) throw createError;
+
+  const { error: profileError } = await supabaseAdmin
+    .from('users')
+    .upsert({
+      id: created.user.id,
+      email,
+      full_name: user.displayName,
+      role: 'learner',
+      company,
+      email_verified: true,
+    });
+
+  if (profileError) throw profileError;
+
+  if (provider.customer_id) {
+    const { error: membershipError } = await supabaseAdmin
+      .from('user_organizations')
+      .insert({ user_id: created.user.id, organization_id: provider.customer_id, role: 'member' });
+
+    if (membershipError) throw membershipError;
+  }
+
+  return { userId: created.user.id, isNewUser: true };
+};
+
+// Sign the account in: mint a one-time magic link token and verify it here,
+// so the browser only ever receives the resulting session
+const createSession = async (email: string) => {
+  const { data: link, error: linkError } = await supabaseAdmin.auth.admin.generateLink({
+    type: 'magiclink',
+    email,
+  });
+
+  if (linkError) throw linkError;
+
+  const { data, error } = await supabaseAuth.auth.verifyOtp({
+    type: 'magiclink',
+    token_hash: link.properties.hashed_token,
+  });
+
+  if (error) throw error;
+  if (!data.session) throw new Error('No session returned for SSO sign-in');
+  return data.session;
+};
+
+/**
+ * POST /redeem: exchange a handoff code for a session of the SSO user's
+ * account, creating the account on first sign-in
+ */
+export const handleRedeem = async (req: Request): Promise<Response> => {
+  const { providerId, code } = await req.json();
+  if (typeof providerId !== 'string' || typeof code !== 'string') {
+    return jsonResponse({ error: 'providerId and code are required' }, 400);
+  }
+
+  // Single use: the update only matches an unexpired, unconsumed code
+  const { data, error } = await supabaseAdmin
+    .from('sso_login_handoffs')
+    .update({ consumed_at: new Date().toISOString() })
+    .eq('code_hash', await sha256Hex(code))
+    .eq('provider_id', providerId)
+    .is('consumed_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('user_data, redirect_to')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    return jsonResponse({ error: 'SSO login code is invalid or expired' }, 400);
+  }
+
+  const { data: provider, error: providerError } = await supabaseAdmin
+    .from('sso_providers')
+    .select('customer_id')
+    .eq('id', providerId)
+    .eq('enabled', true)
+    .maybeSingle();
+
+  if (providerError) throw providerError;
+  if (!provider) {
+    return jsonResponse({ error: 'SSO provider not found' }, 404);
+  }
+
+  const user = data.user_data as SSOUser;
+  const account = await resolveAccount(provider, user);
+  if (!account) {
+    return jsonResponse({ error: 'This account cannot sign in with this provider' }, 403);
+  }
+
+  const session = await createSession(user.email.trim().toLowerCase());
+
+  return jsonResponse({
+    user: { ...user, id: account.userId },
+    isNewUser: account.isNewUser,
+    redirectTo: data.redirect_to,
+    session: { access_token: session.access_token, refresh_token: session.refresh_token },
+  });
+};
@@ -0,0 +1,44 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+// Service-role client; bypasses RLS, so only use it after checking the caller
+export const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  { auth: { persistSession: false, autoRefreshToken: false } }
+);
+
+// Hex SHA-256, used to store single-use codes and tokens without the raw value
+// and to checksum stored files
+export const sha256Hex = async (value: string | Uint8Array): Promise<string> => {
+  const bytes = typeof value === 'string' ? new TextEncoder().encode(value) : value;
+  const hash = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(hash))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Unpadded base64url
+export const base64UrlEncode = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+// URL-safe random token
+export const randomToken = (bytes = 32): string =>
+  base64UrlEncode(crypto.getRandomValues(new Uint8Array(bytes)));
+
+// Compare digests so the comparison time does not depend on the token
+export const tokensMatch = async (provided: string, expected: string): Promise<boolean> => {
+  const encoder = new TextEncoder();
+  const [a, b] = await Promise.all([
+    crypto.subtle.digest('SHA-256', encoder.encode(provided)),
+    crypto.subtle.digest('SHA-256', encoder.encode(expected)),
+  ]);
+  const left = new Uint8Array(a);
+  const right = new Uint8Array(b);
+
+  let diff = 0;
+  for (let i = 0; i < left.length; i++) diff |= left[i] ^ right[i];
+  return diff === 0;
+};
@@ -0,0 +1,68 @@
+/**
+ * Supabase Auth Custom Access Token hook (HTTP)
+ *
+ * Auth calls this before it issues an access token, at sign-in and on every
+ * refresh. A refusal here means no token, whatever the client does:
+ *
+ *   - organization network rules, through public.custom_access_token_hook
+ *   - at sign-in only, the login security rules (see security-checkpoint)
+ *
+ * Auth signs its requests (Standard Webhooks); the secret is the one shown
+ * when the hook is configured, stored as AUTH_HOOK_SECRET. Auth sends no
+ * Supabase JWT, so deploy with `supabase functions deploy auth-hook --no-verify-jwt`.
+ */
+
+import { Webhook } from 'npm:standardwebhooks@1';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { buildContext, runCheckpoint } from '../_shared/securityRules.ts';
+
+const HOOK_SECRET = (Deno.env.get('AUTH_HOOK_SECRET') ?? '').replace(/^v1,whsec_/, '');
+
+interface TokenEvent {
+  user_id: string;
+  claims: Record<string, unknown> & { session_id?: string; exp?: number };
+  authentication_method: string;
+}
+
+const respond = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const refuse = (httpCode: number, message: string): Response =>
+  respond({ error: { http_code: httpCode, message } }, httpCode);
+
+Deno.serve(async (req) => {
+  const payload = await req.text();
+
+  let event: TokenEvent;
+  try {
+    event = new Webhook(HOOK_SECRET).verify(payload, Object.fromEntries(req.headers)) as TokenEvent;
+  } catch {
+    return refuse(401, 'Invalid hook signature');
+  }
+
+  try {
+    const { data: networkResult, error } = await supabaseAdmin.rpc('custom_access_token_hook', { event });
+    if (error) throw error;
+    if (networkResult?.error) {
+      return respond(networkResult);
+    }
+
+    if (event.authentication_method !== 'token_refresh') {
+      const context = await buildContext(event.user_id, {
+        sessionId: event.claims.session_id ?? null,
+        expiresAt: typeof event.claims.exp === 'number' ? event.claims.exp * 1000 : null,
+      });
+      const { blocked } = await runCheckpoint('login', context);
+
+      if (blocked.length > 0) {
+        return refuse(403, blocked.map(evaluation => evaluation.rule.description).join('. '));
+      }
+    }
+
+    return respond({ claims: event.claims });
+  } catch (error) {
+    // No token unless the rules could be checked
+    console.error('auth-hook failed:', error);
+    return refuse(500, 'Sign-in checks are unavailable; try again shortly');
+  }
+});
@@ -0,0 +1,70 @@
+/**
+ * Certificate documents
+ *
+ *   POST /certificates/:certificateId/render   render the PDF and thumbnail from the
+ *                                              stored certificate and save their URLs
+ *
+ * Callers must be the recipient, the owner of the course or a platform
+ * admin. Files are written to the certificates bucket with the service
+ * role; nobody else can write there, so a stored PDF is always one rendered
+ * here from the certificate row.
+ */
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { generateCertificateFiles, getCertificate, type CertificateRow } from '../_shared/certificates.ts';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const authenticate = async (req: Request): Promise<string | null> => {
+  const jwt = /^Bearer\s+(.+)$/i.exec(req.headers.get('Authorization') ?? '')?.[1];
+  if (!jwt) return null;
+
+  const { data: { user } } = await supabaseAdmin.auth.getUser(jwt);
+  return user?.id ?? null;
+};
+
+const canRender = async (userId: string, certificate: CertificateRow): Promise<boolean> => {
+  if (certificate.user_id === userId) return true;
+
+  const [{ data: admin, error: adminError }, { data: course, error: courseError }] = await Promise.all([
+    supabaseAdmin.from('users').select('id').eq('id', userId).eq('role', 'admin').maybeSingle(),
+    supabaseAdmin.from('courses').select('id').eq('id', certificate.course_id).eq('user_id', userId).maybeSingle(),
+  ]);
+
+  if (adminError) throw adminError;
+  if (courseError) throw courseError;
+  return !!admin || !!course;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const segments = new URL(req.url).pathname.split('/').filter(Boolean);
+  const [certificateId, action] = segments.slice(segments.indexOf('certificates') + 1);
+
+  if (req.method !== 'POST' || !certificateId || !UUID_PATTERN.test(certificateId) || action !== 'render') {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  try {
+    const userId = await authenticate(req);
+    if (!userId) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    // Same response for missing and foreign certificates
+    const certificate = await getCertificate(certificateId);
+    if (!certificate || !(await canRender(userId, certificate))) {
+      return jsonResponse({ error: 'Certificate not found' }, 404);
+    }
+
+    const files = await generateCertificateFiles(certificate);
+    return jsonResponse(files);
+  } catch (error) {
+    console.error(`certificates ${action} failed:`, error);
+    return jsonResponse({ error: 'Failed to generate certificate PDF' }, 500);
+  }
+});
@@ -0,0 +1,53 @@
+/**
+ * Data retention job
+ *
+ *   POST /data-retention/run   { "dry_run": boolean, "max_rows"?: number }
+ *                              apply data_retention_policies: archive and
+ *                              delete expired security data outside legal
+ *                              holds. Service role key only; run it daily
+ *                              with "dry_run": false.
+ *
+ * The work happens in run_data_retention, which stores an HMAC-signed
+ * report of every run in data_retention_runs.
+ */
+
+import { jsonResponse } from '../_shared/cors.ts';
+import { supabaseAdmin, tokensMatch } from '../_shared/supabaseAdmin.ts';
+
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+Deno.serve(async (req) => {
+  const segments = new URL(req.url).pathname.split('/').filter(Boolean);
+  const [route] = segments.slice(segments.indexOf('data-retention') + 1);
+
+  if (req.method !== 'POST' || route !== 'run') {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  const jwt = /^Bearer\s+(.+)$/i.exec(req.headers.get('Authorization') ?? '')?.[1];
+  if (!jwt || !SERVICE_ROLE_KEY || !(await tokensMatch(jwt, SERVICE_ROLE_KEY))) {
+    return jsonResponse({ error: 'Service role key required' }, 401);
+  }
+
+  const body = await req.json().catch(() => ({})) as { dry_run?: unknown; max_rows?: unknown };
+  // No default: deleting data has to be asked for
+  if (typeof body.dry_run !== 'boolean') {
+    return jsonResponse({ error: 'dry_run must be true or false' }, 400);
+  }
+  if (body.max_rows !== undefined && (!Number.isInteger(body.max_rows) || (body.max_rows as number) < 1)) {
+    return jsonResponse({ error: 'max_rows must be a positive integer' }, 400);
+  }
+
+  try {
+    const { data, error } = await supabaseAdmin.rpc('run_data_retention', {
+      p_dry_run: body.dry_run,
+      ...(body.max_rows !== undefined && { p_max_rows: body.max_rows }),
+    });
+    if (error) throw error;
+
+    return jsonResponse({ run: data });
+  } catch (error) {
+    console.error('data retention run failed:', error);
+    return jsonResponse({ error: 'Data retention run failed' }, 500);
+  }
+});
@@ -0,0 +1,98 @@
+// Export archive for data subject access requests: everything held on one
+// user as a zip with one JSON file per source and a manifest, stored in the
+// private data-subject-exports bucket.
+
+import JSZip from 'npm:jszip@3';
+import { sha256Hex, supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+
+export const EXPORT_BUCKET = 'data-subject-exports';
+
+const PAGE_SIZE = 1000;
+
+// Columns that are credentials rather than personal data are left out
+const SOURCES: { file: string; table: string; omit: string[] }[] = [
+  { file: 'profile', table: 'user_profiles', omit: ['two_factor_secret'] },
+  { file: 'activity', table: 'user_activity', omit: [] },
+  { file: 'learning_analytics', table: 'learning_analytics', omit: [] },
+  { file: 'quiz_attempts', table: 'quiz_attempts', omit: [] },
+  { file: 'certificates', table: 'certificates', omit: [] },
+  { file: 'sessions', table: 'user_sessions', omit: ['session_token'] },
+  { file: 'search_history', table: 'search_analytics', omit: [] },
+  { file: 'reels', table: 'videos', omit: [] },
+];
+
+export interface ExportArchive {
+  path: string;
+  sha256: string;
+  size: number;
+  counts: Record<string, number>;
+}
+
+const fetchRows = async (table: string, userId: string, omit: string[]): Promise<Record<string, unknown>[]> => {
+  const rows: Record<string, unknown>[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from(table)
+      .select('*')
+      .eq('user_id', userId)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    for (const row of (data ?? []) as Record<string, unknown>[]) {
+      for (const column of omit) delete row[column];
+      rows.push(row);
+    }
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+/**
+ * Collect the subject's data, zip it and upload the archive under the
+ * request's folder.
+ */
+export const buildExportArchive = async (requestId: string, userId: string): Promise<ExportArchive> => {
+  const { data: { user }, error: userError } = await supabaseAdmin.auth.admin.getUserById(userId);
+  if (userError) throw userError;
+
+  const zip = new JSZip();
+  const counts: Record<string, number> = {};
+
+  zip.file('account.json', JSON.stringify({
+    id: user?.id,
+    email: user?.email,
+    phone: user?.phone,
+    created_at: user?.created_at,
+    last_sign_in_at: user?.last_sign_in_at,
+    user_metadata: user?.user_metadata,
+  }, null, 2));
+
+  for (const source of SOURCES) {
+    const rows = await fetchRows(source.table, userId, source.omit);
+    counts[source.file] = rows.length;
+    zip.file(`${source.file}.json`, JSON.stringify(rows, null, 2));
+  }
+
+  const generatedAt = new Date().toISOString();
+  zip.file('manifest.json', JSON.stringify({
+    request_id: requestId,
+    subject_user_id: userId,
+    generated_at: generatedAt,
+    files: Object.fromEntries(SOURCES.map(source => [`${source.file}.json`, {
+      source: source.table,
+      rows: counts[source.file],
+    }])),
+  }, null, 2));
+
+  const bytes = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+  const path = `${requestId}/${generatedAt.replace(/[:.]/g, '-')}.zip`;
+
+  const { error: uploadError } = await supabaseAdmin.storage
+    .from(EXPORT_BUCKET)
+    .upload(path, bytes, { contentType: 'application/zip', upsert: false });
+  if (uploadError) throw uploadError;
+
+  return { path, sha256: await sha256Hex(bytes), size: bytes.length, counts };
+};
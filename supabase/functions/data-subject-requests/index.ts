@@ -0,0 +1,200 @@
+/**
+ * GDPR/CCPA data subject requests
+ *
+ *   POST /data-subject-requests/:requestId/export   build the subject's export
+ *                                                   archive; returns a signed URL
+ *   POST /data-subject-requests/:requestId/erase    anonymize and delete the subject
+ *
+ * Callers must be platform admins, and the subject's identity must be
+ * verified first. Erasure first deletes every export archive made for the
+ * subject. Each step is recorded in data_subject_request_events by the
+ * request triggers.
+ */
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { buildExportArchive, EXPORT_BUCKET } from './archive.ts';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SIGNED_URL_SECONDS = 60 * 60;
+
+// Postgres error codes raised by erase_data_subject
+const ERROR_STATUS: Record<string, number> = {
+  '42501': 403,
+  P0002: 404,
+  '22023': 400,
+  '55000': 409,
+};
+
+interface RequestRow {
+  id: string;
+  request_type: 'access' | 'erasure';
+  subject_email: string;
+  subject_user_id: string | null;
+  status: string;
+  identity_verification_status: string;
+  export_path: string | null;
+}
+
+const authenticate = async (req: Request): Promise<string | null> => {
+  const jwt = /^Bearer\s+(.+)$/i.exec(req.headers.get('Authorization') ?? '')?.[1];
+  if (!jwt) return null;
+
+  const { data: { user } } = await supabaseAdmin.auth.getUser(jwt);
+  return user?.id ?? null;
+};
+
+const isPlatformAdmin = async (userId: string): Promise<boolean> => {
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select('role')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.role === 'admin';
+};
+
+const getRequest = async (requestId: string): Promise<RequestRow | null> => {
+  const { data, error } = await supabaseAdmin
+    .from('data_subject_requests')
+    .select('id, request_type, subject_email, subject_user_id, status, identity_verification_status, export_path')
+    .eq('id', requestId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as RequestRow | null;
+};
+
+const exportRequest = async (request: RequestRow, userId: string): Promise<Response> => {
+  if (request.request_type !== 'access') {
+    return jsonResponse({ error: 'Only access requests are exported' }, 400);
+  }
+  if (['completed', 'rejected'].includes(request.status)) {
+    return jsonResponse({ error: `Request is already ${request.status}` }, 409);
+  }
+  if (request.identity_verification_status !== 'verified') {
+    return jsonResponse({ error: "Verify the subject's identity before exporting" }, 409);
+  }
+  if (!request.subject_user_id) {
+    return jsonResponse({ error: 'No account matches the subject email' }, 409);
+  }
+
+  const archive = await buildExportArchive(request.id, request.subject_user_id);
+
+  const { data: updated, error } = await supabaseAdmin
+    .from('data_subject_requests')
+    .update({
+      export_path: archive.path,
+      export_sha256: archive.sha256,
+      exported_at: new Date().toISOString(),
+      updated_by: userId,
+      ...(request.status !== 'in_progress' && { status: 'in_progress' }),
+    })
+    .eq('id', request.id)
+    .select()
+    .single();
+  if (error) throw error;
+
+  // Only the latest archive is kept
+  if (request.export_path) {
+    const { error: removeError } = await supabaseAdmin.storage.from(EXPORT_BUCKET).remove([request.export_path]);
+    if (removeError) console.error(`removing export ${request.export_path} failed:`, removeError);
+  }
+
+  const { data: signed, error: signError } = await supabaseAdmin.storage
+    .from(EXPORT_BUCKET)
+    .createSignedUrl(archive.path, SIGNED_URL_SECONDS);
+  if (signError) throw signError;
+
+  return jsonResponse({ request: updated, archive, signedUrl: signed.signedUrl });
+};
+
+// Archives hold the subject's data, so none may outlive the erasure. Emails
+// match without case, as erase_data_subject finds the account.
+const deleteSubjectExports = async (subjectEmail: string, userId: string): Promise<number> => {
+  const { data, error } = await supabaseAdmin
+    .from('data_subject_requests')
+    .select('id, export_path')
+    .ilike('subject_email', subjectEmail.replace(/[\\%_]/g, '\\$&'))
+    .not('export_path', 'is', null);
+  if (error) throw error;
+
+  const exports = (data ?? []) as { id: string; export_path: string }[];
+  if (exports.length === 0) return 0;
+
+  const { error: removeError } = await supabaseAdmin.storage
+    .from(EXPORT_BUCKET)
+    .remove(exports.map(row => row.export_path));
+  if (removeError) throw removeError;
+
+  const { error: updateError } = await supabaseAdmin
+    .from('data_subject_requests')
+    .update({ export_path: null, export_sha256: null, updated_by: userId })
+    .in('id', exports.map(row => row.id));
+  if (updateError) throw updateError;
+
+  return exports.length;
+};
+
+// Archives go first: once the request is completed a failed removal could
+// not be retried, and the archives would outlive the erasure
+const eraseRequest = async (request: RequestRow, userId: string): Promise<Response> => {
+  if (request.request_type !== 'erasure') {
+    return jsonResponse({ error: 'Only erasure requests are erased' }, 400);
+  }
+  if (['completed', 'rejected'].includes(request.status)) {
+    return jsonResponse({ error: `Request is already ${request.status}` }, 409);
+  }
+  if (request.identity_verification_status !== 'verified') {
+    return jsonResponse({ error: "Verify the subject's identity before erasing" }, 409);
+  }
+
+  const exportsDeleted = await deleteSubjectExports(request.subject_email, userId);
+
+  const { data: updated, error } = await supabaseAdmin.rpc('erase_data_subject', {
+    p_request_id: request.id,
+    p_actor_id: userId,
+  });
+
+  if (error) {
+    const status = ERROR_STATUS[error.code ?? ''];
+    if (status) return jsonResponse({ error: error.message }, status);
+    throw error;
+  }
+
+  return jsonResponse({ request: updated, exportsDeleted });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const segments = new URL(req.url).pathname.split('/').filter(Boolean);
+  const [requestId, action] = segments.slice(segments.indexOf('data-subject-requests') + 1);
+
+  if (req.method !== 'POST' || !requestId || !UUID_PATTERN.test(requestId) || !['export', 'erase'].includes(action)) {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  try {
+    const userId = await authenticate(req);
+    if (!userId) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+    if (!(await isPlatformAdmin(userId))) {
+      return jsonResponse({ error: 'Only platform admins can handle data subject requests' }, 403);
+    }
+
+    const request = await getRequest(requestId);
+    if (!request) {
+      return jsonResponse({ error: 'Request not found' }, 404);
+    }
+
+    return action === 'export' ? await exportRequest(request, userId) : await eraseRequest(request, userId);
+  } catch (error) {
+    console.error(`data-subject-requests ${action} failed:`, error);
+    return jsonResponse({ error: action === 'export' ? 'Failed to export subject data' : 'Failed to erase subject' }, 500);
+  }
+});
@@ -0,0 +1,288 @@
+// Dunning schedule. The database opens a case when a payment fails and closes
+// it when the invoice is paid; this module moves open cases along: a charge
+// retry and an email to the billing contact on each retry day, then the
+// read-only grace state, then suspension.
+
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { sendMail } from '../_shared/mailer.ts';
+import { formatDate, formatMoney } from '../_shared/invoices.ts';
+
+const STRIPE_SECRET_KEY = Deno.env.get('STRIPE_SECRET_KEY') ?? '';
+const APP_URL = Deno.env.get('APP_URL') ?? '';
+const BILLING_URL = `${APP_URL}/billing`;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DunningStage = 'retrying' | 'grace' | 'suspended' | 'recovered' | 'cancelled';
+
+interface DunningCaseRow {
+  id: string;
+  organization_id: string;
+  invoice_id: string;
+  retry_days: number[];
+  grace_days: number;
+  stage: DunningStage;
+  attempts: number;
+  next_action_at: string;
+  started_at: string;
+  invoice: {
+    id: string;
+    subscription_id: string | null;
+    invoice_number: string;
+    status: string;
+    total_cents: number;
+    currency: string;
+    stripe_invoice_id: string | null;
+  };
+  organization: {
+    id: string;
+    name: string;
+    billing_email: string;
+    status: string;
+  };
+}
+
+type RetryResult =
+  | { status: 'succeeded'; paymentIntentId: string | null }
+  | { status: 'failed' | 'skipped'; message: string };
+
+const COLUMNS = `
+  id, organization_id, invoice_id, retry_days, grace_days, stage, attempts, next_action_at, started_at,
+  invoice:invoices(id, subscription_id, invoice_number, status, total_cents, currency, stripe_invoice_id),
+  organization:organizations(id, name, billing_email, status)
+`;
+
+const recordEvent = async (
+  dunningCase: DunningCaseRow,
+  eventType: string,
+  description: string,
+  data: Record<string, unknown> = {}
+): Promise<void> => {
+  const { error } = await supabaseAdmin
+    .from('billing_events')
+    .insert({
+      organization_id: dunningCase.organization_id,
+      subscription_id: dunningCase.invoice.subscription_id,
+      invoice_id: dunningCase.invoice_id,
+      event_type: eventType,
+      event_category: 'dunning',
+      event_description: description,
+      event_data: { case_id: dunningCase.id, ...data },
+      source: 'system',
+    });
+
+  if (error) throw error;
+};
+
+// Ask Stripe to charge the invoice again with the customer's default method
+const retryCharge = async (dunningCase: DunningCaseRow): Promise<RetryResult> => {
+  const stripeInvoiceId = dunningCase.invoice.stripe_invoice_id;
+  if (!stripeInvoiceId) return { status: 'skipped', message: 'Invoice is not billed through Stripe' };
+  if (!STRIPE_SECRET_KEY) return { status: 'skipped', message: 'STRIPE_SECRET_KEY is not set' };
+
+  const response = await fetch(`https://api.stripe.com/v1/invoices/${encodeURIComponent(stripeInvoiceId)}/pay`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${STRIPE_SECRET_KEY}`,
+      // Same case and attempt always means the same charge
+      'Idempotency-Key': `dunning-${dunningCase.id}-${dunningCase.attempts + 1}`,
+    },
+  });
+  const body = await response.json().catch(() => ({})) as {
+    status?: string;
+    payment_intent?: string | null;
+    error?: { message?: string };
+  };
+
+  if (response.ok && body.status === 'paid') {
+    return { status: 'succeeded', paymentIntentId: body.payment_intent ?? null };
+  }
+  return { status: 'failed', message: body.error?.message ?? `Stripe returned ${response.status}` };
+};
+
+// Email the billing contact; a mail failure is logged and does not stop the schedule
+const notify = async (
+  dunningCase: DunningCaseRow,
+  subject: string,
+  paragraphs: string[]
+): Promise<void> => {
+  const recipient = dunningCase.organization.billing_email;
+
+  try {
+    const messageId = await sendMail({
+      to: recipient,
+      subject,
+      text: [
+        `Hello ${dunningCase.organization.name},`,
+        '',
+        ...paragraphs.flatMap(paragraph => [paragraph, '']),
+        `Update your payment method or pay the invoice: ${BILLING_URL}`,
+      ].join('\n'),
+    });
+    await recordEvent(dunningCase, 'dunning.email_sent', `Reminder sent to ${recipient}`, {
+      recipient,
+      subject,
+      message_id: messageId,
+    });
+  } catch (error) {
+    console.error(`dunning email for case ${dunningCase.id} failed:`, error);
+    await recordEvent(dunningCase, 'dunning.email_failed', `Reminder to ${recipient} could not be sent`, {
+      recipient,
+      subject,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+const setOrganizationStatus = async (organizationId: string, status: 'grace' | 'suspended'): Promise<void> => {
+  const { error } = await supabaseAdmin
+    .from('organizations')
+    .update({ status })
+    .eq('id', organizationId)
+    // Never override a cancelled organization, and never step back from suspended
+    .in('status', status === 'grace' ? ['active', 'trial'] : ['active', 'trial', 'grace']);
+
+  if (error) throw error;
+};
+
+// Move the case to its next step. The next_action_at check makes this a
+// compare-and-set, so two overlapping runs cannot both advance one case.
+const updateCase = async (dunningCase: DunningCaseRow, changes: Record<string, unknown>): Promise<boolean> => {
+  const { data, error } = await supabaseAdmin
+    .from('dunning_cases')
+    .update(changes)
+    .eq('id', dunningCase.id)
+    .eq('stage', dunningCase.stage)
+    .eq('next_action_at', dunningCase.next_action_at)
+    .select('id');
+
+  if (error) throw error;
+  return !!data?.length;
+};
+
+const markInvoicePaid = async (dunningCase: DunningCaseRow, paymentIntentId: string | null): Promise<void> => {
+  // Closing the case and restoring access happen in the invoices trigger
+  const { error } = await supabaseAdmin
+    .from('invoices')
+    .update({ status: 'paid', paid_at: new Date().toISOString() })
+    .eq('id', dunningCase.invoice_id)
+    .neq('status', 'paid');
+  if (error) throw error;
+
+  if (paymentIntentId) {
+    const { error: paymentError } = await supabaseAdmin
+      .from('payments')
+      .update({ status: 'succeeded' })
+      .eq('stripe_payment_intent_id', paymentIntentId);
+    if (paymentError) throw paymentError;
+  }
+};
+
+const retryStep = async (dunningCase: DunningCaseRow): Promise<string> => {
+  const attempt = dunningCase.attempts + 1;
+  const isLastRetry = attempt >= dunningCase.retry_days.length;
+  const amount = formatMoney(dunningCase.invoice.total_cents, dunningCase.invoice.currency);
+  const now = new Date();
+
+  const result = await retryCharge(dunningCase);
+
+  if (result.status === 'succeeded') {
+    await recordEvent(dunningCase, 'dunning.retry_succeeded', `Retry ${attempt} charged ${amount}`, { attempt });
+    await markInvoicePaid(dunningCase, result.paymentIntentId);
+    return 'recovered';
+  }
+
+  const nextActionAt = isLastRetry
+    ? new Date(now.getTime() + dunningCase.grace_days * DAY_MS)
+    : new Date(new Date(dunningCase.started_at).getTime() + dunningCase.retry_days[attempt] * DAY_MS);
+
+  const claimed = await updateCase(dunningCase, {
+    attempts: attempt,
+    next_action_at: nextActionAt.toISOString(),
+    ...(isLastRetry && { stage: 'grace', grace_started_at: now.toISOString() }),
+  });
+  if (!claimed) return 'skipped';
+
+  await recordEvent(
+    dunningCase,
+    result.status === 'failed' ? 'dunning.retry_failed' : 'dunning.retry_skipped',
+    result.status === 'failed'
+      ? `Retry ${attempt} of ${dunningCase.retry_days.length} failed: ${result.message}`
+      : `Retry ${attempt} of ${dunningCase.retry_days.length} not attempted: ${result.message}`,
+    { attempt, message: result.message }
+  );
+
+  const invoiceLine = `We could not collect ${amount} for invoice ${dunningCase.invoice.invoice_number}.`;
+
+  if (!isLastRetry) {
+    await notify(dunningCase, `Payment failed for invoice ${dunningCase.invoice.invoice_number}`, [
+      invoiceLine,
+      `We will try the charge again on ${formatDate(nextActionAt.toISOString())}.`,
+    ]);
+    return 'retrying';
+  }
+
+  await setOrganizationStatus(dunningCase.organization_id, 'grace');
+  await recordEvent(
+    dunningCase,
+    'dunning.grace_started',
+    `Organization is read-only until the invoice is paid; suspension on ${formatDate(nextActionAt.toISOString())}`,
+    { suspends_at: nextActionAt.toISOString() }
+  );
+  await notify(dunningCase, `Action required: your account is now read-only`, [
+    invoiceLine,
+    'Your team can still sign in and watch training, but nothing new can be added until the invoice is paid.',
+    `If it is still unpaid on ${formatDate(nextActionAt.toISOString())}, access will be suspended for learners.`,
+  ]);
+  return 'grace';
+};
+
+const suspendStep = async (dunningCase: DunningCaseRow): Promise<string> => {
+  const claimed = await updateCase(dunningCase, {
+    stage: 'suspended',
+    next_action_at: null,
+    suspended_at: new Date().toISOString(),
+  });
+  if (!claimed) return 'skipped';
+
+  await setOrganizationStatus(dunningCase.organization_id, 'suspended');
+  await recordEvent(dunningCase, 'dunning.suspended', 'Organization suspended for non-payment');
+  await notify(dunningCase, 'Your account has been suspended', [
+    `Invoice ${dunningCase.invoice.invoice_number} for ${formatMoney(dunningCase.invoice.total_cents, dunningCase.invoice.currency)} is still unpaid.`,
+    'Learners can no longer sign in to training. Administrators can still sign in to pay, and access comes back as soon as the invoice is paid.',
+  ]);
+  return 'suspended';
+};
+
+/**
+ * Advance every case whose next retry or end of grace has passed. Returns the
+ * number of cases per resulting stage.
+ */
+export const processDueCases = async (limit = 50): Promise<Record<string, number>> => {
+  const { data, error } = await supabaseAdmin
+    .from('dunning_cases')
+    .select(COLUMNS)
+    .in('stage', ['retrying', 'grace'])
+    .lte('next_action_at', new Date().toISOString())
+    .order('next_action_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+
+  const summary: Record<string, number> = {};
+  for (const dunningCase of (data ?? []) as unknown as DunningCaseRow[]) {
+    let outcome: string;
+    try {
+      // Paid outside the app before the trigger saw it; nothing left to chase
+      outcome = dunningCase.invoice.status === 'paid'
+        ? 'skipped'
+        : dunningCase.stage === 'retrying'
+          ? await retryStep(dunningCase)
+          : await suspendStep(dunningCase);
+    } catch (caseError) {
+      console.error(`dunning case ${dunningCase.id} failed:`, caseError);
+      outcome = 'failed';
+    }
+    summary[outcome] = (summary[outcome] ?? 0) + 1;
+  }
+  return summary;
+};
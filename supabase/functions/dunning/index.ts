@@ -0,0 +1,39 @@
+/**
+ * Dunning for failed payments
+ *
+ *   POST /dunning/run   retry charges, email billing contacts and move
+ *                       organizations into grace or suspension for every
+ *                       case that is due. Service role key only; run it on
+ *                       a schedule (hourly is enough).
+ *
+ * Cases are opened by the payments trigger when a payment fails and closed
+ * by the invoices trigger when the invoice is paid, which also restores the
+ * organization's access. The schedule comes from dunning_policies.
+ */
+
+import { jsonResponse } from '../_shared/cors.ts';
+import { tokensMatch } from '../_shared/supabaseAdmin.ts';
+import { processDueCases } from './dunning.ts';
+
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+Deno.serve(async (req) => {
+  const segments = new URL(req.url).pathname.split('/').filter(Boolean);
+  const [route] = segments.slice(segments.indexOf('dunning') + 1);
+
+  if (req.method !== 'POST' || route !== 'run') {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  const jwt = /^Bearer\s+(.+)$/i.exec(req.headers.get('Authorization') ?? '')?.[1];
+  if (!jwt || !SERVICE_ROLE_KEY || !(await tokensMatch(jwt, SERVICE_ROLE_KEY))) {
+    return jsonResponse({ error: 'Service role key required' }, 401);
+  }
+
+  try {
+    return jsonResponse({ processed: await processDueCases() });
+  } catch (error) {
+    console.error('dunning run failed:', error);
+    return jsonResponse({ error: 'Dunning run failed' }, 500);
+  }
+});
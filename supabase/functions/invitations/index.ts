@@ -0,0 +1,177 @@
+/**
+ * Invitation links
+ *
+ *   POST /invitations          { email, organization_id?, role_id?, expires_at? }
+ *                              create an invitation and mail its link (admins)
+ *   POST /invitations/accept   { token }   accept the invitation the link carries
+ *
+ * Links carry a signed token (audience 'invitation') whose jti is the
+ * invitation id; the row keeps only its SHA-256. Accepting needs a valid,
+ * unexpired token for a pending invitation addressed to the caller's email.
+ */
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { supabaseAdmin, sha256Hex } from '../_shared/supabaseAdmin.ts';
+import { sendMail } from '../_shared/mailer.ts';
+import { signToken, verifyToken, tokenKeys } from '../_shared/signedTokens.ts';
+
+const APP_URL = Deno.env.get('APP_URL') ?? '';
+const INVITATION_AUDIENCE = 'invitation';
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+const MAX_TTL_SECONDS = 30 * 24 * 60 * 60;
+const EMAIL_PATTERN = /^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$/;
+
+interface Caller {
+  id: string;
+  email: string;
+}
+
+const authenticate = async (req: Request): Promise<Caller | null> => {
+  const jwt = /^Bearer\s+(.+)$/i.exec(req.headers.get('Authorization') ?? '')?.[1];
+  if (!jwt) return null;
+
+  const { data: { user } } = await supabaseAdmin.auth.getUser(jwt);
+  return user ? { id: user.id, email: user.email ?? '' } : null;
+};
+
+// Same rule as the former user_invitations_insert_admin policy
+const isAdmin = async (userId: string): Promise<boolean> => {
+  const { data: profile, error } = await supabaseAdmin
+    .from('user_profiles')
+    .select('primary_role_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!profile?.primary_role_id) return false;
+
+  const { data: role, error: roleError } = await supabaseAdmin
+    .from('user_roles')
+    .select('is_admin')
+    .eq('id', profile.primary_role_id)
+    .maybeSingle();
+  if (roleError) throw roleError;
+  return role?.is_admin === true;
+};
+
+const createInvitation = async (req: Request, caller: Caller): Promise<Response> => {
+  if (!(await isAdmin(caller.id))) {
+    return jsonResponse({ error: 'Only administrators can invite users' }, 403);
+  }
+
+  const { email, organization_id, role_id, expires_at } = await req.json();
+  if (typeof email !== 'string' || !EMAIL_PATTERN.test(email)) {
+    return jsonResponse({ error: 'A valid email is required' }, 400);
+  }
+
+  const expiresIn = expires_at
+    ? Math.floor((new Date(expires_at).getTime() - Date.now()) / 1000)
+    : DEFAULT_TTL_SECONDS;
+  if (!(expiresIn > 0 && expiresIn <= MAX_TTL_SECONDS)) {
+    return jsonResponse({ error: 'expires_at must be in the next 30 days' }, 400);
+  }
+
+  const id = crypto.randomUUID();
+  const token = await signToken({}, { audience: INVITATION_AUDIENCE, expiresIn, tokenId: id }, tokenKeys);
+
+  const { data: invitation, error } = await supabaseAdmin
+    .from('user_invitations')
+    .insert({
+      id,
+      email,
+      invited_by: caller.id,
+      organization_id: organization_id ?? null,
+      role_id: role_id ?? null,
+      invitation_token: await sha256Hex(token),
+      expires_at: new Date(Date.now() + expiresIn * 1000).toISOString(),
+    })
+    .select()
+    .single();
+  if (error) {
+    // enforce_plan_limit; the details let the app show the upgrade prompt
+    if (error.code === '53400') {
+      return jsonResponse({ error: error.message, code: error.code, details: error.details }, 402);
+    }
+    throw error;
+  }
+
+  const link = `${APP_URL}/invitations/accept?token=${encodeURIComponent(token)}`;
+  await sendMail({
+    to: email,
+    subject: "You're invited to Winbro Training Reels",
+    text: [
+      `${caller.email} has invited you to Winbro Training Reels.`,
+      '',
+      `Accept the invitation: ${link}`,
+      '',
+      `The link expires on ${new Date(invitation.expires_at).toUTCString()}.`,
+    ].join('\n'),
+  });
+
+  return jsonResponse({ invitation }, 201);
+};
+
+const acceptInvitation = async (req: Request, caller: Caller): Promise<Response> => {
+  const { token } = await req.json();
+  if (typeof token !== 'string' || token.length === 0) {
+    return jsonResponse({ error: 'token is required' }, 400);
+  }
+
+  const verification = await verifyToken(token, { audience: INVITATION_AUDIENCE }, tokenKeys);
+  if (!verification.valid || !verification.claims.jti) {
+    const expired = !verification.valid && verification.reason === 'expired';
+    return jsonResponse({ error: expired ? 'This invitation has expired' : 'Invalid invitation link' }, 400);
+  }
+
+  // Same response for missing invitations and ones addressed to someone else
+  const { data: invitation, error } = await supabaseAdmin
+    .from('user_invitations')
+    .select('id, email, status, expires_at')
+    .eq('id', verification.claims.jti)
+    .eq('invitation_token', await sha256Hex(token))
+    .maybeSingle();
+  if (error) throw error;
+  if (!invitation || invitation.email.toLowerCase() !== caller.email.toLowerCase()) {
+    return jsonResponse({ error: 'Invitation not found' }, 404);
+  }
+  if (invitation.status !== 'pending' || new Date(invitation.expires_at) <= new Date()) {
+    return jsonResponse({ error: `This invitation is no longer valid (${invitation.status})` }, 409);
+  }
+
+  const { data: accepted, error: updateError } = await supabaseAdmin
+    .from('user_invitations')
+    .update({ status: 'accepted', accepted_at: new Date().toISOString() })
+    .eq('id', invitation.id)
+    .eq('status', 'pending')
+    .select()
+    .single();
+  if (updateError) throw updateError;
+
+  return jsonResponse({ invitation: accepted });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const segments = new URL(req.url).pathname.split('/').filter(Boolean);
+  const [route = ''] = segments.slice(segments.indexOf('invitations') + 1);
+
+  if (req.method !== 'POST' || !['', 'accept'].includes(route)) {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  try {
+    const caller = await authenticate(req);
+    if (!caller) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    return route === 'accept'
+      ? await acceptInvitation(req, caller)
+      : await createInvitation(req, caller);
+  } catch (error) {
+    console.error(`invitations ${route || 'create'} failed:`, error);
+    return jsonResponse({ error: 'Invitation request failed' }, 500);
+  }
+});
@@ -0,0 +1,78 @@
+/**
+ * Invoice documents for the billing pages
+ *
+ *   POST /invoices/:invoiceId/pdf    render the invoice as a new PDF version
+ *   POST /invoices/:invoiceId/send   email the current PDF to the billing contact
+ *
+ * Callers must be an admin or billing admin of the invoice's organization.
+ * PDFs are stored in the private invoices bucket, where members download
+ * them through the storage API.
+ */
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { generateInvoiceDocument, getInvoice, sendInvoiceEmail } from '../_shared/invoices.ts';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const authenticate = async (req: Request): Promise<string | null> => {
+  const jwt = /^Bearer\s+(.+)$/i.exec(req.headers.get('Authorization') ?? '')?.[1];
+  if (!jwt) return null;
+
+  const { data: { user } } = await supabaseAdmin.auth.getUser(jwt);
+  return user?.id ?? null;
+};
+
+const canManageBilling = async (userId: string, organizationId: string): Promise<boolean> => {
+  const { data, error } = await supabaseAdmin
+    .from('user_organizations')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('organization_id', organizationId)
+    .in('role', ['admin', 'billing_admin'])
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const segments = new URL(req.url).pathname.split('/').filter(Boolean);
+  const [invoiceId, action] = segments.slice(segments.indexOf('invoices') + 1);
+
+  if (req.method !== 'POST' || !invoiceId || !UUID_PATTERN.test(invoiceId) || !['pdf', 'send'].includes(action)) {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  try {
+    const userId = await authenticate(req);
+    if (!userId) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    // Same response for missing and foreign invoices
+    const invoice = await getInvoice(invoiceId);
+    if (!invoice || !(await canManageBilling(userId, invoice.organization_id))) {
+      return jsonResponse({ error: 'Invoice not found' }, 404);
+    }
+
+    if (action === 'pdf') {
+      const document = await generateInvoiceDocument(invoice, userId);
+      return jsonResponse({ document });
+    }
+
+    if (!invoice.organization.billing_email) {
+      return jsonResponse({ error: 'The organization has no billing email' }, 400);
+    }
+
+    const result = await sendInvoiceEmail(invoice, userId);
+    return jsonResponse(result);
+  } catch (error) {
+    console.error(`invoices ${action} failed:`, error);
+    return jsonResponse({ error: action === 'send' ? 'Failed to send invoice' : 'Failed to generate invoice PDF' }, 500);
+  }
+});
@@ -0,0 +1,166 @@
+// Webhook inbox. Each provider event id is stored once; a worker claims the
+// row before applying it, so concurrent deliveries of the same event apply it
+// only once. Failures are retried with backoff and end up as dead letters.
+
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { applyStripeEvent, type StripeEvent } from './stripe.ts';
+
+export const MAX_ATTEMPTS = 8;
+// A worker that has held an event this long is assumed to have crashed
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 12 * 60 * 60 * 1000;
+
+export type WebhookEventStatus = 'pending' | 'processing' | 'processed' | 'ignored' | 'failed' | 'dead_letter';
+
+interface WebhookEventRow {
+  id: string;
+  event_id: string;
+  event_type: string;
+  payload: StripeEvent;
+  status: WebhookEventStatus;
+  attempts: number;
+}
+
+const COLUMNS = 'id, event_id, event_type, payload, status, attempts';
+
+// 1, 2, 4 … minutes after each failed attempt, capped at 12 hours
+const retryDelay = (attempts: number): number =>
+  Math.min(2 ** (attempts - 1) * 60 * 1000, MAX_RETRY_DELAY_MS);
+
+/**
+ * Store a verified event. Returns the stored row and whether the event id
+ * had been received before.
+ */
+export const recordEvent = async (event: StripeEvent): Promise<{ row: WebhookEventRow; duplicate: boolean }> => {
+  const { data: inserted, error } = await supabaseAdmin
+    .from('payment_webhook_events')
+    .upsert({
+      provider: 'stripe',
+      event_id: event.id,
+      event_type: event.type,
+      livemode: event.livemode,
+      event_created_at: new Date(event.created * 1000).toISOString(),
+      payload: event,
+    }, { onConflict: 'provider,event_id', ignoreDuplicates: true })
+    .select(COLUMNS);
+
+  if (error) throw error;
+  if (inserted?.length) return { row: inserted[0], duplicate: false };
+
+  const { data: existing, error: selectError } = await supabaseAdmin
+    .from('payment_webhook_events')
+    .select(COLUMNS)
+    .eq('provider', 'stripe')
+    .eq('event_id', event.id)
+    .single();
+
+  if (selectError) throw selectError;
+  return { row: existing, duplicate: true };
+};
+
+// Take the event for this worker. Fails when another worker holds it or it
+// is already done; the attempts check makes the claim a compare-and-set.
+const claimEvent = async (row: WebhookEventRow): Promise<WebhookEventRow | null> => {
+  const staleLock = new Date(Date.now() - LOCK_TIMEOUT_MS).toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from('payment_webhook_events')
+    .update({ status: 'processing', attempts: row.attempts + 1, locked_at: new Date().toISOString() })
+    .eq('id', row.id)
+    .eq('attempts', row.attempts)
+    .or(`status.in.(pending,failed),and(status.eq.processing,locked_at.lt.${staleLock})`)
+    .select(COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Apply a stored event if no other worker has. Returns the resulting status.
+ */
+export const processEvent = async (row: WebhookEventRow): Promise<WebhookEventStatus> => {
+  const claimed = await claimEvent(row);
+  if (!claimed) return row.status;
+
+  try {
+    const outcome = await applyStripeEvent(claimed.payload);
+
+    const { error } = await supabaseAdmin
+      .from('payment_webhook_events')
+      .update({
+        status: outcome.status,
+        organization_id: outcome.organizationId ?? null,
+        processed_at: new Date().toISOString(),
+        locked_at: null,
+        next_attempt_at: null,
+        last_error: null,
+      })
+      .eq('id', claimed.id);
+
+    if (error) throw error;
+    return outcome.status;
+  } catch (error) {
+    const deadLetter = claimed.attempts >= MAX_ATTEMPTS;
+    const message = error instanceof Error ? error.message : JSON.stringify(error);
+    console.error(`payment webhook ${claimed.event_id} (${claimed.event_type}) failed:`, error);
+
+    const { error: updateError } = await supabaseAdmin
+      .from('payment_webhook_events')
+      .update({
+        status: deadLetter ? 'dead_letter' : 'failed',
+        locked_at: null,
+        next_attempt_at: deadLetter ? null : new Date(Date.now() + retryDelay(claimed.attempts)).toISOString(),
+        last_error: message.slice(0, 2000),
+      })
+      .eq('id', claimed.id);
+
+    if (updateError) console.error('Failed to record webhook failure:', updateError);
+    return deadLetter ? 'dead_letter' : 'failed';
+  }
+};
+
+/**
+ * Retry failed events that are due, and events a crashed worker left behind
+ */
+export const processDueEvents = async (limit = 25): Promise<Record<string, number>> => {
+  const now = new Date();
+  const staleLock = new Date(now.getTime() - LOCK_TIMEOUT_MS).toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from('payment_webhook_events')
+    .select(COLUMNS)
+    .or(
+      `and(status.eq.failed,next_attempt_at.lte.${now.toISOString()}),` +
+      `and(status.eq.processing,locked_at.lt.${staleLock}),` +
+      `and(status.eq.pending,received_at.lt.${staleLock})`
+    )
+    .order('received_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+
+  // One at a time, oldest first, so related events apply in arrival order
+  const summary: Record<string, number> = {};
+  for (const row of data ?? []) {
+    const status = await processEvent(row);
+    summary[status] = (summary[status] ?? 0) + 1;
+  }
+  return summary;
+};
+
+/**
+ * Move a dead-lettered event back into the retry queue with fresh attempts
+ */
+export const requeueEvent = async (eventId: string): Promise<boolean> => {
+  const { data, error } = await supabaseAdmin
+    .from('payment_webhook_events')
+    .update({ status: 'failed', attempts: 0, next_attempt_at: new Date().toISOString() })
+    .eq('provider', 'stripe')
+    .eq('event_id', eventId)
+    .eq('status', 'dead_letter')
+    .select('id');
+
+  if (error) throw error;
+  return !!data?.length;
+};
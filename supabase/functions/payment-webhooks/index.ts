@@ -0,0 +1,96 @@
+/**
+ * Payment provider webhooks
+ *
+ *   POST /payment-webhooks/stripe   Stripe events, verified with STRIPE_WEBHOOK_SECRET
+ *   POST /payment-webhooks/retry    retry due and stalled events; { "event_id" }
+ *                                   first requeues that dead-lettered event.
+ *                                   Service role key only; run it on a schedule.
+ *
+ * Each Stripe event id is applied once (payment_webhook_events). Events that
+ * fail are retried with backoff and dead-lettered after MAX_ATTEMPTS, so
+ * Stripe gets a 2xx as soon as an event is stored. Handled events:
+ * invoice.paid, invoice.payment_failed, payment_intent.payment_failed,
+ * customer.subscription.updated/deleted and charge.refunded.
+ *
+ * Stripe does not send a Supabase JWT, so deploy with
+ * `supabase functions deploy payment-webhooks --no-verify-jwt`. Recorded
+ * events in fixtures/ can be sent to a local instance with replay.ts.
+ */
+
+import { jsonResponse } from '../_shared/cors.ts';
+import { tokensMatch } from '../_shared/supabaseAdmin.ts';
+import { processDueEvents, processEvent, recordEvent, requeueEvent } from './events.ts';
+import { verifySignature, WebhookSignatureError } from './signature.ts';
+import type { StripeEvent } from './stripe.ts';
+
+const WEBHOOK_SECRET = Deno.env.get('STRIPE_WEBHOOK_SECRET') ?? '';
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+const isStripeEvent = (value: unknown): value is StripeEvent => {
+  const event = value as StripeEvent | null;
+  return !!event && typeof event.id === 'string' && typeof event.type === 'string'
+    && typeof event.created === 'number' && typeof event.data?.object === 'object';
+};
+
+const receiveStripe = async (req: Request): Promise<Response> => {
+  if (!WEBHOOK_SECRET) {
+    console.error('STRIPE_WEBHOOK_SECRET is not set');
+    return jsonResponse({ error: 'Webhooks are not configured' }, 500);
+  }
+
+  // Signatures cover the exact bytes Stripe sent, so verify before parsing
+  const payload = await req.text();
+  try {
+    await verifySignature(payload, req.headers.get('Stripe-Signature'), WEBHOOK_SECRET);
+  } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      return jsonResponse({ error: error.message }, 400);
+    }
+    throw error;
+  }
+
+  let event: unknown;
+  try {
+    event = JSON.parse(payload);
+  } catch {
+    return jsonResponse({ error: 'Payload must be JSON' }, 400);
+  }
+  if (!isStripeEvent(event)) {
+    return jsonResponse({ error: 'Not a Stripe event' }, 400);
+  }
+
+  // A storage failure returns 500 so Stripe delivers the event again
+  const { row, duplicate } = await recordEvent(event);
+  const status = await processEvent(row);
+
+  return jsonResponse({ received: true, duplicate, status });
+};
+
+const retry = async (req: Request): Promise<Response> => {
+  const jwt = /^Bearer\s+(.+)$/i.exec(req.headers.get('Authorization') ?? '')?.[1];
+  if (!jwt || !SERVICE_ROLE_KEY || !(await tokensMatch(jwt, SERVICE_ROLE_KEY))) {
+    return jsonResponse({ error: 'Service role key required' }, 401);
+  }
+
+  const body = await req.json().catch(() => ({})) as { event_id?: string };
+  const requeued = body.event_id ? await requeueEvent(body.event_id) : false;
+  const processed = await processDueEvents();
+
+  return jsonResponse({ requeued, processed });
+};
+
+Deno.serve(async (req) => {
+  const segments = new URL(req.url).pathname.split('/').filter(Boolean);
+  const [route] = segments.slice(segments.indexOf('payment-webhooks') + 1);
+
+  if (req.method !== 'POST' || !['stripe', 'retry'].includes(route)) {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  try {
+    return route === 'stripe' ? await receiveStripe(req) : await retry(req);
+  } catch (error) {
+    console.error(`payment-webhooks ${route} failed:`, error);
+    return jsonResponse({ error: 'Webhook processing failed' }, 500);
+  }
+});
@@ -0,0 +1,63 @@
+/**
+ * Send recorded Stripe events to the payment-webhooks function, signed with
+ * the local STRIPE_WEBHOOK_SECRET, so the handler can be exercised without
+ * the provider:
+ *
+ *   STRIPE_WEBHOOK_SECRET=whsec_test deno run --allow-env --allow-read --allow-net \
+ *     supabase/functions/payment-webhooks/replay.ts \
+ *     --organization <organization uuid> fixtures/invoice.paid.json fixtures/charge.refunded.json
+ *
+ * Options:
+ *   --url <url>            function URL (default: local `supabase functions serve`)
+ *   --organization <uuid>  replaces {{organization_id}} in the fixtures
+ *   --fresh                give each event a new id instead of the recorded one;
+ *                          without it, sending a fixture twice shows the duplicate
+ *                          being skipped
+ *
+ * Subscription events only apply to a subscription whose
+ * stripe_subscription_id matches the fixture (sub_1QFixtureWinbro01);
+ * without one they go to the retry queue.
+ */
+
+import { signPayload } from './signature.ts';
+
+const args = [...Deno.args];
+const option = (name: string): string | undefined => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args.splice(index, 2)[1];
+};
+const flag = (name: string): boolean => {
+  const index = args.indexOf(name);
+  if (index !== -1) args.splice(index, 1);
+  return index !== -1;
+};
+
+const url = option('--url') ?? 'http://127.0.0.1:54321/functions/v1/payment-webhooks/stripe';
+const organizationId = option('--organization') ?? '';
+const fresh = flag('--fresh');
+const secret = Deno.env.get('STRIPE_WEBHOOK_SECRET');
+
+if (!secret || args.length === 0) {
+  console.error('Usage: STRIPE_WEBHOOK_SECRET=… replay.ts [--url URL] [--organization ID] [--fresh] fixture.json…');
+  Deno.exit(1);
+}
+
+const fixtureDir = new URL('.', import.meta.url);
+
+for (const file of args) {
+  const path = file.startsWith('/') ? file : new URL(file, fixtureDir);
+  const event = JSON.parse((await Deno.readTextFile(path)).replaceAll('{{organization_id}}', organizationId));
+  if (fresh) event.id = `${event.id}_${crypto.randomUUID().slice(0, 8)}`;
+
+  const payload = JSON.stringify(event);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Stripe-Signature': await signPayload(payload, secret),
+    },
+    body: payload,
+  });
+
+  console.log(`${event.type} ${event.id}: ${response.status} ${await response.text()}`);
+}
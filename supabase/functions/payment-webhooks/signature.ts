@@ -0,0 +1,70 @@
+// Stripe webhook signatures. The Stripe-Signature header carries a timestamp
+// and one or more v1 signatures: hex HMAC-SHA256 of "<timestamp>.<raw body>"
+// keyed with the endpoint's signing secret. Kept free of database imports so
+// replay.ts can sign fixtures with it.
+
+// Reject events signed more than five minutes ago, so a captured request
+// cannot be replayed later
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export class WebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookSignatureError';
+  }
+}
+
+const hmacHex = async (secret: string, message: string): Promise<string> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Constant-time comparison of two hex digests
+const digestsMatch = (provided: string, expected: string): boolean => {
+  if (provided.length !== expected.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= provided.charCodeAt(i) ^ expected.charCodeAt(i);
+  return diff === 0;
+};
+
+// Build a Stripe-Signature header value for a payload
+export const signPayload = async (
+  payload: string,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): Promise<string> => `t=${timestamp},v1=${await hmacHex(secret, `${timestamp}.${payload}`)}`;
+
+export const verifySignature = async (
+  payload: string,
+  header: string | null,
+  secret: string,
+  now = Math.floor(Date.now() / 1000)
+): Promise<void> => {
+  if (!header) throw new WebhookSignatureError('Missing Stripe-Signature header');
+
+  const parts = header.split(',').map(part => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value ?? '');
+
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    throw new WebhookSignatureError('Malformed Stripe-Signature header');
+  }
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    throw new WebhookSignatureError('Signature timestamp is outside the tolerance');
+  }
+
+  const expected = await hmacHex(secret, `${timestamp}.${payload}`);
+  if (!signatures.some(signature => digestsMatch(signature, expected))) {
+    throw new WebhookSignatureError('No matching signature');
+  }
+};
@@ -0,0 +1,515 @@
+// Applies Stripe events to the billing tables, with the same row shapes the
+// app writes through paymentApi, invoiceApi and billingEventApi. Every write
+// is keyed on a Stripe id, so applying an event twice leaves the same rows.
+
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+
+export interface StripeEvent {
+  id: string;
+  type: string;
+  created: number;
+  livemode: boolean;
+  data: {
+    object: Record<string, unknown>;
+    previous_attributes?: Record<string, unknown>;
+  };
+}
+
+interface StripeInvoiceLine {
+  description: string | null;
+  quantity: number | null;
+  amount: number;
+  price?: { unit_amount: number | null } | null;
+  period?: { start: number; end: number };
+}
+
+interface StripeInvoice {
+  id: string;
+  customer: string | null;
+  subscription: string | null;
+  payment_intent: string | null;
+  charge: string | null;
+  currency: string;
+  subtotal: number;
+  tax: number | null;
+  total: number;
+  amount_due: number;
+  amount_paid: number;
+  attempt_count: number;
+  next_payment_attempt: number | null;
+  period_start: number;
+  period_end: number;
+  due_date: number | null;
+  status_transitions?: { paid_at: number | null };
+  lines?: { data: StripeInvoiceLine[] };
+  metadata?: Record<string, string>;
+}
+
+interface StripePrice {
+  id: string;
+  unit_amount: number | null;
+  recurring?: { interval: 'day' | 'week' | 'month' | 'year' } | null;
+}
+
+interface StripeSubscription {
+  id: string;
+  customer: string;
+  status: string;
+  current_period_start?: number;
+  current_period_end?: number;
+  canceled_at: number | null;
+  trial_start: number | null;
+  trial_end: number | null;
+  items: { data: Array<{ price: StripePrice; current_period_start?: number; current_period_end?: number }> };
+  metadata?: Record<string, string>;
+}
+
+interface StripeCharge {
+  id: string;
+  payment_intent: string | null;
+  amount: number;
+  amount_refunded: number;
+  refunds?: { data: Array<{ reason: string | null }> };
+}
+
+interface StripePaymentIntent {
+  id: string;
+  last_payment_error?: { message?: string } | null;
+}
+
+interface SubscriptionRow {
+  id: string;
+  organization_id: string;
+  status: string;
+  metadata: Record<string, unknown> | null;
+}
+
+interface InvoiceRow {
+  id: string;
+  organization_id: string;
+  subscription_id: string | null;
+}
+
+export interface EventOutcome {
+  status: 'processed' | 'ignored';
+  organizationId?: string;
+}
+
+const SUBSCRIPTION_STATUSES: Record<string, string> = {
+  trialing: 'trial',
+  active: 'active',
+  past_due: 'past_due',
+  unpaid: 'unpaid',
+  canceled: 'cancelled',
+  incomplete: 'past_due',
+  incomplete_expired: 'cancelled',
+  paused: 'paused',
+};
+
+const toIso = (seconds: number | null | undefined): string | null =>
+  seconds ? new Date(seconds * 1000).toISOString() : null;
+
+const findSubscription = async (stripeSubscriptionId: string | null): Promise<SubscriptionRow | null> => {
+  if (!stripeSubscriptionId) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('subscriptions')
+    .select('id, organization_id, status, metadata')
+    .eq('stripe_subscription_id', stripeSubscriptionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Organization for a Stripe customer: through any subscription billed to it,
+// or the organization_id the app puts in Stripe metadata
+const findOrganizationId = async (
+  customer: string | null,
+  metadata: Record<string, string> | undefined
+): Promise<string | null> => {
+  if (customer) {
+    const { data, error } = await supabaseAdmin
+      .from('subscriptions')
+      .select('organization_id')
+      .eq('stripe_customer_id', customer)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) return data.organization_id;
+  }
+  return metadata?.organization_id ?? null;
+};
+
+const recordBillingEvent = async (event: StripeEvent, row: Record<string, unknown>): Promise<void> => {
+  const { error } = await supabaseAdmin.from('billing_events').insert({
+    ...row,
+    event_type: event.type,
+    event_data: event.data.object,
+    previous_data: event.data.previous_attributes ?? {},
+    source: 'stripe',
+    source_id: event.id,
+  });
+
+  // Already logged by an earlier attempt at this event
+  if (error && error.code !== '23505') throw error;
+};
+
+// Our invoice for a Stripe invoice, created from it when the app has none
+const upsertInvoice = async (
+  stripeInvoice: StripeInvoice,
+  subscription: SubscriptionRow | null,
+  fields: Record<string, unknown>
+): Promise<InvoiceRow> => {
+  const select = 'id, organization_id, subscription_id';
+
+  let { data: invoice, error } = await supabaseAdmin
+    .from('invoices')
+    .select(select)
+    .eq('stripe_invoice_id', stripeInvoice.id)
+    .maybeSingle();
+  if (error) throw error;
+
+  if (!invoice && stripeInvoice.metadata?.invoice_id) {
+    ({ data: invoice, error } = await supabaseAdmin
+      .from('invoices')
+      .select(select)
+      .eq('id', stripeInvoice.metadata.invoice_id)
+      .maybeSingle());
+    if (error) throw error;
+  }
+
+  if (invoice) {
+    const { error: updateError } = await supabaseAdmin
+      .from('invoices')
+      .update({ stripe_invoice_id: stripeInvoice.id, ...fields })
+      .eq('id', invoice.id);
+    if (updateError) throw updateError;
+    return invoice;
+  }
+
+  const organizationId = subscription?.organization_id
+    ?? await findOrganizationId(stripeInvoice.customer, stripeInvoice.metadata);
+  if (!organizationId) {
+    // Retried later: the subscription may not be linked to Stripe yet
+    throw new Error(`No organization for Stripe invoice ${stripeInvoice.id}`);
+  }
+
+  // Subscription invoices report the service period on their lines; one-off
+  // invoices can have a zero-length period, which invoices do not allow
+  const period = stripeInvoice.lines?.data[0]?.period;
+  const periodStart = period?.start ?? stripeInvoice.period_start;
+  const periodEnd = Math.max(period?.end ?? stripeInvoice.period_end, periodStart + 86400);
+
+  const { data: created, error: insertError } = await supabaseAdmin
+    .from('invoices')
+    .insert({
+      organization_id: organizationId,
+      subscription_id: subscription?.id ?? null,
+      stripe_invoice_id: stripeInvoice.id,
+      period_start: toIso(periodStart),
+      period_end: toIso(periodEnd),
+      due_date: toIso(stripeInvoice.due_date),
+      line_items: (stripeInvoice.lines?.data ?? []).map(line => ({
+        description: line.description ?? '',
+        quantity: line.quantity ?? 1,
+        unit_price_cents: line.price?.unit_amount ?? line.amount,
+        total_cents: line.amount,
+      })),
+      metadata: { source: 'stripe' },
+      ...fields,
+    })
+    .select(select)
+    .single();
+
+  if (insertError) throw insertError;
+  return created;
+};
+
+const invoiceAmounts = (stripeInvoice: StripeInvoice) => ({
+  subtotal_cents: Math.max(0, stripeInvoice.subtotal),
+  tax_cents: Math.max(0, stripeInvoice.tax ?? 0),
+  total_cents: Math.max(0, stripeInvoice.total),
+  currency: stripeInvoice.currency.toUpperCase(),
+  stripe_payment_intent_id: stripeInvoice.payment_intent,
+});
+
+const upsertPayment = async (row: Record<string, unknown>): Promise<string> => {
+  const { data, error } = await supabaseAdmin
+    .from('payments')
+    .upsert(row, { onConflict: 'stripe_payment_intent_id' })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+const handleInvoicePaid = async (event: StripeEvent): Promise<EventOutcome> => {
+  const stripeInvoice = event.data.object as unknown as StripeInvoice;
+  const subscription = await findSubscription(stripeInvoice.subscription);
+  const paidAt = toIso(stripeInvoice.status_transitions?.paid_at) ?? toIso(event.created);
+
+  const invoice = await upsertInvoice(stripeInvoice, subscription, {
+    ...invoiceAmounts(stripeInvoice),
+    status: 'paid',
+    paid_at: paidAt,
+  });
+
+  // Invoices settled entirely from credit have no charge to record
+  let paymentId: string | null = null;
+  if (stripeInvoice.payment_intent && stripeInvoice.amount_paid > 0) {
+    paymentId = await upsertPayment({
+      organization_id: invoice.organization_id,
+      invoice_id: invoice.id,
+      amount_cents: stripeInvoice.amount_paid,
+      currency: stripeInvoice.currency.toUpperCase(),
+      status: 'succeeded',
+      stripe_payment_intent_id: stripeInvoice.payment_intent,
+      stripe_charge_id: stripeInvoice.charge,
+    });
+  }
+
+  if (subscription && ['past_due', 'unpaid'].includes(subscription.status)) {
+    const { error } = await supabaseAdmin
+      .from('subscriptions')
+      .update({ status: 'active' })
+      .eq('id', subscription.id);
+    if (error) throw error;
+  }
+
+  await recordBillingEvent(event, {
+    organization_id: invoice.organization_id,
+    subscription_id: invoice.subscription_id,
+    invoice_id: invoice.id,
+    payment_id: paymentId,
+    event_category: 'invoice',
+    event_description: `Invoice paid (${(stripeInvoice.amount_paid / 100).toFixed(2)} ${stripeInvoice.currency.toUpperCase()})`,
+  });
+
+  return { status: 'processed', organizationId: invoice.organization_id };
+};
+
+const handleInvoicePaymentFailed = async (event: StripeEvent): Promise<EventOutcome> => {
+  const stripeInvoice = event.data.object as unknown as StripeInvoice;
+
+  // A retry that failed can arrive after the one that paid the invoice
+  const { data: existing, error } = await supabaseAdmin
+    .from('invoices')
+    .select('status, organization_id')
+    .eq('stripe_invoice_id', stripeInvoice.id)
+    .maybeSingle();
+  if (error) throw error;
+  if (existing?.status === 'paid') {
+    return { status: 'ignored', organizationId: existing.organization_id };
+  }
+
+  const subscription = await findSubscription(stripeInvoice.subscription);
+  const invoice = await upsertInvoice(stripeInvoice, subscription, {
+    ...invoiceAmounts(stripeInvoice),
+    status: 'open',
+  });
+
+  let paymentId: string | null = null;
+  if (stripeInvoice.payment_intent && stripeInvoice.amount_due > 0) {
+    paymentId = await upsertPayment({
+      organization_id: invoice.organization_id,
+      invoice_id: invoice.id,
+      amount_cents: stripeInvoice.amount_due,
+      currency: stripeInvoice.currency.toUpperCase(),
+      status: 'failed',
+      stripe_payment_intent_id: stripeInvoice.payment_intent,
+      stripe_charge_id: stripeInvoice.charge,
+      metadata: {
+        attempt_count: stripeInvoice.attempt_count,
+        next_payment_attempt: toIso(stripeInvoice.next_payment_attempt),
+      },
+    });
+  }
+
+  if (subscription && ['trial', 'active'].includes(subscription.status)) {
+    const { error: updateError } = await supabaseAdmin
+      .from('subscriptions')
+      .update({ status: 'past_due' })
+      .eq('id', subscription.id);
+    if (updateError) throw updateError;
+  }
+
+  await recordBillingEvent(event, {
+    organization_id: invoice.organization_id,
+    subscription_id: invoice.subscription_id,
+    invoice_id: invoice.id,
+    payment_id: paymentId,
+    event_category: 'payment',
+    event_description: `Payment failed (attempt ${stripeInvoice.attempt_count})`,
+  });
+
+  return { status: 'processed', organizationId: invoice.organization_id };
+};
+
+// Payment intents without a payment row belong to invoices we have not seen;
+// their invoice.payment_failed event records them
+const handlePaymentIntentFailed = async (event: StripeEvent): Promise<EventOutcome> => {
+  const intent = event.data.object as unknown as StripePaymentIntent;
+
+  const { data: payment, error } = await supabaseAdmin
+    .from('payments')
+    .select('id, organization_id, invoice_id, metadata')
+    .eq('stripe_payment_intent_id', intent.id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!payment) return { status: 'ignored' };
+
+  const { error: updateError } = await supabaseAdmin
+    .from('payments')
+    .update({
+      status: 'failed',
+      metadata: { ...payment.metadata, failure_message: intent.last_payment_error?.message ?? null },
+    })
+    .eq('id', payment.id);
+  if (updateError) throw updateError;
+
+  await recordBillingEvent(event, {
+    organization_id: payment.organization_id,
+    invoice_id: payment.invoice_id,
+    payment_id: payment.id,
+    event_category: 'payment',
+    event_description: intent.last_payment_error?.message
+      ? `Payment failed: ${intent.last_payment_error.message}`
+      : 'Payment failed',
+  });
+
+  return { status: 'processed', organizationId: payment.organization_id };
+};
+
+const handleSubscriptionChanged = async (event: StripeEvent): Promise<EventOutcome> => {
+  const stripeSubscription = event.data.object as unknown as StripeSubscription;
+  const subscription = await findSubscription(stripeSubscription.id);
+  if (!subscription) {
+    throw new Error(`No subscription for Stripe subscription ${stripeSubscription.id}`);
+  }
+
+  // Stripe does not guarantee delivery order; skip events older than the
+  // last one applied
+  const lastApplied = Number(subscription.metadata?.stripe_event_created ?? 0);
+  if (event.created < lastApplied) {
+    return { status: 'ignored', organizationId: subscription.organization_id };
+  }
+
+  const item = stripeSubscription.items.data[0];
+  const updates: Record<string, unknown> = {
+    status: event.type === 'customer.subscription.deleted'
+      ? 'cancelled'
+      : SUBSCRIPTION_STATUSES[stripeSubscription.status] ?? subscription.status,
+    stripe_customer_id: stripeSubscription.customer,
+    trial_start: toIso(stripeSubscription.trial_start),
+    trial_end: toIso(stripeSubscription.trial_end),
+    cancelled_at: toIso(stripeSubscription.canceled_at),
+    metadata: { ...subscription.metadata, stripe_event_created: event.created },
+  };
+
+  // Newer API versions report the period per item
+  const periodStart = stripeSubscription.current_period_start ?? item?.current_period_start;
+  const periodEnd = stripeSubscription.current_period_end ?? item?.current_period_end;
+  if (periodStart && periodEnd) {
+    updates.current_period_start = toIso(periodStart);
+    updates.current_period_end = toIso(periodEnd);
+  }
+
+  if (item?.price) {
+    updates.stripe_price_id = item.price.id;
+    if (item.price.unit_amount !== null) updates.price_cents = item.price.unit_amount;
+    if (item.price.recurring) {
+      updates.billing_cycle = item.price.recurring.interval === 'year' ? 'yearly' : 'monthly';
+    }
+
+    const { data: plan, error } = await supabaseAdmin
+      .from('subscription_plans')
+      .select('id, max_users, max_machines')
+      .eq('stripe_price_id', item.price.id)
+      .maybeSingle();
+    if (error) throw error;
+
+    if (plan) {
+      updates.plan_id = plan.id;
+      updates.seats_limit = plan.max_users;
+      updates.machines_limit = plan.max_machines;
+    }
+  }
+
+  const { error } = await supabaseAdmin
+    .from('subscriptions')
+    .update(updates)
+    .eq('id', subscription.id);
+  if (error) throw error;
+
+  await recordBillingEvent(event, {
+    organization_id: subscription.organization_id,
+    subscription_id: subscription.id,
+    event_category: 'subscription',
+    event_description: event.type === 'customer.subscription.deleted'
+      ? 'Subscription cancelled'
+      : `Subscription updated (${updates.status})`,
+  });
+
+  return { status: 'processed', organizationId: subscription.organization_id };
+};
+
+const handleChargeRefunded = async (event: StripeEvent): Promise<EventOutcome> => {
+  const charge = event.data.object as unknown as StripeCharge;
+
+  const { data: payment, error } = await supabaseAdmin
+    .from('payments')
+    .select('id, organization_id, invoice_id, amount_cents')
+    .or(
+      charge.payment_intent
+        ? `stripe_payment_intent_id.eq.${charge.payment_intent},stripe_charge_id.eq.${charge.id}`
+        : `stripe_charge_id.eq.${charge.id}`
+    )
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!payment) {
+    // Retried later: the invoice.paid event may not have been applied yet
+    throw new Error(`No payment for Stripe charge ${charge.id}`);
+  }
+
+  const refunded = Math.min(charge.amount_refunded, payment.amount_cents);
+  const { error: updateError } = await supabaseAdmin
+    .from('payments')
+    .update({
+      refunded_amount_cents: refunded,
+      refunded_at: toIso(event.created),
+      refund_reason: charge.refunds?.data[0]?.reason ?? null,
+      status: refunded >= payment.amount_cents ? 'refunded' : 'succeeded',
+    })
+    .eq('id', payment.id);
+  if (updateError) throw updateError;
+
+  await recordBillingEvent(event, {
+    organization_id: payment.organization_id,
+    invoice_id: payment.invoice_id,
+    payment_id: payment.id,
+    event_category: 'payment',
+    event_description: refunded >= payment.amount_cents ? 'Payment refunded' : 'Payment partially refunded',
+  });
+
+  return { status: 'processed', organizationId: payment.organization_id };
+};
+
+const HANDLERS: Record<string, (event: StripeEvent) => Promise<EventOutcome>> = {
+  'invoice.paid': handleInvoicePaid,
+  'invoice.payment_failed': handleInvoicePaymentFailed,
+  'payment_intent.payment_failed': handlePaymentIntentFailed,
+  'customer.subscription.updated': handleSubscriptionChanged,
+  'customer.subscription.deleted': handleSubscriptionChanged,
+  'charge.refunded': handleChargeRefunded,
+};
+
+// Apply an event; types we do not handle are ignored
+export const applyStripeEvent = (event: StripeEvent): Promise<EventOutcome> => {
+  const handler = HANDLERS[event.type];
+  return handler ? handler(event) : Promise.resolve({ status: 'ignored' });
+};
@@ -0,0 +1,83 @@
+import { supabaseAdmin, sha256Hex, tokensMatch } from '../_shared/supabaseAdmin.ts';
+import { SCHEMAS, SCIMError } from './errors.ts';
+import { matchesFilter, parseFilter } from './filter.ts';
+
+// scim_configs row (SSOService's SCIMConfiguration)
+export interface SCIMConfigRow {
+  customer_id: string;
+  enabled: boolean;
+  bearer_token_hash: string;
+  user_mapping: Record<string, string>;
+  group_mapping: Record<string, string>;
+  auto_provision: boolean;
+  auto_deprovision: boolean;
+}
+
+export interface SCIMContext {
+  config: SCIMConfigRow;
+  baseUrl: string;
+}
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+// Bearer token from the customer's IdP must hash to their SCIMConfiguration's
+export const authenticate = async (req: Request, customerId: string | undefined): Promise<SCIMConfigRow> => {
+  const token = /^Bearer\s+(.+)$/i.exec(req.headers.get('Authorization') ?? '')?.[1];
+  if (!token) {
+    throw new SCIMError(401, 'Bearer token required');
+  }
+  if (!customerId || !UUID_PATTERN.test(customerId)) {
+    throw new SCIMError(401, 'Invalid bearer token');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('scim_configs')
+    .select('customer_id, enabled, bearer_token_hash, user_mapping, group_mapping, auto_provision, auto_deprovision')
+    .eq('customer_id', customerId)
+    .eq('enabled', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || !(await tokensMatch(await sha256Hex(token), data.bearer_token_hash))) {
+    throw new SCIMError(401, 'Invalid bearer token');
+  }
+
+  return data as SCIMConfigRow;
+};
+
+// Apply ?filter, ?startIndex and ?count to a full resource list (RFC 7644 §3.4.2)
+export const listResponse = (resources: Record<string, unknown>[], params: URLSearchParams) => {
+  const filterText = params.get('filter');
+  const filter = filterText ? parseFilter(filterText) : null;
+  const filtered = filter
+    ? resources.filter(resource => matchesFilter(resource, filter))
+    : resources;
+
+  const startIndex = Math.max(1, Number.parseInt(params.get('startIndex') ?? '1', 10) || 1);
+  const requested = Number.parseInt(params.get('count') ?? String(DEFAULT_PAGE_SIZE), 10);
+  const count = Math.min(MAX_PAGE_SIZE, Math.max(0, Number.isNaN(requested) ? DEFAULT_PAGE_SIZE : requested));
+  const page = filtered.slice(startIndex - 1, startIndex - 1 + count);
+
+  return {
+    schemas: [SCHEMAS.listResponse],
+    totalResults: filtered.length,
+    startIndex,
+    itemsPerPage: page.length,
+    Resources: page,
+  };
+};
+
+// Re-derive SCIM-granted user_roles from group membership
+export const syncUserRoles = async (ctx: SCIMContext, userIds: Iterable<string>): Promise<void> => {
+  for (const userId of new Set(userIds)) {
+    const { error } = await supabaseAdmin.rpc('sync_scim_user_roles', {
+      p_customer_id: ctx.config.customer_id,
+      p_user_id: userId,
+    });
+
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,40 @@
+import { corsHeaders } from '../_shared/cors.ts';
+
+export const SCHEMAS = {
+  user: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  group: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  listResponse: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  patchOp: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  error: 'urn:ietf:params:scim:api:messages:2.0:Error',
+  serviceProviderConfig: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+  resourceType: 'urn:ietf:params:scim:schemas:core:2.0:ResourceType',
+};
+
+// Error carried back to the IdP as a SCIM error response (RFC 7644 §3.12)
+export class SCIMError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly scimType?: string
+  ) {
+    super(message);
+    this.name = 'SCIMError';
+  }
+}
+
+export const scimResponse = (body: unknown, status = 200, headers: Record<string, string> = {}): Response =>
+  new Response(body === null ? null : JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/scim+json', ...headers },
+  });
+
+export const scimErrorResponse = (error: SCIMError): Response =>
+  scimResponse(
+    {
+      schemas: [SCHEMAS.error],
+      status: String(error.status),
+      ...(error.scimType && { scimType: error.scimType }),
+      detail: error.message,
+    },
+    error.status
+  );
@@ -0,0 +1,265 @@
+/**
+ * SCIM filter expressions (RFC 7644 §3.4.2.2)
+ *
+ *   userName eq "jane@example.com"
+ *   emails[type eq "work" and value co "@example.com"] or not (active eq false)
+ *
+ * Attribute names and string comparisons are case-insensitive.
+ */
+
+import { SCIMError } from './errors.ts';
+
+type CompareOp = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le';
+type FilterValue = string | number | boolean | null;
+
+export type FilterNode =
+  | { type: 'and' | 'or'; left: FilterNode; right: FilterNode }
+  | { type: 'not'; expr: FilterNode }
+  | { type: 'present'; path: string }
+  | { type: 'compare'; path: string; op: CompareOp; value: FilterValue }
+  | { type: 'valuePath'; path: string; filter: FilterNode };
+
+const COMPARE_OPS = new Set(['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le']);
+
+type Token =
+  | { kind: 'word'; text: string }
+  | { kind: 'value'; value: FilterValue }
+  | { kind: 'punct'; text: '(' | ')' | '[' | ']' };
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')' || char === '[' || char === ']') {
+      tokens.push({ kind: 'punct', text: char });
+      i++;
+    } else if (char === '"') {
+      let end = i + 1;
+      while (end < input.length && input[end] !== '"') {
+        end += input[end] === '\\' ? 2 : 1;
+      }
+      if (end >= input.length) {
+        throw new SCIMError(400, 'Unterminated string in filter', 'invalidFilter');
+      }
+      tokens.push({ kind: 'value', value: JSON.parse(input.slice(i, end + 1)) });
+      i = end + 1;
+    } else {
+      const match = /^[^\s()[\]"]+/.exec(input.slice(i))!;
+      const text = match[0];
+      i += text.length;
+
+      if (text === 'true' || text === 'false') {
+        tokens.push({ kind: 'value', value: text === 'true' });
+      } else if (text === 'null') {
+        tokens.push({ kind: 'value', value: null });
+      } else if (/^-?\d+(\.\d+)?$/.test(text)) {
+        tokens.push({ kind: 'value', value: Number(text) });
+      } else {
+        tokens.push({ kind: 'word', text });
+      }
+    }
+  }
+
+  return tokens;
+};
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FilterNode {
+    const node = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new SCIMError(400, 'Unexpected input at end of filter', 'invalidFilter');
+    }
+    return node;
+  }
+
+  private peekWord(): string | null {
+    const token = this.tokens[this.position];
+    return token?.kind === 'word' ? token.text.toLowerCase() : null;
+  }
+
+  private expectPunct(text: string): void {
+    const token = this.tokens[this.position];
+    if (token?.kind !== 'punct' || token.text !== text) {
+      throw new SCIMError(400, `Expected "${text}" in filter`, 'invalidFilter');
+    }
+    this.position++;
+  }
+
+  private parseOr(): FilterNode {
+    let node = this.parseAnd();
+    while (this.peekWord() === 'or') {
+      this.position++;
+      node = { type: 'or', left: node, right: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): FilterNode {
+    let node = this.parseFactor();
+    while (this.peekWord() === 'and') {
+      this.position++;
+      node = { type: 'and', left: node, right: this.parseFactor() };
+    }
+    return node;
+  }
+
+  private parseFactor(): FilterNode {
+    if (this.peekWord() === 'not') {
+      this.position++;
+      this.expectPunct('(');
+      const expr = this.parseOr();
+      this.expectPunct(')');
+      return { type: 'not', expr };
+    }
+
+    const token = this.tokens[this.position];
+    if (token?.kind === 'punct' && token.text === '(') {
+      this.position++;
+      const expr = this.parseOr();
+      this.expectPunct(')');
+      return expr;
+    }
+
+    if (token?.kind !== 'word') {
+      throw new SCIMError(400, 'Expected an attribute name in filter', 'invalidFilter');
+    }
+    const path = token.text;
+    this.position++;
+
+    const next = this.tokens[this.position];
+    if (next?.kind === 'punct' && next.text === '[') {
+      this.position++;
+      const filter = this.parseOr();
+      this.expectPunct(']');
+      return { type: 'valuePath', path, filter };
+    }
+
+    const op = this.peekWord();
+    if (op === 'pr') {
+      this.position++;
+      return { type: 'present', path };
+    }
+    if (!op || !COMPARE_OPS.has(op)) {
+      throw new SCIMError(400, `Unsupported filter operator after ${path}`, 'invalidFilter');
+    }
+    this.position++;
+
+    const value = this.tokens[this.position];
+    if (value?.kind !== 'value') {
+      throw new SCIMError(400, `Expected a value after ${path} ${op}`, 'invalidFilter');
+    }
+    this.position++;
+
+    return { type: 'compare', path, op: op as CompareOp, value: value.value };
+  }
+}
+
+export const parseFilter = (input: string): FilterNode => new Parser(tokenize(input)).parse();
+
+// Case-insensitive own-property lookup
+export const findKey = (object: Record<string, unknown>, name: string): string | undefined =>
+  Object.keys(object).find(key => key.toLowerCase() === name.toLowerCase());
+
+// Split an attribute path into its parts; a leading schema URN
+// (urn:...:enterprise:2.0:User:department) is kept as one part
+export const splitPath = (path: string): string[] => {
+  if (!path.toLowerCase().startsWith('urn:')) return path.split('.');
+
+  const separator = path.lastIndexOf(':');
+  return [path.slice(0, separator), ...path.slice(separator + 1).split('.')];
+};
+
+// Resolve an attribute path; multi-valued attributes fan out
+export const resolvePath = (value: unknown, path: string): unknown[] => {
+  let current: unknown[] = [value];
+
+  for (const part of splitPath(path)) {
+    const next: unknown[] = [];
+    for (const item of current) {
+      if (item === null || typeof item !== 'object') continue;
+      const key = findKey(item as Record<string, unknown>, part);
+      if (key === undefined) continue;
+      const child = (item as Record<string, unknown>)[key];
+      if (Array.isArray(child)) next.push(...child);
+      else next.push(child);
+    }
+    current = next;
+  }
+
+  return current.filter(item => item !== undefined);
+};
+
+const compare = (actual: unknown, op: CompareOp, expected: FilterValue): boolean => {
+  if (op === 'eq' && expected === null) return actual === null || actual === undefined;
+  if (op === 'ne' && expected === null) return actual !== null && actual !== undefined;
+
+  if (typeof actual === 'string' && typeof expected === 'string') {
+    const a = actual.toLowerCase();
+    const e = expected.toLowerCase();
+    switch (op) {
+      case 'eq': return a === e;
+      case 'ne': return a !== e;
+      case 'co': return a.includes(e);
+      case 'sw': return a.startsWith(e);
+      case 'ew': return a.endsWith(e);
+      case 'gt': return a > e;
+      case 'ge': return a >= e;
+      case 'lt': return a < e;
+      case 'le': return a <= e;
+    }
+  }
+
+  if (typeof actual === 'number' && typeof expected === 'number') {
+    switch (op) {
+      case 'eq': return actual === expected;
+      case 'ne': return actual !== expected;
+      case 'gt': return actual > expected;
+      case 'ge': return actual >= expected;
+      case 'lt': return actual < expected;
+      case 'le': return actual <= expected;
+      default: return false;
+    }
+  }
+
+  if (typeof actual === 'boolean' && typeof expected === 'boolean') {
+    if (op === 'eq') return actual === expected;
+    if (op === 'ne') return actual !== expected;
+    return false;
+  }
+
+  return op === 'ne';
+};
+
+export const matchesFilter = (resource: unknown, node: FilterNode): boolean => {
+  switch (node.type) {
+    case 'and':
+      return matchesFilter(resource, node.left) && matchesFilter(resource, node.right);
+    case 'or':
+      return matchesFilter(resource, node.left) || matchesFilter(resource, node.right);
+    case 'not':
+      return !matchesFilter(resource, node.expr);
+    case 'present':
+      return resolvePath(resource, node.path).some(value =>
+        value !== null && value !== '' && !(Array.isArray(value) && value.length === 0)
+      );
+    case 'valuePath':
+      return resolvePath(resource, node.path).some(value => matchesFilter(value, node.filter));
+    case 'compare': {
+      const values = resolvePath(resource, node.path);
+      if (values.length === 0) return compare(undefined, node.op, node.value);
+      // ne must hold for every value of a multi-valued attribute
+      return node.op === 'ne'
+        ? values.every(value => compare(value, node.op, node.value))
+        : values.some(value => compare(value, node.op, node.value));
+    }
+  }
+};
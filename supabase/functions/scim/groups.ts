@@ -0,0 +1,264 @@
+/**
+ * SCIM /Groups. Membership drives user_roles: every change re-syncs the
+ * affected users against SCIMConfiguration.groupMapping.
+ */
+
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { SCHEMAS, SCIMError } from './errors.ts';
+import { findKey } from './filter.ts';
+import { applyPatch } from './patch.ts';
+import { syncUserRoles, type SCIMContext } from './context.ts';
+
+type JSONObject = Record<string, unknown>;
+
+interface SCIMGroupRow {
+  id: string;
+  display_name: string;
+  external_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface GroupMember {
+  value: string;
+  display: string;
+}
+
+const GROUP_COLUMNS = 'id, display_name, external_id, created_at, updated_at';
+
+const attribute = (resource: JSONObject, name: string): unknown => {
+  const key = findKey(resource, name);
+  return key === undefined ? undefined : resource[key];
+};
+
+const memberIds = (resource: JSONObject): string[] => {
+  const members = attribute(resource, 'members');
+  if (!Array.isArray(members)) return [];
+  return [...new Set(
+    members
+      .map(member => member && typeof member === 'object' ? (member as JSONObject).value : undefined)
+      .filter((value): value is string => typeof value === 'string' && value.length > 0)
+  )];
+};
+
+const displayName = (resource: JSONObject): string => {
+  const value = attribute(resource, 'displayName');
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new SCIMError(400, 'displayName is required', 'invalidValue');
+  }
+  return value.trim();
+};
+
+const externalId = (resource: JSONObject): string | null => {
+  const value = attribute(resource, 'externalId');
+  return value === undefined || value === null || value === '' ? null : String(value);
+};
+
+const toResource = (ctx: SCIMContext, row: SCIMGroupRow, members: GroupMember[] | null): JSONObject => ({
+  schemas: [SCHEMAS.group],
+  id: row.id,
+  ...(row.external_id && { externalId: row.external_id }),
+  displayName: row.display_name,
+  ...(members && { members }),
+  meta: {
+    resourceType: 'Group',
+    created: row.created_at,
+    lastModified: row.updated_at,
+    location: `${ctx.baseUrl}/Groups/${row.id}`,
+  },
+});
+
+const loadRow = async (ctx: SCIMContext, groupId: string): Promise<SCIMGroupRow> => {
+  const { data, error } = await supabaseAdmin
+    .from('scim_groups')
+    .select(GROUP_COLUMNS)
+    .eq('customer_id', ctx.config.customer_id)
+    .eq('id', groupId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new SCIMError(404, `Group ${groupId} not found`);
+  }
+  return data as SCIMGroupRow;
+};
+
+// Members of the given groups with the user's display name, keyed by group
+const loadMembers = async (ctx: SCIMContext, groupIds: string[]): Promise<Map<string, GroupMember[]>> => {
+  const byGroup = new Map<string, GroupMember[]>();
+  if (groupIds.length === 0) return byGroup;
+
+  const { data: members, error } = await supabaseAdmin
+    .from('scim_group_members')
+    .select('group_id, user_id')
+    .in('group_id', groupIds);
+
+  if (error) throw error;
+
+  const userIds = [...new Set((members ?? []).map(member => member.user_id))];
+  const names = new Map<string, string>();
+  if (userIds.length > 0) {
+    const { data: users, error: usersError } = await supabaseAdmin
+      .from('scim_users')
+      .select('user_id, user_name, display_name')
+      .eq('customer_id', ctx.config.customer_id)
+      .in('user_id', userIds);
+
+    if (usersError) throw usersError;
+    for (const user of users ?? []) {
+      names.set(user.user_id, user.display_name || user.user_name);
+    }
+  }
+
+  for (const member of members ?? []) {
+    const list = byGroup.get(member.group_id) ?? [];
+    list.push({ value: member.user_id, display: names.get(member.user_id) ?? '' });
+    byGroup.set(member.group_id, list);
+  }
+  return byGroup;
+};
+
+const ensureDisplayNameFree = async (ctx: SCIMContext, name: string, exceptGroupId?: string): Promise<void> => {
+  const { data, error } = await supabaseAdmin
+    .from('scim_groups')
+    .select('id')
+    .eq('customer_id', ctx.config.customer_id)
+    .ilike('display_name', name.replace(/[\\%_]/g, '\\$&'));
+
+  if (error) throw error;
+  if (data?.some(row => row.id !== exceptGroupId)) {
+    throw new SCIMError(409, `Group ${name} already exists`, 'uniqueness');
+  }
+};
+
+// Members must be users this customer provisioned
+const ensureMembersProvisioned = async (ctx: SCIMContext, userIds: string[]): Promise<void> => {
+  if (userIds.length === 0) return;
+
+  const { data, error } = await supabaseAdmin
+    .from('scim_users')
+    .select('user_id')
+    .eq('customer_id', ctx.config.customer_id)
+    .in('user_id', userIds);
+
+  if (error) throw error;
+
+  const known = new Set((data ?? []).map(row => row.user_id));
+  const unknown = userIds.filter(id => !known.has(id));
+  if (unknown.length > 0) {
+    throw new SCIMError(400, `Unknown group members: ${unknown.join(', ')}`, 'invalidValue');
+  }
+};
+
+// Replace the member list and return every user whose membership changed
+const setMembers = async (groupId: string, current: string[], next: string[]): Promise<string[]> => {
+  const added = next.filter(id => !current.includes(id));
+  const removed = current.filter(id => !next.includes(id));
+
+  if (added.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('scim_group_members')
+      .insert(added.map(userId => ({ group_id: groupId, user_id: userId })));
+
+    if (error) throw error;
+  }
+
+  if (removed.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('scim_group_members')
+      .delete()
+      .eq('group_id', groupId)
+      .in('user_id', removed);
+
+    if (error) throw error;
+  }
+
+  return [...added, ...removed];
+};
+
+export const getGroup = async (ctx: SCIMContext, groupId: string, includeMembers = true): Promise<JSONObject> => {
+  const row = await loadRow(ctx, groupId);
+  const members = includeMembers ? (await loadMembers(ctx, [groupId])).get(groupId) ?? [] : null;
+  return toResource(ctx, row, members);
+};
+
+export const listGroups = async (ctx: SCIMContext, includeMembers = true): Promise<JSONObject[]> => {
+  const { data, error } = await supabaseAdmin
+    .from('scim_groups')
+    .select(GROUP_COLUMNS)
+    .eq('customer_id', ctx.config.customer_id)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  const rows = (data ?? []) as SCIMGroupRow[];
+  const members = includeMembers ? await loadMembers(ctx, rows.map(row => row.id)) : null;
+  return rows.map(row => toResource(ctx, row, members ? members.get(row.id) ?? [] : null));
+};
+
+export const createGroup = async (ctx: SCIMContext, resource: JSONObject): Promise<JSONObject> => {
+  const name = displayName(resource);
+  const members = memberIds(resource);
+
+  await ensureDisplayNameFree(ctx, name);
+  await ensureMembersProvisioned(ctx, members);
+
+  const { data, error } = await supabaseAdmin
+    .from('scim_groups')
+    .insert({ customer_id: ctx.config.customer_id, display_name: name, external_id: externalId(resource) })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  await setMembers(data.id, [], members);
+  await syncUserRoles(ctx, members);
+
+  return getGroup(ctx, data.id);
+};
+
+export const replaceGroup = async (ctx: SCIMContext, groupId: string, resource: JSONObject): Promise<JSONObject> => {
+  const current = await loadRow(ctx, groupId);
+  const currentMembers = ((await loadMembers(ctx, [groupId])).get(groupId) ?? []).map(member => member.value);
+  const name = displayName(resource);
+  const members = memberIds(resource);
+
+  await ensureDisplayNameFree(ctx, name, groupId);
+  await ensureMembersProvisioned(ctx, members);
+
+  const { error } = await supabaseAdmin
+    .from('scim_groups')
+    .update({ display_name: name, external_id: externalId(resource) })
+    .eq('customer_id', ctx.config.customer_id)
+    .eq('id', groupId);
+
+  if (error) throw error;
+
+  const changed = await setMembers(groupId, currentMembers, members);
+
+  // A rename can change which role the group maps to, so everyone re-syncs
+  const renamed = current.display_name.toLowerCase() !== name.toLowerCase();
+  await syncUserRoles(ctx, renamed ? [...currentMembers, ...members] : changed);
+
+  return getGroup(ctx, groupId);
+};
+
+export const patchGroup = async (ctx: SCIMContext, groupId: string, body: unknown): Promise<JSONObject> => {
+  const current = await getGroup(ctx, groupId);
+  return replaceGroup(ctx, groupId, applyPatch(current, body));
+};
+
+export const deleteGroup = async (ctx: SCIMContext, groupId: string): Promise<void> => {
+  await loadRow(ctx, groupId);
+  const members = ((await loadMembers(ctx, [groupId])).get(groupId) ?? []).map(member => member.value);
+
+  const { error } = await supabaseAdmin
+    .from('scim_groups')
+    .delete()
+    .eq('customer_id', ctx.config.customer_id)
+    .eq('id', groupId);
+
+  if (error) throw error;
+
+  await syncUserRoles(ctx, members);
+};
@@ -0,0 +1,156 @@
+/**
+ * SCIM 2.0 service provider (RFC 7643 / 7644) for customer IdPs that push
+ * users and groups. Each customer's base URL is
+ * `${SUPABASE_URL}/functions/v1/scim/:customerId`, authenticated with the
+ * bearer token from their SCIMConfiguration.
+ *
+ *   GET    /Users  /Groups            list, with filter, startIndex and count
+ *   POST   /Users  /Groups            create
+ *   GET    /Users/:id  /Groups/:id    read
+ *   PUT    /Users/:id  /Groups/:id    replace
+ *   PATCH  /Users/:id  /Groups/:id    PatchOp add / replace / remove
+ *   DELETE /Users/:id  /Groups/:id    delete
+ *   GET    /ServiceProviderConfig  /ResourceTypes
+ *
+ * IdPs send their SCIM token rather than a Supabase JWT, so deploy with
+ * `supabase functions deploy scim --no-verify-jwt`.
+ */
+
+import { corsHeaders } from '../_shared/cors.ts';
+import { SCHEMAS, SCIMError, scimErrorResponse, scimResponse } from './errors.ts';
+import { authenticate, listResponse, UUID_PATTERN, type SCIMContext } from './context.ts';
+import { deleteUser, getUser, listUsers, patchUser, provisionUser, replaceUser } from './users.ts';
+import { createGroup, deleteGroup, getGroup, listGroups, patchGroup, replaceGroup } from './groups.ts';
+
+const FUNCTION_URL = `${Deno.env.get('SUPABASE_URL')}/functions/v1/scim`;
+
+const serviceProviderConfig = (ctx: SCIMContext) => ({
+  schemas: [SCHEMAS.serviceProviderConfig],
+  patch: { supported: true },
+  bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+  filter: { supported: true, maxResults: 500 },
+  changePassword: { supported: false },
+  sort: { supported: false },
+  etag: { supported: false },
+  authenticationSchemes: [
+    {
+      type: 'oauthbearertoken',
+      name: 'Bearer token',
+      description: 'Token from the customer SCIM configuration',
+      primary: true,
+    },
+  ],
+  meta: { resourceType: 'ServiceProviderConfig', location: `${ctx.baseUrl}/ServiceProviderConfig` },
+});
+
+const resourceTypes = (ctx: SCIMContext) => listResponse(
+  [
+    { name: 'User', endpoint: '/Users', schema: SCHEMAS.user },
+    { name: 'Group', endpoint: '/Groups', schema: SCHEMAS.group },
+  ].map(type => ({
+    schemas: [SCHEMAS.resourceType],
+    id: type.name,
+    ...type,
+    meta: { resourceType: 'ResourceType', location: `${ctx.baseUrl}/ResourceTypes/${type.name}` },
+  })),
+  new URLSearchParams()
+);
+
+const readBody = async (req: Request): Promise<Record<string, unknown>> => {
+  try {
+    const body = await req.json();
+    if (body && typeof body === 'object' && !Array.isArray(body)) return body;
+  } catch {
+    // Fall through to the SCIM error below
+  }
+  throw new SCIMError(400, 'Request body must be a JSON object', 'invalidSyntax');
+};
+
+// members can be large; IdPs ask to leave them out when listing groups
+const wantsMembers = (params: URLSearchParams): boolean =>
+  !(params.get('excludedAttributes') ?? '')
+    .split(',')
+    .some(name => name.trim().toLowerCase() === 'members');
+
+const created = (resource: Record<string, unknown>): Response => {
+  const meta = resource.meta as { location: string };
+  return scimResponse(resource, 201, { Location: meta.location });
+};
+
+const route = async (ctx: SCIMContext, req: Request, url: URL, resource: string, id?: string): Promise<Response> => {
+  const params = url.searchParams;
+
+  if (id && !UUID_PATTERN.test(id)) {
+    throw new SCIMError(404, `${resource} ${id} not found`);
+  }
+
+  if (resource === 'ServiceProviderConfig' && req.method === 'GET') {
+    return scimResponse(serviceProviderConfig(ctx));
+  }
+  if (resource === 'ResourceTypes' && req.method === 'GET') {
+    return scimResponse(resourceTypes(ctx));
+  }
+
+  if (resource === 'Users') {
+    if (!id) {
+      if (req.method === 'GET') return scimResponse(listResponse(await listUsers(ctx), params));
+      if (req.method === 'POST') return created(await provisionUser(ctx, await readBody(req)));
+    } else {
+      if (req.method === 'GET') return scimResponse(await getUser(ctx, id));
+      if (req.method === 'PUT') return scimResponse(await replaceUser(ctx, id, await readBody(req)));
+      if (req.method === 'PATCH') return scimResponse(await patchUser(ctx, id, await readBody(req)));
+      if (req.method === 'DELETE') {
+        await deleteUser(ctx, id);
+        return scimResponse(null, 204);
+      }
+    }
+  }
+
+  if (resource === 'Groups') {
+    if (!id) {
+      if (req.method === 'GET') return scimResponse(listResponse(await listGroups(ctx, wantsMembers(params)), params));
+      if (req.method === 'POST') return created(await createGroup(ctx, await readBody(req)));
+    } else {
+      if (req.method === 'GET') return scimResponse(await getGroup(ctx, id, wantsMembers(params)));
+      if (req.method === 'PUT') return scimResponse(await replaceGroup(ctx, id, await readBody(req)));
+      if (req.method === 'PATCH') return scimResponse(await patchGroup(ctx, id, await readBody(req)));
+      if (req.method === 'DELETE') {
+        await deleteGroup(ctx, id);
+        return scimResponse(null, 204);
+      }
+    }
+  }
+
+  throw new SCIMError(404, `No ${req.method} endpoint for /${[resource, id].filter(Boolean).join('/')}`);
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const segments = url.pathname.split('/').filter(Boolean);
+  const [customerId, resource, id] = segments.slice(segments.indexOf('scim') + 1);
+
+  try {
+    const config = await authenticate(req, customerId);
+    const ctx: SCIMContext = { config, baseUrl: `${FUNCTION_URL}/${config.customer_id}` };
+
+    return await route(ctx, req, url, resource ?? '', id);
+  } catch (error) {
+    if (error instanceof SCIMError) {
+      const response = scimErrorResponse(error);
+      if (error.status === 401) response.headers.set('WWW-Authenticate', 'Bearer');
+      return response;
+    }
+
+    // Concurrent creates can still trip the unique indexes
+    if ((error as { code?: string })?.code === '23505') {
+      return scimErrorResponse(new SCIMError(409, 'Resource already exists', 'uniqueness'));
+    }
+
+    console.error('scim request failed:', error);
+    return scimErrorResponse(new SCIMError(500, 'Internal error'));
+  }
+});
@@ -0,0 +1,203 @@
+/**
+ * SCIM PATCH (RFC 7644 §3.5.2) applied to a resource as plain JSON.
+ * Callers load the full resource, apply the operations and store the result
+ * the same way as a PUT.
+ */
+
+import { SCHEMAS, SCIMError } from './errors.ts';
+import { findKey, matchesFilter, parseFilter, splitPath, type FilterNode } from './filter.ts';
+
+type JSONObject = Record<string, unknown>;
+
+interface PatchOperation {
+  op: string;
+  path?: string;
+  value?: unknown;
+}
+
+interface ParsedPath {
+  attribute: string[];
+  filter?: FilterNode;
+  subAttribute?: string;
+}
+
+const isObject = (value: unknown): value is JSONObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const parsePath = (path: string): ParsedPath => {
+  const open = path.indexOf('[');
+  if (open === -1) return { attribute: splitPath(path) };
+
+  const close = path.lastIndexOf(']');
+  if (close < open) {
+    throw new SCIMError(400, `Invalid path ${path}`, 'invalidPath');
+  }
+
+  const rest = path.slice(close + 1);
+  if (rest && !rest.startsWith('.')) {
+    throw new SCIMError(400, `Invalid path ${path}`, 'invalidPath');
+  }
+
+  return {
+    attribute: splitPath(path.slice(0, open)),
+    filter: parseFilter(path.slice(open + 1, close)),
+    subAttribute: rest ? rest.slice(1) : undefined,
+  };
+};
+
+// Walk to the object holding the last path part, creating objects on the way
+const parentOf = (resource: JSONObject, parts: string[], create: boolean): JSONObject | null => {
+  let current = resource;
+  for (const part of parts.slice(0, -1)) {
+    const key = findKey(current, part) ?? part;
+    if (!isObject(current[key])) {
+      if (!create) return null;
+      current[key] = {};
+    }
+    current = current[key] as JSONObject;
+  }
+  return current;
+};
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  isObject(a) && isObject(b) && 'value' in a && 'value' in b
+    ? String(a.value) === String(b.value)
+    : JSON.stringify(a) === JSON.stringify(b);
+
+const setAttribute = (resource: JSONObject, parts: string[], value: unknown, op: 'add' | 'replace'): void => {
+  const parent = parentOf(resource, parts, true)!;
+  const name = parts[parts.length - 1];
+  const key = findKey(parent, name) ?? name;
+  const existing = parent[key];
+
+  if (op === 'add' && Array.isArray(existing)) {
+    const additions = Array.isArray(value) ? value : [value];
+    parent[key] = [
+      ...existing,
+      ...additions.filter(item => !existing.some(current => sameValue(current, item))),
+    ];
+  } else if (op === 'add' && isObject(existing) && isObject(value)) {
+    for (const [childName, childValue] of Object.entries(value)) {
+      setAttribute(existing, [childName], childValue, 'add');
+    }
+  } else {
+    parent[key] = value;
+  }
+};
+
+const removeAttribute = (resource: JSONObject, parts: string[], value?: unknown): void => {
+  const parent = parentOf(resource, parts, false);
+  if (!parent) return;
+
+  const key = findKey(parent, parts[parts.length - 1]);
+  if (key === undefined) return;
+
+  // Some IdPs send removed members as a value instead of a filter
+  if (Array.isArray(parent[key]) && Array.isArray(value)) {
+    parent[key] = (parent[key] as unknown[]).filter(item => !value.some(removed => sameValue(item, removed)));
+  } else {
+    delete parent[key];
+  }
+};
+
+// Element built from the equality terms of a filter, used when a replace
+// targets an element that does not exist yet (emails[type eq "work"].value)
+const elementFromFilter = (filter: FilterNode): JSONObject | null => {
+  if (filter.type === 'compare' && filter.op === 'eq') {
+    return { [filter.path]: filter.value };
+  }
+  if (filter.type === 'and') {
+    const left = elementFromFilter(filter.left);
+    const right = elementFromFilter(filter.right);
+    return left && right ? { ...left, ...right } : null;
+  }
+  return null;
+};
+
+const applyToElements = (resource: JSONObject, operation: PatchOperation, path: ParsedPath): void => {
+  const op = operation.op.toLowerCase();
+  const parent = parentOf(resource, path.attribute, op !== 'remove');
+  if (!parent) return;
+
+  const name = path.attribute[path.attribute.length - 1];
+  const key = findKey(parent, name) ?? name;
+  const elements = Array.isArray(parent[key]) ? (parent[key] as unknown[]) : [];
+  const matches = (element: unknown) => matchesFilter(element, path.filter!);
+
+  if (op === 'remove') {
+    parent[key] = path.subAttribute
+      ? elements.map(element => {
+          if (!matches(element) || !isObject(element)) return element;
+          const copy = { ...element };
+          removeAttribute(copy, splitPath(path.subAttribute!));
+          return copy;
+        })
+      : elements.filter(element => !matches(element));
+    return;
+  }
+
+  if (!elements.some(matches)) {
+    const created = elementFromFilter(path.filter!);
+    if (!created) {
+      throw new SCIMError(400, `No value matches ${operation.path}`, 'noTarget');
+    }
+    elements.push(created);
+  }
+
+  parent[key] = elements.map(element => {
+    if (!matches(element)) return element;
+    if (!path.subAttribute) {
+      return isObject(element) && isObject(operation.value) && op === 'add'
+        ? { ...element, ...operation.value }
+        : operation.value;
+    }
+    const copy = isObject(element) ? { ...element } : {};
+    setAttribute(copy, splitPath(path.subAttribute), operation.value, op as 'add' | 'replace');
+    return copy;
+  });
+};
+
+const applyOperation = (resource: JSONObject, operation: PatchOperation): void => {
+  const op = operation.op?.toLowerCase();
+  if (op !== 'add' && op !== 'remove' && op !== 'replace') {
+    throw new SCIMError(400, `Unsupported PATCH op ${operation.op}`, 'invalidSyntax');
+  }
+
+  if (!operation.path) {
+    if (op === 'remove') {
+      throw new SCIMError(400, 'remove requires a path', 'noTarget');
+    }
+    if (!isObject(operation.value)) {
+      throw new SCIMError(400, `${op} without a path requires an object value`, 'invalidValue');
+    }
+    // Keys may themselves be paths (name.givenName)
+    for (const [path, value] of Object.entries(operation.value)) {
+      applyOperation(resource, { op, path, value });
+    }
+    return;
+  }
+
+  const path = parsePath(operation.path);
+  if (path.filter) {
+    applyToElements(resource, operation, path);
+  } else if (op === 'remove') {
+    removeAttribute(resource, path.attribute, operation.value);
+  } else {
+    setAttribute(resource, path.attribute, operation.value, op);
+  }
+};
+
+export const applyPatch = (resource: JSONObject, body: unknown): JSONObject => {
+  if (!isObject(body) || !Array.isArray(body.Operations)) {
+    throw new SCIMError(400, 'PATCH body must be a PatchOp message with Operations', 'invalidSyntax');
+  }
+  if (Array.isArray(body.schemas) && !body.schemas.includes(SCHEMAS.patchOp)) {
+    throw new SCIMError(400, `PATCH body must use schema ${SCHEMAS.patchOp}`, 'invalidSyntax');
+  }
+
+  const patched = structuredClone(resource);
+  for (const operation of body.Operations as PatchOperation[]) {
+    applyOperation(patched, operation);
+  }
+  return patched;
+};
@@ -0,0 +1,446 @@
+/**
+ * SCIM /Users. provisionUser and deprovisionUser are the server side of
+ * SSOService's methods of the same name: one creates (or links) the app
+ * account, the other blocks sign-in and drops SCIM-granted roles.
+ */
+
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { SCHEMAS, SCIMError } from './errors.ts';
+import { findKey, resolvePath } from './filter.ts';
+import { applyPatch } from './patch.ts';
+import { syncUserRoles, type SCIMContext } from './context.ts';
+
+type JSONObject = Record<string, unknown>;
+
+interface SCIMUserRow {
+  user_id: string;
+  user_name: string;
+  external_id: string | null;
+  given_name: string | null;
+  family_name: string | null;
+  formatted_name: string | null;
+  display_name: string | null;
+  emails: Array<{ value: string; type?: string; primary?: boolean }>;
+  active: boolean;
+  extensions: Record<string, JSONObject>;
+  created_at: string;
+  updated_at: string;
+}
+
+type SCIMUserAttributes = Omit<SCIMUserRow, 'user_id' | 'created_at' | 'updated_at'>;
+
+const USER_COLUMNS =
+  'user_id, user_name, external_id, given_name, family_name, formatted_name, display_name, emails, active, extensions, created_at, updated_at';
+
+// Effectively permanent; cleared again on reactivation
+const DEPROVISIONED_BAN = '876000h';
+
+const attribute = (resource: JSONObject, name: string): unknown => {
+  const key = findKey(resource, name);
+  return key === undefined ? undefined : resource[key];
+};
+
+const optionalString = (value: unknown): string | null =>
+  value === undefined || value === null || value === '' ? null : String(value);
+
+// Some IdPs send booleans as "True" / "False"
+const parseBoolean = (value: unknown, fallback: boolean): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') return value.toLowerCase() === 'true';
+  return fallback;
+};
+
+const fromResource = (resource: JSONObject): SCIMUserAttributes => {
+  const userName = optionalString(attribute(resource, 'userName'));
+  if (!userName) {
+    throw new SCIMError(400, 'userName is required', 'invalidValue');
+  }
+
+  const name = attribute(resource, 'name');
+  const nameObject = name && typeof name === 'object' ? name as JSONObject : {};
+
+  const rawEmails = attribute(resource, 'emails');
+  const emails = Array.isArray(rawEmails)
+    ? rawEmails
+        .filter(email => email && typeof email === 'object' && optionalString((email as JSONObject).value))
+        .map(email => {
+          const entry = email as JSONObject;
+          return {
+            value: String(entry.value),
+            ...(entry.type !== undefined && { type: String(entry.type) }),
+            primary: parseBoolean(entry.primary, false),
+          };
+        })
+    : [];
+
+  const extensions: Record<string, JSONObject> = {};
+  for (const [key, value] of Object.entries(resource)) {
+    if (key.toLowerCase().startsWith('urn:') && value && typeof value === 'object') {
+      extensions[key] = value as JSONObject;
+    }
+  }
+
+  return {
+    user_name: userName,
+    external_id: optionalString(attribute(resource, 'externalId')),
+    given_name: optionalString(attribute(nameObject, 'givenName')),
+    family_name: optionalString(attribute(nameObject, 'familyName')),
+    formatted_name: optionalString(attribute(nameObject, 'formatted')),
+    display_name: optionalString(attribute(resource, 'displayName')),
+    emails,
+    active: parseBoolean(attribute(resource, 'active'), true),
+    extensions,
+  };
+};
+
+const primaryEmail = (attributes: SCIMUserAttributes): string => {
+  const email = attributes.emails.find(entry => entry.primary)?.value
+    ?? attributes.emails[0]?.value
+    ?? (attributes.user_name.includes('@') ? attributes.user_name : null);
+
+  if (!email) {
+    throw new SCIMError(400, 'User needs an email address or an email userName', 'invalidValue');
+  }
+  return email.toLowerCase();
+};
+
+const fullName = (attributes: SCIMUserAttributes): string =>
+  attributes.formatted_name
+  || attributes.display_name
+  || [attributes.given_name, attributes.family_name].filter(Boolean).join(' ')
+  || attributes.user_name;
+
+// users columns taken from SCIM attributes through SCIMConfiguration.userMapping
+const mappedColumns = (ctx: SCIMContext, resource: JSONObject): Record<string, string> => {
+  const columns: Record<string, string> = {};
+  for (const column of ['full_name', 'company']) {
+    const path = ctx.config.user_mapping?.[column];
+    if (!path) continue;
+    const value = resolvePath(resource, path)[0];
+    if (value !== undefined && value !== null && value !== '') columns[column] = String(value);
+  }
+  return columns;
+};
+
+const toResource = (
+  ctx: SCIMContext,
+  row: SCIMUserRow,
+  groups: Array<{ value: string; display: string }>
+): JSONObject => {
+  const name = {
+    ...(row.given_name && { givenName: row.given_name }),
+    ...(row.family_name && { familyName: row.family_name }),
+    ...(row.formatted_name && { formatted: row.formatted_name }),
+  };
+
+  return {
+    schemas: [SCHEMAS.user, ...Object.keys(row.extensions ?? {})],
+    id: row.user_id,
+    ...(row.external_id && { externalId: row.external_id }),
+    userName: row.user_name,
+    ...(Object.keys(name).length > 0 && { name }),
+    ...(row.display_name && { displayName: row.display_name }),
+    emails: row.emails,
+    active: row.active,
+    groups,
+    ...row.extensions,
+    meta: {
+      resourceType: 'User',
+      created: row.created_at,
+      lastModified: row.updated_at,
+      location: `${ctx.baseUrl}/Users/${row.user_id}`,
+    },
+  };
+};
+
+// Group memberships of the customer's groups, keyed by user
+const loadGroupsByUser = async (ctx: SCIMContext): Promise<Map<string, Array<{ value: string; display: string }>>> => {
+  const { data: groups, error: groupsError } = await supabaseAdmin
+    .from('scim_groups')
+    .select('id, display_name')
+    .eq('customer_id', ctx.config.customer_id);
+
+  if (groupsError) throw groupsError;
+
+  const byUser = new Map<string, Array<{ value: string; display: string }>>();
+  if (!groups?.length) return byUser;
+
+  const { data: members, error: membersError } = await supabaseAdmin
+    .from('scim_group_members')
+    .select('group_id, user_id')
+    .in('group_id', groups.map(group => group.id));
+
+  if (membersError) throw membersError;
+
+  const names = new Map(groups.map(group => [group.id, group.display_name as string]));
+  for (const member of members ?? []) {
+    const list = byUser.get(member.user_id) ?? [];
+    list.push({ value: member.group_id, display: names.get(member.group_id) ?? '' });
+    byUser.set(member.user_id, list);
+  }
+  return byUser;
+};
+
+const loadRow = async (ctx: SCIMContext, userId: string): Promise<SCIMUserRow> => {
+  const { data, error } = await supabaseAdmin
+    .from('scim_users')
+    .select(USER_COLUMNS)
+    .eq('customer_id', ctx.config.customer_id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new SCIMError(404, `User ${userId} not found`);
+  }
+  return data as SCIMUserRow;
+};
+
+const ensureUserNameFree = async (ctx: SCIMContext, userName: string, exceptUserId?: string): Promise<void> => {
+  const { data, error } = await supabaseAdmin
+    .from('scim_users')
+    .select('user_id')
+    .eq('customer_id', ctx.config.customer_id)
+    .ilike('user_name', userName.replace(/[\\%_]/g, '\\$&'));
+
+  if (error) throw error;
+  if (data?.some(row => row.user_id !== exceptUserId)) {
+    throw new SCIMError(409, `userName ${userName} is already in use`, 'uniqueness');
+  }
+};
+
+const setSignInBlocked = async (userId: string, blocked: boolean): Promise<void> => {
+  const { error } = await supabaseAdmin.auth.admin.updateUserById(userId, {
+    ban_duration: blocked ? DEPROVISIONED_BAN : 'none',
+  });
+
+  if (error) throw error;
+};
+
+const createAppUser = async (
+  ctx: SCIMContext,
+  attributes: SCIMUserAttributes,
+  email: string,
+  mapped: Record<string, string>
+): Promise<string> => {
+  const fullNameValue = mapped.full_name ?? fullName(attributes);
+  const company = mapped.company ?? ctx.config.customer_id;
+
+  const { data, error } = await supabaseAdmin.auth.admin.createUser({
+    email,
+    email_confirm: true,
+    user_metadata: { full_name: fullNameValue, company },
+  });
+
+  if (error) throw error;
+
+  const { error: profileError } = await supabaseAdmin
+    .from('users')
+    .upsert({
+      id: data.user.id,
+      email,
+      full_name: fullNameValue,
+      role: 'learner', // Raised by group mapping
+      company,
+      email_verified: true,
+    });
+
+  if (profileError) throw profileError;
+
+  // The directory's customer is the organization it provisions into
+  const { error: membershipError } = await supabaseAdmin
+    .from('user_organizations')
+    .insert({ user_id: data.user.id, organization_id: ctx.config.customer_id, role: 'member' });
+
+  if (membershipError) throw membershipError;
+  return data.user.id;
+};
+
+/**
+ * Whether an existing account may be linked to this directory. Only members
+ * of the customer's organization qualify, and never platform admins: once
+ * linked, the IdP controls the account's email, sign-in and roles.
+ */
+const canAdoptUser = async (ctx: SCIMContext, userId: string, role: string | null): Promise<boolean> => {
+  if (role === 'admin') return false;
+
+  const { data, error } = await supabaseAdmin
+    .from('user_organizations')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('organization_id', ctx.config.customer_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+};
+
+/**
+ * Create or link the app account for a SCIM user
+ */
+export const provisionUser = async (ctx: SCIMContext, resource: JSONObject): Promise<JSONObject> => {
+  const attributes = fromResource(resource);
+  const email = primaryEmail(attributes);
+  const mapped = mappedColumns(ctx, resource);
+
+  await ensureUserNameFree(ctx, attributes.user_name);
+
+  const { data: existing, error } = await supabaseAdmin
+    .from('users')
+    .select('id, role')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  let userId = existing?.id as string | undefined;
+  if (userId) {
+    const { data: linked, error: linkedError } = await supabaseAdmin
+      .from('scim_users')
+      .select('user_id')
+      .eq('customer_id', ctx.config.customer_id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (linkedError) throw linkedError;
+    if (linked) {
+      throw new SCIMError(409, `A user with email ${email} is already provisioned`, 'uniqueness');
+    }
+    // A plain uniqueness conflict: the IdP learns nothing about which tenant owns the account
+    if (!(await canAdoptUser(ctx, userId, existing?.role ?? null))) {
+      throw new SCIMError(409, `A user with email ${email} already exists`, 'uniqueness');
+    }
+  } else {
+    if (!ctx.config.auto_provision) {
+      throw new SCIMError(403, 'Automatic provisioning is disabled for this customer');
+    }
+    userId = await createAppUser(ctx, attributes, email, mapped);
+  }
+
+  const { error: insertError } = await supabaseAdmin
+    .from('scim_users')
+    .insert({ customer_id: ctx.config.customer_id, user_id: userId, ...attributes });
+
+  if (insertError) throw insertError;
+
+  if (!attributes.active) {
+    await deprovisionUser(ctx, userId);
+  }
+  await syncUserRoles(ctx, [userId]);
+
+  return getUser(ctx, userId);
+};
+
+/**
+ * Block sign-in for a deactivated or deleted SCIM user. SCIM-granted roles
+ * are dropped by syncUserRoles once the user is inactive or unlinked.
+ */
+export const deprovisionUser = async (ctx: SCIMContext, userId: string): Promise<void> => {
+  if (!ctx.config.auto_deprovision) return;
+  await setSignInBlocked(userId, true);
+};
+
+export const getUser = async (ctx: SCIMContext, userId: string): Promise<JSONObject> => {
+  const row = await loadRow(ctx, userId);
+  const groups = await loadGroupsByUser(ctx);
+  return toResource(ctx, row, groups.get(userId) ?? []);
+};
+
+export const listUsers = async (ctx: SCIMContext): Promise<JSONObject[]> => {
+  const { data, error } = await supabaseAdmin
+    .from('scim_users')
+    .select(USER_COLUMNS)
+    .eq('customer_id', ctx.config.customer_id)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  const groups = await loadGroupsByUser(ctx);
+  return ((data ?? []) as SCIMUserRow[]).map(row => toResource(ctx, row, groups.get(row.user_id) ?? []));
+};
+
+export const replaceUser = async (ctx: SCIMContext, userId: string, resource: JSONObject): Promise<JSONObject> => {
+  const current = await loadRow(ctx, userId);
+  const attributes = fromResource(resource);
+  const email = primaryEmail(attributes);
+  const mapped = mappedColumns(ctx, resource);
+
+  await ensureUserNameFree(ctx, attributes.user_name, userId);
+
+  const { error } = await supabaseAdmin
+    .from('scim_users')
+    .update(attributes)
+    .eq('customer_id', ctx.config.customer_id)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  const { data: appUser, error: appUserError } = await supabaseAdmin
+    .from('users')
+    .select('email')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (appUserError) throw appUserError;
+
+  if (appUser && appUser.email !== email) {
+    const { error: authError } = await supabaseAdmin.auth.admin.updateUserById(userId, {
+      email,
+      email_confirm: true,
+    });
+    if (authError) throw authError;
+  }
+
+  const { error: profileError } = await supabaseAdmin
+    .from('users')
+    .update({ email, full_name: mapped.full_name ?? fullName(attributes), ...(mapped.company && { company: mapped.company }) })
+    .eq('id', userId);
+
+  if (profileError) throw profileError;
+
+  if (current.active && !attributes.active) {
+    await deprovisionUser(ctx, userId);
+  } else if (!current.active && attributes.active) {
+    await setSignInBlocked(userId, false);
+  }
+  await syncUserRoles(ctx, [userId]);
+
+  return getUser(ctx, userId);
+};
+
+export const patchUser = async (ctx: SCIMContext, userId: string, body: unknown): Promise<JSONObject> => {
+  const current = await getUser(ctx, userId);
+  return replaceUser(ctx, userId, applyPatch(current, body));
+};
+
+export const deleteUser = async (ctx: SCIMContext, userId: string): Promise<void> => {
+  await loadRow(ctx, userId);
+  await deprovisionUser(ctx, userId);
+
+  const { data: groups, error: groupsError } = await supabaseAdmin
+    .from('scim_groups')
+    .select('id')
+    .eq('customer_id', ctx.config.customer_id);
+
+  if (groupsError) throw groupsError;
+
+  if (groups?.length) {
+    const { error } = await supabaseAdmin
+      .from('scim_group_members')
+      .delete()
+      .eq('user_id', userId)
+      .in('group_id', groups.map(group => group.id));
+
+    if (error) throw error;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('scim_users')
+    .delete()
+    .eq('customer_id', ctx.config.customer_id)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  await syncUserRoles(ctx, [userId]);
+};
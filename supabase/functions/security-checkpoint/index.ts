@@ -0,0 +1,115 @@
+/**
+ * Security rules that the browser cannot skip
+ *
+ *   POST /security-checkpoint/password       { password }  run the password_change rules,
+ *                                                           then set the caller's password
+ *   POST /security-checkpoint/admin-action   { action }    run the admin_action rules
+ *
+ * Rules come from the security_policies setting and read a context built
+ * here from the database and the request. A block rule answers 403 with
+ * the rules that blocked; otherwise the warn rules that triggered are
+ * returned for the app to show. Supabase Auth refuses password updates that
+ * do not come through here (require_password_change_grant).
+ */
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import {
+  buildContext,
+  runCheckpoint,
+  sessionClaims,
+  type RuleEvaluation,
+  type SecurityAction,
+} from '../_shared/securityRules.ts';
+
+// Long enough for the update that follows the grant, and no longer
+const GRANT_TTL_MS = 60 * 1000;
+
+// Rules go back without the rest of their policy
+const describe = (evaluations: RuleEvaluation[]) =>
+  evaluations.map(({ policy, rule }) => ({ policy: { ...policy, rules: [] }, rule, status: 'triggered' }));
+
+const blockedResponse = (evaluations: RuleEvaluation[]): Response =>
+  jsonResponse(
+    {
+      error: evaluations.map(evaluation => evaluation.rule.description).join('. '),
+      blocked: describe(evaluations),
+    },
+    403
+  );
+
+const isAction = (value: unknown): value is SecurityAction =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as SecurityAction).name === 'string' &&
+  typeof (value as SecurityAction).category === 'string';
+
+const changePassword = async (req: Request, jwt: string, userId: string): Promise<Response> => {
+  const { password } = await req.json();
+  if (typeof password !== 'string' || password.length === 0) {
+    return jsonResponse({ error: 'password is required' }, 400);
+  }
+
+  const context = await buildContext(userId, sessionClaims(jwt), { request: req, password });
+  const { blocked, warnings } = await runCheckpoint('password_change', context);
+  if (blocked.length > 0) {
+    return blockedResponse(blocked);
+  }
+
+  const { error: grantError } = await supabaseAdmin
+    .from('password_change_grants')
+    .upsert({ user_id: userId, expires_at: new Date(Date.now() + GRANT_TTL_MS).toISOString() });
+  if (grantError) throw grantError;
+
+  const { error } = await supabaseAdmin.auth.admin.updateUserById(userId, { password });
+  if (error) {
+    // An unused grant must not let a direct update through
+    await supabaseAdmin.from('password_change_grants').delete().eq('user_id', userId);
+    return jsonResponse({ error: error.message }, 422);
+  }
+
+  return jsonResponse({ warnings: describe(warnings) });
+};
+
+const checkAdminAction = async (req: Request, jwt: string, userId: string): Promise<Response> => {
+  const { action } = await req.json();
+  if (!isAction(action)) {
+    return jsonResponse({ error: 'action with a name and category is required' }, 400);
+  }
+
+  const context = await buildContext(userId, sessionClaims(jwt), { request: req, action });
+  const { blocked, warnings } = await runCheckpoint('admin_action', context);
+  if (blocked.length > 0) {
+    return blockedResponse(blocked);
+  }
+
+  return jsonResponse({ warnings: describe(warnings) });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const segments = new URL(req.url).pathname.split('/').filter(Boolean);
+  const [route] = segments.slice(segments.indexOf('security-checkpoint') + 1);
+
+  if (req.method !== 'POST' || !['password', 'admin-action'].includes(route)) {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  try {
+    const jwt = /^Bearer\s+(.+)$/i.exec(req.headers.get('Authorization') ?? '')?.[1];
+    const { data: { user } } = jwt ? await supabaseAdmin.auth.getUser(jwt) : { data: { user: null } };
+    if (!jwt || !user) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    return route === 'password'
+      ? await changePassword(req, jwt, user.id)
+      : await checkAdminAction(req, jwt, user.id);
+  } catch (error) {
+    console.error(`security-checkpoint ${route} failed:`, error);
+    return jsonResponse({ error: 'Security check failed' }, 500);
+  }
+});
@@ -0,0 +1,434 @@
+/**
+ * OpenID Connect / OAuth2 relying party endpoints used by SSOService
+ *
+ *   GET  /sso-oidc/login/:providerId?redirect_to=/path   start an authorization code + PKCE login
+ *   GET  /sso-oidc/callback/:providerId                  redirect URI registered with the IdP
+ *   POST /sso-oidc/redeem                                exchange a handoff code for a session
+ *
+ * OIDC providers are configured with their issuer; endpoints and signing keys
+ * come from the issuer's discovery document. Plain OAuth2 providers use the
+ * configured authorizationUrl / tokenUrl / userInfoUrl. The client secret is
+ * read from sso_provider_secrets and never leaves this function.
+ *
+ * The IdP redirects the browser here without a Supabase JWT, so deploy with
+ * `supabase functions deploy sso-oidc --no-verify-jwt`.
+ */
+
+import { createRemoteJWKSet, jwtVerify, type JWTPayload } from 'npm:jose@5';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { supabaseAdmin, sha256Hex, randomToken, base64UrlEncode } from '../_shared/supabaseAdmin.ts';
+import {
+  createHandoffUrl,
+  handleRedeem,
+  loginErrorUrl,
+  safeRedirectPath,
+  type SSOUser,
+} from '../_shared/ssoHandoff.ts';
+
+const FUNCTION_URL = `${Deno.env.get('SUPABASE_URL')}/functions/v1/sso-oidc`;
+
+// Binds a login to the browser that started it
+const STATE_COOKIE = 'sso_oidc_state';
+const STATE_TTL_SECONDS = 10 * 60;
+// How long a discovery document is reused before fetching it again
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+// How long fetched signing keys are reused; an unknown kid triggers a refetch
+const JWKS_CACHE_MS = 10 * 60 * 1000;
+// Allowed clock drift when checking exp / iat
+const CLOCK_SKEW_SECONDS = 120;
+
+interface OIDCProviderRow {
+  id: string;
+  provider_type: 'oidc' | 'oauth2';
+  enabled: boolean;
+  config: {
+    issuer?: string;
+    clientId?: string;
+    authorizationUrl?: string;
+    tokenUrl?: string;
+    userInfoUrl?: string;
+    scope?: string[];
+    attributeMapping?: Record<string, string>;
+  };
+}
+
+// Subset of the OpenID Provider Metadata we use
+interface ProviderMetadata {
+  issuer?: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri?: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+interface TokenResponse {
+  access_token?: string;
+  id_token?: string;
+  token_type?: string;
+}
+
+// Claim names tried for each SSOUser field when attributeMapping has no entry
+const DEFAULT_CLAIMS: Record<string, string[]> = {
+  email: ['email', 'upn'],
+  firstName: ['given_name', 'firstName'],
+  lastName: ['family_name', 'lastName'],
+  displayName: ['name', 'displayName'],
+  groups: ['groups', 'roles'],
+};
+
+// Kept for the life of the function instance
+const discoveryCache = new Map<string, { metadata: ProviderMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+const loadProvider = async (providerId: string | undefined): Promise<OIDCProviderRow> => {
+  if (!providerId) throw new Error('OIDC provider not found');
+
+  const { data, error } = await supabaseAdmin
+    .from('sso_providers')
+    .select('id, provider_type, enabled, config')
+    .eq('id', providerId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || (data.provider_type !== 'oidc' && data.provider_type !== 'oauth2') || !data.enabled) {
+    throw new Error('OIDC provider not found');
+  }
+  if (!data.config?.clientId) {
+    throw new Error('OIDC/OAuth2 configuration incomplete');
+  }
+
+  return data as OIDCProviderRow;
+};
+
+const loadClientSecret = async (providerId: string): Promise<string | null> => {
+  const { data, error } = await supabaseAdmin
+    .from('sso_provider_secrets')
+    .select('client_secret')
+    .eq('provider_id', providerId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.client_secret ?? null;
+};
+
+const discover = async (issuer: string): Promise<ProviderMetadata> => {
+  const cached = discoveryCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) {
+    return cached.metadata;
+  }
+
+  const response = await fetch(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed: ${response.status} ${response.statusText}`);
+  }
+
+  const metadata = await response.json() as ProviderMetadata;
+  // OpenID Connect Discovery 1.0 §4.3: the document must name the issuer we asked for
+  if (metadata.issuer !== issuer) {
+    throw new Error(`OIDC discovery returned issuer ${metadata.issuer}, expected ${issuer}`);
+  }
+  if (!metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+    throw new Error('OIDC discovery document is missing required endpoints');
+  }
+
+  discoveryCache.set(issuer, { metadata, fetchedAt: Date.now() });
+  return metadata;
+};
+
+const getMetadata = async (provider: OIDCProviderRow): Promise<ProviderMetadata> => {
+  const config = provider.config;
+
+  if (provider.provider_type === 'oidc') {
+    if (!config.issuer) throw new Error('OIDC provider has no issuer');
+    return discover(config.issuer);
+  }
+
+  if (!config.authorizationUrl || !config.tokenUrl || !config.userInfoUrl) {
+    throw new Error('OIDC/OAuth2 configuration incomplete');
+  }
+  return {
+    authorization_endpoint: config.authorizationUrl,
+    token_endpoint: config.tokenUrl,
+    userinfo_endpoint: config.userInfoUrl,
+  };
+};
+
+const signingKeys = (jwksUri: string) => {
+  let jwks = jwksCache.get(jwksUri);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(jwksUri), { cacheMaxAge: JWKS_CACHE_MS });
+    jwksCache.set(jwksUri, jwks);
+  }
+  return jwks;
+};
+
+const redirectUri = (providerId: string): string => `${FUNCTION_URL}/callback/${providerId}`;
+
+const readCookie = (req: Request, name: string): string | null => {
+  for (const part of (req.headers.get('Cookie') ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return value.join('=');
+  }
+  return null;
+};
+
+const stateCookie = (value: string, maxAge: number): string =>
+  `${STATE_COOKIE}=${value}; Path=/functions/v1/sso-oidc; Max-Age=${maxAge}; HttpOnly; Secure; SameSite=Lax`;
+
+const redirect = (location: string, cookie: string): Response =>
+  new Response(null, { status: 302, headers: { Location: location, 'Set-Cookie': cookie } });
+
+const handleLogin = async (providerId: string | undefined, url: URL): Promise<Response> => {
+  const provider = await loadProvider(providerId);
+  const metadata = await getMetadata(provider);
+
+  const state = randomToken();
+  const nonce = randomToken();
+  const codeVerifier = randomToken(48);
+  const codeChallenge = base64UrlEncode(
+    new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier)))
+  );
+
+  const { error } = await supabaseAdmin
+    .from('sso_oidc_requests')
+    .insert({
+      state_hash: await sha256Hex(state),
+      provider_id: provider.id,
+      nonce,
+      code_verifier: codeVerifier,
+      redirect_to: safeRedirectPath(url.searchParams.get('redirect_to')),
+      expires_at: new Date(Date.now() + STATE_TTL_SECONDS * 1000).toISOString(),
+    });
+
+  if (error) throw error;
+
+  const defaultScope = provider.provider_type === 'oidc' ? ['openid', 'email', 'profile'] : [];
+  const scope = new Set(provider.config.scope ?? defaultScope);
+  if (provider.provider_type === 'oidc') scope.add('openid');
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.config.clientId!,
+    redirect_uri: redirectUri(provider.id),
+    scope: [...scope].join(' '),
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+    ...(provider.provider_type === 'oidc' && { nonce }),
+  });
+
+  return redirect(`${metadata.authorization_endpoint}?${params.toString()}`, stateCookie(state, STATE_TTL_SECONDS));
+};
+
+const exchangeCode = async (
+  provider: OIDCProviderRow,
+  metadata: ProviderMetadata,
+  code: string,
+  codeVerifier: string
+): Promise<TokenResponse> => {
+  const clientId = provider.config.clientId!;
+  const clientSecret = await loadClientSecret(provider.id);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri(provider.id),
+    code_verifier: codeVerifier,
+  });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+
+  // client_secret_basic is the default; fall back to client_secret_post when
+  // the IdP only advertises that, and send client_id alone for public clients
+  const authMethods = metadata.token_endpoint_auth_methods_supported ?? ['client_secret_basic'];
+  if (clientSecret && authMethods.includes('client_secret_basic')) {
+    headers.Authorization = `Basic ${btoa(`${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`)}`;
+  } else {
+    body.set('client_id', clientId);
+    if (clientSecret) body.set('client_secret', clientSecret);
+  }
+
+  const response = await fetch(metadata.token_endpoint, { method: 'POST', headers, body });
+  if (!response.ok) {
+    throw new Error(`Token exchange failed: ${response.status} ${await response.text()}`);
+  }
+
+  return await response.json() as TokenResponse;
+};
+
+// Signature against the issuer's JWKS, iss, aud, exp and nonce
+const verifyIdToken = async (
+  provider: OIDCProviderRow,
+  metadata: ProviderMetadata,
+  idToken: string | undefined,
+  nonce: string
+): Promise<JWTPayload> => {
+  if (!idToken) throw new Error('Token response has no id_token');
+
+  const clientId = provider.config.clientId!;
+  const { payload } = await jwtVerify(idToken, signingKeys(metadata.jwks_uri!), {
+    issuer: metadata.issuer,
+    audience: clientId,
+    clockTolerance: CLOCK_SKEW_SECONDS,
+    requiredClaims: ['sub', 'exp', 'iat'],
+  });
+
+  if (payload.nonce !== nonce) {
+    throw new Error('ID token nonce does not match the login request');
+  }
+  if (Array.isArray(payload.aud) && payload.aud.length > 1 && payload.azp !== clientId) {
+    throw new Error('ID token was issued to another client');
+  }
+
+  return payload;
+};
+
+const fetchUserInfo = async (endpoint: string, accessToken: string | undefined): Promise<Record<string, unknown>> => {
+  if (!accessToken) throw new Error('Token response has no access_token');
+
+  const response = await fetch(endpoint, {
+    headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+  });
+  if (!response.ok) {
+    throw new Error(`UserInfo request failed: ${response.status} ${response.statusText}`);
+  }
+
+  return await response.json();
+};
+
+const readClaim = (
+  claims: Record<string, unknown>,
+  field: string,
+  mapping: Record<string, string>
+): unknown => {
+  const names = mapping[field] ? [mapping[field]] : DEFAULT_CLAIMS[field];
+  for (const name of names) {
+    const value = claims[name];
+    if (value !== undefined && value !== null && value !== '') return value;
+  }
+  return undefined;
+};
+
+const asString = (value: unknown): string =>
+  value === undefined || value === null ? '' : String(value);
+
+// Map verified claims onto SSOUser through the provider's attributeMapping
+const mapClaims = (claims: Record<string, unknown>, provider: OIDCProviderRow): SSOUser => {
+  const mapping = provider.config.attributeMapping ?? {};
+
+  const email = asString(readClaim(claims, 'email', mapping));
+  if (!email) {
+    throw new Error('Identity provider returned no email claim');
+  }
+  if (claims.email_verified === false) {
+    throw new Error('Identity provider reports the email address as unverified');
+  }
+
+  const firstName = asString(readClaim(claims, 'firstName', mapping));
+  const lastName = asString(readClaim(claims, 'lastName', mapping));
+  const displayName = asString(readClaim(claims, 'displayName', mapping))
+    || `${firstName} ${lastName}`.trim()
+    || email;
+
+  const rawGroups = readClaim(claims, 'groups', mapping);
+  const groups = Array.isArray(rawGroups)
+    ? rawGroups.map(String)
+    : rawGroups ? [String(rawGroups)] : [];
+
+  return {
+    id: asString(claims.sub ?? claims.id),
+    email: email.toLowerCase(),
+    firstName,
+    lastName,
+    displayName,
+    groups,
+    attributes: claims,
+  };
+};
+
+const handleCallback = async (providerId: string | undefined, req: Request, url: URL): Promise<Response> => {
+  const clearCookie = stateCookie('', 0);
+
+  try {
+    const idpError = url.searchParams.get('error');
+    if (idpError) {
+      throw new Error(`Identity provider returned ${idpError}: ${url.searchParams.get('error_description') ?? ''}`);
+    }
+
+    const state = url.searchParams.get('state');
+    const code = url.searchParams.get('code');
+    if (!state || !code) {
+      throw new Error('Missing state or code');
+    }
+    if (readCookie(req, STATE_COOKIE) !== state) {
+      throw new Error('State does not belong to this browser');
+    }
+
+    const provider = await loadProvider(providerId);
+
+    // Single use: deleting the row consumes the state
+    const { data: request, error } = await supabaseAdmin
+      .from('sso_oidc_requests')
+      .delete()
+      .eq('state_hash', await sha256Hex(state))
+      .eq('provider_id', provider.id)
+      .gt('expires_at', new Date().toISOString())
+      .select('nonce, code_verifier, redirect_to')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!request) {
+      throw new Error('Unknown or expired state');
+    }
+
+    const metadata = await getMetadata(provider);
+    const tokens = await exchangeCode(provider, metadata, code, request.code_verifier);
+
+    let claims: Record<string, unknown>;
+    if (provider.provider_type === 'oidc') {
+      const idClaims = await verifyIdToken(provider, metadata, tokens.id_token, request.nonce);
+      claims = { ...idClaims };
+
+      // UserInfo may add claims (groups, names) but never overrides the ID token
+      if (metadata.userinfo_endpoint && tokens.access_token) {
+        const userInfo = await fetchUserInfo(metadata.userinfo_endpoint, tokens.access_token);
+        if (userInfo.sub !== idClaims.sub) {
+          throw new Error('UserInfo subject does not match the ID token');
+        }
+        claims = { ...userInfo, ...idClaims };
+      }
+    } else {
+      claims = await fetchUserInfo(metadata.userinfo_endpoint!, tokens.access_token);
+    }
+
+    const redirectUrl = await createHandoffUrl(provider.id, mapClaims(claims, provider), request.redirect_to);
+    return redirect(redirectUrl, clearCookie);
+  } catch (error) {
+    console.error('OIDC login rejected:', error);
+    return redirect(loginErrorUrl('oidc'), clearCookie);
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const segments = url.pathname.split('/').filter(Boolean);
+  const [route, providerId] = segments.slice(segments.indexOf('sso-oidc') + 1);
+
+  try {
+    if (req.method === 'GET' && route === 'login') return await handleLogin(providerId, url);
+    if (req.method === 'GET' && route === 'callback') return await handleCallback(providerId, req, url);
+    if (req.method === 'POST' && route === 'redeem') return await handleRedeem(req);
+
+    return jsonResponse({ error: 'Not found' }, 404);
+  } catch (error) {
+    console.error('sso-oidc request failed:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 400);
+  }
+});
@@ -0,0 +1,287 @@
+/**
+ * SAML 2.0 service provider endpoints used by SSOService
+ *
+ *   GET  /sso-saml/login/:providerId?redirect_to=/path   start SP-initiated login
+ *   POST /sso-saml/acs/:providerId                       assertion consumer service
+ *   GET  /sso-saml/metadata/:providerId                  SP metadata XML for the customer's IdP
+ *   POST /sso-saml/redeem                                exchange a handoff code for a session
+ *
+ * The IdP posts to the ACS without a Supabase JWT, so deploy with
+ * `supabase functions deploy sso-saml --no-verify-jwt`. APP_URL must point
+ * at the web app; validated logins are handed back to APP_URL/auth/sso/callback.
+ */
+
+import { SAML, ValidateInResponseTo, type CacheProvider, type Profile } from 'npm:@node-saml/node-saml@5';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import {
+  createHandoffUrl,
+  handleRedeem,
+  loginErrorUrl,
+  safeRedirectPath,
+  type SSOUser,
+} from '../_shared/ssoHandoff.ts';
+
+const FUNCTION_URL = `${Deno.env.get('SUPABASE_URL')}/functions/v1/sso-saml`;
+
+// How long an AuthnRequest ID stays valid for InResponseTo
+const REQUEST_TTL_MS = 10 * 60 * 1000;
+// Allowed clock drift when checking NotBefore / NotOnOrAfter
+const CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+interface SAMLProviderRow {
+  id: string;
+  provider_type: string;
+  enabled: boolean;
+  customer_id: string | null;
+  config: {
+    entityId?: string;
+    ssoUrl?: string;
+    x509Certificate?: string;
+    idpIssuer?: string;
+    nameIdFormat?: string;
+    attributeMapping?: Record<string, string>;
+  };
+}
+
+// SAML attribute names tried for each SSOUser field when attributeMapping has no entry
+const DEFAULT_ATTRIBUTES: Record<string, string[]> = {
+  email: [
+    'email',
+    'mail',
+    'urn:oid:0.9.2342.19200300.100.1.3',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+  ],
+  firstName: [
+    'firstName',
+    'givenName',
+    'urn:oid:2.5.4.42',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname',
+  ],
+  lastName: [
+    'lastName',
+    'sn',
+    'surname',
+    'urn:oid:2.5.4.4',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname',
+  ],
+  displayName: [
+    'displayName',
+    'urn:oid:2.16.840.1.113730.3.1.241',
+    'http://schemas.microsoft.com/identity/claims/displayname',
+  ],
+  groups: [
+    'groups',
+    'memberOf',
+    'http://schemas.microsoft.com/ws/2008/06/identity/claims/groups',
+  ],
+};
+
+const loadProvider = async (providerId: string | undefined): Promise<SAMLProviderRow> => {
+  if (!providerId) throw new Error('SAML provider not found');
+
+  const { data, error } = await supabaseAdmin
+    .from('sso_providers')
+    .select('id, provider_type, enabled, customer_id, config')
+    .eq('id', providerId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || data.provider_type !== 'saml' || !data.enabled) {
+    throw new Error('SAML provider not found');
+  }
+
+  return data as SAMLProviderRow;
+};
+
+const spEntityId = (provider: SAMLProviderRow): string =>
+  provider.config.entityId || `${FUNCTION_URL}/metadata/${provider.id}`;
+
+// Outstanding AuthnRequest IDs live in sso_saml_requests so every function
+// instance can check InResponseTo; node-saml removes them once used
+const requestCache = (providerId: string): CacheProvider => ({
+  async saveAsync(key, value) {
+    const { error } = await supabaseAdmin
+      .from('sso_saml_requests')
+      .insert({ id: key, provider_id: providerId, created_at: value });
+
+    if (error) throw error;
+    return { value, createdAt: Date.now() };
+  },
+  async getAsync(key) {
+    const { data, error } = await supabaseAdmin
+      .from('sso_saml_requests')
+      .select('created_at')
+      .eq('id', key)
+      .eq('provider_id', providerId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.created_at ?? null;
+  },
+  async removeAsync(key) {
+    if (!key) return null;
+
+    const { data, error } = await supabaseAdmin
+      .from('sso_saml_requests')
+      .delete()
+      .eq('id', key)
+      .select('id')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.id ?? null;
+  },
+});
+
+const createSAML = (provider: SAMLProviderRow): SAML => {
+  if (!provider.config.ssoUrl || !provider.config.x509Certificate) {
+    throw new Error('SAML configuration incomplete');
+  }
+
+  return new SAML({
+    entryPoint: provider.config.ssoUrl,
+    callbackUrl: `${FUNCTION_URL}/acs/${provider.id}`,
+    issuer: spEntityId(provider),
+    audience: spEntityId(provider),
+    idpCert: provider.config.x509Certificate,
+    identifierFormat: provider.config.nameIdFormat ?? 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress',
+    wantAssertionsSigned: true,
+    wantAuthnResponseSigned: false,
+    validateInResponseTo: ValidateInResponseTo.always,
+    requestIdExpirationPeriodMs: REQUEST_TTL_MS,
+    acceptedClockSkewMs: CLOCK_SKEW_MS,
+    cacheProvider: requestCache(provider.id),
+  });
+};
+
+const readAttribute = (
+  profile: Profile,
+  field: string,
+  mapping: Record<string, string>
+): unknown => {
+  const names = mapping[field] ? [mapping[field]] : DEFAULT_ATTRIBUTES[field];
+  for (const name of names) {
+    const value = profile[name];
+    if (value !== undefined && value !== null && value !== '') return value;
+  }
+  return undefined;
+};
+
+const firstString = (value: unknown): string => {
+  if (Array.isArray(value)) return value.length > 0 ? String(value[0]) : '';
+  return value === undefined || value === null ? '' : String(value);
+};
+
+// Map a validated assertion onto SSOUser through the provider's attributeMapping
+const mapProfile = (profile: Profile, provider: SAMLProviderRow): SSOUser => {
+  const mapping = provider.config.attributeMapping ?? {};
+
+  const email = firstString(readAttribute(profile, 'email', mapping))
+    || (profile.nameIDFormat?.endsWith(':emailAddress') ? profile.nameID : '');
+  if (!email) {
+    throw new Error('SAML assertion has no email attribute');
+  }
+
+  const firstName = firstString(readAttribute(profile, 'firstName', mapping));
+  const lastName = firstString(readAttribute(profile, 'lastName', mapping));
+  const displayName = firstString(readAttribute(profile, 'displayName', mapping))
+    || `${firstName} ${lastName}`.trim()
+    || email;
+
+  const rawGroups = readAttribute(profile, 'groups', mapping);
+  const groups = Array.isArray(rawGroups)
+    ? rawGroups.map(String)
+    : rawGroups ? [String(rawGroups)] : [];
+
+  const attributes: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(profile)) {
+    if (typeof value !== 'function') attributes[key] = value;
+  }
+
+  return {
+    id: profile.nameID,
+    email: email.toLowerCase(),
+    firstName,
+    lastName,
+    displayName,
+    groups,
+    attributes,
+  };
+};
+
+const handleLogin = async (providerId: string | undefined, url: URL): Promise<Response> => {
+  const provider = await loadProvider(providerId);
+  const saml = createSAML(provider);
+  const relayState = safeRedirectPath(url.searchParams.get('redirect_to')) ?? '';
+
+  const redirectUrl = await saml.getAuthorizeUrlAsync(relayState, undefined, {});
+  return Response.redirect(redirectUrl, 302);
+};
+
+const handleAssertion = async (providerId: string | undefined, req: Request): Promise<Response> => {
+  try {
+    const provider = await loadProvider(providerId);
+    const form = await req.formData();
+    const samlResponse = form.get('SAMLResponse');
+    if (typeof samlResponse !== 'string') {
+      throw new Error('Missing SAMLResponse');
+    }
+
+    // Checks the XML signature against the IdP certificate, the audience,
+    // NotBefore/NotOnOrAfter and InResponseTo
+    const { profile } = await createSAML(provider).validatePostResponseAsync({ SAMLResponse: samlResponse });
+    if (!profile) {
+      throw new Error('SAML response carried no assertion');
+    }
+
+    if (provider.config.idpIssuer && profile.issuer !== provider.config.idpIssuer) {
+      throw new Error(`Unexpected SAML issuer ${profile.issuer}`);
+    }
+
+    const redirectUrl = await createHandoffUrl(
+      provider.id,
+      mapProfile(profile, provider),
+      safeRedirectPath(form.get('RelayState')?.toString())
+    );
+    return Response.redirect(redirectUrl, 303);
+  } catch (error) {
+    console.error('SAML assertion rejected:', error);
+    return Response.redirect(loginErrorUrl('saml'), 303);
+  }
+};
+
+const handleMetadata = async (providerId: string | undefined): Promise<Response> => {
+  const provider = await loadProvider(providerId);
+  const xml = createSAML(provider).generateServiceProviderMetadata(null, null);
+
+  return new Response(xml, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/samlmetadata+xml',
+      'Content-Disposition': `attachment; filename="winbro-sp-metadata-${provider.id}.xml"`,
+    },
+  });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const segments = url.pathname.split('/').filter(Boolean);
+  const [route, providerId] = segments.slice(segments.indexOf('sso-saml') + 1);
+
+  try {
+    if (req.method === 'GET' && route === 'login') return await handleLogin(providerId, url);
+    if (req.method === 'POST' && route === 'acs') return await handleAssertion(providerId, req);
+    if (req.method === 'GET' && route === 'metadata') return await handleMetadata(providerId);
+    if (req.method === 'POST' && route === 'redeem') return await handleRedeem(req);
+
+    return jsonResponse({ error: 'Not found' }, 404);
+  } catch (error) {
+    console.error('sso-saml request failed:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 400);
+  }
+});
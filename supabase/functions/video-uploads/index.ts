@@ -0,0 +1,201 @@
+/**
+ * Server-side assembly of chunked video uploads
+ *
+ *   POST /video-uploads/:sessionId/assemble   join the stored chunks into one object
+ *                                             and finalize the session
+ *
+ * Callers must own the upload session. Every chunk is read back from the
+ * videos bucket and checked against the size and SHA-256 recorded when it
+ * was uploaded, and the SHA-256 of the assembled file is computed here from
+ * the same bytes. A chunk that fails the check is forgotten, so resuming the
+ * upload sends it again. The stored file must fit the organization's storage
+ * limit; otherwise the response is a 402 with the entitlement.
+ */
+
+import { sha256 } from 'npm:@noble/hashes@1.4.0/sha256';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { supabaseAdmin, sha256Hex } from '../_shared/supabaseAdmin.ts';
+
+const BUCKET = 'videos';
+
+interface UploadSession {
+  session_id: string;
+  user_id: string;
+  mime_type: string;
+  total_size: number;
+  total_chunks: number;
+  is_complete: boolean;
+  expires_at: string;
+  manifest: Record<string, unknown> | null;
+}
+
+interface UploadChunk {
+  chunk_index: number;
+  size: number;
+  checksum: string;
+  storage_path: string;
+}
+
+class ChunkMismatchError extends Error {
+  constructor(readonly chunkIndex: number) {
+    super(`Chunk ${chunkIndex} does not match what was uploaded; upload it again`);
+  }
+}
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+
+const authenticate = async (req: Request): Promise<string | null> => {
+  const jwt = /^Bearer\s+(.+)$/i.exec(req.headers.get('Authorization') ?? '')?.[1];
+  if (!jwt) return null;
+
+  const { data: { user } } = await supabaseAdmin.auth.getUser(jwt);
+  return user?.id ?? null;
+};
+
+/**
+ * Stream the chunks, in order, into one object next to them. Chunks are read
+ * one at a time, so memory use stays at one chunk whatever the file size.
+ */
+const assemble = async (session: UploadSession, chunks: UploadChunk[]): Promise<{ path: string; checksum: string }> => {
+  const path = `${session.session_id}/source`;
+  const hash = sha256.create();
+  let mismatch: ChunkMismatchError | null = null;
+
+  async function* readChunks(): AsyncGenerator<Uint8Array> {
+    for (const chunk of chunks) {
+      const { data, error } = await supabaseAdmin.storage.from(BUCKET).download(chunk.storage_path);
+      const bytes = error ? null : new Uint8Array(await data.arrayBuffer());
+
+      if (!bytes || bytes.length !== chunk.size || (await sha256Hex(bytes)) !== chunk.checksum) {
+        mismatch = new ChunkMismatchError(chunk.chunk_index);
+        throw mismatch;
+      }
+
+      hash.update(bytes);
+      yield bytes;
+    }
+  }
+
+  try {
+    const { error } = await supabaseAdmin.storage
+      .from(BUCKET)
+      .upload(path, ReadableStream.from(readChunks()), {
+        contentType: session.mime_type,
+        upsert: true,
+        duplex: 'half',
+      });
+    if (error) throw error;
+  } catch (error) {
+    throw mismatch ?? error;
+  }
+  if (mismatch) throw mismatch;
+
+  return { path, checksum: toHex(hash.digest()) };
+};
+
+const assembleUpload = async (session: UploadSession): Promise<Response> => {
+  if (session.is_complete) {
+    return jsonResponse({ manifest: session.manifest });
+  }
+  if (new Date(session.expires_at) <= new Date()) {
+    return jsonResponse({ error: 'Upload session has expired' }, 409);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('video_upload_chunks')
+    .select('chunk_index, size, checksum, storage_path')
+    .eq('session_id', session.session_id)
+    .lt('chunk_index', session.total_chunks)
+    .order('chunk_index');
+  if (error) throw error;
+
+  const chunks = (data ?? []) as UploadChunk[];
+  if (chunks.length !== session.total_chunks || chunks.some((chunk, index) => chunk.chunk_index !== index)) {
+    return jsonResponse({ error: `Upload incomplete: ${chunks.length} of ${session.total_chunks} chunks stored` }, 409);
+  }
+
+  const storedBytes = chunks.reduce((sum, chunk) => sum + chunk.size, 0);
+  if (storedBytes !== session.total_size) {
+    return jsonResponse({ error: `Size mismatch: stored ${storedBytes} bytes, expected ${session.total_size}` }, 409);
+  }
+
+  let assembled: { path: string; checksum: string };
+  try {
+    assembled = await assemble(session, chunks);
+  } catch (error) {
+    if (!(error instanceof ChunkMismatchError)) throw error;
+
+    const { error: deleteError } = await supabaseAdmin
+      .from('video_upload_chunks')
+      .delete()
+      .eq('session_id', session.session_id)
+      .eq('chunk_index', error.chunkIndex);
+    if (deleteError) throw deleteError;
+
+    return jsonResponse({ error: error.message, chunkIndex: error.chunkIndex }, 422);
+  }
+
+  const { data: manifest, error: completeError } = await supabaseAdmin.rpc('complete_video_upload', {
+    p_session_id: session.session_id,
+    p_storage_path: assembled.path,
+    p_checksum: assembled.checksum,
+  });
+  if (completeError) {
+    // enforce_plan_limit: the stored file does not fit the storage limit.
+    // Drop the assembled object so it stops counting; the chunks stay for a retry.
+    if (completeError.code === '53400') {
+      const { error: removeError } = await supabaseAdmin.storage.from(BUCKET).remove([assembled.path]);
+      if (removeError) console.error(`removing ${assembled.path} failed:`, removeError);
+
+      return jsonResponse({ error: completeError.message, code: completeError.code, details: completeError.details }, 402);
+    }
+    throw completeError;
+  }
+
+  // The assembled object replaces the chunks
+  const { error: removeError } = await supabaseAdmin.storage
+    .from(BUCKET)
+    .remove(chunks.map(chunk => chunk.storage_path));
+  if (removeError) console.error(`removing chunks of ${session.session_id} failed:`, removeError);
+
+  return jsonResponse({ manifest });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const segments = new URL(req.url).pathname.split('/').filter(Boolean);
+  const [sessionId, action] = segments.slice(segments.indexOf('video-uploads') + 1);
+
+  if (req.method !== 'POST' || !sessionId || action !== 'assemble') {
+    return jsonResponse({ error: 'Not found' }, 404);
+  }
+
+  try {
+    const userId = await authenticate(req);
+    if (!userId) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    // Same response for missing and foreign sessions
+    const { data: session, error } = await supabaseAdmin
+      .from('video_upload_sessions')
+      .select('session_id, user_id, mime_type, total_size, total_chunks, is_complete, expires_at, manifest')
+      .eq('session_id', decodeURIComponent(sessionId))
+      .maybeSingle();
+    if (error) throw error;
+    if (!session || session.user_id !== userId) {
+      return jsonResponse({ error: 'Upload session not found' }, 404);
+    }
+
+    return await assembleUpload(session as UploadSession);
+  } catch (error) {
+    console.error(`video-uploads ${action} failed:`, error);
+    return jsonResponse({ error: 'Failed to assemble video upload' }, 500);
+  }
+});
@@ -0,0 +1,134 @@
+/**
+ * Minimal built-in xAPI learning record store. The app posts statements
+ * generated from learning analytics events (XAPIService); customers read
+ * them, or push their own, with the LRS key and secret from their
+ * organization's xapi_lrs_configs row as Basic auth. Statements are also
+ * forwarded to the organization's own LRS when one is configured.
+ *
+ *   GET  /xapi/about                        LRS version
+ *   POST /xapi/statements                   store one statement or an array
+ *   PUT  /xapi/statements?statementId=:id   store one statement with that id
+ *   GET  /xapi/statements                   query, or fetch by statementId
+ *
+ * Customer systems send Basic credentials rather than a Supabase JWT, so
+ * deploy with `supabase functions deploy xapi --no-verify-jwt`.
+ */
+
+import { corsHeaders } from '../_shared/cors.ts';
+import {
+  authenticate,
+  forwardPending,
+  LRSError,
+  queryStatements,
+  storeStatements,
+  XAPI_VERSION,
+  type LRSContext,
+} from './lrs.ts';
+
+const FUNCTION_URL = `${Deno.env.get('SUPABASE_URL')}/functions/v1/xapi`;
+
+const xapiCorsHeaders = {
+  ...corsHeaders,
+  'Access-Control-Allow-Headers': `${corsHeaders['Access-Control-Allow-Headers']}, x-experience-api-version`,
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+  'Access-Control-Expose-Headers': 'x-experience-api-version, x-experience-api-consistent-through',
+};
+
+const xapiResponse = (body: unknown, status = 200, headers: Record<string, string> = {}): Response =>
+  new Response(body === null ? null : JSON.stringify(body), {
+    status,
+    headers: {
+      ...xapiCorsHeaders,
+      'Content-Type': 'application/json',
+      'X-Experience-API-Version': XAPI_VERSION,
+      ...headers,
+    },
+  });
+
+const readBody = async (req: Request): Promise<unknown> => {
+  try {
+    return await req.json();
+  } catch {
+    throw new LRSError(400, 'Request body must be JSON');
+  }
+};
+
+// Forwarding must not fail the request: the statements are already stored
+// and will be retried
+const forward = async (ctx: LRSContext): Promise<void> => {
+  try {
+    await forwardPending(ctx);
+  } catch (error) {
+    console.error('xapi forward failed:', error);
+  }
+};
+
+const route = async (req: Request, url: URL, resource: string): Promise<Response> => {
+  if (resource === 'about' && req.method === 'GET') {
+    return xapiResponse({ version: [XAPI_VERSION] });
+  }
+
+  if (resource !== 'statements') {
+    throw new LRSError(404, `No ${req.method} endpoint for /${resource}`);
+  }
+
+  const ctx = await authenticate(req);
+
+  if (req.method === 'GET') {
+    const result = await queryStatements(ctx, url.searchParams, `${FUNCTION_URL}/statements`);
+    if (result === null) throw new LRSError(404, 'Statement not found');
+
+    return xapiResponse(result, 200, { 'X-Experience-API-Consistent-Through': new Date().toISOString() });
+  }
+
+  if (req.method === 'POST') {
+    const body = await readBody(req);
+    const ids = await storeStatements(ctx, Array.isArray(body) ? body : [body]);
+    await forward(ctx);
+    return xapiResponse(ids);
+  }
+
+  if (req.method === 'PUT') {
+    const statementId = url.searchParams.get('statementId');
+    if (!statementId) throw new LRSError(400, 'statementId is required');
+
+    const body = await readBody(req);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new LRSError(400, 'PUT takes a single statement');
+    }
+    const statement = body as Record<string, unknown>;
+    if (statement.id !== undefined && String(statement.id).toLowerCase() !== statementId.toLowerCase()) {
+      throw new LRSError(400, 'Statement id does not match statementId');
+    }
+
+    await storeStatements(ctx, [{ ...statement, id: statementId }]);
+    await forward(ctx);
+    return xapiResponse(null, 204);
+  }
+
+  throw new LRSError(405, `${req.method} is not supported on /statements`);
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: xapiCorsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const segments = url.pathname.split('/').filter(Boolean);
+  const [resource] = segments.slice(segments.indexOf('xapi') + 1);
+
+  try {
+    return await route(req, url, resource ?? '');
+  } catch (error) {
+    if (error instanceof LRSError) {
+      const headers: Record<string, string> = error.status === 401
+        ? { 'WWW-Authenticate': 'Basic realm="xAPI"' }
+        : {};
+      return xapiResponse({ error: error.message }, error.status, headers);
+    }
+
+    console.error('xapi request failed:', error);
+    return xapiResponse({ error: 'Internal error' }, 500);
+  }
+});
@@ -0,0 +1,373 @@
+import { supabaseAdmin, tokensMatch } from '../_shared/supabaseAdmin.ts';
+
+export const XAPI_VERSION = '1.0.3';
+
+const APP_URL = Deno.env.get('APP_URL') ?? '';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const VOIDED_VERB = 'http://adlnet.gov/expapi/verbs/voided';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+// Statements forwarded to the customer LRS per request, and how often a
+// statement is retried before it is left for an admin to look at
+const FORWARD_BATCH_SIZE = 50;
+const MAX_FORWARD_ATTEMPTS = 10;
+
+// xapi_lrs_configs row
+export interface LRSConfigRow {
+  organization_id: string;
+  enabled: boolean;
+  endpoint: string;
+  auth_username: string;
+  auth_password: string;
+  lrs_key: string;
+  lrs_secret: string;
+}
+
+// Who is calling: a signed-in learner (Supabase JWT) or the customer's own
+// systems (built-in LRS key and secret)
+export interface LRSContext {
+  organizationId: string | null;
+  userId: string | null;
+  config: LRSConfigRow | null;
+}
+
+export type Statement = Record<string, unknown>;
+
+// Error carried back to the client as { error } with an HTTP status
+export class LRSError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'LRSError';
+  }
+}
+
+const CONFIG_COLUMNS = 'organization_id, enabled, endpoint, auth_username, auth_password, lrs_key, lrs_secret';
+
+const getConfig = async (organizationId: string): Promise<LRSConfigRow | null> => {
+  const { data, error } = await supabaseAdmin
+    .from('xapi_lrs_configs')
+    .select(CONFIG_COLUMNS)
+    .eq('organization_id', organizationId)
+    .eq('enabled', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as LRSConfigRow | null;
+};
+
+const authenticateBasic = async (credentials: string): Promise<LRSContext> => {
+  let key = '';
+  let secret = '';
+  try {
+    [key, secret] = atob(credentials).split(':', 2);
+  } catch {
+    throw new LRSError(401, 'Invalid credentials');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('xapi_lrs_configs')
+    .select(CONFIG_COLUMNS)
+    .eq('lrs_key', key ?? '')
+    .eq('enabled', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || !secret || !(await tokensMatch(secret, data.lrs_secret))) {
+    throw new LRSError(401, 'Invalid credentials');
+  }
+
+  return { organizationId: data.organization_id, userId: null, config: data as LRSConfigRow };
+};
+
+const authenticateUser = async (jwt: string): Promise<LRSContext> => {
+  const { data: { user }, error } = await supabaseAdmin.auth.getUser(jwt);
+  if (error || !user) {
+    throw new LRSError(401, 'Invalid session');
+  }
+
+  // Learners record into the first organization they joined
+  const { data: membership, error: membershipError } = await supabaseAdmin
+    .from('user_organizations')
+    .select('organization_id')
+    .eq('user_id', user.id)
+    .order('joined_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (membershipError) throw membershipError;
+
+  const organizationId = membership?.organization_id ?? null;
+  return {
+    organizationId,
+    userId: user.id,
+    config: organizationId ? await getConfig(organizationId) : null,
+  };
+};
+
+export const authenticate = async (req: Request): Promise<LRSContext> => {
+  const header = req.headers.get('Authorization') ?? '';
+  const basic = /^Basic\s+(.+)$/i.exec(header)?.[1];
+  if (basic) return authenticateBasic(basic);
+
+  const bearer = /^Bearer\s+(.+)$/i.exec(header)?.[1];
+  if (bearer) return authenticateUser(bearer);
+
+  throw new LRSError(401, 'Authorization required');
+};
+
+const learnerAgent = (userId: string) => ({
+  objectType: 'Agent',
+  account: { homePage: APP_URL, name: userId },
+});
+
+const authorityAgent = (organizationId: string) => ({
+  objectType: 'Agent',
+  name: 'Winbro Training Reels',
+  account: { homePage: APP_URL, name: organizationId },
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Check the parts of the statement the LRS relies on and fill in id,
+// timestamp, stored and authority. Learners can only make statements about
+// themselves, so their actor is always replaced.
+const prepareStatement = (ctx: LRSContext, input: unknown, index: number, stored: string): Statement => {
+  const where = `statement ${index}`;
+  if (!isObject(input)) throw new LRSError(400, `${where} must be an object`);
+  if (!isObject(input.actor)) throw new LRSError(400, `${where}: actor is required`);
+  if (!isObject(input.verb) || typeof input.verb.id !== 'string') {
+    throw new LRSError(400, `${where}: verb.id is required`);
+  }
+  if (!isObject(input.object)) throw new LRSError(400, `${where}: object is required`);
+  if (input.id !== undefined && (typeof input.id !== 'string' || !UUID_PATTERN.test(input.id))) {
+    throw new LRSError(400, `${where}: id must be a UUID`);
+  }
+  if (input.timestamp !== undefined && Number.isNaN(Date.parse(String(input.timestamp)))) {
+    throw new LRSError(400, `${where}: timestamp is not a valid date`);
+  }
+
+  return {
+    ...input,
+    id: (input.id as string | undefined)?.toLowerCase() ?? crypto.randomUUID(),
+    actor: ctx.userId ? learnerAgent(ctx.userId) : input.actor,
+    timestamp: (input.timestamp as string | undefined) ?? stored,
+    stored,
+    authority: authorityAgent(ctx.organizationId as string),
+    version: XAPI_VERSION,
+  };
+};
+
+const activityId = (statement: Statement): string | null => {
+  const object = statement.object as Record<string, unknown>;
+  const isActivity = object.objectType === undefined || object.objectType === 'Activity';
+  return isActivity && typeof object.id === 'string' ? object.id : null;
+};
+
+const registration = (statement: Statement): string | null => {
+  const context = statement.context;
+  const value = isObject(context) ? context.registration : undefined;
+  return typeof value === 'string' && UUID_PATTERN.test(value) ? value : null;
+};
+
+/**
+ * Store statements in the built-in LRS and return their ids. A statement id
+ * that is already stored is kept as is, so clients can safely resend.
+ */
+export const storeStatements = async (ctx: LRSContext, input: unknown[]): Promise<string[]> => {
+  if (!ctx.organizationId) {
+    // Not part of an organization: nothing to record the statements against
+    return [];
+  }
+
+  const stored = new Date().toISOString();
+  const statements = input.map((item, index) => prepareStatement(ctx, item, index, stored));
+
+  const ids = statements.map(statement => statement.id as string);
+  if (new Set(ids).size !== ids.length) {
+    throw new LRSError(400, 'Statement ids must be unique within a request');
+  }
+
+  const { error } = await supabaseAdmin
+    .from('xapi_statements')
+    .upsert(
+      statements.map(statement => ({
+        id: statement.id,
+        organization_id: ctx.organizationId,
+        user_id: ctx.userId,
+        verb_id: (statement.verb as { id: string }).id,
+        activity_id: activityId(statement),
+        registration: registration(statement),
+        statement,
+        timestamp: statement.timestamp,
+        stored,
+      })),
+      { onConflict: 'id', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+
+  // Voiding statements mark their target statement as voided
+  const voidedIds = statements
+    .filter(statement => (statement.verb as { id: string }).id === VOIDED_VERB)
+    .map(statement => (statement.object as { id?: unknown }).id)
+    .filter((id): id is string => typeof id === 'string' && UUID_PATTERN.test(id));
+
+  if (voidedIds.length > 0) {
+    const { error: voidError } = await supabaseAdmin
+      .from('xapi_statements')
+      .update({ voided: true })
+      .eq('organization_id', ctx.organizationId)
+      .neq('verb_id', VOIDED_VERB)
+      .in('id', voidedIds);
+
+    if (voidError) throw voidError;
+  }
+
+  return ids;
+};
+
+export interface StatementResult {
+  statements: Statement[];
+  more: string;
+}
+
+/**
+ * GET /statements for one organization. Learners only see their own
+ * statements. Supports statementId, voidedStatementId, verb, activity,
+ * registration, since, until, limit, ascending and a page cursor for `more`.
+ */
+export const queryStatements = async (
+  ctx: LRSContext,
+  params: URLSearchParams,
+  moreBaseUrl: string
+): Promise<Statement | StatementResult | null> => {
+  if (!ctx.organizationId) {
+    return { statements: [], more: '' };
+  }
+
+  let query = supabaseAdmin
+    .from('xapi_statements')
+    .select('statement')
+    .eq('organization_id', ctx.organizationId);
+
+  if (ctx.userId) {
+    query = query.eq('user_id', ctx.userId);
+  }
+
+  const statementId = params.get('statementId');
+  const voidedStatementId = params.get('voidedStatementId');
+  if (statementId || voidedStatementId) {
+    const id = (statementId ?? voidedStatementId) as string;
+    if (!UUID_PATTERN.test(id)) return null;
+
+    const { data, error } = await query
+      .eq('id', id.toLowerCase())
+      .eq('voided', !!voidedStatementId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data?.statement as Statement | undefined) ?? null;
+  }
+
+  const verb = params.get('verb');
+  const activity = params.get('activity');
+  const registrationParam = params.get('registration');
+  const since = params.get('since');
+  const until = params.get('until');
+  if (verb) query = query.eq('verb_id', verb);
+  if (activity) query = query.eq('activity_id', activity);
+  if (registrationParam) {
+    if (!UUID_PATTERN.test(registrationParam)) throw new LRSError(400, 'registration must be a UUID');
+    query = query.eq('registration', registrationParam);
+  }
+  if (since) query = query.gt('stored', since);
+  if (until) query = query.lte('stored', until);
+
+  const requested = Number.parseInt(params.get('limit') ?? '', 10);
+  const limit = !requested || requested < 0 ? DEFAULT_LIMIT : Math.min(requested, MAX_LIMIT);
+  const page = Math.max(0, Number.parseInt(params.get('page') ?? '0', 10) || 0);
+  const ascending = params.get('ascending') === 'true';
+
+  // One extra row tells whether there is a next page
+  const { data, error } = await query
+    .eq('voided', false)
+    .order('stored', { ascending })
+    .order('id', { ascending })
+    .range(page * limit, page * limit + limit);
+
+  if (error) throw error;
+
+  const rows = data ?? [];
+  let more = '';
+  if (rows.length > limit) {
+    const next = new URLSearchParams(params);
+    next.set('limit', String(limit));
+    next.set('page', String(page + 1));
+    more = `${moreBaseUrl}?${next.toString()}`;
+  }
+
+  return {
+    statements: rows.slice(0, limit).map(row => row.statement as Statement),
+    more,
+  };
+};
+
+/**
+ * Send statements the customer LRS has not accepted yet, oldest first.
+ * Failures are recorded on the statement and retried on later requests.
+ */
+export const forwardPending = async (ctx: LRSContext): Promise<void> => {
+  const config = ctx.config;
+  if (!config?.endpoint || !ctx.organizationId) return;
+
+  const { data, error } = await supabaseAdmin
+    .from('xapi_statements')
+    .select('id, statement, forward_attempts')
+    .eq('organization_id', ctx.organizationId)
+    .is('forwarded_at', null)
+    .lt('forward_attempts', MAX_FORWARD_ATTEMPTS)
+    .order('stored', { ascending: true })
+    .limit(FORWARD_BATCH_SIZE);
+
+  if (error) throw error;
+  if (!data || data.length === 0) return;
+
+  let failure: string | null = null;
+  try {
+    const response = await fetch(`${config.endpoint.replace(/\/+$/, '')}/statements`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Experience-API-Version': XAPI_VERSION,
+        Authorization: `Basic ${btoa(`${config.auth_username}:${config.auth_password}`)}`,
+      },
+      body: JSON.stringify(data.map(row => row.statement)),
+    });
+
+    // 409: the LRS already holds statements with these ids
+    if (!response.ok && response.status !== 409) {
+      failure = `LRS responded ${response.status}: ${(await response.text()).slice(0, 500)}`;
+    }
+  } catch (fetchError) {
+    failure = fetchError instanceof Error ? fetchError.message : String(fetchError);
+  }
+
+  const now = new Date().toISOString();
+  for (const row of data) {
+    const { error: updateError } = await supabaseAdmin
+      .from('xapi_statements')
+      .update(failure
+        ? { forward_attempts: row.forward_attempts + 1, forward_error: failure }
+        : { forwarded_at: now, forward_attempts: row.forward_attempts + 1, forward_error: null })
+      .eq('id', row.id);
+
+    if (updateError) throw updateError;
+  }
+
+  if (failure) {
+    console.error(`xapi forward failed for organization ${ctx.organizationId}:`, failure);
+  }
+};
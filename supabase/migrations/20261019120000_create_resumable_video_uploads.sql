@@ -0,0 +1,328 @@
+-- =====================================================
+-- Migration: Resumable chunked video uploads
+-- Created: 2026-10-19T12:00:00Z
+-- Tables: video_upload_sessions, video_upload_chunks
+-- Purpose: Track which chunks of an upload are already stored so the client can
+--          resume an interrupted upload, and verify size/checksum server-side
+--          before the video is handed to the processing pipeline
+-- =====================================================
+
+-- Enable UUID extension (idempotent)
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+-- Enable pgcrypto for checksum verification
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+
+-- Helper function for updated_at (idempotent)
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- TABLE: video_upload_sessions
+-- Purpose: One row per chunked upload of a video file
+-- =====================================================
+CREATE TABLE IF NOT EXISTS video_upload_sessions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  video_id UUID REFERENCES videos(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  session_id TEXT NOT NULL UNIQUE,
+
+  -- File information
+  original_filename TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  total_size BIGINT NOT NULL,
+  chunk_size INTEGER NOT NULL,
+  total_chunks INTEGER NOT NULL,
+
+  -- Progress
+  uploaded_chunks INTEGER DEFAULT 0,
+  uploaded_bytes BIGINT DEFAULT 0,
+  is_complete BOOLEAN DEFAULT false,
+
+  -- Assembly result
+  checksum TEXT, -- SHA-256 over the ordered chunk digests, verified on assembly
+  manifest JSONB, -- ordered chunk paths handed to the transcode worker
+  assembled_at TIMESTAMPTZ,
+
+  -- Lifecycle
+  expires_at TIMESTAMPTZ NOT NULL,
+  last_activity TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT video_upload_sessions_total_size_positive CHECK (total_size > 0),
+  CONSTRAINT video_upload_sessions_chunk_size_positive CHECK (chunk_size > 0),
+  CONSTRAINT video_upload_sessions_total_chunks_positive CHECK (total_chunks > 0)
+);
+
+-- =====================================================
+-- TABLE: video_upload_chunks
+-- Purpose: One row per chunk written to storage, with its size and digest
+-- =====================================================
+CREATE TABLE IF NOT EXISTS video_upload_chunks (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  session_id TEXT REFERENCES video_upload_sessions(session_id) ON DELETE CASCADE NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  size BIGINT NOT NULL,
+  checksum TEXT NOT NULL, -- hex SHA-256 of the chunk bytes
+  storage_path TEXT NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT video_upload_chunks_unique UNIQUE (session_id, chunk_index),
+  CONSTRAINT video_upload_chunks_index_positive CHECK (chunk_index >= 0),
+  CONSTRAINT video_upload_chunks_size_positive CHECK (size > 0),
+  CONSTRAINT video_upload_chunks_checksum_format CHECK (checksum ~ '^[0-9a-f]{64}$')
+);
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+CREATE INDEX IF NOT EXISTS video_upload_sessions_video_id_idx ON video_upload_sessions(video_id);
+CREATE INDEX IF NOT EXISTS video_upload_sessions_resume_idx
+  ON video_upload_sessions(user_id, original_filename, total_size)
+  WHERE is_complete = false;
+CREATE INDEX IF NOT EXISTS video_upload_sessions_expires_at_idx ON video_upload_sessions(expires_at);
+CREATE INDEX IF NOT EXISTS video_upload_chunks_session_id_idx ON video_upload_chunks(session_id, chunk_index);
+
+-- =====================================================
+-- AUTO-UPDATE TRIGGERS
+-- =====================================================
+DROP TRIGGER IF EXISTS update_video_upload_sessions_updated_at ON video_upload_sessions;
+CREATE TRIGGER update_video_upload_sessions_updated_at
+  BEFORE UPDATE ON video_upload_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_video_upload_chunks_updated_at ON video_upload_chunks;
+CREATE TRIGGER update_video_upload_chunks_updated_at
+  BEFORE UPDATE ON video_upload_chunks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- FUNCTIONS: Resumable uploads
+-- =====================================================
+
+-- Chunks of a session that are actually present in storage with the recorded size.
+-- A chunk row without a matching storage object (or with a short write) is not
+-- reported, so the client uploads it again.
+CREATE OR REPLACE FUNCTION get_uploaded_chunks(p_session_id TEXT)
+RETURNS TABLE (
+  chunk_index INTEGER,
+  size BIGINT,
+  checksum TEXT
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM video_upload_sessions s
+    WHERE s.session_id = p_session_id AND s.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Upload session % not found', p_session_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT c.chunk_index, c.size, c.checksum
+  FROM video_upload_chunks c
+  JOIN storage.objects o
+    ON o.bucket_id = 'videos'
+   AND o.name = c.storage_path
+   AND (o.metadata->>'size')::BIGINT = c.size
+  WHERE c.session_id = p_session_id
+  ORDER BY c.chunk_index;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Most recent unfinished, unexpired session of the current user for a file
+CREATE OR REPLACE FUNCTION find_resumable_upload_session(
+  p_original_filename TEXT,
+  p_total_size BIGINT
+)
+RETURNS SETOF video_upload_sessions AS $$
+BEGIN
+  RETURN QUERY
+  SELECT s.*
+  FROM video_upload_sessions s
+  WHERE s.user_id = auth.uid()
+    AND s.original_filename = p_original_filename
+    AND s.total_size = p_total_size
+    AND s.is_complete = false
+    AND s.expires_at > NOW()
+  ORDER BY s.last_activity DESC
+  LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Verify that every chunk is stored, that the stored sizes add up to the
+-- declared file size and that the client's checksum matches the chunk digests,
+-- then freeze the session and return the manifest for the transcode worker.
+CREATE OR REPLACE FUNCTION assemble_video_upload(
+  p_session_id TEXT,
+  p_checksum TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session video_upload_sessions%ROWTYPE;
+  v_stored_chunks INTEGER;
+  v_stored_bytes BIGINT;
+  v_checksum TEXT;
+  v_chunk_paths JSONB;
+  v_manifest JSONB;
+BEGIN
+  SELECT * INTO v_session
+  FROM video_upload_sessions
+  WHERE session_id = p_session_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Upload session % not found', p_session_id;
+  END IF;
+
+  IF v_session.is_complete THEN
+    RETURN v_session.manifest;
+  END IF;
+
+  IF v_session.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Upload session % has expired', p_session_id;
+  END IF;
+
+  SELECT
+    COUNT(*)::INTEGER,
+    COALESCE(SUM((o.metadata->>'size')::BIGINT), 0),
+    encode(digest(string_agg(c.checksum, '' ORDER BY c.chunk_index), 'sha256'), 'hex'),
+    jsonb_agg(c.storage_path ORDER BY c.chunk_index)
+  INTO v_stored_chunks, v_stored_bytes, v_checksum, v_chunk_paths
+  FROM video_upload_chunks c
+  JOIN storage.objects o
+    ON o.bucket_id = 'videos'
+   AND o.name = c.storage_path
+   AND (o.metadata->>'size')::BIGINT = c.size
+  WHERE c.session_id = p_session_id
+    AND c.chunk_index < v_session.total_chunks;
+
+  IF v_stored_chunks <> v_session.total_chunks THEN
+    RAISE EXCEPTION 'Upload incomplete: % of % chunks stored', v_stored_chunks, v_session.total_chunks;
+  END IF;
+
+  IF v_stored_bytes <> v_session.total_size THEN
+    RAISE EXCEPTION 'Size mismatch: stored % bytes, expected %', v_stored_bytes, v_session.total_size;
+  END IF;
+
+  IF v_checksum <> lower(p_checksum) THEN
+    RAISE EXCEPTION 'Checksum mismatch for upload session %', p_session_id;
+  END IF;
+
+  v_manifest := jsonb_build_object(
+    'video_id', v_session.video_id,
+    'session_id', v_session.session_id,
+    'mime_type', v_session.mime_type,
+    'total_size', v_session.total_size,
+    'checksum', v_checksum,
+    'chunk_paths', v_chunk_paths
+  );
+
+  UPDATE video_upload_sessions
+  SET is_complete = true,
+      checksum = v_checksum,
+      manifest = v_manifest,
+      uploaded_chunks = v_session.total_chunks,
+      uploaded_bytes = v_session.total_size,
+      assembled_at = NOW(),
+      last_activity = NOW()
+  WHERE session_id = p_session_id;
+
+  RETURN v_manifest;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =====================================================
+ALTER TABLE video_upload_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE video_upload_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "video_upload_sessions_select_own"
+  ON video_upload_sessions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "video_upload_sessions_insert_own"
+  ON video_upload_sessions FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM videos
+      WHERE videos.id = video_upload_sessions.video_id
+      AND videos.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "video_upload_sessions_update_own"
+  ON video_upload_sessions FOR UPDATE
+  USING (auth.uid() = user_id AND is_complete = false)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "video_upload_chunks_select_own"
+  ON video_upload_chunks FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM video_upload_sessions s
+      WHERE s.session_id = video_upload_chunks.session_id
+      AND s.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "video_upload_chunks_insert_own"
+  ON video_upload_chunks FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM video_upload_sessions s
+      WHERE s.session_id = video_upload_chunks.session_id
+      AND s.user_id = auth.uid()
+      AND s.is_complete = false
+    )
+  );
+
+CREATE POLICY "video_upload_chunks_update_own"
+  ON video_upload_chunks FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM video_upload_sessions s
+      WHERE s.session_id = video_upload_chunks.session_id
+      AND s.user_id = auth.uid()
+      AND s.is_complete = false
+    )
+  );
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON TABLE video_upload_sessions IS 'Chunked upload sessions used to resume interrupted video uploads';
+COMMENT ON COLUMN video_upload_sessions.session_id IS 'Client-visible session identifier, also the storage prefix of the chunks';
+COMMENT ON COLUMN video_upload_sessions.checksum IS 'SHA-256 over the concatenated hex digests of all chunks, in chunk order';
+COMMENT ON COLUMN video_upload_sessions.manifest IS 'Ordered chunk paths and verified size/checksum consumed by the transcode job';
+COMMENT ON TABLE video_upload_chunks IS 'Chunks of an upload session that have been written to storage';
+
+COMMENT ON FUNCTION get_uploaded_chunks IS 'List chunks of an upload session that are present in storage with the expected size';
+COMMENT ON FUNCTION find_resumable_upload_session IS 'Find the latest unfinished upload session of the current user for a file name and size';
+COMMENT ON FUNCTION assemble_video_upload IS 'Verify chunk completeness, total size and checksum, then finalize an upload session';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP FUNCTION IF EXISTS assemble_video_upload(TEXT, TEXT);
+-- DROP FUNCTION IF EXISTS find_resumable_upload_session(TEXT, BIGINT);
+-- DROP FUNCTION IF EXISTS get_uploaded_chunks(TEXT);
+-- DROP TABLE IF EXISTS video_upload_chunks CASCADE;
+-- DROP TABLE IF EXISTS video_upload_sessions CASCADE;
@@ -0,0 +1,237 @@
+-- =====================================================
+-- Migration: Exact totals and keyset pagination for search_videos
+-- Created: 2026-10-19T13:00:00Z
+-- Tables: (none - functions only)
+-- Purpose: Return a total result count (exact, or capped and flagged as an
+--          estimate for very large result sets) with every search page, and
+--          page through results with a stable keyset cursor built from
+--          (relevance_score, created_at, video_id) so that reels published
+--          between two page loads never shift results across pages
+-- =====================================================
+
+-- Supports the keyset tie-breakers used by search_videos
+CREATE INDEX IF NOT EXISTS search_index_created_at_video_id_idx
+  ON search_index(created_at DESC, video_id DESC);
+
+-- =====================================================
+-- FUNCTION: match_search_index
+-- Purpose: Shared filter + ranking step for search_videos and its total count
+-- =====================================================
+CREATE OR REPLACE FUNCTION match_search_index(
+  search_query TEXT DEFAULT '',
+  filter_tags TEXT[] DEFAULT '{}',
+  filter_machine_model TEXT DEFAULT NULL,
+  filter_process_type TEXT DEFAULT NULL,
+  filter_skill_level TEXT DEFAULT NULL,
+  filter_status TEXT DEFAULT 'published',
+  filter_visibility TEXT DEFAULT NULL,
+  filter_author_id UUID DEFAULT NULL,
+  filter_date_from TIMESTAMPTZ DEFAULT NULL,
+  filter_date_to TIMESTAMPTZ DEFAULT NULL,
+  filter_duration_min INTEGER DEFAULT NULL,
+  filter_duration_max INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  video_id UUID,
+  relevance_score REAL
+) AS $$
+  SELECT
+    si.video_id,
+    CASE
+      WHEN trim(search_query) = '' THEN 1.0::REAL
+      ELSE ts_rank(si.search_vector, plainto_tsquery('english', trim(search_query)))
+    END AS relevance_score
+  FROM search_index si
+  WHERE
+    (trim(search_query) = '' OR si.search_vector @@ plainto_tsquery('english', trim(search_query)))
+    AND (array_length(filter_tags, 1) IS NULL OR si.tags && filter_tags)
+    AND (filter_machine_model IS NULL OR si.machine_model ILIKE '%' || filter_machine_model || '%')
+    AND (filter_process_type IS NULL OR si.process_type ILIKE '%' || filter_process_type || '%')
+    AND (filter_skill_level IS NULL OR si.skill_level = filter_skill_level)
+    AND (filter_status IS NULL OR si.status = filter_status)
+    AND (filter_visibility IS NULL OR si.visibility = filter_visibility)
+    AND (filter_author_id IS NULL OR si.author_id = filter_author_id)
+    AND (filter_date_from IS NULL OR si.created_at >= filter_date_from)
+    AND (filter_date_to IS NULL OR si.created_at <= filter_date_to)
+    AND (filter_duration_min IS NULL OR si.duration >= filter_duration_min)
+    AND (filter_duration_max IS NULL OR si.duration <= filter_duration_max);
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- FUNCTION: search_videos (replaces the offset-only version)
+-- =====================================================
+DROP FUNCTION IF EXISTS search_videos(
+  TEXT, TEXT[], TEXT, TEXT, TEXT, TEXT, TEXT, UUID,
+  TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER
+);
+
+-- Keyset pagination applies to relevance ordering and newest-first ordering.
+-- When a cursor is given, offset_count is ignored. Other orderings keep using
+-- offset pagination. Rows past count_cap are not counted; total_count is then
+-- the cap and total_is_estimate is true.
+CREATE OR REPLACE FUNCTION search_videos(
+  search_query TEXT DEFAULT '',
+  filter_tags TEXT[] DEFAULT '{}',
+  filter_machine_model TEXT DEFAULT NULL,
+  filter_process_type TEXT DEFAULT NULL,
+  filter_skill_level TEXT DEFAULT NULL,
+  filter_status TEXT DEFAULT 'published',
+  filter_visibility TEXT DEFAULT NULL,
+  filter_author_id UUID DEFAULT NULL,
+  filter_date_from TIMESTAMPTZ DEFAULT NULL,
+  filter_date_to TIMESTAMPTZ DEFAULT NULL,
+  filter_duration_min INTEGER DEFAULT NULL,
+  filter_duration_max INTEGER DEFAULT NULL,
+  sort_by TEXT DEFAULT 'relevance',
+  sort_order TEXT DEFAULT 'DESC',
+  limit_count INTEGER DEFAULT 20,
+  offset_count INTEGER DEFAULT 0,
+  cursor_score REAL DEFAULT NULL,
+  cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  cursor_video_id UUID DEFAULT NULL,
+  count_mode TEXT DEFAULT 'exact',
+  count_cap INTEGER DEFAULT 10000
+)
+RETURNS TABLE (
+  video_id UUID,
+  title TEXT,
+  description TEXT,
+  thumbnail_url TEXT,
+  duration INTEGER,
+  tags TEXT[],
+  machine_model TEXT,
+  process_type TEXT,
+  tooling TEXT,
+  skill_level TEXT,
+  author_id UUID,
+  view_count INTEGER,
+  bookmark_count INTEGER,
+  created_at TIMESTAMPTZ,
+  relevance_score REAL,
+  highlight_title TEXT,
+  highlight_description TEXT,
+  highlight_transcript TEXT,
+  total_count BIGINT,
+  total_is_estimate BOOLEAN
+) AS $$
+DECLARE
+  query_text TEXT;
+  ts_query tsquery;
+  use_keyset BOOLEAN;
+  v_total BIGINT;
+  v_is_estimate BOOLEAN := false;
+BEGIN
+  query_text := trim(search_query);
+  IF query_text <> '' THEN
+    ts_query := plainto_tsquery('english', query_text);
+  END IF;
+
+  use_keyset := cursor_created_at IS NOT NULL
+    AND cursor_video_id IS NOT NULL
+    AND (
+      (sort_by = 'relevance' AND cursor_score IS NOT NULL)
+      OR (sort_by = 'created_at' AND sort_order = 'DESC')
+    );
+
+  -- Total over the whole filtered set, independent of the cursor position
+  IF count_mode = 'estimated' THEN
+    SELECT COUNT(*) INTO v_total
+    FROM (
+      SELECT 1
+      FROM match_search_index(
+        search_query, filter_tags, filter_machine_model, filter_process_type,
+        filter_skill_level, filter_status, filter_visibility, filter_author_id,
+        filter_date_from, filter_date_to, filter_duration_min, filter_duration_max
+      )
+      LIMIT count_cap + 1
+    ) capped;
+
+    IF v_total > count_cap THEN
+      v_total := count_cap;
+      v_is_estimate := true;
+    END IF;
+  ELSE
+    SELECT COUNT(*) INTO v_total
+    FROM match_search_index(
+      search_query, filter_tags, filter_machine_model, filter_process_type,
+      filter_skill_level, filter_status, filter_visibility, filter_author_id,
+      filter_date_from, filter_date_to, filter_duration_min, filter_duration_max
+    );
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    si.video_id,
+    si.title,
+    si.description,
+    v.thumbnail_url,
+    si.duration,
+    si.tags,
+    si.machine_model,
+    si.process_type,
+    si.tooling,
+    si.skill_level,
+    si.author_id,
+    si.view_count,
+    si.bookmark_count,
+    si.created_at,
+    m.relevance_score,
+    CASE
+      WHEN query_text = '' THEN si.title
+      ELSE ts_headline('english', si.title, ts_query, 'MaxWords=50,MinWords=10')
+    END AS highlight_title,
+    CASE
+      WHEN query_text = '' THEN si.description
+      ELSE ts_headline('english', COALESCE(si.description, ''), ts_query, 'MaxWords=100,MinWords=20')
+    END AS highlight_description,
+    CASE
+      WHEN query_text = '' THEN NULL
+      ELSE ts_headline('english', COALESCE(si.transcript_vector::text, ''), ts_query, 'MaxWords=150,MinWords=30')
+    END AS highlight_transcript,
+    v_total AS total_count,
+    v_is_estimate AS total_is_estimate
+  FROM match_search_index(
+    search_query, filter_tags, filter_machine_model, filter_process_type,
+    filter_skill_level, filter_status, filter_visibility, filter_author_id,
+    filter_date_from, filter_date_to, filter_duration_min, filter_duration_max
+  ) m
+  JOIN search_index si ON si.video_id = m.video_id
+  JOIN videos v ON v.id = si.video_id
+  WHERE
+    NOT use_keyset
+    OR (
+      sort_by = 'relevance'
+      AND (m.relevance_score, si.created_at, si.video_id) < (cursor_score, cursor_created_at, cursor_video_id)
+    )
+    OR (
+      sort_by = 'created_at'
+      AND (si.created_at, si.video_id) < (cursor_created_at, cursor_video_id)
+    )
+  ORDER BY
+    CASE WHEN sort_by = 'relevance' THEN m.relevance_score END DESC,
+    CASE WHEN sort_by = 'created_at' AND sort_order = 'ASC' THEN si.created_at END ASC,
+    CASE WHEN sort_by = 'view_count' AND sort_order = 'ASC' THEN si.view_count END ASC,
+    CASE WHEN sort_by = 'view_count' AND sort_order <> 'ASC' THEN si.view_count END DESC,
+    CASE WHEN sort_by = 'title' AND sort_order = 'ASC' THEN si.title END ASC,
+    CASE WHEN sort_by = 'title' AND sort_order <> 'ASC' THEN si.title END DESC,
+    si.created_at DESC,
+    si.video_id DESC
+  LIMIT limit_count
+  OFFSET CASE WHEN use_keyset THEN 0 ELSE offset_count END;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON FUNCTION match_search_index IS 'Filter and rank search_index rows; shared by search_videos and its total count';
+COMMENT ON FUNCTION search_videos IS 'Search videos with full-text search, faceted filtering, total counts and keyset pagination';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, drop the new functions and re-run the
+-- search_videos definition from 20241213180000_create_search_functionality.sql:
+-- DROP FUNCTION IF EXISTS search_videos(TEXT, TEXT[], TEXT, TEXT, TEXT, TEXT, TEXT, UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER, REAL, TIMESTAMPTZ, UUID, TEXT, INTEGER);
+-- DROP FUNCTION IF EXISTS match_search_index CASCADE;
+-- DROP INDEX IF EXISTS search_index_created_at_video_id_idx;
@@ -0,0 +1,234 @@
+-- =====================================================
+-- Migration: Video playback events and viewing analytics
+-- Created: 2026-10-19T14:00:00Z
+-- Tables: video_playback_events
+-- Purpose: Record play/pause/seek/complete events from the video player and
+--          build VideoAnalytics (completion rate, average watch time and
+--          popular segments) from real viewing data
+-- =====================================================
+
+-- Enable UUID extension (idempotent)
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+-- =====================================================
+-- TABLE: video_playback_events
+-- Purpose: One row per player event within a viewing session
+-- =====================================================
+CREATE TABLE IF NOT EXISTS video_playback_events (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  video_id UUID REFERENCES videos(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+
+  -- Viewing session (one per player load)
+  session_id TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('view', 'play', 'pause', 'seek', 'complete', 'download', 'bookmark', 'share')),
+
+  -- Playback position, in seconds
+  position_seconds DECIMAL(8,3),
+  from_position_seconds DECIMAL(8,3), -- seek origin
+  segment_start_seconds DECIMAL(8,3), -- span played continuously before this event
+  segment_end_seconds DECIMAL(8,3),
+  watched_seconds DECIMAL(10,3), -- total seconds played in this session so far
+
+  -- Client context
+  device_type TEXT,
+  event_data JSONB DEFAULT '{}'::jsonb,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT video_playback_events_session_not_empty CHECK (length(trim(session_id)) > 0),
+  CONSTRAINT video_playback_events_position_valid CHECK (position_seconds IS NULL OR position_seconds >= 0),
+  CONSTRAINT video_playback_events_segment_valid CHECK (
+    (segment_start_seconds IS NULL AND segment_end_seconds IS NULL)
+    OR (segment_start_seconds >= 0 AND segment_end_seconds >= segment_start_seconds)
+  ),
+  CONSTRAINT video_playback_events_watched_valid CHECK (watched_seconds IS NULL OR watched_seconds >= 0)
+);
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+CREATE INDEX IF NOT EXISTS video_playback_events_video_id_idx ON video_playback_events(video_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS video_playback_events_session_idx ON video_playback_events(video_id, session_id);
+CREATE INDEX IF NOT EXISTS video_playback_events_segments_idx ON video_playback_events(video_id)
+  WHERE segment_start_seconds IS NOT NULL;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+-- Keep videos.view_count in step with recorded views
+CREATE OR REPLACE FUNCTION increment_video_view_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.event_type = 'view' THEN
+    UPDATE videos SET view_count = view_count + 1 WHERE id = NEW.video_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS increment_video_view_count_on_event ON video_playback_events;
+CREATE TRIGGER increment_video_view_count_on_event
+  AFTER INSERT ON video_playback_events
+  FOR EACH ROW
+  EXECUTE FUNCTION increment_video_view_count();
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Viewing analytics for one video, shaped like the VideoAnalytics type.
+-- Popular segments split the video into 5-second buckets (or 20 buckets for
+-- videos longer than 100 seconds) and count the sessions that played through
+-- each bucket; the ten most watched buckets are returned.
+CREATE OR REPLACE FUNCTION get_video_analytics(p_video_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_duration INTEGER;
+  v_bucket INTEGER;
+  v_sessions BIGINT;
+  v_result JSONB;
+BEGIN
+  SELECT duration INTO v_duration
+  FROM videos
+  WHERE id = p_video_id
+    AND (user_id = auth.uid() OR (visibility = 'public' AND status = 'published'));
+
+  IF v_duration IS NULL THEN
+    RAISE EXCEPTION 'Video not found or access denied';
+  END IF;
+
+  v_bucket := GREATEST(5, ceil(v_duration / 20.0))::INTEGER;
+
+  SELECT COUNT(DISTINCT session_id) INTO v_sessions
+  FROM video_playback_events
+  WHERE video_id = p_video_id AND event_type IN ('view', 'play');
+
+  SELECT jsonb_build_object(
+    'video_id', p_video_id,
+    'total_views', v_sessions,
+    'unique_viewers', (
+      SELECT COUNT(DISTINCT COALESCE(user_id::text, session_id))
+      FROM video_playback_events
+      WHERE video_id = p_video_id AND event_type IN ('view', 'play')
+    ),
+    'average_watch_time', COALESCE((
+      SELECT round(AVG(session_watched), 1)
+      FROM (
+        SELECT MAX(watched_seconds) AS session_watched
+        FROM video_playback_events
+        WHERE video_id = p_video_id AND watched_seconds IS NOT NULL
+        GROUP BY session_id
+      ) per_session
+    ), 0),
+    'completion_rate', CASE
+      WHEN v_sessions = 0 THEN 0
+      ELSE round((
+        SELECT COUNT(DISTINCT session_id)
+        FROM video_playback_events
+        WHERE video_id = p_video_id AND event_type = 'complete'
+      )::numeric / v_sessions, 4)
+    END,
+    'popular_segments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'start_time', bucket_start,
+        'end_time', bucket_end,
+        'view_count', view_count
+      ) ORDER BY view_count DESC, bucket_start)
+      FROM (
+        SELECT
+          b.bucket_start,
+          LEAST(b.bucket_start + v_bucket, v_duration) AS bucket_end,
+          COUNT(DISTINCT e.session_id) AS view_count
+        FROM generate_series(0, v_duration - 1, v_bucket) AS b(bucket_start)
+        JOIN video_playback_events e
+          ON e.video_id = p_video_id
+          AND e.segment_start_seconds IS NOT NULL
+          AND e.segment_start_seconds < b.bucket_start + v_bucket
+          AND e.segment_end_seconds > b.bucket_start
+        GROUP BY b.bucket_start
+        ORDER BY view_count DESC, b.bucket_start
+        LIMIT 10
+      ) segments
+    ), '[]'::jsonb),
+    'search_queries', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('query', query, 'count', query_count) ORDER BY query_count DESC)
+      FROM (
+        SELECT query, COUNT(*) AS query_count
+        FROM search_analytics
+        WHERE clicked_result_id = p_video_id
+        GROUP BY query
+        ORDER BY query_count DESC
+        LIMIT 10
+      ) queries
+    ), '[]'::jsonb),
+    'device_breakdown', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('device_type', device_type, 'count', device_count) ORDER BY device_count DESC)
+      FROM (
+        SELECT COALESCE(device_type, 'unknown') AS device_type, COUNT(DISTINCT session_id) AS device_count
+        FROM video_playback_events
+        WHERE video_id = p_video_id AND event_type IN ('view', 'play')
+        GROUP BY COALESCE(device_type, 'unknown')
+      ) devices
+    ), '[]'::jsonb),
+    -- The player does not report location; kept for the VideoAnalytics shape
+    'geographic_breakdown', '[]'::jsonb
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =====================================================
+ALTER TABLE video_playback_events ENABLE ROW LEVEL SECURITY;
+
+-- Viewers may record events for videos they can see
+CREATE POLICY "video_playback_events_insert_viewer"
+  ON video_playback_events FOR INSERT
+  WITH CHECK (
+    (user_id IS NULL OR user_id = auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM videos
+      WHERE videos.id = video_playback_events.video_id
+    )
+  );
+
+CREATE POLICY "video_playback_events_select_own"
+  ON video_playback_events FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "video_playback_events_select_video_owner"
+  ON video_playback_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM videos
+      WHERE videos.id = video_playback_events.video_id
+      AND videos.user_id = auth.uid()
+    )
+  );
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON TABLE video_playback_events IS 'Player events (view, play, pause, seek, complete) per viewing session';
+COMMENT ON COLUMN video_playback_events.session_id IS 'Client-generated id for one viewing session of the player';
+COMMENT ON COLUMN video_playback_events.position_seconds IS 'Playback position when the event fired';
+COMMENT ON COLUMN video_playback_events.from_position_seconds IS 'Position before the seek (seek events only)';
+COMMENT ON COLUMN video_playback_events.segment_start_seconds IS 'Start of the span played continuously before this event';
+COMMENT ON COLUMN video_playback_events.segment_end_seconds IS 'End of the span played continuously before this event';
+COMMENT ON COLUMN video_playback_events.watched_seconds IS 'Cumulative seconds played in the session';
+COMMENT ON FUNCTION get_video_analytics IS 'Viewing analytics for a video built from video_playback_events';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP FUNCTION IF EXISTS get_video_analytics(UUID);
+-- DROP TRIGGER IF EXISTS increment_video_view_count_on_event ON video_playback_events;
+-- DROP FUNCTION IF EXISTS increment_video_view_count();
+-- DROP TABLE IF EXISTS video_playback_events CASCADE;
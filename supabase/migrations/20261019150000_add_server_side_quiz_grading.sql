@@ -0,0 +1,329 @@
+-- =====================================================
+-- Migration: Server-side quiz grading with answer-key protection
+-- Created: 2026-10-19T15:00:00Z
+-- Tables: course_quiz_answer_keys (new), course_quizzes, quiz_attempts
+-- Purpose: Move correct answers and explanations out of course_quizzes into
+--          a table only course owners can read, grade attempts in the
+--          database, and enforce max_attempts / pass_threshold from
+--          quiz_configurations when recording attempts
+-- =====================================================
+
+-- Enable UUID extension (idempotent)
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+-- Helper function for updated_at (idempotent)
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- TABLE: course_quiz_answer_keys
+-- Purpose: Answer key per quiz question, readable by the course owner only
+-- =====================================================
+CREATE TABLE IF NOT EXISTS course_quiz_answer_keys (
+  question_id UUID REFERENCES course_quizzes(id) ON DELETE CASCADE PRIMARY KEY,
+
+  -- Answer key
+  correct_answer TEXT NOT NULL, -- single answer or comma-separated for multiple correct
+  explanation TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT course_quiz_answer_keys_correct_answer_not_empty CHECK (length(trim(correct_answer)) > 0)
+);
+
+-- Move existing answers out of the learner-readable table
+INSERT INTO course_quiz_answer_keys (question_id, correct_answer, explanation)
+SELECT id, correct_answer, explanation
+FROM course_quizzes
+ON CONFLICT (question_id) DO NOTHING;
+
+ALTER TABLE course_quizzes DROP COLUMN IF EXISTS correct_answer;
+ALTER TABLE course_quizzes DROP COLUMN IF EXISTS explanation;
+
+-- Auto-update trigger
+DROP TRIGGER IF EXISTS update_course_quiz_answer_keys_updated_at ON course_quiz_answer_keys;
+CREATE TRIGGER update_course_quiz_answer_keys_updated_at
+  BEFORE UPDATE ON course_quiz_answer_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Pass/fail is decided at grading time against the configured threshold
+ALTER TABLE quiz_attempts ADD COLUMN IF NOT EXISTS passed BOOLEAN;
+
+-- Performance indexes
+CREATE INDEX IF NOT EXISTS quiz_attempts_user_quiz_idx ON quiz_attempts(user_id, quiz_id, status);
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Normalise an answer (text or JSON array of text) to a sorted set of
+-- lower-cased, trimmed values so that option order and case do not matter
+CREATE OR REPLACE FUNCTION normalize_quiz_answer(p_answer JSONB)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT value ORDER BY value), '{}')
+  FROM (
+    SELECT lower(trim(elem)) AS value
+    FROM jsonb_array_elements_text(
+      CASE
+        WHEN p_answer IS NULL OR jsonb_typeof(p_answer) = 'null' THEN '[]'::jsonb
+        WHEN jsonb_typeof(p_answer) = 'array' THEN p_answer
+        ELSE jsonb_build_array(p_answer #>> '{}')
+      END
+    ) AS elem
+  ) answers
+  WHERE value <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Grade a quiz attempt and record it. A quiz is the set of course_quizzes
+-- questions sharing the course and module of p_quiz_id. Configuration comes
+-- from quiz_configurations for the quiz, then for the course, then defaults.
+CREATE OR REPLACE FUNCTION grade_quiz_attempt(
+  p_quiz_id UUID,
+  p_answers JSONB,
+  p_time_spent INTEGER DEFAULT 0
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_course_id UUID;
+  v_module_id UUID;
+  v_config RECORD;
+  v_previous_attempts INTEGER;
+  v_question RECORD;
+  v_answer JSONB;
+  v_is_correct BOOLEAN;
+  v_graded JSONB := '[]'::jsonb;
+  v_total_points INTEGER := 0;
+  v_earned_points INTEGER := 0;
+  v_correct_count INTEGER := 0;
+  v_question_count INTEGER := 0;
+  v_score INTEGER;
+  v_passed BOOLEAN;
+  v_attempt_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT course_id, module_id INTO v_course_id, v_module_id
+  FROM course_quizzes
+  WHERE id = p_quiz_id;
+
+  IF v_course_id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  -- Same access rule as course_quizzes_select_course_access, plus enrollment
+  IF NOT EXISTS (
+    SELECT 1 FROM courses
+    WHERE id = v_course_id AND (
+      user_id = v_user_id OR
+      visibility = 'public' OR
+      (visibility = 'organization' AND EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_id = v_user_id AND organization_id = (
+          SELECT organization_id FROM user_profiles WHERE user_id = courses.user_id
+        )
+      )) OR
+      EXISTS (
+        SELECT 1 FROM course_enrollments
+        WHERE course_id = courses.id AND user_id = v_user_id
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found or access denied';
+  END IF;
+
+  SELECT
+    COALESCE(qc.allow_retake, true) AS allow_retake,
+    COALESCE(qc.max_attempts, 3) AS max_attempts,
+    COALESCE(qc.pass_threshold, 80) AS pass_threshold,
+    COALESCE(qc.show_correct_answers, true) AS show_correct_answers,
+    COALESCE(qc.show_explanations, true) AS show_explanations
+  INTO v_config
+  FROM (SELECT 1) defaults
+  LEFT JOIN LATERAL (
+    SELECT *
+    FROM quiz_configurations
+    WHERE course_id = v_course_id AND (quiz_id = p_quiz_id OR quiz_id IS NULL)
+    ORDER BY (quiz_id IS NULL), updated_at DESC
+    LIMIT 1
+  ) qc ON true;
+
+  -- Serialise concurrent submissions by the same learner for this quiz
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::text || ':' || p_quiz_id::text));
+
+  SELECT COUNT(*) INTO v_previous_attempts
+  FROM quiz_attempts
+  WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND status = 'completed';
+
+  IF v_previous_attempts > 0 AND NOT v_config.allow_retake THEN
+    RAISE EXCEPTION 'Retakes are not allowed for this quiz';
+  END IF;
+
+  IF v_previous_attempts >= v_config.max_attempts THEN
+    RAISE EXCEPTION 'Maximum attempts reached (% of %)', v_previous_attempts, v_config.max_attempts;
+  END IF;
+
+  -- Unanswered questions count towards the total and are graded incorrect
+  FOR v_question IN
+    SELECT q.id, q.points, k.correct_answer, k.explanation
+    FROM course_quizzes q
+    LEFT JOIN course_quiz_answer_keys k ON k.question_id = q.id
+    WHERE q.course_id = v_course_id AND q.module_id IS NOT DISTINCT FROM v_module_id
+    ORDER BY q.order_index, q.created_at
+  LOOP
+    SELECT elem INTO v_answer
+    FROM jsonb_array_elements(COALESCE(p_answers, '[]'::jsonb)) AS elem
+    WHERE elem->>'questionId' = v_question.id::text
+    LIMIT 1;
+
+    v_is_correct := v_answer IS NOT NULL
+      AND v_question.correct_answer IS NOT NULL
+      AND cardinality(normalize_quiz_answer(v_answer->'answer')) > 0
+      AND normalize_quiz_answer(v_answer->'answer') = normalize_quiz_answer(
+        to_jsonb(string_to_array(v_question.correct_answer, ','))
+      );
+
+    v_question_count := v_question_count + 1;
+    v_total_points := v_total_points + v_question.points;
+    IF v_is_correct THEN
+      v_correct_count := v_correct_count + 1;
+      v_earned_points := v_earned_points + v_question.points;
+    END IF;
+
+    v_graded := v_graded || jsonb_build_array(
+      jsonb_strip_nulls(jsonb_build_object(
+        'questionId', v_question.id,
+        'answer', COALESCE(v_answer->'answer', 'null'::jsonb),
+        'isCorrect', v_is_correct,
+        'timeSpent', COALESCE((v_answer->>'timeSpent')::INTEGER, 0),
+        'submittedAt', COALESCE(v_answer->>'submittedAt', NOW()::text),
+        'correctAnswer', CASE WHEN v_config.show_correct_answers THEN v_question.correct_answer END,
+        'explanation', CASE WHEN v_config.show_explanations THEN v_question.explanation END
+      ))
+    );
+
+    v_answer := NULL;
+  END LOOP;
+
+  IF v_question_count = 0 THEN
+    RAISE EXCEPTION 'Quiz has no questions';
+  END IF;
+
+  v_score := CASE WHEN v_total_points > 0 THEN round(v_earned_points * 100.0 / v_total_points) ELSE 0 END;
+  v_passed := v_score >= v_config.pass_threshold;
+
+  INSERT INTO quiz_attempts (
+    quiz_id, user_id, course_id, module_id, answers, score, passed,
+    total_points, earned_points, time_spent, completed_at, status
+  ) VALUES (
+    p_quiz_id, v_user_id, v_course_id, v_module_id, v_graded, v_score, v_passed,
+    v_total_points, v_earned_points, GREATEST(COALESCE(p_time_spent, 0), 0), NOW(), 'completed'
+  )
+  RETURNING id INTO v_attempt_id;
+
+  RETURN jsonb_build_object(
+    'attempt_id', v_attempt_id,
+    'quiz_id', p_quiz_id,
+    'course_id', v_course_id,
+    'module_id', v_module_id,
+    'score', v_score,
+    'passed', v_passed,
+    'pass_threshold', v_config.pass_threshold,
+    'total_points', v_total_points,
+    'earned_points', v_earned_points,
+    'total_questions', v_question_count,
+    'correct_answers', v_correct_count,
+    'answers', v_graded,
+    'attempt_number', v_previous_attempts + 1,
+    'max_attempts', v_config.max_attempts,
+    'attempts_remaining', GREATEST(v_config.max_attempts - v_previous_attempts - 1, 0),
+    'can_retake', v_config.allow_retake AND NOT v_passed AND v_previous_attempts + 1 < v_config.max_attempts
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =====================================================
+ALTER TABLE course_quiz_answer_keys ENABLE ROW LEVEL SECURITY;
+
+-- Only the course owner can read or edit the answer key
+CREATE POLICY "course_quiz_answer_keys_select_course_owner"
+  ON course_quiz_answer_keys FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM course_quizzes q
+    JOIN courses c ON c.id = q.course_id
+    WHERE q.id = course_quiz_answer_keys.question_id AND c.user_id = auth.uid()
+  ));
+
+CREATE POLICY "course_quiz_answer_keys_insert_course_owner"
+  ON course_quiz_answer_keys FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM course_quizzes q
+    JOIN courses c ON c.id = q.course_id
+    WHERE q.id = course_quiz_answer_keys.question_id AND c.user_id = auth.uid()
+  ));
+
+CREATE POLICY "course_quiz_answer_keys_update_course_owner"
+  ON course_quiz_answer_keys FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM course_quizzes q
+    JOIN courses c ON c.id = q.course_id
+    WHERE q.id = course_quiz_answer_keys.question_id AND c.user_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM course_quizzes q
+    JOIN courses c ON c.id = q.course_id
+    WHERE q.id = course_quiz_answer_keys.question_id AND c.user_id = auth.uid()
+  ));
+
+CREATE POLICY "course_quiz_answer_keys_delete_course_owner"
+  ON course_quiz_answer_keys FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM course_quizzes q
+    JOIN courses c ON c.id = q.course_id
+    WHERE q.id = course_quiz_answer_keys.question_id AND c.user_id = auth.uid()
+  ));
+
+-- Attempts are written by grade_quiz_attempt only; learners keep read access
+-- to their own attempts but can no longer insert, rescore or delete them
+DROP POLICY IF EXISTS "quiz_attempts_insert_own" ON quiz_attempts;
+DROP POLICY IF EXISTS "quiz_attempts_update_own" ON quiz_attempts;
+DROP POLICY IF EXISTS "quiz_attempts_delete_own" ON quiz_attempts;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON TABLE course_quiz_answer_keys IS 'Correct answers and explanations for quiz questions; readable by the course owner only';
+COMMENT ON COLUMN quiz_attempts.passed IS 'Whether the score met the pass threshold configured when the attempt was graded';
+COMMENT ON COLUMN course_quiz_answer_keys.correct_answer IS 'Correct answer, or comma-separated answers when several options are correct';
+COMMENT ON FUNCTION normalize_quiz_answer IS 'Sorted, lower-cased, trimmed set of answer values for order-insensitive comparison';
+COMMENT ON FUNCTION grade_quiz_attempt IS 'Grade answers against the answer key, enforce attempt limits and record the attempt';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- ALTER TABLE course_quizzes ADD COLUMN IF NOT EXISTS correct_answer TEXT;
+-- ALTER TABLE course_quizzes ADD COLUMN IF NOT EXISTS explanation TEXT;
+-- UPDATE course_quizzes q SET correct_answer = k.correct_answer, explanation = k.explanation
+--   FROM course_quiz_answer_keys k WHERE k.question_id = q.id;
+-- DROP FUNCTION IF EXISTS grade_quiz_attempt(UUID, JSONB, INTEGER);
+-- DROP FUNCTION IF EXISTS normalize_quiz_answer(JSONB);
+-- DROP TABLE IF EXISTS course_quiz_answer_keys CASCADE;
+-- DROP INDEX IF EXISTS quiz_attempts_user_quiz_idx;
+-- ALTER TABLE quiz_attempts DROP COLUMN IF EXISTS passed;
+-- CREATE POLICY "quiz_attempts_insert_own" ON quiz_attempts FOR INSERT WITH CHECK (auth.uid() = user_id);
+-- CREATE POLICY "quiz_attempts_update_own" ON quiz_attempts FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+-- CREATE POLICY "quiz_attempts_delete_own" ON quiz_attempts FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,64 @@
+-- =====================================================
+-- Migration: Storage for rendered certificates
+-- Created: 2026-10-19T16:00:00Z
+-- Tables: storage.buckets, storage.objects
+-- Purpose: Hold the PDF and PNG thumbnail rendered for each certificate,
+--          stored under <user_id>/<certificate_id>.pdf and
+--          <user_id>/<certificate_id>-thumbnail.png
+-- =====================================================
+
+-- =====================================================
+-- BUCKET: certificates
+-- Public read so pdf_url/thumbnail_url work as plain links; object names
+-- contain the certificate UUID
+-- =====================================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'certificates',
+  'certificates',
+  true,
+  10485760, -- 10 MB
+  ARRAY['application/pdf', 'image/png']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =====================================================
+
+-- Recipients may write files for their own certificates only
+CREATE POLICY "certificate_files_insert_own"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'certificates'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+    AND EXISTS (
+      SELECT 1 FROM certificates
+      WHERE certificates.user_id = auth.uid()
+      AND storage.objects.name LIKE auth.uid()::text || '/' || certificates.id::text || '%'
+    )
+  );
+
+CREATE POLICY "certificate_files_update_own"
+  ON storage.objects FOR UPDATE
+  USING (
+    bucket_id = 'certificates'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  )
+  WITH CHECK (
+    bucket_id = 'certificates'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "certificate_files_select_public"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'certificates');
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP POLICY IF EXISTS "certificate_files_select_public" ON storage.objects;
+-- DROP POLICY IF EXISTS "certificate_files_update_own" ON storage.objects;
+-- DROP POLICY IF EXISTS "certificate_files_insert_own" ON storage.objects;
+-- DELETE FROM storage.buckets WHERE id = 'certificates';
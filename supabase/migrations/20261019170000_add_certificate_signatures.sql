@@ -0,0 +1,423 @@
+-- =====================================================
+-- Migration: Signed, tamper-evident certificates
+-- Created: 2026-10-19T17:00:00Z
+-- Tables: certificate_signing_keys, certificates
+-- Purpose: Sign each issued certificate over its main fields (recipient,
+--          course, score, completion date, expiry) with a server-held key,
+--          record revocation reasons, and expose a public verification RPC
+--          and revocation list
+-- =====================================================
+
+-- Enable pgcrypto for HMAC signatures and key generation
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+
+-- =====================================================
+-- TABLE: certificate_signing_keys
+-- Purpose: HMAC keys used to sign certificates. Never readable by clients;
+--          only the SECURITY DEFINER functions below use them.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS certificate_signing_keys (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  secret BYTEA DEFAULT gen_random_bytes(32) NOT NULL,
+  is_active BOOLEAN DEFAULT true NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  retired_at TIMESTAMPTZ,
+
+  -- Constraints
+  CONSTRAINT certificate_signing_keys_secret_length CHECK (length(secret) >= 32)
+);
+
+-- Only one key signs new certificates; retired keys still verify old ones
+CREATE UNIQUE INDEX IF NOT EXISTS certificate_signing_keys_active_idx
+  ON certificate_signing_keys(is_active) WHERE is_active;
+
+INSERT INTO certificate_signing_keys (is_active)
+SELECT true
+WHERE NOT EXISTS (SELECT 1 FROM certificate_signing_keys WHERE is_active);
+
+-- =====================================================
+-- TABLE: certificates (signature and revocation columns)
+-- =====================================================
+ALTER TABLE certificates
+  ADD COLUMN IF NOT EXISTS signature TEXT,
+  ADD COLUMN IF NOT EXISTS signature_key_id UUID REFERENCES certificate_signing_keys(id),
+  ADD COLUMN IF NOT EXISTS signed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS revocation_reason TEXT,
+  ADD COLUMN IF NOT EXISTS revocation_note TEXT;
+
+ALTER TABLE certificates
+  DROP CONSTRAINT IF EXISTS certificates_revocation_reason_valid;
+ALTER TABLE certificates
+  ADD CONSTRAINT certificates_revocation_reason_valid CHECK (
+    revocation_reason IS NULL
+    OR revocation_reason IN ('issued_in_error', 'superseded', 'misconduct', 'course_withdrawn', 'other')
+  );
+
+ALTER TABLE certificates
+  DROP CONSTRAINT IF EXISTS certificates_revocation_consistent;
+ALTER TABLE certificates
+  ADD CONSTRAINT certificates_revocation_consistent CHECK (
+    (status = 'revoked') = (revoked_at IS NOT NULL AND revocation_reason IS NOT NULL)
+  ) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS certificates_revoked_at_idx ON certificates(revoked_at DESC)
+  WHERE status = 'revoked';
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Canonical text of the signed fields. JSONB output has a fixed key order,
+-- and timestamps are rendered in UTC so the payload does not depend on the
+-- session time zone.
+CREATE OR REPLACE FUNCTION certificate_signing_payload(p_certificate certificates)
+RETURNS TEXT AS $$
+  SELECT jsonb_build_object(
+    'id', p_certificate.id,
+    'certificate_number', p_certificate.certificate_number,
+    'verification_code', p_certificate.verification_code,
+    'user_id', p_certificate.user_id,
+    'recipient_name', p_certificate.recipient_name,
+    'course_id', p_certificate.course_id,
+    'course_title', p_certificate.course_title,
+    'score', p_certificate.score,
+    'completion_date', to_char(p_certificate.completion_date AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+    'expires_at', to_char(p_certificate.expires_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+    'issued_by', p_certificate.issued_by
+  )::text;
+$$ LANGUAGE sql STABLE;
+
+-- Hex HMAC-SHA256 of the payload with the given key
+CREATE OR REPLACE FUNCTION compute_certificate_signature(p_certificate certificates, p_key_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_secret BYTEA;
+BEGIN
+  SELECT secret INTO v_secret FROM certificate_signing_keys WHERE id = p_key_id;
+
+  IF v_secret IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN encode(hmac(convert_to(certificate_signing_payload(p_certificate), 'UTF8'), v_secret, 'sha256'), 'hex');
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Sign certificates as they are issued. Signatures are never recomputed on
+-- update, so any later edit of a signed field shows up as tampering.
+CREATE OR REPLACE FUNCTION sign_certificate_on_insert()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_key_id UUID;
+BEGIN
+  SELECT id INTO v_key_id FROM certificate_signing_keys WHERE is_active;
+
+  IF v_key_id IS NULL THEN
+    RAISE EXCEPTION 'No active certificate signing key';
+  END IF;
+
+  NEW.signature_key_id := v_key_id;
+  NEW.signed_at := NOW();
+  NEW.signature := compute_certificate_signature(NEW, v_key_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Revocation is permanent and always carries a reason, a time and who did it
+CREATE OR REPLACE FUNCTION enforce_certificate_revocation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'revoked' THEN
+    IF NEW.status IS DISTINCT FROM 'revoked'
+       OR NEW.revoked_at IS DISTINCT FROM OLD.revoked_at
+       OR NEW.revocation_reason IS DISTINCT FROM OLD.revocation_reason THEN
+      RAISE EXCEPTION 'Revoked certificates cannot be reinstated or changed';
+    END IF;
+  ELSIF NEW.status = 'revoked' THEN
+    NEW.revoked_at := NOW();
+    NEW.revoked_by := auth.uid();
+    NEW.revocation_reason := COALESCE(NEW.revocation_reason, 'other');
+  ELSE
+    NEW.revoked_at := NULL;
+    NEW.revoked_by := NULL;
+    NEW.revocation_reason := NULL;
+    NEW.revocation_note := NULL;
+  END IF;
+
+  -- Signatures are only ever written on insert
+  NEW.signature := OLD.signature;
+  NEW.signature_key_id := OLD.signature_key_id;
+  NEW.signed_at := OLD.signed_at;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Revoke a certificate. Allowed for the recipient, the course owner and admins.
+CREATE OR REPLACE FUNCTION revoke_certificate(
+  p_certificate_id UUID,
+  p_reason TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS certificates AS $$
+DECLARE
+  v_certificate certificates;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO v_certificate FROM certificates WHERE id = p_certificate_id FOR UPDATE;
+
+  IF v_certificate.id IS NULL THEN
+    RAISE EXCEPTION 'Certificate not found';
+  END IF;
+
+  IF NOT (
+    v_certificate.user_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM courses WHERE courses.id = v_certificate.course_id AND courses.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to revoke this certificate';
+  END IF;
+
+  IF v_certificate.status = 'revoked' THEN
+    RAISE EXCEPTION 'Certificate is already revoked';
+  END IF;
+
+  UPDATE certificates
+  SET status = 'revoked',
+      revocation_reason = p_reason,
+      revocation_note = p_note
+  WHERE id = p_certificate_id
+  RETURNING * INTO v_certificate;
+
+  RETURN v_certificate;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Public verification by code. Reports one of: valid, tampered, revoked,
+-- expired, not_found. A tampered certificate is reported as tampered even if
+-- it was also revoked, since its printed details cannot be trusted.
+CREATE OR REPLACE FUNCTION verify_certificate(p_verification_code TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_certificate certificates;
+  v_status TEXT;
+  v_message TEXT;
+BEGIN
+  SELECT * INTO v_certificate
+  FROM certificates
+  WHERE verification_code = upper(trim(p_verification_code));
+
+  IF v_certificate.id IS NULL THEN
+    RETURN jsonb_build_object(
+      'status', 'not_found',
+      'is_valid', false,
+      'verification_message', 'No certificate was issued with this verification code',
+      'certificate', NULL,
+      'revocation', NULL,
+      'verified_at', NOW()
+    );
+  END IF;
+
+  IF v_certificate.signature IS NULL
+     OR v_certificate.signature IS DISTINCT FROM compute_certificate_signature(v_certificate, v_certificate.signature_key_id) THEN
+    v_status := 'tampered';
+    v_message := 'The certificate details do not match what was issued';
+  ELSIF v_certificate.status = 'revoked' THEN
+    v_status := 'revoked';
+    v_message := 'This certificate has been revoked';
+  ELSIF v_certificate.status = 'expired' OR v_certificate.expires_at <= NOW() THEN
+    v_status := 'expired';
+    v_message := 'This certificate has expired';
+  ELSE
+    v_status := 'valid';
+    v_message := 'Certificate is valid and active';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', v_status,
+    'is_valid', v_status = 'valid',
+    'verification_message', v_message,
+    'certificate', CASE WHEN v_status = 'tampered' THEN NULL ELSE jsonb_build_object(
+      'id', v_certificate.id,
+      'certificate_number', v_certificate.certificate_number,
+      'verification_code', v_certificate.verification_code,
+      'title', v_certificate.title,
+      'recipient_name', v_certificate.recipient_name,
+      'course_title', v_certificate.course_title,
+      'completion_date', v_certificate.completion_date,
+      'score', v_certificate.score,
+      'issued_by', v_certificate.issued_by,
+      'status', CASE WHEN v_status = 'expired' THEN 'expired' ELSE v_certificate.status END,
+      'expires_at', v_certificate.expires_at,
+      'signed_at', v_certificate.signed_at
+    ) END,
+    'revocation', CASE WHEN v_certificate.status = 'revoked' THEN jsonb_build_object(
+      'reason', v_certificate.revocation_reason,
+      'note', v_certificate.revocation_note,
+      'revoked_at', v_certificate.revoked_at
+    ) END,
+    'verified_at', NOW()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Public revocation list, newest first
+CREATE OR REPLACE FUNCTION get_certificate_revocation_list(p_since TIMESTAMPTZ DEFAULT NULL)
+RETURNS TABLE (
+  certificate_number TEXT,
+  verification_code TEXT,
+  revoked_at TIMESTAMPTZ,
+  revocation_reason TEXT
+) AS $$
+  SELECT c.certificate_number, c.verification_code, c.revoked_at, c.revocation_reason
+  FROM certificates c
+  WHERE c.status = 'revoked'
+    AND (p_since IS NULL OR c.revoked_at >= p_since)
+  ORDER BY c.revoked_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Certificates are only issued by the completion trigger, which now runs
+-- with definer rights since learners can no longer insert certificates
+CREATE OR REPLACE FUNCTION create_certificate_on_completion()
+RETURNS TRIGGER AS $$
+DECLARE
+  course_record RECORD;
+  user_record RECORD;
+  cert_number TEXT;
+  verification_code TEXT;
+BEGIN
+  -- Only create certificate if course is being completed (progress = 100)
+  IF NEW.progress_percentage = 100 AND (OLD.progress_percentage IS NULL OR OLD.progress_percentage < 100) THEN
+
+    -- Get course and user details
+    SELECT title, enable_certificates, pass_threshold
+    INTO course_record
+    FROM courses
+    WHERE id = NEW.course_id;
+
+    SELECT full_name, email
+    INTO user_record
+    FROM user_profiles
+    WHERE user_id = NEW.user_id;
+
+    -- Only create certificate if enabled and user passed
+    IF course_record.enable_certificates AND
+       (NEW.score IS NULL OR NEW.score >= course_record.pass_threshold) THEN
+
+      -- Generate unique identifiers
+      cert_number := generate_certificate_number();
+      verification_code := generate_verification_code();
+
+      -- Create certificate (signed by sign_certificate_on_insert)
+      INSERT INTO certificates (
+        user_id,
+        course_id,
+        enrollment_id,
+        certificate_number,
+        title,
+        recipient_name,
+        course_title,
+        completion_date,
+        score,
+        issued_by,
+        verification_code
+      ) VALUES (
+        NEW.user_id,
+        NEW.course_id,
+        NEW.id,
+        cert_number,
+        'Certificate of Completion',
+        COALESCE(user_record.full_name, 'Student'),
+        course_record.title,
+        NEW.completed_at,
+        COALESCE(NEW.score, 0),
+        'Winbro Training Reels',
+        verification_code
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- BACKFILL: sign certificates issued before this migration
+-- =====================================================
+UPDATE certificates
+SET revoked_at = COALESCE(revoked_at, updated_at),
+    revocation_reason = COALESCE(revocation_reason, 'other')
+WHERE status = 'revoked';
+
+UPDATE certificates c
+SET signature_key_id = k.id,
+    signed_at = NOW(),
+    signature = compute_certificate_signature(c, k.id)
+FROM certificate_signing_keys k
+WHERE k.is_active AND c.signature IS NULL;
+
+ALTER TABLE certificates VALIDATE CONSTRAINT certificates_revocation_consistent;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+DROP TRIGGER IF EXISTS sign_certificate_before_insert ON certificates;
+CREATE TRIGGER sign_certificate_before_insert
+  BEFORE INSERT ON certificates
+  FOR EACH ROW
+  EXECUTE FUNCTION sign_certificate_on_insert();
+
+DROP TRIGGER IF EXISTS enforce_certificate_revocation_before_update ON certificates;
+CREATE TRIGGER enforce_certificate_revocation_before_update
+  BEFORE UPDATE ON certificates
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_certificate_revocation();
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =====================================================
+ALTER TABLE certificate_signing_keys ENABLE ROW LEVEL SECURITY;
+-- No policies: signing keys are only reachable through the functions above
+
+-- A self-inserted certificate would be signed like a real one
+DROP POLICY IF EXISTS "certificates_insert_own" ON certificates;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON TABLE certificate_signing_keys IS 'HMAC keys for certificate signatures; only used by SECURITY DEFINER functions';
+COMMENT ON COLUMN certificates.signature IS 'Hex HMAC-SHA256 over certificate_signing_payload, written once at issue';
+COMMENT ON COLUMN certificates.signature_key_id IS 'Signing key used for signature (references certificate_signing_keys)';
+COMMENT ON COLUMN certificates.revocation_reason IS 'Why the certificate was revoked: issued_in_error, superseded, misconduct, course_withdrawn, other';
+COMMENT ON FUNCTION verify_certificate IS 'Public certificate check: valid, tampered, revoked, expired or not_found';
+COMMENT ON FUNCTION get_certificate_revocation_list IS 'Public list of revoked certificates';
+COMMENT ON FUNCTION revoke_certificate IS 'Revoke a certificate with a reason (recipient, course owner or admin)';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- CREATE POLICY "certificates_insert_own" ON certificates FOR INSERT WITH CHECK (auth.uid() = user_id);
+-- DROP TRIGGER IF EXISTS enforce_certificate_revocation_before_update ON certificates;
+-- DROP TRIGGER IF EXISTS sign_certificate_before_insert ON certificates;
+-- DROP FUNCTION IF EXISTS get_certificate_revocation_list(TIMESTAMPTZ);
+-- DROP FUNCTION IF EXISTS verify_certificate(TEXT);
+-- DROP FUNCTION IF EXISTS revoke_certificate(UUID, TEXT, TEXT);
+-- DROP FUNCTION IF EXISTS enforce_certificate_revocation();
+-- DROP FUNCTION IF EXISTS sign_certificate_on_insert();
+-- DROP FUNCTION IF EXISTS compute_certificate_signature(certificates, UUID);
+-- DROP FUNCTION IF EXISTS certificate_signing_payload(certificates);
+-- ALTER TABLE certificates DROP CONSTRAINT IF EXISTS certificates_revocation_consistent;
+-- ALTER TABLE certificates DROP CONSTRAINT IF EXISTS certificates_revocation_reason_valid;
+-- ALTER TABLE certificates DROP COLUMN IF EXISTS revocation_note, DROP COLUMN IF EXISTS revocation_reason,
+--   DROP COLUMN IF EXISTS revoked_by, DROP COLUMN IF EXISTS revoked_at, DROP COLUMN IF EXISTS signed_at,
+--   DROP COLUMN IF EXISTS signature_key_id, DROP COLUMN IF EXISTS signature;
+-- DROP TABLE IF EXISTS certificate_signing_keys CASCADE;
+-- (create_certificate_on_completion is left with SECURITY DEFINER)
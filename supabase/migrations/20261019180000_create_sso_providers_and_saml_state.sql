@@ -0,0 +1,165 @@
+-- =====================================================
+-- Migration: SSO providers and SAML login state
+-- Created: 2026-10-19T18:00:00Z
+-- Tables: sso_providers, sso_saml_requests, sso_login_handoffs
+-- Purpose: Store per-customer SSO provider configuration read by SSOService,
+--          track issued SAML AuthnRequest IDs for InResponseTo checks, and
+--          hand validated SSO identities from the sso-saml edge function
+--          back to the app through single-use codes
+-- =====================================================
+
+-- Enable UUID extension (idempotent)
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+-- Function to update updated_at timestamp (idempotent)
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- TABLE: sso_providers
+-- Purpose: SAML / OIDC / OAuth2 identity providers, optionally per customer
+-- =====================================================
+CREATE TABLE IF NOT EXISTS sso_providers (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  name TEXT NOT NULL,
+  display_name TEXT NOT NULL,
+  provider_type TEXT NOT NULL CHECK (provider_type IN ('saml', 'oidc', 'oauth2')),
+  enabled BOOLEAN DEFAULT true NOT NULL,
+
+  -- Provider settings (SSOProviderConfig.config): entityId, ssoUrl,
+  -- x509Certificate, idpIssuer, attributeMapping, ...
+  config JSONB DEFAULT '{}'::jsonb NOT NULL,
+  customer_id UUID,
+
+  -- Timestamps
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT sso_providers_name_not_empty CHECK (length(trim(name)) > 0),
+  CONSTRAINT sso_providers_display_name_not_empty CHECK (length(trim(display_name)) > 0)
+);
+
+-- =====================================================
+-- TABLE: sso_saml_requests
+-- Purpose: AuthnRequest IDs we issued; a SAML response is only accepted
+--          in reply to one of these (InResponseTo), and only once
+-- =====================================================
+CREATE TABLE IF NOT EXISTS sso_saml_requests (
+  id TEXT PRIMARY KEY, -- AuthnRequest ID
+  provider_id UUID REFERENCES sso_providers(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- =====================================================
+-- TABLE: sso_login_handoffs
+-- Purpose: Validated SSO identity waiting to be picked up by the app.
+--          Only the SHA-256 of the single-use code is stored.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS sso_login_handoffs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  provider_id UUID REFERENCES sso_providers(id) ON DELETE CASCADE NOT NULL,
+  code_hash TEXT NOT NULL UNIQUE,
+  user_data JSONB NOT NULL, -- SSOUser
+  redirect_to TEXT,
+
+  -- Timestamps
+  expires_at TIMESTAMPTZ DEFAULT (NOW() + INTERVAL '2 minutes') NOT NULL,
+  consumed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+CREATE INDEX IF NOT EXISTS sso_providers_customer_id_idx ON sso_providers(customer_id);
+CREATE INDEX IF NOT EXISTS sso_providers_enabled_idx ON sso_providers(enabled) WHERE enabled;
+CREATE INDEX IF NOT EXISTS sso_saml_requests_created_at_idx ON sso_saml_requests(created_at);
+CREATE INDEX IF NOT EXISTS sso_login_handoffs_expires_at_idx ON sso_login_handoffs(expires_at);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+DROP TRIGGER IF EXISTS update_sso_providers_updated_at ON sso_providers;
+CREATE TRIGGER update_sso_providers_updated_at
+  BEFORE UPDATE ON sso_providers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Remove expired AuthnRequest IDs and handoff codes
+CREATE OR REPLACE FUNCTION cleanup_sso_login_state()
+RETURNS INTEGER AS $$
+DECLARE
+  v_deleted INTEGER;
+  v_handoffs INTEGER;
+BEGIN
+  DELETE FROM sso_saml_requests WHERE created_at < NOW() - INTERVAL '1 hour';
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  DELETE FROM sso_login_handoffs WHERE expires_at < NOW() - INTERVAL '1 hour';
+  GET DIAGNOSTICS v_handoffs = ROW_COUNT;
+
+  RETURN v_deleted + v_handoffs;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =====================================================
+ALTER TABLE sso_providers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sso_saml_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sso_login_handoffs ENABLE ROW LEVEL SECURITY;
+
+-- Login pages list enabled providers before the user is signed in
+CREATE POLICY "sso_providers_select_enabled"
+  ON sso_providers FOR SELECT
+  USING (enabled = true);
+
+CREATE POLICY "sso_providers_select_admin"
+  ON sso_providers FOR SELECT
+  USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "sso_providers_insert_admin"
+  ON sso_providers FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "sso_providers_update_admin"
+  ON sso_providers FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "sso_providers_delete_admin"
+  ON sso_providers FOR DELETE
+  USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'));
+
+-- sso_saml_requests and sso_login_handoffs have no policies: only the
+-- sso-saml edge function (service role) reads and writes them
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON TABLE sso_providers IS 'SSO identity provider configuration (SAML, OIDC, OAuth2)';
+COMMENT ON COLUMN sso_providers.config IS 'Provider settings: entityId, ssoUrl, x509Certificate, idpIssuer, attributeMapping, ...';
+COMMENT ON COLUMN sso_providers.customer_id IS 'Customer the provider belongs to; NULL for providers offered to everyone';
+COMMENT ON TABLE sso_saml_requests IS 'Outstanding SAML AuthnRequest IDs used for InResponseTo validation';
+COMMENT ON TABLE sso_login_handoffs IS 'Single-use codes carrying a validated SSO identity from the edge function to the app';
+COMMENT ON FUNCTION cleanup_sso_login_state IS 'Delete expired SAML request IDs and SSO handoff codes';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP FUNCTION IF EXISTS cleanup_sso_login_state();
+-- DROP TABLE IF EXISTS sso_login_handoffs CASCADE;
+-- DROP TABLE IF EXISTS sso_saml_requests CASCADE;
+-- DROP TABLE IF EXISTS sso_providers CASCADE;
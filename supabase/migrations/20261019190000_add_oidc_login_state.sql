@@ -0,0 +1,141 @@
+-- =====================================================
+-- Migration: OIDC login state and server-side client secrets
+-- Created: 2026-10-19T19:00:00Z
+-- Tables: sso_provider_secrets, sso_oidc_requests, sso_providers
+-- Purpose: Keep OIDC/OAuth2 client secrets out of the browser-readable
+--          sso_providers.config, and store state, nonce and PKCE verifier
+--          for each login started by the sso-oidc edge function
+-- =====================================================
+
+-- Enable UUID extension (idempotent)
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+-- =====================================================
+-- TABLE: sso_provider_secrets
+-- Purpose: Client secrets, readable only by the service role
+-- =====================================================
+CREATE TABLE IF NOT EXISTS sso_provider_secrets (
+  provider_id UUID REFERENCES sso_providers(id) ON DELETE CASCADE PRIMARY KEY,
+  client_secret TEXT NOT NULL,
+
+  -- Timestamps
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT sso_provider_secrets_not_empty CHECK (length(client_secret) > 0)
+);
+
+-- =====================================================
+-- TABLE: sso_oidc_requests
+-- Purpose: One row per started OIDC login; consumed by the callback
+-- =====================================================
+CREATE TABLE IF NOT EXISTS sso_oidc_requests (
+  state_hash TEXT PRIMARY KEY, -- SHA-256 of the state parameter
+  provider_id UUID REFERENCES sso_providers(id) ON DELETE CASCADE NOT NULL,
+  nonce TEXT NOT NULL,
+  code_verifier TEXT NOT NULL, -- PKCE
+  redirect_to TEXT,
+
+  -- Timestamps
+  expires_at TIMESTAMPTZ DEFAULT (NOW() + INTERVAL '10 minutes') NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+CREATE INDEX IF NOT EXISTS sso_oidc_requests_expires_at_idx ON sso_oidc_requests(expires_at);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+-- Admin tools save clientSecret inside config like any other setting; move it
+-- into sso_provider_secrets so it is never readable through sso_providers
+CREATE OR REPLACE FUNCTION move_sso_client_secret()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.config ? 'clientSecret' THEN
+    IF length(COALESCE(NEW.config->>'clientSecret', '')) > 0 THEN
+      INSERT INTO sso_provider_secrets (provider_id, client_secret)
+      VALUES (NEW.id, NEW.config->>'clientSecret')
+      ON CONFLICT (provider_id) DO UPDATE
+      SET client_secret = EXCLUDED.client_secret,
+          updated_by = auth.uid(),
+          updated_at = NOW();
+    END IF;
+
+    UPDATE sso_providers
+    SET config = config - 'clientSecret'
+    WHERE id = NEW.id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS move_sso_client_secret_after_write ON sso_providers;
+CREATE TRIGGER move_sso_client_secret_after_write
+  AFTER INSERT OR UPDATE OF config ON sso_providers
+  FOR EACH ROW
+  EXECUTE FUNCTION move_sso_client_secret();
+
+-- Move secrets already stored in config
+UPDATE sso_providers
+SET config = config
+WHERE config ? 'clientSecret';
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Remove expired AuthnRequest IDs, OIDC login state and handoff codes
+CREATE OR REPLACE FUNCTION cleanup_sso_login_state()
+RETURNS INTEGER AS $$
+DECLARE
+  v_deleted INTEGER;
+  v_oidc INTEGER;
+  v_handoffs INTEGER;
+BEGIN
+  DELETE FROM sso_saml_requests WHERE created_at < NOW() - INTERVAL '1 hour';
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  DELETE FROM sso_oidc_requests WHERE expires_at < NOW() - INTERVAL '1 hour';
+  GET DIAGNOSTICS v_oidc = ROW_COUNT;
+
+  DELETE FROM sso_login_handoffs WHERE expires_at < NOW() - INTERVAL '1 hour';
+  GET DIAGNOSTICS v_handoffs = ROW_COUNT;
+
+  RETURN v_deleted + v_oidc + v_handoffs;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =====================================================
+ALTER TABLE sso_provider_secrets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sso_oidc_requests ENABLE ROW LEVEL SECURITY;
+
+-- No policies: only the move_sso_client_secret trigger and the sso-oidc
+-- edge function (service role) touch these tables
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON TABLE sso_provider_secrets IS 'OIDC/OAuth2 client secrets, kept out of sso_providers.config';
+COMMENT ON TABLE sso_oidc_requests IS 'State, nonce and PKCE verifier for OIDC logins in progress';
+COMMENT ON COLUMN sso_oidc_requests.state_hash IS 'SHA-256 of the state parameter sent to the IdP';
+COMMENT ON FUNCTION move_sso_client_secret IS 'Move config.clientSecret into sso_provider_secrets';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- UPDATE sso_providers p SET config = p.config || jsonb_build_object('clientSecret', s.client_secret)
+--   FROM sso_provider_secrets s WHERE s.provider_id = p.id;
+-- DROP TRIGGER IF EXISTS move_sso_client_secret_after_write ON sso_providers;
+-- DROP FUNCTION IF EXISTS move_sso_client_secret();
+-- DROP TABLE IF EXISTS sso_oidc_requests CASCADE;
+-- DROP TABLE IF EXISTS sso_provider_secrets CASCADE;
+-- (cleanup_sso_login_state keeps deleting from sso_oidc_requests; recreate it from 20261019180000)
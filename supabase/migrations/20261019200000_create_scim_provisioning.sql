@@ -0,0 +1,294 @@
+-- =====================================================
+-- Migration: SCIM 2.0 inbound provisioning
+-- Created: 2026-10-19T20:00:00Z
+-- Tables: scim_configs, scim_users, scim_groups, scim_group_members, user_roles
+-- Purpose: Store per-customer SCIMConfiguration read by SSOService, and the
+--          users, groups and memberships pushed by customer IdPs to the scim
+--          edge function. Group membership maps onto user_roles through
+--          scim_configs.group_mapping.
+-- =====================================================
+
+-- Enable UUID extension (idempotent)
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+-- Function to update updated_at timestamp (idempotent)
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- TABLE: scim_configs
+-- Purpose: SCIM settings per customer (SCIMConfiguration)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS scim_configs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  customer_id UUID NOT NULL UNIQUE,
+  enabled BOOLEAN DEFAULT true NOT NULL,
+
+  -- Customer SCIM endpoint for pulling users (syncUsersFromSCIM); may be empty
+  -- when the customer's IdP only pushes
+  endpoint TEXT DEFAULT '' NOT NULL,
+  -- Token for calls in both directions: sent to the customer endpoint and
+  -- expected from the customer's IdP on our SCIM endpoints
+  bearer_token TEXT NOT NULL,
+
+  user_mapping JSONB DEFAULT '{}'::jsonb NOT NULL, -- users column -> SCIM attribute path
+  group_mapping JSONB DEFAULT '{}'::jsonb NOT NULL, -- SCIM group displayName -> roles.name
+  auto_provision BOOLEAN DEFAULT true NOT NULL,
+  auto_deprovision BOOLEAN DEFAULT true NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT scim_configs_bearer_token_length CHECK (length(bearer_token) >= 32)
+);
+
+-- =====================================================
+-- TABLE: scim_users
+-- Purpose: Users provisioned by a customer's IdP. The SCIM resource id is
+--          user_id; the other columns hold the SCIM attributes we return.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS scim_users (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  customer_id UUID NOT NULL REFERENCES scim_configs(customer_id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+
+  -- SCIM attributes
+  user_name TEXT NOT NULL,
+  external_id TEXT,
+  given_name TEXT,
+  family_name TEXT,
+  formatted_name TEXT,
+  display_name TEXT,
+  emails JSONB DEFAULT '[]'::jsonb NOT NULL,
+  active BOOLEAN DEFAULT true NOT NULL,
+  extensions JSONB DEFAULT '{}'::jsonb NOT NULL, -- extension schema attributes, keyed by schema URN
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT scim_users_unique_user UNIQUE (customer_id, user_id),
+  CONSTRAINT scim_users_user_name_not_empty CHECK (length(trim(user_name)) > 0)
+);
+
+-- userName is unique per customer, case-insensitively (RFC 7643 §4.1.1)
+CREATE UNIQUE INDEX IF NOT EXISTS scim_users_unique_user_name
+  ON scim_users(customer_id, lower(user_name));
+
+-- =====================================================
+-- TABLE: scim_groups
+-- Purpose: Groups pushed by a customer's IdP
+-- =====================================================
+CREATE TABLE IF NOT EXISTS scim_groups (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  customer_id UUID NOT NULL REFERENCES scim_configs(customer_id) ON DELETE CASCADE,
+  display_name TEXT NOT NULL,
+  external_id TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT scim_groups_display_name_not_empty CHECK (length(trim(display_name)) > 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS scim_groups_unique_display_name
+  ON scim_groups(customer_id, lower(display_name));
+
+-- =====================================================
+-- TABLE: scim_group_members
+-- Purpose: Group membership; drives SCIM-granted user_roles
+-- =====================================================
+CREATE TABLE IF NOT EXISTS scim_group_members (
+  group_id UUID REFERENCES scim_groups(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  PRIMARY KEY (group_id, user_id)
+);
+
+-- =====================================================
+-- TABLE: user_roles (modified)
+-- Purpose: Record which role assignments SCIM owns, so group changes only
+--          ever revoke roles that SCIM granted
+-- =====================================================
+ALTER TABLE user_roles
+  ADD COLUMN IF NOT EXISTS source TEXT DEFAULT 'manual' NOT NULL;
+
+ALTER TABLE user_roles
+  DROP CONSTRAINT IF EXISTS user_roles_source_check;
+ALTER TABLE user_roles
+  ADD CONSTRAINT user_roles_source_check CHECK (source IN ('manual', 'scim'));
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+CREATE INDEX IF NOT EXISTS scim_users_user_id_idx ON scim_users(user_id);
+CREATE INDEX IF NOT EXISTS scim_users_external_id_idx ON scim_users(customer_id, external_id);
+CREATE INDEX IF NOT EXISTS scim_groups_customer_id_idx ON scim_groups(customer_id);
+CREATE INDEX IF NOT EXISTS scim_group_members_user_id_idx ON scim_group_members(user_id);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+DROP TRIGGER IF EXISTS update_scim_configs_updated_at ON scim_configs;
+CREATE TRIGGER update_scim_configs_updated_at
+  BEFORE UPDATE ON scim_configs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_scim_users_updated_at ON scim_users;
+CREATE TRIGGER update_scim_users_updated_at
+  BEFORE UPDATE ON scim_users
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_scim_groups_updated_at ON scim_groups;
+CREATE TRIGGER update_scim_groups_updated_at
+  BEFORE UPDATE ON scim_groups
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Bring a user's SCIM-granted roles in line with their group memberships.
+-- Roles come from scim_configs.group_mapping; an inactive or unlinked user
+-- keeps no SCIM roles. users.role follows the highest mapped app role.
+CREATE OR REPLACE FUNCTION sync_scim_user_roles(
+  p_customer_id UUID,
+  p_user_id UUID
+)
+RETURNS TEXT[] AS $$
+DECLARE
+  v_role_ids UUID[];
+  v_role_names TEXT[];
+  v_app_role TEXT;
+  v_had_scim_roles BOOLEAN;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only the SCIM service or an admin can sync SCIM roles';
+  END IF;
+
+  SELECT
+    COALESCE(array_agg(DISTINCT r.id), '{}'),
+    COALESCE(array_agg(DISTINCT r.name::TEXT), '{}')
+  INTO v_role_ids, v_role_names
+  FROM scim_users su
+  JOIN scim_configs sc ON sc.customer_id = su.customer_id
+  JOIN scim_groups g ON g.customer_id = su.customer_id
+  JOIN scim_group_members m ON m.group_id = g.id AND m.user_id = su.user_id
+  JOIN LATERAL (
+    SELECT value AS role_name
+    FROM jsonb_each_text(sc.group_mapping)
+    WHERE lower(key) = lower(g.display_name)
+  ) mapped ON true
+  JOIN roles r ON r.name = mapped.role_name AND r.is_active = TRUE
+  WHERE su.customer_id = p_customer_id
+    AND su.user_id = p_user_id
+    AND su.active = TRUE;
+
+  SELECT EXISTS (
+    SELECT 1 FROM user_roles
+    WHERE user_id = p_user_id AND source = 'scim' AND is_active = TRUE
+  ) INTO v_had_scim_roles;
+
+  -- Grant mapped roles
+  INSERT INTO user_roles (user_id, role_id, assigned_by, source)
+  SELECT p_user_id, role_id, NULL, 'scim'
+  FROM unnest(v_role_ids) AS role_id
+  ON CONFLICT (user_id, role_id)
+  DO UPDATE SET
+    is_active = TRUE,
+    source = 'scim',
+    updated_at = NOW();
+
+  -- Revoke SCIM-granted roles the user no longer qualifies for
+  UPDATE user_roles
+  SET is_active = FALSE,
+      updated_at = NOW()
+  WHERE user_id = p_user_id
+    AND source = 'scim'
+    AND is_active = TRUE
+    AND NOT (role_id = ANY (v_role_ids));
+
+  -- Keep users.role (used by RLS policies) in step with the mapped roles
+  IF array_length(v_role_ids, 1) > 0 OR v_had_scim_roles THEN
+    SELECT r.name INTO v_app_role
+    FROM roles r
+    WHERE r.id = ANY (v_role_ids)
+      AND r.name IN ('admin', 'trainer', 'learner')
+    ORDER BY r.level DESC
+    LIMIT 1;
+
+    UPDATE users
+    SET role = COALESCE(v_app_role, 'learner')
+    WHERE id = p_user_id;
+  END IF;
+
+  RETURN v_role_names;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =====================================================
+ALTER TABLE scim_configs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scim_users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scim_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scim_group_members ENABLE ROW LEVEL SECURITY;
+
+-- scim_configs holds bearer tokens: admins only
+CREATE POLICY "scim_configs_admin_all"
+  ON scim_configs FOR ALL
+  USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'));
+
+-- Provisioned state is written by the scim edge function (service role);
+-- admins can inspect it
+CREATE POLICY "scim_users_select_admin"
+  ON scim_users FOR SELECT
+  USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "scim_groups_select_admin"
+  ON scim_groups FOR SELECT
+  USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "scim_group_members_select_admin"
+  ON scim_group_members FOR SELECT
+  USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'));
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON TABLE scim_configs IS 'Per-customer SCIM settings (SCIMConfiguration)';
+COMMENT ON COLUMN scim_configs.bearer_token IS 'Token sent to the customer endpoint and required on inbound SCIM requests';
+COMMENT ON COLUMN scim_configs.group_mapping IS 'SCIM group displayName -> roles.name granted to members';
+COMMENT ON TABLE scim_users IS 'Users provisioned through SCIM; the SCIM resource id is user_id';
+COMMENT ON TABLE scim_groups IS 'Groups provisioned through SCIM';
+COMMENT ON TABLE scim_group_members IS 'SCIM group membership';
+COMMENT ON COLUMN user_roles.source IS 'manual, or scim for roles granted through SCIM group mapping';
+COMMENT ON FUNCTION sync_scim_user_roles IS 'Grant and revoke SCIM-owned user_roles from group membership';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP FUNCTION IF EXISTS sync_scim_user_roles(UUID, UUID);
+-- ALTER TABLE user_roles DROP CONSTRAINT IF EXISTS user_roles_source_check;
+-- ALTER TABLE user_roles DROP COLUMN IF EXISTS source;
+-- DROP TABLE IF EXISTS scim_group_members CASCADE;
+-- DROP TABLE IF EXISTS scim_groups CASCADE;
+-- DROP TABLE IF EXISTS scim_users CASCADE;
+-- DROP TABLE IF EXISTS scim_configs CASCADE;
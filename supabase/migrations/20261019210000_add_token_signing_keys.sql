@@ -0,0 +1,100 @@
+-- =====================================================
+-- Migration: Token signing keys
+-- Created: 2026-10-19T21:00:00Z
+-- Tables: data_encryption_keys
+-- Purpose: Keep HMAC keys for signed tokens (share links, download grants,
+--          invitation links) in data_encryption_keys with key_type
+--          'token_signing', and rotate them by key_version
+-- =====================================================
+
+-- Enable pgcrypto for key generation
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+
+-- One row per key version, so the newest version is unambiguous
+CREATE UNIQUE INDEX IF NOT EXISTS data_encryption_keys_unique_version
+  ON data_encryption_keys(customer_id, key_type, key_version);
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Add a new token signing key. New tokens are signed with it at once; older
+-- active keys keep verifying tokens already issued until they are retired.
+CREATE OR REPLACE FUNCTION rotate_token_signing_key()
+RETURNS UUID AS $$
+DECLARE
+  v_key_id UUID;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can rotate signing keys';
+  END IF;
+
+  INSERT INTO data_encryption_keys (customer_id, key_type, encrypted_key, key_version)
+  SELECT
+    'system',
+    'token_signing',
+    encode(gen_random_bytes(32), 'base64'),
+    COALESCE(MAX(key_version), 0) + 1
+  FROM data_encryption_keys
+  WHERE customer_id = 'system' AND key_type = 'token_signing'
+  RETURNING id INTO v_key_id;
+
+  RETURN v_key_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Stop accepting tokens signed with a key. Run once every token it signed
+-- has expired; the newest key cannot be retired.
+CREATE OR REPLACE FUNCTION retire_token_signing_key(p_key_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can retire signing keys';
+  END IF;
+
+  IF p_key_id = (
+    SELECT id FROM data_encryption_keys
+    WHERE customer_id = 'system' AND key_type = 'token_signing' AND is_active = TRUE
+    ORDER BY key_version DESC
+    LIMIT 1
+  ) THEN
+    RAISE EXCEPTION 'Rotate to a new key before retiring the current one';
+  END IF;
+
+  UPDATE data_encryption_keys
+  SET is_active = FALSE
+  WHERE id = p_key_id AND key_type = 'token_signing';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- INITIAL DATA
+-- =====================================================
+INSERT INTO data_encryption_keys (customer_id, key_type, encrypted_key, key_version)
+SELECT 'system', 'token_signing', encode(gen_random_bytes(32), 'base64'), 1
+WHERE NOT EXISTS (
+  SELECT 1 FROM data_encryption_keys
+  WHERE customer_id = 'system' AND key_type = 'token_signing'
+);
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON COLUMN data_encryption_keys.encrypted_key IS 'Key material (base64); token_signing keys are raw HMAC-SHA256 keys readable only by the service role';
+COMMENT ON FUNCTION rotate_token_signing_key IS 'Add a new token signing key version and sign with it from now on';
+COMMENT ON FUNCTION retire_token_signing_key IS 'Deactivate an old token signing key so its tokens stop verifying';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP FUNCTION IF EXISTS retire_token_signing_key(UUID);
+-- DROP FUNCTION IF EXISTS rotate_token_signing_key();
+-- DELETE FROM data_encryption_keys WHERE customer_id = 'system' AND key_type = 'token_signing';
+-- DROP INDEX IF EXISTS data_encryption_keys_unique_version;
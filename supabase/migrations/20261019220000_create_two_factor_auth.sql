@@ -0,0 +1,495 @@
+-- =====================================================
+-- Migration: TOTP two-factor authentication
+-- Created: 2026-10-19T22:00:00Z
+-- Tables: user_two_factor, user_backup_codes, two_factor_sessions, organizations
+-- Purpose: RFC 6238 TOTP enrollment and verification, single-use hashed
+--          backup codes, per-session verification state, a per-organization
+--          "require 2FA" policy and admin recovery
+-- =====================================================
+
+-- Enable pgcrypto for secrets, HMAC-SHA1 and code hashing
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+
+-- =====================================================
+-- TABLE: user_two_factor
+-- Purpose: TOTP secret and verification state per user. Only the
+--          functions below read it; the secret never leaves the database
+--          after enrollment.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS user_two_factor (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  secret BYTEA NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  enrolled_at TIMESTAMPTZ,
+  last_used_step BIGINT NOT NULL DEFAULT 0,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  CONSTRAINT user_two_factor_secret_length CHECK (length(secret) = 20),
+  CONSTRAINT user_two_factor_failed_attempts_non_negative CHECK (failed_attempts >= 0)
+);
+
+-- =====================================================
+-- TABLE: user_backup_codes
+-- Purpose: SHA-256 hashes of single-use recovery codes
+-- =====================================================
+CREATE TABLE IF NOT EXISTS user_backup_codes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  CONSTRAINT user_backup_codes_unique_hash UNIQUE (user_id, code_hash)
+);
+
+-- =====================================================
+-- TABLE: two_factor_sessions
+-- Purpose: Auth sessions that passed the second factor. Rows go away with
+--          the session, so signing out or revoking a session ends it.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS two_factor_sessions (
+  session_id UUID PRIMARY KEY REFERENCES auth.sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  method TEXT NOT NULL,
+  verified_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  CONSTRAINT two_factor_sessions_method_check CHECK (method IN ('totp', 'backup_code', 'enrollment'))
+);
+
+-- Organization policy
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS require_two_factor BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+CREATE INDEX IF NOT EXISTS user_backup_codes_user_id_idx ON user_backup_codes(user_id) WHERE used_at IS NULL;
+CREATE INDEX IF NOT EXISTS two_factor_sessions_user_id_idx ON two_factor_sessions(user_id);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_user_two_factor_updated_at ON user_two_factor;
+CREATE TRIGGER update_user_two_factor_updated_at
+  BEFORE UPDATE ON user_two_factor
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- RFC 4226 HOTP value for one 30-second TOTP step (6 digits, HMAC-SHA1)
+CREATE OR REPLACE FUNCTION totp_code(p_secret BYTEA, p_step BIGINT)
+RETURNS TEXT AS $$
+DECLARE
+  v_hmac BYTEA;
+  v_offset INTEGER;
+  v_binary BIGINT;
+BEGIN
+  v_hmac := hmac(int8send(p_step), p_secret, 'sha1');
+  v_offset := get_byte(v_hmac, 19) & 15;
+  v_binary := ((get_byte(v_hmac, v_offset) & 127)::BIGINT << 24)
+    | (get_byte(v_hmac, v_offset + 1)::BIGINT << 16)
+    | (get_byte(v_hmac, v_offset + 2)::BIGINT << 8)
+    | get_byte(v_hmac, v_offset + 3)::BIGINT;
+
+  RETURN lpad((v_binary % 1000000)::TEXT, 6, '0');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE STRICT;
+
+-- RFC 4648 base32 without padding, the form authenticator apps expect
+CREATE OR REPLACE FUNCTION base32_encode(p_data BYTEA)
+RETURNS TEXT AS $$
+DECLARE
+  v_alphabet CONSTANT TEXT := 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  v_result TEXT := '';
+  v_buffer INTEGER := 0;
+  v_bits INTEGER := 0;
+  i INTEGER;
+BEGIN
+  FOR i IN 0 .. length(p_data) - 1 LOOP
+    v_buffer := (v_buffer << 8) | get_byte(p_data, i);
+    v_bits := v_bits + 8;
+    WHILE v_bits >= 5 LOOP
+      v_bits := v_bits - 5;
+      v_result := v_result || substr(v_alphabet, ((v_buffer >> v_bits) & 31) + 1, 1);
+    END LOOP;
+    v_buffer := v_buffer & ((1 << v_bits) - 1);
+  END LOOP;
+
+  IF v_bits > 0 THEN
+    v_result := v_result || substr(v_alphabet, ((v_buffer << (5 - v_bits)) & 31) + 1, 1);
+  END IF;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE STRICT;
+
+-- Backup codes are compared case- and dash-insensitively
+CREATE OR REPLACE FUNCTION hash_backup_code(p_code TEXT)
+RETURNS TEXT AS $$
+  SELECT encode(digest(lower(regexp_replace(p_code, '[\s-]', '', 'g')), 'sha256'), 'hex');
+$$ LANGUAGE sql IMMUTABLE STRICT;
+
+-- Session id of the caller's access token
+CREATE OR REPLACE FUNCTION current_auth_session_id()
+RETURNS UUID AS $$
+  SELECT NULLIF(auth.jwt() ->> 'session_id', '')::UUID;
+$$ LANGUAGE sql STABLE;
+
+-- Whether any of the user's organizations requires 2FA
+CREATE OR REPLACE FUNCTION two_factor_required(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_organizations uo
+    JOIN organizations o ON o.id = uo.organization_id
+    WHERE uo.user_id = p_user_id AND o.require_two_factor
+  );
+$$ LANGUAGE sql STABLE;
+
+-- For RLS policies: true unless the caller has 2FA and this session has not
+-- passed it yet
+CREATE OR REPLACE FUNCTION is_two_factor_satisfied()
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (SELECT 1 FROM user_two_factor WHERE user_id = auth.uid() AND enabled)
+    OR EXISTS (
+      SELECT 1 FROM two_factor_sessions
+      WHERE session_id = current_auth_session_id() AND user_id = auth.uid()
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Replace a user's backup codes and return the new ones in plain text.
+-- This is the only time they are visible. Not SECURITY DEFINER: it only
+-- works when called from the functions below, since RLS blocks callers.
+CREATE OR REPLACE FUNCTION issue_backup_codes(p_user_id UUID)
+RETURNS TEXT[] AS $$
+DECLARE
+  v_codes TEXT[] := '{}';
+  v_code TEXT;
+BEGIN
+  DELETE FROM user_backup_codes WHERE user_id = p_user_id;
+
+  FOR i IN 1 .. 10 LOOP
+    v_code := encode(gen_random_bytes(5), 'hex');
+    v_code := substr(v_code, 1, 5) || '-' || substr(v_code, 6, 5);
+    INSERT INTO user_backup_codes (user_id, code_hash)
+    VALUES (p_user_id, hash_backup_code(v_code));
+    v_codes := array_append(v_codes, v_code);
+  END LOOP;
+
+  RETURN v_codes;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Mark the caller's current session as having passed the second factor.
+-- Like issue_backup_codes, only usable from the functions below.
+CREATE OR REPLACE FUNCTION mark_two_factor_session(p_method TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF current_auth_session_id() IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO two_factor_sessions (session_id, user_id, method)
+  VALUES (current_auth_session_id(), auth.uid(), p_method)
+  ON CONFLICT (session_id) DO UPDATE
+    SET method = EXCLUDED.method, verified_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+-- Matching TOTP step within +/- p_window steps of now, or NULL. Steps at or
+-- before last_used_step are rejected so a code cannot be replayed.
+CREATE OR REPLACE FUNCTION match_totp_step(p_secret BYTEA, p_code TEXT, p_last_used_step BIGINT, p_window INTEGER DEFAULT 1)
+RETURNS BIGINT AS $$
+DECLARE
+  v_now_step BIGINT := floor(extract(epoch FROM clock_timestamp()) / 30)::BIGINT;
+  v_step BIGINT;
+BEGIN
+  IF p_code !~ '^\d{6}$' THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_offset IN -p_window .. p_window LOOP
+    v_step := v_now_step + v_offset;
+    IF v_step > p_last_used_step AND totp_code(p_secret, v_step) = p_code THEN
+      RETURN v_step;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
+
+-- Start (or restart) enrollment with a fresh secret. Returns it base32
+-- encoded for the otpauth:// URI; 2FA stays off until it is confirmed.
+CREATE OR REPLACE FUNCTION begin_two_factor_enrollment()
+RETURNS TEXT AS $$
+DECLARE
+  v_secret BYTEA := gen_random_bytes(20);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM user_two_factor WHERE user_id = auth.uid() AND enabled) THEN
+    RAISE EXCEPTION 'Two-factor authentication is already enabled';
+  END IF;
+
+  INSERT INTO user_two_factor (user_id, secret)
+  VALUES (auth.uid(), v_secret)
+  ON CONFLICT (user_id) DO UPDATE
+    SET secret = EXCLUDED.secret, last_used_step = 0, failed_attempts = 0, locked_until = NULL;
+
+  RETURN base32_encode(v_secret);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Confirm enrollment with a code from the authenticator app. Enables 2FA,
+-- verifies the current session and returns the backup codes, or NULL if
+-- the code is wrong.
+CREATE OR REPLACE FUNCTION confirm_two_factor_enrollment(p_code TEXT)
+RETURNS TEXT[] AS $$
+DECLARE
+  v_row user_two_factor%ROWTYPE;
+  v_step BIGINT;
+BEGIN
+  SELECT * INTO v_row FROM user_two_factor WHERE user_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND OR v_row.enabled THEN
+    RAISE EXCEPTION 'No two-factor enrollment in progress';
+  END IF;
+
+  v_step := match_totp_step(v_row.secret, trim(p_code), v_row.last_used_step);
+  IF v_step IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE user_two_factor
+  SET enabled = TRUE, enrolled_at = NOW(), last_used_step = v_step, failed_attempts = 0, locked_until = NULL
+  WHERE user_id = auth.uid();
+
+  UPDATE user_profiles SET two_factor_enabled = TRUE, two_factor_secret = NULL WHERE user_id = auth.uid();
+
+  PERFORM mark_two_factor_session('enrollment');
+
+  RETURN issue_backup_codes(auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Second-factor challenge at sign-in. Accepts a TOTP code or an unused
+-- backup code. Returns 'verified', 'invalid' or 'locked'; five failures
+-- lock verification for 15 minutes.
+CREATE OR REPLACE FUNCTION verify_two_factor(p_code TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_row user_two_factor%ROWTYPE;
+  v_code TEXT := trim(COALESCE(p_code, ''));
+  v_step BIGINT;
+  v_backup_id UUID;
+BEGIN
+  SELECT * INTO v_row FROM user_two_factor WHERE user_id = auth.uid() AND enabled FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Two-factor authentication is not enabled';
+  END IF;
+
+  IF v_row.locked_until IS NOT NULL AND v_row.locked_until > NOW() THEN
+    RETURN 'locked';
+  END IF;
+
+  v_step := match_totp_step(v_row.secret, v_code, v_row.last_used_step);
+  IF v_step IS NOT NULL THEN
+    UPDATE user_two_factor
+    SET last_used_step = v_step, failed_attempts = 0, locked_until = NULL
+    WHERE user_id = auth.uid();
+
+    PERFORM mark_two_factor_session('totp');
+    RETURN 'verified';
+  END IF;
+
+  UPDATE user_backup_codes
+  SET used_at = NOW()
+  WHERE id = (
+    SELECT id FROM user_backup_codes
+    WHERE user_id = auth.uid() AND used_at IS NULL AND code_hash = hash_backup_code(v_code)
+    LIMIT 1
+  )
+  RETURNING id INTO v_backup_id;
+
+  IF v_backup_id IS NOT NULL THEN
+    UPDATE user_two_factor SET failed_attempts = 0, locked_until = NULL WHERE user_id = auth.uid();
+
+    PERFORM mark_two_factor_session('backup_code');
+    RETURN 'verified';
+  END IF;
+
+  UPDATE user_two_factor
+  SET failed_attempts = failed_attempts + 1,
+      locked_until = CASE WHEN failed_attempts + 1 >= 5 THEN NOW() + INTERVAL '15 minutes' END
+  WHERE user_id = auth.uid()
+  RETURNING * INTO v_row;
+
+  IF v_row.locked_until IS NOT NULL THEN
+    UPDATE user_two_factor SET failed_attempts = 0 WHERE user_id = auth.uid();
+    PERFORM log_security_event(
+      auth.uid(),
+      'two_factor_lockout',
+      'high',
+      'Two-factor verification locked after repeated failures'
+    );
+    RETURN 'locked';
+  END IF;
+
+  RETURN 'invalid';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replace the backup codes. Only from a session that passed 2FA.
+CREATE OR REPLACE FUNCTION regenerate_backup_codes()
+RETURNS TEXT[] AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM user_two_factor WHERE user_id = auth.uid() AND enabled) THEN
+    RAISE EXCEPTION 'Two-factor authentication is not enabled';
+  END IF;
+
+  IF NOT is_two_factor_satisfied() THEN
+    RAISE EXCEPTION 'Verify your two-factor code first';
+  END IF;
+
+  RETURN issue_backup_codes(auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Turn 2FA off. Only from a session that passed 2FA, and not while an
+-- organization policy requires it.
+CREATE OR REPLACE FUNCTION disable_two_factor()
+RETURNS VOID AS $$
+BEGIN
+  IF NOT is_two_factor_satisfied() THEN
+    RAISE EXCEPTION 'Verify your two-factor code first';
+  END IF;
+
+  IF two_factor_required(auth.uid()) THEN
+    RAISE EXCEPTION 'Your organization requires two-factor authentication';
+  END IF;
+
+  DELETE FROM user_two_factor WHERE user_id = auth.uid();
+  DELETE FROM user_backup_codes WHERE user_id = auth.uid();
+  DELETE FROM two_factor_sessions WHERE user_id = auth.uid();
+  UPDATE user_profiles SET two_factor_enabled = FALSE, two_factor_secret = NULL WHERE user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 2FA state of the caller and of the current session
+CREATE OR REPLACE FUNCTION get_two_factor_status()
+RETURNS JSONB AS $$
+DECLARE
+  v_row user_two_factor%ROWTYPE;
+BEGIN
+  SELECT * INTO v_row FROM user_two_factor WHERE user_id = auth.uid();
+
+  RETURN jsonb_build_object(
+    'enabled', COALESCE(v_row.enabled, FALSE),
+    'enrolled_at', v_row.enrolled_at,
+    'required', two_factor_required(auth.uid()),
+    'session_verified', is_two_factor_satisfied() AND COALESCE(v_row.enabled, FALSE),
+    'locked_until', CASE WHEN v_row.locked_until > NOW() THEN v_row.locked_until END,
+    'backup_codes_remaining', (
+      SELECT COUNT(*) FROM user_backup_codes WHERE user_id = auth.uid() AND used_at IS NULL
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Admin recovery for a user who lost their authenticator and backup codes.
+-- Removes the secret, codes and verified sessions; the user enrolls again
+-- on next sign-in if a policy requires it.
+CREATE OR REPLACE FUNCTION admin_reset_two_factor(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can reset two-factor authentication';
+  END IF;
+
+  DELETE FROM user_two_factor WHERE user_id = p_user_id;
+  DELETE FROM user_backup_codes WHERE user_id = p_user_id;
+  DELETE FROM two_factor_sessions WHERE user_id = p_user_id;
+  UPDATE user_profiles SET two_factor_enabled = FALSE, two_factor_secret = NULL WHERE user_id = p_user_id;
+
+  PERFORM log_audit_event(
+    auth.uid(),
+    'two_factor_reset',
+    'user',
+    p_user_id::text,
+    NULL,
+    NULL,
+    NULL,
+    NULL,
+    'high',
+    'security',
+    'Two-factor authentication reset by admin'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+ALTER TABLE user_two_factor ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_backup_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE two_factor_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Secrets and code hashes are only reachable through the functions above
+
+CREATE POLICY "two_factor_sessions_select_own"
+  ON two_factor_sessions FOR SELECT
+  USING (user_id = auth.uid());
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON TABLE user_two_factor IS 'TOTP secrets and verification state; read only through SECURITY DEFINER functions';
+COMMENT ON TABLE user_backup_codes IS 'SHA-256 hashes of single-use 2FA recovery codes';
+COMMENT ON TABLE two_factor_sessions IS 'Auth sessions that passed the second factor';
+COMMENT ON COLUMN user_two_factor.last_used_step IS 'Last accepted TOTP step; codes for this or earlier steps are refused';
+COMMENT ON COLUMN organizations.require_two_factor IS 'Members must enroll in 2FA before using the app';
+COMMENT ON COLUMN user_profiles.two_factor_secret IS 'Unused; TOTP secrets live in user_two_factor';
+COMMENT ON FUNCTION verify_two_factor IS 'Check a TOTP or backup code for the current session; returns verified, invalid or locked';
+COMMENT ON FUNCTION admin_reset_two_factor IS 'Admin recovery: remove a user''s 2FA enrollment and backup codes';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP FUNCTION IF EXISTS admin_reset_two_factor(UUID);
+-- DROP FUNCTION IF EXISTS get_two_factor_status();
+-- DROP FUNCTION IF EXISTS disable_two_factor();
+-- DROP FUNCTION IF EXISTS regenerate_backup_codes();
+-- DROP FUNCTION IF EXISTS verify_two_factor(TEXT);
+-- DROP FUNCTION IF EXISTS confirm_two_factor_enrollment(TEXT);
+-- DROP FUNCTION IF EXISTS begin_two_factor_enrollment();
+-- DROP FUNCTION IF EXISTS match_totp_step(BYTEA, TEXT, BIGINT, INTEGER);
+-- DROP FUNCTION IF EXISTS mark_two_factor_session(TEXT);
+-- DROP FUNCTION IF EXISTS issue_backup_codes(UUID);
+-- DROP FUNCTION IF EXISTS is_two_factor_satisfied();
+-- DROP FUNCTION IF EXISTS two_factor_required(UUID);
+-- DROP FUNCTION IF EXISTS current_auth_session_id();
+-- DROP FUNCTION IF EXISTS hash_backup_code(TEXT);
+-- DROP FUNCTION IF EXISTS base32_encode(BYTEA);
+-- DROP FUNCTION IF EXISTS totp_code(BYTEA, BIGINT);
+-- ALTER TABLE organizations DROP COLUMN IF EXISTS require_two_factor;
+-- DROP TABLE IF EXISTS two_factor_sessions;
+-- DROP TABLE IF EXISTS user_backup_codes;
+-- DROP TABLE IF EXISTS user_two_factor;
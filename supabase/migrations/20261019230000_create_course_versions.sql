@@ -0,0 +1,273 @@
+-- =====================================================
+-- Migration: Persisted course versions
+-- Created: 2026-10-19T23:00:00Z
+-- Tables: course_versions (new), courses, course_enrollments
+-- Purpose: Snapshot course metadata, modules and quizzes (with answer keys)
+--          each time a course is published, restore an earlier snapshot as
+--          a new draft, and record which version a learner completed
+-- =====================================================
+
+-- Enable UUID extension (idempotent)
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+-- =====================================================
+-- TABLE: course_versions
+-- Purpose: Immutable snapshot of a course at publish time
+-- =====================================================
+CREATE TABLE IF NOT EXISTS course_versions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  course_id UUID REFERENCES courses(id) ON DELETE CASCADE NOT NULL,
+
+  -- Version info
+  version_number INTEGER NOT NULL,
+  description TEXT,
+
+  -- { course: {...}, modules: [...], quizzes: [...] } as built by build_course_snapshot
+  snapshot JSONB NOT NULL,
+
+  -- Audit
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT course_versions_course_version_unique UNIQUE (course_id, version_number),
+  CONSTRAINT course_versions_version_number_positive CHECK (version_number > 0)
+);
+
+-- Latest published version of each course
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS current_version_id UUID REFERENCES course_versions(id) ON DELETE SET NULL;
+
+-- Version the learner was on when the enrollment was completed
+ALTER TABLE course_enrollments ADD COLUMN IF NOT EXISTS completed_version_id UUID REFERENCES course_versions(id) ON DELETE SET NULL;
+
+-- Performance indexes
+CREATE INDEX IF NOT EXISTS course_versions_course_id_idx ON course_versions(course_id, version_number DESC);
+CREATE INDEX IF NOT EXISTS course_enrollments_completed_version_id_idx ON course_enrollments(completed_version_id);
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Current state of a course as a snapshot document. Quizzes carry their
+-- answer key in the same shape the client reads from course_quizzes joins.
+-- Not SECURITY DEFINER: callers only see what RLS lets them read.
+CREATE OR REPLACE FUNCTION build_course_snapshot(p_course_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'course', (
+      SELECT jsonb_build_object(
+        'title', c.title,
+        'description', c.description,
+        'difficulty_level', c.difficulty_level,
+        'category', c.category,
+        'tags', c.tags,
+        'visibility', c.visibility,
+        'customer_scope', c.customer_scope,
+        'requires_approval', c.requires_approval,
+        'allow_downloads', c.allow_downloads,
+        'enable_certificates', c.enable_certificates,
+        'pass_threshold', c.pass_threshold,
+        'total_duration', c.total_duration,
+        'metadata', COALESCE(c.metadata, '{}'::jsonb) - 'builderState'
+      )
+      FROM courses c
+      WHERE c.id = p_course_id
+    ),
+    'modules', COALESCE((
+      SELECT jsonb_agg(to_jsonb(m) - 'created_at' - 'updated_at' ORDER BY m.order_index)
+      FROM course_modules m
+      WHERE m.course_id = p_course_id
+    ), '[]'::jsonb),
+    'quizzes', COALESCE((
+      SELECT jsonb_agg(
+        (to_jsonb(q) - 'created_at' - 'updated_at') || jsonb_build_object(
+          'answer_key',
+          CASE WHEN k.question_id IS NULL THEN NULL
+          ELSE jsonb_build_object('correct_answer', k.correct_answer, 'explanation', k.explanation)
+          END
+        )
+        ORDER BY q.order_index
+      )
+      FROM course_quizzes q
+      LEFT JOIN course_quiz_answer_keys k ON k.question_id = q.id
+      WHERE q.course_id = p_course_id
+    ), '[]'::jsonb)
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Snapshot a course as its next version and make it current. Owner only.
+CREATE OR REPLACE FUNCTION create_course_version(p_course_id UUID, p_description TEXT DEFAULT NULL)
+RETURNS course_versions AS $$
+DECLARE
+  v_version course_versions;
+  v_next INTEGER;
+BEGIN
+  -- Lock the course so concurrent publishes get distinct version numbers
+  PERFORM 1 FROM courses WHERE id = p_course_id AND user_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Course not found or not owned by caller' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT COALESCE(MAX(version_number), 0) + 1 INTO v_next
+  FROM course_versions
+  WHERE course_id = p_course_id;
+
+  INSERT INTO course_versions (course_id, version_number, description, snapshot, created_by)
+  VALUES (p_course_id, v_next, p_description, build_course_snapshot(p_course_id), auth.uid())
+  RETURNING * INTO v_version;
+
+  UPDATE courses SET current_version_id = v_version.id WHERE id = p_course_id;
+
+  RETURN v_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replace a course's content with an earlier snapshot and return the course
+-- to draft. Publish settings (visibility, scope, thresholds) are left as they
+-- are. Modules and quizzes keep their ids, so completions of modules that
+-- exist in both versions survive; modules missing from the snapshot are
+-- removed. Owner only.
+CREATE OR REPLACE FUNCTION restore_course_version(p_version_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_course_id UUID;
+  v_snapshot JSONB;
+BEGIN
+  SELECT v.course_id, v.snapshot INTO v_course_id, v_snapshot
+  FROM course_versions v
+  JOIN courses c ON c.id = v.course_id
+  WHERE v.id = p_version_id AND c.user_id = auth.uid()
+  FOR UPDATE OF c;
+
+  IF v_course_id IS NULL THEN
+    RAISE EXCEPTION 'Version not found or not owned by caller' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE courses SET
+    title = v_snapshot->'course'->>'title',
+    description = v_snapshot->'course'->>'description',
+    difficulty_level = v_snapshot->'course'->>'difficulty_level',
+    category = v_snapshot->'course'->>'category',
+    tags = ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_snapshot->'course'->'tags', '[]'::jsonb))),
+    total_duration = COALESCE((v_snapshot->'course'->>'total_duration')::INTEGER, 0),
+    metadata = COALESCE(v_snapshot->'course'->'metadata', '{}'::jsonb),
+    status = 'draft'
+  WHERE id = v_course_id;
+
+  -- Move current rows out of the way of UNIQUE(course_id, order_index)
+  UPDATE course_modules SET order_index = order_index + 1000000 WHERE course_id = v_course_id;
+
+  DELETE FROM course_quizzes
+  WHERE course_id = v_course_id
+    AND id NOT IN (SELECT (q->>'id')::UUID FROM jsonb_array_elements(v_snapshot->'quizzes') q);
+
+  DELETE FROM course_modules
+  WHERE course_id = v_course_id
+    AND id NOT IN (SELECT (m->>'id')::UUID FROM jsonb_array_elements(v_snapshot->'modules') m);
+
+  INSERT INTO course_modules (
+    id, course_id, title, description, type, content_id, content_data,
+    order_index, estimated_duration, is_required, unlock_after_previous
+  )
+  SELECT
+    r.id, v_course_id, r.title, r.description, r.type, r.content_id, COALESCE(r.content_data, '{}'::jsonb),
+    r.order_index, COALESCE(r.estimated_duration, 0), COALESCE(r.is_required, true), COALESCE(r.unlock_after_previous, true)
+  FROM jsonb_populate_recordset(NULL::course_modules, v_snapshot->'modules') r
+  ON CONFLICT (id) DO UPDATE SET
+    title = EXCLUDED.title,
+    description = EXCLUDED.description,
+    type = EXCLUDED.type,
+    content_id = EXCLUDED.content_id,
+    content_data = EXCLUDED.content_data,
+    order_index = EXCLUDED.order_index,
+    estimated_duration = EXCLUDED.estimated_duration,
+    is_required = EXCLUDED.is_required,
+    unlock_after_previous = EXCLUDED.unlock_after_previous
+  WHERE course_modules.course_id = v_course_id;
+
+  INSERT INTO course_quizzes (
+    id, course_id, module_id, question, type, options, points, time_limit, order_index
+  )
+  SELECT
+    r.id, v_course_id, r.module_id, r.question, r.type, COALESCE(r.options, '{}'),
+    COALESCE(r.points, 1), r.time_limit, COALESCE(r.order_index, 0)
+  FROM jsonb_populate_recordset(NULL::course_quizzes, v_snapshot->'quizzes') r
+  ON CONFLICT (id) DO UPDATE SET
+    module_id = EXCLUDED.module_id,
+    question = EXCLUDED.question,
+    type = EXCLUDED.type,
+    options = EXCLUDED.options,
+    points = EXCLUDED.points,
+    time_limit = EXCLUDED.time_limit,
+    order_index = EXCLUDED.order_index
+  WHERE course_quizzes.course_id = v_course_id;
+
+  INSERT INTO course_quiz_answer_keys (question_id, correct_answer, explanation)
+  SELECT (q->>'id')::UUID, q->'answer_key'->>'correct_answer', q->'answer_key'->>'explanation'
+  FROM jsonb_array_elements(v_snapshot->'quizzes') q
+  JOIN course_quizzes cq ON cq.id = (q->>'id')::UUID AND cq.course_id = v_course_id
+  WHERE q->'answer_key' IS NOT NULL AND jsonb_typeof(q->'answer_key') = 'object'
+  ON CONFLICT (question_id) DO UPDATE SET
+    correct_answer = EXCLUDED.correct_answer,
+    explanation = EXCLUDED.explanation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Stamp the course's current version when an enrollment is first completed.
+-- SECURITY DEFINER so learners of private courses can still read the course.
+CREATE OR REPLACE FUNCTION set_enrollment_completed_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.completed_at IS NOT NULL
+    AND (TG_OP = 'INSERT' OR OLD.completed_at IS NULL)
+    AND NEW.completed_version_id IS NULL THEN
+    SELECT current_version_id INTO NEW.completed_version_id
+    FROM courses
+    WHERE id = NEW.course_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_course_enrollments_completed_version ON course_enrollments;
+CREATE TRIGGER set_course_enrollments_completed_version
+  BEFORE INSERT OR UPDATE OF completed_at ON course_enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_enrollment_completed_version();
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+ALTER TABLE course_versions ENABLE ROW LEVEL SECURITY;
+
+-- Snapshots include answer keys, so only the course owner reads them.
+-- Versions are written through create_course_version only.
+CREATE POLICY "course_versions_select_owner"
+  ON course_versions FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM courses c WHERE c.id = course_versions.course_id AND c.user_id = auth.uid()
+  ));
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON TABLE course_versions IS 'Snapshots of course metadata, modules and quizzes taken at publish time';
+COMMENT ON COLUMN course_versions.snapshot IS 'Output of build_course_snapshot: { course, modules, quizzes }';
+COMMENT ON COLUMN courses.current_version_id IS 'Most recently published course_versions row';
+COMMENT ON COLUMN course_enrollments.completed_version_id IS 'Course version current when the enrollment was completed';
+COMMENT ON FUNCTION create_course_version IS 'Snapshot the course as its next version; course owner only';
+COMMENT ON FUNCTION restore_course_version IS 'Restore a snapshot into the course as a new draft; course owner only';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP TRIGGER IF EXISTS set_course_enrollments_completed_version ON course_enrollments;
+-- DROP FUNCTION IF EXISTS set_enrollment_completed_version();
+-- DROP FUNCTION IF EXISTS restore_course_version(UUID);
+-- DROP FUNCTION IF EXISTS create_course_version(UUID, TEXT);
+-- DROP FUNCTION IF EXISTS build_course_snapshot(UUID);
+-- ALTER TABLE course_enrollments DROP COLUMN IF EXISTS completed_version_id;
+-- ALTER TABLE courses DROP COLUMN IF EXISTS current_version_id;
+-- DROP TABLE IF EXISTS course_versions;
@@ -0,0 +1,221 @@
+-- =====================================================
+-- Migration: Pin enrollments to a course version
+-- Created: 2026-10-19T23:30:00Z
+-- Tables: course_enrollments, course_versions, course_completions
+-- Purpose: Keep each enrollment on the course version it started, and let
+--          the trainer choose per publish whether active learners stay on
+--          their version, move with progress mapped by module, or restart
+-- =====================================================
+
+-- Version the learner is taking; NULL follows the live course content
+ALTER TABLE course_enrollments ADD COLUMN IF NOT EXISTS version_id UUID REFERENCES course_versions(id) ON DELETE SET NULL;
+
+-- Policy applied to active enrollments when this version was published
+ALTER TABLE course_versions ADD COLUMN IF NOT EXISTS migration_policy TEXT NOT NULL DEFAULT 'keep';
+
+ALTER TABLE course_versions DROP CONSTRAINT IF EXISTS course_versions_migration_policy_check;
+ALTER TABLE course_versions ADD CONSTRAINT course_versions_migration_policy_check
+  CHECK (migration_policy IN ('keep', 'migrate', 'restart'));
+
+-- Learners on an older version complete modules that may since have been
+-- removed from course_modules, and their completions must survive edits to
+-- the live course, so completions no longer reference course_modules
+ALTER TABLE course_completions DROP CONSTRAINT IF EXISTS course_completions_module_id_fkey;
+
+-- Performance indexes
+CREATE INDEX IF NOT EXISTS course_enrollments_version_id_idx ON course_enrollments(version_id);
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- New enrollments start on the course's current version
+CREATE OR REPLACE FUNCTION set_enrollment_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.version_id IS NULL THEN
+    SELECT current_version_id INTO NEW.version_id
+    FROM courses
+    WHERE id = NEW.course_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_course_enrollments_version ON course_enrollments;
+CREATE TRIGGER set_course_enrollments_version
+  BEFORE INSERT ON course_enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_enrollment_version();
+
+-- Completion is recorded against the version the learner was pinned to
+CREATE OR REPLACE FUNCTION set_enrollment_completed_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.completed_at IS NOT NULL
+    AND (TG_OP = 'INSERT' OR OLD.completed_at IS NULL)
+    AND NEW.completed_version_id IS NULL THEN
+    NEW.completed_version_id := NEW.version_id;
+
+    IF NEW.completed_version_id IS NULL THEN
+      SELECT current_version_id INTO NEW.completed_version_id
+      FROM courses
+      WHERE id = NEW.course_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Move active enrollments of a course onto a newly published version.
+--   keep:    pinned learners stay where they are; unpinned ones (enrolled
+--            before the first version) are moved as for migrate
+--   migrate: progress is kept for modules that exist in the new version
+--   restart: completions are cleared and learners start over
+-- Completed enrollments are never touched. Not SECURITY DEFINER: only
+-- usable from create_course_version.
+CREATE OR REPLACE FUNCTION migrate_course_enrollments(p_version_id UUID, p_policy TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_course_id UUID;
+  v_module_ids UUID[];
+  v_count INTEGER;
+BEGIN
+  SELECT course_id, ARRAY(SELECT (m->>'id')::UUID FROM jsonb_array_elements(snapshot->'modules') m)
+  INTO v_course_id, v_module_ids
+  FROM course_versions
+  WHERE id = p_version_id;
+
+  IF p_policy = 'restart' THEN
+    DELETE FROM course_completions c
+    USING course_enrollments e
+    WHERE c.enrollment_id = e.id
+      AND e.course_id = v_course_id
+      AND e.completed_at IS NULL
+      AND e.version_id IS DISTINCT FROM p_version_id;
+
+    UPDATE course_enrollments SET
+      version_id = p_version_id,
+      modules_completed = '{}',
+      progress_percentage = 0,
+      score = NULL
+    WHERE course_id = v_course_id
+      AND completed_at IS NULL
+      AND version_id IS DISTINCT FROM p_version_id;
+  ELSE
+    UPDATE course_enrollments e SET
+      version_id = p_version_id,
+      modules_completed = mapped.module_ids,
+      progress_percentage = CASE
+        WHEN cardinality(v_module_ids) = 0 THEN 0
+        ELSE round(100.0 * cardinality(mapped.module_ids) / cardinality(v_module_ids))::INTEGER
+      END
+    FROM (
+      SELECT e2.id, ARRAY(
+        SELECT c.module_id::TEXT
+        FROM course_completions c
+        WHERE c.enrollment_id = e2.id AND c.module_id = ANY(v_module_ids)
+      ) AS module_ids
+      FROM course_enrollments e2
+      WHERE e2.course_id = v_course_id
+    ) mapped
+    WHERE mapped.id = e.id
+      AND e.completed_at IS NULL
+      AND e.version_id IS DISTINCT FROM p_version_id
+      AND (p_policy = 'migrate' OR e.version_id IS NULL);
+  END IF;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replaces the two-argument version from 20261019230000
+DROP FUNCTION IF EXISTS create_course_version(UUID, TEXT);
+
+-- Snapshot a course as its next version, make it current and apply the
+-- enrollment migration policy. Owner only.
+CREATE OR REPLACE FUNCTION create_course_version(
+  p_course_id UUID,
+  p_description TEXT DEFAULT NULL,
+  p_migration_policy TEXT DEFAULT 'keep'
+)
+RETURNS course_versions AS $$
+DECLARE
+  v_version course_versions;
+  v_next INTEGER;
+BEGIN
+  -- Lock the course so concurrent publishes get distinct version numbers
+  PERFORM 1 FROM courses WHERE id = p_course_id AND user_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Course not found or not owned by caller' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT COALESCE(MAX(version_number), 0) + 1 INTO v_next
+  FROM course_versions
+  WHERE course_id = p_course_id;
+
+  INSERT INTO course_versions (course_id, version_number, description, snapshot, migration_policy, created_by)
+  VALUES (
+    p_course_id,
+    v_next,
+    p_description,
+    build_course_snapshot(p_course_id),
+    COALESCE(p_migration_policy, 'keep'),
+    auth.uid()
+  )
+  RETURNING * INTO v_version;
+
+  UPDATE courses SET current_version_id = v_version.id WHERE id = p_course_id;
+
+  PERFORM migrate_course_enrollments(v_version.id, v_version.migration_policy);
+
+  RETURN v_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Learner view of the version an enrollment is pinned to: course metadata,
+-- modules and quiz questions without answer keys. NULL when the enrollment
+-- is not pinned or does not belong to the caller.
+CREATE OR REPLACE FUNCTION get_enrollment_course_version(p_enrollment_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'version_id', v.id,
+    'version_number', v.version_number,
+    'course', v.snapshot->'course',
+    'modules', v.snapshot->'modules',
+    'quizzes', COALESCE((
+      SELECT jsonb_agg(q - 'answer_key')
+      FROM jsonb_array_elements(v.snapshot->'quizzes') q
+    ), '[]'::jsonb)
+  )
+  FROM course_enrollments e
+  JOIN course_versions v ON v.id = e.version_id
+  WHERE e.id = p_enrollment_id AND e.user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON COLUMN course_enrollments.version_id IS 'Course version the learner is taking; NULL follows the live course';
+COMMENT ON COLUMN course_versions.migration_policy IS 'keep, migrate or restart: how active enrollments were moved when this version was published';
+COMMENT ON FUNCTION create_course_version IS 'Snapshot the course as its next version and migrate active enrollments; course owner only';
+COMMENT ON FUNCTION get_enrollment_course_version IS 'Pinned course version for the caller''s enrollment, without answer keys';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP FUNCTION IF EXISTS get_enrollment_course_version(UUID);
+-- DROP FUNCTION IF EXISTS create_course_version(UUID, TEXT, TEXT);
+-- DROP FUNCTION IF EXISTS migrate_course_enrollments(UUID, TEXT);
+-- DROP TRIGGER IF EXISTS set_course_enrollments_version ON course_enrollments;
+-- DROP FUNCTION IF EXISTS set_enrollment_version();
+-- ALTER TABLE course_versions DROP COLUMN IF EXISTS migration_policy;
+-- ALTER TABLE course_enrollments DROP COLUMN IF EXISTS version_id;
+-- Then re-run 20261019230000_create_course_versions.sql to restore the
+-- two-argument create_course_version and set_enrollment_completed_version.
+-- The course_completions.module_id foreign key is not restored, since
+-- completions of removed modules may now exist.
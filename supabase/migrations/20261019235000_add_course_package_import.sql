@@ -0,0 +1,101 @@
+-- =====================================================
+-- Migration: Course package import
+-- Created: 2026-10-19T23:50:00Z
+-- Tables: courses, course_modules, course_quizzes, course_quiz_answer_keys
+-- Purpose: Create a course from an exported course bundle in a single
+--          transaction, so a failed import leaves nothing behind
+-- =====================================================
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Insert a course bundle (see src/types/coursePackage.ts) whose ids have
+-- already been remapped by the client. The course is owned by the caller
+-- and starts as a private draft. Not SECURITY DEFINER: the caller's RLS
+-- policies apply to every insert.
+CREATE OR REPLACE FUNCTION import_course_bundle(p_bundle JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_course JSONB := p_bundle->'course';
+  v_course_id UUID := (p_bundle->'course'->>'id')::UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO courses (
+    id, user_id, title, description, status, difficulty_level, category, tags,
+    visibility, customer_scope, requires_approval, allow_downloads,
+    enable_certificates, pass_threshold, total_duration, metadata
+  )
+  VALUES (
+    v_course_id,
+    auth.uid(),
+    v_course->>'title',
+    v_course->>'description',
+    'draft',
+    COALESCE(v_course->>'difficultyLevel', 'beginner'),
+    v_course->>'category',
+    ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_course->'tags', '[]'::jsonb))),
+    'private',
+    '{}',
+    COALESCE((v_course->>'requiresApproval')::BOOLEAN, false),
+    COALESCE((v_course->>'allowDownloads')::BOOLEAN, false),
+    COALESCE((v_course->>'enableCertificates')::BOOLEAN, true),
+    COALESCE((v_course->>'passThreshold')::INTEGER, 80),
+    COALESCE((v_course->>'totalDuration')::INTEGER, 0),
+    COALESCE(v_course->'metadata', '{}'::jsonb)
+  );
+
+  INSERT INTO course_modules (
+    id, course_id, title, description, type, content_id, content_data,
+    order_index, estimated_duration, is_required, unlock_after_previous
+  )
+  SELECT
+    (m->>'id')::UUID,
+    v_course_id,
+    m->>'title',
+    m->>'description',
+    m->>'type',
+    (m->>'contentId')::UUID,
+    COALESCE(m->'contentData', '{}'::jsonb),
+    (m->>'orderIndex')::INTEGER,
+    COALESCE((m->>'estimatedDuration')::INTEGER, 0),
+    COALESCE((m->>'isRequired')::BOOLEAN, true),
+    COALESCE((m->>'unlockAfterPrevious')::BOOLEAN, true)
+  FROM jsonb_array_elements(COALESCE(p_bundle->'modules', '[]'::jsonb)) m;
+
+  INSERT INTO course_quizzes (
+    id, course_id, module_id, question, type, options, points, time_limit, order_index
+  )
+  SELECT
+    (q->>'id')::UUID,
+    v_course_id,
+    (q->>'moduleId')::UUID,
+    q->>'question',
+    q->>'type',
+    ARRAY(SELECT jsonb_array_elements_text(COALESCE(q->'options', '[]'::jsonb))),
+    COALESCE((q->>'points')::INTEGER, 1),
+    (q->>'timeLimit')::INTEGER,
+    COALESCE((q->>'orderIndex')::INTEGER, 0)
+  FROM jsonb_array_elements(COALESCE(p_bundle->'quizzes', '[]'::jsonb)) q;
+
+  INSERT INTO course_quiz_answer_keys (question_id, correct_answer, explanation)
+  SELECT (q->>'id')::UUID, q->>'correctAnswer', q->>'explanation'
+  FROM jsonb_array_elements(COALESCE(p_bundle->'quizzes', '[]'::jsonb)) q;
+
+  RETURN v_course_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON FUNCTION import_course_bundle IS 'Create a private draft course from a remapped course bundle in one transaction';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP FUNCTION IF EXISTS import_course_bundle(JSONB);
@@ -0,0 +1,172 @@
+-- =====================================================
+-- Migration: xAPI statements and built-in LRS
+-- Created: 2026-10-20T00:00:00Z
+-- Tables: xapi_lrs_configs, xapi_statements
+-- Purpose: Store xAPI statements generated from learning analytics events in
+--          a minimal built-in learning record store, and per-organization
+--          settings for forwarding them to the customer's own LRS
+-- =====================================================
+
+-- Enable pgcrypto for LRS credentials
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+
+-- =====================================================
+-- TABLE: xapi_lrs_configs
+-- Purpose: xAPI settings per organization. Statements always land in the
+--          built-in LRS; when endpoint is set they are also forwarded there.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS xapi_lrs_configs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL UNIQUE REFERENCES organizations(id) ON DELETE CASCADE,
+  enabled BOOLEAN DEFAULT true NOT NULL,
+
+  -- Customer LRS statements are forwarded to, e.g. https://lrs.example.com/xapi;
+  -- empty keeps them in the built-in LRS only
+  endpoint TEXT DEFAULT '' NOT NULL,
+  -- Basic auth credentials sent to the customer LRS
+  auth_username TEXT DEFAULT '' NOT NULL,
+  auth_password TEXT DEFAULT '' NOT NULL,
+
+  -- Basic auth credentials the customer uses on the built-in LRS
+  lrs_key TEXT DEFAULT encode(gen_random_bytes(12), 'hex') NOT NULL UNIQUE,
+  lrs_secret TEXT DEFAULT encode(gen_random_bytes(24), 'hex') NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT xapi_lrs_configs_endpoint_https CHECK (endpoint = '' OR endpoint ~ '^https://'),
+  CONSTRAINT xapi_lrs_configs_lrs_secret_length CHECK (length(lrs_secret) >= 32)
+);
+
+-- =====================================================
+-- TABLE: xapi_statements
+-- Purpose: Built-in LRS. Written only by the xapi edge function; id is the
+--          statement id, so a resent statement is stored once.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS xapi_statements (
+  id UUID PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  -- Learner the statement is about; NULL for statements sent by the customer
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  -- Indexed copies of the statement fields the LRS filters on
+  verb_id TEXT NOT NULL,
+  activity_id TEXT,
+  registration UUID,
+
+  statement JSONB NOT NULL,
+  voided BOOLEAN DEFAULT false NOT NULL,
+  timestamp TIMESTAMPTZ NOT NULL,
+  stored TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Forwarding to the customer LRS; NULL forwarded_at with an endpoint
+  -- configured means it is still pending
+  forwarded_at TIMESTAMPTZ,
+  forward_attempts INTEGER DEFAULT 0 NOT NULL,
+  forward_error TEXT,
+
+  -- Constraints
+  CONSTRAINT xapi_statements_forward_attempts_non_negative CHECK (forward_attempts >= 0)
+);
+
+-- Performance indexes
+CREATE INDEX IF NOT EXISTS xapi_statements_org_stored_idx ON xapi_statements(organization_id, stored DESC);
+CREATE INDEX IF NOT EXISTS xapi_statements_org_verb_idx ON xapi_statements(organization_id, verb_id);
+CREATE INDEX IF NOT EXISTS xapi_statements_org_activity_idx ON xapi_statements(organization_id, activity_id);
+CREATE INDEX IF NOT EXISTS xapi_statements_user_id_idx ON xapi_statements(user_id);
+CREATE INDEX IF NOT EXISTS xapi_statements_pending_forward_idx
+  ON xapi_statements(organization_id, stored)
+  WHERE forwarded_at IS NULL;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_xapi_lrs_configs_updated_at ON xapi_lrs_configs;
+CREATE TRIGGER update_xapi_lrs_configs_updated_at
+  BEFORE UPDATE ON xapi_lrs_configs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Issue new built-in LRS credentials, invalidating the old ones.
+-- Organization admins only.
+CREATE OR REPLACE FUNCTION rotate_xapi_lrs_credentials(p_organization_id UUID)
+RETURNS xapi_lrs_configs AS $$
+DECLARE
+  v_config xapi_lrs_configs;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_organizations
+    WHERE organization_id = p_organization_id AND user_id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only organization admins can rotate LRS credentials' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE xapi_lrs_configs SET
+    lrs_key = encode(gen_random_bytes(12), 'hex'),
+    lrs_secret = encode(gen_random_bytes(24), 'hex')
+  WHERE organization_id = p_organization_id
+  RETURNING * INTO v_config;
+
+  RETURN v_config;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+ALTER TABLE xapi_lrs_configs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE xapi_statements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "xapi_lrs_configs_org_admin_all"
+  ON xapi_lrs_configs FOR ALL
+  USING (organization_id IN (
+    SELECT organization_id FROM user_organizations
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ))
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM user_organizations
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+-- Statements are written by the xapi edge function (service role)
+CREATE POLICY "xapi_statements_select_own"
+  ON xapi_statements FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "xapi_statements_select_org_admin"
+  ON xapi_statements FOR SELECT
+  USING (organization_id IN (
+    SELECT organization_id FROM user_organizations
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON TABLE xapi_lrs_configs IS 'Per-organization xAPI settings: customer LRS to forward to and credentials for the built-in LRS';
+COMMENT ON TABLE xapi_statements IS 'Built-in learning record store for xAPI statements';
+COMMENT ON COLUMN xapi_lrs_configs.endpoint IS 'Customer LRS base URL; empty keeps statements in the built-in LRS only';
+COMMENT ON COLUMN xapi_statements.forwarded_at IS 'When the statement was accepted by the customer LRS';
+COMMENT ON FUNCTION rotate_xapi_lrs_credentials IS 'Replace the built-in LRS key and secret; organization admins only';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP FUNCTION IF EXISTS rotate_xapi_lrs_credentials(UUID);
+-- DROP TABLE IF EXISTS xapi_statements CASCADE;
+-- DROP TABLE IF EXISTS xapi_lrs_configs CASCADE;
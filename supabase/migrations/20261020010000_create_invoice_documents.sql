@@ -0,0 +1,124 @@
+-- =====================================================
+-- Migration: Invoice PDF documents and invoice emails
+-- Created: 2026-10-20T01:00:00Z
+-- Tables: invoice_documents, invoice_emails, storage.buckets, storage.objects
+-- Purpose: Keep every rendered invoice PDF as a numbered version in a
+--          private invoices bucket under
+--          <organization_id>/<invoice_id>/<invoice_number>-v<version>.pdf,
+--          and log each invoice emailed to the organization's billing_email
+-- =====================================================
+
+-- =====================================================
+-- TABLE: invoice_documents
+-- Purpose: One row per rendered PDF; a new version is added whenever an
+--          invoice is rendered again, earlier files are kept
+-- =====================================================
+CREATE TABLE IF NOT EXISTS invoice_documents (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+
+  -- Object name in the invoices bucket
+  storage_path TEXT NOT NULL UNIQUE,
+  file_size INTEGER NOT NULL,
+  sha256 TEXT NOT NULL,
+
+  -- Invoice state the document was rendered from
+  invoice_number TEXT NOT NULL,
+  invoice_status TEXT NOT NULL,
+  total_cents INTEGER NOT NULL,
+  currency TEXT NOT NULL,
+
+  generated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL when rendered by the system
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT invoice_documents_unique_version UNIQUE (invoice_id, version),
+  CONSTRAINT invoice_documents_version_positive CHECK (version > 0)
+);
+
+-- =====================================================
+-- TABLE: invoice_emails
+-- Purpose: Delivery log for invoices sent to billing contacts
+-- =====================================================
+CREATE TABLE IF NOT EXISTS invoice_emails (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  document_id UUID REFERENCES invoice_documents(id) ON DELETE SET NULL,
+
+  recipient TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  message_id TEXT,
+  error TEXT,
+
+  sent_by UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL when sent by the system
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Performance indexes
+CREATE INDEX IF NOT EXISTS invoice_documents_invoice_id_idx ON invoice_documents(invoice_id, version DESC);
+CREATE INDEX IF NOT EXISTS invoice_documents_organization_id_idx ON invoice_documents(organization_id);
+CREATE INDEX IF NOT EXISTS invoice_emails_invoice_id_idx ON invoice_emails(invoice_id, created_at DESC);
+
+-- =====================================================
+-- BUCKET: invoices
+-- Private; members download their organization's invoices through the
+-- storage API. Files are written by the invoices edge function only.
+-- =====================================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'invoices',
+  'invoices',
+  false,
+  10485760, -- 10 MB
+  ARRAY['application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =====================================================
+ALTER TABLE invoice_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "invoice_documents_select_own"
+  ON invoice_documents FOR SELECT
+  USING (organization_id IN (
+    SELECT organization_id FROM user_organizations
+    WHERE user_id = auth.uid()
+  ));
+
+CREATE POLICY "invoice_emails_select_billing_admin"
+  ON invoice_emails FOR SELECT
+  USING (organization_id IN (
+    SELECT organization_id FROM user_organizations
+    WHERE user_id = auth.uid() AND role IN ('admin', 'billing_admin')
+  ));
+
+CREATE POLICY "invoice_files_select_own"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'invoices'
+    AND (storage.foldername(name))[1] IN (
+      SELECT organization_id::text FROM user_organizations
+      WHERE user_id = auth.uid()
+    )
+  );
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON TABLE invoice_documents IS 'Rendered invoice PDFs, one row per version, stored in the invoices bucket';
+COMMENT ON TABLE invoice_emails IS 'Invoices emailed to organization billing contacts';
+COMMENT ON COLUMN invoices.pdf_url IS 'invoices bucket object name of the latest rendered PDF';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP POLICY IF EXISTS "invoice_files_select_own" ON storage.objects;
+-- DELETE FROM storage.buckets WHERE id = 'invoices';
+-- DROP TABLE IF EXISTS invoice_emails CASCADE;
+-- DROP TABLE IF EXISTS invoice_documents CASCADE;
@@ -0,0 +1,318 @@
+-- =====================================================
+-- Migration: Plan entitlements
+-- Created: 2026-10-20T02:00:00Z
+-- Tables: videos, courses, user_invitations, customer_machines
+-- Purpose: Count what an organization uses against its subscription plan
+--          (max_users, max_machines, max_storage_gb, max_videos,
+--          max_courses), expose a single entitlement check to the app, and
+--          refuse inserts that would take an organization past its limits
+-- =====================================================
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Organization a user acts for: the first one they joined
+CREATE OR REPLACE FUNCTION primary_organization_id(p_user_id UUID)
+RETURNS UUID AS $$
+  SELECT organization_id FROM user_organizations
+  WHERE user_id = p_user_id
+  ORDER BY joined_at ASC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Raw usage counts for an organization. Videos and courses belong to the
+-- organization when one of its members owns them; videos shared with the
+-- organization through customer_scope count as well.
+CREATE OR REPLACE FUNCTION organization_usage(p_organization_id UUID)
+RETURNS TABLE (
+  users_used BIGINT,
+  pending_invitations BIGINT,
+  machines_used BIGINT,
+  storage_used_bytes BIGINT,
+  videos_used BIGINT,
+  courses_used BIGINT
+) AS $$
+DECLARE
+  v_machines BIGINT := 0;
+BEGIN
+  -- customer_machines is created outside these migrations
+  IF to_regclass('public.customer_machines') IS NOT NULL THEN
+    EXECUTE 'SELECT COUNT(*) FROM customer_machines
+             WHERE customer_id = $1 AND status IN (''active'', ''maintenance'')'
+      INTO v_machines
+      USING p_organization_id;
+  END IF;
+
+  RETURN QUERY
+  WITH members AS (
+    SELECT user_id FROM user_organizations WHERE organization_id = p_organization_id
+  ),
+  org_videos AS (
+    SELECT v.file_size FROM videos v
+    WHERE v.user_id IN (SELECT user_id FROM members)
+       OR v.customer_scope @> ARRAY[p_organization_id::TEXT]
+  )
+  SELECT
+    (SELECT COUNT(*) FROM members),
+    (SELECT COUNT(*) FROM user_invitations
+      WHERE organization_id = p_organization_id
+        AND status = 'pending'
+        AND expires_at > NOW()),
+    v_machines,
+    (SELECT COALESCE(SUM(file_size), 0)::BIGINT FROM org_videos),
+    (SELECT COUNT(*) FROM org_videos),
+    (SELECT COUNT(*) FROM courses WHERE user_id IN (SELECT user_id FROM members));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Replaces the original implementation, which multiplied rows across its
+-- joins and read a courses.organization_id column that does not exist
+CREATE OR REPLACE FUNCTION calculate_subscription_usage(subscription_uuid UUID)
+RETURNS TABLE (
+  seats_used BIGINT,
+  machines_used BIGINT,
+  storage_used_gb BIGINT,
+  videos_used BIGINT,
+  courses_used BIGINT
+) AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  SELECT s.organization_id INTO v_organization_id
+  FROM subscriptions s
+  WHERE s.id = subscription_uuid
+    AND (
+      s.organization_id IN (SELECT organization_id FROM user_organizations WHERE user_id = auth.uid())
+      OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+    );
+
+  IF v_organization_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    u.users_used,
+    u.machines_used,
+    CEIL(u.storage_used_bytes / 1073741824.0)::BIGINT,
+    u.videos_used,
+    u.courses_used
+  FROM organization_usage(v_organization_id) u;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Whether an organization may add p_amount more of a resource under its
+-- current subscription. Storage is measured in bytes; users include pending
+-- invitations. Organizations without a current subscription, and limits left
+-- NULL on the plan, are unlimited.
+CREATE OR REPLACE FUNCTION plan_entitlement(p_organization_id UUID, p_resource TEXT, p_amount BIGINT DEFAULT 1)
+RETURNS JSONB AS $$
+DECLARE
+  v_subscription subscriptions;
+  v_plan subscription_plans;
+  v_usage RECORD;
+  v_limit BIGINT;
+  v_used BIGINT;
+BEGIN
+  IF p_resource NOT IN ('users', 'machines', 'storage', 'videos', 'courses') THEN
+    RAISE EXCEPTION 'Unknown plan resource: %', p_resource USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_subscription FROM subscriptions
+  WHERE organization_id = p_organization_id
+    AND status IN ('trial', 'active', 'past_due')
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_subscription.id IS NOT NULL THEN
+    SELECT * INTO v_plan FROM subscription_plans WHERE id = v_subscription.plan_id;
+  END IF;
+
+  SELECT * INTO v_usage FROM organization_usage(p_organization_id);
+
+  CASE p_resource
+    WHEN 'users' THEN
+      v_limit := COALESCE(v_subscription.seats_limit, v_plan.max_users);
+      v_used := v_usage.users_used + v_usage.pending_invitations;
+    WHEN 'machines' THEN
+      v_limit := COALESCE(v_subscription.machines_limit, v_plan.max_machines);
+      v_used := v_usage.machines_used;
+    WHEN 'storage' THEN
+      v_limit := v_plan.max_storage_gb::BIGINT * 1073741824;
+      v_used := v_usage.storage_used_bytes;
+    WHEN 'videos' THEN
+      v_limit := v_plan.max_videos;
+      v_used := v_usage.videos_used;
+    WHEN 'courses' THEN
+      v_limit := v_plan.max_courses;
+      v_used := v_usage.courses_used;
+  END CASE;
+
+  RETURN jsonb_build_object(
+    'organization_id', p_organization_id,
+    'subscription_id', v_subscription.id,
+    'plan_name', v_plan.name,
+    'plan_type', v_plan.plan_type,
+    'resource', p_resource,
+    'limit', v_limit,
+    'used', v_used,
+    'requested', p_amount,
+    'allowed', v_limit IS NULL OR v_used + p_amount <= v_limit
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- App-facing check. Without an organization the caller's primary one is used.
+CREATE OR REPLACE FUNCTION check_plan_entitlement(
+  p_resource TEXT,
+  p_amount BIGINT DEFAULT 1,
+  p_organization_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_organization_id UUID := COALESCE(p_organization_id, primary_organization_id(auth.uid()));
+BEGIN
+  IF v_organization_id IS NULL THEN
+    RETURN jsonb_build_object('resource', p_resource, 'requested', p_amount, 'allowed', true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_organizations
+    WHERE organization_id = v_organization_id AND user_id = auth.uid()
+  ) AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this organization' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN plan_entitlement(v_organization_id, p_resource, p_amount);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Raise configuration_limit_exceeded (53400) with the entitlement as the
+-- error detail when the organization is out of room
+CREATE OR REPLACE FUNCTION enforce_plan_limit(p_organization_id UUID, p_resource TEXT, p_amount BIGINT DEFAULT 1)
+RETURNS VOID AS $$
+DECLARE
+  v_entitlement JSONB;
+BEGIN
+  IF p_organization_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_entitlement := plan_entitlement(p_organization_id, p_resource, p_amount);
+
+  IF NOT (v_entitlement->>'allowed')::BOOLEAN THEN
+    RAISE EXCEPTION 'Plan limit reached for %', p_resource
+      USING ERRCODE = '53400',
+            DETAIL = v_entitlement::TEXT,
+            HINT = 'Upgrade the subscription plan to add more';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal helpers; the app goes through check_plan_entitlement and
+-- calculate_subscription_usage, which check membership first
+REVOKE EXECUTE ON FUNCTION organization_usage(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION plan_entitlement(UUID, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION enforce_plan_limit(UUID, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION enforce_video_plan_limits()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_organization_id UUID := primary_organization_id(NEW.user_id);
+BEGIN
+  PERFORM enforce_plan_limit(v_organization_id, 'videos', 1);
+  PERFORM enforce_plan_limit(v_organization_id, 'storage', NEW.file_size);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enforce_video_plan_limits_trigger ON videos;
+CREATE TRIGGER enforce_video_plan_limits_trigger
+  BEFORE INSERT ON videos
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_video_plan_limits();
+
+CREATE OR REPLACE FUNCTION enforce_course_plan_limits()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM enforce_plan_limit(primary_organization_id(COALESCE(NEW.user_id, auth.uid())), 'courses', 1);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enforce_course_plan_limits_trigger ON courses;
+CREATE TRIGGER enforce_course_plan_limits_trigger
+  BEFORE INSERT ON courses
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_course_plan_limits();
+
+CREATE OR REPLACE FUNCTION enforce_invitation_plan_limits()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM enforce_plan_limit(COALESCE(NEW.organization_id, primary_organization_id(NEW.invited_by)), 'users', 1);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enforce_invitation_plan_limits_trigger ON user_invitations;
+CREATE TRIGGER enforce_invitation_plan_limits_trigger
+  BEFORE INSERT ON user_invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_invitation_plan_limits();
+
+-- Machines are registered against the customer (organization) id
+CREATE OR REPLACE FUNCTION enforce_machine_plan_limits()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IN ('active', 'maintenance') THEN
+    PERFORM enforce_plan_limit(NEW.customer_id, 'machines', 1);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+BEGIN
+  IF to_regclass('public.customer_machines') IS NOT NULL THEN
+    DROP TRIGGER IF EXISTS enforce_machine_plan_limits_trigger ON customer_machines;
+    CREATE TRIGGER enforce_machine_plan_limits_trigger
+      BEFORE INSERT ON customer_machines
+      FOR EACH ROW
+      EXECUTE FUNCTION enforce_machine_plan_limits();
+  END IF;
+END;
+$$;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON FUNCTION organization_usage IS 'Members, pending invitations, machines, storage bytes, videos and courses counted against an organization''s plan';
+COMMENT ON FUNCTION calculate_subscription_usage IS 'Usage of the subscription''s organization; members and platform admins only';
+COMMENT ON FUNCTION check_plan_entitlement IS 'Limit, usage and whether p_amount more of a plan resource fits; defaults to the caller''s primary organization';
+COMMENT ON FUNCTION enforce_plan_limit IS 'Raises SQLSTATE 53400 with the entitlement JSON as DETAIL when a plan limit would be exceeded';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP TRIGGER IF EXISTS enforce_machine_plan_limits_trigger ON customer_machines;
+-- DROP TRIGGER IF EXISTS enforce_invitation_plan_limits_trigger ON user_invitations;
+-- DROP TRIGGER IF EXISTS enforce_course_plan_limits_trigger ON courses;
+-- DROP TRIGGER IF EXISTS enforce_video_plan_limits_trigger ON videos;
+-- DROP FUNCTION IF EXISTS enforce_machine_plan_limits();
+-- DROP FUNCTION IF EXISTS enforce_invitation_plan_limits();
+-- DROP FUNCTION IF EXISTS enforce_course_plan_limits();
+-- DROP FUNCTION IF EXISTS enforce_video_plan_limits();
+-- DROP FUNCTION IF EXISTS enforce_plan_limit(UUID, TEXT, BIGINT);
+-- DROP FUNCTION IF EXISTS check_plan_entitlement(TEXT, BIGINT, UUID);
+-- DROP FUNCTION IF EXISTS plan_entitlement(UUID, TEXT, BIGINT);
+-- DROP FUNCTION IF EXISTS organization_usage(UUID);
+-- DROP FUNCTION IF EXISTS primary_organization_id(UUID);
+-- (then restore calculate_subscription_usage from 20241221130000_create_billing_tables.sql)
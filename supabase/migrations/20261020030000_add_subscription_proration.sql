@@ -0,0 +1,341 @@
+-- =====================================================
+-- Migration: Prorated subscription plan changes
+-- Created: 2026-10-20T03:00:00Z
+-- Tables: organizations, subscriptions, invoices, billing_events
+-- Purpose: Change a subscription's plan mid-cycle with day-based proration:
+--          credit the unused part of the current plan, charge the new one,
+--          move the billing period when the billing cycle changes, and
+--          record the result on an invoice and in billing_events
+-- =====================================================
+
+-- Credit left over when a downgrade refunds more than is owed; applied to
+-- the next proration invoice
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS account_credit_cents INTEGER NOT NULL DEFAULT 0
+    CONSTRAINT organizations_account_credit_positive CHECK (account_credit_cents >= 0);
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Proration for moving p_subscription to p_plan at p_at, counted in whole
+-- days (UTC). Keeping the billing cycle keeps the period and charges the new
+-- plan for the remaining days; changing it starts a new period at p_at and
+-- charges the full new price. Trials paid nothing, so they get no credit and
+-- no charge.
+CREATE OR REPLACE FUNCTION calculate_subscription_proration(
+  p_subscription subscriptions,
+  p_plan subscription_plans,
+  p_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_today DATE := (p_at AT TIME ZONE 'UTC')::DATE;
+  v_days_in_period INTEGER;
+  v_days_remaining INTEGER;
+  v_period_reset BOOLEAN := p_plan.billing_cycle <> p_subscription.billing_cycle;
+  v_period_start TIMESTAMPTZ := p_subscription.current_period_start;
+  v_period_end TIMESTAMPTZ := p_subscription.current_period_end;
+  v_credit INTEGER := 0;
+  v_charge INTEGER := 0;
+  v_account_credit INTEGER;
+  v_applied INTEGER := 0;
+  v_net INTEGER;
+  v_subtotal INTEGER;
+  v_tax INTEGER;
+BEGIN
+  v_days_in_period := GREATEST(1,
+    (p_subscription.current_period_end AT TIME ZONE 'UTC')::DATE
+    - (p_subscription.current_period_start AT TIME ZONE 'UTC')::DATE);
+  v_days_remaining := LEAST(v_days_in_period, GREATEST(0,
+    (p_subscription.current_period_end AT TIME ZONE 'UTC')::DATE - v_today));
+
+  IF v_period_reset THEN
+    v_period_start := p_at;
+    v_period_end := p_at + CASE p_plan.billing_cycle WHEN 'yearly' THEN INTERVAL '1 year' ELSE INTERVAL '1 month' END;
+  END IF;
+
+  IF p_subscription.status <> 'trial' THEN
+    v_credit := ROUND(p_subscription.price_cents::NUMERIC * v_days_remaining / v_days_in_period);
+    v_charge := CASE
+      WHEN v_period_reset THEN p_plan.price_cents
+      ELSE ROUND(p_plan.price_cents::NUMERIC * v_days_remaining / v_days_in_period)
+    END;
+  END IF;
+
+  SELECT account_credit_cents INTO v_account_credit
+  FROM organizations WHERE id = p_subscription.organization_id;
+
+  v_net := v_charge - v_credit;
+  IF v_net > 0 THEN
+    v_applied := LEAST(v_net, COALESCE(v_account_credit, 0));
+  END IF;
+
+  v_subtotal := GREATEST(0, v_net - v_applied);
+  v_tax := ROUND(v_subtotal * COALESCE(p_subscription.tax_rate, 0));
+
+  RETURN jsonb_build_object(
+    'subscription_id', p_subscription.id,
+    'current_plan_id', p_subscription.plan_id,
+    'new_plan_id', p_plan.id,
+    'billing_cycle', p_plan.billing_cycle,
+    'currency', p_subscription.currency,
+    'proration_date', p_at,
+    'days_in_period', v_days_in_period,
+    'days_remaining', v_days_remaining,
+    'period_reset', v_period_reset,
+    'period_start', v_period_start,
+    'period_end', v_period_end,
+    'credit_cents', v_credit,
+    'charge_cents', v_charge,
+    'account_credit_applied_cents', v_applied,
+    'subtotal_cents', v_subtotal,
+    'tax_cents', v_tax,
+    'amount_due_cents', v_subtotal + v_tax,
+    'credit_carried_cents', GREATEST(0, v_credit - v_charge)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Load and validate a subscription and target plan for a plan change.
+-- Organization admins and billing admins only.
+CREATE OR REPLACE FUNCTION load_subscription_change(
+  p_subscription_id UUID,
+  p_plan_id UUID,
+  p_lock BOOLEAN,
+  OUT subscription subscriptions,
+  OUT plan subscription_plans
+) AS $$
+BEGIN
+  IF p_lock THEN
+    SELECT * INTO subscription FROM subscriptions WHERE id = p_subscription_id FOR UPDATE;
+  ELSE
+    SELECT * INTO subscription FROM subscriptions WHERE id = p_subscription_id;
+  END IF;
+
+  IF subscription.id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM user_organizations
+    WHERE organization_id = subscription.organization_id
+      AND user_id = auth.uid()
+      AND role IN ('admin', 'billing_admin')
+  ) THEN
+    RAISE EXCEPTION 'Subscription not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF subscription.status NOT IN ('trial', 'active', 'past_due') THEN
+    RAISE EXCEPTION 'Only current subscriptions can change plan' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO plan FROM subscription_plans WHERE id = p_plan_id AND is_active = true;
+
+  IF plan.id IS NULL THEN
+    RAISE EXCEPTION 'Plan not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF plan.id = subscription.plan_id THEN
+    RAISE EXCEPTION 'The subscription is already on this plan' USING ERRCODE = '22023';
+  END IF;
+
+  IF plan.currency <> subscription.currency THEN
+    RAISE EXCEPTION 'Plan is priced in %, the subscription in %', plan.currency, subscription.currency
+      USING ERRCODE = '22023';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- What a plan change would cost today, without changing anything
+CREATE OR REPLACE FUNCTION preview_subscription_change(p_subscription_id UUID, p_plan_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_change RECORD;
+BEGIN
+  SELECT * INTO v_change FROM load_subscription_change(p_subscription_id, p_plan_id, false);
+  RETURN calculate_subscription_proration(v_change.subscription, v_change.plan);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Move the subscription to the new plan. The proration lines are added to
+-- the subscription's unpaid invoice when there is one, otherwise a new
+-- invoice is opened. Returns the proration with the invoice id.
+CREATE OR REPLACE FUNCTION change_subscription_plan(p_subscription_id UUID, p_plan_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_change RECORD;
+  v_previous subscriptions;
+  v_subscription subscriptions;
+  v_plan subscription_plans;
+  v_current_plan subscription_plans;
+  v_proration JSONB;
+  v_lines JSONB := '[]'::jsonb;
+  v_invoice invoices;
+  v_net INTEGER;
+  v_subtotal INTEGER;
+  v_carried INTEGER := 0;
+  v_now TIMESTAMPTZ := NOW();
+BEGIN
+  SELECT * INTO v_change FROM load_subscription_change(p_subscription_id, p_plan_id, true);
+  v_previous := v_change.subscription;
+  v_subscription := v_change.subscription;
+  v_plan := v_change.plan;
+
+  SELECT * INTO v_current_plan FROM subscription_plans WHERE id = v_subscription.plan_id;
+
+  -- Serialize with other changes that use the organization's credit
+  PERFORM 1 FROM organizations WHERE id = v_subscription.organization_id FOR UPDATE;
+
+  v_proration := calculate_subscription_proration(v_subscription, v_plan, v_now);
+
+  IF (v_proration->>'credit_cents')::INTEGER > 0 THEN
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'type', 'proration_credit',
+      'description', format('Unused time on %s (%s of %s days)',
+        v_current_plan.name, v_proration->>'days_remaining', v_proration->>'days_in_period'),
+      'quantity', 1,
+      'unit_price_cents', -(v_proration->>'credit_cents')::INTEGER,
+      'total_cents', -(v_proration->>'credit_cents')::INTEGER
+    ));
+  END IF;
+
+  IF (v_proration->>'charge_cents')::INTEGER > 0 THEN
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'type', 'proration_charge',
+      'description', CASE
+        WHEN (v_proration->>'period_reset')::BOOLEAN
+          THEN format('%s (%s)', v_plan.name, v_plan.billing_cycle)
+        ELSE format('Remaining time on %s (%s of %s days)',
+          v_plan.name, v_proration->>'days_remaining', v_proration->>'days_in_period')
+      END,
+      'quantity', 1,
+      'unit_price_cents', (v_proration->>'charge_cents')::INTEGER,
+      'total_cents', (v_proration->>'charge_cents')::INTEGER
+    ));
+  END IF;
+
+  IF (v_proration->>'account_credit_applied_cents')::INTEGER > 0 THEN
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'type', 'account_credit',
+      'description', 'Account credit applied',
+      'quantity', 1,
+      'unit_price_cents', -(v_proration->>'account_credit_applied_cents')::INTEGER,
+      'total_cents', -(v_proration->>'account_credit_applied_cents')::INTEGER
+    ));
+  END IF;
+
+  UPDATE subscriptions SET
+    plan_id = v_plan.id,
+    billing_cycle = v_plan.billing_cycle,
+    price_cents = v_plan.price_cents,
+    stripe_price_id = v_plan.stripe_price_id,
+    seats_limit = v_plan.max_users,
+    machines_limit = v_plan.max_machines,
+    current_period_start = (v_proration->>'period_start')::TIMESTAMPTZ,
+    current_period_end = (v_proration->>'period_end')::TIMESTAMPTZ
+  WHERE id = v_subscription.id
+  RETURNING * INTO v_subscription;
+
+  IF jsonb_array_length(v_lines) > 0 THEN
+    v_net := (v_proration->>'charge_cents')::INTEGER
+      - (v_proration->>'credit_cents')::INTEGER
+      - (v_proration->>'account_credit_applied_cents')::INTEGER;
+
+    SELECT * INTO v_invoice FROM invoices
+    WHERE subscription_id = v_subscription.id
+      AND status IN ('draft', 'open')
+      AND stripe_invoice_id IS NULL
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_invoice.id IS NOT NULL THEN
+      -- Adjust the unpaid invoice; a credit larger than it goes to the account
+      v_subtotal := v_invoice.subtotal_cents + v_net;
+      v_carried := GREATEST(0, -v_subtotal);
+      v_subtotal := GREATEST(0, v_subtotal);
+
+      UPDATE invoices SET
+        subtotal_cents = v_subtotal,
+        tax_cents = ROUND(v_subtotal * COALESCE(v_subscription.tax_rate, 0)),
+        total_cents = v_subtotal + ROUND(v_subtotal * COALESCE(v_subscription.tax_rate, 0)),
+        line_items = COALESCE(line_items, '[]'::jsonb) || v_lines,
+        metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('adjusted_for_plan_change_at', v_now)
+      WHERE id = v_invoice.id
+      RETURNING * INTO v_invoice;
+    ELSE
+      v_carried := (v_proration->>'credit_carried_cents')::INTEGER;
+
+      INSERT INTO invoices (
+        organization_id, subscription_id, invoice_number, status,
+        subtotal_cents, tax_cents, total_cents, currency,
+        period_start, period_end, due_date, paid_at, line_items, metadata
+      ) VALUES (
+        v_subscription.organization_id,
+        v_subscription.id,
+        generate_invoice_number(),
+        CASE WHEN (v_proration->>'amount_due_cents')::INTEGER > 0 THEN 'open' ELSE 'paid' END,
+        (v_proration->>'subtotal_cents')::INTEGER,
+        (v_proration->>'tax_cents')::INTEGER,
+        (v_proration->>'amount_due_cents')::INTEGER,
+        v_subscription.currency,
+        v_now,
+        GREATEST(v_subscription.current_period_end, v_now + INTERVAL '1 day'),
+        v_now,
+        CASE WHEN (v_proration->>'amount_due_cents')::INTEGER > 0 THEN NULL ELSE v_now END,
+        v_lines,
+        jsonb_build_object('reason', 'plan_change')
+      )
+      RETURNING * INTO v_invoice;
+    END IF;
+
+    UPDATE organizations SET
+      account_credit_cents = account_credit_cents
+        - (v_proration->>'account_credit_applied_cents')::INTEGER
+        + v_carried
+    WHERE id = v_subscription.organization_id;
+  END IF;
+
+  INSERT INTO billing_events (
+    organization_id, subscription_id, invoice_id,
+    event_type, event_category, event_description,
+    event_data, previous_data, source, source_id
+  ) VALUES (
+    v_subscription.organization_id,
+    v_subscription.id,
+    v_invoice.id,
+    'subscription.plan_changed',
+    'subscription',
+    format('Plan changed from %s to %s', v_current_plan.name, v_plan.name),
+    v_proration || jsonb_build_object('invoice_id', v_invoice.id, 'credit_carried_cents', v_carried),
+    jsonb_build_object(
+      'plan_id', v_previous.plan_id,
+      'billing_cycle', v_previous.billing_cycle,
+      'price_cents', v_previous.price_cents,
+      'current_period_start', v_previous.current_period_start,
+      'current_period_end', v_previous.current_period_end
+    ),
+    'user',
+    auth.uid()::TEXT
+  );
+
+  RETURN v_proration || jsonb_build_object('invoice_id', v_invoice.id, 'credit_carried_cents', v_carried);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION calculate_subscription_proration(subscriptions, subscription_plans, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION load_subscription_change(UUID, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON COLUMN organizations.account_credit_cents IS 'Unused proration credit, applied to the next plan change invoice';
+COMMENT ON FUNCTION preview_subscription_change IS 'Day-based proration for a plan change, without applying it; billing admins only';
+COMMENT ON FUNCTION change_subscription_plan IS 'Apply a prorated plan change: updates the subscription and its period, invoices the difference and records a billing event';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP FUNCTION IF EXISTS change_subscription_plan(UUID, UUID);
+-- DROP FUNCTION IF EXISTS preview_subscription_change(UUID, UUID);
+-- DROP FUNCTION IF EXISTS load_subscription_change(UUID, UUID, BOOLEAN);
+-- DROP FUNCTION IF EXISTS calculate_subscription_proration(subscriptions, subscription_plans, TIMESTAMPTZ);
+-- ALTER TABLE organizations DROP COLUMN IF EXISTS account_credit_cents;
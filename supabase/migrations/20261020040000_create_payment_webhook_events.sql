@@ -0,0 +1,97 @@
+-- =====================================================
+-- Migration: Payment provider webhook events
+-- Created: 2026-10-20T04:00:00Z
+-- Tables: payment_webhook_events, billing_events
+-- Purpose: Store every verified webhook from the payment provider once per
+--          provider event id, track processing so each event is applied a
+--          single time, and keep failed events in a retry queue that ends
+--          in a dead letter state
+-- =====================================================
+
+-- =====================================================
+-- TABLE: payment_webhook_events
+-- Purpose: Inbox and retry/dead-letter queue for provider webhooks
+-- =====================================================
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider TEXT NOT NULL DEFAULT 'stripe' CHECK (provider IN ('stripe')),
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  livemode BOOLEAN NOT NULL DEFAULT false,
+  event_created_at TIMESTAMPTZ NOT NULL,
+  payload JSONB NOT NULL,
+
+  -- Processing state
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'processed', 'ignored', 'failed', 'dead_letter')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ,
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  processed_at TIMESTAMPTZ,
+
+  organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL, -- set once the event is matched
+
+  received_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT payment_webhook_events_unique_event UNIQUE (provider, event_id),
+  CONSTRAINT payment_webhook_events_attempts_positive CHECK (attempts >= 0)
+);
+
+-- Performance indexes
+CREATE INDEX IF NOT EXISTS payment_webhook_events_retry_idx
+  ON payment_webhook_events(next_attempt_at)
+  WHERE status = 'failed';
+CREATE INDEX IF NOT EXISTS payment_webhook_events_status_idx ON payment_webhook_events(status, received_at DESC);
+CREATE INDEX IF NOT EXISTS payment_webhook_events_organization_id_idx ON payment_webhook_events(organization_id);
+
+-- One billing event per provider event, so replays do not log twice
+CREATE UNIQUE INDEX IF NOT EXISTS billing_events_stripe_source_id_idx
+  ON billing_events(source_id)
+  WHERE source = 'stripe';
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_payment_webhook_events_updated_at ON payment_webhook_events;
+CREATE TRIGGER update_payment_webhook_events_updated_at
+  BEFORE UPDATE ON payment_webhook_events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =====================================================
+ALTER TABLE payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Written by the payment-webhooks edge function (service role); platform
+-- admins can inspect the queue
+CREATE POLICY "payment_webhook_events_select_admin"
+  ON payment_webhook_events FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON TABLE payment_webhook_events IS 'Verified payment provider webhooks, applied once per provider event id, with retry and dead-letter state';
+COMMENT ON COLUMN payment_webhook_events.next_attempt_at IS 'When a failed event is retried next';
+COMMENT ON COLUMN payment_webhook_events.locked_at IS 'When processing started; a stale lock lets another worker take the event over';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP INDEX IF EXISTS billing_events_stripe_source_id_idx;
+-- DROP TABLE IF EXISTS payment_webhook_events CASCADE;
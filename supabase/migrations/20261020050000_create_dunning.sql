@@ -0,0 +1,374 @@
+-- =====================================================
+-- Migration: Dunning for failed payments
+-- Created: 2026-10-20T05:00:00Z
+-- Tables: dunning_policies, dunning_cases, organizations
+-- Purpose: Open a dunning case when a payment fails, follow a configurable
+--          schedule of charge retries and billing emails, move the
+--          organization to a read-only grace state and then to suspended,
+--          and restore access as soon as the invoice is paid
+-- =====================================================
+
+-- Grace: members keep access but cannot add content until the invoice is paid
+ALTER TABLE organizations DROP CONSTRAINT IF EXISTS organizations_status_check;
+ALTER TABLE organizations ADD CONSTRAINT organizations_status_check
+  CHECK (status IN ('active', 'grace', 'suspended', 'cancelled', 'trial'));
+
+-- =====================================================
+-- TABLE: dunning_policies
+-- Purpose: Retry schedule and grace period; the row without an
+--          organization is the default for everyone else
+-- =====================================================
+CREATE TABLE IF NOT EXISTS dunning_policies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID UNIQUE REFERENCES organizations(id) ON DELETE CASCADE,
+
+  -- Days after the failed payment on which the charge is retried and the
+  -- billing contact is emailed
+  retry_days INTEGER[] NOT NULL DEFAULT '{1,3,7}',
+  -- Days in the read-only grace state before the organization is suspended
+  grace_days INTEGER NOT NULL DEFAULT 7,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT dunning_policies_retry_days_not_empty CHECK (cardinality(retry_days) > 0),
+  CONSTRAINT dunning_policies_retry_days_positive CHECK (0 < ALL (retry_days)),
+  CONSTRAINT dunning_policies_grace_days_positive CHECK (grace_days >= 0)
+);
+
+-- Only one default policy
+CREATE UNIQUE INDEX IF NOT EXISTS dunning_policies_default_idx
+  ON dunning_policies((organization_id IS NULL))
+  WHERE organization_id IS NULL;
+
+INSERT INTO dunning_policies (organization_id)
+SELECT NULL
+WHERE NOT EXISTS (SELECT 1 FROM dunning_policies WHERE organization_id IS NULL);
+
+-- =====================================================
+-- TABLE: dunning_cases
+-- Purpose: One row per unpaid invoice being chased
+-- =====================================================
+CREATE TABLE IF NOT EXISTS dunning_cases (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  invoice_id UUID REFERENCES invoices(id) ON DELETE CASCADE NOT NULL,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL, -- the failure that opened the case
+
+  -- Policy at the time the case opened, so later edits do not move it
+  retry_days INTEGER[] NOT NULL,
+  grace_days INTEGER NOT NULL,
+
+  stage TEXT NOT NULL DEFAULT 'retrying'
+    CHECK (stage IN ('retrying', 'grace', 'suspended', 'recovered', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0, -- retries made so far
+  next_action_at TIMESTAMPTZ,          -- next retry, or the end of grace
+
+  started_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  grace_started_at TIMESTAMPTZ,
+  suspended_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT dunning_cases_attempts_positive CHECK (attempts >= 0)
+);
+
+-- Performance indexes
+CREATE UNIQUE INDEX IF NOT EXISTS dunning_cases_open_invoice_idx
+  ON dunning_cases(invoice_id)
+  WHERE stage IN ('retrying', 'grace', 'suspended');
+CREATE INDEX IF NOT EXISTS dunning_cases_due_idx
+  ON dunning_cases(next_action_at)
+  WHERE stage IN ('retrying', 'grace');
+CREATE INDEX IF NOT EXISTS dunning_cases_organization_id_idx ON dunning_cases(organization_id, started_at DESC);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_dunning_policies_updated_at ON dunning_policies;
+CREATE TRIGGER update_dunning_policies_updated_at
+  BEFORE UPDATE ON dunning_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_dunning_cases_updated_at ON dunning_cases;
+CREATE TRIGGER update_dunning_cases_updated_at
+  BEFORE UPDATE ON dunning_cases
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Open a case when a payment for an unpaid invoice fails. Retries that fail
+-- again land on the open case, which the dunning function advances.
+CREATE OR REPLACE FUNCTION open_dunning_case()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invoice invoices;
+  v_policy dunning_policies;
+  v_case_id UUID;
+  v_next_action_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = NEW.invoice_id;
+  IF v_invoice.id IS NULL OR v_invoice.status NOT IN ('draft', 'open') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_policy FROM dunning_policies
+  WHERE organization_id = NEW.organization_id OR organization_id IS NULL
+  ORDER BY organization_id NULLS LAST
+  LIMIT 1;
+
+  IF v_policy.id IS NULL OR NOT v_policy.enabled THEN
+    RETURN NEW;
+  END IF;
+
+  v_next_action_at := NOW() + make_interval(days => v_policy.retry_days[1]);
+
+  INSERT INTO dunning_cases (organization_id, invoice_id, payment_id, retry_days, grace_days, next_action_at)
+  VALUES (NEW.organization_id, NEW.invoice_id, NEW.id, v_policy.retry_days, v_policy.grace_days, v_next_action_at)
+  ON CONFLICT (invoice_id) WHERE stage IN ('retrying', 'grace', 'suspended') DO NOTHING
+  RETURNING id INTO v_case_id;
+
+  IF v_case_id IS NOT NULL THEN
+    INSERT INTO billing_events (
+      organization_id, subscription_id, invoice_id, payment_id,
+      event_type, event_category, event_description, event_data, source
+    ) VALUES (
+      NEW.organization_id, v_invoice.subscription_id, NEW.invoice_id, NEW.id,
+      'dunning.started', 'dunning',
+      format('Payment for invoice %s failed; retrying on days %s',
+        v_invoice.invoice_number, array_to_string(v_policy.retry_days, ', ')),
+      jsonb_build_object(
+        'case_id', v_case_id,
+        'retry_days', v_policy.retry_days,
+        'grace_days', v_policy.grace_days,
+        'next_action_at', v_next_action_at,
+        'failure_message', NEW.metadata->>'failure_message'
+      ),
+      'system'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS open_dunning_case_trigger ON payments;
+CREATE TRIGGER open_dunning_case_trigger
+  AFTER INSERT OR UPDATE OF status ON payments
+  FOR EACH ROW
+  WHEN (NEW.status = 'failed')
+  EXECUTE FUNCTION open_dunning_case();
+
+-- Close open cases once the invoice is paid (or voided) and give the
+-- organization its access back when nothing else is overdue
+CREATE OR REPLACE FUNCTION close_dunning_cases()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_case dunning_cases;
+  v_restored INTEGER;
+BEGIN
+  FOR v_case IN
+    UPDATE dunning_cases
+    SET stage = CASE WHEN NEW.status = 'paid' THEN 'recovered' ELSE 'cancelled' END,
+        next_action_at = NULL,
+        resolved_at = NOW()
+    WHERE invoice_id = NEW.id
+      AND stage IN ('retrying', 'grace', 'suspended')
+    RETURNING *
+  LOOP
+    INSERT INTO billing_events (
+      organization_id, subscription_id, invoice_id,
+      event_type, event_category, event_description, event_data, source
+    ) VALUES (
+      v_case.organization_id, NEW.subscription_id, NEW.id,
+      'dunning.' || v_case.stage, 'dunning',
+      CASE WHEN v_case.stage = 'recovered'
+        THEN format('Invoice %s was paid after %s retries', NEW.invoice_number, v_case.attempts)
+        ELSE format('Invoice %s was voided; dunning stopped', NEW.invoice_number)
+      END,
+      jsonb_build_object('case_id', v_case.id, 'attempts', v_case.attempts),
+      'system'
+    );
+  END LOOP;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE organizations
+  SET status = 'active'
+  WHERE id = NEW.organization_id
+    AND status IN ('grace', 'suspended')
+    AND NOT EXISTS (
+      SELECT 1 FROM dunning_cases
+      WHERE organization_id = NEW.organization_id
+        AND stage IN ('grace', 'suspended')
+    );
+  GET DIAGNOSTICS v_restored = ROW_COUNT;
+
+  IF v_restored > 0 THEN
+    INSERT INTO billing_events (
+      organization_id, subscription_id, invoice_id,
+      event_type, event_category, event_description, source
+    ) VALUES (
+      NEW.organization_id, NEW.subscription_id, NEW.id,
+      'dunning.access_restored', 'dunning', 'Organization access restored', 'system'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS close_dunning_cases_trigger ON invoices;
+CREATE TRIGGER close_dunning_cases_trigger
+  AFTER UPDATE OF status ON invoices
+  FOR EACH ROW
+  WHEN (NEW.status IN ('paid', 'void') AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION close_dunning_cases();
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Same as before, but an organization in grace or suspended cannot add
+-- anything until the overdue invoice is paid
+CREATE OR REPLACE FUNCTION plan_entitlement(p_organization_id UUID, p_resource TEXT, p_amount BIGINT DEFAULT 1)
+RETURNS JSONB AS $$
+DECLARE
+  v_subscription subscriptions;
+  v_plan subscription_plans;
+  v_usage RECORD;
+  v_limit BIGINT;
+  v_used BIGINT;
+  v_organization_status TEXT;
+BEGIN
+  IF p_resource NOT IN ('users', 'machines', 'storage', 'videos', 'courses') THEN
+    RAISE EXCEPTION 'Unknown plan resource: %', p_resource USING ERRCODE = '22023';
+  END IF;
+
+  SELECT status INTO v_organization_status FROM organizations WHERE id = p_organization_id;
+
+  SELECT * INTO v_subscription FROM subscriptions
+  WHERE organization_id = p_organization_id
+    AND status IN ('trial', 'active', 'past_due')
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_subscription.id IS NOT NULL THEN
+    SELECT * INTO v_plan FROM subscription_plans WHERE id = v_subscription.plan_id;
+  END IF;
+
+  SELECT * INTO v_usage FROM organization_usage(p_organization_id);
+
+  CASE p_resource
+    WHEN 'users' THEN
+      v_limit := COALESCE(v_subscription.seats_limit, v_plan.max_users);
+      v_used := v_usage.users_used + v_usage.pending_invitations;
+    WHEN 'machines' THEN
+      v_limit := COALESCE(v_subscription.machines_limit, v_plan.max_machines);
+      v_used := v_usage.machines_used;
+    WHEN 'storage' THEN
+      v_limit := v_plan.max_storage_gb::BIGINT * 1073741824;
+      v_used := v_usage.storage_used_bytes;
+    WHEN 'videos' THEN
+      v_limit := v_plan.max_videos;
+      v_used := v_usage.videos_used;
+    WHEN 'courses' THEN
+      v_limit := v_plan.max_courses;
+      v_used := v_usage.courses_used;
+  END CASE;
+
+  RETURN jsonb_build_object(
+    'organization_id', p_organization_id,
+    'organization_status', v_organization_status,
+    'subscription_id', v_subscription.id,
+    'plan_name', v_plan.name,
+    'plan_type', v_plan.plan_type,
+    'resource', p_resource,
+    'limit', v_limit,
+    'used', v_used,
+    'requested', p_amount,
+    'allowed', COALESCE(v_organization_status NOT IN ('grace', 'suspended'), true)
+      AND (v_limit IS NULL OR v_used + p_amount <= v_limit)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION plan_entitlement(UUID, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION open_dunning_case() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION close_dunning_cases() FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =====================================================
+ALTER TABLE dunning_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dunning_cases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "dunning_policies_select_member"
+  ON dunning_policies FOR SELECT
+  USING (
+    organization_id IS NULL
+    OR organization_id IN (
+      SELECT organization_id FROM user_organizations WHERE user_id = auth.uid()
+    )
+  );
+
+-- The schedule is set by platform admins
+CREATE POLICY "dunning_policies_manage_admin"
+  ON dunning_policies FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
+
+-- Cases are written by the triggers above and the dunning edge function
+CREATE POLICY "dunning_cases_select_member"
+  ON dunning_cases FOR SELECT
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM user_organizations WHERE user_id = auth.uid()
+    )
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON TABLE dunning_policies IS 'Dunning schedule per organization; the row without an organization is the default';
+COMMENT ON COLUMN dunning_policies.retry_days IS 'Days after the failed payment on which the charge is retried and billing contacts are emailed';
+COMMENT ON COLUMN dunning_policies.grace_days IS 'Days in the read-only grace state before the organization is suspended';
+COMMENT ON TABLE dunning_cases IS 'Unpaid invoices being chased after a failed payment, from retries through grace to suspension or recovery';
+COMMENT ON COLUMN dunning_cases.next_action_at IS 'When the dunning function next retries the charge or ends the grace period';
+COMMENT ON FUNCTION plan_entitlement(UUID, TEXT, BIGINT) IS 'Plan limit check for a resource; never allowed while the organization is in grace or suspended';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP TRIGGER IF EXISTS close_dunning_cases_trigger ON invoices;
+-- DROP TRIGGER IF EXISTS open_dunning_case_trigger ON payments;
+-- DROP FUNCTION IF EXISTS close_dunning_cases();
+-- DROP FUNCTION IF EXISTS open_dunning_case();
+-- DROP TABLE IF EXISTS dunning_cases CASCADE;
+-- DROP TABLE IF EXISTS dunning_policies CASCADE;
+-- UPDATE organizations SET status = 'active' WHERE status = 'grace';
+-- ALTER TABLE organizations DROP CONSTRAINT IF EXISTS organizations_status_check;
+-- ALTER TABLE organizations ADD CONSTRAINT organizations_status_check
+--   CHECK (status IN ('active', 'suspended', 'cancelled', 'trial'));
+-- Then re-run plan_entitlement from 20261020020000_add_plan_entitlements.sql
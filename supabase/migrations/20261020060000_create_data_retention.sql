@@ -0,0 +1,480 @@
+-- =====================================================
+-- Migration: Data retention enforcement
+-- Created: 2026-10-20T06:00:00Z
+-- Tables: data_retention_policies, legal_holds, data_retention_archive,
+--         data_retention_signing_keys, data_retention_runs
+-- Purpose: Enforce the archive and delete ages of the security data types
+--          (audit_logs, user_sessions, failed_login_attempts,
+--          security_events), skip anything under a legal hold, support dry
+--          runs, and keep a signed report of every run for compliance
+-- =====================================================
+
+-- Enable pgcrypto for HMAC signatures and key generation
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+
+-- =====================================================
+-- TABLE: data_retention_policies
+-- Purpose: Archive and delete ages per data type. Seeded from
+--          DEFAULT_SECURITY_SETTINGS.compliance.retentionPolicies.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS data_retention_policies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  data_type TEXT NOT NULL UNIQUE
+    CHECK (data_type IN ('audit_logs', 'user_sessions', 'failed_login_attempts', 'security_events')),
+  retention_period_days INTEGER NOT NULL,
+  archive_after_days INTEGER NOT NULL,
+  delete_after_days INTEGER NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT data_retention_policies_archive_positive CHECK (archive_after_days > 0),
+  CONSTRAINT data_retention_policies_archive_before_delete CHECK (archive_after_days <= delete_after_days)
+);
+
+INSERT INTO data_retention_policies (name, description, data_type, retention_period_days, archive_after_days, delete_after_days)
+VALUES
+  ('Audit logs', 'Archive after 1 year, delete after 7 years', 'audit_logs', 2555, 365, 2555),
+  ('User sessions', 'Archive after 30 days, delete after 90 days', 'user_sessions', 90, 30, 90),
+  ('Failed login attempts', 'Archive after 7 days, delete after 30 days', 'failed_login_attempts', 30, 7, 30),
+  ('Security events', 'Archive after 90 days, delete after 1 year', 'security_events', 365, 90, 365)
+ON CONFLICT (data_type) DO NOTHING;
+
+-- =====================================================
+-- TABLE: legal_holds
+-- Purpose: Data that must be kept whatever its age. A hold without a data
+--          type covers every type; one without a user covers every row.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS legal_holds (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  case_reference TEXT,
+  data_type TEXT
+    CHECK (data_type IN ('audit_logs', 'user_sessions', 'failed_login_attempts', 'security_events')),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  released_at TIMESTAMPTZ,
+  released_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT legal_holds_name_not_empty CHECK (length(trim(name)) > 0),
+  CONSTRAINT legal_holds_reason_not_empty CHECK (length(trim(reason)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS legal_holds_active_idx ON legal_holds(data_type, user_id) WHERE released_at IS NULL;
+
+-- =====================================================
+-- TABLE: data_retention_archive
+-- Purpose: Rows past their archive age, moved out of the live tables.
+--          row_data is JSONB, which Postgres stores compressed.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS data_retention_archive (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  data_type TEXT NOT NULL,
+  source_id UUID NOT NULL,
+  row_data JSONB NOT NULL,
+  row_created_at TIMESTAMPTZ NOT NULL,
+  run_id UUID, -- the run that archived the row
+  archived_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT data_retention_archive_unique_row UNIQUE (data_type, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS data_retention_archive_created_idx ON data_retention_archive(data_type, row_created_at);
+
+-- =====================================================
+-- TABLE: data_retention_signing_keys
+-- Purpose: HMAC keys for run reports. Never readable by clients; only the
+--          SECURITY DEFINER functions below use them.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS data_retention_signing_keys (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  secret BYTEA DEFAULT gen_random_bytes(32) NOT NULL,
+  is_active BOOLEAN DEFAULT true NOT NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  retired_at TIMESTAMPTZ,
+
+  -- Constraints
+  CONSTRAINT data_retention_signing_keys_secret_length CHECK (length(secret) >= 32)
+);
+
+-- Only one key signs new reports; retired keys still verify old ones
+CREATE UNIQUE INDEX IF NOT EXISTS data_retention_signing_keys_active_idx
+  ON data_retention_signing_keys(is_active) WHERE is_active;
+
+INSERT INTO data_retention_signing_keys (is_active)
+SELECT true
+WHERE NOT EXISTS (SELECT 1 FROM data_retention_signing_keys WHERE is_active);
+
+-- =====================================================
+-- TABLE: data_retention_runs
+-- Purpose: One row per retention run with its signed report
+-- =====================================================
+CREATE TABLE IF NOT EXISTS data_retention_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  dry_run BOOLEAN NOT NULL,
+  triggered_by UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for the scheduled job
+  status TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'completed_with_errors')),
+
+  report JSONB,
+  signature TEXT,
+  signature_key_id UUID REFERENCES data_retention_signing_keys(id),
+
+  started_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS data_retention_runs_started_at_idx ON data_retention_runs(started_at DESC);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_data_retention_policies_updated_at ON data_retention_policies;
+CREATE TRIGGER update_data_retention_policies_updated_at
+  BEFORE UPDATE ON data_retention_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_legal_holds_updated_at ON legal_holds;
+CREATE TRIGGER update_legal_holds_updated_at
+  BEFORE UPDATE ON legal_holds
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Whether an active legal hold covers a row. Rows are matched on user_id,
+-- and failed_login_attempts (which only has an email) on the held user's email.
+CREATE OR REPLACE FUNCTION legal_hold_applies(p_data_type TEXT, p_row JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM legal_holds h
+    WHERE h.released_at IS NULL
+      AND (h.data_type IS NULL OR h.data_type = p_data_type)
+      AND (
+        h.user_id IS NULL
+        OR h.user_id::TEXT = p_row->>'user_id'
+        OR lower(p_row->>'email') = (SELECT lower(email) FROM auth.users WHERE id = h.user_id)
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Hex HMAC-SHA256 of a run report with the given key. JSONB output has a
+-- fixed key order, so the report text is canonical.
+CREATE OR REPLACE FUNCTION compute_data_retention_signature(p_report JSONB, p_key_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_secret BYTEA;
+BEGIN
+  SELECT secret INTO v_secret FROM data_retention_signing_keys WHERE id = p_key_id;
+
+  IF v_secret IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN encode(hmac(convert_to(p_report::TEXT, 'UTF8'), v_secret, 'sha256'), 'hex');
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Apply every active policy. Rows past their archive age move to
+-- data_retention_archive; rows past their delete age are deleted from the
+-- live table and the archive. Held rows are left alone and counted. A dry
+-- run only counts. Each step handles at most p_max_rows rows per data type;
+-- the report shows what is left for the next run.
+CREATE OR REPLACE FUNCTION run_data_retention(p_dry_run BOOLEAN, p_max_rows INTEGER DEFAULT 10000)
+RETURNS data_retention_runs AS $$
+DECLARE
+  v_run data_retention_runs;
+  v_policy data_retention_policies;
+  v_archive_before TIMESTAMPTZ;
+  v_delete_before TIMESTAMPTZ;
+  v_in_use TEXT;
+  v_counts RECORD;
+  v_archived BIGINT;
+  v_deleted BIGINT;
+  v_purged BIGINT;
+  v_results JSONB := '[]'::JSONB;
+  v_failed BOOLEAN := false;
+  v_report JSONB;
+  v_key_id UUID;
+BEGIN
+  -- Platform admins, or the scheduled job running with the service role
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only platform admins can run data retention' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_max_rows IS NULL OR p_max_rows < 1 THEN
+    RAISE EXCEPTION 'p_max_rows must be positive' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO data_retention_runs (dry_run, triggered_by)
+  VALUES (p_dry_run, auth.uid())
+  RETURNING * INTO v_run;
+
+  FOR v_policy IN SELECT * FROM data_retention_policies WHERE is_active ORDER BY data_type LOOP
+    v_archive_before := v_run.started_at - make_interval(days => v_policy.archive_after_days);
+    v_delete_before := v_run.started_at - make_interval(days => v_policy.delete_after_days);
+    v_archived := 0;
+    v_deleted := 0;
+    v_purged := 0;
+    -- Sessions still in use are never moved, whatever their age
+    v_in_use := CASE WHEN v_policy.data_type = 'user_sessions'
+      THEN 'COALESCE(is_active AND expires_at > NOW(), false)'
+      ELSE 'false'
+    END;
+
+    BEGIN
+      EXECUTE format($sql$
+        SELECT
+          (SELECT count(*) FROM %1$I t
+            WHERE t.created_at < $1 AND t.created_at >= $2 AND NOT %2$s
+              AND NOT legal_hold_applies($3, to_jsonb(t))) AS archive_due,
+          (SELECT count(*) FROM %1$I t
+            WHERE t.created_at < $2 AND NOT %2$s
+              AND NOT legal_hold_applies($3, to_jsonb(t))) AS delete_due,
+          (SELECT count(*) FROM data_retention_archive a
+            WHERE a.data_type = $3 AND a.row_created_at < $2 AND NOT legal_hold_applies($3, a.row_data)) AS purge_due,
+          (SELECT count(*) FROM %1$I t
+            WHERE t.created_at < $1 AND legal_hold_applies($3, to_jsonb(t)))
+          + (SELECT count(*) FROM data_retention_archive a
+            WHERE a.data_type = $3 AND a.row_created_at < $2 AND legal_hold_applies($3, a.row_data)) AS held
+      $sql$, v_policy.data_type, v_in_use)
+      INTO v_counts
+      USING v_archive_before, v_delete_before, v_policy.data_type;
+
+      IF NOT p_dry_run THEN
+        EXECUTE format($sql$
+          WITH moved AS (
+            DELETE FROM %1$I t
+            WHERE t.id IN (
+              SELECT s.id FROM %1$I s
+              WHERE s.created_at < $1 AND s.created_at >= $2 AND NOT %2$s
+                AND NOT legal_hold_applies($3, to_jsonb(s))
+              ORDER BY s.created_at
+              LIMIT $4
+            )
+            RETURNING t.*
+          )
+          INSERT INTO data_retention_archive (data_type, source_id, row_data, row_created_at, run_id)
+          SELECT $3, m.id, to_jsonb(m), m.created_at, $5 FROM moved m
+          ON CONFLICT (data_type, source_id) DO NOTHING
+        $sql$, v_policy.data_type, v_in_use)
+        USING v_archive_before, v_delete_before, v_policy.data_type, p_max_rows, v_run.id;
+        GET DIAGNOSTICS v_archived = ROW_COUNT;
+
+        EXECUTE format($sql$
+          DELETE FROM %1$I t
+          WHERE t.id IN (
+            SELECT s.id FROM %1$I s
+            WHERE s.created_at < $1 AND NOT %2$s
+              AND NOT legal_hold_applies($2, to_jsonb(s))
+            ORDER BY s.created_at
+            LIMIT $3
+          )
+        $sql$, v_policy.data_type, v_in_use)
+        USING v_delete_before, v_policy.data_type, p_max_rows;
+        GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+        DELETE FROM data_retention_archive a
+        WHERE a.id IN (
+          SELECT s.id FROM data_retention_archive s
+          WHERE s.data_type = v_policy.data_type
+            AND s.row_created_at < v_delete_before
+            AND NOT legal_hold_applies(v_policy.data_type, s.row_data)
+          ORDER BY s.row_created_at
+          LIMIT p_max_rows
+        );
+        GET DIAGNOSTICS v_purged = ROW_COUNT;
+      END IF;
+
+      v_results := v_results || jsonb_build_object(
+        'data_type', v_policy.data_type,
+        'policy_id', v_policy.id,
+        'archive_after_days', v_policy.archive_after_days,
+        'delete_after_days', v_policy.delete_after_days,
+        'archive_before', v_archive_before,
+        'delete_before', v_delete_before,
+        'archive_due', v_counts.archive_due,
+        'delete_due', v_counts.delete_due,
+        'purge_due', v_counts.purge_due,
+        'held', v_counts.held,
+        'archived', v_archived,
+        'deleted', v_deleted,
+        'purged', v_purged,
+        'remaining', CASE WHEN p_dry_run THEN NULL
+          ELSE (v_counts.archive_due - v_archived) + (v_counts.delete_due - v_deleted) + (v_counts.purge_due - v_purged)
+        END
+      );
+    EXCEPTION WHEN OTHERS THEN
+      -- This data type's changes are rolled back; the others still apply
+      v_failed := true;
+      v_results := v_results || jsonb_build_object(
+        'data_type', v_policy.data_type,
+        'policy_id', v_policy.id,
+        'error', SQLERRM
+      );
+    END;
+  END LOOP;
+
+  v_report := jsonb_build_object(
+    'run_id', v_run.id,
+    'dry_run', p_dry_run,
+    'triggered_by', v_run.triggered_by,
+    'started_at', to_char(v_run.started_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+    'finished_at', to_char(clock_timestamp() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+    'max_rows', p_max_rows,
+    'legal_holds', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'name', name, 'data_type', data_type, 'user_id', user_id) ORDER BY created_at)
+      FROM legal_holds WHERE released_at IS NULL
+    ), '[]'::JSONB),
+    'policies', v_results
+  );
+
+  SELECT id INTO v_key_id FROM data_retention_signing_keys WHERE is_active;
+
+  IF v_key_id IS NULL THEN
+    RAISE EXCEPTION 'No active data retention signing key';
+  END IF;
+
+  UPDATE data_retention_runs
+  SET status = CASE WHEN v_failed THEN 'completed_with_errors' ELSE 'completed' END,
+      report = v_report,
+      signature = compute_data_retention_signature(v_report, v_key_id),
+      signature_key_id = v_key_id,
+      finished_at = clock_timestamp()
+  WHERE id = v_run.id
+  RETURNING * INTO v_run;
+
+  RETURN v_run;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Check that a stored run report is the one the job signed
+CREATE OR REPLACE FUNCTION verify_data_retention_run(p_run_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_run data_retention_runs;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only platform admins can verify retention runs' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_run FROM data_retention_runs WHERE id = p_run_id;
+
+  IF v_run.id IS NULL THEN
+    RETURN jsonb_build_object('run_id', p_run_id, 'status', 'not_found', 'is_valid', false);
+  END IF;
+
+  IF v_run.signature IS NULL THEN
+    RETURN jsonb_build_object('run_id', p_run_id, 'status', 'unsigned', 'is_valid', false);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'run_id', p_run_id,
+    'status', CASE
+      WHEN v_run.signature = compute_data_retention_signature(v_run.report, v_run.signature_key_id) THEN 'valid'
+      ELSE 'tampered'
+    END,
+    'is_valid', v_run.signature = compute_data_retention_signature(v_run.report, v_run.signature_key_id),
+    'signature', v_run.signature,
+    'signature_key_id', v_run.signature_key_id,
+    'verified_at', NOW()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Internal helpers
+REVOKE EXECUTE ON FUNCTION legal_hold_applies(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION compute_data_retention_signature(JSONB, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION run_data_retention(BOOLEAN, INTEGER) FROM PUBLIC, anon;
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =====================================================
+ALTER TABLE data_retention_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE legal_holds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE data_retention_archive ENABLE ROW LEVEL SECURITY;
+ALTER TABLE data_retention_signing_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE data_retention_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "data_retention_policies_admin_only"
+  ON data_retention_policies FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
+
+CREATE POLICY "legal_holds_admin_only"
+  ON legal_holds FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
+
+CREATE POLICY "data_retention_archive_select_admin"
+  ON data_retention_archive FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
+
+-- Runs are written by run_data_retention only
+CREATE POLICY "data_retention_runs_select_admin"
+  ON data_retention_runs FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
+
+-- data_retention_signing_keys has no policies: no client access
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON TABLE data_retention_policies IS 'Archive and delete ages enforced by run_data_retention';
+COMMENT ON TABLE legal_holds IS 'Holds that keep data regardless of retention; active while released_at is NULL';
+COMMENT ON TABLE data_retention_archive IS 'Rows moved out of the live tables once past their archive age';
+COMMENT ON TABLE data_retention_signing_keys IS 'HMAC keys for retention run reports; server-side only';
+COMMENT ON TABLE data_retention_runs IS 'Retention runs with their HMAC-signed reports';
+COMMENT ON FUNCTION run_data_retention(BOOLEAN, INTEGER) IS 'Archive and delete expired security data outside legal holds; dry run only counts';
+COMMENT ON FUNCTION verify_data_retention_run(UUID) IS 'Check a retention run report against its signature: valid, tampered, unsigned or not_found';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP FUNCTION IF EXISTS verify_data_retention_run(UUID);
+-- DROP FUNCTION IF EXISTS run_data_retention(BOOLEAN, INTEGER);
+-- DROP FUNCTION IF EXISTS compute_data_retention_signature(JSONB, UUID);
+-- DROP FUNCTION IF EXISTS legal_hold_applies(TEXT, JSONB);
+-- DROP TABLE IF EXISTS data_retention_runs CASCADE;
+-- DROP TABLE IF EXISTS data_retention_signing_keys CASCADE;
+-- DROP TABLE IF EXISTS data_retention_archive CASCADE;
+-- DROP TABLE IF EXISTS legal_holds CASCADE;
+-- DROP TABLE IF EXISTS data_retention_policies CASCADE;
@@ -0,0 +1,453 @@
+-- =====================================================
+-- Migration: Data subject requests (GDPR / CCPA)
+-- Created: 2026-10-20T07:00:00Z
+-- Tables: data_subject_requests, data_subject_request_events,
+--         storage.buckets, storage.objects
+-- Modifies: videos, video_transcripts, user_roles, user_activity,
+--           learning_analytics (user foreign keys)
+-- Purpose: Track access and erasure requests with their statutory
+--          deadline, identity verification and an audit trail; store
+--          export archives; erase a subject by anonymizing authored reels
+--          and analytics and deleting the account
+-- =====================================================
+
+-- =====================================================
+-- TABLE: data_subject_requests
+-- Purpose: One row per request. due_at is set from the regulation when the
+--          request is received; extended_due_at records a lawful extension.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS data_subject_requests (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_type TEXT NOT NULL CHECK (request_type IN ('access', 'erasure')),
+  regulation TEXT NOT NULL CHECK (regulation IN ('gdpr', 'ccpa')),
+
+  -- Subject; subject_user_id is cleared when the account is erased
+  subject_email TEXT NOT NULL,
+  subject_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  status TEXT NOT NULL DEFAULT 'received'
+    CHECK (status IN ('received', 'verifying', 'in_progress', 'completed', 'rejected')),
+  rejection_reason TEXT,
+
+  -- Identity verification
+  identity_verification_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (identity_verification_status IN ('pending', 'verified', 'failed')),
+  verification_method TEXT,
+  verified_at TIMESTAMPTZ,
+  verified_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  -- Deadlines
+  received_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  due_at TIMESTAMPTZ NOT NULL,
+  extended_due_at TIMESTAMPTZ,
+  extension_reason TEXT,
+  completed_at TIMESTAMPTZ,
+
+  -- Access requests: latest export archive in the data-subject-exports bucket
+  export_path TEXT,
+  export_sha256 TEXT,
+  exported_at TIMESTAMPTZ,
+
+  -- Erasure requests: rows anonymized and deleted, set by erase_data_subject
+  erasure_summary JSONB,
+
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- actor for service-role writes
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT data_subject_requests_email_not_empty CHECK (length(trim(subject_email)) > 0),
+  -- GDPR allows two more months and CCPA 45 more days; both end 90 days after receipt
+  CONSTRAINT data_subject_requests_extension_valid CHECK (
+    extended_due_at IS NULL
+    OR (extended_due_at > due_at
+        AND extended_due_at <= received_at + INTERVAL '90 days'
+        AND length(trim(COALESCE(extension_reason, ''))) > 0)
+  ),
+  CONSTRAINT data_subject_requests_rejection_reason CHECK (
+    status <> 'rejected' OR length(trim(COALESCE(rejection_reason, ''))) > 0
+  )
+);
+
+CREATE INDEX IF NOT EXISTS data_subject_requests_open_idx
+  ON data_subject_requests(due_at) WHERE status NOT IN ('completed', 'rejected');
+CREATE INDEX IF NOT EXISTS data_subject_requests_subject_email_idx ON data_subject_requests(lower(subject_email));
+CREATE INDEX IF NOT EXISTS data_subject_requests_subject_user_idx ON data_subject_requests(subject_user_id);
+
+-- =====================================================
+-- TABLE: data_subject_request_events
+-- Purpose: Audit trail, written by the request triggers only
+-- =====================================================
+CREATE TABLE IF NOT EXISTS data_subject_request_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id UUID REFERENCES data_subject_requests(id) ON DELETE CASCADE NOT NULL,
+  event_type TEXT NOT NULL,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  details JSONB DEFAULT '{}'::jsonb NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS data_subject_request_events_request_idx
+  ON data_subject_request_events(request_id, created_at);
+
+-- =====================================================
+-- FOREIGN KEYS: anonymizable user references
+-- Purpose: Reels and analytics outlive an erased account with user_id set
+--          to NULL instead of being deleted with it
+-- =====================================================
+ALTER TABLE videos ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE videos DROP CONSTRAINT IF EXISTS videos_user_id_fkey;
+ALTER TABLE videos ADD CONSTRAINT videos_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE videos DROP CONSTRAINT IF EXISTS videos_moderated_by_fkey;
+ALTER TABLE videos ADD CONSTRAINT videos_moderated_by_fkey
+  FOREIGN KEY (moderated_by) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE video_transcripts DROP CONSTRAINT IF EXISTS video_transcripts_edited_by_fkey;
+ALTER TABLE video_transcripts ADD CONSTRAINT video_transcripts_edited_by_fkey
+  FOREIGN KEY (edited_by) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE user_roles DROP CONSTRAINT IF EXISTS user_roles_assigned_by_fkey;
+ALTER TABLE user_roles ADD CONSTRAINT user_roles_assigned_by_fkey
+  FOREIGN KEY (assigned_by) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE user_activity ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE user_activity DROP CONSTRAINT IF EXISTS user_activity_user_id_fkey;
+ALTER TABLE user_activity ADD CONSTRAINT user_activity_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE learning_analytics ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE learning_analytics DROP CONSTRAINT IF EXISTS learning_analytics_user_id_fkey;
+ALTER TABLE learning_analytics ADD CONSTRAINT learning_analytics_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- =====================================================
+-- BUCKET: data-subject-exports
+-- Private; platform admins download archives through the storage API.
+-- Files are written by the data-subject-requests edge function only.
+-- =====================================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'data-subject-exports',
+  'data-subject-exports',
+  false,
+  104857600, -- 100 MB
+  ARRAY['application/zip']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_data_subject_requests_updated_at ON data_subject_requests;
+CREATE TRIGGER update_data_subject_requests_updated_at
+  BEFORE UPDATE ON data_subject_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Set the deadline and link the account on receipt; enforce the workflow
+-- on every change
+CREATE OR REPLACE FUNCTION prepare_data_subject_request()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.subject_email := lower(trim(NEW.subject_email));
+    NEW.due_at := NEW.received_at + CASE NEW.regulation
+      WHEN 'gdpr' THEN INTERVAL '30 days'
+      ELSE INTERVAL '45 days'
+    END;
+    IF NEW.subject_user_id IS NULL THEN
+      SELECT id INTO NEW.subject_user_id FROM auth.users WHERE lower(email) = NEW.subject_email;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.received_at IS DISTINCT FROM OLD.received_at OR NEW.due_at IS DISTINCT FROM OLD.due_at THEN
+    RAISE EXCEPTION 'The received date and deadline of a request cannot change; record an extension instead'
+      USING ERRCODE = '55000';
+  END IF;
+
+  IF OLD.status IN ('completed', 'rejected') AND NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'Request % is already %', OLD.id, OLD.status USING ERRCODE = '55000';
+  END IF;
+
+  IF NEW.identity_verification_status IS DISTINCT FROM OLD.identity_verification_status THEN
+    NEW.verified_at := CASE WHEN NEW.identity_verification_status = 'pending' THEN NULL ELSE NOW() END;
+    NEW.verified_by := CASE WHEN NEW.identity_verification_status = 'pending' THEN NULL
+      ELSE COALESCE(auth.uid(), NEW.updated_by)
+    END;
+  END IF;
+
+  IF NEW.status = 'completed' AND OLD.status <> 'completed' THEN
+    IF NEW.identity_verification_status <> 'verified' THEN
+      RAISE EXCEPTION 'Verify the subject''s identity before completing the request' USING ERRCODE = '55000';
+    END IF;
+    IF NEW.request_type = 'access' AND NEW.export_path IS NULL THEN
+      RAISE EXCEPTION 'Generate the export archive before completing an access request' USING ERRCODE = '55000';
+    END IF;
+    IF NEW.request_type = 'erasure' AND NEW.erasure_summary IS NULL THEN
+      RAISE EXCEPTION 'Erasure requests are completed by running the erasure' USING ERRCODE = '55000';
+    END IF;
+    NEW.completed_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS prepare_data_subject_request_trigger ON data_subject_requests;
+CREATE TRIGGER prepare_data_subject_request_trigger
+  BEFORE INSERT OR UPDATE ON data_subject_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_data_subject_request();
+
+-- Record each step of a request in its audit trail
+CREATE OR REPLACE FUNCTION log_data_subject_request_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_actor UUID := COALESCE(auth.uid(), NEW.updated_by);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO data_subject_request_events (request_id, event_type, actor_id, details)
+    VALUES (NEW.id, 'received', COALESCE(v_actor, NEW.created_by), jsonb_build_object(
+      'request_type', NEW.request_type,
+      'regulation', NEW.regulation,
+      'subject_email', NEW.subject_email,
+      'account_found', NEW.subject_user_id IS NOT NULL,
+      'due_at', NEW.due_at
+    ));
+    RETURN NEW;
+  END IF;
+
+  IF NEW.identity_verification_status IS DISTINCT FROM OLD.identity_verification_status THEN
+    INSERT INTO data_subject_request_events (request_id, event_type, actor_id, details)
+    VALUES (NEW.id, 'identity_' || NEW.identity_verification_status, v_actor, jsonb_build_object(
+      'from', OLD.identity_verification_status,
+      'method', NEW.verification_method
+    ));
+  END IF;
+
+  IF NEW.extended_due_at IS DISTINCT FROM OLD.extended_due_at THEN
+    INSERT INTO data_subject_request_events (request_id, event_type, actor_id, details)
+    VALUES (NEW.id, 'deadline_extended', v_actor, jsonb_build_object(
+      'from', COALESCE(OLD.extended_due_at, OLD.due_at),
+      'to', NEW.extended_due_at,
+      'reason', NEW.extension_reason
+    ));
+  END IF;
+
+  IF NEW.export_path IS DISTINCT FROM OLD.export_path THEN
+    INSERT INTO data_subject_request_events (request_id, event_type, actor_id, details)
+    VALUES (NEW.id, CASE WHEN NEW.export_path IS NULL THEN 'export_deleted' ELSE 'export_generated' END, v_actor,
+      CASE WHEN NEW.export_path IS NULL
+        THEN jsonb_build_object('path', OLD.export_path)
+        ELSE jsonb_build_object('path', NEW.export_path, 'sha256', NEW.export_sha256)
+      END);
+  END IF;
+
+  IF NEW.erasure_summary IS DISTINCT FROM OLD.erasure_summary AND NEW.erasure_summary IS NOT NULL THEN
+    INSERT INTO data_subject_request_events (request_id, event_type, actor_id, details)
+    VALUES (NEW.id, 'erasure_completed', v_actor, NEW.erasure_summary);
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO data_subject_request_events (request_id, event_type, actor_id, details)
+    VALUES (NEW.id, 'status_changed', v_actor, jsonb_build_object(
+      'from', OLD.status,
+      'to', NEW.status,
+      'reason', CASE WHEN NEW.status = 'rejected' THEN NEW.rejection_reason END
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS log_data_subject_request_event_trigger ON data_subject_requests;
+CREATE TRIGGER log_data_subject_request_event_trigger
+  AFTER INSERT OR UPDATE ON data_subject_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION log_data_subject_request_event();
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Erase the subject of a verified erasure request. Authored reels and
+-- analytics stay with user_id and device details cleared; deleting the
+-- account removes the profile, sessions, quiz attempts, certificates and
+-- everything else that cascades from auth.users. Refused while a legal hold
+-- names the subject. Called by the data-subject-requests edge function,
+-- which also deletes the subject's export archives.
+CREATE OR REPLACE FUNCTION erase_data_subject(p_request_id UUID, p_actor_id UUID)
+RETURNS data_subject_requests AS $$
+DECLARE
+  v_request data_subject_requests;
+  v_user_id UUID;
+  v_hold TEXT;
+  v_reels BIGINT;
+  v_activity BIGINT;
+  v_learning BIGINT;
+  v_searches BIGINT;
+  v_deleted JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = p_actor_id AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only platform admins can erase data subjects' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_request FROM data_subject_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF v_request.id IS NULL THEN
+    RAISE EXCEPTION 'Request % not found', p_request_id USING ERRCODE = 'P0002';
+  END IF;
+  IF v_request.request_type <> 'erasure' THEN
+    RAISE EXCEPTION 'Request % is not an erasure request', p_request_id USING ERRCODE = '22023';
+  END IF;
+  IF v_request.status IN ('completed', 'rejected') THEN
+    RAISE EXCEPTION 'Request % is already %', p_request_id, v_request.status USING ERRCODE = '55000';
+  END IF;
+  IF v_request.identity_verification_status <> 'verified' THEN
+    RAISE EXCEPTION 'Verify the subject''s identity before erasing' USING ERRCODE = '55000';
+  END IF;
+
+  v_user_id := v_request.subject_user_id;
+
+  IF v_user_id IS NOT NULL THEN
+    SELECT name INTO v_hold FROM legal_holds
+    WHERE released_at IS NULL AND user_id = v_user_id
+    LIMIT 1;
+    IF v_hold IS NOT NULL THEN
+      RAISE EXCEPTION 'The subject''s data is under legal hold "%"', v_hold USING ERRCODE = '55000';
+    END IF;
+
+    UPDATE videos SET user_id = NULL WHERE user_id = v_user_id;
+    GET DIAGNOSTICS v_reels = ROW_COUNT;
+
+    UPDATE user_activity
+    SET user_id = NULL, session_id = NULL, ip_address = NULL, user_agent = NULL, metadata = '{}'::jsonb
+    WHERE user_id = v_user_id;
+    GET DIAGNOSTICS v_activity = ROW_COUNT;
+
+    UPDATE learning_analytics
+    SET user_id = NULL, session_id = NULL, browser_info = NULL
+    WHERE user_id = v_user_id;
+    GET DIAGNOSTICS v_learning = ROW_COUNT;
+
+    UPDATE search_analytics
+    SET user_id = NULL, session_id = NULL, ip_address = NULL, user_agent = NULL
+    WHERE user_id = v_user_id;
+    GET DIAGNOSTICS v_searches = ROW_COUNT;
+
+    v_deleted := jsonb_build_object(
+      'user_profiles', (SELECT count(*) FROM user_profiles WHERE user_id = v_user_id),
+      'user_sessions', (SELECT count(*) FROM user_sessions WHERE user_id = v_user_id),
+      'quiz_attempts', (SELECT count(*) FROM quiz_attempts WHERE user_id = v_user_id),
+      'certificates', (SELECT count(*) FROM certificates WHERE user_id = v_user_id)
+    );
+
+    -- Clears subject_user_id on this and any other request for the subject
+    DELETE FROM auth.users WHERE id = v_user_id;
+  END IF;
+
+  UPDATE data_subject_requests
+  SET status = 'completed',
+      updated_by = p_actor_id,
+      erasure_summary = jsonb_build_object(
+        'account_found', v_user_id IS NOT NULL,
+        'anonymized', jsonb_build_object(
+          'videos', COALESCE(v_reels, 0),
+          'user_activity', COALESCE(v_activity, 0),
+          'learning_analytics', COALESCE(v_learning, 0),
+          'search_analytics', COALESCE(v_searches, 0)
+        ),
+        'deleted', COALESCE(v_deleted, '{}'::jsonb),
+        'erased_at', NOW()
+      )
+  WHERE id = p_request_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Service role only; the edge function checks the caller
+REVOKE EXECUTE ON FUNCTION erase_data_subject(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =====================================================
+ALTER TABLE data_subject_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE data_subject_request_events ENABLE ROW LEVEL SECURITY;
+
+-- No delete policy: requests are kept as evidence
+CREATE POLICY "data_subject_requests_select_admin"
+  ON data_subject_requests FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
+
+CREATE POLICY "data_subject_requests_insert_admin"
+  ON data_subject_requests FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
+
+CREATE POLICY "data_subject_requests_update_admin"
+  ON data_subject_requests FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
+
+-- Events are written by the triggers only
+CREATE POLICY "data_subject_request_events_select_admin"
+  ON data_subject_request_events FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
+
+CREATE POLICY "data_subject_exports_select_admin"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'data-subject-exports'
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON TABLE data_subject_requests IS 'GDPR and CCPA access and erasure requests with deadlines and identity verification';
+COMMENT ON TABLE data_subject_request_events IS 'Audit trail of data subject requests, written by triggers';
+COMMENT ON COLUMN data_subject_requests.due_at IS 'Statutory deadline: 30 days after receipt for GDPR, 45 days for CCPA';
+COMMENT ON COLUMN data_subject_requests.export_path IS 'data-subject-exports bucket object name of the latest export archive';
+COMMENT ON FUNCTION erase_data_subject(UUID, UUID) IS 'Anonymize authored reels and analytics, then delete the subject''s account';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP POLICY IF EXISTS "data_subject_exports_select_admin" ON storage.objects;
+-- DELETE FROM storage.buckets WHERE id = 'data-subject-exports';
+-- DROP FUNCTION IF EXISTS erase_data_subject(UUID, UUID);
+-- DROP TABLE IF EXISTS data_subject_request_events CASCADE;
+-- DROP TABLE IF EXISTS data_subject_requests CASCADE;
+-- DROP FUNCTION IF EXISTS log_data_subject_request_event();
+-- DROP FUNCTION IF EXISTS prepare_data_subject_request();
+-- Anonymized rows have no user, so restore NOT NULL only after removing them:
+-- ALTER TABLE videos ALTER COLUMN user_id SET NOT NULL;
+-- ALTER TABLE user_activity ALTER COLUMN user_id SET NOT NULL;
+-- ALTER TABLE learning_analytics ALTER COLUMN user_id SET NOT NULL;
@@ -0,0 +1,59 @@
+-- =====================================================
+-- Migration: Request context for security rules
+-- Created: 2026-10-20T08:00:00Z
+-- Tables: none
+-- Purpose: Let the client read the IP address and user agent of its own
+--          request, as PostgREST sees them, so security policy rules can
+--          match on request.ip at login, password change and admin actions
+-- =====================================================
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- IP and user agent of the current API request. The IP is the first
+-- X-Forwarded-For entry (the client, as recorded by the gateway) and falls
+-- back to X-Real-IP. Both are null outside an HTTP request.
+CREATE OR REPLACE FUNCTION get_request_context()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_headers JSONB := COALESCE(NULLIF(current_setting('request.headers', true), ''), '{}')::JSONB;
+  v_ip TEXT;
+BEGIN
+  v_ip := NULLIF(trim(split_part(COALESCE(v_headers->>'x-forwarded-for', ''), ',', 1)), '');
+  v_ip := COALESCE(v_ip, NULLIF(trim(v_headers->>'x-real-ip'), ''));
+
+  -- Only hand back something that parses as an address
+  IF v_ip IS NOT NULL THEN
+    BEGIN
+      v_ip := host(v_ip::INET);
+    EXCEPTION WHEN invalid_text_representation THEN
+      v_ip := NULL;
+    END;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'ip', v_ip,
+    'user_agent', v_headers->>'user-agent'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_request_context() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_request_context() TO authenticated;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON FUNCTION get_request_context() IS 'IP address and user agent of the current API request, for security policy rules';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP FUNCTION IF EXISTS get_request_context();
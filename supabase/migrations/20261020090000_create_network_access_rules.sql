@@ -0,0 +1,292 @@
+-- =====================================================
+-- Migration: Network access rules
+-- Created: 2026-10-20T09:00:00Z
+-- Tables: organization_network_rules
+-- Purpose: Per-organization IP (CIDR) and country allow and block lists,
+--          checked at sign-in and on every session refresh. Denials are
+--          logged as security_events and end the session. Organization
+--          admins manage the lists and cannot save a change that would
+--          block their own current connection.
+-- =====================================================
+
+-- =====================================================
+-- TABLE: organization_network_rules
+-- Purpose: Where members of an organization may sign in from. Block rules
+--          always win; once an organization has any allow rule, members
+--          must match one of them.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS organization_network_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('allow', 'block')),
+
+  -- Exactly one target: an IPv4/IPv6 network, or an ISO 3166-1 alpha-2
+  -- country as reported by the CDN in front of the API
+  cidr CIDR,
+  country_code TEXT CHECK (country_code ~ '^[A-Z]{2}$'),
+
+  description TEXT DEFAULT '' NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT organization_network_rules_one_target CHECK ((cidr IS NULL) <> (country_code IS NULL))
+);
+
+-- Performance indexes
+CREATE INDEX IF NOT EXISTS organization_network_rules_org_idx ON organization_network_rules(organization_id, rule_type);
+CREATE UNIQUE INDEX IF NOT EXISTS organization_network_rules_cidr_key
+  ON organization_network_rules(organization_id, rule_type, cidr)
+  WHERE cidr IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS organization_network_rules_country_key
+  ON organization_network_rules(organization_id, rule_type, country_code)
+  WHERE country_code IS NOT NULL;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_organization_network_rules_updated_at ON organization_network_rules;
+CREATE TRIGGER update_organization_network_rules_updated_at
+  BEFORE UPDATE ON organization_network_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Request context now also carries the country the CDN resolved the client
+-- IP to (CF-IPCountry); null when the header is missing or unknown (XX, T1)
+CREATE OR REPLACE FUNCTION get_request_context()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_headers JSONB := COALESCE(NULLIF(current_setting('request.headers', true), ''), '{}')::JSONB;
+  v_ip TEXT;
+  v_country TEXT;
+BEGIN
+  v_ip := NULLIF(trim(split_part(COALESCE(v_headers->>'x-forwarded-for', ''), ',', 1)), '');
+  v_ip := COALESCE(v_ip, NULLIF(trim(v_headers->>'x-real-ip'), ''));
+
+  -- Only hand back something that parses as an address
+  IF v_ip IS NOT NULL THEN
+    BEGIN
+      v_ip := host(v_ip::INET);
+    EXCEPTION WHEN invalid_text_representation THEN
+      v_ip := NULL;
+    END;
+  END IF;
+
+  v_country := upper(trim(v_headers->>'cf-ipcountry'));
+  IF v_country !~ '^[A-Z]{2}$' OR v_country IN ('XX', 'T1') THEN
+    v_country := NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'ip', v_ip,
+    'country', v_country,
+    'user_agent', v_headers->>'user-agent'
+  );
+END;
+$$;
+
+-- Whether an organization's rules let a connection in. An unknown IP or
+-- country matches no rule, so it is refused once allow rules exist.
+CREATE OR REPLACE FUNCTION network_access_decision(
+  p_organization_id UUID,
+  p_ip INET,
+  p_country TEXT
+) RETURNS JSONB AS $$
+DECLARE
+  v_rule_id UUID;
+BEGIN
+  SELECT id INTO v_rule_id
+  FROM organization_network_rules
+  WHERE organization_id = p_organization_id
+    AND rule_type = 'block'
+    AND ((cidr IS NOT NULL AND p_ip <<= cidr) OR (country_code IS NOT NULL AND country_code = p_country))
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_rule_id IS NOT NULL THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'blocked', 'rule_id', v_rule_id, 'organization_id', p_organization_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM organization_network_rules
+    WHERE organization_id = p_organization_id AND rule_type = 'allow'
+  ) THEN
+    RETURN jsonb_build_object('allowed', true);
+  END IF;
+
+  SELECT id INTO v_rule_id
+  FROM organization_network_rules
+  WHERE organization_id = p_organization_id
+    AND rule_type = 'allow'
+    AND ((cidr IS NOT NULL AND p_ip <<= cidr) OR (country_code IS NOT NULL AND country_code = p_country))
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_rule_id IS NOT NULL THEN
+    RETURN jsonb_build_object('allowed', true, 'rule_id', v_rule_id);
+  END IF;
+
+  RETURN jsonb_build_object('allowed', false, 'reason', 'not_allowed', 'organization_id', p_organization_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Check the caller's connection against the rules of every organization
+-- they belong to. A refusal is logged as a security event and ends the
+-- current session, so its refresh token stops working even if the client
+-- ignores the answer.
+CREATE OR REPLACE FUNCTION check_network_access(p_event TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_request JSONB := get_request_context();
+  v_ip INET := (v_request->>'ip')::INET;
+  v_country TEXT := v_request->>'country';
+  v_membership RECORD;
+  v_decision JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_event NOT IN ('sign_in', 'session_refresh') THEN
+    RAISE EXCEPTION 'Unknown network access event: %', p_event USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_membership IN
+    SELECT uo.organization_id, o.name
+    FROM user_organizations uo
+    JOIN organizations o ON o.id = uo.organization_id
+    WHERE uo.user_id = v_user_id
+    ORDER BY uo.joined_at
+  LOOP
+    v_decision := network_access_decision(v_membership.organization_id, v_ip, v_country);
+
+    IF NOT (v_decision->>'allowed')::BOOLEAN THEN
+      PERFORM log_security_event(
+        v_user_id,
+        'network_access_denied',
+        'high',
+        CASE p_event WHEN 'sign_in' THEN 'Sign-in refused by network rules' ELSE 'Session ended by network rules' END,
+        format(
+          'Connection from %s%s is not allowed by %s',
+          COALESCE(host(v_ip), 'an unknown IP address'),
+          COALESCE(' (' || v_country || ')', ''),
+          v_membership.name
+        ),
+        v_ip,
+        v_request->>'user_agent',
+        v_decision || jsonb_build_object('event', p_event, 'country', v_country)
+      );
+
+      DELETE FROM auth.sessions WHERE id = NULLIF(auth.jwt()->>'session_id', '')::UUID;
+
+      RETURN v_decision || jsonb_build_object('ip', host(v_ip), 'country', v_country);
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('allowed', true, 'ip', host(v_ip), 'country', v_country);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Lockout safety: an admin cannot save rules that refuse their own current
+-- connection. Runs after the statement's rows are in place, so a change
+-- that removes the admin's allow rule is caught too. Service-role writes
+-- have no connection to protect and are not checked.
+CREATE OR REPLACE FUNCTION check_network_rules_lockout()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_request JSONB;
+  v_decision JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_request := get_request_context();
+  v_decision := network_access_decision(
+    COALESCE(NEW.organization_id, OLD.organization_id),
+    (v_request->>'ip')::INET,
+    v_request->>'country'
+  );
+
+  IF NOT (v_decision->>'allowed')::BOOLEAN THEN
+    RAISE EXCEPTION 'This change would block your current connection from %',
+      COALESCE(v_request->>'ip', 'an unknown IP address')
+      USING ERRCODE = '55000',
+            HINT = 'Add an allow rule that matches your current network first';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_organization_network_rules_lockout ON organization_network_rules;
+CREATE TRIGGER check_organization_network_rules_lockout
+  AFTER INSERT OR UPDATE OR DELETE ON organization_network_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION check_network_rules_lockout();
+
+REVOKE EXECUTE ON FUNCTION network_access_decision(UUID, INET, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION check_network_rules_lockout() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION check_network_access(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION check_network_access(TEXT) TO authenticated;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+ALTER TABLE organization_network_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "organization_network_rules_org_admin_all"
+  ON organization_network_rules FOR ALL
+  USING (organization_id IN (
+    SELECT organization_id FROM user_organizations
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ))
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM user_organizations
+    WHERE user_id = auth.uid() AND role = 'admin'
+  ));
+
+CREATE POLICY "organization_network_rules_select_platform_admin"
+  ON organization_network_rules FOR SELECT
+  USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'));
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON TABLE organization_network_rules IS 'Per-organization IP and country allow/block lists for sign-in and session refresh';
+COMMENT ON COLUMN organization_network_rules.cidr IS 'IPv4 or IPv6 network; a single address is stored as /32 or /128';
+COMMENT ON COLUMN organization_network_rules.country_code IS 'ISO 3166-1 alpha-2 country of the client IP, as reported by the CDN';
+COMMENT ON FUNCTION network_access_decision(UUID, INET, TEXT) IS 'Whether an organization''s network rules allow a connection; block rules win';
+COMMENT ON FUNCTION check_network_access(TEXT) IS 'Check the caller''s connection at sign-in or session refresh; a refusal is logged and ends the session';
+COMMENT ON FUNCTION check_network_rules_lockout() IS 'Reject network rule changes that would block the admin making them';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP FUNCTION IF EXISTS check_network_access(TEXT);
+-- DROP TABLE IF EXISTS organization_network_rules CASCADE;
+-- DROP FUNCTION IF EXISTS check_network_rules_lockout();
+-- DROP FUNCTION IF EXISTS network_access_decision(UUID, INET, TEXT);
+-- Then recreate get_request_context() from 20261020080000_create_request_context.sql
@@ -0,0 +1,121 @@
+-- =====================================================
+-- Migration: Create Vulnerability Advisories
+-- Created: 2026-10-20T10:00:00Z
+-- Tables: vulnerability_advisories (new), vulnerabilities (modified)
+-- Purpose: Local copy of OSV advisories for npm packages that dependency
+--          scans match lockfiles against, and the package, dependency
+--          path and fixed-in version of each dependency finding
+-- =====================================================
+
+-- Helper function for updated_at (idempotent)
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- TABLE: vulnerability_advisories
+-- Purpose: OSV advisories imported from OSV JSON dumps, one row per
+--          advisory id; re-importing replaces the stored advisory
+-- =====================================================
+CREATE TABLE IF NOT EXISTS vulnerability_advisories (
+  id VARCHAR(100) PRIMARY KEY,
+  packages TEXT[] NOT NULL CHECK (cardinality(packages) > 0),
+  summary TEXT,
+  severity VARCHAR(20) NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  cvss_score DECIMAL(3,1),
+  aliases TEXT[] DEFAULT '{}' NOT NULL,
+  published_at TIMESTAMPTZ,
+  modified_at TIMESTAMPTZ NOT NULL,
+  withdrawn_at TIMESTAMPTZ,
+  advisory JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Scans look advisories up by the package names in a lockfile
+CREATE INDEX IF NOT EXISTS vulnerability_advisories_packages_idx ON vulnerability_advisories USING GIN (packages);
+CREATE INDEX IF NOT EXISTS vulnerability_advisories_modified_at_idx ON vulnerability_advisories(modified_at DESC);
+
+-- =====================================================
+-- TABLE: vulnerabilities (dependency findings)
+-- =====================================================
+ALTER TABLE vulnerabilities ADD COLUMN IF NOT EXISTS advisory_id VARCHAR(100) REFERENCES vulnerability_advisories(id) ON DELETE SET NULL;
+ALTER TABLE vulnerabilities ADD COLUMN IF NOT EXISTS package_name TEXT;
+ALTER TABLE vulnerabilities ADD COLUMN IF NOT EXISTS installed_version TEXT;
+ALTER TABLE vulnerabilities ADD COLUMN IF NOT EXISTS fixed_version TEXT;
+ALTER TABLE vulnerabilities ADD COLUMN IF NOT EXISTS dependency_path TEXT[] DEFAULT '{}' NOT NULL;
+ALTER TABLE vulnerabilities ADD COLUMN IF NOT EXISTS direct_dependencies TEXT[] DEFAULT '{}' NOT NULL;
+
+-- Scoped package names and advisory titles outgrow the original limits
+ALTER TABLE vulnerabilities ALTER COLUMN title TYPE TEXT;
+ALTER TABLE vulnerabilities ALTER COLUMN affected_component TYPE TEXT;
+
+CREATE INDEX IF NOT EXISTS vulnerabilities_advisory_id_idx ON vulnerabilities(advisory_id);
+CREATE INDEX IF NOT EXISTS vulnerabilities_package_name_idx ON vulnerabilities(package_name);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+DROP TRIGGER IF EXISTS update_vulnerability_advisories_updated_at ON vulnerability_advisories;
+CREATE TRIGGER update_vulnerability_advisories_updated_at
+  BEFORE UPDATE ON vulnerability_advisories
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Advisories that mention any of the given npm packages. Called with every
+-- package name in a lockfile, which is too long a list for a query string.
+CREATE OR REPLACE FUNCTION advisories_for_packages(p_packages TEXT[])
+RETURNS SETOF vulnerability_advisories
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM vulnerability_advisories
+  WHERE packages && p_packages
+    AND withdrawn_at IS NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION advisories_for_packages(TEXT[]) TO authenticated;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+ALTER TABLE vulnerability_advisories ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: Only admins can access advisories, like scans and findings
+CREATE POLICY "vulnerability_advisories_admin_only"
+  ON vulnerability_advisories FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  ));
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON TABLE vulnerability_advisories IS 'OSV advisories for npm packages, imported from OSV JSON dumps and matched against lockfiles by dependency scans';
+COMMENT ON COLUMN vulnerability_advisories.packages IS 'npm package names the advisory affects';
+COMMENT ON COLUMN vulnerability_advisories.advisory IS 'The advisory as published in OSV format; affected ranges are evaluated by the scanner';
+COMMENT ON COLUMN vulnerabilities.dependency_path IS 'name@version chain from a direct dependency down to the vulnerable package';
+COMMENT ON COLUMN vulnerabilities.direct_dependencies IS 'Direct dependencies that pull the vulnerable package in; upgrading these fixes it';
+COMMENT ON COLUMN vulnerabilities.fixed_version IS 'Lowest release of the package that fixes the advisory; NULL when none is published';
+COMMENT ON FUNCTION advisories_for_packages(TEXT[]) IS 'Advisories, excluding withdrawn ones, that mention any of the given npm packages';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, execute:
+-- DROP FUNCTION IF EXISTS advisories_for_packages(TEXT[]);
+-- ALTER TABLE vulnerabilities DROP COLUMN IF EXISTS advisory_id, DROP COLUMN IF EXISTS package_name,
+--   DROP COLUMN IF EXISTS installed_version, DROP COLUMN IF EXISTS fixed_version,
+--   DROP COLUMN IF EXISTS dependency_path, DROP COLUMN IF EXISTS direct_dependencies;
+-- DROP TABLE IF EXISTS vulnerability_advisories CASCADE;
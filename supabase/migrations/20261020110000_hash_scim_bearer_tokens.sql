@@ -0,0 +1,83 @@
+-- =====================================================
+-- Migration: Hash SCIM bearer tokens
+-- Created: 2026-10-20T11:00:00Z
+-- Tables: scim_configs
+-- Purpose: Keep only a SHA-256 hash of the token customer IdPs present on
+--          the SCIM endpoints, as the SSO handoff codes do, and give calls
+--          to a customer's own SCIM endpoint a token of their own
+-- =====================================================
+
+-- Enable pgcrypto for token hashing
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+
+-- =====================================================
+-- TABLE: scim_configs (modified)
+-- =====================================================
+ALTER TABLE scim_configs ADD COLUMN IF NOT EXISTS bearer_token_hash TEXT;
+-- Sent to the customer's endpoint by syncUsersFromSCIM; issued by the customer
+ALTER TABLE scim_configs ADD COLUMN IF NOT EXISTS endpoint_token TEXT;
+
+ALTER TABLE scim_configs DROP CONSTRAINT IF EXISTS scim_configs_bearer_token_length;
+ALTER TABLE scim_configs ALTER COLUMN bearer_token DROP NOT NULL;
+
+-- Existing IdPs keep working with the token they already have
+UPDATE scim_configs
+SET bearer_token_hash = encode(digest(bearer_token, 'sha256'), 'hex'),
+    bearer_token = NULL
+WHERE bearer_token IS NOT NULL;
+
+ALTER TABLE scim_configs ALTER COLUMN bearer_token_hash SET NOT NULL;
+
+-- The raw token is write-only: the trigger below replaces it with its hash
+ALTER TABLE scim_configs DROP CONSTRAINT IF EXISTS scim_configs_bearer_token_not_stored;
+ALTER TABLE scim_configs
+  ADD CONSTRAINT scim_configs_bearer_token_not_stored CHECK (bearer_token IS NULL);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+-- Hash a token written to bearer_token and clear the raw value. Writes that
+-- leave bearer_token out keep the current hash.
+CREATE OR REPLACE FUNCTION hash_scim_bearer_token()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.bearer_token IS NOT NULL THEN
+    IF length(NEW.bearer_token) < 32 THEN
+      RAISE EXCEPTION 'SCIM bearer token must be at least 32 characters'
+        USING ERRCODE = '23514';
+    END IF;
+
+    NEW.bearer_token_hash := encode(digest(NEW.bearer_token, 'sha256'), 'hex');
+    NEW.bearer_token := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, extensions;
+
+DROP TRIGGER IF EXISTS hash_scim_configs_bearer_token ON scim_configs;
+CREATE TRIGGER hash_scim_configs_bearer_token
+  BEFORE INSERT OR UPDATE ON scim_configs
+  FOR EACH ROW
+  EXECUTE FUNCTION hash_scim_bearer_token();
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON COLUMN scim_configs.customer_id IS 'Organization the directory provisions into; only its members can be linked to existing accounts';
+COMMENT ON COLUMN scim_configs.bearer_token IS 'Write-only: a token written here is hashed into bearer_token_hash and never stored';
+COMMENT ON COLUMN scim_configs.bearer_token_hash IS 'Hex SHA-256 of the token required on inbound SCIM requests';
+COMMENT ON COLUMN scim_configs.endpoint_token IS 'Token for calls to the customer''s own SCIM endpoint';
+COMMENT ON FUNCTION hash_scim_bearer_token() IS 'Replace a written SCIM bearer token with its SHA-256 hash';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- Raw tokens cannot be recovered from their hashes; issue new tokens to
+-- customer IdPs after rolling back.
+-- DROP TRIGGER IF EXISTS hash_scim_configs_bearer_token ON scim_configs;
+-- DROP FUNCTION IF EXISTS hash_scim_bearer_token();
+-- ALTER TABLE scim_configs DROP CONSTRAINT IF EXISTS scim_configs_bearer_token_not_stored;
+-- ALTER TABLE scim_configs DROP COLUMN IF EXISTS endpoint_token;
+-- ALTER TABLE scim_configs DROP COLUMN IF EXISTS bearer_token_hash;
@@ -0,0 +1,64 @@
+-- =====================================================
+-- Migration: Client IP from the trusted proxy
+-- Created: 2026-10-20T12:00:00Z
+-- Tables: none
+-- Purpose: Take the request IP from the X-Forwarded-For entry the API
+--          gateway appends rather than the first one, which the client
+--          controls, so network rules and security policy rules cannot be
+--          satisfied with a forged header
+-- =====================================================
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Proxies append the address they received the request from, so only the
+-- last X-Forwarded-For entry was written by the gateway in front of
+-- PostgREST; anything before it came from the client. X-Real-IP is no
+-- longer consulted because the client can send it too.
+CREATE OR REPLACE FUNCTION get_request_context()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_headers JSONB := COALESCE(NULLIF(current_setting('request.headers', true), ''), '{}')::JSONB;
+  v_ip TEXT;
+  v_country TEXT;
+BEGIN
+  v_ip := NULLIF(trim(regexp_replace(COALESCE(v_headers->>'x-forwarded-for', ''), '^.*,', '')), '');
+
+  -- Only hand back something that parses as an address
+  IF v_ip IS NOT NULL THEN
+    BEGIN
+      v_ip := host(v_ip::INET);
+    EXCEPTION WHEN invalid_text_representation THEN
+      v_ip := NULL;
+    END;
+  END IF;
+
+  v_country := upper(trim(v_headers->>'cf-ipcountry'));
+  IF v_country !~ '^[A-Z]{2}$' OR v_country IN ('XX', 'T1') THEN
+    v_country := NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'ip', v_ip,
+    'country', v_country,
+    'user_agent', v_headers->>'user-agent'
+  );
+END;
+$$;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON FUNCTION get_request_context() IS 'IP address (as appended by the API gateway), country and user agent of the current API request';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, recreate get_request_context() from
+-- 20261020090000_create_network_access_rules.sql
@@ -0,0 +1,162 @@
+-- =====================================================
+-- Migration: Enforce network access rules on the server
+-- Created: 2026-10-20T13:00:00Z
+-- Tables: none
+-- Purpose: Refuse sign-in and session refresh from networks an
+--          organization does not allow in Supabase Auth itself, and refuse
+--          every API request from them, instead of relying on the client
+--          to call check_network_access
+-- Setup: Enable the Custom Access Token hook (Authentication > Hooks) with
+--        public.custom_access_token_hook
+-- =====================================================
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- IP-only half of network_access_decision for Supabase Auth, which sees
+-- the client address but not the country the CDN resolved it to. Country
+-- allow rules let the token through; enforce_network_access checks the
+-- country on every request made with it.
+CREATE OR REPLACE FUNCTION network_ip_access_decision(
+  p_organization_id UUID,
+  p_ip INET
+) RETURNS JSONB AS $$
+DECLARE
+  v_rule_id UUID;
+BEGIN
+  SELECT id INTO v_rule_id
+  FROM organization_network_rules
+  WHERE organization_id = p_organization_id
+    AND rule_type = 'block'
+    AND cidr IS NOT NULL
+    AND p_ip <<= cidr
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_rule_id IS NOT NULL THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'blocked', 'rule_id', v_rule_id, 'organization_id', p_organization_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM organization_network_rules
+    WHERE organization_id = p_organization_id AND rule_type = 'allow'
+  ) OR EXISTS (
+    SELECT 1 FROM organization_network_rules
+    WHERE organization_id = p_organization_id
+      AND rule_type = 'allow'
+      AND (country_code IS NOT NULL OR p_ip <<= cidr)
+  ) THEN
+    RETURN jsonb_build_object('allowed', true);
+  END IF;
+
+  RETURN jsonb_build_object('allowed', false, 'reason', 'not_allowed', 'organization_id', p_organization_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Supabase Auth calls this before issuing an access token, at sign-in and
+-- on every refresh. The IP is the one Auth recorded for the session. A
+-- refusal rolls back the token grant, so it cannot be logged here; the
+-- client's check_network_access call logs refusals it sees.
+CREATE OR REPLACE FUNCTION custom_access_token_hook(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := (event->>'user_id')::UUID;
+  v_ip INET;
+  v_membership RECORD;
+  v_decision JSONB;
+BEGIN
+  SELECT ip INTO v_ip
+  FROM auth.sessions
+  WHERE id = NULLIF(event->'claims'->>'session_id', '')::UUID;
+
+  FOR v_membership IN
+    SELECT organization_id
+    FROM user_organizations
+    WHERE user_id = v_user_id
+    ORDER BY joined_at
+  LOOP
+    v_decision := network_ip_access_decision(v_membership.organization_id, v_ip);
+
+    IF NOT (v_decision->>'allowed')::BOOLEAN THEN
+      RETURN jsonb_build_object('error', jsonb_build_object(
+        'http_code', 403,
+        'message', CASE v_decision->>'reason'
+          WHEN 'blocked' THEN 'Sign-in from this network is blocked by your organization'
+          ELSE 'Your organization only allows sign-in from approved networks'
+        END
+      ));
+    END IF;
+  END LOOP;
+
+  RETURN event;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- PostgREST pre-request check: refuse API requests from a connection the
+-- caller's organizations do not allow, including by country. Anonymous and
+-- service-role requests have no user to check. check_network_access itself
+-- is let through so it can log the refusal and end the session.
+CREATE OR REPLACE FUNCTION enforce_network_access()
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_request JSONB;
+  v_membership RECORD;
+  v_decision JSONB;
+BEGIN
+  IF v_user_id IS NULL OR current_setting('request.path', true) = '/rpc/check_network_access' THEN
+    RETURN;
+  END IF;
+
+  FOR v_membership IN
+    SELECT uo.organization_id
+    FROM user_organizations uo
+    WHERE uo.user_id = v_user_id
+      AND EXISTS (SELECT 1 FROM organization_network_rules r WHERE r.organization_id = uo.organization_id)
+    ORDER BY uo.joined_at
+  LOOP
+    v_request := COALESCE(v_request, get_request_context());
+    v_decision := network_access_decision(
+      v_membership.organization_id,
+      (v_request->>'ip')::INET,
+      v_request->>'country'
+    );
+
+    IF NOT (v_decision->>'allowed')::BOOLEAN THEN
+      RAISE EXCEPTION 'Your organization does not allow access from this network'
+        USING ERRCODE = '42501',
+              DETAIL = v_decision->>'reason';
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT USAGE ON SCHEMA public TO supabase_auth_admin;
+GRANT SELECT ON auth.sessions TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION network_ip_access_decision(UUID, INET) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION custom_access_token_hook(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION custom_access_token_hook(JSONB) TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION enforce_network_access() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION enforce_network_access() TO anon, authenticated;
+
+-- Run enforce_network_access before every PostgREST request
+ALTER ROLE authenticator SET pgrst.db_pre_request = 'public.enforce_network_access';
+NOTIFY pgrst, 'reload config';
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON FUNCTION network_ip_access_decision(UUID, INET) IS 'Whether an organization''s IP rules allow a connection whose country is not known';
+COMMENT ON FUNCTION custom_access_token_hook(JSONB) IS 'Supabase Auth hook: refuse sign-in and session refresh from networks an organization does not allow';
+COMMENT ON FUNCTION enforce_network_access() IS 'PostgREST pre-request check: refuse API requests from networks the caller''s organizations do not allow';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, disable the Custom Access Token hook, then execute:
+-- ALTER ROLE authenticator RESET pgrst.db_pre_request;
+-- NOTIFY pgrst, 'reload config';
+-- DROP FUNCTION IF EXISTS enforce_network_access();
+-- DROP FUNCTION IF EXISTS custom_access_token_hook(JSONB);
+-- DROP FUNCTION IF EXISTS network_ip_access_decision(UUID, INET);
@@ -0,0 +1,112 @@
+-- =====================================================
+-- Migration: Require the second factor in row level security
+-- Created: 2026-10-20T14:00:00Z
+-- Tables: every public table with RLS enabled
+-- Purpose: Until a session has passed 2FA (or enrolled, when an
+--          organization requires it) the API refuses it everything the
+--          sign-in gate in the app hides, instead of trusting the client
+--          to show the challenge
+-- =====================================================
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Enrolled users need a verified session; users an organization requires
+-- to use 2FA are not satisfied until they enroll, which verifies the
+-- session. Anonymous callers have no second factor to pass.
+CREATE OR REPLACE FUNCTION is_two_factor_satisfied()
+RETURNS BOOLEAN AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM user_two_factor WHERE user_id = auth.uid() AND enabled) THEN
+      EXISTS (
+        SELECT 1 FROM two_factor_sessions
+        WHERE session_id = current_auth_session_id() AND user_id = auth.uid()
+      )
+    ELSE NOT two_factor_required(auth.uid())
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Add the restrictive 2FA policies to a table. With p_allow_select the
+-- table stays readable so the app can load what it needs to show the
+-- challenge (profile, roles, organizations); writes still need 2FA.
+-- Tables created later call this after enabling RLS.
+CREATE OR REPLACE FUNCTION require_two_factor_policies(p_table REGCLASS, p_allow_select BOOLEAN DEFAULT FALSE)
+RETURNS VOID AS $$
+DECLARE
+  v_name TEXT := (SELECT relname FROM pg_class WHERE oid = p_table);
+BEGIN
+  EXECUTE format('DROP POLICY IF EXISTS %I ON %s', v_name || '_two_factor', p_table);
+  EXECUTE format('DROP POLICY IF EXISTS %I ON %s', v_name || '_two_factor_insert', p_table);
+  EXECUTE format('DROP POLICY IF EXISTS %I ON %s', v_name || '_two_factor_update', p_table);
+  EXECUTE format('DROP POLICY IF EXISTS %I ON %s', v_name || '_two_factor_delete', p_table);
+
+  IF NOT p_allow_select THEN
+    EXECUTE format(
+      'CREATE POLICY %I ON %s AS RESTRICTIVE FOR ALL TO authenticated
+         USING ((SELECT is_two_factor_satisfied())) WITH CHECK ((SELECT is_two_factor_satisfied()))',
+      v_name || '_two_factor', p_table
+    );
+    RETURN;
+  END IF;
+
+  EXECUTE format(
+    'CREATE POLICY %I ON %s AS RESTRICTIVE FOR INSERT TO authenticated
+       WITH CHECK ((SELECT is_two_factor_satisfied()))',
+    v_name || '_two_factor_insert', p_table
+  );
+  EXECUTE format(
+    'CREATE POLICY %I ON %s AS RESTRICTIVE FOR UPDATE TO authenticated
+       USING ((SELECT is_two_factor_satisfied())) WITH CHECK ((SELECT is_two_factor_satisfied()))',
+    v_name || '_two_factor_update', p_table
+  );
+  EXECUTE format(
+    'CREATE POLICY %I ON %s AS RESTRICTIVE FOR DELETE TO authenticated
+       USING ((SELECT is_two_factor_satisfied()))',
+    v_name || '_two_factor_delete', p_table
+  );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION require_two_factor_policies(REGCLASS, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+-- The 2FA tables themselves are only reached through SECURITY DEFINER
+-- functions, which the challenge and enrollment need before 2FA passes
+DO $$
+DECLARE
+  v_table REGCLASS;
+BEGIN
+  FOR v_table IN
+    SELECT c.oid::REGCLASS
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public'
+      AND c.relkind IN ('r', 'p')
+      AND c.relrowsecurity
+      AND c.relname NOT IN ('user_two_factor', 'user_backup_codes', 'two_factor_sessions')
+  LOOP
+    PERFORM require_two_factor_policies(
+      v_table,
+      v_table::TEXT IN ('users', 'user_profiles', 'user_roles', 'user_organizations', 'organizations')
+    );
+  END LOOP;
+END;
+$$;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON FUNCTION is_two_factor_satisfied() IS 'For RLS policies: whether the caller''s session has passed 2FA, or does not need to';
+COMMENT ON FUNCTION require_two_factor_policies(REGCLASS, BOOLEAN) IS 'Add restrictive policies that refuse sessions which still owe a second factor';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, drop the <table>_two_factor,
+-- <table>_two_factor_insert, _update and _delete policies, then execute:
+-- DROP FUNCTION IF EXISTS require_two_factor_policies(REGCLASS, BOOLEAN);
+-- and recreate is_two_factor_satisfied() from 20261019220000_create_two_factor_auth.sql
@@ -0,0 +1,319 @@
+-- =====================================================
+-- Migration: Evaluate security rules on the server
+-- Created: 2026-10-20T15:00:00Z
+-- Tables: admin_system_settings, password_change_grants
+-- Purpose: Keep the security policies in the database so the
+--          security-checkpoint and auth-hook edge functions can run their
+--          rules at sign-in, password change and admin actions. Password
+--          changes that skip the rules are refused by auth.users itself.
+-- Setup: Point the Custom Access Token hook (Authentication > Hooks) at
+--        the auth-hook edge function instead of
+--        public.custom_access_token_hook; it runs the network rules too
+-- =====================================================
+
+-- =====================================================
+-- TABLE: admin_system_settings (seeded)
+-- =====================================================
+
+-- The policies the app ships with, until an admin saves their own
+INSERT INTO admin_system_settings (setting_key, setting_category, setting_name, setting_description, setting_value, value_type, is_required)
+VALUES (
+  'security_policies',
+  'security',
+  'Security policies',
+  'Rules run at sign-in, password change and admin actions (SecuritySettings)',
+  $policies$
+[
+  {
+    "name": "Password Policy",
+    "description": "Enforce strong password requirements",
+    "enabled": true,
+    "severity": "high",
+    "category": "Authentication",
+    "rules": [
+      {
+        "id": "password_length",
+        "name": "Minimum Password Length",
+        "description": "Passwords must be at least 12 characters long",
+        "condition": "password.length < 12",
+        "action": "block",
+        "enabled": true
+      },
+      {
+        "id": "password_complexity",
+        "name": "Password Complexity",
+        "description": "Passwords must contain uppercase, lowercase, numbers, and symbols",
+        "condition": "!password.matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\\d)(?=.*[!@#$%^&*()_+\\-=\\[\\]{};':\"\\\\|,.<>\\/?]).+$/)",
+        "action": "block",
+        "enabled": true
+      }
+    ]
+  },
+  {
+    "name": "Session Management",
+    "description": "Secure session handling and timeout policies",
+    "enabled": true,
+    "severity": "medium",
+    "category": "Session",
+    "rules": [
+      {
+        "id": "session_timeout",
+        "name": "Session Timeout",
+        "description": "Sessions must timeout after 24 hours of inactivity",
+        "condition": "session.lastActivity < (now - 24h)",
+        "action": "block",
+        "enabled": true
+      },
+      {
+        "id": "concurrent_sessions",
+        "name": "Concurrent Session Limit",
+        "description": "Users can have maximum 5 concurrent sessions",
+        "condition": "user.activeSessions > 5",
+        "action": "block",
+        "enabled": true
+      }
+    ]
+  },
+  {
+    "name": "Data Access Control",
+    "description": "Control access to sensitive data and resources",
+    "enabled": true,
+    "severity": "high",
+    "category": "Access Control",
+    "rules": [
+      {
+        "id": "customer_data_isolation",
+        "name": "Customer Data Isolation",
+        "description": "Users can only access data from their own customer scope",
+        "condition": "user.customerId !== resource.customerId",
+        "action": "block",
+        "enabled": true
+      },
+      {
+        "id": "admin_actions_audit",
+        "name": "Admin Actions Audit",
+        "description": "All administrative actions must be logged and audited",
+        "condition": "action.category === \"admin\"",
+        "action": "log",
+        "enabled": true
+      }
+    ]
+  },
+  {
+    "name": "API Security",
+    "description": "Secure API endpoints and rate limiting",
+    "enabled": true,
+    "severity": "medium",
+    "category": "API",
+    "rules": [
+      {
+        "id": "api_rate_limit",
+        "name": "API Rate Limiting",
+        "description": "API calls are limited to 1000 requests per hour per user",
+        "condition": "api.requestsPerHour > 1000",
+        "action": "block",
+        "enabled": true
+      },
+      {
+        "id": "api_authentication",
+        "name": "API Authentication Required",
+        "description": "All API endpoints require valid authentication",
+        "condition": "api.endpoint !== \"/health\" && !request.isAuthenticated",
+        "action": "block",
+        "enabled": true
+      }
+    ]
+  },
+  {
+    "name": "File Upload Security",
+    "description": "Secure file upload and processing",
+    "enabled": true,
+    "severity": "high",
+    "category": "File Upload",
+    "rules": [
+      {
+        "id": "file_type_validation",
+        "name": "File Type Validation",
+        "description": "Only allowed file types can be uploaded",
+        "condition": "file.type not in [\"video/mp4\", \"video/webm\", \"video/quicktime\"]",
+        "action": "block",
+        "enabled": true
+      },
+      {
+        "id": "file_size_limit",
+        "name": "File Size Limit",
+        "description": "Files must be smaller than 500MB",
+        "condition": "file.size > 500MB",
+        "action": "block",
+        "enabled": true
+      },
+      {
+        "id": "malware_scan",
+        "name": "Malware Scanning",
+        "description": "All uploaded files must be scanned for malware",
+        "condition": "file.scanStatus !== \"clean\"",
+        "action": "block",
+        "enabled": true
+      }
+    ]
+  },
+  {
+    "name": "Data Encryption",
+    "description": "Ensure all sensitive data is encrypted",
+    "enabled": true,
+    "severity": "critical",
+    "category": "Encryption",
+    "rules": [
+      {
+        "id": "data_at_rest_encryption",
+        "name": "Data at Rest Encryption",
+        "description": "All data stored in database must be encrypted",
+        "condition": "data.encrypted !== true",
+        "action": "block",
+        "enabled": true
+      },
+      {
+        "id": "data_in_transit_encryption",
+        "name": "Data in Transit Encryption",
+        "description": "All data transmission must use TLS 1.2 or higher",
+        "condition": "connection.protocol !== \"TLSv1.2\" && connection.protocol !== \"TLSv1.3\"",
+        "action": "block",
+        "enabled": true
+      }
+    ]
+  }
+]
+  $policies$::JSONB,
+  'array',
+  true
+)
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- =====================================================
+-- TABLE: password_change_grants
+-- Purpose: One-time permission, issued by security-checkpoint after the
+--          password rules pass, for the password update it then makes
+-- =====================================================
+CREATE TABLE IF NOT EXISTS password_change_grants (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+-- A password update goes through only with an unexpired grant, which it
+-- uses up. Supabase Auth's own password endpoints have none, so clients
+-- cannot change a password around the rules.
+CREATE OR REPLACE FUNCTION require_password_change_grant()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.encrypted_password IS DISTINCT FROM OLD.encrypted_password THEN
+    DELETE FROM password_change_grants
+    WHERE user_id = NEW.id AND expires_at > NOW();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Passwords can only be changed through the security-checkpoint function'
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS require_password_change_grant ON auth.users;
+CREATE TRIGGER require_password_change_grant
+  BEFORE UPDATE OF encrypted_password ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION require_password_change_grant();
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- What the security rules know about a user and their session, for the
+-- edge functions: platform role, active roles, 2FA state, and the session's
+-- start and the IP and user agent Supabase Auth recorded for it
+CREATE OR REPLACE FUNCTION security_rule_subject(p_user_id UUID, p_session_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_started_at TIMESTAMPTZ;
+  v_ip INET;
+  v_user_agent TEXT;
+BEGIN
+  SELECT created_at, ip, user_agent INTO v_started_at, v_ip, v_user_agent
+  FROM auth.sessions
+  WHERE id = p_session_id AND user_id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'email', (SELECT email FROM auth.users WHERE id = p_user_id),
+    'role', (SELECT role FROM users WHERE id = p_user_id),
+    'roles', COALESCE(
+      (SELECT jsonb_agg(role_name) FROM user_roles WHERE user_id = p_user_id AND is_active),
+      '[]'::JSONB
+    ),
+    'mfa_enabled', EXISTS (SELECT 1 FROM user_two_factor WHERE user_id = p_user_id AND enabled),
+    'mfa_verified', EXISTS (
+      SELECT 1 FROM two_factor_sessions WHERE session_id = p_session_id AND user_id = p_user_id
+    ),
+    'mfa_required', two_factor_required(p_user_id),
+    'session_started_at', v_started_at,
+    'session_ip', host(v_ip),
+    'session_user_agent', v_user_agent
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION require_password_change_grant() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION security_rule_subject(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION security_rule_subject(UUID, UUID) TO service_role;
+-- auth-hook runs the network rules through the Postgres hook
+GRANT EXECUTE ON FUNCTION custom_access_token_hook(JSONB) TO service_role;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+-- Grants are only written by security-checkpoint with the service role
+ALTER TABLE password_change_grants ENABLE ROW LEVEL SECURITY;
+
+-- Everyone signed in reads the policies, so the app can warn before
+-- the server refuses; platform admins edit them
+CREATE POLICY "admin_system_settings_select_security_policies"
+  ON admin_system_settings FOR SELECT
+  TO authenticated
+  USING (setting_key = 'security_policies');
+
+CREATE POLICY "admin_system_settings_security_policies_platform_admin"
+  ON admin_system_settings FOR ALL
+  USING (
+    setting_key = 'security_policies'
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  )
+  WITH CHECK (
+    setting_key = 'security_policies'
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON TABLE password_change_grants IS 'One-time permissions for a password update that passed the security rules';
+COMMENT ON FUNCTION require_password_change_grant() IS 'Refuse password updates made without a grant from security-checkpoint';
+COMMENT ON FUNCTION security_rule_subject(UUID, UUID) IS 'User and session values for server-side security rules';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, point the Custom Access Token hook back at
+-- public.custom_access_token_hook, then execute:
+-- DROP TRIGGER IF EXISTS require_password_change_grant ON auth.users;
+-- DROP FUNCTION IF EXISTS require_password_change_grant();
+-- DROP FUNCTION IF EXISTS security_rule_subject(UUID, UUID);
+-- DROP POLICY IF EXISTS "admin_system_settings_security_policies_platform_admin" ON admin_system_settings;
+-- DROP POLICY IF EXISTS "admin_system_settings_select_security_policies" ON admin_system_settings;
+-- DROP TABLE IF EXISTS password_change_grants CASCADE;
+-- DELETE FROM admin_system_settings WHERE setting_key = 'security_policies';
@@ -0,0 +1,59 @@
+-- =====================================================
+-- Migration: Render certificates on the server
+-- Created: 2026-10-20T16:00:00Z
+-- Tables: storage.buckets, storage.objects, certificates
+-- Purpose: Certificate PDFs and thumbnails are now rendered and uploaded by
+--          the certificates edge function with the service role. Learners
+--          lose write access to the certificates bucket and can no longer
+--          point pdf_url/thumbnail_url at other files. Thumbnails are SVG,
+--          stored as <user_id>/<certificate_id>-thumbnail.svg
+-- =====================================================
+
+-- =====================================================
+-- BUCKET: certificates
+-- =====================================================
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY['application/pdf', 'image/png', 'image/svg+xml']
+WHERE id = 'certificates';
+
+-- Only the service role writes rendered files; reads stay public
+DROP POLICY IF EXISTS "certificate_files_insert_own" ON storage.objects;
+DROP POLICY IF EXISTS "certificate_files_update_own" ON storage.objects;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+-- File URLs are only ever set by the certificates edge function
+CREATE OR REPLACE FUNCTION keep_certificate_file_urls()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    NEW.pdf_url := OLD.pdf_url;
+    NEW.thumbnail_url := OLD.thumbnail_url;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS keep_certificate_file_urls_before_update ON certificates;
+CREATE TRIGGER keep_certificate_file_urls_before_update
+  BEFORE UPDATE ON certificates
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_certificate_file_urls();
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON FUNCTION keep_certificate_file_urls() IS 'Keep pdf_url and thumbnail_url unless the service role (certificates edge function) changes them';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, recreate certificate_files_insert_own and
+-- certificate_files_update_own from 20261019160000_create_certificate_storage,
+-- then execute:
+-- DROP TRIGGER IF EXISTS keep_certificate_file_urls_before_update ON certificates;
+-- DROP FUNCTION IF EXISTS keep_certificate_file_urls();
+-- UPDATE storage.buckets SET allowed_mime_types = ARRAY['application/pdf', 'image/png'] WHERE id = 'certificates';
@@ -0,0 +1,115 @@
+-- =====================================================
+-- Migration: Restrict certificate revocation and signing helpers
+-- Created: 2026-10-20T17:00:00Z
+-- Tables: certificates
+-- Purpose: Only the course owner (issuer) and admins can revoke a
+--          certificate, through revoke_certificate or a direct update;
+--          recipients can no longer revoke their own. The signing payload
+--          and HMAC helpers are no longer callable by API roles.
+-- =====================================================
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Issuers of a certificate: the owner of its course and platform admins
+CREATE OR REPLACE FUNCTION can_revoke_certificate(p_course_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT auth.role() = 'service_role'
+    OR EXISTS (SELECT 1 FROM courses WHERE courses.id = p_course_id AND courses.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Revocation is permanent, always carries a reason, a time and who did it,
+-- and can only be done by an issuer
+CREATE OR REPLACE FUNCTION enforce_certificate_revocation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'revoked' THEN
+    IF NEW.status IS DISTINCT FROM 'revoked'
+       OR NEW.revoked_at IS DISTINCT FROM OLD.revoked_at
+       OR NEW.revocation_reason IS DISTINCT FROM OLD.revocation_reason THEN
+      RAISE EXCEPTION 'Revoked certificates cannot be reinstated or changed';
+    END IF;
+  ELSIF NEW.status = 'revoked' THEN
+    IF NOT can_revoke_certificate(OLD.course_id) THEN
+      RAISE EXCEPTION 'Not allowed to revoke this certificate';
+    END IF;
+
+    NEW.revoked_at := NOW();
+    NEW.revoked_by := auth.uid();
+    NEW.revocation_reason := COALESCE(NEW.revocation_reason, 'other');
+  ELSE
+    NEW.revoked_at := NULL;
+    NEW.revoked_by := NULL;
+    NEW.revocation_reason := NULL;
+    NEW.revocation_note := NULL;
+  END IF;
+
+  -- Signatures are only ever written on insert
+  NEW.signature := OLD.signature;
+  NEW.signature_key_id := OLD.signature_key_id;
+  NEW.signed_at := OLD.signed_at;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Revoke a certificate. Allowed for the course owner and admins.
+CREATE OR REPLACE FUNCTION revoke_certificate(
+  p_certificate_id UUID,
+  p_reason TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS certificates AS $$
+DECLARE
+  v_certificate certificates;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO v_certificate FROM certificates WHERE id = p_certificate_id FOR UPDATE;
+
+  IF v_certificate.id IS NULL THEN
+    RAISE EXCEPTION 'Certificate not found';
+  END IF;
+
+  IF NOT can_revoke_certificate(v_certificate.course_id) THEN
+    RAISE EXCEPTION 'Not allowed to revoke this certificate';
+  END IF;
+
+  IF v_certificate.status = 'revoked' THEN
+    RAISE EXCEPTION 'Certificate is already revoked';
+  END IF;
+
+  UPDATE certificates
+  SET status = 'revoked',
+      revocation_reason = p_reason,
+      revocation_note = p_note
+  WHERE id = p_certificate_id
+  RETURNING * INTO v_certificate;
+
+  RETURN v_certificate;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Signing helpers are only called from the signing trigger and
+-- verify_certificate, which run as their owner
+REVOKE EXECUTE ON FUNCTION certificate_signing_payload(certificates) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION compute_certificate_signature(certificates, UUID) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON FUNCTION can_revoke_certificate(UUID) IS 'Whether the caller may revoke certificates of a course (course owner, admin or service role)';
+COMMENT ON FUNCTION revoke_certificate IS 'Revoke a certificate with a reason (course owner or admin)';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, recreate enforce_certificate_revocation and
+-- revoke_certificate from 20261019170000, then execute:
+-- GRANT EXECUTE ON FUNCTION certificate_signing_payload(certificates) TO PUBLIC;
+-- GRANT EXECUTE ON FUNCTION compute_certificate_signature(certificates, UUID) TO PUBLIC;
+-- DROP FUNCTION IF EXISTS can_revoke_certificate(UUID);
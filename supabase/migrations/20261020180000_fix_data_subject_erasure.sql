@@ -0,0 +1,131 @@
+-- =====================================================
+-- Migration: Fix data subject erasure checks
+-- Created: 2026-10-20T18:00:00Z
+-- Tables: data_subject_requests
+-- Purpose: erase_data_subject refuses while any legal hold covers the
+--          subject, including holds without a user, and resolves the
+--          account from the subject email at erasure time instead of
+--          trusting the stored subject_user_id
+-- =====================================================
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Erase the subject of a verified erasure request. Authored reels and
+-- analytics stay with user_id and device details cleared; deleting the
+-- account removes the profile, sessions, quiz attempts, certificates and
+-- everything else that cascades from auth.users. Refused while a legal hold
+-- covers the subject: one naming the account or its email, or one without a
+-- user, as legal_hold_applies matches rows. The account is looked up again
+-- from the subject email. Called by the data-subject-requests edge function
+-- once it has deleted the subject's export archives.
+CREATE OR REPLACE FUNCTION erase_data_subject(p_request_id UUID, p_actor_id UUID)
+RETURNS data_subject_requests AS $$
+DECLARE
+  v_request data_subject_requests;
+  v_user_id UUID;
+  v_hold TEXT;
+  v_reels BIGINT;
+  v_activity BIGINT;
+  v_learning BIGINT;
+  v_searches BIGINT;
+  v_deleted JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = p_actor_id AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only platform admins can erase data subjects' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_request FROM data_subject_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF v_request.id IS NULL THEN
+    RAISE EXCEPTION 'Request % not found', p_request_id USING ERRCODE = 'P0002';
+  END IF;
+  IF v_request.request_type <> 'erasure' THEN
+    RAISE EXCEPTION 'Request % is not an erasure request', p_request_id USING ERRCODE = '22023';
+  END IF;
+  IF v_request.status IN ('completed', 'rejected') THEN
+    RAISE EXCEPTION 'Request % is already %', p_request_id, v_request.status USING ERRCODE = '55000';
+  END IF;
+  IF v_request.identity_verification_status <> 'verified' THEN
+    RAISE EXCEPTION 'Verify the subject''s identity before erasing' USING ERRCODE = '55000';
+  END IF;
+
+  -- The stored id may predate a change of email or point at another account
+  SELECT id INTO v_user_id FROM auth.users WHERE lower(email) = lower(v_request.subject_email);
+
+  IF v_request.subject_user_id IS NOT NULL AND v_request.subject_user_id IS DISTINCT FROM v_user_id THEN
+    RAISE EXCEPTION 'The request''s account no longer matches the subject email' USING ERRCODE = '55000';
+  END IF;
+
+  SELECT h.name INTO v_hold FROM legal_holds h
+  WHERE h.released_at IS NULL
+    AND (
+      h.user_id IS NULL
+      OR h.user_id = v_user_id
+      OR lower(v_request.subject_email) = (SELECT lower(email) FROM auth.users WHERE id = h.user_id)
+    )
+  LIMIT 1;
+  IF v_hold IS NOT NULL THEN
+    RAISE EXCEPTION 'The subject''s data is under legal hold "%"', v_hold USING ERRCODE = '55000';
+  END IF;
+
+  IF v_user_id IS NOT NULL THEN
+    UPDATE videos SET user_id = NULL WHERE user_id = v_user_id;
+    GET DIAGNOSTICS v_reels = ROW_COUNT;
+
+    UPDATE user_activity
+    SET user_id = NULL, session_id = NULL, ip_address = NULL, user_agent = NULL, metadata = '{}'::jsonb
+    WHERE user_id = v_user_id;
+    GET DIAGNOSTICS v_activity = ROW_COUNT;
+
+    UPDATE learning_analytics
+    SET user_id = NULL, session_id = NULL, browser_info = NULL
+    WHERE user_id = v_user_id;
+    GET DIAGNOSTICS v_learning = ROW_COUNT;
+
+    UPDATE search_analytics
+    SET user_id = NULL, session_id = NULL, ip_address = NULL, user_agent = NULL
+    WHERE user_id = v_user_id;
+    GET DIAGNOSTICS v_searches = ROW_COUNT;
+
+    v_deleted := jsonb_build_object(
+      'user_profiles', (SELECT count(*) FROM user_profiles WHERE user_id = v_user_id),
+      'user_sessions', (SELECT count(*) FROM user_sessions WHERE user_id = v_user_id),
+      'quiz_attempts', (SELECT count(*) FROM quiz_attempts WHERE user_id = v_user_id),
+      'certificates', (SELECT count(*) FROM certificates WHERE user_id = v_user_id)
+    );
+
+    -- Clears subject_user_id on this and any other request for the subject
+    DELETE FROM auth.users WHERE id = v_user_id;
+  END IF;
+
+  UPDATE data_subject_requests
+  SET status = 'completed',
+      updated_by = p_actor_id,
+      erasure_summary = jsonb_build_object(
+        'account_found', v_user_id IS NOT NULL,
+        'anonymized', jsonb_build_object(
+          'videos', COALESCE(v_reels, 0),
+          'user_activity', COALESCE(v_activity, 0),
+          'learning_analytics', COALESCE(v_learning, 0),
+          'search_analytics', COALESCE(v_searches, 0)
+        ),
+        'deleted', COALESCE(v_deleted, '{}'::jsonb),
+        'erased_at', NOW()
+      )
+  WHERE id = p_request_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Service role only; the edge function checks the caller
+REVOKE EXECUTE ON FUNCTION erase_data_subject(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, recreate erase_data_subject from
+-- 20261020070000_create_data_subject_requests.
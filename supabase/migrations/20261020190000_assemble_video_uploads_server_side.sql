@@ -0,0 +1,132 @@
+-- =====================================================
+-- Migration: Assemble video uploads on the server
+-- Created: 2026-10-20T19:00:00Z
+-- Tables: video_upload_sessions
+-- Purpose: The video-uploads edge function now joins the stored chunks
+--          into one object and computes its SHA-256 from the stored bytes.
+--          assemble_video_upload, which trusted a checksum sent by the
+--          browser, is replaced by complete_video_upload for the service
+--          role only, and owners can no longer mark a session complete.
+-- =====================================================
+
+-- =====================================================
+-- TABLE: video_upload_sessions
+-- =====================================================
+ALTER TABLE video_upload_sessions ADD COLUMN IF NOT EXISTS storage_path TEXT;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+-- Only complete_video_upload (service role) finalizes a session; owners
+-- keep updating progress through video_upload_sessions_update_own
+CREATE OR REPLACE FUNCTION keep_video_upload_result()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    NEW.is_complete := OLD.is_complete;
+    NEW.checksum := OLD.checksum;
+    NEW.storage_path := OLD.storage_path;
+    NEW.manifest := OLD.manifest;
+    NEW.assembled_at := OLD.assembled_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS keep_video_upload_result_before_update ON video_upload_sessions;
+CREATE TRIGGER keep_video_upload_result_before_update
+  BEFORE UPDATE ON video_upload_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_video_upload_result();
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+DROP FUNCTION IF EXISTS assemble_video_upload(TEXT, TEXT);
+
+-- Freeze a session once its assembled object is stored with the declared
+-- size, and return the manifest for the transcode worker. p_checksum is the
+-- hex SHA-256 of the assembled object, computed by the edge function.
+CREATE OR REPLACE FUNCTION complete_video_upload(
+  p_session_id TEXT,
+  p_storage_path TEXT,
+  p_checksum TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session video_upload_sessions%ROWTYPE;
+  v_stored_bytes BIGINT;
+  v_manifest JSONB;
+BEGIN
+  SELECT * INTO v_session
+  FROM video_upload_sessions
+  WHERE session_id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Upload session % not found', p_session_id;
+  END IF;
+
+  IF v_session.is_complete THEN
+    RETURN v_session.manifest;
+  END IF;
+
+  SELECT (o.metadata->>'size')::BIGINT INTO v_stored_bytes
+  FROM storage.objects o
+  WHERE o.bucket_id = 'videos' AND o.name = p_storage_path;
+
+  IF v_stored_bytes IS DISTINCT FROM v_session.total_size THEN
+    RAISE EXCEPTION 'Size mismatch: stored % bytes, expected %', COALESCE(v_stored_bytes, 0), v_session.total_size;
+  END IF;
+
+  IF p_checksum !~ '^[0-9a-f]{64}$' THEN
+    RAISE EXCEPTION 'Invalid checksum for upload session %', p_session_id;
+  END IF;
+
+  v_manifest := jsonb_build_object(
+    'video_id', v_session.video_id,
+    'session_id', v_session.session_id,
+    'mime_type', v_session.mime_type,
+    'total_size', v_session.total_size,
+    'checksum', p_checksum,
+    'storage_path', p_storage_path
+  );
+
+  UPDATE video_upload_sessions
+  SET is_complete = true,
+      checksum = p_checksum,
+      storage_path = p_storage_path,
+      manifest = v_manifest,
+      uploaded_chunks = v_session.total_chunks,
+      uploaded_bytes = v_session.total_size,
+      assembled_at = NOW(),
+      last_activity = NOW()
+  WHERE session_id = p_session_id;
+
+  RETURN v_manifest;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Service role only; the edge function checks the caller owns the session
+REVOKE EXECUTE ON FUNCTION complete_video_upload(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON COLUMN video_upload_sessions.checksum IS 'SHA-256 of the assembled file, computed by the video-uploads edge function from the stored bytes';
+COMMENT ON COLUMN video_upload_sessions.storage_path IS 'Assembled object in the videos bucket';
+COMMENT ON COLUMN video_upload_sessions.manifest IS 'Assembled object path and verified size/checksum consumed by the transcode job';
+COMMENT ON FUNCTION keep_video_upload_result() IS 'Keep the assembly result of an upload session unless the service role sets it';
+COMMENT ON FUNCTION complete_video_upload IS 'Finalize an upload session once the edge function has stored and hashed the assembled object';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, recreate assemble_video_upload from
+-- 20261019120000_create_resumable_video_uploads, then execute:
+-- DROP FUNCTION IF EXISTS complete_video_upload(TEXT, TEXT, TEXT);
+-- DROP TRIGGER IF EXISTS keep_video_upload_result_before_update ON video_upload_sessions;
+-- DROP FUNCTION IF EXISTS keep_video_upload_result();
+-- ALTER TABLE video_upload_sessions DROP COLUMN IF EXISTS storage_path;
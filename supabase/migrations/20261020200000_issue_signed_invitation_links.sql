@@ -0,0 +1,59 @@
+-- =====================================================
+-- Migration: Signed invitation links
+-- Created: 2026-10-20T20:00:00Z
+-- Tables: user_invitations
+-- Purpose: The invitations edge function now creates invitations, mails a
+--          link carrying a signed token (audience 'invitation') and
+--          accepts them when the link comes back. invitation_token holds
+--          the SHA-256 of that token. Clients can no longer insert
+--          invitations, set their token or mark them accepted.
+-- =====================================================
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+-- Only the invitations function (service role) sets the token or accepts;
+-- admins keep cancelling or extending through the update policy
+CREATE OR REPLACE FUNCTION keep_invitation_token()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    NEW.invitation_token := OLD.invitation_token;
+    IF NEW.status = 'accepted' AND OLD.status IS DISTINCT FROM 'accepted' THEN
+      RAISE EXCEPTION 'Invitations are accepted through their link'
+        USING ERRCODE = '42501';
+    END IF;
+    NEW.accepted_at := OLD.accepted_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS keep_invitation_token_before_update ON user_invitations;
+CREATE TRIGGER keep_invitation_token_before_update
+  BEFORE UPDATE ON user_invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_invitation_token();
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+-- Invitations are created by the invitations function, which signs the link
+DROP POLICY IF EXISTS "user_invitations_insert_admin" ON user_invitations;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON COLUMN user_invitations.invitation_token IS 'SHA-256 of the signed token in the mailed invitation link';
+COMMENT ON FUNCTION keep_invitation_token() IS 'Keep the token and acceptance of an invitation unless the service role sets them';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, recreate the user_invitations_insert_admin
+-- policy from 20241221120000_create_user_management_tables, then execute:
+-- DROP TRIGGER IF EXISTS keep_invitation_token_before_update ON user_invitations;
+-- DROP FUNCTION IF EXISTS keep_invitation_token();
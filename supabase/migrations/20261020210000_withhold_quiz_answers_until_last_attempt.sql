@@ -0,0 +1,210 @@
+-- =====================================================
+-- Migration: Withhold quiz answers while retakes remain
+-- Created: 2026-10-20T21:00:00Z
+-- Tables: quiz_configurations
+-- Purpose: grade_quiz_attempt returned (and stored on the attempt) the
+--          correct answers whenever show_correct_answers was unset, so a
+--          learner with retakes left could read the key for the next
+--          attempt. Answers are now shown once no attempts remain, or when
+--          the configuration sets show_correct_answers, which defaults to
+--          false.
+-- =====================================================
+
+-- =====================================================
+-- TABLE: quiz_configurations
+-- =====================================================
+ALTER TABLE quiz_configurations ALTER COLUMN show_correct_answers SET DEFAULT false;
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Grade a quiz attempt and record it. A quiz is the set of course_quizzes
+-- questions sharing the course and module of p_quiz_id. Configuration comes
+-- from quiz_configurations for the quiz, then for the course, then defaults.
+-- Correct answers are withheld while the learner can still retake the quiz,
+-- unless the configuration sets show_correct_answers.
+CREATE OR REPLACE FUNCTION grade_quiz_attempt(
+  p_quiz_id UUID,
+  p_answers JSONB,
+  p_time_spent INTEGER DEFAULT 0
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_course_id UUID;
+  v_module_id UUID;
+  v_config RECORD;
+  v_previous_attempts INTEGER;
+  v_question RECORD;
+  v_answer JSONB;
+  v_is_correct BOOLEAN;
+  v_graded JSONB := '[]'::jsonb;
+  v_total_points INTEGER := 0;
+  v_earned_points INTEGER := 0;
+  v_correct_count INTEGER := 0;
+  v_question_count INTEGER := 0;
+  v_score INTEGER;
+  v_passed BOOLEAN;
+  v_show_correct_answers BOOLEAN;
+  v_attempt_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT course_id, module_id INTO v_course_id, v_module_id
+  FROM course_quizzes
+  WHERE id = p_quiz_id;
+
+  IF v_course_id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  -- Same access rule as course_quizzes_select_course_access, plus enrollment
+  IF NOT EXISTS (
+    SELECT 1 FROM courses
+    WHERE id = v_course_id AND (
+      user_id = v_user_id OR
+      visibility = 'public' OR
+      (visibility = 'organization' AND EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_id = v_user_id AND organization_id = (
+          SELECT organization_id FROM user_profiles WHERE user_id = courses.user_id
+        )
+      )) OR
+      EXISTS (
+        SELECT 1 FROM course_enrollments
+        WHERE course_id = courses.id AND user_id = v_user_id
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found or access denied';
+  END IF;
+
+  SELECT
+    COALESCE(qc.allow_retake, true) AS allow_retake,
+    COALESCE(qc.max_attempts, 3) AS max_attempts,
+    COALESCE(qc.pass_threshold, 80) AS pass_threshold,
+    COALESCE(qc.show_correct_answers, false) AS show_correct_answers,
+    COALESCE(qc.show_explanations, true) AS show_explanations
+  INTO v_config
+  FROM (SELECT 1) defaults
+  LEFT JOIN LATERAL (
+    SELECT *
+    FROM quiz_configurations
+    WHERE course_id = v_course_id AND (quiz_id = p_quiz_id OR quiz_id IS NULL)
+    ORDER BY (quiz_id IS NULL), updated_at DESC
+    LIMIT 1
+  ) qc ON true;
+
+  -- Serialise concurrent submissions by the same learner for this quiz
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::text || ':' || p_quiz_id::text));
+
+  SELECT COUNT(*) INTO v_previous_attempts
+  FROM quiz_attempts
+  WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND status = 'completed';
+
+  IF v_previous_attempts > 0 AND NOT v_config.allow_retake THEN
+    RAISE EXCEPTION 'Retakes are not allowed for this quiz';
+  END IF;
+
+  IF v_previous_attempts >= v_config.max_attempts THEN
+    RAISE EXCEPTION 'Maximum attempts reached (% of %)', v_previous_attempts, v_config.max_attempts;
+  END IF;
+
+  -- The answer key would otherwise carry over to the next attempt
+  v_show_correct_answers := v_config.show_correct_answers
+    OR NOT v_config.allow_retake
+    OR v_previous_attempts + 1 >= v_config.max_attempts;
+
+  -- Unanswered questions count towards the total and are graded incorrect
+  FOR v_question IN
+    SELECT q.id, q.points, k.correct_answer, k.explanation
+    FROM course_quizzes q
+    LEFT JOIN course_quiz_answer_keys k ON k.question_id = q.id
+    WHERE q.course_id = v_course_id AND q.module_id IS NOT DISTINCT FROM v_module_id
+    ORDER BY q.order_index, q.created_at
+  LOOP
+    SELECT elem INTO v_answer
+    FROM jsonb_array_elements(COALESCE(p_answers, '[]'::jsonb)) AS elem
+    WHERE elem->>'questionId' = v_question.id::text
+    LIMIT 1;
+
+    v_is_correct := v_answer IS NOT NULL
+      AND v_question.correct_answer IS NOT NULL
+      AND cardinality(normalize_quiz_answer(v_answer->'answer')) > 0
+      AND normalize_quiz_answer(v_answer->'answer') = normalize_quiz_answer(
+        to_jsonb(string_to_array(v_question.correct_answer, ','))
+      );
+
+    v_question_count := v_question_count + 1;
+    v_total_points := v_total_points + v_question.points;
+    IF v_is_correct THEN
+      v_correct_count := v_correct_count + 1;
+      v_earned_points := v_earned_points + v_question.points;
+    END IF;
+
+    v_graded := v_graded || jsonb_build_array(
+      jsonb_strip_nulls(jsonb_build_object(
+        'questionId', v_question.id,
+        'answer', COALESCE(v_answer->'answer', 'null'::jsonb),
+        'isCorrect', v_is_correct,
+        'timeSpent', COALESCE((v_answer->>'timeSpent')::INTEGER, 0),
+        'submittedAt', COALESCE(v_answer->>'submittedAt', NOW()::text),
+        'correctAnswer', CASE WHEN v_show_correct_answers THEN v_question.correct_answer END,
+        'explanation', CASE WHEN v_config.show_explanations THEN v_question.explanation END
+      ))
+    );
+
+    v_answer := NULL;
+  END LOOP;
+
+  IF v_question_count = 0 THEN
+    RAISE EXCEPTION 'Quiz has no questions';
+  END IF;
+
+  v_score := CASE WHEN v_total_points > 0 THEN round(v_earned_points * 100.0 / v_total_points) ELSE 0 END;
+  v_passed := v_score >= v_config.pass_threshold;
+
+  INSERT INTO quiz_attempts (
+    quiz_id, user_id, course_id, module_id, answers, score, passed,
+    total_points, earned_points, time_spent, completed_at, status
+  ) VALUES (
+    p_quiz_id, v_user_id, v_course_id, v_module_id, v_graded, v_score, v_passed,
+    v_total_points, v_earned_points, GREATEST(COALESCE(p_time_spent, 0), 0), NOW(), 'completed'
+  )
+  RETURNING id INTO v_attempt_id;
+
+  RETURN jsonb_build_object(
+    'attempt_id', v_attempt_id,
+    'quiz_id', p_quiz_id,
+    'course_id', v_course_id,
+    'module_id', v_module_id,
+    'score', v_score,
+    'passed', v_passed,
+    'pass_threshold', v_config.pass_threshold,
+    'total_points', v_total_points,
+    'earned_points', v_earned_points,
+    'total_questions', v_question_count,
+    'correct_answers', v_correct_count,
+    'answers', v_graded,
+    'attempt_number', v_previous_attempts + 1,
+    'max_attempts', v_config.max_attempts,
+    'attempts_remaining', GREATEST(v_config.max_attempts - v_previous_attempts - 1, 0),
+    'can_retake', v_config.allow_retake AND NOT v_passed AND v_previous_attempts + 1 < v_config.max_attempts
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON COLUMN quiz_configurations.show_correct_answers IS 'Show correct answers after every attempt; otherwise they are shown only once no attempts remain';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, recreate grade_quiz_attempt from
+-- 20261019150000_add_server_side_quiz_grading, then execute:
+-- ALTER TABLE quiz_configurations ALTER COLUMN show_correct_answers SET DEFAULT true;
@@ -0,0 +1,255 @@
+-- =====================================================
+-- Migration: Prorate only paid periods
+-- Created: 2026-10-20T22:00:00Z
+-- Tables: subscriptions, invoices
+-- Purpose: calculate_subscription_proration credited unused time even
+--          when the current period was never paid (past_due), and
+--          change_subscription_plan could fold the proration into an open
+--          invoice, so the amount charged differed from the preview.
+--          Credit now needs a paid invoice for the period, and every plan
+--          change is invoiced on its own with the previewed amounts.
+-- =====================================================
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Proration for moving p_subscription to p_plan at p_at, counted in whole
+-- days (UTC). Keeping the billing cycle keeps the period and charges the new
+-- plan for the remaining days; changing it starts a new period at p_at and
+-- charges the full new price. Trials paid nothing, so they get no credit and
+-- no charge. Unused time is credited only when an invoice for the current
+-- period has been paid; a past_due period that was never paid earns nothing.
+CREATE OR REPLACE FUNCTION calculate_subscription_proration(
+  p_subscription subscriptions,
+  p_plan subscription_plans,
+  p_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_today DATE := (p_at AT TIME ZONE 'UTC')::DATE;
+  v_days_in_period INTEGER;
+  v_days_remaining INTEGER;
+  v_period_reset BOOLEAN := p_plan.billing_cycle <> p_subscription.billing_cycle;
+  v_period_start TIMESTAMPTZ := p_subscription.current_period_start;
+  v_period_end TIMESTAMPTZ := p_subscription.current_period_end;
+  v_period_paid BOOLEAN;
+  v_credit INTEGER := 0;
+  v_charge INTEGER := 0;
+  v_account_credit INTEGER;
+  v_applied INTEGER := 0;
+  v_net INTEGER;
+  v_subtotal INTEGER;
+  v_tax INTEGER;
+BEGIN
+  v_days_in_period := GREATEST(1,
+    (p_subscription.current_period_end AT TIME ZONE 'UTC')::DATE
+    - (p_subscription.current_period_start AT TIME ZONE 'UTC')::DATE);
+  v_days_remaining := LEAST(v_days_in_period, GREATEST(0,
+    (p_subscription.current_period_end AT TIME ZONE 'UTC')::DATE - v_today));
+
+  IF v_period_reset THEN
+    v_period_start := p_at;
+    v_period_end := p_at + CASE p_plan.billing_cycle WHEN 'yearly' THEN INTERVAL '1 year' ELSE INTERVAL '1 month' END;
+  END IF;
+
+  v_period_paid := EXISTS (
+    SELECT 1 FROM invoices
+    WHERE subscription_id = p_subscription.id
+      AND status = 'paid'
+      AND period_start < p_subscription.current_period_end
+      AND period_end > p_subscription.current_period_start
+  );
+
+  IF p_subscription.status <> 'trial' THEN
+    IF v_period_paid THEN
+      v_credit := ROUND(p_subscription.price_cents::NUMERIC * v_days_remaining / v_days_in_period);
+    END IF;
+    v_charge := CASE
+      WHEN v_period_reset THEN p_plan.price_cents
+      ELSE ROUND(p_plan.price_cents::NUMERIC * v_days_remaining / v_days_in_period)
+    END;
+  END IF;
+
+  SELECT account_credit_cents INTO v_account_credit
+  FROM organizations WHERE id = p_subscription.organization_id;
+
+  v_net := v_charge - v_credit;
+  IF v_net > 0 THEN
+    v_applied := LEAST(v_net, COALESCE(v_account_credit, 0));
+  END IF;
+
+  v_subtotal := GREATEST(0, v_net - v_applied);
+  v_tax := ROUND(v_subtotal * COALESCE(p_subscription.tax_rate, 0));
+
+  RETURN jsonb_build_object(
+    'subscription_id', p_subscription.id,
+    'current_plan_id', p_subscription.plan_id,
+    'new_plan_id', p_plan.id,
+    'billing_cycle', p_plan.billing_cycle,
+    'currency', p_subscription.currency,
+    'proration_date', p_at,
+    'days_in_period', v_days_in_period,
+    'days_remaining', v_days_remaining,
+    'period_reset', v_period_reset,
+    'period_start', v_period_start,
+    'period_end', v_period_end,
+    'period_paid', v_period_paid,
+    'credit_cents', v_credit,
+    'charge_cents', v_charge,
+    'account_credit_applied_cents', v_applied,
+    'subtotal_cents', v_subtotal,
+    'tax_cents', v_tax,
+    'amount_due_cents', v_subtotal + v_tax,
+    'credit_carried_cents', GREATEST(0, v_credit - v_charge)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Move the subscription to the new plan and invoice the proration on a new
+-- invoice, with exactly the amounts preview_subscription_change shows (both
+-- come from calculate_subscription_proration). Returns the proration with
+-- the invoice id.
+CREATE OR REPLACE FUNCTION change_subscription_plan(p_subscription_id UUID, p_plan_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_change RECORD;
+  v_previous subscriptions;
+  v_subscription subscriptions;
+  v_plan subscription_plans;
+  v_current_plan subscription_plans;
+  v_proration JSONB;
+  v_lines JSONB := '[]'::jsonb;
+  v_invoice invoices;
+  v_carried INTEGER := 0;
+  v_now TIMESTAMPTZ := NOW();
+BEGIN
+  SELECT * INTO v_change FROM load_subscription_change(p_subscription_id, p_plan_id, true);
+  v_previous := v_change.subscription;
+  v_subscription := v_change.subscription;
+  v_plan := v_change.plan;
+
+  SELECT * INTO v_current_plan FROM subscription_plans WHERE id = v_subscription.plan_id;
+
+  -- Serialize with other changes that use the organization's credit
+  PERFORM 1 FROM organizations WHERE id = v_subscription.organization_id FOR UPDATE;
+
+  v_proration := calculate_subscription_proration(v_subscription, v_plan, v_now);
+
+  IF (v_proration->>'credit_cents')::INTEGER > 0 THEN
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'type', 'proration_credit',
+      'description', format('Unused time on %s (%s of %s days)',
+        v_current_plan.name, v_proration->>'days_remaining', v_proration->>'days_in_period'),
+      'quantity', 1,
+      'unit_price_cents', -(v_proration->>'credit_cents')::INTEGER,
+      'total_cents', -(v_proration->>'credit_cents')::INTEGER
+    ));
+  END IF;
+
+  IF (v_proration->>'charge_cents')::INTEGER > 0 THEN
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'type', 'proration_charge',
+      'description', CASE
+        WHEN (v_proration->>'period_reset')::BOOLEAN
+          THEN format('%s (%s)', v_plan.name, v_plan.billing_cycle)
+        ELSE format('Remaining time on %s (%s of %s days)',
+          v_plan.name, v_proration->>'days_remaining', v_proration->>'days_in_period')
+      END,
+      'quantity', 1,
+      'unit_price_cents', (v_proration->>'charge_cents')::INTEGER,
+      'total_cents', (v_proration->>'charge_cents')::INTEGER
+    ));
+  END IF;
+
+  IF (v_proration->>'account_credit_applied_cents')::INTEGER > 0 THEN
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'type', 'account_credit',
+      'description', 'Account credit applied',
+      'quantity', 1,
+      'unit_price_cents', -(v_proration->>'account_credit_applied_cents')::INTEGER,
+      'total_cents', -(v_proration->>'account_credit_applied_cents')::INTEGER
+    ));
+  END IF;
+
+  UPDATE subscriptions SET
+    plan_id = v_plan.id,
+    billing_cycle = v_plan.billing_cycle,
+    price_cents = v_plan.price_cents,
+    stripe_price_id = v_plan.stripe_price_id,
+    seats_limit = v_plan.max_users,
+    machines_limit = v_plan.max_machines,
+    current_period_start = (v_proration->>'period_start')::TIMESTAMPTZ,
+    current_period_end = (v_proration->>'period_end')::TIMESTAMPTZ
+  WHERE id = v_subscription.id
+  RETURNING * INTO v_subscription;
+
+  IF jsonb_array_length(v_lines) > 0 THEN
+    v_carried := (v_proration->>'credit_carried_cents')::INTEGER;
+
+    INSERT INTO invoices (
+      organization_id, subscription_id, invoice_number, status,
+      subtotal_cents, tax_cents, total_cents, currency,
+      period_start, period_end, due_date, paid_at, line_items, metadata
+    ) VALUES (
+      v_subscription.organization_id,
+      v_subscription.id,
+      generate_invoice_number(),
+      CASE WHEN (v_proration->>'amount_due_cents')::INTEGER > 0 THEN 'open' ELSE 'paid' END,
+      (v_proration->>'subtotal_cents')::INTEGER,
+      (v_proration->>'tax_cents')::INTEGER,
+      (v_proration->>'amount_due_cents')::INTEGER,
+      v_subscription.currency,
+      v_now,
+      GREATEST(v_subscription.current_period_end, v_now + INTERVAL '1 day'),
+      v_now,
+      CASE WHEN (v_proration->>'amount_due_cents')::INTEGER > 0 THEN NULL ELSE v_now END,
+      v_lines,
+      jsonb_build_object('reason', 'plan_change')
+    )
+    RETURNING * INTO v_invoice;
+
+    UPDATE organizations SET
+      account_credit_cents = account_credit_cents
+        - (v_proration->>'account_credit_applied_cents')::INTEGER
+        + v_carried
+    WHERE id = v_subscription.organization_id;
+  END IF;
+
+  INSERT INTO billing_events (
+    organization_id, subscription_id, invoice_id,
+    event_type, event_category, event_description,
+    event_data, previous_data, source, source_id
+  ) VALUES (
+    v_subscription.organization_id,
+    v_subscription.id,
+    v_invoice.id,
+    'subscription.plan_changed',
+    'subscription',
+    format('Plan changed from %s to %s', v_current_plan.name, v_plan.name),
+    v_proration || jsonb_build_object('invoice_id', v_invoice.id, 'credit_carried_cents', v_carried),
+    jsonb_build_object(
+      'plan_id', v_previous.plan_id,
+      'billing_cycle', v_previous.billing_cycle,
+      'price_cents', v_previous.price_cents,
+      'current_period_start', v_previous.current_period_start,
+      'current_period_end', v_previous.current_period_end
+    ),
+    'user',
+    auth.uid()::TEXT
+  );
+
+  RETURN v_proration || jsonb_build_object('invoice_id', v_invoice.id, 'credit_carried_cents', v_carried);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON FUNCTION change_subscription_plan IS 'Apply a prorated plan change: updates the subscription and its period, invoices the previewed amounts on a new invoice and records a billing event';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, recreate calculate_subscription_proration and
+-- change_subscription_plan from 20261020030000_add_subscription_proration.
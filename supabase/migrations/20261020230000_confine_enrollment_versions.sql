@@ -0,0 +1,345 @@
+-- =====================================================
+-- Migration: Confine enrollments to their course's versions
+-- Created: 2026-10-20T23:00:00Z
+-- Tables: course_enrollments, quiz_attempts
+-- Purpose: Learners could point version_id / completed_version_id at any
+--          course version, and get_enrollment_course_version would then
+--          return another course's snapshot. Both must now belong to the
+--          enrollment's course. Quiz questions and grading also follow the
+--          version the learner is enrolled on instead of the live course.
+-- =====================================================
+
+-- Learners on an older version answer questions that may since have been
+-- removed from course_quizzes, and their attempts must survive edits to the
+-- live course, as course_completions already do
+ALTER TABLE quiz_attempts DROP CONSTRAINT IF EXISTS quiz_attempts_quiz_id_fkey;
+ALTER TABLE quiz_attempts DROP CONSTRAINT IF EXISTS quiz_attempts_module_id_fkey;
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Whether a course version belongs to a course. SECURITY DEFINER because
+-- learners cannot read course_versions.
+CREATE OR REPLACE FUNCTION course_version_in_course(p_version_id UUID, p_course_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM course_versions WHERE id = p_version_id AND course_id = p_course_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Same access rule as course_quizzes_select_course_access, plus enrollment
+CREATE OR REPLACE FUNCTION can_take_course_quiz(p_user_id UUID, p_course_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM courses
+    WHERE id = p_course_id AND (
+      user_id = p_user_id OR
+      visibility = 'public' OR
+      (visibility = 'organization' AND EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_id = p_user_id AND organization_id = (
+          SELECT organization_id FROM user_profiles WHERE user_id = courses.user_id
+        )
+      )) OR
+      EXISTS (
+        SELECT 1 FROM course_enrollments
+        WHERE course_id = courses.id AND user_id = p_user_id
+      )
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Course, module and pinned version of the quiz containing p_quiz_id for a
+-- learner. The pinned version's snapshot wins over the live course, so a
+-- question removed since the learner enrolled still resolves.
+CREATE OR REPLACE FUNCTION enrolled_quiz(
+  p_user_id UUID,
+  p_quiz_id UUID,
+  OUT course_id UUID,
+  OUT module_id UUID,
+  OUT version_id UUID
+) AS $$
+BEGIN
+  SELECT v.course_id, (q->>'module_id')::UUID, v.id
+  INTO course_id, module_id, version_id
+  FROM course_enrollments e
+  JOIN course_versions v ON v.id = e.version_id
+  CROSS JOIN LATERAL jsonb_array_elements(v.snapshot->'quizzes') q
+  WHERE e.user_id = p_user_id AND q->>'id' = p_quiz_id::TEXT
+  LIMIT 1;
+
+  IF course_id IS NULL THEN
+    SELECT cq.course_id, cq.module_id INTO course_id, module_id
+    FROM course_quizzes cq
+    WHERE cq.id = p_quiz_id;
+
+    -- Learners pinned to a version that lacks this question do not see it
+    SELECT e.version_id INTO version_id
+    FROM course_enrollments e
+    WHERE e.user_id = p_user_id AND e.course_id = enrolled_quiz.course_id;
+
+    IF version_id IS NOT NULL THEN
+      course_id := NULL;
+      module_id := NULL;
+    END IF;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Questions of one quiz (course and module) with their answer keys, from
+-- the snapshot of p_version_id, or from the live course when it is NULL
+CREATE OR REPLACE FUNCTION enrolled_quiz_questions(p_version_id UUID, p_course_id UUID, p_module_id UUID)
+RETURNS TABLE (question JSONB, correct_answer TEXT, explanation TEXT) AS $$
+BEGIN
+  IF p_version_id IS NOT NULL THEN
+    RETURN QUERY
+    SELECT
+      (q - 'answer_key') || jsonb_build_object('created_at', v.created_at, 'updated_at', v.created_at),
+      q->'answer_key'->>'correct_answer',
+      q->'answer_key'->>'explanation'
+    FROM course_versions v
+    CROSS JOIN LATERAL jsonb_array_elements(v.snapshot->'quizzes') WITH ORDINALITY AS s(q, position)
+    WHERE v.id = p_version_id
+      AND v.course_id = p_course_id
+      AND (q->>'module_id')::UUID IS NOT DISTINCT FROM p_module_id
+    ORDER BY (q->>'order_index')::INTEGER, s.position;
+  ELSE
+    RETURN QUERY
+    SELECT to_jsonb(q), k.correct_answer, k.explanation
+    FROM course_quizzes q
+    LEFT JOIN course_quiz_answer_keys k ON k.question_id = q.id
+    WHERE q.course_id = p_course_id AND q.module_id IS NOT DISTINCT FROM p_module_id
+    ORDER BY q.order_index, q.created_at;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Learner view of the quiz containing p_quiz_id, from the version the
+-- caller is enrolled on, without answer keys
+CREATE OR REPLACE FUNCTION get_quiz_questions(p_quiz_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz RECORD;
+BEGIN
+  SELECT * INTO v_quiz FROM enrolled_quiz(v_user_id, p_quiz_id);
+
+  IF v_user_id IS NULL OR v_quiz.course_id IS NULL OR NOT can_take_course_quiz(v_user_id, v_quiz.course_id) THEN
+    RAISE EXCEPTION 'Quiz not found or access denied' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(q.question ORDER BY q.position)
+    FROM enrolled_quiz_questions(v_quiz.version_id, v_quiz.course_id, v_quiz.module_id)
+      WITH ORDINALITY AS q(question, correct_answer, explanation, position)
+  ), '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Grade a quiz attempt and record it. A quiz is the set of questions sharing
+-- the course and module of p_quiz_id, taken from the version the learner is
+-- enrolled on (enrolled_quiz_questions). Configuration comes
+-- from quiz_configurations for the quiz, then for the course, then defaults.
+-- Correct answers are withheld while the learner can still retake the quiz,
+-- unless the configuration sets show_correct_answers.
+CREATE OR REPLACE FUNCTION grade_quiz_attempt(
+  p_quiz_id UUID,
+  p_answers JSONB,
+  p_time_spent INTEGER DEFAULT 0
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz RECORD;
+  v_course_id UUID;
+  v_module_id UUID;
+  v_config RECORD;
+  v_previous_attempts INTEGER;
+  v_question RECORD;
+  v_answer JSONB;
+  v_is_correct BOOLEAN;
+  v_graded JSONB := '[]'::jsonb;
+  v_total_points INTEGER := 0;
+  v_earned_points INTEGER := 0;
+  v_correct_count INTEGER := 0;
+  v_question_count INTEGER := 0;
+  v_score INTEGER;
+  v_passed BOOLEAN;
+  v_show_correct_answers BOOLEAN;
+  v_attempt_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO v_quiz FROM enrolled_quiz(v_user_id, p_quiz_id);
+  v_course_id := v_quiz.course_id;
+  v_module_id := v_quiz.module_id;
+
+  IF v_course_id IS NULL OR NOT can_take_course_quiz(v_user_id, v_course_id) THEN
+    RAISE EXCEPTION 'Quiz not found or access denied';
+  END IF;
+
+  SELECT
+    COALESCE(qc.allow_retake, true) AS allow_retake,
+    COALESCE(qc.max_attempts, 3) AS max_attempts,
+    COALESCE(qc.pass_threshold, 80) AS pass_threshold,
+    COALESCE(qc.show_correct_answers, false) AS show_correct_answers,
+    COALESCE(qc.show_explanations, true) AS show_explanations
+  INTO v_config
+  FROM (SELECT 1) defaults
+  LEFT JOIN LATERAL (
+    SELECT *
+    FROM quiz_configurations
+    WHERE course_id = v_course_id AND (quiz_id = p_quiz_id OR quiz_id IS NULL)
+    ORDER BY (quiz_id IS NULL), updated_at DESC
+    LIMIT 1
+  ) qc ON true;
+
+  -- Serialise concurrent submissions by the same learner for this quiz
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::text || ':' || p_quiz_id::text));
+
+  SELECT COUNT(*) INTO v_previous_attempts
+  FROM quiz_attempts
+  WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND status = 'completed';
+
+  IF v_previous_attempts > 0 AND NOT v_config.allow_retake THEN
+    RAISE EXCEPTION 'Retakes are not allowed for this quiz';
+  END IF;
+
+  IF v_previous_attempts >= v_config.max_attempts THEN
+    RAISE EXCEPTION 'Maximum attempts reached (% of %)', v_previous_attempts, v_config.max_attempts;
+  END IF;
+
+  -- The answer key would otherwise carry over to the next attempt
+  v_show_correct_answers := v_config.show_correct_answers
+    OR NOT v_config.allow_retake
+    OR v_previous_attempts + 1 >= v_config.max_attempts;
+
+  -- Unanswered questions count towards the total and are graded incorrect
+  FOR v_question IN
+    SELECT (q.question->>'id')::UUID AS id, (q.question->>'points')::INTEGER AS points, q.correct_answer, q.explanation
+    FROM enrolled_quiz_questions(v_quiz.version_id, v_course_id, v_module_id) q
+  LOOP
+    SELECT elem INTO v_answer
+    FROM jsonb_array_elements(COALESCE(p_answers, '[]'::jsonb)) AS elem
+    WHERE elem->>'questionId' = v_question.id::text
+    LIMIT 1;
+
+    v_is_correct := v_answer IS NOT NULL
+      AND v_question.correct_answer IS NOT NULL
+      AND cardinality(normalize_quiz_answer(v_answer->'answer')) > 0
+      AND normalize_quiz_answer(v_answer->'answer') = normalize_quiz_answer(
+        to_jsonb(string_to_array(v_question.correct_answer, ','))
+      );
+
+    v_question_count := v_question_count + 1;
+    v_total_points := v_total_points + v_question.points;
+    IF v_is_correct THEN
+      v_correct_count := v_correct_count + 1;
+      v_earned_points := v_earned_points + v_question.points;
+    END IF;
+
+    v_graded := v_graded || jsonb_build_array(
+      jsonb_strip_nulls(jsonb_build_object(
+        'questionId', v_question.id,
+        'answer', COALESCE(v_answer->'answer', 'null'::jsonb),
+        'isCorrect', v_is_correct,
+        'timeSpent', COALESCE((v_answer->>'timeSpent')::INTEGER, 0),
+        'submittedAt', COALESCE(v_answer->>'submittedAt', NOW()::text),
+        'correctAnswer', CASE WHEN v_show_correct_answers THEN v_question.correct_answer END,
+        'explanation', CASE WHEN v_config.show_explanations THEN v_question.explanation END
+      ))
+    );
+
+    v_answer := NULL;
+  END LOOP;
+
+  IF v_question_count = 0 THEN
+    RAISE EXCEPTION 'Quiz has no questions';
+  END IF;
+
+  v_score := CASE WHEN v_total_points > 0 THEN round(v_earned_points * 100.0 / v_total_points) ELSE 0 END;
+  v_passed := v_score >= v_config.pass_threshold;
+
+  INSERT INTO quiz_attempts (
+    quiz_id, user_id, course_id, module_id, answers, score, passed,
+    total_points, earned_points, time_spent, completed_at, status
+  ) VALUES (
+    p_quiz_id, v_user_id, v_course_id, v_module_id, v_graded, v_score, v_passed,
+    v_total_points, v_earned_points, GREATEST(COALESCE(p_time_spent, 0), 0), NOW(), 'completed'
+  )
+  RETURNING id INTO v_attempt_id;
+
+  RETURN jsonb_build_object(
+    'attempt_id', v_attempt_id,
+    'quiz_id', p_quiz_id,
+    'course_id', v_course_id,
+    'module_id', v_module_id,
+    'score', v_score,
+    'passed', v_passed,
+    'pass_threshold', v_config.pass_threshold,
+    'total_points', v_total_points,
+    'earned_points', v_earned_points,
+    'total_questions', v_question_count,
+    'correct_answers', v_correct_count,
+    'answers', v_graded,
+    'attempt_number', v_previous_attempts + 1,
+    'max_attempts', v_config.max_attempts,
+    'attempts_remaining', GREATEST(v_config.max_attempts - v_previous_attempts - 1, 0),
+    'can_retake', v_config.allow_retake AND NOT v_passed AND v_previous_attempts + 1 < v_config.max_attempts
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION can_take_course_quiz(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION enrolled_quiz(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION enrolled_quiz_questions(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+-- Versions written by the learner must be versions of the enrolled course;
+-- create_course_version moves enrollments as the definer
+DROP POLICY IF EXISTS "course_enrollments_insert_own" ON course_enrollments;
+CREATE POLICY "course_enrollments_insert_own"
+  ON course_enrollments FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (version_id IS NULL OR course_version_in_course(version_id, course_id))
+    AND (completed_version_id IS NULL OR course_version_in_course(completed_version_id, course_id))
+  );
+
+DROP POLICY IF EXISTS "course_enrollments_update_own" ON course_enrollments;
+CREATE POLICY "course_enrollments_update_own"
+  ON course_enrollments FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (version_id IS NULL OR course_version_in_course(version_id, course_id))
+    AND (completed_version_id IS NULL OR course_version_in_course(completed_version_id, course_id))
+  );
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON FUNCTION course_version_in_course IS 'Whether a course version belongs to the given course';
+COMMENT ON FUNCTION get_quiz_questions IS 'Questions of a quiz from the caller''s enrolled course version, without answer keys';
+COMMENT ON FUNCTION grade_quiz_attempt IS 'Grade and record a quiz attempt against the caller''s enrolled course version';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, recreate grade_quiz_attempt from
+-- 20261020210000_withhold_quiz_answers_until_last_attempt and the
+-- course_enrollments_insert_own / course_enrollments_update_own policies
+-- from 20241220130000_create_courses_table, then execute:
+-- DROP FUNCTION IF EXISTS get_quiz_questions(UUID);
+-- DROP FUNCTION IF EXISTS enrolled_quiz_questions(UUID, UUID, UUID);
+-- DROP FUNCTION IF EXISTS enrolled_quiz(UUID, UUID);
+-- DROP FUNCTION IF EXISTS can_take_course_quiz(UUID, UUID);
+-- DROP FUNCTION IF EXISTS course_version_in_course(UUID, UUID);
+-- The quiz_attempts foreign keys are not restored, since attempts on
+-- removed questions may now exist.
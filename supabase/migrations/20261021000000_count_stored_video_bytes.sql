@@ -0,0 +1,155 @@
+-- =====================================================
+-- Migration: Count stored video bytes against the storage limit
+-- Created: 2026-10-21T00:00:00Z
+-- Tables: videos, video_upload_sessions, storage.objects
+-- Purpose: Storage usage was the sum of videos.file_size, which the client
+--          declares when it creates the video. Usage is now the size of the
+--          objects stored in the videos bucket for the organization's upload
+--          sessions, and complete_video_upload checks the storage limit once
+--          the assembled object is stored. The declared size is still
+--          checked when the video is created, as a pre-check.
+-- =====================================================
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Same as before, except for storage: objects in the videos bucket are kept
+-- under their upload session id. A completed session counts its assembled
+-- object; a session still uploading counts the chunks stored so far.
+CREATE OR REPLACE FUNCTION organization_usage(p_organization_id UUID)
+RETURNS TABLE (
+  users_used BIGINT,
+  pending_invitations BIGINT,
+  machines_used BIGINT,
+  storage_used_bytes BIGINT,
+  videos_used BIGINT,
+  courses_used BIGINT
+) AS $$
+DECLARE
+  v_machines BIGINT := 0;
+BEGIN
+  -- customer_machines is created outside these migrations
+  IF to_regclass('public.customer_machines') IS NOT NULL THEN
+    EXECUTE 'SELECT COUNT(*) FROM customer_machines
+             WHERE customer_id = $1 AND status IN (''active'', ''maintenance'')'
+      INTO v_machines
+      USING p_organization_id;
+  END IF;
+
+  RETURN QUERY
+  WITH members AS (
+    SELECT user_id FROM user_organizations WHERE organization_id = p_organization_id
+  ),
+  org_videos AS (
+    SELECT v.id FROM videos v
+    WHERE v.user_id IN (SELECT user_id FROM members)
+       OR v.customer_scope @> ARRAY[p_organization_id::TEXT]
+  ),
+  stored_objects AS (
+    SELECT (o.metadata->>'size')::BIGINT AS size
+    FROM storage.objects o
+    JOIN video_upload_sessions s ON s.session_id = split_part(o.name, '/', 1)
+    WHERE o.bucket_id = 'videos'
+      AND s.video_id IN (SELECT id FROM org_videos)
+      AND (o.name = s.storage_path OR NOT s.is_complete)
+  )
+  SELECT
+    (SELECT COUNT(*) FROM members),
+    (SELECT COUNT(*) FROM user_invitations
+      WHERE organization_id = p_organization_id
+        AND status = 'pending'
+        AND expires_at > NOW()),
+    v_machines,
+    (SELECT COALESCE(SUM(size), 0)::BIGINT FROM stored_objects),
+    (SELECT COUNT(*) FROM org_videos),
+    (SELECT COUNT(*) FROM courses WHERE user_id IN (SELECT user_id FROM members));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION organization_usage(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Same as before, and the stored object must fit the organization's storage
+-- limit. The check runs after the session is marked complete, so usage
+-- counts the assembled object instead of its chunks; going over the limit
+-- raises 53400 and rolls the completion back.
+CREATE OR REPLACE FUNCTION complete_video_upload(
+  p_session_id TEXT,
+  p_storage_path TEXT,
+  p_checksum TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session video_upload_sessions%ROWTYPE;
+  v_stored_bytes BIGINT;
+  v_manifest JSONB;
+BEGIN
+  SELECT * INTO v_session
+  FROM video_upload_sessions
+  WHERE session_id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Upload session % not found', p_session_id;
+  END IF;
+
+  IF v_session.is_complete THEN
+    RETURN v_session.manifest;
+  END IF;
+
+  SELECT (o.metadata->>'size')::BIGINT INTO v_stored_bytes
+  FROM storage.objects o
+  WHERE o.bucket_id = 'videos' AND o.name = p_storage_path;
+
+  IF v_stored_bytes IS DISTINCT FROM v_session.total_size THEN
+    RAISE EXCEPTION 'Size mismatch: stored % bytes, expected %', COALESCE(v_stored_bytes, 0), v_session.total_size;
+  END IF;
+
+  IF p_checksum !~ '^[0-9a-f]{64}$' THEN
+    RAISE EXCEPTION 'Invalid checksum for upload session %', p_session_id;
+  END IF;
+
+  v_manifest := jsonb_build_object(
+    'video_id', v_session.video_id,
+    'session_id', v_session.session_id,
+    'mime_type', v_session.mime_type,
+    'total_size', v_session.total_size,
+    'checksum', p_checksum,
+    'storage_path', p_storage_path
+  );
+
+  UPDATE video_upload_sessions
+  SET is_complete = true,
+      checksum = p_checksum,
+      storage_path = p_storage_path,
+      manifest = v_manifest,
+      uploaded_chunks = v_session.total_chunks,
+      uploaded_bytes = v_session.total_size,
+      assembled_at = NOW(),
+      last_activity = NOW()
+  WHERE session_id = p_session_id;
+
+  -- The video records what was stored, not what the client declared
+  UPDATE videos SET file_size = v_stored_bytes WHERE id = v_session.video_id;
+
+  PERFORM enforce_plan_limit(primary_organization_id(v_session.user_id), 'storage', 0);
+
+  RETURN v_manifest;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Service role only; the edge function checks the caller owns the session
+REVOKE EXECUTE ON FUNCTION complete_video_upload(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON FUNCTION organization_usage IS 'Members, pending invitations, machines, stored video bytes, videos and courses counted against an organization''s plan';
+COMMENT ON FUNCTION complete_video_upload IS 'Finalize an upload session once the edge function has stored and hashed the assembled object, if it fits the storage limit';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, recreate organization_usage from
+-- 20261020020000_add_plan_entitlements.sql and complete_video_upload from
+-- 20261020190000_assemble_video_uploads_server_side.sql
@@ -0,0 +1,99 @@
+-- =====================================================
+-- Migration: Enforce read-only grace in row level security
+-- Created: 2026-10-21T01:00:00Z
+-- Tables: videos, courses, user_invitations and the other content tables
+-- Purpose: Grace and suspension only refused new resources through
+--          enforce_plan_limit; videos, courses and the rest could still
+--          be edited and deleted through RLS. Restrictive policies now
+--          refuse all writes to content tables while the caller's
+--          organization is in grace or suspended. Learner progress and
+--          billing stay writable so learning goes on and the invoice can
+--          be paid.
+-- =====================================================
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- The caller's primary organization decides, as for plan limits. Callers
+-- without an organization and platform admins are never on hold.
+CREATE OR REPLACE FUNCTION is_organization_writable()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+      (SELECT status NOT IN ('grace', 'suspended')
+       FROM organizations
+       WHERE id = primary_organization_id(auth.uid())),
+      true
+    )
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Add the restrictive billing-hold policies to a table. Reads are left
+-- alone: members keep access during grace. Tables created later call this
+-- after enabling RLS.
+CREATE OR REPLACE FUNCTION require_writable_organization_policies(p_table REGCLASS)
+RETURNS VOID AS $$
+DECLARE
+  v_name TEXT := (SELECT relname FROM pg_class WHERE oid = p_table);
+BEGIN
+  EXECUTE format('DROP POLICY IF EXISTS %I ON %s', v_name || '_billing_hold_insert', p_table);
+  EXECUTE format('DROP POLICY IF EXISTS %I ON %s', v_name || '_billing_hold_update', p_table);
+  EXECUTE format('DROP POLICY IF EXISTS %I ON %s', v_name || '_billing_hold_delete', p_table);
+
+  EXECUTE format(
+    'CREATE POLICY %I ON %s AS RESTRICTIVE FOR INSERT TO authenticated
+       WITH CHECK ((SELECT is_organization_writable()))',
+    v_name || '_billing_hold_insert', p_table
+  );
+  EXECUTE format(
+    'CREATE POLICY %I ON %s AS RESTRICTIVE FOR UPDATE TO authenticated
+       USING ((SELECT is_organization_writable())) WITH CHECK ((SELECT is_organization_writable()))',
+    v_name || '_billing_hold_update', p_table
+  );
+  EXECUTE format(
+    'CREATE POLICY %I ON %s AS RESTRICTIVE FOR DELETE TO authenticated
+       USING ((SELECT is_organization_writable()))',
+    v_name || '_billing_hold_delete', p_table
+  );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION require_writable_organization_policies(REGCLASS) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+-- Content an organization authors; customer_machines is created outside
+-- these migrations
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'videos', 'video_metadata', 'video_thumbnails', 'video_transcripts', 'video_trim_segments',
+    'video_upload_sessions', 'video_upload_chunks',
+    'courses', 'course_modules', 'course_quizzes', 'course_versions', 'quiz_configurations',
+    'customer_scopes', 'user_invitations', 'customer_machines'
+  ]
+  LOOP
+    IF to_regclass('public.' || v_table) IS NOT NULL THEN
+      PERFORM require_writable_organization_policies(to_regclass('public.' || v_table));
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON FUNCTION is_organization_writable() IS 'For RLS policies: whether the caller''s organization is out of dunning grace and suspension';
+COMMENT ON FUNCTION require_writable_organization_policies(REGCLASS) IS 'Add restrictive policies that refuse writes while the caller''s organization is in grace or suspended';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, drop the <table>_billing_hold_insert,
+-- _update and _delete policies, then execute:
+-- DROP FUNCTION IF EXISTS require_writable_organization_policies(REGCLASS);
+-- DROP FUNCTION IF EXISTS is_organization_writable();
@@ -0,0 +1,53 @@
+-- =====================================================
+-- Migration: Freeze what an upload session is for
+-- Created: 2026-10-21T02:00:00Z
+-- Tables: video_upload_sessions
+-- Purpose: video_upload_sessions_update_own only checks the owner, so an
+--          owner could re-point an open session at another user's video or
+--          rewrite the declared size and chunking that assembly and the
+--          storage limit are measured against. Owners now only update the
+--          progress columns.
+-- =====================================================
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+-- Same as before, and the video, owner and file layout are fixed when the
+-- session is created; owners keep updating progress through
+-- video_upload_sessions_update_own
+CREATE OR REPLACE FUNCTION keep_video_upload_result()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    NEW.video_id := OLD.video_id;
+    NEW.user_id := OLD.user_id;
+    NEW.session_id := OLD.session_id;
+    NEW.original_filename := OLD.original_filename;
+    NEW.mime_type := OLD.mime_type;
+    NEW.total_size := OLD.total_size;
+    NEW.chunk_size := OLD.chunk_size;
+    NEW.total_chunks := OLD.total_chunks;
+    NEW.expires_at := OLD.expires_at;
+
+    NEW.is_complete := OLD.is_complete;
+    NEW.checksum := OLD.checksum;
+    NEW.storage_path := OLD.storage_path;
+    NEW.manifest := OLD.manifest;
+    NEW.assembled_at := OLD.assembled_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON FUNCTION keep_video_upload_result() IS 'Keep the video, file layout and assembly result of an upload session unless the service role sets them';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, recreate keep_video_upload_result() from
+-- 20261020190000_assemble_video_uploads_server_side.sql
@@ -0,0 +1,173 @@
+-- =====================================================
+-- Migration: Attribute playback events and keep analytics with the owner
+-- Created: 2026-10-21T03:00:00Z
+-- Tables: video_playback_events, videos
+-- Purpose: Signed-in viewers could record unattributed events, and every
+--          'view' row bumped videos.view_count, so views and popular
+--          segments could be inflated without limit. Events from signed-in
+--          viewers are now always theirs, a view counts once per viewing
+--          session, and get_video_analytics is limited to the video's
+--          owner and admins, like the events themselves.
+-- =====================================================
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+-- Count a view once per (video_id, session_id); repeated 'view' events of a
+-- session are kept for analytics but do not add to view_count
+CREATE OR REPLACE FUNCTION increment_video_view_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.event_type = 'view' AND NOT EXISTS (
+    SELECT 1 FROM video_playback_events
+    WHERE video_id = NEW.video_id
+      AND session_id = NEW.session_id
+      AND event_type = 'view'
+      AND id <> NEW.id
+  ) THEN
+    UPDATE videos SET view_count = view_count + 1 WHERE id = NEW.video_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Same as before, but only for the video's owner and admins, matching
+-- video_playback_events_select_video_owner
+CREATE OR REPLACE FUNCTION get_video_analytics(p_video_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_duration INTEGER;
+  v_bucket INTEGER;
+  v_sessions BIGINT;
+  v_result JSONB;
+BEGIN
+  SELECT duration INTO v_duration
+  FROM videos
+  WHERE id = p_video_id
+    AND (
+      user_id = auth.uid()
+      OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+    );
+
+  IF v_duration IS NULL THEN
+    RAISE EXCEPTION 'Video not found or access denied';
+  END IF;
+
+  v_bucket := GREATEST(5, ceil(v_duration / 20.0))::INTEGER;
+
+  SELECT COUNT(DISTINCT session_id) INTO v_sessions
+  FROM video_playback_events
+  WHERE video_id = p_video_id AND event_type IN ('view', 'play');
+
+  SELECT jsonb_build_object(
+    'video_id', p_video_id,
+    'total_views', v_sessions,
+    'unique_viewers', (
+      SELECT COUNT(DISTINCT COALESCE(user_id::text, session_id))
+      FROM video_playback_events
+      WHERE video_id = p_video_id AND event_type IN ('view', 'play')
+    ),
+    'average_watch_time', COALESCE((
+      SELECT round(AVG(session_watched), 1)
+      FROM (
+        SELECT MAX(watched_seconds) AS session_watched
+        FROM video_playback_events
+        WHERE video_id = p_video_id AND watched_seconds IS NOT NULL
+        GROUP BY session_id
+      ) per_session
+    ), 0),
+    'completion_rate', CASE
+      WHEN v_sessions = 0 THEN 0
+      ELSE round((
+        SELECT COUNT(DISTINCT session_id)
+        FROM video_playback_events
+        WHERE video_id = p_video_id AND event_type = 'complete'
+      )::numeric / v_sessions, 4)
+    END,
+    'popular_segments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'start_time', bucket_start,
+        'end_time', bucket_end,
+        'view_count', view_count
+      ) ORDER BY view_count DESC, bucket_start)
+      FROM (
+        SELECT
+          b.bucket_start,
+          LEAST(b.bucket_start + v_bucket, v_duration) AS bucket_end,
+          COUNT(DISTINCT e.session_id) AS view_count
+        FROM generate_series(0, v_duration - 1, v_bucket) AS b(bucket_start)
+        JOIN video_playback_events e
+          ON e.video_id = p_video_id
+          AND e.segment_start_seconds IS NOT NULL
+          AND e.segment_start_seconds < b.bucket_start + v_bucket
+          AND e.segment_end_seconds > b.bucket_start
+        GROUP BY b.bucket_start
+        ORDER BY view_count DESC, b.bucket_start
+        LIMIT 10
+      ) segments
+    ), '[]'::jsonb),
+    'search_queries', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('query', query, 'count', query_count) ORDER BY query_count DESC)
+      FROM (
+        SELECT query, COUNT(*) AS query_count
+        FROM search_analytics
+        WHERE clicked_result_id = p_video_id
+        GROUP BY query
+        ORDER BY query_count DESC
+        LIMIT 10
+      ) queries
+    ), '[]'::jsonb),
+    'device_breakdown', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('device_type', device_type, 'count', device_count) ORDER BY device_count DESC)
+      FROM (
+        SELECT COALESCE(device_type, 'unknown') AS device_type, COUNT(DISTINCT session_id) AS device_count
+        FROM video_playback_events
+        WHERE video_id = p_video_id AND event_type IN ('view', 'play')
+        GROUP BY COALESCE(device_type, 'unknown')
+      ) devices
+    ), '[]'::jsonb),
+    -- The player does not report location; kept for the VideoAnalytics shape
+    'geographic_breakdown', '[]'::jsonb
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =====================================================
+
+-- Signed-in viewers record events as themselves; only anonymous viewers
+-- leave user_id empty
+DROP POLICY IF EXISTS "video_playback_events_insert_viewer" ON video_playback_events;
+CREATE POLICY "video_playback_events_insert_viewer"
+  ON video_playback_events FOR INSERT
+  WITH CHECK (
+    (
+      (auth.uid() IS NULL AND user_id IS NULL)
+      OR user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM videos
+      WHERE videos.id = video_playback_events.video_id
+    )
+  );
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON FUNCTION increment_video_view_count() IS 'Add one to videos.view_count for the first view event of a viewing session';
+COMMENT ON FUNCTION get_video_analytics IS 'Viewing analytics for a video built from video_playback_events; owner and admins only';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, recreate increment_video_view_count(),
+-- get_video_analytics() and the video_playback_events_insert_viewer policy
+-- from 20261019140000_create_video_playback_events.sql
@@ -0,0 +1,170 @@
+-- =====================================================
+-- Migration: Publish courses atomically and restore versions in full
+-- Created: 2026-10-21T04:00:00Z
+-- Tables: courses, course_modules, course_quizzes
+-- Purpose: Publishing set the course to published and then created its
+--          version in a separate call, so a failed snapshot left a
+--          published course behind a stale current_version_id.
+--          publish_course does both in one transaction. restore_course_version
+--          silently skipped snapshot rows whose ids had moved to another
+--          course and could leave modules at their temporary order_index;
+--          it now raises and renumbers the modules.
+-- =====================================================
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- Mark a course published and snapshot it as its next version, in one
+-- transaction, so enrollments never start on a publish without a version.
+-- Owner only; create_course_version checks ownership again.
+CREATE OR REPLACE FUNCTION publish_course(
+  p_course_id UUID,
+  p_description TEXT DEFAULT NULL,
+  p_migration_policy TEXT DEFAULT 'keep'
+)
+RETURNS course_versions AS $$
+BEGIN
+  UPDATE courses
+  SET status = 'published',
+      published_at = NOW()
+  WHERE id = p_course_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Course not found or not owned by caller' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN create_course_version(p_course_id, p_description, p_migration_policy);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same as before, but a snapshot row that can no longer be written to this
+-- course aborts the restore, and modules are numbered from 0 afterwards
+CREATE OR REPLACE FUNCTION restore_course_version(p_version_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_course_id UUID;
+  v_snapshot JSONB;
+  v_written INTEGER;
+BEGIN
+  SELECT v.course_id, v.snapshot INTO v_course_id, v_snapshot
+  FROM course_versions v
+  JOIN courses c ON c.id = v.course_id
+  WHERE v.id = p_version_id AND c.user_id = auth.uid()
+  FOR UPDATE OF c;
+
+  IF v_course_id IS NULL THEN
+    RAISE EXCEPTION 'Version not found or not owned by caller' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE courses SET
+    title = v_snapshot->'course'->>'title',
+    description = v_snapshot->'course'->>'description',
+    difficulty_level = v_snapshot->'course'->>'difficulty_level',
+    category = v_snapshot->'course'->>'category',
+    tags = ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_snapshot->'course'->'tags', '[]'::jsonb))),
+    total_duration = COALESCE((v_snapshot->'course'->>'total_duration')::INTEGER, 0),
+    metadata = COALESCE(v_snapshot->'course'->'metadata', '{}'::jsonb),
+    status = 'draft'
+  WHERE id = v_course_id;
+
+  -- Move current rows out of the way of UNIQUE(course_id, order_index)
+  UPDATE course_modules SET order_index = order_index + 1000000 WHERE course_id = v_course_id;
+
+  DELETE FROM course_quizzes
+  WHERE course_id = v_course_id
+    AND id NOT IN (SELECT (q->>'id')::UUID FROM jsonb_array_elements(v_snapshot->'quizzes') q);
+
+  DELETE FROM course_modules
+  WHERE course_id = v_course_id
+    AND id NOT IN (SELECT (m->>'id')::UUID FROM jsonb_array_elements(v_snapshot->'modules') m);
+
+  INSERT INTO course_modules (
+    id, course_id, title, description, type, content_id, content_data,
+    order_index, estimated_duration, is_required, unlock_after_previous
+  )
+  SELECT
+    r.id, v_course_id, r.title, r.description, r.type, r.content_id, COALESCE(r.content_data, '{}'::jsonb),
+    r.order_index, COALESCE(r.estimated_duration, 0), COALESCE(r.is_required, true), COALESCE(r.unlock_after_previous, true)
+  FROM jsonb_populate_recordset(NULL::course_modules, v_snapshot->'modules') r
+  ON CONFLICT (id) DO UPDATE SET
+    title = EXCLUDED.title,
+    description = EXCLUDED.description,
+    type = EXCLUDED.type,
+    content_id = EXCLUDED.content_id,
+    content_data = EXCLUDED.content_data,
+    order_index = EXCLUDED.order_index,
+    estimated_duration = EXCLUDED.estimated_duration,
+    is_required = EXCLUDED.is_required,
+    unlock_after_previous = EXCLUDED.unlock_after_previous
+  WHERE course_modules.course_id = v_course_id;
+
+  -- A snapshot row whose id now belongs to another course is skipped by the
+  -- conflict clause; refuse the restore rather than leave it out
+  GET DIAGNOSTICS v_written = ROW_COUNT;
+  IF v_written <> jsonb_array_length(v_snapshot->'modules') THEN
+    RAISE EXCEPTION 'Cannot restore version: % of its modules now belong to another course',
+      jsonb_array_length(v_snapshot->'modules') - v_written
+      USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO course_quizzes (
+    id, course_id, module_id, question, type, options, points, time_limit, order_index
+  )
+  SELECT
+    r.id, v_course_id, r.module_id, r.question, r.type, COALESCE(r.options, '{}'),
+    COALESCE(r.points, 1), r.time_limit, COALESCE(r.order_index, 0)
+  FROM jsonb_populate_recordset(NULL::course_quizzes, v_snapshot->'quizzes') r
+  ON CONFLICT (id) DO UPDATE SET
+    module_id = EXCLUDED.module_id,
+    question = EXCLUDED.question,
+    type = EXCLUDED.type,
+    options = EXCLUDED.options,
+    points = EXCLUDED.points,
+    time_limit = EXCLUDED.time_limit,
+    order_index = EXCLUDED.order_index
+  WHERE course_quizzes.course_id = v_course_id;
+
+  GET DIAGNOSTICS v_written = ROW_COUNT;
+  IF v_written <> jsonb_array_length(v_snapshot->'quizzes') THEN
+    RAISE EXCEPTION 'Cannot restore version: % of its quiz questions now belong to another course',
+      jsonb_array_length(v_snapshot->'quizzes') - v_written
+      USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO course_quiz_answer_keys (question_id, correct_answer, explanation)
+  SELECT (q->>'id')::UUID, q->'answer_key'->>'correct_answer', q->'answer_key'->>'explanation'
+  FROM jsonb_array_elements(v_snapshot->'quizzes') q
+  JOIN course_quizzes cq ON cq.id = (q->>'id')::UUID AND cq.course_id = v_course_id
+  WHERE q->'answer_key' IS NOT NULL AND jsonb_typeof(q->'answer_key') = 'object'
+  ON CONFLICT (question_id) DO UPDATE SET
+    correct_answer = EXCLUDED.correct_answer,
+    explanation = EXCLUDED.explanation;
+
+  -- Number the modules 0..n-1 again, in two steps to stay clear of
+  -- UNIQUE(course_id, order_index)
+  UPDATE course_modules SET order_index = order_index + 2000000 WHERE course_id = v_course_id;
+
+  UPDATE course_modules m
+  SET order_index = r.position
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY order_index, id) - 1 AS position
+    FROM course_modules
+    WHERE course_id = v_course_id
+  ) r
+  WHERE m.id = r.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- DOCUMENTATION
+-- =====================================================
+COMMENT ON FUNCTION publish_course IS 'Publish a course and snapshot it as its next version in one transaction; course owner only';
+COMMENT ON FUNCTION restore_course_version IS 'Restore a snapshot into the course as a new draft; course owner only';
+
+-- =====================================================
+-- ROLLBACK INSTRUCTIONS (for documentation only)
+-- =====================================================
+-- To rollback this migration, recreate restore_course_version() from
+-- 20261019230000_create_course_versions.sql, then execute:
+-- DROP FUNCTION IF EXISTS publish_course(UUID, TEXT, TEXT);